@@ -0,0 +1,37 @@
+import request from 'supertest';
+import app from '../index';
+
+// Importing the app starts the server; keep it waiting for a database that never answers
+jest.mock('../utils/database', () => ({
+  connectToDatabase: jest.fn(() => new Promise(() => undefined)),
+  performHealthCheck: jest.fn().mockResolvedValue({ status: 'healthy' })
+}));
+
+describe('Abuse detection on the API', () => {
+  it('bans an IP that keeps sending suspicious requests from every route', async () => {
+    const attacker = '203.0.113.50';
+
+    // The default ban threshold is ten suspicious requests within an hour
+    for (let i = 0; i < 9; i++) {
+      const response = await request(app)
+        .post('/api/auth/login')
+        .set('X-Forwarded-For', attacker)
+        .send({ email: "admin@example.com' UNION SELECT password FROM users --", password: 'x' })
+        .expect(400);
+      expect(response.body.error.code).toBe('SUSPICIOUS_ACTIVITY');
+    }
+
+    const banned = await request(app)
+      .get('/api/sessions')
+      .query({ q: '<script>alert(1)</script>' })
+      .set('X-Forwarded-For', attacker)
+      .expect(403);
+    expect(banned.body.error.code).toBe('IP_BANNED');
+    expect(Number(banned.headers['retry-after'])).toBeGreaterThan(0);
+
+    // Harmless requests from the banned IP are refused too, other IPs are unaffected
+    const health = await request(app).get('/health').set('X-Forwarded-For', attacker).expect(403);
+    expect(health.body.error.code).toBe('IP_BANNED');
+    await request(app).get('/health').set('X-Forwarded-For', '198.51.100.20').expect(200);
+  });
+});
@@ -0,0 +1,206 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AuditService, AuditActor, GENESIS_HASH } from '../services/auditService';
+import { AuditLog } from '../models/AuditLog';
+import { AuditAction, UserRole } from '../types';
+import { runWithTenant } from '../utils/tenantContext';
+
+// In-memory stand-in for the collection, enforcing the unique (organizationId, sequence) index
+const mockEntries: any[] = [];
+
+jest.mock('../models/AuditLog', () => {
+  const chainOf = (organizationId: string | null) =>
+    mockEntries.filter(entry => (entry.organizationId ?? null) === organizationId);
+  const cursor = (entries: any[]) => {
+    const iterable: any = {
+      close: jest.fn(),
+      [Symbol.asyncIterator]: async function* () {
+        yield* entries;
+      }
+    };
+    return iterable;
+  };
+  return {
+    AuditLog: {
+      findChainHead: jest.fn(async (organizationId: string | undefined) => {
+        const chain = chainOf(organizationId ?? null);
+        return chain.sort((a, b) => b.sequence - a.sequence)[0] ?? null;
+      }),
+      create: jest.fn(async (fields: any) => {
+        await new Promise(resolve => setImmediate(resolve));
+        if (mockEntries.some(entry =>
+          (entry.organizationId ?? null) === (fields.organizationId ?? null) && entry.sequence === fields.sequence)) {
+          throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+        }
+        const entry = JSON.parse(JSON.stringify(fields));
+        entry.timestamp = new Date(entry.timestamp);
+        mockEntries.push(entry);
+        return entry;
+      }),
+      find: jest.fn((filter: any) => ({
+        sort: () => ({
+          cursor: () => cursor(chainOf(filter.organizationId).sort((a, b) => a.sequence - b.sequence))
+        })
+      }))
+    }
+  };
+});
+
+const mockAuditLog = AuditLog as jest.Mocked<any>;
+
+describe('AuditService', () => {
+  const organizationId = uuidv4();
+  const actor: AuditActor = {
+    userId: uuidv4(),
+    role: UserRole.INTERVIEWER,
+    organizationId,
+    ip: '203.0.113.7',
+    userAgent: 'jest',
+    channel: 'http'
+  };
+  const flag = (flagged: boolean) => ({
+    action: AuditAction.OBSERVATION_FLAG,
+    targetType: 'observation' as const,
+    targetId: uuidv4(),
+    sessionId: uuidv4(),
+    before: { flagged: !flagged },
+    after: { flagged }
+  });
+
+  beforeEach(() => {
+    mockEntries.length = 0;
+    jest.clearAllMocks();
+  });
+
+  it('chains each entry to the hash of the one before it', async () => {
+    const first = await AuditService.append(actor, flag(true));
+    const second = await AuditService.append(actor, flag(false));
+
+    expect(first.sequence).toBe(1);
+    expect(first.previousHash).toBe(GENESIS_HASH);
+    expect(first.organizationId).toBe(organizationId);
+    expect(first.ip).toBe('203.0.113.7');
+    expect(second.sequence).toBe(2);
+    expect(second.previousHash).toBe(first.hash);
+    expect(second.hash).toBe(AuditService.hashOf(second));
+  });
+
+  it('keeps a separate chain per organization', async () => {
+    const otherOrganization = uuidv4();
+    await AuditService.append(actor, flag(true));
+    const other = await AuditService.append(actor, { ...flag(true), organizationId: otherOrganization });
+
+    expect(other.organizationId).toBe(otherOrganization);
+    expect(other.sequence).toBe(1);
+    expect(other.previousHash).toBe(GENESIS_HASH);
+  });
+
+  it('files entries under the organization of the current request', async () => {
+    const scoped = uuidv4();
+    const entry = await runWithTenant({ organizationId: scoped, crossTenant: false },
+      () => AuditService.append({ ...actor, organizationId: undefined }, flag(true)));
+
+    expect(entry.organizationId).toBe(scoped);
+  });
+
+  it('serializes concurrent appends to the same chain', async () => {
+    const entries = await Promise.all([1, 2, 3, 4].map(() => AuditService.append(actor, flag(true))));
+
+    expect(entries.map(entry => entry.sequence).sort()).toEqual([1, 2, 3, 4]);
+    expect(mockAuditLog.create).toHaveBeenCalledTimes(4);
+    expect((await AuditService.verifyChain(organizationId)).valid).toBe(true);
+  });
+
+  it('retries when another instance took the sequence number', async () => {
+    await AuditService.append(actor, flag(true));
+    const head = mockEntries[0];
+    // Another server appended between our head lookup and insert
+    mockAuditLog.findChainHead.mockResolvedValueOnce(null);
+
+    const entry = await AuditService.append(actor, flag(false));
+
+    expect(mockAuditLog.create).toHaveBeenCalledTimes(3);
+    expect(entry.sequence).toBe(2);
+    expect(entry.previousHash).toBe(head.hash);
+  });
+
+  it('logs instead of throwing when the entry cannot be written', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockAuditLog.create.mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(AuditService.record(actor, flag(true))).resolves.toBeNull();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  describe('verifyChain', () => {
+    beforeEach(async () => {
+      for (let i = 0; i < 3; i++) {
+        await AuditService.append(actor, flag(i % 2 === 0));
+      }
+    });
+
+    it('accepts an untouched chain', async () => {
+      await expect(AuditService.verifyChain(organizationId))
+        .resolves.toEqual({ organizationId, valid: true, checked: 3 });
+    });
+
+    it('detects an edited entry', async () => {
+      mockEntries[1].after = { flagged: 'tampered' };
+
+      const result = await AuditService.verifyChain(organizationId);
+
+      expect(result.valid).toBe(false);
+      expect(result.checked).toBe(1);
+      expect(result.brokenAt).toMatchObject({ sequence: 2, reason: 'hash does not match the entry contents' });
+    });
+
+    it('detects a removed entry', async () => {
+      mockEntries.splice(1, 1);
+
+      const result = await AuditService.verifyChain(organizationId);
+
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt).toMatchObject({ sequence: 3, reason: 'expected sequence 2, found 3' });
+    });
+
+    it('detects an entry re-hashed after editing', async () => {
+      mockEntries[1].actorId = uuidv4();
+      mockEntries[1].hash = AuditService.hashOf(mockEntries[1]);
+
+      const result = await AuditService.verifyChain(organizationId);
+
+      expect(result.brokenAt).toMatchObject({ sequence: 3, reason: 'previousHash does not match the preceding entry' });
+    });
+  });
+
+  it('hashes before/after values independently of key order', () => {
+    const entry = {
+      organizationId,
+      entryId: uuidv4(),
+      sequence: 1,
+      previousHash: GENESIS_HASH,
+      timestamp: new Date(),
+      actorId: actor.userId,
+      actorRole: actor.role,
+      action: AuditAction.SESSION_STATUS_CHANGE,
+      targetType: 'session' as const,
+      targetId: uuidv4(),
+      channel: 'http' as const
+    };
+
+    expect(AuditService.hashOf({ ...entry, after: { status: 'completed', endTime: null } }))
+      .toBe(AuditService.hashOf({ ...entry, after: { endTime: null, status: 'completed' } }));
+  });
+});
+
+describe('AuditLog model', () => {
+  const { AuditLog: RealAuditLog } = jest.requireActual('../models/AuditLog');
+
+  it.each([
+    ['updateOne', () => RealAuditLog.updateOne({ entryId: uuidv4() }, { actorId: uuidv4() })],
+    ['deleteMany', () => RealAuditLog.deleteMany({})],
+    ['findOneAndUpdate', () => RealAuditLog.findOneAndUpdate({ entryId: uuidv4() }, { after: {} })]
+  ])('rejects %s', async (_name, run) => {
+    await expect(run().exec()).rejects.toThrow('Audit log entries cannot be modified or deleted');
+  });
+});
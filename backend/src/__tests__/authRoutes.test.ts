@@ -4,7 +4,7 @@ import mongoose from 'mongoose';
 import { MongoMemoryServer } from 'mongodb-memory-server';
 import { v4 as uuidv4 } from 'uuid';
 import authRoutes from '../routes/authRoutes';
-import { User } from '../models';
+import { User, Organization } from '../models';
 import { InterviewSession } from '../models/InterviewSession';
 import { UserRole, SessionStatus } from '../types';
 import { generateToken } from '../middleware/auth';
@@ -62,6 +62,7 @@ describe('Authentication Routes', () => {
     // Clear database before each test
     await User.deleteMany({});
     await InterviewSession.deleteMany({});
+    await Organization.deleteMany({});
   });
 
   describe('POST /api/auth/register', () => {
@@ -157,6 +158,78 @@ describe('Authentication Routes', () => {
       expect(response.status).toBe(400);
       expect(response.body.success).toBe(false);
     });
+
+    it('should not allow self-registration as admin', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({
+          email: 'self-admin@test.com',
+          password: 'password123',
+          name: 'Self Admin',
+          role: UserRole.ADMIN
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should place new users in the default organization', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({
+          email: 'org-member@test.com',
+          password: 'password123',
+          name: 'Org Member',
+          role: UserRole.CANDIDATE
+        });
+
+      expect(response.status).toBe(201);
+      const defaultOrg = await Organization.findDefault();
+      expect(response.body.data.user.organizationId).toBe(defaultOrg!.organizationId);
+    });
+
+    it('should reject an unknown organization slug', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({
+          email: 'lost@test.com',
+          password: 'password123',
+          name: 'Lost User',
+          role: UserRole.CANDIDATE,
+          organizationSlug: 'no-such-org'
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Organization not found');
+    });
+
+    it('should let candidates but not interviewers join a named organization', async () => {
+      const organization = await Organization.create({ organizationId: uuidv4(), name: 'Acme', slug: 'acme' });
+
+      const candidate = await request(app)
+        .post('/api/auth/register')
+        .send({
+          email: 'acme-candidate@test.com',
+          password: 'password123',
+          name: 'Acme Candidate',
+          role: UserRole.CANDIDATE,
+          organizationSlug: 'acme'
+        });
+      expect(candidate.status).toBe(201);
+      expect(candidate.body.data.user.organizationId).toBe(organization.organizationId);
+
+      const interviewer = await request(app)
+        .post('/api/auth/register')
+        .send({
+          email: 'acme-interviewer@test.com',
+          password: 'password123',
+          name: 'Acme Interviewer',
+          role: UserRole.INTERVIEWER,
+          organizationSlug: 'acme'
+        });
+      expect(interviewer.status).toBe(403);
+      expect(await User.findOne({ email: 'acme-interviewer@test.com' })).toBeNull();
+    });
   });
 
   describe('POST /api/auth/login', () => {
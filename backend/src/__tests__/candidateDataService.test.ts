@@ -0,0 +1,283 @@
+import fs from 'fs';
+import { createHash } from 'crypto';
+import zlib from 'zlib';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { CandidateDataService, ERASED_CANDIDATE_NAME } from '../services/candidateDataService';
+import { User } from '../models/User';
+import { InterviewSession } from '../models/InterviewSession';
+import { DetectionEvent } from '../models/DetectionEvent';
+import { ManualObservation } from '../models/ManualObservation';
+import { ProctoringReport } from '../models/ProctoringReport';
+import { IdentityReference } from '../models/IdentityReference';
+import { SessionInvitation } from '../models/SessionInvitation';
+import { SessionAssignment } from '../models/SessionAssignment';
+import { DataSubjectRequest } from '../models/DataSubjectRequest';
+import { DataRemovalService } from '../services/dataRemovalService';
+import { videoStorageService } from '../services/videoStorageService';
+import { UserRole } from '../types';
+
+jest.mock('../models/User', () => ({
+  User: { findOne: jest.fn(), deleteOne: jest.fn(), countDocuments: jest.fn() }
+}));
+jest.mock('../models/InterviewSession', () => ({
+  InterviewSession: { find: jest.fn(), deleteMany: jest.fn(), updateMany: jest.fn(), countDocuments: jest.fn() }
+}));
+jest.mock('../models/DetectionEvent', () => ({
+  DetectionEvent: { find: jest.fn(), deleteMany: jest.fn(), countDocuments: jest.fn() }
+}));
+jest.mock('../models/ManualObservation', () => ({ ManualObservation: { find: jest.fn(), deleteMany: jest.fn() } }));
+jest.mock('../models/ProctoringReport', () => ({
+  ProctoringReport: { find: jest.fn(), countDocuments: jest.fn() }
+}));
+jest.mock('../models/IdentityReference', () => ({ IdentityReference: { find: jest.fn(), deleteMany: jest.fn() } }));
+jest.mock('../models/SessionInvitation', () => ({
+  SessionInvitation: { find: jest.fn(), deleteMany: jest.fn(), updateMany: jest.fn() }
+}));
+jest.mock('../models/SessionAssignment', () => ({ SessionAssignment: { deleteMany: jest.fn() } }));
+jest.mock('../models/DataSubjectRequest', () => ({
+  DataSubjectRequest: { create: jest.fn(), findByRequestId: jest.fn(), findByCandidate: jest.fn() }
+}));
+jest.mock('../services/dataRemovalService', () => ({
+  DataRemovalService: {
+    recordingVideoId: jest.fn(),
+    removeRecording: jest.fn(),
+    removeReport: jest.fn(),
+    removeReportExports: jest.fn()
+  }
+}));
+jest.mock('../services/videoStorageService', () => ({
+  videoStorageService: { getVideoStream: jest.fn(), getRemoteVideoUrl: jest.fn() }
+}));
+
+const mockUser = User as jest.Mocked<any>;
+const mockSession = InterviewSession as jest.Mocked<any>;
+const mockEvent = DetectionEvent as jest.Mocked<any>;
+const mockObservation = ManualObservation as jest.Mocked<any>;
+const mockReport = ProctoringReport as jest.Mocked<any>;
+const mockIdentity = IdentityReference as jest.Mocked<any>;
+const mockInvitation = SessionInvitation as jest.Mocked<any>;
+const mockAssignment = SessionAssignment as jest.Mocked<any>;
+const mockRequest = DataSubjectRequest as jest.Mocked<any>;
+const mockRemoval = DataRemovalService as jest.Mocked<any>;
+const mockVideoStorage = videoStorageService as jest.Mocked<any>;
+
+// find() is chained with sort()
+const query = (result: any[]) => {
+  const chain: any = Promise.resolve(result);
+  chain.sort = () => chain;
+  return chain;
+};
+
+// Entry names in an uncompressed tar buffer
+const tarEntries = (tar: Buffer): Array<{ name: string; content: Buffer }> => {
+  const entries = [];
+  let offset = 0;
+  while (offset + 512 <= tar.length && tar[offset] !== 0) {
+    const name = tar.toString('utf8', offset, offset + 100).replace(/\0.*$/s, '');
+    const size = parseInt(tar.toString('ascii', offset + 124, offset + 136).replace(/\0.*$/s, ''), 8);
+    entries.push({ name, content: tar.subarray(offset + 512, offset + 512 + size) });
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return entries;
+};
+
+describe('CandidateDataService', () => {
+  const organizationId = uuidv4();
+  const candidateId = uuidv4();
+  const adminId = uuidv4();
+  let candidate: any;
+  let sessions: any[];
+  let reports: any[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    candidate = {
+      userId: candidateId,
+      organizationId,
+      name: 'Jamie Doe',
+      email: 'jamie@example.com',
+      role: UserRole.CANDIDATE,
+      isActive: true,
+      save: jest.fn()
+    };
+    sessions = [{
+      sessionId: uuidv4(),
+      organizationId,
+      candidateId,
+      candidateName: 'Jamie Doe',
+      videoUrl: `/api/videos/${uuidv4()}`
+    }];
+    reports = [{ reportId: uuidv4(), candidateId, candidateName: 'Jamie Doe', save: jest.fn() }];
+
+    mockUser.findOne.mockResolvedValue(candidate);
+    mockSession.find.mockReturnValue(query(sessions));
+    mockReport.find.mockImplementation(() => query(reports));
+    mockEvent.find.mockReturnValue(query([{ eventId: uuidv4() }, { eventId: uuidv4() }]));
+    mockObservation.find.mockReturnValue(query([]));
+    mockIdentity.find.mockResolvedValue([]);
+    mockInvitation.find.mockResolvedValue([]);
+
+    mockEvent.deleteMany.mockResolvedValue({ deletedCount: 2 });
+    mockIdentity.deleteMany.mockResolvedValue({ deletedCount: 1 });
+    mockObservation.deleteMany.mockResolvedValue({ deletedCount: 3 });
+    mockInvitation.deleteMany.mockResolvedValue({ deletedCount: 1 });
+    mockInvitation.updateMany.mockResolvedValue({ modifiedCount: 1 });
+    mockAssignment.deleteMany.mockResolvedValue({ deletedCount: 1 });
+    mockSession.deleteMany.mockResolvedValue({ deletedCount: 1 });
+    mockSession.updateMany.mockResolvedValue({ modifiedCount: 1 });
+    mockUser.deleteOne.mockResolvedValue({ deletedCount: 1 });
+    mockRequest.create.mockImplementation(async (entry: any) => entry);
+  });
+
+  describe('eraseCandidateData', () => {
+    it('anonymizes the candidate and removes recordings, events and identity references', async () => {
+      const request = await CandidateDataService.eraseCandidateData(candidateId, 'anonymize', adminId);
+
+      expect(mockRemoval.removeRecording).toHaveBeenCalledWith(sessions[0]);
+      expect(mockEvent.deleteMany).toHaveBeenCalledWith({ candidateId });
+      expect(mockRemoval.removeReportExports).toHaveBeenCalledWith(reports[0]);
+      expect(mockRemoval.removeReport).not.toHaveBeenCalled();
+      expect(reports[0].candidateName).toBe(ERASED_CANDIDATE_NAME);
+      expect(mockSession.updateMany).toHaveBeenCalledWith(
+        { candidateId },
+        expect.objectContaining({ $unset: { candidateEmail: 1, systemCheck: 1 } })
+      );
+      expect(mockSession.deleteMany).not.toHaveBeenCalled();
+
+      expect(candidate.name).toBe(ERASED_CANDIDATE_NAME);
+      expect(candidate.email).toBe(`erased-${candidateId}@erased.invalid`);
+      expect(candidate.isActive).toBe(false);
+      expect(candidate.save).toHaveBeenCalled();
+
+      expect(request.counts).toMatchObject({ users: 1, sessions: 1, events: 2, reports: 1, recordings: 1, identityReferences: 1 });
+      expect(request.organizationId).toBe(organizationId);
+      expect(request.digest).toBe(CandidateDataService.digestOf(request));
+    });
+
+    it('deletes sessions, observations and the account in delete mode', async () => {
+      const request = await CandidateDataService.eraseCandidateData(candidateId, 'delete', adminId);
+
+      expect(mockRemoval.removeReport).toHaveBeenCalledWith(reports[0]);
+      expect(mockObservation.deleteMany).toHaveBeenCalled();
+      expect(mockAssignment.deleteMany).toHaveBeenCalled();
+      expect(mockSession.deleteMany).toHaveBeenCalledWith({ candidateId });
+      expect(mockUser.deleteOne).toHaveBeenCalledWith({ userId: candidateId });
+      expect(candidate.save).not.toHaveBeenCalled();
+      expect(request.counts).toMatchObject({ users: 1, sessions: 1, observations: 3, invitations: 1 });
+    });
+
+    it('logs storage failures and carries on', async () => {
+      mockRemoval.removeRecording.mockRejectedValueOnce(new Error('bucket unavailable'));
+
+      const request = await CandidateDataService.eraseCandidateData(candidateId, 'anonymize', adminId);
+
+      expect(request.counts.recordings).toBe(0);
+      expect(request.failures).toEqual([`recording of session ${sessions[0].sessionId}: bucket unavailable`]);
+      expect(candidate.save).toHaveBeenCalled();
+    });
+
+    it('refuses while a session is on legal hold', async () => {
+      sessions[0].legalHold = { reason: 'Dispute', placedBy: adminId, placedAt: new Date() };
+
+      await expect(CandidateDataService.eraseCandidateData(candidateId, 'delete', adminId))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(mockRemoval.removeRecording).not.toHaveBeenCalled();
+      expect(mockRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses to erase staff accounts', async () => {
+      candidate.role = UserRole.INTERVIEWER;
+
+      await expect(CandidateDataService.eraseCandidateData(candidateId, 'anonymize', adminId))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('returns 404 for an unknown candidate', async () => {
+      mockUser.findOne.mockResolvedValue(null);
+      mockSession.find.mockReturnValue(query([]));
+
+      await expect(CandidateDataService.eraseCandidateData(candidateId, 'anonymize', adminId))
+        .rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('verifyRequest', () => {
+    const remaining = (counts: Record<string, number>) => {
+      mockUser.countDocuments.mockResolvedValue(counts.users ?? 0);
+      mockSession.countDocuments.mockResolvedValue(counts.sessions ?? 0);
+      mockEvent.countDocuments.mockResolvedValue(counts.events ?? 0);
+      mockReport.countDocuments.mockResolvedValue(counts.reports ?? 0);
+    };
+
+    it('verifies an unaltered erasure with nothing left behind', async () => {
+      const request = await CandidateDataService.eraseCandidateData(candidateId, 'anonymize', adminId);
+      mockRequest.findByRequestId.mockResolvedValue(request);
+      remaining({});
+
+      const verification = await CandidateDataService.verifyRequest(request.requestId);
+
+      expect(verification).toMatchObject({ digestValid: true, verified: true });
+    });
+
+    it('detects an edited log entry', async () => {
+      const request = await CandidateDataService.eraseCandidateData(candidateId, 'anonymize', adminId);
+      mockRequest.findByRequestId.mockResolvedValue({ ...request, counts: { ...request.counts, events: 0 } });
+      remaining({});
+
+      const verification = await CandidateDataService.verifyRequest(request.requestId);
+
+      expect(verification).toMatchObject({ digestValid: false, verified: false });
+    });
+
+    it('reports data that reappeared after erasure', async () => {
+      const request = await CandidateDataService.eraseCandidateData(candidateId, 'anonymize', adminId);
+      mockRequest.findByRequestId.mockResolvedValue(request);
+      remaining({ events: 4 });
+
+      const verification = await CandidateDataService.verifyRequest(request.requestId);
+
+      expect(verification.digestValid).toBe(true);
+      expect(verification.remaining.events).toBe(4);
+      expect(verification.verified).toBe(false);
+    });
+  });
+
+  describe('exportCandidateData', () => {
+    it('writes a tar.gz with the candidate records and recording, and logs its hash', async () => {
+      const video = Buffer.from('fake webm bytes');
+      mockRemoval.recordingVideoId.mockReturnValue('video-1');
+      mockVideoStorage.getVideoStream.mockResolvedValue({
+        stream: Readable.from([video]),
+        contentType: 'video/webm',
+        contentLength: video.length,
+        ext: '.webm'
+      });
+
+      const result = await CandidateDataService.exportCandidateData(candidateId, adminId);
+      try {
+        const archive = await fs.promises.readFile(result.archivePath);
+        const entries = tarEntries(zlib.gunzipSync(archive));
+        const names = entries.map(entry => entry.name);
+
+        expect(names).toEqual(expect.arrayContaining([
+          'profile.json',
+          'sessions.json',
+          'events.json',
+          'reports.json',
+          `recordings/${sessions[0].sessionId}.webm`,
+          'manifest.json'
+        ]));
+        expect(entries.find(entry => entry.name.startsWith('recordings/'))!.content.equals(video)).toBe(true);
+        expect(JSON.parse(entries.find(entry => entry.name === 'profile.json')!.content.toString()).email)
+          .toBe('jamie@example.com');
+
+        expect(result.request.archiveSha256).toBe(createHash('sha256').update(archive).digest('hex'));
+        expect(result.request.counts).toMatchObject({ users: 1, sessions: 1, events: 2, recordings: 1 });
+        expect(result.filename).toBe(`candidate-${candidateId}.tar.gz`);
+      } finally {
+        await fs.promises.unlink(result.archivePath).catch(() => undefined);
+      }
+    });
+  });
+});
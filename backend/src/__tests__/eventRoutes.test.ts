@@ -8,13 +8,16 @@ import eventRoutes from '../routes/eventRoutes';
 import { User } from '../models/User';
 import { DetectionEvent } from '../models/DetectionEvent';
 import { InterviewSession } from '../models/InterviewSession';
+import { SessionAssignment } from '../models/SessionAssignment';
 import { 
   UserRole, 
   EventType, 
   SessionStatus, 
-  UnauthorizedItemType 
+  UnauthorizedItemType,
+  AssignmentRole
 } from '../types';
 import { generateToken } from '../middleware/auth';
+import { calculateIntegrityBreakdown, DEFAULT_SCORING_POLICY } from '../utils/integrityScoring';
 
 describe('Event Routes', () => {
   let mongoServer: MongoMemoryServer;
@@ -58,6 +61,7 @@ describe('Event Routes', () => {
     await User.deleteMany({});
     await DetectionEvent.deleteMany({});
     await InterviewSession.deleteMany({});
+    await SessionAssignment.deleteMany({});
 
     // Create test users
     candidateUser = await User.create({
@@ -94,6 +98,7 @@ describe('Event Routes', () => {
       sessionId: '550e8400-e29b-41d4-a716-446655440100',
       candidateId: candidateUser.userId,
       candidateName: candidateUser.name,
+      interviewerId: interviewerUser.userId,
       startTime: new Date(),
       status: SessionStatus.ACTIVE
     });
@@ -351,6 +356,46 @@ describe('Event Routes', () => {
       expect(response.body.data.items).toHaveLength(3);
     });
 
+    it('should deny interviewers not assigned to the session', async () => {
+      const otherInterviewer = await User.create({
+        userId: '550e8400-e29b-41d4-a716-446655440004',
+        email: 'other-interviewer@test.com',
+        password: 'password123',
+        name: 'Other Interviewer',
+        role: UserRole.INTERVIEWER
+      });
+
+      const response = await request(app)
+        .get(`/api/events/${testSession.sessionId}`)
+        .set('Authorization', `Bearer ${generateToken(otherInterviewer)}`)
+        .expect(403);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should allow an assigned observer to access events', async () => {
+      const observer = await User.create({
+        userId: '550e8400-e29b-41d4-a716-446655440005',
+        email: 'observer@test.com',
+        password: 'password123',
+        name: 'Observer',
+        role: UserRole.INTERVIEWER
+      });
+      await SessionAssignment.create({
+        assignmentId: '550e8400-e29b-41d4-a716-446655440200',
+        sessionId: testSession.sessionId,
+        userId: observer.userId,
+        role: AssignmentRole.OBSERVER
+      });
+
+      const response = await request(app)
+        .get(`/api/events/${testSession.sessionId}`)
+        .set('Authorization', `Bearer ${generateToken(observer)}`)
+        .expect(200);
+
+      expect(response.body.data.items).toHaveLength(3);
+    });
+
     it('should reject access for non-existent session', async () => {
       const response = await request(app)
         .get('/api/events/550e8400-e29b-41d4-a716-446655440999')
@@ -455,6 +500,55 @@ describe('Event Routes', () => {
       expect(eventsByType[EventType.UNAUTHORIZED_ITEM].count).toBe(1);
     });
 
+    it('should return the same breakdown as the shared scoring engine', async () => {
+      const response = await request(app)
+        .get(`/api/events/${testSession.sessionId}/summary`)
+        .set('Authorization', `Bearer ${interviewerToken}`)
+        .expect(200);
+
+      const events = await DetectionEvent.find({ sessionId: testSession.sessionId }).lean();
+      const expected = calculateIntegrityBreakdown(events, [], DEFAULT_SCORING_POLICY);
+
+      expect(response.body.data.integrityBreakdown).toEqual(expected);
+      expect(response.body.data.integrityScore).toBe(expected.finalScore);
+    });
+
+    it('should deduct drowsiness and audio events from the score', async () => {
+      await DetectionEvent.insertMany([
+        {
+          sessionId: testSession.sessionId,
+          candidateId: candidateUser.userId,
+          eventType: EventType.DROWSINESS,
+          timestamp: new Date('2024-01-15T10:08:00Z'),
+          confidence: 0.9,
+          duration: 4,
+          metadata: {}
+        },
+        {
+          sessionId: testSession.sessionId,
+          candidateId: candidateUser.userId,
+          eventType: EventType.BACKGROUND_VOICE,
+          timestamp: new Date('2024-01-15T10:09:00Z'),
+          confidence: 0.8,
+          duration: 6,
+          metadata: {}
+        }
+      ]);
+
+      const response = await request(app)
+        .get(`/api/events/${testSession.sessionId}/summary`)
+        .set('Authorization', `Bearer ${interviewerToken}`)
+        .expect(200);
+
+      const { integrityScore, counts, eventStats } = response.body.data;
+
+      // 71 from the base events, minus 3 for drowsiness and 8 for background voice
+      expect(integrityScore).toBe(60);
+      expect(counts.drowsiness).toBe(1);
+      expect(counts.backgroundVoice).toBe(1);
+      expect(eventStats).toContainEqual({ eventType: EventType.DROWSINESS, count: 1, totalDuration: 4 });
+    });
+
     it('should allow interviewer access to summary', async () => {
       const response = await request(app)
         .get(`/api/events/${testSession.sessionId}/summary`)
@@ -473,6 +567,7 @@ describe('Event Routes', () => {
         sessionId: '550e8400-e29b-41d4-a716-446655440101',
         candidateId: candidateUser.userId,
         candidateName: candidateUser.name,
+        interviewerId: interviewerUser.userId,
         startTime: new Date(),
         status: SessionStatus.COMPLETED
       });
@@ -0,0 +1,222 @@
+import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { EvidenceClipService, EvidenceCutter } from '../services/evidenceClipService';
+import { DetectionEvent } from '../models/DetectionEvent';
+import { EvidenceClip } from '../models/EvidenceClip';
+import { InterviewSession } from '../models/InterviewSession';
+import { ProctoringReport } from '../models/ProctoringReport';
+import { EventType, SuspiciousEvent } from '../types';
+
+jest.mock('../models/InterviewSession', () => ({
+  InterviewSession: { findOne: jest.fn() }
+}));
+jest.mock('../models/DetectionEvent', () => ({
+  DetectionEvent: { find: jest.fn() }
+}));
+jest.mock('../models/EvidenceClip', () => ({
+  EvidenceClip: {
+    create: jest.fn(),
+    findByClipId: jest.fn(),
+    findByVideoId: jest.fn(),
+    findBySession: jest.fn()
+  }
+}));
+jest.mock('../models/ProctoringReport', () => ({
+  ProctoringReport: { find: jest.fn() }
+}));
+
+const mockSessionFindOne = InterviewSession.findOne as jest.Mock;
+const mockEventFind = DetectionEvent.find as jest.Mock;
+const mockCreate = EvidenceClip.create as jest.Mock;
+const mockFindByVideoId = EvidenceClip.findByVideoId as jest.Mock;
+const mockFindBySession = EvidenceClip.findBySession as jest.Mock;
+const mockReportFind = ProctoringReport.find as jest.Mock;
+
+const startedAt = new Date('2026-03-02T10:00:00.000Z');
+const at = (seconds: number) => new Date(startedAt.getTime() + seconds * 1000);
+
+describe('EvidenceClipService', () => {
+  describe('planClips', () => {
+    it('cuts around multiple-face and unauthorized-item events only', () => {
+      const plans = EvidenceClipService.planClips([
+        { eventType: EventType.FOCUS_LOSS, timestamp: at(10), duration: 4 },
+        { eventType: EventType.MULTIPLE_FACES, timestamp: at(60), duration: 3 },
+        { eventType: EventType.UNAUTHORIZED_ITEM, timestamp: at(120.5) }
+      ], startedAt, 600);
+
+      expect(plans).toEqual([
+        {
+          eventType: EventType.MULTIPLE_FACES,
+          eventTimestamp: at(60),
+          offsetSeconds: 60,
+          startSeconds: 55,
+          durationSeconds: 13,
+          stillSeconds: 60
+        },
+        {
+          eventType: EventType.UNAUTHORIZED_ITEM,
+          eventTimestamp: at(120.5),
+          offsetSeconds: 120.5,
+          startSeconds: 115.5,
+          durationSeconds: 10,
+          stillSeconds: 120.5
+        }
+      ]);
+    });
+
+    it('keeps clips inside the recording and caps long events', () => {
+      const plans = EvidenceClipService.planClips([
+        { eventType: EventType.MULTIPLE_FACES, timestamp: at(-5) },
+        { eventType: EventType.MULTIPLE_FACES, timestamp: at(2) },
+        { eventType: EventType.UNAUTHORIZED_ITEM, timestamp: at(40), duration: 120 },
+        { eventType: EventType.UNAUTHORIZED_ITEM, timestamp: at(88) },
+        { eventType: EventType.UNAUTHORIZED_ITEM, timestamp: at(95) }
+      ], startedAt, 90);
+
+      expect(plans.map(plan => [plan.startSeconds, plan.durationSeconds, plan.stillSeconds])).toEqual([
+        [0, 7, 2],
+        [35, 30, 40],
+        [83, 7, 88]
+      ]);
+    });
+  });
+
+  describe('attachEvidence', () => {
+    it('links events to the clip cut around them and drops stale links', () => {
+      const videoId = uuidv4();
+      const clip = {
+        clipId: uuidv4(),
+        videoId,
+        eventType: EventType.MULTIPLE_FACES,
+        eventTimestamp: at(60),
+        startSeconds: 55,
+        durationSeconds: 10
+      } as any;
+      const stale = { clipId: uuidv4(), clipUrl: '/old', stillUrl: '/old/still', startSeconds: 0, durationSeconds: 5 };
+      const events: SuspiciousEvent[] = [
+        { eventType: EventType.MULTIPLE_FACES, timestamp: at(60), description: 'Multiple faces detected' },
+        { eventType: EventType.UNAUTHORIZED_ITEM, timestamp: at(90), description: 'Phone detected', evidence: stale }
+      ];
+
+      const linked = EvidenceClipService.attachEvidence(events, [clip]);
+
+      expect(linked[0]!.evidence).toEqual({
+        clipId: clip.clipId,
+        clipUrl: `/api/videos/${videoId}/evidence/${clip.clipId}`,
+        stillUrl: `/api/videos/${videoId}/evidence/${clip.clipId}/still`,
+        startSeconds: 55,
+        durationSeconds: 10
+      });
+      expect(linked[1]).not.toHaveProperty('evidence');
+    });
+  });
+
+  describe('capture', () => {
+    const videoId = uuidv4();
+    const sessionId = uuidv4();
+    let cutter: jest.Mocked<EvidenceCutter>;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      cutter = { cutEvidence: jest.fn().mockResolvedValue(undefined) };
+      jest.spyOn(fs.promises, 'mkdir').mockResolvedValue(undefined);
+      jest.spyOn(fs.promises, 'stat').mockResolvedValue({ size: 4096 } as fs.Stats);
+      jest.spyOn(fs.promises, 'unlink').mockResolvedValue(undefined);
+
+      mockSessionFindOne.mockReturnValue({
+        select: () => Promise.resolve({ sessionId, startTime: at(-30), organizationId: 'org-1' })
+      });
+      mockEventFind.mockReturnValue({
+        sort: () => Promise.resolve([
+          { eventType: EventType.MULTIPLE_FACES, timestamp: at(20) },
+          { eventType: EventType.UNAUTHORIZED_ITEM, timestamp: at(50) }
+        ])
+      });
+      mockFindByVideoId.mockResolvedValue([]);
+      mockFindBySession.mockResolvedValue([]);
+      mockReportFind.mockResolvedValue([]);
+      mockCreate.mockImplementation(async (doc: any) => doc);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('cuts each event from the recording start time and records the clips', async () => {
+      const clips = await EvidenceClipService.capture(videoId, sessionId, '/uploads/videos/recording.mp4', {
+        duration: 300,
+        recordingStartedAt: startedAt
+      }, cutter);
+
+      expect(mockEventFind).toHaveBeenCalledWith({
+        sessionId,
+        eventType: { $in: [EventType.MULTIPLE_FACES, EventType.UNAUTHORIZED_ITEM] }
+      });
+      expect(cutter.cutEvidence).toHaveBeenCalledTimes(2);
+      expect(cutter.cutEvidence).toHaveBeenCalledWith(
+        '/uploads/videos/recording.mp4',
+        expect.objectContaining({ offsetSeconds: 20, startSeconds: 15 }),
+        expect.stringMatching(new RegExp(`evidence/${videoId}-[0-9a-f-]+\\.mp4$`)),
+        expect.stringMatching(new RegExp(`evidence/${videoId}-[0-9a-f-]+\\.jpg$`))
+      );
+      expect(clips).toHaveLength(2);
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+        videoId,
+        sessionId,
+        organizationId: 'org-1',
+        eventType: EventType.UNAUTHORIZED_ITEM,
+        offsetSeconds: 50,
+        size: 4096
+      }));
+    });
+
+    it('falls back to the session start when the recording start is unknown', async () => {
+      await EvidenceClipService.capture(videoId, sessionId, '/uploads/videos/recording.mp4', { duration: 300 }, cutter);
+
+      expect(cutter.cutEvidence).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ offsetSeconds: 50 }),
+        expect.any(String),
+        expect.any(String)
+      );
+    });
+
+    it('keeps the clips that succeed when one cut fails', async () => {
+      cutter.cutEvidence.mockRejectedValueOnce(new Error('ffmpeg exited with code 1'));
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const clips = await EvidenceClipService.capture(videoId, sessionId, '/uploads/videos/recording.mp4', {
+        duration: 300,
+        recordingStartedAt: startedAt
+      }, cutter);
+
+      expect(clips).toHaveLength(1);
+      expect(clips[0]).toMatchObject({ eventType: EventType.UNAUTHORIZED_ITEM });
+      expect(fs.promises.unlink).toHaveBeenCalledTimes(2);
+    });
+
+    it('links the new clips from reports that already exist', async () => {
+      const clip = { clipId: uuidv4(), videoId, eventType: EventType.MULTIPLE_FACES, eventTimestamp: at(20), startSeconds: 15, durationSeconds: 10 };
+      const report = {
+        toObject: () => ({
+          suspiciousEvents: [{ eventType: EventType.MULTIPLE_FACES, timestamp: at(20), description: 'Multiple faces detected' }]
+        }),
+        set: jest.fn(),
+        save: jest.fn().mockResolvedValue(undefined)
+      };
+      mockReportFind.mockResolvedValue([report]);
+      mockFindBySession.mockResolvedValue([clip]);
+
+      await EvidenceClipService.capture(videoId, sessionId, '/uploads/videos/recording.mp4', {
+        duration: 300,
+        recordingStartedAt: startedAt
+      }, cutter);
+
+      expect(mockReportFind).toHaveBeenCalledWith({ sessionId });
+      expect(report.set).toHaveBeenCalledWith('suspiciousEvents', [
+        expect.objectContaining({ evidence: expect.objectContaining({ clipId: clip.clipId }) })
+      ]);
+      expect(report.save).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { IdentityVerificationService } from '../services/identityVerificationService';
+import { InterviewSessionDocument } from '../models/InterviewSession';
+import { EventType, IdentityVerificationStatus } from '../types';
+
+const mockSavedEvents: any[] = [];
+const referenceDescriptor = [1, 0.42, 0.38, 0.61, 0.58, 0.97, 0.35, 0.44, 0.72, 0.5];
+
+jest.mock('../models/IdentityReference', () => ({
+  IdentityReference: {
+    findBySession: jest.fn(async () => ({ descriptor: referenceDescriptor }))
+  }
+}));
+
+jest.mock('../models/DetectionEvent', () => {
+  function MockDetectionEvent(this: any, fields: any) {
+    Object.assign(this, fields);
+  }
+  MockDetectionEvent.prototype.save = jest.fn(async function (this: any) {
+    mockSavedEvents.push(this);
+    return this;
+  });
+  return { DetectionEvent: MockDetectionEvent };
+});
+
+const activeSession = () => ({
+  sessionId: 'session-1',
+  candidateId: 'candidate-1',
+  organizationId: 'org-1',
+  identityVerification: { status: IdentityVerificationStatus.PENDING, checkCount: 0, mismatchCount: 0 },
+  save: jest.fn().mockResolvedValue(undefined)
+}) as unknown as InterviewSessionDocument;
+
+describe('IdentityVerificationService.verify', () => {
+  beforeEach(() => {
+    mockSavedEvents.length = 0;
+  });
+
+  it('records a mismatch as a detection event of the session candidate', async () => {
+    const result = await IdentityVerificationService.verify(activeSession(), {
+      descriptor: referenceDescriptor.map((value, index) => value * (index % 2 ? 1.6 : 0.6)),
+      phase: 'periodic'
+    });
+
+    expect(result.matched).toBe(false);
+    expect(mockSavedEvents).toHaveLength(1);
+    expect(result.event).toBe(mockSavedEvents[0]);
+    expect(result.event).toMatchObject({
+      sessionId: 'session-1',
+      candidateId: 'candidate-1',
+      organizationId: 'org-1',
+      eventType: EventType.IDENTITY_MISMATCH,
+      metadata: { identityMetrics: { similarity: result.similarity, threshold: result.threshold, phase: 'periodic' } }
+    });
+  });
+
+  it('records nothing for a match', async () => {
+    const result = await IdentityVerificationService.verify(activeSession(), {
+      descriptor: referenceDescriptor.map(value => value * 1.01),
+      phase: 'initial'
+    });
+
+    expect(result.matched).toBe(true);
+    expect(result.event).toBeUndefined();
+    expect(mockSavedEvents).toHaveLength(0);
+  });
+});
@@ -0,0 +1,192 @@
+import {
+  calculateIntegrityBreakdown,
+  eventsFromCounts,
+  summarizeEventTypes,
+  DEFAULT_SCORING_POLICY,
+  LEGACY_SCORING_POLICY,
+  AUDIO_SCORING_POLICY
+} from '../utils/integrityScoring';
+import { EventType, ScoringPolicy } from '../types';
+
+describe('integrityScoring', () => {
+  describe('calculateIntegrityBreakdown with the default policy', () => {
+    it('should match the fixed per-incident deductions', () => {
+      const events = [
+        { eventType: EventType.FOCUS_LOSS, duration: 5 },
+        { eventType: EventType.FOCUS_LOSS, duration: 3 },
+        { eventType: EventType.ABSENCE, duration: 12 },
+        { eventType: EventType.MULTIPLE_FACES },
+        { eventType: EventType.UNAUTHORIZED_ITEM }
+      ];
+      const observations = [{ severity: 'high', flagged: true }, { severity: 'low', flagged: false }];
+
+      const breakdown = calculateIntegrityBreakdown(events, observations);
+
+      expect(breakdown.deductions).toEqual({
+        focusLoss: 4,
+        absence: 5,
+        multipleFaces: 10,
+        unauthorizedItems: 15,
+        drowsiness: 0,
+        eyeClosure: 0,
+        excessiveBlinking: 0,
+        backgroundVoice: 0,
+        multipleVoices: 0,
+        excessiveNoise: 0,
+        identityMismatch: 0,
+        manualObservations: 10,
+        total: 44
+      });
+      expect(breakdown.finalScore).toBe(56);
+      expect(breakdown.flaggedObservationCount).toBe(1);
+      expect(breakdown.policy).toEqual({ name: 'standard', version: 3 });
+      expect(breakdown.formula).toBe(
+        '100 - [2 focus loss (4) + 1 absence (5) + 1 multiple faces (10) + 1 unauthorized items (15) + 1 manual flags (10)] = 56'
+      );
+    });
+
+    it('should deduct drowsiness and audio events', () => {
+      const breakdown = calculateIntegrityBreakdown(
+        eventsFromCounts({
+          [EventType.DROWSINESS]: 2,
+          [EventType.EYE_CLOSURE]: 1,
+          [EventType.EXCESSIVE_BLINKING]: 3,
+          [EventType.BACKGROUND_VOICE]: 1,
+          [EventType.MULTIPLE_VOICES]: 1,
+          [EventType.EXCESSIVE_NOISE]: 1
+        }),
+        []
+      );
+
+      expect(breakdown.deductions.drowsiness).toBe(6);
+      expect(breakdown.deductions.eyeClosure).toBe(2);
+      expect(breakdown.deductions.excessiveBlinking).toBe(3);
+      expect(breakdown.deductions.backgroundVoice).toBe(8);
+      expect(breakdown.deductions.multipleVoices).toBe(12);
+      expect(breakdown.deductions.excessiveNoise).toBe(6);
+      expect(breakdown.finalScore).toBe(63);
+    });
+
+    it('should deduct identity mismatches', () => {
+      const breakdown = calculateIntegrityBreakdown(eventsFromCounts({ [EventType.IDENTITY_MISMATCH]: 2 }), []);
+
+      expect(breakdown.deductions.identityMismatch).toBe(40);
+      expect(breakdown.formula).toBe('100 - [2 identity mismatch (40)] = 60');
+    });
+
+    it('should ignore event types the policy has no rule for', () => {
+      const breakdown = calculateIntegrityBreakdown([{ eventType: EventType.FACE_VISIBLE }], []);
+
+      expect(breakdown.finalScore).toBe(100);
+      expect(breakdown.formula).toBe('100 - 0 = 100');
+    });
+  });
+
+  describe('calculateIntegrityBreakdown with a custom policy', () => {
+    const policy: ScoringPolicy = {
+      name: 'duration-weighted',
+      version: 2,
+      baseScore: 100,
+      eventRules: {
+        [EventType.ABSENCE]: { pointsPerIncident: 2, pointsPerSecond: 0.5, maxPerIncident: 10 },
+        [EventType.UNAUTHORIZED_ITEM]: { pointsPerIncident: 15, pointsPerSecond: 0, maxTotal: 20 }
+      },
+      manualObservationPoints: 10,
+      severityMultipliers: { low: 0, medium: 1, high: 3 },
+      isDefault: false
+    };
+
+    it('should apply duration weighting and per-incident caps', () => {
+      const breakdown = calculateIntegrityBreakdown(
+        [
+          { eventType: EventType.ABSENCE, duration: 4 },
+          { eventType: EventType.ABSENCE, duration: 60 }
+        ],
+        [],
+        policy
+      );
+
+      const absence = breakdown.eventDeductions.find(item => item.eventType === EventType.ABSENCE);
+      // (2 + 4 * 0.5) + min(2 + 60 * 0.5, 10)
+      expect(absence?.deduction).toBe(14);
+      expect(absence?.totalDuration).toBe(64);
+      expect(breakdown.finalScore).toBe(86);
+    });
+
+    it('should cap the total deduction for an event type', () => {
+      const breakdown = calculateIntegrityBreakdown(
+        eventsFromCounts({ [EventType.UNAUTHORIZED_ITEM]: 3 }),
+        [],
+        policy
+      );
+
+      const items = breakdown.eventDeductions.find(item => item.eventType === EventType.UNAUTHORIZED_ITEM);
+      expect(items?.deduction).toBe(20);
+      expect(items?.capped).toBe(true);
+      expect(breakdown.deductions.unauthorizedItems).toBe(20);
+    });
+
+    it('should scale flagged observations by severity multiplier', () => {
+      const breakdown = calculateIntegrityBreakdown(
+        [],
+        [
+          { severity: 'low', flagged: true },
+          { severity: 'medium', flagged: true },
+          { severity: 'high', flagged: true }
+        ],
+        policy
+      );
+
+      expect(breakdown.deductions.manualObservations).toBe(40);
+      expect(breakdown.finalScore).toBe(60);
+      expect(breakdown.policy).toEqual({ name: 'duration-weighted', version: 2 });
+    });
+  });
+
+  describe('summarizeEventTypes', () => {
+    it('should report count and duration for every event type', () => {
+      const stats = summarizeEventTypes([
+        { eventType: EventType.EYE_CLOSURE, duration: 1.5 },
+        { eventType: EventType.EYE_CLOSURE, duration: 2.25 },
+        { eventType: EventType.EXCESSIVE_NOISE }
+      ]);
+
+      expect(stats).toHaveLength(Object.values(EventType).length);
+      expect(stats.find(stat => stat.eventType === EventType.EYE_CLOSURE)).toEqual({
+        eventType: EventType.EYE_CLOSURE, count: 2, totalDuration: 3.75
+      });
+      expect(stats.find(stat => stat.eventType === EventType.EXCESSIVE_NOISE)?.count).toBe(1);
+      expect(stats.find(stat => stat.eventType === EventType.ABSENCE)?.count).toBe(0);
+    });
+  });
+
+  describe('built-in policies', () => {
+    it('should mark the latest version as the default', () => {
+      expect(DEFAULT_SCORING_POLICY.isDefault).toBe(true);
+      expect(LEGACY_SCORING_POLICY.isDefault).toBe(false);
+      expect(AUDIO_SCORING_POLICY.isDefault).toBe(false);
+    });
+
+    it('should keep version 2 ignoring identity mismatches', () => {
+      const breakdown = calculateIntegrityBreakdown(
+        eventsFromCounts({ [EventType.IDENTITY_MISMATCH]: 1, [EventType.MULTIPLE_VOICES]: 1 }),
+        [],
+        AUDIO_SCORING_POLICY
+      );
+
+      expect(breakdown.finalScore).toBe(88);
+      expect(breakdown.policy).toEqual({ name: 'standard', version: 2 });
+    });
+
+    it('should keep version 1 scoring only the original four event types', () => {
+      const breakdown = calculateIntegrityBreakdown(
+        eventsFromCounts({ [EventType.DROWSINESS]: 2, [EventType.ABSENCE]: 1 }),
+        [],
+        LEGACY_SCORING_POLICY
+      );
+
+      expect(breakdown.finalScore).toBe(95);
+      expect(breakdown.policy).toEqual({ name: 'standard', version: 1 });
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { createServer, Server as HTTPServer } from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { io as Client } from 'socket.io-client';
+import { InvitationService } from '../services/invitationService';
+import { WebSocketService } from '../services/websocketService';
+import { TokenService } from '../services/tokenService';
+import { verifyToken } from '../middleware/auth';
+import { SessionInvitation } from '../models/SessionInvitation';
+import { InterviewSessionDocument } from '../models/InterviewSession';
+import { SessionStatus, UserRole } from '../types';
+
+jest.mock('../models/SessionInvitation', () => ({
+  SessionInvitation: {
+    updateMany: jest.fn().mockResolvedValue({ modifiedCount: 0 }),
+    create: jest.fn(async (fields: any) => fields),
+    findByInvitationId: jest.fn().mockResolvedValue(null)
+  }
+}));
+
+// The key access tokens are signed with, as the auth middleware read it on import
+const ACCESS_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+
+const scheduledSession = {
+  sessionId: 'session-1',
+  status: SessionStatus.SCHEDULED,
+  candidateEmail: 'candidate@example.com',
+  organizationId: 'org-1',
+  getJoinWindow: () => ({ opensAt: new Date(Date.now() - 60000), closesAt: new Date(Date.now() + 15 * 60000) })
+} as unknown as InterviewSessionDocument;
+
+const candidate = { userId: 'candidate-1', email: 'candidate@example.com', organizationId: 'org-1' } as any;
+
+const accessToken = () =>
+  jwt.sign({ userId: 'user-1', email: 'user@example.com', role: UserRole.INTERVIEWER }, ACCESS_SECRET, { expiresIn: 60 });
+
+// What an invitation looked like when it was signed with the access token key itself
+const invitationSignedWithAccessKey = () =>
+  jwt.sign({ invitationId: 'invitation-1', sessionId: 'session-1' }, ACCESS_SECRET, { audience: 'session-invitation', expiresIn: 60 });
+
+describe('Invitation tokens', () => {
+  it('are signed with a key of their own and redeemed with it', async () => {
+    const { token } = await InvitationService.createInvitation(scheduledSession, 'interviewer-1');
+
+    expect(() => jwt.verify(token, ACCESS_SECRET)).toThrow(jwt.JsonWebTokenError);
+    // Past the signature check, on to looking up the invitation
+    await expect(InvitationService.redeemInvitation(token, candidate)).rejects.toThrow('Invitation not found');
+    expect(SessionInvitation.findByInvitationId).toHaveBeenCalledWith(expect.any(String));
+
+    await expect(InvitationService.redeemInvitation(invitationSignedWithAccessKey(), candidate))
+      .rejects.toThrow('Invalid invitation token');
+  });
+
+  it('are not accepted as access tokens', () => {
+    expect(verifyToken(accessToken()).userId).toBe('user-1');
+    expect(() => verifyToken(invitationSignedWithAccessKey())).toThrow('Invalid or expired token');
+  });
+});
+
+describe('WebSocket handshake', () => {
+  let httpServer: HTTPServer;
+  let service: WebSocketService;
+  let url: string;
+  const previousSecret = process.env.JWT_SECRET;
+
+  const handshake = (token: string): Promise<string> => new Promise(resolve => {
+    const client = Client(url, { auth: { token }, transports: ['websocket'] });
+    client.once('connect', () => {
+      client.disconnect();
+      resolve('connected');
+    });
+    client.once('connect_error', error => {
+      client.disconnect();
+      resolve(error.message);
+    });
+  });
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = ACCESS_SECRET;
+    jest.spyOn(TokenService, 'isRevoked').mockResolvedValue(false);
+    httpServer = createServer();
+    service = new WebSocketService(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, resolve));
+    url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await service.close();
+    jest.restoreAllMocks();
+    if (previousSecret === undefined) {
+      delete process.env.JWT_SECRET;
+    } else {
+      process.env.JWT_SECRET = previousSecret;
+    }
+  });
+
+  it('accepts access tokens and refuses tokens issued with an audience', async () => {
+    expect(await handshake(accessToken())).toBe('connected');
+    expect(await handshake(invitationSignedWithAccessKey())).toBe('Invalid authentication token');
+  });
+});
@@ -0,0 +1,79 @@
+import express from 'express';
+import request from 'supertest';
+import { MediaLinkService } from '../services/mediaLinkService';
+import { authenticate, signedMediaLinkOr } from '../middleware/auth';
+
+const videoId = '3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e';
+
+// Stands in for requireVideoAccess, which needs the database
+const viewCheck = jest.fn((_req: express.Request, _res: express.Response, next: express.NextFunction) => next());
+
+const buildApp = () => {
+  const app = express();
+  const router = express.Router();
+  const mediaAccess = signedMediaLinkOr(authenticate, viewCheck);
+  router.get('/:videoId', mediaAccess, (_req, res) => { res.send('recording'); });
+  router.get('/:videoId/poster', mediaAccess, (_req, res) => { res.send('poster'); });
+  app.use('/api/videos', router);
+  return app;
+};
+
+const query = (url: string) => new URL(url, 'http://localhost').searchParams;
+
+describe('MediaLinkService', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('signs a path for a limited time', () => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T12:00:00Z') });
+    const link = MediaLinkService.sign(`/api/videos/${videoId}/poster`, 600);
+
+    expect(link.url.startsWith(`/api/videos/${videoId}/poster?`)).toBe(true);
+    expect(link.expiresAt).toEqual(new Date('2026-03-01T12:10:00Z'));
+
+    const params = query(link.url);
+    const expires = Number(params.get('expires'));
+    const signature = params.get('signature')!;
+    expect(MediaLinkService.verify(`/api/videos/${videoId}/poster`, expires, signature)).toBe(true);
+
+    // The signature covers the path and the expiry
+    expect(MediaLinkService.verify(`/api/videos/${videoId}/sprite`, expires, signature)).toBe(false);
+    expect(MediaLinkService.verify(`/api/videos/${videoId}/poster`, expires + 3600, signature)).toBe(false);
+    expect(MediaLinkService.verify(`/api/videos/${videoId}/poster`, expires, 'not-hex')).toBe(false);
+
+    jest.setSystemTime(new Date('2026-03-01T12:10:01Z'));
+    expect(MediaLinkService.verify(`/api/videos/${videoId}/poster`, expires, signature)).toBe(false);
+  });
+});
+
+describe('Signed media routes', () => {
+  const app = buildApp();
+
+  beforeEach(() => {
+    viewCheck.mockClear();
+  });
+
+  it('serves a resource through its signed link without a login token', async () => {
+    const { url } = MediaLinkService.sign(`/api/videos/${videoId}/poster`);
+
+    const response = await request(app).get(url).expect(200);
+    expect(response.text).toBe('poster');
+    expect(viewCheck).not.toHaveBeenCalled();
+  });
+
+  it('refuses a link used for another resource or altered', async () => {
+    const params = query(MediaLinkService.sign(`/api/videos/${videoId}/poster`).url);
+
+    const response = await request(app).get(`/api/videos/${videoId}?${params}`).expect(403);
+    expect(response.body).toEqual({ success: false, error: 'Media link is invalid or has expired' });
+
+    params.set('expires', String(Number(params.get('expires')) + 60));
+    await request(app).get(`/api/videos/${videoId}/poster?${params}`).expect(403);
+  });
+
+  it('no longer accepts the login token in the query string', async () => {
+    const response = await request(app).get(`/api/videos/${videoId}?token=some-access-token`).expect(401);
+    expect(response.body.error).toBe('Access denied. No token provided.');
+  });
+});
@@ -0,0 +1,254 @@
+import express from 'express';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { v4 as uuidv4 } from 'uuid';
+import oidcRoutes from '../routes/oidcRoutes';
+import { OidcService } from '../services/oidcService';
+import { OrganizationService } from '../services/organizationService';
+import { TokenService } from '../services/tokenService';
+import { startMockOidcProvider, MockOidcProvider } from '../utils/mockOidcProvider';
+import { verifyToken } from '../middleware/auth';
+import { UserRole } from '../types';
+
+// In-memory stand-in for the users collection
+const mockUsers: any[] = [];
+
+const mockUserDocument = (fields: any) => Object.assign(fields, {
+  isActive: fields.isActive ?? true,
+  save: jest.fn(async () => fields),
+  updateLastLogin: jest.fn(async () => undefined)
+});
+
+jest.mock('../models/User', () => ({
+  User: {
+    findOne: jest.fn(async (filter: Record<string, unknown>) =>
+      mockUsers.find(user => Object.entries(filter).every(([key, value]) => user[key] === value)) ?? null),
+    create: jest.fn(async (fields: any) => {
+      const user = mockUserDocument({ ...fields });
+      mockUsers.push(user);
+      return user;
+    })
+  }
+}));
+
+jest.mock('../models/RefreshToken', () => ({
+  RefreshToken: {
+    create: jest.fn(async (fields: any) => ({ _id: uuidv4(), ...fields })),
+    updateMany: jest.fn()
+  }
+}));
+
+jest.mock('../models/RevokedToken', () => ({
+  RevokedToken: { updateOne: jest.fn() }
+}));
+
+const CLIENT_ID = 'video-proctoring';
+const CLIENT_SECRET = 'mock-secret';
+const FRONTEND_URL = 'http://frontend.test';
+
+describe('OIDC single sign-on against the mock identity provider', () => {
+  const organizationId = uuidv4();
+  let provider: MockOidcProvider;
+
+  const app = express();
+  app.use('/api/auth/oidc', oidcRoutes);
+
+  beforeAll(async () => {
+    provider = await startMockOidcProvider({
+      clientId: CLIENT_ID,
+      clientSecret: CLIENT_SECRET,
+      users: [
+        { sub: 'idp-admin', email: 'admin@example.com', name: 'Ada Admin', groups: ['proctoring-admins', 'staff'] },
+        { sub: 'idp-interviewer', email: 'interviewer@example.com', name: 'Ivan Interviewer', groups: ['proctoring-interviewers'] },
+        { sub: 'idp-outsider', email: 'outsider@example.com', name: 'Olga Outsider', groups: ['staff'] },
+        { sub: 'idp-candidate', email: 'candidate@example.com', name: 'Cara Candidate', groups: ['proctoring-interviewers'] },
+        { sub: 'idp-unverified', email: 'unverified@example.com', name: 'Uma Unverified', groups: ['proctoring-admins'], emailVerified: false }
+      ]
+    });
+
+    process.env.OIDC_ISSUER = provider.issuer;
+    process.env.OIDC_CLIENT_ID = CLIENT_ID;
+    process.env.OIDC_CLIENT_SECRET = CLIENT_SECRET;
+    process.env.OIDC_REDIRECT_URI = 'http://localhost/api/auth/oidc/callback';
+    process.env.OIDC_ROLE_MAPPING = 'proctoring-admins:admin,proctoring-interviewers:interviewer';
+    process.env.FRONTEND_URL = FRONTEND_URL;
+  });
+
+  afterAll(async () => {
+    await provider.close();
+    for (const name of ['OIDC_ISSUER', 'OIDC_CLIENT_ID', 'OIDC_CLIENT_SECRET', 'OIDC_REDIRECT_URI', 'OIDC_ROLE_MAPPING', 'FRONTEND_URL']) {
+      delete process.env[name];
+    }
+  });
+
+  beforeEach(() => {
+    mockUsers.length = 0;
+    jest.clearAllMocks();
+    OidcService.clearCache();
+    jest.spyOn(OrganizationService, 'resolveRegistrationOrganization').mockResolvedValue({ organizationId } as any);
+  });
+
+  // Start a sign-in, pick the user at the provider and return what the callback needs
+  const signInAtProvider = async (email: string, returnTo?: string) => {
+    const login = await request(app).get('/api/auth/oidc/login').query(returnTo ? { returnTo } : {});
+    expect(login.status).toBe(302);
+
+    const authorizationUrl = new URL(login.headers.location!);
+    authorizationUrl.searchParams.set('login_hint', email);
+    const authorized = await fetch(authorizationUrl, { redirect: 'manual' });
+    expect(authorized.status).toBe(302);
+
+    const callback = new URL(authorized.headers.get('location')!);
+    const cookie = (login.headers['set-cookie'] as unknown as string[]).map(value => value.split(';')[0]!);
+    return { callbackPath: `${callback.pathname}${callback.search}`, cookie };
+  };
+
+  const finishSignIn = async (email: string, returnTo?: string) => {
+    const { callbackPath, cookie } = await signInAtProvider(email, returnTo);
+    const response = await request(app).get(callbackPath).set('Cookie', cookie);
+    expect(response.status).toBe(302);
+    expect(response.headers.location!.startsWith(`${FRONTEND_URL}/auth/sso#`)).toBe(true);
+    return new URLSearchParams(new URL(response.headers.location!).hash.slice(1));
+  };
+
+  it('redirects to the provider with PKCE and keeps the transaction in an http-only cookie', async () => {
+    const response = await request(app).get('/api/auth/oidc/login');
+
+    const url = new URL(response.headers.location!);
+    expect(`${url.origin}${url.pathname}`).toBe(`${provider.issuer}/authorize`);
+    expect(url.searchParams.get('client_id')).toBe(CLIENT_ID);
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('state')).toBeTruthy();
+    expect(url.searchParams.get('nonce')).toBeTruthy();
+    expect(response.headers['set-cookie']![0]).toMatch(/^oidc_tx=.+HttpOnly/);
+  });
+
+  it('rejects return paths that leave the site', async () => {
+    const response = await request(app).get('/api/auth/oidc/login').query({ returnTo: '//evil.example.com' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('provisions a new admin from their provider groups and signs them in', async () => {
+    const fragment = await finishSignIn('admin@example.com', '/admin');
+
+    expect(fragment.get('error')).toBeNull();
+    expect(fragment.get('returnTo')).toBe('/admin');
+    expect(fragment.get('refreshToken')).toBeTruthy();
+    expect(mockUsers).toHaveLength(1);
+    expect(mockUsers[0]).toMatchObject({
+      email: 'admin@example.com',
+      name: 'Ada Admin',
+      role: UserRole.ADMIN,
+      organizationId,
+      authProvider: 'oidc',
+      oidcIssuer: provider.issuer,
+      oidcSubject: 'idp-admin'
+    });
+
+    const payload = verifyToken(fragment.get('token')!);
+    expect(payload).toMatchObject({ userId: mockUsers[0].userId, role: UserRole.ADMIN, organizationId });
+    expect(mockUsers[0].updateLastLogin).toHaveBeenCalled();
+  });
+
+  it('links an existing interviewer on first sign-in and signs them in again by subject', async () => {
+    const existing = mockUserDocument({ userId: uuidv4(), email: 'interviewer@example.com', role: UserRole.INTERVIEWER, organizationId, authProvider: 'password' });
+    mockUsers.push(existing);
+
+    await finishSignIn('interviewer@example.com');
+    existing.email = 'renamed@example.com';
+    const fragment = await finishSignIn('interviewer@example.com');
+
+    expect(mockUsers).toHaveLength(1);
+    expect(existing).toMatchObject({ authProvider: 'oidc', oidcSubject: 'idp-interviewer', role: UserRole.INTERVIEWER });
+    expect(verifyToken(fragment.get('token')!).userId).toBe(existing.userId);
+  });
+
+  it('moves an existing user to the role of their groups and revokes tokens carrying the old role', async () => {
+    const existing = mockUserDocument({ userId: uuidv4(), email: 'admin@example.com', role: UserRole.INTERVIEWER, organizationId });
+    mockUsers.push(existing);
+    const revokeUser = jest.spyOn(TokenService, 'revokeUser');
+
+    const fragment = await finishSignIn('admin@example.com');
+
+    expect(existing.role).toBe(UserRole.ADMIN);
+    expect(verifyToken(fragment.get('token')!).role).toBe(UserRole.ADMIN);
+    expect(revokeUser).toHaveBeenCalledWith(existing.userId, expect.stringContaining('role changed'));
+  });
+
+  it('refuses users without a mapped group', async () => {
+    const fragment = await finishSignIn('outsider@example.com');
+
+    expect(fragment.get('token')).toBeNull();
+    expect(fragment.get('error')).toMatch(/not in a group allowed/);
+    expect(mockUsers).toHaveLength(0);
+  });
+
+  it('refuses unverified email addresses', async () => {
+    const fragment = await finishSignIn('unverified@example.com');
+
+    expect(fragment.get('error')).toMatch(/verified email/);
+    expect(mockUsers).toHaveLength(0);
+  });
+
+  it('links an existing account by email only when the provider verified it and it belongs to the SSO organization', async () => {
+    const existing = mockUserDocument({ userId: uuidv4(), email: 'interviewer@example.com', role: UserRole.INTERVIEWER, organizationId: uuidv4() });
+    mockUsers.push(existing);
+    const claims = { sub: 'idp-interviewer', email: 'interviewer@example.com', groups: ['proctoring-interviewers'] };
+
+    await expect(OidcService.provisionUser(claims)).rejects.toThrow('the identity provider has not verified it');
+    await expect(OidcService.provisionUser({ ...claims, email_verified: true }))
+      .rejects.toThrow('outside the organization single sign-on is set up for');
+    expect(existing.oidcSubject).toBeUndefined();
+    expect(existing.save).not.toHaveBeenCalled();
+
+    const fragment = await finishSignIn('interviewer@example.com');
+    expect(fragment.get('token')).toBeNull();
+    expect(fragment.get('error')).toMatch(/outside the organization/);
+  });
+
+  it('gives up on a provider that does not answer', async () => {
+    const silent = createServer(() => undefined);
+    await new Promise<void>(resolve => silent.listen(0, '127.0.0.1', resolve));
+    const { port } = silent.address() as AddressInfo;
+    process.env.OIDC_ISSUER = `http://127.0.0.1:${port}`;
+    process.env.OIDC_PROVIDER_TIMEOUT_MS = '200';
+
+    try {
+      const response = await request(app).get('/api/auth/oidc/login');
+      expect(response.status).toBeGreaterThanOrEqual(500);
+      expect(JSON.stringify(response.body)).toMatch(/no answer within 200ms/);
+    } finally {
+      process.env.OIDC_ISSUER = provider.issuer;
+      delete process.env.OIDC_PROVIDER_TIMEOUT_MS;
+      silent.closeAllConnections();
+      await new Promise(resolve => silent.close(resolve));
+    }
+  });
+
+  it('does not let single sign-on take over a candidate account', async () => {
+    mockUsers.push(mockUserDocument({ userId: uuidv4(), email: 'candidate@example.com', role: UserRole.CANDIDATE, organizationId }));
+
+    const fragment = await finishSignIn('candidate@example.com');
+
+    expect(fragment.get('token')).toBeNull();
+    expect(fragment.get('error')).toMatch(/sign in with your password/);
+    expect(mockUsers[0].role).toBe(UserRole.CANDIDATE);
+  });
+
+  it('rejects callbacks without the sign-in cookie or with a different state', async () => {
+    const { callbackPath, cookie } = await signInAtProvider('admin@example.com');
+
+    const errorOf = (response: request.Response) =>
+      new URLSearchParams(new URL(response.headers.location!).hash.slice(1)).get('error');
+
+    const withoutCookie = await request(app).get(callbackPath);
+    expect(errorOf(withoutCookie)).toMatch(/expired/);
+
+    const tampered = callbackPath.replace(/state=[^&]+/, 'state=forged');
+    const withOtherState = await request(app).get(tampered).set('Cookie', cookie);
+    expect(errorOf(withOtherState)).toMatch(/does not match/);
+    expect(mockUsers).toHaveLength(0);
+  });
+});
@@ -0,0 +1,148 @@
+import { v4 as uuidv4 } from 'uuid';
+import { OrganizationService } from '../services/organizationService';
+import { Organization } from '../models/Organization';
+import { User } from '../models/User';
+import { InterviewSession } from '../models/InterviewSession';
+import { UserRole } from '../types';
+import { getScopedOrganizationId, runWithTenant } from '../utils/tenantContext';
+
+jest.mock('../models/Organization', () => ({
+  Organization: {
+    findDefault: jest.fn(),
+    findBySlug: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn()
+  }
+}));
+
+function mockTenantModel(name: string) {
+  return {
+    updateMany: jest.fn().mockResolvedValue({ modifiedCount: 0 }),
+    collection: { name }
+  };
+}
+
+jest.mock('../models/User', () => ({
+  User: {
+    ...mockTenantModel('users'),
+    findOne: jest.fn(),
+    create: jest.fn()
+  }
+}));
+jest.mock('../models/InterviewSession', () => ({ InterviewSession: mockTenantModel('interview_sessions') }));
+jest.mock('../models/DetectionEvent', () => ({ DetectionEvent: mockTenantModel('detection_events') }));
+jest.mock('../models/ManualObservation', () => ({ ManualObservation: mockTenantModel('manual_observations') }));
+jest.mock('../models/ProctoringReport', () => ({ ProctoringReport: mockTenantModel('proctoring_reports') }));
+
+const mockOrganization = Organization as jest.Mocked<any>;
+const mockUser = User as jest.Mocked<any>;
+
+describe('OrganizationService', () => {
+  const defaultOrg = { organizationId: uuidv4(), slug: 'default', isActive: true, isDefault: true };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOrganization.findDefault.mockResolvedValue(defaultOrg);
+    mockUser.findOne.mockResolvedValue(null);
+    mockUser.create.mockImplementation(async (doc: any) => doc);
+  });
+
+  describe('ensureDefaultOrganization', () => {
+    it('should create the default organization when missing', async () => {
+      mockOrganization.findDefault.mockResolvedValue(null);
+      mockOrganization.create.mockResolvedValue(defaultOrg);
+
+      await OrganizationService.ensureDefaultOrganization();
+
+      expect(mockOrganization.create).toHaveBeenCalledWith(expect.objectContaining({ slug: 'default', isDefault: true }));
+    });
+
+    it('should move records without an organization into the default one', async () => {
+      await OrganizationService.ensureDefaultOrganization();
+
+      expect(InterviewSession.updateMany).toHaveBeenCalledWith(
+        { organizationId: { $exists: false } },
+        { $set: { organizationId: defaultOrg.organizationId } }
+      );
+      expect(mockOrganization.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createOrganization', () => {
+    it('should reject a slug that is already taken', async () => {
+      mockOrganization.findBySlug.mockResolvedValue(defaultOrg);
+
+      await expect(
+        OrganizationService.createOrganization({ name: 'Acme', slug: 'default' })
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should create the first admin inside the new organization', async () => {
+      const organization = { organizationId: uuidv4(), name: 'Acme', slug: 'acme' };
+      mockOrganization.findBySlug.mockResolvedValue(null);
+      mockOrganization.create.mockResolvedValue(organization);
+
+      const { admin } = await OrganizationService.createOrganization({
+        name: 'Acme',
+        slug: 'acme',
+        admin: { email: 'Admin@Acme.com', password: 'secret1', name: 'Acme Admin' }
+      });
+
+      expect(admin).toMatchObject({
+        email: 'admin@acme.com',
+        role: UserRole.ADMIN,
+        organizationId: organization.organizationId
+      });
+    });
+  });
+
+  describe('createUser', () => {
+    const input = { email: 'new@acme.com', password: 'secret1', name: 'New User', role: UserRole.INTERVIEWER as const };
+
+    it('should place users in the admin\'s own organization', async () => {
+      const actor: any = { userId: uuidv4(), role: UserRole.ADMIN, organizationId: uuidv4() };
+
+      const user = await OrganizationService.createUser({ ...input, organizationId: uuidv4() }, actor);
+
+      expect(user.organizationId).toBe(actor.organizationId);
+    });
+
+    it('should let super admins target another organization', async () => {
+      const target = { organizationId: uuidv4() };
+      mockOrganization.findOne.mockResolvedValue(target);
+      const actor: any = { userId: uuidv4(), role: UserRole.SUPER_ADMIN };
+
+      const user = await OrganizationService.createUser({ ...input, organizationId: target.organizationId }, actor);
+
+      expect(user.organizationId).toBe(target.organizationId);
+    });
+
+    it('should reject emails used in any organization', async () => {
+      mockUser.findOne.mockResolvedValue({ userId: uuidv4() });
+      const actor: any = { userId: uuidv4(), role: UserRole.ADMIN, organizationId: uuidv4() };
+
+      await expect(OrganizationService.createUser(input, actor)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('updateUser', () => {
+    it('should not let organization admins modify super admins', async () => {
+      mockUser.findOne.mockResolvedValue({ userId: uuidv4(), role: UserRole.SUPER_ADMIN });
+      const actor: any = { userId: uuidv4(), role: UserRole.ADMIN, organizationId: uuidv4() };
+
+      await expect(
+        OrganizationService.updateUser(uuidv4(), { isActive: false }, actor)
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+});
+
+describe('tenantContext', () => {
+  it('should scope only inside a tenant context', () => {
+    const organizationId = uuidv4();
+
+    expect(getScopedOrganizationId()).toBeUndefined();
+    expect(runWithTenant({ organizationId, crossTenant: false }, getScopedOrganizationId)).toBe(organizationId);
+    expect(runWithTenant({ organizationId, crossTenant: true }, getScopedOrganizationId)).toBeUndefined();
+  });
+});
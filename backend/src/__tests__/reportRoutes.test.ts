@@ -2,12 +2,26 @@ import request from 'supertest';
 import express from 'express';
 import reportRoutes from '../routes/reportRoutes';
 import { ReportService } from '../services/reportService';
+import { SessionAccessService } from '../services/sessionAccessService';
+import { AuthorizationError, ConflictError, NotFoundError } from '../middleware/errorHandler';
 import { v4 as uuidv4 } from 'uuid';
 
 // Mock the ReportService
 jest.mock('../services/reportService');
 const mockReportService = ReportService as jest.Mocked<typeof ReportService>;
 
+// Mock session access checks (assignment rules are covered in sessionAccessService.test)
+jest.mock('../services/sessionAccessService');
+const mockSessionAccess = SessionAccessService as jest.Mocked<typeof SessionAccessService>;
+
+// Audit entries are covered in auditService.test
+jest.mock('../services/auditService', () => ({
+  AuditService: {
+    actorFromRequest: jest.fn(() => ({ channel: 'http' })),
+    record: jest.fn()
+  }
+}));
+
 // Mock auth middleware
 jest.mock('../middleware/auth', () => ({
   authenticate: (req: any, res: any, next: any) => {
@@ -43,7 +57,41 @@ describe('Report Routes', () => {
       expect(response.status).toBe(202);
       expect(response.body.success).toBe(true);
       expect(response.body.data.reportId).toBe(mockReportId);
-      expect(mockReportService.generateReport).toHaveBeenCalledWith(mockSessionId, true);
+      expect(mockReportService.generateReport).toHaveBeenCalledWith(mockSessionId, true, undefined);
+    });
+
+    it('should pass the selected scoring policy to the service', async () => {
+      mockReportService.generateReport.mockResolvedValue(mockReportId);
+
+      const response = await request(app)
+        .post('/api/reports/generate')
+        .send({
+          sessionId: mockSessionId,
+          includeManualObservations: false,
+          scoringPolicy: 'strict',
+          scoringPolicyVersion: 2
+        });
+
+      expect(response.status).toBe(202);
+      expect(mockReportService.generateReport).toHaveBeenCalledWith(
+        mockSessionId,
+        false,
+        { name: 'strict', version: 2 }
+      );
+    });
+
+    it('should return 404 for unknown scoring policy', async () => {
+      mockReportService.generateReport.mockRejectedValue(new Error('Scoring policy not found: missing'));
+
+      const response = await request(app)
+        .post('/api/reports/generate')
+        .send({
+          sessionId: mockSessionId,
+          scoringPolicy: 'missing'
+        });
+
+      expect(response.status).toBe(404);
+      expect(response.body.success).toBe(false);
     });
 
     it('should return 400 for invalid session ID', async () => {
@@ -83,7 +131,7 @@ describe('Report Routes', () => {
         message: 'Report generation completed'
       };
 
-      mockReportService.getReportStatus.mockReturnValue(mockStatus);
+      mockReportService.getReportStatus.mockResolvedValue(mockStatus);
 
       const response = await request(app)
         .get(`/api/reports/${mockReportId}/status`);
@@ -94,7 +142,7 @@ describe('Report Routes', () => {
     });
 
     it('should return 404 for non-existent report', async () => {
-      mockReportService.getReportStatus.mockReturnValue(null);
+      mockReportService.getReportStatus.mockResolvedValue(null);
 
       const response = await request(app)
         .get(`/api/reports/${mockReportId}/status`);
@@ -112,6 +160,36 @@ describe('Report Routes', () => {
     });
   });
 
+  describe('POST /api/reports/:reportId/cancel', () => {
+    it('should cancel a pending report job', async () => {
+      mockReportService.cancelReportGeneration.mockResolvedValue({
+        reportId: mockReportId,
+        status: 'cancelled',
+        progress: 10
+      });
+
+      const response = await request(app)
+        .post(`/api/reports/${mockReportId}/cancel`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.status).toBe('cancelled');
+      expect(mockReportService.cancelReportGeneration).toHaveBeenCalledWith(mockReportId);
+    });
+
+    it('should return 409 when the job already finished', async () => {
+      mockReportService.cancelReportGeneration.mockRejectedValue(
+        new ConflictError('Report generation already completed')
+      );
+
+      const response = await request(app)
+        .post(`/api/reports/${mockReportId}/cancel`);
+
+      expect(response.status).toBe(409);
+      expect(response.body.success).toBe(false);
+    });
+  });
+
   describe('GET /api/reports/:reportId', () => {
     it('should return report data', async () => {
       const mockReport = {
@@ -142,6 +220,19 @@ describe('Report Routes', () => {
       expect(response.status).toBe(404);
       expect(response.body.success).toBe(false);
     });
+
+    it('should return 403 when the user is not assigned to the session', async () => {
+      mockSessionAccess.authorizeReport.mockRejectedValueOnce(
+        new AuthorizationError('Access denied. Cannot access this session.')
+      );
+
+      const response = await request(app)
+        .get(`/api/reports/${mockReportId}`);
+
+      expect(response.status).toBe(403);
+      expect(response.body.success).toBe(false);
+      expect(mockReportService.getReport).not.toHaveBeenCalled();
+    });
   });
 
   describe('GET /api/reports/:reportId/export', () => {
@@ -175,6 +266,21 @@ describe('Report Routes', () => {
       expect(Buffer.from(response.body)).toEqual(mockCsvBuffer);
     });
 
+    it('should redirect to the signed URL of an archived export', async () => {
+      const signedUrl = `/api/storage/reports/${mockReportId}.pdf?expires=1&signature=abc`;
+      mockReportService.getReport.mockResolvedValueOnce({ reportId: mockReportId, storageDriver: 'local', pdfStorageKey: `reports/${mockReportId}.pdf` });
+      mockReportService.getArchivedExportUrl.mockResolvedValueOnce(signedUrl);
+
+      const response = await request(app)
+        .get(`/api/reports/${mockReportId}/export`)
+        .query({ format: 'pdf' });
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe(signedUrl);
+      expect(mockReportService.getArchivedExportUrl).toHaveBeenCalledWith(expect.objectContaining({ reportId: mockReportId }), 'pdf');
+      expect(mockReportService.exportReportAsPDF).not.toHaveBeenCalled();
+    });
+
     it('should return 400 for invalid format', async () => {
       const response = await request(app)
         .get(`/api/reports/${mockReportId}/export`)
@@ -323,7 +429,11 @@ describe('Report Routes', () => {
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
       expect(response.body.data).toEqual(mockObservation);
-      expect(mockReportService.updateObservationFlag).toHaveBeenCalledWith(mockObservationId, true);
+      expect(mockReportService.updateObservationFlag).toHaveBeenCalledWith(
+        mockObservationId,
+        true,
+        expect.objectContaining({ channel: 'http' })
+      );
     });
 
     it('should return 404 for non-existent observation', async () => {
@@ -355,4 +465,31 @@ describe('Report Routes', () => {
       expect(response.body.success).toBe(false);
     });
   });
+
+  describe('GET /api/reports/verify/:code', () => {
+    it('should return the verification result', async () => {
+      const sha256 = 'a'.repeat(64);
+      mockReportService.verifyExport.mockResolvedValue({
+        code: 'K7QM-2XRP-9D4T',
+        reportId: mockReportId,
+        valid: true
+      } as any);
+
+      const response = await request(app)
+        .get(`/api/reports/verify/K7QM-2XRP-9D4T?sha256=${sha256}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.valid).toBe(true);
+      expect(mockReportService.verifyExport).toHaveBeenCalledWith('K7QM-2XRP-9D4T', sha256);
+    });
+
+    it('should return 404 for an unknown code', async () => {
+      mockReportService.verifyExport.mockRejectedValue(new NotFoundError('Verification code'));
+
+      const response = await request(app).get('/api/reports/verify/K7QM-2XRP-9D4T');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Verification code not found');
+    });
+  });
 });
\ No newline at end of file
@@ -1,8 +1,17 @@
+import puppeteer from 'puppeteer';
 import { ReportService } from '../services/reportService';
+import { EvidenceClipService } from '../services/evidenceClipService';
 import { DetectionEvent } from '../models/DetectionEvent';
 import { InterviewSession } from '../models/InterviewSession';
 import { ProctoringReport } from '../models/ProctoringReport';
 import { ManualObservation } from '../models/ManualObservation';
+import { ReportJob } from '../models/ReportJob';
+import { EvidenceClip } from '../models/EvidenceClip';
+import { ScoringPolicyService } from '../services/scoringPolicyService';
+import { StorageService } from '../services/storage';
+import { ReportSigningService } from '../services/reportSigningService';
+import { ReportAttestation } from '../models/ReportAttestation';
+import { DEFAULT_SCORING_POLICY } from '../utils/integrityScoring';
 import { EventType, SessionStatus } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -17,14 +26,59 @@ jest.mock('puppeteer', () => ({
   })
 }));
 
+// Archived exports are handed to the storage driver; drivers have their own tests
+jest.mock('../services/storage', () => ({
+  StorageService: {
+    put: jest.fn(async (key: string, content: { buffer: Buffer }) => ({ driver: 'local', key, size: content.buffer.length })),
+    signedUrl: jest.fn(async (ref: { key: string }) => `signed:${ref.key}`)
+  }
+}));
+
 describe('ReportService', () => {
   const mockSessionId = uuidv4();
   const mockCandidateId = uuidv4();
   const mockInterviewerId = uuidv4();
   const mockReportId = uuidv4();
 
+  // In-memory stand-in for the report_jobs collection
+  const jobs = new Map<string, any>();
+
   beforeEach(() => {
     jest.clearAllMocks();
+    jobs.clear();
+    jest.spyOn(ScoringPolicyService, 'resolvePolicy').mockResolvedValue(DEFAULT_SCORING_POLICY);
+    jest.spyOn(ProctoringReport, 'findOne').mockResolvedValue(null);
+    jest.spyOn(EvidenceClip, 'findBySession').mockResolvedValue([] as any);
+    // Signing is covered in reportSigningService.test; the mocked renderer does not produce a real PDF
+    jest.spyOn(ReportSigningService, 'embedInPdf').mockImplementation(async (pdf: Buffer) => pdf);
+    jest.spyOn(ReportAttestation, 'create').mockImplementation((async (data: any) => data) as any);
+
+    jest.spyOn(ReportJob, 'create').mockImplementation((async (data: any) => {
+      const job = { attempts: 0, ...data };
+      jobs.set(data.reportId, job);
+      return job;
+    }) as any);
+    jest.spyOn(ReportJob, 'claimNext').mockImplementation((async (workerId: string) => {
+      const job = [...jobs.values()].find(j => j.status === 'pending' && j.nextRunAt <= new Date());
+      if (!job) return null;
+      Object.assign(job, { status: 'processing', lockedBy: workerId, attempts: job.attempts + 1 });
+      return job;
+    }) as any);
+    jest.spyOn(ReportJob, 'updateLeased').mockImplementation(async (reportId: string, workerId: string, update: any) => {
+      const job = jobs.get(reportId);
+      if (!job || job.status !== 'processing' || job.lockedBy !== workerId) return false;
+      Object.assign(job, update);
+      return true;
+    });
+    jest.spyOn(ReportJob, 'findByReportId').mockImplementation(((reportId: string) =>
+      Promise.resolve(jobs.get(reportId) || null)) as any);
+    jest.spyOn(ReportJob, 'findOneAndUpdate').mockImplementation(((filter: any, update: any) => {
+      const job = jobs.get(filter.reportId);
+      if (!job || !['pending', 'processing'].includes(job.status)) return Promise.resolve(null);
+      Object.assign(job, update.$set);
+      delete job.lockedBy;
+      return Promise.resolve(job);
+    }) as any);
   });
 
   describe('generateReport', () => {
@@ -75,17 +129,110 @@ describe('ReportService', () => {
       // Wait a bit for async processing
       await new Promise(resolve => setTimeout(resolve, 100));
       
-      // Check that status shows failed
-      const status = ReportService.getReportStatus(reportId);
+      // Missing sessions are not retried
+      const status = await ReportService.getReportStatus(reportId);
       expect(status?.status).toBe('failed');
+      expect(status?.attempts).toBe(1);
+    });
+
+    it('should persist the job with the resolved policy version', async () => {
+      jest.spyOn(InterviewSession, 'findOne').mockResolvedValue(null);
+
+      const reportId = await ReportService.generateReport(mockSessionId, false);
+
+      expect(ReportJob.create).toHaveBeenCalledWith(expect.objectContaining({
+        reportId,
+        sessionId: mockSessionId,
+        includeManualObservations: false,
+        scoringPolicy: { name: 'standard', version: 3 },
+        status: 'pending'
+      }));
+    });
+
+    it('should schedule a retry with backoff when processing fails', async () => {
+      jest.spyOn(InterviewSession, 'findOne').mockResolvedValue({ sessionId: mockSessionId } as any);
+      jest.spyOn(DetectionEvent, 'findBySession').mockRejectedValue(new Error('Connection reset'));
+
+      const reportId = await ReportService.generateReport(mockSessionId);
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const status = await ReportService.getReportStatus(reportId);
+      expect(status?.status).toBe('pending');
+      expect(status?.error).toBe('Connection reset');
+      expect(status?.attempts).toBe(1);
+      expect(status?.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should reuse an already saved report when resuming a job', async () => {
+      const existingReport = { reportId: mockReportId, save: jest.fn() };
+      jest.spyOn(ProctoringReport, 'findOne').mockResolvedValue(existingReport as any);
+      const sessionLookup = jest.spyOn(InterviewSession, 'findOne');
+
+      jobs.set(mockReportId, {
+        reportId: mockReportId,
+        sessionId: mockSessionId,
+        includeManualObservations: true,
+        scoringPolicy: { name: 'standard', version: 1 },
+        status: 'pending',
+        progress: 60,
+        attempts: 1,
+        maxAttempts: 3,
+        nextRunAt: new Date(0)
+      });
+
+      // Any call that pokes the queue picks up the abandoned job
+      await ReportService.generateReport(mockSessionId);
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const status = await ReportService.getReportStatus(mockReportId);
+      expect(status?.status).toBe('completed');
+      expect(status?.attempts).toBe(2);
+      expect(sessionLookup).not.toHaveBeenCalledWith({ sessionId: mockSessionId });
     });
   });
 
   describe('getReportStatus', () => {
-    it('should return null for non-existent report', () => {
-      const status = ReportService.getReportStatus('non-existent-id');
+    it('should return null for non-existent report', async () => {
+      const status = await ReportService.getReportStatus('non-existent-id');
       expect(status).toBeNull();
     });
+
+    it('should report legacy reports without a job as completed', async () => {
+      jest.spyOn(ProctoringReport, 'findOne').mockResolvedValue({ reportId: mockReportId } as any);
+
+      const status = await ReportService.getReportStatus(mockReportId);
+      expect(status?.status).toBe('completed');
+    });
+  });
+
+  describe('cancelReportGeneration', () => {
+    it('should cancel a pending job', async () => {
+      jobs.set(mockReportId, {
+        reportId: mockReportId,
+        status: 'pending',
+        progress: 0,
+        attempts: 0,
+        maxAttempts: 3,
+        nextRunAt: new Date(Date.now() + 60000)
+      });
+
+      const status = await ReportService.cancelReportGeneration(mockReportId);
+
+      expect(status.status).toBe('cancelled');
+      expect(jobs.get(mockReportId).status).toBe('cancelled');
+    });
+
+    it('should reject cancelling a completed job', async () => {
+      jobs.set(mockReportId, { reportId: mockReportId, status: 'completed' });
+
+      await expect(ReportService.cancelReportGeneration(mockReportId))
+        .rejects.toThrow('Report generation already completed');
+    });
+
+    it('should throw for unknown jobs', async () => {
+      await expect(ReportService.cancelReportGeneration(mockReportId))
+        .rejects.toThrow('not found');
+    });
   });
 
   describe('getReport', () => {
@@ -151,6 +298,46 @@ describe('ReportService', () => {
     });
   });
 
+  describe('exportReportAsPDF with evidence', () => {
+    it('should embed evidence stills next to their events', async () => {
+      const clipId = uuidv4();
+      const mockReport = {
+        reportId: mockReportId,
+        candidateName: 'John Doe',
+        sessionId: mockSessionId,
+        integrityScore: 70,
+        suspiciousEvents: [
+          {
+            eventType: EventType.MULTIPLE_FACES,
+            timestamp: new Date(),
+            description: 'Multiple faces detected in video frame (2 faces)',
+            evidence: {
+              clipId,
+              clipUrl: `/api/videos/video-1/evidence/${clipId}`,
+              stillUrl: `/api/videos/video-1/evidence/${clipId}/still`,
+              startSeconds: 10,
+              durationSeconds: 10
+            }
+          }
+        ],
+        manualObservations: []
+      };
+
+      jest.spyOn(ReportService, 'getReport').mockResolvedValue(mockReport);
+      const loadStills = jest.spyOn(EvidenceClipService, 'loadStills')
+        .mockResolvedValue(new Map([[clipId, 'data:image/jpeg;base64,c3RpbGw=']]));
+
+      await ReportService.exportReportAsPDF(mockReportId);
+
+      const page = await (await (puppeteer.launch as jest.Mock)()).newPage();
+      expect(loadStills).toHaveBeenCalledWith(mockSessionId, mockReport.suspiciousEvents);
+      expect(page.setContent).toHaveBeenCalledWith(
+        expect.stringContaining('src="data:image/jpeg;base64,c3RpbGw="'),
+        expect.anything()
+      );
+    });
+  });
+
   describe('exportReportAsCSV', () => {
     it('should export report as CSV buffer', async () => {
       const mockReport = {
@@ -194,6 +381,12 @@ describe('ReportService', () => {
       expect(csvContent).toContain('John Doe');
       expect(csvContent).toContain('Suspicious Event');
       expect(csvContent).toContain('Manual Observation');
+      expect(csvContent).toMatch(/Verification,.*,([0-9A-Z]{4}-){2}[0-9A-Z]{4},,Verification Code,/);
+      expect(ReportAttestation.create).toHaveBeenCalledWith(expect.objectContaining({
+        reportId: mockReportId,
+        format: 'csv',
+        includeManualObservations: true
+      }));
     });
   });
 
@@ -330,37 +523,10 @@ describe('ReportService', () => {
       expect(savedReport.absenceCount).toBe(1);
       expect(savedReport.multipleFacesCount).toBe(1);
       expect(savedReport.unauthorizedItemsCount).toBe(1);
+      expect(savedReport.scoringPolicy).toMatchObject({ name: 'standard', version: 3 });
     });
-  });
-
-  describe('Cloudinary Integration', () => {
-    // Mock cloudStorageService
-    const mockCloudStorageService = {
-      isEnabled: jest.fn(),
-      uploadDocument: jest.fn()
-    };
 
-    beforeEach(() => {
-      // Mock the cloudStorageService import
-      jest.doMock('../services/cloudStorageService', () => ({
-        cloudStorageService: mockCloudStorageService
-      }));
-    });
-
-    it('should upload reports to Cloudinary when enabled', async () => {
-      // Enable Cloudinary
-      mockCloudStorageService.isEnabled.mockReturnValue(true);
-      mockCloudStorageService.uploadDocument
-        .mockResolvedValueOnce({
-          url: 'https://res.cloudinary.com/test/report.pdf',
-          publicId: 'reports/report-pdf'
-        })
-        .mockResolvedValueOnce({
-          url: 'https://res.cloudinary.com/test/report.csv',
-          publicId: 'reports/report-csv'
-        });
-
-      // Mock database operations
+    it('should count and deduct drowsiness, audio and identity events', async () => {
       const mockSession = {
         sessionId: mockSessionId,
         candidateId: mockCandidateId,
@@ -369,38 +535,49 @@ describe('ReportService', () => {
         calculateDuration: jest.fn().mockReturnValue(3600)
       };
 
-      jest.spyOn(InterviewSession, 'findOne').mockResolvedValue(mockSession);
-      jest.spyOn(DetectionEvent, 'findBySession').mockResolvedValue([]);
-      jest.spyOn(ManualObservation, 'findBySession').mockResolvedValue([]);
+      const mockEvents = [
+        { eventType: EventType.DROWSINESS, timestamp: new Date(), duration: 4, metadata: {} },
+        { eventType: EventType.EYE_CLOSURE, timestamp: new Date(), duration: 2, metadata: {} },
+        { eventType: EventType.BACKGROUND_VOICE, timestamp: new Date(), duration: 6, metadata: {} },
+        { eventType: EventType.MULTIPLE_VOICES, timestamp: new Date(), duration: 3, metadata: {} },
+        { eventType: EventType.IDENTITY_MISMATCH, timestamp: new Date(), metadata: {} }
+      ];
 
-      const savedReport = {
-        save: jest.fn(),
-        cloudinaryPdfUrl: undefined,
-        cloudinaryPdfPublicId: undefined,
-        cloudinaryCsvUrl: undefined,
-        cloudinaryCsvPublicId: undefined
-      };
+      jest.spyOn(InterviewSession, 'findOne').mockResolvedValue(mockSession as any);
+      jest.spyOn(DetectionEvent, 'findBySession').mockResolvedValue(mockEvents as any);
+      (ManualObservation.findBySession as jest.Mock) = jest.fn().mockResolvedValue([]);
+
+      let savedReport: any;
       jest.spyOn(ProctoringReport.prototype, 'save').mockImplementation(function(this: any) {
-        Object.assign(this, savedReport);
+        savedReport = this;
         return Promise.resolve(this);
       });
 
-      const reportId = await ReportService.generateReport(mockSessionId, true);
-
-      // Wait for async processing
-      await new Promise(resolve => setTimeout(resolve, 200));
+      await ReportService.generateReport(mockSessionId, true);
+      await new Promise(resolve => setTimeout(resolve, 100));
 
-      // Verify Cloudinary uploads were called
-      expect(mockCloudStorageService.uploadDocument).toHaveBeenCalledTimes(2);
-      expect(savedReport.save).toHaveBeenCalledTimes(2); // Once initially, once after Cloudinary upload
+      // 100 - 3 (drowsiness) - 2 (eye closure) - 8 (background voice) - 12 (multiple voices) - 20 (identity) = 55
+      expect(savedReport.integrityScore).toBe(55);
+      const stats = savedReport.toJSON().eventStats;
+      expect(stats).toHaveLength(Object.values(EventType).length);
+      expect(stats).toEqual(expect.arrayContaining([
+        { eventType: EventType.DROWSINESS, count: 1, totalDuration: 4 },
+        { eventType: EventType.BACKGROUND_VOICE, count: 1, totalDuration: 6 },
+        { eventType: EventType.EXCESSIVE_NOISE, count: 0, totalDuration: 0 },
+        { eventType: EventType.IDENTITY_MISMATCH, count: 1, totalDuration: 0 }
+      ]));
     });
 
-    it('should continue gracefully when Cloudinary upload fails', async () => {
-      // Enable Cloudinary but make it fail
-      mockCloudStorageService.isEnabled.mockReturnValue(true);
-      mockCloudStorageService.uploadDocument.mockRejectedValue(new Error('Upload failed'));
-
-      // Mock database operations
+    it('should score with the selected policy and record its version', async () => {
+      const strictPolicy = {
+        ...DEFAULT_SCORING_POLICY,
+        name: 'strict',
+        version: 3,
+        eventRules: {
+          [EventType.FOCUS_LOSS]: { pointsPerIncident: 1, pointsPerSecond: 1, maxPerIncident: 4 },
+          [EventType.ABSENCE]: { pointsPerIncident: 5, pointsPerSecond: 0 }
+        }
+      };
       const mockSession = {
         sessionId: mockSessionId,
         candidateId: mockCandidateId,
@@ -408,20 +585,118 @@ describe('ReportService', () => {
         duration: 3600,
         calculateDuration: jest.fn().mockReturnValue(3600)
       };
+      const mockEvents = [
+        { eventType: EventType.FOCUS_LOSS, timestamp: new Date(), duration: 2, metadata: {} },
+        { eventType: EventType.FOCUS_LOSS, timestamp: new Date(), duration: 10, metadata: {} },
+        { eventType: EventType.ABSENCE, timestamp: new Date(), duration: 12, metadata: {} }
+      ];
+
+      (ScoringPolicyService.resolvePolicy as jest.Mock).mockResolvedValue(strictPolicy);
+      jest.spyOn(InterviewSession, 'findOne').mockResolvedValue(mockSession as any);
+      jest.spyOn(DetectionEvent, 'findBySession').mockResolvedValue(mockEvents as any);
+      (ManualObservation.findBySession as jest.Mock) = jest.fn().mockResolvedValue([]);
+
+      let savedReport: any;
+      jest.spyOn(ProctoringReport.prototype, 'save').mockImplementation(function(this: any) {
+        savedReport = this;
+        return Promise.resolve(this);
+      });
+
+      await ReportService.generateReport(mockSessionId, true, { name: 'strict', version: 3 });
+      await new Promise(resolve => setTimeout(resolve, 100));
 
-      jest.spyOn(InterviewSession, 'findOne').mockResolvedValue(mockSession);
+      expect(ScoringPolicyService.resolvePolicy).toHaveBeenCalledWith({ name: 'strict', version: 3 });
+      // Focus loss: (1 + 2s) + min(1 + 10s, 4) = 7; absence: 5
+      expect(savedReport.integrityScore).toBe(88);
+      expect(savedReport.scoringPolicy).toMatchObject({ name: 'strict', version: 3 });
+    });
+
+    it('should reject unknown scoring policies before starting generation', async () => {
+      (ScoringPolicyService.resolvePolicy as jest.Mock).mockRejectedValue(new Error('Scoring policy not found: missing'));
+
+      await expect(ReportService.generateReport(mockSessionId, true, { name: 'missing' }))
+        .rejects.toThrow('Scoring policy not found');
+    });
+  });
+
+  describe('report storage', () => {
+    const mockSession = {
+      sessionId: mockSessionId,
+      candidateId: mockCandidateId,
+      candidateName: 'John Doe',
+      duration: 3600,
+      calculateDuration: jest.fn().mockReturnValue(3600)
+    };
+
+    beforeEach(() => {
+      jest.spyOn(InterviewSession, 'findOne').mockResolvedValue(mockSession as any);
       jest.spyOn(DetectionEvent, 'findBySession').mockResolvedValue([]);
       jest.spyOn(ManualObservation, 'findBySession').mockResolvedValue([]);
-      jest.spyOn(ProctoringReport.prototype, 'save').mockResolvedValue(undefined);
+    });
+
+    it('should archive the PDF and CSV exports with the storage driver', async () => {
+      // Exports are rendered from the saved report, so lookups return it once it exists
+      let savedReport: any = null;
+      jest.spyOn(ProctoringReport.prototype, 'save').mockImplementation(function(this: any) {
+        savedReport = this;
+        return Promise.resolve(this);
+      });
+      jest.spyOn(ProctoringReport, 'findOne').mockImplementation((() => Promise.resolve(savedReport)) as any);
 
       const reportId = await ReportService.generateReport(mockSessionId, true);
+      await new Promise(resolve => setTimeout(resolve, 200));
 
-      // Wait for async processing
+      expect(StorageService.put).toHaveBeenCalledWith(`reports/${reportId}.pdf`, { buffer: Buffer.from('mock-pdf-content') }, 'application/pdf');
+      expect(StorageService.put).toHaveBeenCalledWith(`reports/${reportId}.csv`, { buffer: expect.any(Buffer) }, 'text/csv');
+      expect(savedReport).toMatchObject({
+        storageDriver: 'local',
+        pdfStorageKey: `reports/${reportId}.pdf`,
+        csvStorageKey: `reports/${reportId}.csv`
+      });
+      expect((await ReportService.getReportStatus(reportId))?.status).toBe('completed');
+    });
+
+    it('should continue gracefully when archiving fails', async () => {
+      (StorageService.put as jest.Mock).mockRejectedValueOnce(new Error('Upload failed'));
+      jest.spyOn(ProctoringReport.prototype, 'save').mockResolvedValue(undefined as any);
+
+      const reportId = await ReportService.generateReport(mockSessionId, true);
       await new Promise(resolve => setTimeout(resolve, 200));
 
       // Report generation should still complete successfully
-      const status = ReportService.getReportStatus(reportId);
+      const status = await ReportService.getReportStatus(reportId);
       expect(status?.status).toBe('completed');
     });
   });
+
+  describe('getArchivedExportUrl', () => {
+    it('should sign a download URL for archived exports', async () => {
+      const url = await ReportService.getArchivedExportUrl({
+        reportId: mockReportId,
+        storageDriver: 's3',
+        pdfStorageKey: `reports/${mockReportId}.pdf`,
+        csvStorageKey: `reports/${mockReportId}.csv`
+      }, 'csv');
+
+      expect(url).toBe(`signed:reports/${mockReportId}.csv`);
+      expect(StorageService.signedUrl).toHaveBeenCalledWith(
+        { driver: 's3', key: `reports/${mockReportId}.csv` },
+        { downloadName: `proctoring-report-${mockReportId}.csv` }
+      );
+    });
+
+    it('should fall back to Cloudinary URLs stored before storage drivers', async () => {
+      const url = await ReportService.getArchivedExportUrl({
+        reportId: mockReportId,
+        cloudinaryPdfUrl: 'https://res.cloudinary.com/test/report.pdf'
+      }, 'pdf');
+
+      expect(url).toBe('https://res.cloudinary.com/test/report.pdf');
+      expect(StorageService.signedUrl).not.toHaveBeenCalled();
+    });
+
+    it('should return null when the export was never archived', async () => {
+      expect(await ReportService.getArchivedExportUrl({ reportId: mockReportId }, 'pdf')).toBeNull();
+    });
+  });
 });
\ No newline at end of file
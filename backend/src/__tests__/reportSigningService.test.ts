@@ -0,0 +1,191 @@
+import { createHash } from 'crypto';
+import { PDFDocument } from 'pdf-lib';
+import { v4 as uuidv4 } from 'uuid';
+import { ReportSigningService } from '../services/reportSigningService';
+import { ReportService } from '../services/reportService';
+import { ReportAttestation } from '../models/ReportAttestation';
+import { EventType, ObservationType, Severity } from '../types';
+
+jest.mock('../models/ReportAttestation', () => ({
+  ReportAttestation: { create: jest.fn(), findByCode: jest.fn() }
+}));
+
+const mockAttestation = ReportAttestation as jest.Mocked<any>;
+
+describe('ReportSigningService', () => {
+  const report = () => ({
+    reportId: uuidv4(),
+    sessionId: uuidv4(),
+    candidateId: uuidv4(),
+    candidateName: 'Jamie Doe',
+    interviewDuration: 1800,
+    integrityScore: 82,
+    focusLossCount: 2,
+    absenceCount: 0,
+    multipleFacesCount: 0,
+    unauthorizedItemsCount: 1,
+    eventStats: [{ eventType: EventType.FOCUS_LOSS, count: 2, totalDuration: 9 }],
+    suspiciousEvents: [{
+      eventType: EventType.FOCUS_LOSS,
+      timestamp: new Date('2026-03-01T10:00:00Z'),
+      duration: 5,
+      description: 'Candidate looked away'
+    }],
+    scoringPolicy: { name: 'default', version: 1 },
+    generatedAt: new Date('2026-03-01T11:00:00Z'),
+    manualObservations: [{
+      observationId: uuidv4(),
+      timestamp: new Date('2026-03-01T10:05:00Z'),
+      observationType: ObservationType.VIOLATION,
+      severity: Severity.HIGH,
+      description: 'Second screen',
+      flagged: true
+    }]
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockAttestation.create.mockImplementation(async (data: any) => data);
+  });
+
+  describe('sign', () => {
+    it('issues a code and a signature that verifies', () => {
+      const attestation = ReportSigningService.sign(report(), 'pdf', true);
+
+      expect(attestation.code).toMatch(/^[0-9A-HJKMNP-TV-Z]{12}$/);
+      expect(ReportSigningService.verifySignature(attestation)).toBe(true);
+    });
+
+    it('rejects a signature over altered fields', () => {
+      const attestation = ReportSigningService.sign(report(), 'pdf', true);
+
+      expect(ReportSigningService.verifySignature({ ...attestation, contentHash: 'f'.repeat(64) })).toBe(false);
+      expect(ReportSigningService.verifySignature({ ...attestation, format: 'csv' })).toBe(false);
+      expect(ReportSigningService.verifySignature({ ...attestation, signature: 'AAAA' })).toBe(false);
+    });
+  });
+
+  describe('contentHash', () => {
+    it('changes when the score, an event or a flag changes', () => {
+      const original = report();
+      const hash = ReportSigningService.contentHash(original, true);
+
+      expect(ReportSigningService.contentHash({ ...original, integrityScore: 95 }, true)).not.toBe(hash);
+      expect(ReportSigningService.contentHash({ ...original, suspiciousEvents: [] }, true)).not.toBe(hash);
+      expect(ReportSigningService.contentHash({
+        ...original,
+        manualObservations: [{ ...original.manualObservations[0]!, flagged: false }]
+      }, true)).not.toBe(hash);
+    });
+
+    it('ignores manual observations when the export left them out', () => {
+      const original = report();
+
+      expect(ReportSigningService.contentHash({ ...original, manualObservations: [] }, false))
+        .toBe(ReportSigningService.contentHash(original, false));
+    });
+
+    it('is the same for dates and their JSON strings', () => {
+      const original = report();
+      const fromJson = JSON.parse(JSON.stringify(original));
+
+      expect(ReportSigningService.contentHash(fromJson, true)).toBe(ReportSigningService.contentHash(original, true));
+    });
+  });
+
+  it('accepts codes typed with separators, lower case and look-alike letters', () => {
+    expect(ReportSigningService.normalizeCode('k7qm-2xrp-9d4t')).toBe('K7QM2XRP9D4T');
+    expect(ReportSigningService.normalizeCode('K7QM 2XRP 9D4O')).toBe('K7QM2XRP9D40');
+    expect(ReportSigningService.normalizeCode('K7QM-2XRP')).toBeNull();
+    expect(ReportSigningService.formatCode('K7QM2XRP9D4T')).toBe('K7QM-2XRP-9D4T');
+  });
+
+  it('embeds the attestation in the PDF document information', async () => {
+    const document = await PDFDocument.create();
+    document.addPage();
+    const attestation = ReportSigningService.sign(report(), 'pdf', true);
+
+    const signed = await ReportSigningService.embedInPdf(Buffer.from(await document.save()), attestation);
+
+    const reloaded = await PDFDocument.load(signed);
+    expect(reloaded.getKeywords()).toContain(`verification-code:${attestation.code}`);
+    expect(reloaded.getKeywords()).toContain(`content-sha256:${attestation.contentHash}`);
+    expect(reloaded.getKeywords()).toContain(`signature-ed25519:${attestation.signature}`);
+    expect(reloaded.getSubject()).toContain(ReportSigningService.formatCode(attestation.code));
+  });
+
+  it('puts the QR code and short code in the PDF footer', async () => {
+    const attestation = ReportSigningService.sign(report(), 'pdf', true);
+
+    const footer = await ReportSigningService.pdfFooterTemplate(attestation);
+
+    expect(footer).toContain('src="data:image/png;base64,');
+    expect(footer).toContain(ReportSigningService.formatCode(attestation.code));
+  });
+
+  describe('ReportService.verifyExport', () => {
+    const file = Buffer.from('exported file');
+    const fileSha256 = createHash('sha256').update(file).digest('hex');
+    let stored: any;
+
+    const issue = async () => {
+      stored = report();
+      const attestation = ReportSigningService.sign(stored, 'pdf', true);
+      const record = await ReportSigningService.record(attestation, file);
+      mockAttestation.findByCode.mockResolvedValue(record);
+      jest.spyOn(ReportService, 'getReport').mockImplementation(async () => stored);
+      return attestation;
+    };
+
+    it('confirms an export that matches the stored report', async () => {
+      const attestation = await issue();
+
+      const result = await ReportService.verifyExport(ReportSigningService.formatCode(attestation.code).toLowerCase(), fileSha256);
+
+      expect(mockAttestation.findByCode).toHaveBeenCalledWith(attestation.code);
+      expect(result).toMatchObject({
+        signatureValid: true,
+        contentMatches: true,
+        fileMatches: true,
+        valid: true,
+        report: { integrityScore: 82, candidateName: 'Jamie Doe' }
+      });
+      expect(result.signingKey.publicKey).toContain('BEGIN PUBLIC KEY');
+    });
+
+    it('fails when the stored report no longer says what the export said', async () => {
+      const attestation = await issue();
+      stored = { ...stored, integrityScore: 40 };
+
+      const result = await ReportService.verifyExport(attestation.code);
+
+      expect(result).toMatchObject({ signatureValid: true, contentMatches: false, valid: false });
+      expect(result.fileMatches).toBeUndefined();
+    });
+
+    it('fails for a file other than the one issued', async () => {
+      const attestation = await issue();
+
+      const result = await ReportService.verifyExport(attestation.code, 'a'.repeat(64));
+
+      expect(result).toMatchObject({ contentMatches: true, fileMatches: false, valid: false });
+    });
+
+    it('reports a deleted report', async () => {
+      const attestation = await issue();
+      (ReportService.getReport as jest.Mock).mockRejectedValue(new Error('Report not found'));
+
+      const result = await ReportService.verifyExport(attestation.code);
+
+      expect(result).toMatchObject({ reportExists: false, contentMatches: false, valid: false });
+      expect(result.report).toBeUndefined();
+    });
+
+    it('returns 404 for an unknown code', async () => {
+      mockAttestation.findByCode.mockResolvedValue(null);
+
+      await expect(ReportService.verifyExport('0000-0000-0000')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
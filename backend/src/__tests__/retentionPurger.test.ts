@@ -0,0 +1,277 @@
+import { v4 as uuidv4 } from 'uuid';
+import { RetentionPurger } from '../services/retentionPurger';
+import { Organization } from '../models/Organization';
+import { InterviewSession } from '../models/InterviewSession';
+import { DetectionEvent } from '../models/DetectionEvent';
+import { ProctoringReport } from '../models/ProctoringReport';
+import { ReportJob } from '../models/ReportJob';
+import { RetentionPurge } from '../models/RetentionPurge';
+import { RetentionPurgeLease } from '../models/RetentionPurgeLease';
+import { StorageService } from '../services/storage';
+import { cloudStorageService } from '../services/cloudStorageService';
+import { videoStorageService } from '../services/videoStorageService';
+import { VideoAssetService } from '../services/videoAssetService';
+import { EvidenceClipService } from '../services/evidenceClipService';
+import { SessionStatus } from '../types';
+
+jest.mock('../models/Organization', () => ({
+  Organization: { find: jest.fn(), findOne: jest.fn() }
+}));
+jest.mock('../models/InterviewSession', () => ({
+  InterviewSession: { find: jest.fn(), distinct: jest.fn(), updateOne: jest.fn() }
+}));
+jest.mock('../models/DetectionEvent', () => ({
+  DetectionEvent: { aggregate: jest.fn(), deleteMany: jest.fn() }
+}));
+jest.mock('../models/ProctoringReport', () => ({ ProctoringReport: { find: jest.fn() } }));
+jest.mock('../models/ReportJob', () => ({ ReportJob: { deleteOne: jest.fn() } }));
+jest.mock('../models/RetentionPurge', () => ({ RetentionPurge: { create: jest.fn() } }));
+// Lease holders by organization, standing in for the retention_purge_leases collection
+const mockLeases = new Map<string, string>();
+jest.mock('../models/RetentionPurgeLease', () => ({
+  RetentionPurgeLease: {
+    acquire: jest.fn(async (organizationId: string, workerId: string) => {
+      if (mockLeases.has(organizationId)) return null;
+      mockLeases.set(organizationId, workerId);
+      return { organizationId, lockedBy: workerId };
+    }),
+    renew: jest.fn(async () => true),
+    release: jest.fn(async (organizationId: string, workerId: string) => {
+      if (mockLeases.get(organizationId) === workerId) mockLeases.delete(organizationId);
+    })
+  }
+}));
+jest.mock('../services/storage', () => ({ StorageService: { remove: jest.fn() } }));
+jest.mock('../services/cloudStorageService', () => ({ cloudStorageService: { deleteFile: jest.fn() } }));
+jest.mock('../services/videoStorageService', () => ({ videoStorageService: { deleteVideo: jest.fn() } }));
+jest.mock('../services/videoAssetService', () => ({ VideoAssetService: { remove: jest.fn() } }));
+jest.mock('../services/evidenceClipService', () => ({ EvidenceClipService: { remove: jest.fn() } }));
+
+const mockOrganization = Organization as jest.Mocked<any>;
+const mockSession = InterviewSession as jest.Mocked<any>;
+const mockEvent = DetectionEvent as jest.Mocked<any>;
+const mockReport = ProctoringReport as jest.Mocked<any>;
+const mockPurgeRecord = RetentionPurge as jest.Mocked<any>;
+const mockStorageRemove = StorageService.remove as jest.Mock;
+const mockDeleteFile = cloudStorageService.deleteFile as jest.Mock;
+const mockDeleteVideo = videoStorageService.deleteVideo as jest.Mock;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// find() is chained with limit()/select()
+const query = (result: any[]) => {
+  const chain: any = Promise.resolve(result);
+  chain.limit = () => chain;
+  chain.select = () => chain;
+  return chain;
+};
+
+describe('RetentionPurger', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+  const organizationId = uuidv4();
+  let sessions: any[];
+  let eventGroups: any[];
+  let reports: any[];
+  let heldSessionIds: string[];
+
+  const setRetention = (retention: Record<string, number> | undefined) =>
+    mockOrganization.findOne.mockResolvedValue({ organizationId, retention });
+
+  const recordingSession = (extra: Record<string, any> = {}) => ({
+    sessionId: uuidv4(),
+    videoUrl: `/api/videos/${uuidv4()}`,
+    startTime: new Date(now.getTime() - 120 * DAY),
+    status: SessionStatus.COMPLETED,
+    ...extra
+  });
+
+  const storedReport = (extra: Record<string, any> = {}) => ({
+    reportId: uuidv4(),
+    sessionId: uuidv4(),
+    generatedAt: new Date(now.getTime() - 800 * DAY),
+    set: jest.fn(),
+    deleteOne: jest.fn(),
+    ...extra
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLeases.clear();
+    delete process.env.RETENTION_RECORDING_DAYS;
+    delete process.env.RETENTION_EVENT_DAYS;
+    delete process.env.RETENTION_REPORT_DAYS;
+
+    sessions = [];
+    eventGroups = [];
+    reports = [];
+    heldSessionIds = [];
+    setRetention({ recordingDays: 90, eventDays: 90, reportDays: 730 });
+    mockOrganization.find.mockImplementation(() => query([{ organizationId }]));
+    mockSession.find.mockImplementation(() => query(sessions));
+    mockSession.distinct.mockImplementation(async () => heldSessionIds);
+    mockEvent.aggregate.mockImplementation(async () => eventGroups);
+    mockEvent.deleteMany.mockImplementation(async () => ({ deletedCount: eventGroups[0]?.count ?? 0 }));
+    mockReport.find.mockImplementation(() => query(reports));
+    mockPurgeRecord.create.mockImplementation(async (doc: any) => doc);
+    mockDeleteVideo.mockResolvedValue(true);
+  });
+
+  it('should only record what a dry run would delete', async () => {
+    sessions = [recordingSession()];
+    eventGroups = [{ _id: uuidv4(), count: 12 }];
+    reports = [storedReport({ storageDriver: 's3', pdfStorageKey: 'reports/a.pdf', csvStorageKey: 'reports/a.csv' })];
+
+    const purge = await new RetentionPurger().purgeOrganization(organizationId, { dryRun: true, now });
+
+    expect(purge.dryRun).toBe(true);
+    expect(purge.totals).toEqual({ recordings: 1, events: 12, reports: 1, failed: 0 });
+    expect(purge.items.find(item => item.category === 'report')!.locations).toEqual(['s3:reports/a.pdf', 's3:reports/a.csv']);
+    expect(mockDeleteVideo).not.toHaveBeenCalled();
+    expect(mockEvent.deleteMany).not.toHaveBeenCalled();
+    expect(mockStorageRemove).not.toHaveBeenCalled();
+    expect(reports[0].deleteOne).not.toHaveBeenCalled();
+    expect(mockSession.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should use cutoffs from the organization windows', async () => {
+    setRetention({ recordingDays: 90, reportDays: 730 });
+
+    await new RetentionPurger().purgeOrganization(organizationId, { dryRun: true, now });
+
+    expect(mockSession.find).toHaveBeenCalledWith(expect.objectContaining({
+      organizationId,
+      startTime: { $lt: new Date(now.getTime() - 90 * DAY) },
+      status: { $nin: [SessionStatus.ACTIVE, SessionStatus.SCHEDULED] },
+      legalHold: { $exists: false }
+    }));
+    expect(mockReport.find).toHaveBeenCalledWith(expect.objectContaining({
+      generatedAt: { $lt: new Date(now.getTime() - 730 * DAY) }
+    }));
+    // No event window configured anywhere, so events are kept
+    expect(mockEvent.aggregate).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the server defaults for windows the organization does not override', async () => {
+    process.env.RETENTION_EVENT_DAYS = '30';
+    setRetention(undefined);
+
+    const purge = await new RetentionPurger().purgeOrganization(organizationId, { dryRun: true, now });
+
+    expect(purge.policy).toEqual({ eventDays: 30 });
+    expect(mockSession.find).not.toHaveBeenCalled();
+    expect(mockEvent.aggregate).toHaveBeenCalled();
+    expect(mockReport.find).not.toHaveBeenCalled();
+  });
+
+  it('should leave sessions on legal hold out of event and report purges', async () => {
+    heldSessionIds = [uuidv4()];
+
+    await new RetentionPurger().purgeOrganization(organizationId, { dryRun: true, now });
+
+    const match = mockEvent.aggregate.mock.calls[0][0][0].$match;
+    expect(match.sessionId).toEqual({ $nin: heldSessionIds });
+    expect(mockReport.find).toHaveBeenCalledWith(expect.objectContaining({ sessionId: { $nin: heldSessionIds } }));
+  });
+
+  it('should delete local recordings with their previews and clips and mark the session', async () => {
+    const session = recordingSession();
+    sessions = [session];
+    const videoId = session.videoUrl.split('/').pop();
+
+    const purge = await new RetentionPurger().purgeOrganization(organizationId, { dryRun: false, now });
+
+    expect(mockDeleteVideo).toHaveBeenCalledWith(videoId);
+    expect(VideoAssetService.remove).toHaveBeenCalledWith(videoId);
+    expect(EvidenceClipService.remove).toHaveBeenCalledWith(videoId);
+    expect(mockSession.updateOne).toHaveBeenCalledWith(
+      { sessionId: session.sessionId },
+      expect.objectContaining({
+        $unset: expect.objectContaining({ videoUrl: 1 }),
+        $set: { recordingPurgedAt: expect.any(Date) }
+      })
+    );
+    expect(purge.items[0]).toEqual(expect.objectContaining({ category: 'recording', videoId, locations: ['local'] }));
+  });
+
+  it('should delete offloaded and legacy Cloudinary recordings from their storage', async () => {
+    sessions = [
+      recordingSession({ recordingStorageDriver: 's3', recordingStorageKey: 'recordings/s/v.mp4' }),
+      recordingSession({ videoUrl: 'https://res.cloudinary.com/demo/video/upload/v1/old.mp4', recordingPublicId: 'old' })
+    ];
+
+    await new RetentionPurger().purgeOrganization(organizationId, { dryRun: false, now });
+
+    expect(mockStorageRemove).toHaveBeenCalledWith({ driver: 's3', key: 'recordings/s/v.mp4' });
+    expect(mockDeleteFile).toHaveBeenCalledWith('old', 'video');
+    // The local copy was already removed when the recording was offloaded
+    expect(mockDeleteVideo).not.toHaveBeenCalled();
+  });
+
+  it('should delete reports with their archived exports and jobs', async () => {
+    const report = storedReport({
+      storageDriver: 'local',
+      pdfStorageKey: 'reports/r.pdf',
+      csvStorageKey: 'reports/r.csv',
+      cloudinaryPdfPublicId: 'legacy-pdf'
+    });
+    reports = [report];
+
+    await new RetentionPurger().purgeOrganization(organizationId, { dryRun: false, now });
+
+    expect(mockStorageRemove).toHaveBeenCalledWith({ driver: 'local', key: 'reports/r.pdf' });
+    expect(mockStorageRemove).toHaveBeenCalledWith({ driver: 'local', key: 'reports/r.csv' });
+    expect(mockDeleteFile).toHaveBeenCalledWith('legacy-pdf', 'raw');
+    expect(ReportJob.deleteOne).toHaveBeenCalledWith({ reportId: report.reportId });
+    expect(report.deleteOne).toHaveBeenCalled();
+  });
+
+  it('should record failures and carry on with the remaining items', async () => {
+    const failing = storedReport({ storageDriver: 's3', pdfStorageKey: 'reports/f.pdf' });
+    const ok = storedReport();
+    reports = [failing, ok];
+    mockStorageRemove.mockRejectedValueOnce(new Error('S3 DELETE failed with status 503'));
+
+    const purge = await new RetentionPurger().purgeOrganization(organizationId, { dryRun: false, now });
+
+    expect(failing.deleteOne).not.toHaveBeenCalled();
+    expect(ok.deleteOne).toHaveBeenCalled();
+    expect(purge.items[0]!.error).toBe('S3 DELETE failed with status 503');
+    expect(purge.totals).toEqual(expect.objectContaining({ reports: 1, failed: 1 }));
+  });
+
+  it('should only keep audit records of scheduled runs that found something', async () => {
+    const purger = new RetentionPurger({ dryRun: false });
+
+    expect(await purger.purgeAll(now)).toEqual([]);
+    expect(mockPurgeRecord.create).not.toHaveBeenCalled();
+
+    eventGroups = [{ _id: uuidv4(), count: 3 }];
+    const purges = await purger.purgeAll(now);
+
+    expect(purges).toHaveLength(1);
+    expect(mockPurgeRecord.create).toHaveBeenCalledWith(expect.objectContaining({
+      organizationId,
+      trigger: 'scheduled',
+      dryRun: false,
+      totals: { recordings: 0, events: 3, reports: 0, failed: 0 }
+    }));
+  });
+
+  it('should not purge an organization while another instance holds its lease', async () => {
+    eventGroups = [{ _id: uuidv4(), count: 3 }];
+    mockLeases.set(organizationId, 'other-instance');
+    const purger = new RetentionPurger({ dryRun: false });
+
+    expect(await purger.purgeAll(now)).toEqual([]);
+    await expect(purger.purgeOrganization(organizationId, { dryRun: false, now }))
+      .rejects.toThrow('A retention purge is already running for this organization');
+    expect(mockEvent.deleteMany).not.toHaveBeenCalled();
+
+    // A finished run hands the lease back
+    mockLeases.clear();
+    await purger.purgeOrganization(organizationId, { dryRun: false, now });
+    expect(RetentionPurgeLease.acquire).toHaveBeenLastCalledWith(organizationId, purger.workerId, 10 * 60 * 1000);
+    expect(RetentionPurgeLease.release).toHaveBeenLastCalledWith(organizationId, purger.workerId);
+    expect(mockLeases.has(organizationId)).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { ScoringPolicyService } from '../services/scoringPolicyService';
+import { ScoringPolicy as ScoringPolicyModel } from '../models/ScoringPolicy';
+import { CreateScoringPolicySchema, EventType } from '../types';
+
+// In-memory stand-in for the scoring_policies collection and its unique (name, version) index
+const mockStored: any[] = [];
+
+jest.mock('../models/ScoringPolicy', () => {
+  function MockPolicy(this: any, fields: any) {
+    Object.assign(this, { _id: `policy-${Math.random()}`, isDefault: false, ...fields });
+  }
+  MockPolicy.prototype.save = jest.fn(async function (this: any) {
+    if (mockStored.some(doc => doc.name === this.name && doc.version === this.version)) {
+      throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+    }
+    mockStored.push(this);
+    return this;
+  });
+  MockPolicy.prototype.toJSON = function (this: any) {
+    return { ...this };
+  };
+  Object.assign(MockPolicy, {
+    findLatest: jest.fn(async (name: string) =>
+      mockStored.filter(doc => doc.name === name).sort((a, b) => b.version - a.version)[0] ?? null),
+    findVersion: jest.fn(async () => null),
+    findDefault: jest.fn(async () => null),
+    updateMany: jest.fn(async (filter: any, update: any) => {
+      mockStored
+        .filter(doc => doc.isDefault === filter.isDefault && doc._id !== filter._id?.$ne)
+        .forEach(doc => Object.assign(doc, update.$set));
+    })
+  });
+  return { ScoringPolicy: MockPolicy };
+});
+
+const input = {
+  name: 'strict',
+  baseScore: 100,
+  eventRules: { [EventType.FOCUS_LOSS]: { pointsPerIncident: 5, pointsPerSecond: 0 } },
+  manualObservationPoints: 3,
+  severityMultipliers: { low: 1, medium: 1.5, high: 2 },
+  isDefault: false
+};
+
+describe('ScoringPolicyService', () => {
+  beforeEach(() => {
+    mockStored.length = 0;
+    jest.clearAllMocks();
+  });
+
+  it('takes the next version when another request stored the same one first', async () => {
+    // Both creates read the same latest version before either saves
+    (ScoringPolicyModel.findLatest as jest.Mock)
+      .mockImplementationOnce(async () => null)
+      .mockImplementationOnce(async () => null);
+
+    const [first, second] = await Promise.all([
+      ScoringPolicyService.createPolicyVersion(input),
+      ScoringPolicyService.createPolicyVersion(input)
+    ]);
+
+    expect([first.version, second.version].sort()).toEqual([1, 2]);
+  });
+
+  it('moves the default only once the new default is stored', async () => {
+    await ScoringPolicyService.createPolicyVersion({ ...input, name: 'lenient', isDefault: true });
+    const save = (ScoringPolicyModel as any).prototype.save as jest.Mock;
+    save.mockRejectedValueOnce(new Error('Validation failed'));
+
+    await expect(ScoringPolicyService.createPolicyVersion({ ...input, isDefault: true })).rejects.toThrow('Validation failed');
+    expect(mockStored.filter(doc => doc.isDefault).map(doc => doc.name)).toEqual(['lenient']);
+
+    const policy = await ScoringPolicyService.createPolicyVersion({ ...input, isDefault: true });
+    expect(policy.isDefault).toBe(true);
+    expect(mockStored.filter(doc => doc.isDefault).map(doc => doc.name)).toEqual(['strict']);
+  });
+
+  it('reports a missing policy as not found', async () => {
+    await expect(ScoringPolicyService.getPolicy('missing', 3)).rejects.toMatchObject({
+      statusCode: 404,
+      message: 'Scoring policy missing@v3 not found'
+    });
+  });
+
+  it('rejects rules for event types that do not exist', () => {
+    expect(CreateScoringPolicySchema.safeParse(input).success).toBe(true);
+
+    const result = CreateScoringPolicySchema.safeParse({
+      ...input,
+      eventRules: { 'foucs-loss': { pointsPerIncident: 5 } }
+    });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SessionAccessService } from '../services/sessionAccessService';
+import { InterviewSession } from '../models/InterviewSession';
+import { SessionAssignment } from '../models/SessionAssignment';
+import { AssignmentRole, UserRole } from '../types';
+
+jest.mock('../models/InterviewSession', () => ({
+  InterviewSession: {
+    findOne: jest.fn(),
+    updateOne: jest.fn()
+  }
+}));
+
+jest.mock('../models/SessionAssignment', () => ({
+  SessionAssignment: {
+    findAssignment: jest.fn(),
+    distinct: jest.fn()
+  }
+}));
+
+jest.mock('../models/ProctoringReport', () => ({ ProctoringReport: { findOne: jest.fn() } }));
+jest.mock('../models/ReportJob', () => ({ ReportJob: { findByReportId: jest.fn() } }));
+jest.mock('../models/ManualObservation', () => ({ ManualObservation: { findOne: jest.fn() } }));
+
+const mockSessionFindOne = InterviewSession.findOne as jest.Mock;
+const mockFindAssignment = SessionAssignment.findAssignment as jest.Mock;
+const mockDistinct = SessionAssignment.distinct as jest.Mock;
+
+describe('SessionAccessService', () => {
+  const ownerId = uuidv4();
+  const candidateId = uuidv4();
+  const session: any = { sessionId: uuidv4(), candidateId, interviewerId: ownerId };
+
+  const interviewer = (userId: string) => ({ userId, role: UserRole.INTERVIEWER });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindAssignment.mockResolvedValue(null);
+    mockSessionFindOne.mockResolvedValue(session);
+  });
+
+  describe('canAccess', () => {
+    it('should treat the session creator as primary interviewer', async () => {
+      await expect(SessionAccessService.canAccess(interviewer(ownerId), session, 'assign')).resolves.toBe(true);
+    });
+
+    it('should deny interviewers without an assignment', async () => {
+      await expect(SessionAccessService.canAccess(interviewer(uuidv4()), session, 'view')).resolves.toBe(false);
+    });
+
+    it('should give secondary interviewers manage but not assign rights', async () => {
+      mockFindAssignment.mockResolvedValue({ role: AssignmentRole.SECONDARY });
+      const secondary = interviewer(uuidv4());
+
+      await expect(SessionAccessService.canAccess(secondary, session, 'manage')).resolves.toBe(true);
+      await expect(SessionAccessService.canAccess(secondary, session, 'assign')).resolves.toBe(false);
+    });
+
+    it('should keep observers read-only', async () => {
+      mockFindAssignment.mockResolvedValue({ role: AssignmentRole.OBSERVER });
+      const observer = interviewer(uuidv4());
+
+      await expect(SessionAccessService.canAccess(observer, session, 'view')).resolves.toBe(true);
+      await expect(SessionAccessService.canAccess(observer, session, 'manage')).resolves.toBe(false);
+    });
+
+    it('should let candidates view only their own session', async () => {
+      const candidate = { userId: candidateId, role: UserRole.CANDIDATE };
+
+      await expect(SessionAccessService.canAccess(candidate, session, 'view')).resolves.toBe(true);
+      await expect(SessionAccessService.canAccess(candidate, session, 'manage')).resolves.toBe(false);
+      await expect(
+        SessionAccessService.canAccess({ userId: uuidv4(), role: UserRole.CANDIDATE }, session, 'view')
+      ).resolves.toBe(false);
+    });
+
+    it('should let admins do anything', async () => {
+      await expect(
+        SessionAccessService.canAccess({ userId: uuidv4(), role: UserRole.ADMIN }, session, 'assign')
+      ).resolves.toBe(true);
+      expect(mockFindAssignment).not.toHaveBeenCalled();
+    });
+
+    it('should keep admins inside their own organization', async () => {
+      const orgSession: any = { ...session, organizationId: uuidv4() };
+      const otherAdmin = { userId: uuidv4(), role: UserRole.ADMIN, organizationId: uuidv4() };
+      const ownAdmin = { userId: uuidv4(), role: UserRole.ADMIN, organizationId: orgSession.organizationId };
+
+      await expect(SessionAccessService.canAccess(otherAdmin, orgSession, 'view')).resolves.toBe(false);
+      await expect(SessionAccessService.canAccess(ownAdmin, orgSession, 'assign')).resolves.toBe(true);
+    });
+
+    it('should deny assigned interviewers from another organization', async () => {
+      mockFindAssignment.mockResolvedValue({ role: AssignmentRole.PRIMARY });
+      const orgSession: any = { ...session, organizationId: uuidv4() };
+
+      await expect(
+        SessionAccessService.canAccess({ ...interviewer(uuidv4()), organizationId: uuidv4() }, orgSession, 'view')
+      ).resolves.toBe(false);
+    });
+
+    it('should let super admins access every organization', async () => {
+      const orgSession: any = { ...session, organizationId: uuidv4() };
+
+      await expect(
+        SessionAccessService.canAccess({ userId: uuidv4(), role: UserRole.SUPER_ADMIN }, orgSession, 'assign')
+      ).resolves.toBe(true);
+    });
+  });
+
+  describe('authorizeSession', () => {
+    it('should reject unknown sessions with a 404', async () => {
+      mockSessionFindOne.mockResolvedValue(null);
+
+      await expect(
+        SessionAccessService.authorizeSession(interviewer(ownerId), uuidv4(), 'view')
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should reject unassigned interviewers with a 403', async () => {
+      await expect(
+        SessionAccessService.authorizeSession(interviewer(uuidv4()), session.sessionId, 'view')
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+
+  describe('sessionFilter', () => {
+    it('should limit interviewers to created and assigned sessions', async () => {
+      const userId = uuidv4();
+      const assignedId = uuidv4();
+      mockDistinct.mockResolvedValue([assignedId]);
+
+      const filter = await SessionAccessService.sessionFilter(interviewer(userId));
+
+      expect(mockDistinct).toHaveBeenCalledWith('sessionId', { userId });
+      expect(filter).toEqual({
+        $or: [{ interviewerId: userId }, { sessionId: { $in: [assignedId] } }]
+      });
+    });
+
+    it('should limit admins to their organization', async () => {
+      const organizationId = uuidv4();
+
+      await expect(
+        SessionAccessService.sessionFilter({ userId: uuidv4(), role: UserRole.ADMIN, organizationId })
+      ).resolves.toEqual({ organizationId });
+    });
+
+    it('should not filter sessions for super admins', async () => {
+      await expect(
+        SessionAccessService.sessionFilter({ userId: uuidv4(), role: UserRole.SUPER_ADMIN })
+      ).resolves.toEqual({});
+    });
+  });
+});
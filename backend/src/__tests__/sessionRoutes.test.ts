@@ -6,7 +6,20 @@ import app from '../index';
 import { User } from '../models/User';
 import { InterviewSession } from '../models/InterviewSession';
 import { ManualObservation } from '../models/ManualObservation';
-import { UserRole, SessionStatus, ObservationType, Severity } from '../types';
+import { SessionAssignment } from '../models/SessionAssignment';
+import { SessionInvitation } from '../models/SessionInvitation';
+import { IdentityReference } from '../models/IdentityReference';
+import { DetectionEvent } from '../models/DetectionEvent';
+import {
+  UserRole,
+  SessionStatus,
+  ObservationType,
+  Severity,
+  AssignmentRole,
+  SystemCheckStatus,
+  IdentityVerificationStatus,
+  EventType
+} from '../types';
 
 describe('Session Routes', () => {
   let mongoServer: MongoMemoryServer;
@@ -90,6 +103,7 @@ describe('Session Routes', () => {
     // Clean up collections before each test
     await InterviewSession.deleteMany({});
     await ManualObservation.deleteMany({});
+    await SessionAssignment.deleteMany({});
   });
 
   describe('POST /api/sessions/create', () => {
@@ -161,6 +175,7 @@ describe('Session Routes', () => {
       const session = new InterviewSession({
         sessionId: '123e4567-e89b-12d3-a456-426614174000',
         candidateId: candidateUserId,
+        interviewerId: interviewerUserId,
         candidateName: 'Test Candidate',
         startTime: new Date(),
         status: SessionStatus.ACTIVE
@@ -202,6 +217,7 @@ describe('Session Routes', () => {
       const session = new InterviewSession({
         sessionId: '123e4567-e89b-12d3-a456-426614174000',
         candidateId: candidateUserId,
+        interviewerId: interviewerUserId,
         candidateName: 'Test Candidate',
         startTime: new Date(),
         status: SessionStatus.ACTIVE
@@ -249,6 +265,7 @@ describe('Session Routes', () => {
       const session = new InterviewSession({
         sessionId: '123e4567-e89b-12d3-a456-426614174000',
         candidateId: candidateUserId,
+        interviewerId: interviewerUserId,
         candidateName: 'Test Candidate',
         startTime: new Date(),
         status: SessionStatus.ACTIVE
@@ -275,6 +292,7 @@ describe('Session Routes', () => {
       const session = new InterviewSession({
         sessionId: '123e4567-e89b-12d3-a456-426614174000',
         candidateId: candidateUserId,
+        interviewerId: interviewerUserId,
         candidateName: 'Test Candidate',
         startTime: new Date(),
         status: SessionStatus.ACTIVE
@@ -300,6 +318,7 @@ describe('Session Routes', () => {
       const session = new InterviewSession({
         sessionId: '123e4567-e89b-12d3-a456-426614174000',
         candidateId: candidateUserId,
+        interviewerId: interviewerUserId,
         candidateName: 'Test Candidate',
         startTime: new Date(),
         status: SessionStatus.ACTIVE
@@ -369,6 +388,7 @@ describe('Session Routes', () => {
       const session = new InterviewSession({
         sessionId: '123e4567-e89b-12d3-a456-426614174000',
         candidateId: candidateUserId,
+        interviewerId: interviewerUserId,
         candidateName: 'Test Candidate',
         startTime: new Date(),
         status: SessionStatus.ACTIVE
@@ -418,6 +438,7 @@ describe('Session Routes', () => {
       const newSession = new InterviewSession({
         sessionId: '123e4567-e89b-12d3-a456-426614174001',
         candidateId: candidateUserId,
+        interviewerId: interviewerUserId,
         candidateName: 'Test Candidate 2',
         startTime: new Date(),
         status: SessionStatus.ACTIVE
@@ -441,6 +462,7 @@ describe('Session Routes', () => {
         new InterviewSession({
           sessionId: '123e4567-e89b-12d3-a456-426614174000',
           candidateId: candidateUserId,
+          interviewerId: interviewerUserId,
           candidateName: 'Active Session',
           startTime: new Date(),
           status: SessionStatus.ACTIVE
@@ -448,6 +470,7 @@ describe('Session Routes', () => {
         new InterviewSession({
           sessionId: '123e4567-e89b-12d3-a456-426614174001',
           candidateId: candidateUserId,
+          interviewerId: interviewerUserId,
           candidateName: 'Completed Session',
           startTime: new Date(Date.now() - 3600000), // 1 hour ago
           endTime: new Date(),
@@ -456,6 +479,7 @@ describe('Session Routes', () => {
         new InterviewSession({
           sessionId: '123e4567-e89b-12d3-a456-426614174002',
           candidateId: candidateUserId,
+          interviewerId: interviewerUserId,
           candidateName: 'Terminated Session',
           startTime: new Date(Date.now() - 7200000), // 2 hours ago
           endTime: new Date(Date.now() - 3600000), // 1 hour ago
@@ -501,6 +525,378 @@ describe('Session Routes', () => {
     });
   });
 
+  describe('Session assignments', () => {
+    const otherInterviewerId = '123e4567-e89b-42d3-a456-426614174004';
+    let otherInterviewerToken: string;
+
+    beforeAll(async () => {
+      await new User({
+        userId: otherInterviewerId,
+        email: 'other-interviewer@test.com',
+        name: 'Other Interviewer',
+        role: UserRole.INTERVIEWER,
+        password: 'hashedpassword',
+        isActive: true
+      }).save();
+
+      otherInterviewerToken = jwt.sign(
+        { userId: otherInterviewerId, email: 'other-interviewer@test.com', role: UserRole.INTERVIEWER },
+        process.env.JWT_SECRET || 'test-secret',
+        { expiresIn: '1h' }
+      );
+    });
+
+    beforeEach(async () => {
+      const session = new InterviewSession({
+        sessionId: '123e4567-e89b-12d3-a456-426614174000',
+        candidateId: candidateUserId,
+        interviewerId: interviewerUserId,
+        candidateName: 'Assigned Session',
+        startTime: new Date(),
+        status: SessionStatus.ACTIVE
+      });
+      await session.save();
+      testSessionId = session.sessionId;
+    });
+
+    it('should hide sessions from unassigned interviewers', async () => {
+      await request(app)
+        .get(`/api/sessions/${testSessionId}`)
+        .set('Authorization', `Bearer ${otherInterviewerToken}`)
+        .expect(403);
+
+      const response = await request(app)
+        .get('/api/sessions')
+        .set('Authorization', `Bearer ${otherInterviewerToken}`)
+        .expect(200);
+
+      expect(response.body.data.sessions).toHaveLength(0);
+    });
+
+    it('should let the primary interviewer assign an observer', async () => {
+      const response = await request(app)
+        .post(`/api/sessions/${testSessionId}/assignments`)
+        .set('Authorization', `Bearer ${interviewerToken}`)
+        .send({ userId: otherInterviewerId, role: AssignmentRole.OBSERVER })
+        .expect(201);
+
+      expect(response.body.data.role).toBe(AssignmentRole.OBSERVER);
+
+      await request(app)
+        .get(`/api/sessions/${testSessionId}`)
+        .set('Authorization', `Bearer ${otherInterviewerToken}`)
+        .expect(200);
+    });
+
+    it('should keep observers read-only', async () => {
+      await SessionAssignment.create({
+        assignmentId: '123e4567-e89b-42d3-a456-426614174020',
+        sessionId: testSessionId,
+        userId: otherInterviewerId,
+        role: AssignmentRole.OBSERVER
+      });
+
+      await request(app)
+        .post(`/api/sessions/${testSessionId}/end`)
+        .set('Authorization', `Bearer ${otherInterviewerToken}`)
+        .expect(403);
+
+      await request(app)
+        .post(`/api/sessions/${testSessionId}/assignments`)
+        .set('Authorization', `Bearer ${otherInterviewerToken}`)
+        .send({ userId: otherInterviewerId, role: AssignmentRole.PRIMARY })
+        .expect(403);
+    });
+
+    it('should revoke access when an assignment is removed', async () => {
+      await SessionAssignment.create({
+        assignmentId: '123e4567-e89b-42d3-a456-426614174021',
+        sessionId: testSessionId,
+        userId: otherInterviewerId,
+        role: AssignmentRole.SECONDARY
+      });
+
+      await request(app)
+        .delete(`/api/sessions/${testSessionId}/assignments/${otherInterviewerId}`)
+        .set('Authorization', `Bearer ${interviewerToken}`)
+        .expect(200);
+
+      await request(app)
+        .get(`/api/sessions/${testSessionId}`)
+        .set('Authorization', `Bearer ${otherInterviewerToken}`)
+        .expect(403);
+    });
+  });
+
+  describe('Scheduled sessions', () => {
+    const scheduleSession = async (startsInMinutes: number, joinWindowMinutes = 15) => {
+      const response = await request(app)
+        .post('/api/sessions/create')
+        .set('Authorization', `Bearer ${interviewerToken}`)
+        .send({
+          candidateName: 'Test Candidate',
+          candidateEmail: 'candidate@test.com',
+          interviewerUserId,
+          scheduledStartTime: new Date(Date.now() + startsInMinutes * 60 * 1000).toISOString(),
+          joinWindowMinutes
+        })
+        .expect(201);
+      return response.body.data;
+    };
+
+    beforeEach(async () => {
+      await SessionInvitation.deleteMany({});
+    });
+
+    it('should schedule a session with an invitation', async () => {
+      const data = await scheduleSession(5);
+
+      expect(data.status).toBe(SessionStatus.SCHEDULED);
+      expect(data.maxDurationMinutes).toBe(60);
+      expect(data.invitation.token).toBeDefined();
+      expect(data.invitation.invitationUrl).toContain('invite=');
+    });
+
+    it('should reject a start time whose join window already closed', async () => {
+      await request(app)
+        .post('/api/sessions/create')
+        .set('Authorization', `Bearer ${interviewerToken}`)
+        .send({
+          candidateName: 'Late Candidate',
+          interviewerUserId,
+          scheduledStartTime: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+          joinWindowMinutes: 10
+        })
+        .expect(400);
+    });
+
+    it('should require the invitation to join a scheduled session', async () => {
+      const data = await scheduleSession(5);
+
+      await request(app)
+        .post(`/api/sessions/${data.sessionId}/join`)
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .expect(403);
+    });
+
+    it('should activate the session once and only once', async () => {
+      const data = await scheduleSession(5);
+
+      const response = await request(app)
+        .post('/api/sessions/invitations/accept')
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .send({ token: data.invitation.token })
+        .expect(200);
+
+      expect(response.body.data.status).toBe(SessionStatus.ACTIVE);
+      expect(response.body.data.candidateId).toBe(candidateUserId);
+
+      await request(app)
+        .post('/api/sessions/invitations/accept')
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .send({ token: data.invitation.token })
+        .expect(409);
+    });
+
+    it('should reject invitations before the join window opens', async () => {
+      const data = await scheduleSession(120, 10);
+
+      const response = await request(app)
+        .post('/api/sessions/invitations/accept')
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .send({ token: data.invitation.token })
+        .expect(403);
+
+      expect(response.body.error).toContain('join window opens');
+    });
+
+    it('should revoke the previous invitation when a new one is issued', async () => {
+      const data = await scheduleSession(5);
+
+      await request(app)
+        .post(`/api/sessions/${data.sessionId}/invitation`)
+        .set('Authorization', `Bearer ${interviewerToken}`)
+        .expect(201);
+
+      await request(app)
+        .post('/api/sessions/invitations/accept')
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .send({ token: data.invitation.token })
+        .expect(410);
+    });
+
+    it('should reject tampered invitation tokens', async () => {
+      await request(app)
+        .post('/api/sessions/invitations/accept')
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .send({ token: 'not-a-real-token' })
+        .expect(401);
+    });
+  });
+
+  describe('POST /api/sessions/:sessionId/system-check', () => {
+    const passed = SystemCheckStatus.PASSED;
+    const systemCheck = {
+      camera: { permission: 'granted', deviceLabel: 'FaceTime HD Camera', status: passed },
+      microphone: { permission: 'granted', status: passed },
+      frameProcessing: { averageMs: 32, maxAllowedMs: 50, sampleCount: 10, status: passed },
+      connection: { connected: true, latencyMs: 45, status: passed },
+      audio: { baselineNoiseLevel: 0.12, status: SystemCheckStatus.WARNING }
+    };
+
+    beforeEach(async () => {
+      const session = new InterviewSession({
+        sessionId: '123e4567-e89b-42d3-a456-426614174010',
+        candidateId: candidateUserId,
+        interviewerId: interviewerUserId,
+        candidateName: 'Test Candidate',
+        startTime: new Date(),
+        status: SessionStatus.ACTIVE
+      });
+      await session.save();
+      testSessionId = session.sessionId;
+    });
+
+    it('should store the check with an overall status derived from the individual checks', async () => {
+      const response = await request(app)
+        .post(`/api/sessions/${testSessionId}/system-check`)
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .send({ ...systemCheck, overallStatus: passed })
+        .expect(200);
+
+      expect(response.body.data.overallStatus).toBe(SystemCheckStatus.WARNING);
+
+      const session = await InterviewSession.findOne({ sessionId: testSessionId });
+      expect(session?.systemCheck?.frameProcessing.averageMs).toBe(32);
+      expect(session?.systemCheck?.completedAt).toBeInstanceOf(Date);
+    });
+
+    it('should let interviewers see the stored check', async () => {
+      await request(app)
+        .post(`/api/sessions/${testSessionId}/system-check`)
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .send(systemCheck)
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/sessions/${testSessionId}`)
+        .set('Authorization', `Bearer ${interviewerToken}`)
+        .expect(200);
+
+      expect(response.body.data.systemCheck.connection.latencyMs).toBe(45);
+    });
+
+    it('should only accept checks from the session candidate', async () => {
+      await request(app)
+        .post(`/api/sessions/${testSessionId}/system-check`)
+        .set('Authorization', `Bearer ${interviewerToken}`)
+        .send(systemCheck)
+        .expect(403);
+    });
+
+    it('should reject malformed checks', async () => {
+      await request(app)
+        .post(`/api/sessions/${testSessionId}/system-check`)
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .send({ ...systemCheck, camera: { permission: 'maybe', status: passed } })
+        .expect(400);
+    });
+  });
+
+  describe('Identity verification', () => {
+    const referenceDescriptor = [1, 0.42, 0.38, 0.61, 0.58, 0.97, 0.35, 0.44, 0.72, 0.5];
+
+    beforeEach(async () => {
+      await IdentityReference.deleteMany({});
+      await DetectionEvent.deleteMany({});
+      const session = new InterviewSession({
+        sessionId: '123e4567-e89b-42d3-a456-426614174011',
+        candidateId: candidateUserId,
+        interviewerId: interviewerUserId,
+        candidateName: 'Test Candidate',
+        startTime: new Date(),
+        status: SessionStatus.ACTIVE
+      });
+      await session.save();
+      testSessionId = session.sessionId;
+    });
+
+    const uploadReference = () => request(app)
+      .put(`/api/sessions/${testSessionId}/identity/reference`)
+      .set('Authorization', `Bearer ${interviewerToken}`)
+      .send({ descriptor: referenceDescriptor, photo: 'data:image/jpeg;base64,AAAA' })
+      .expect(200);
+
+    it('should keep the reference descriptor out of the session payload', async () => {
+      await uploadReference();
+
+      const response = await request(app)
+        .get(`/api/sessions/${testSessionId}`)
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .expect(200);
+
+      expect(response.body.data.identityVerification.status).toBe(IdentityVerificationStatus.PENDING);
+      expect(JSON.stringify(response.body.data)).not.toContain('descriptor');
+
+      await request(app)
+        .get(`/api/sessions/${testSessionId}/identity/reference`)
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .expect(403);
+    });
+
+    it('should verify a snapshot that matches the reference', async () => {
+      await uploadReference();
+
+      const response = await request(app)
+        .post(`/api/sessions/${testSessionId}/identity/verify`)
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .send({ descriptor: referenceDescriptor.map(value => value * 1.01), phase: 'initial' })
+        .expect(200);
+
+      expect(response.body.data.matched).toBe(true);
+      expect(response.body.data.summary.status).toBe(IdentityVerificationStatus.VERIFIED);
+    });
+
+    it('should record a mismatch for a different face', async () => {
+      await uploadReference();
+
+      const response = await request(app)
+        .post(`/api/sessions/${testSessionId}/identity/verify`)
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .send({ descriptor: referenceDescriptor.map((value, index) => value * (index % 2 ? 1.6 : 0.6)), phase: 'periodic' })
+        .expect(200);
+
+      expect(response.body.data.matched).toBe(false);
+
+      const session = await InterviewSession.findOne({ sessionId: testSessionId });
+      expect(session?.identityVerification?.status).toBe(IdentityVerificationStatus.MISMATCH);
+      expect(session?.identityVerification?.mismatchCount).toBe(1);
+
+      // The mismatch lands in the session timeline without the candidate reporting it
+      expect(response.body.data.event).toBeUndefined();
+      const events = await DetectionEvent.find({ sessionId: testSessionId, eventType: EventType.IDENTITY_MISMATCH });
+      expect(events).toHaveLength(1);
+      expect(events[0]!.candidateId).toBe(candidateUserId);
+      expect(events[0]!.metadata).toMatchObject({ identityMetrics: { phase: 'periodic' } });
+    });
+
+    it('should reject checks before a reference photo exists', async () => {
+      await request(app)
+        .post(`/api/sessions/${testSessionId}/identity/verify`)
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .send({ descriptor: referenceDescriptor, phase: 'initial' })
+        .expect(409);
+    });
+
+    it('should only let assigned interviewers upload a reference', async () => {
+      await request(app)
+        .put(`/api/sessions/${testSessionId}/identity/reference`)
+        .set('Authorization', `Bearer ${candidateToken}`)
+        .send({ descriptor: referenceDescriptor })
+        .expect(403);
+    });
+  });
+
   describe('GET /api/sessions/stats/websocket', () => {
     it('should return WebSocket statistics', async () => {
       const response = await request(app)
@@ -0,0 +1,145 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SessionSweeper, SessionPresenceSource } from '../services/sessionSweeper';
+import { InterviewSession } from '../models/InterviewSession';
+import { ReportService } from '../services/reportService';
+import { InvitationService } from '../services/invitationService';
+import { SessionEndReason, SessionStatus } from '../types';
+import { WebSocketEventType } from '../types/websocket';
+
+jest.mock('../models/InterviewSession', () => ({
+  InterviewSession: {
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn()
+  }
+}));
+jest.mock('../services/reportService', () => ({ ReportService: { generateReport: jest.fn() } }));
+jest.mock('../services/invitationService', () => ({ InvitationService: { expireIfScheduled: jest.fn() } }));
+
+const mockFind = InterviewSession.find as jest.Mock;
+const mockFindOneAndUpdate = InterviewSession.findOneAndUpdate as jest.Mock;
+const mockGenerateReport = ReportService.generateReport as jest.Mock;
+const mockExpireIfScheduled = InvitationService.expireIfScheduled as jest.Mock;
+
+const MINUTE = 60 * 1000;
+
+// find() is chained with sort()/limit(); resolve the scheduled query first, then the active one
+const mockQueries = (scheduled: any[], active: any[]) => {
+  const query = (result: any[]) => {
+    const chain: any = Promise.resolve(result);
+    chain.sort = () => chain;
+    chain.limit = () => chain;
+    return chain;
+  };
+  mockFind.mockImplementation((filter: any) =>
+    query(filter.status === SessionStatus.SCHEDULED ? scheduled : active)
+  );
+};
+
+const activeSession = (startedMinutesAgo: number, now: Date, extra: Record<string, any> = {}) => ({
+  sessionId: uuidv4(),
+  status: SessionStatus.ACTIVE,
+  startTime: new Date(now.getTime() - startedMinutesAgo * MINUTE),
+  ...extra
+});
+
+describe('SessionSweeper', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+  let presence: jest.Mocked<SessionPresenceSource>;
+
+  const createSweeper = () => new SessionSweeper(presence, {
+    idleTimeoutMs: 15 * MINUTE,
+    defaultMaxDurationMs: 180 * MINUTE
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    presence = {
+      getSessionPresence: jest.fn().mockResolvedValue({ connected: true, candidates: 1, interviewers: 1, lastSeenAt: now }),
+      clearPresence: jest.fn().mockResolvedValue(undefined),
+      broadcastToSession: jest.fn()
+    };
+    mockFindOneAndUpdate.mockImplementation(async (filter: any) => ({ sessionId: filter.sessionId }));
+    mockGenerateReport.mockResolvedValue(uuidv4());
+  });
+
+  it('should leave connected sessions within their duration alone', async () => {
+    mockQueries([], [activeSession(30, now)]);
+
+    const result = await createSweeper().sweep(now);
+
+    expect(result).toEqual({ expired: 0, ended: 0 });
+    expect(mockFindOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should end sessions past their max duration even while connected', async () => {
+    const session = activeSession(61, now, { maxDurationMinutes: 60 });
+    mockQueries([], [session]);
+
+    const result = await createSweeper().sweep(now);
+
+    expect(result.ended).toBe(1);
+    expect(mockFindOneAndUpdate).toHaveBeenCalledWith(
+      { sessionId: session.sessionId, status: SessionStatus.ACTIVE },
+      { $set: expect.objectContaining({ status: SessionStatus.COMPLETED, endReason: SessionEndReason.MAX_DURATION }) },
+      { new: true }
+    );
+    expect(presence.broadcastToSession).toHaveBeenCalledWith(
+      session.sessionId,
+      WebSocketEventType.SESSION_STATUS_UPDATE,
+      expect.objectContaining({ status: SessionStatus.COMPLETED, reason: SessionEndReason.MAX_DURATION })
+    );
+    expect(mockGenerateReport).toHaveBeenCalledWith(session.sessionId);
+  });
+
+  it('should end sessions nobody has been connected to for the idle timeout', async () => {
+    const abandoned = activeSession(60, now);
+    const recentlyLeft = activeSession(60, now);
+    mockQueries([], [abandoned, recentlyLeft]);
+    presence.getSessionPresence.mockImplementation(async (sessionId: string) => ({
+      connected: false,
+      candidates: 0,
+      interviewers: 0,
+      lastSeenAt: new Date(now.getTime() - (sessionId === abandoned.sessionId ? 20 : 5) * MINUTE)
+    }));
+
+    const result = await createSweeper().sweep(now);
+
+    expect(result.ended).toBe(1);
+    expect(mockFindOneAndUpdate).toHaveBeenCalledTimes(1);
+    expect(mockFindOneAndUpdate.mock.calls[0][1].$set.endReason).toBe(SessionEndReason.IDLE_TIMEOUT);
+    expect(presence.clearPresence).toHaveBeenCalledWith(abandoned.sessionId);
+  });
+
+  it('should not generate a report when the session was ended meanwhile', async () => {
+    mockQueries([], [activeSession(200, now)]);
+    mockFindOneAndUpdate.mockResolvedValue(null);
+
+    const result = await createSweeper().sweep(now);
+
+    expect(result.ended).toBe(0);
+    expect(mockGenerateReport).not.toHaveBeenCalled();
+  });
+
+  it('should expire scheduled sessions whose join window closed', async () => {
+    const closed = {
+      sessionId: uuidv4(),
+      getJoinWindow: () => ({ opensAt: new Date(now.getTime() - 40 * MINUTE), closesAt: new Date(now.getTime() - 10 * MINUTE) })
+    };
+    const stillOpen = {
+      sessionId: uuidv4(),
+      getJoinWindow: () => ({ opensAt: new Date(now.getTime() - 10 * MINUTE), closesAt: new Date(now.getTime() + 10 * MINUTE) })
+    };
+    mockQueries([closed, stillOpen], []);
+    mockExpireIfScheduled.mockResolvedValue(true);
+
+    const result = await createSweeper().sweep(now);
+
+    expect(result.expired).toBe(1);
+    expect(mockExpireIfScheduled).toHaveBeenCalledWith(closed.sessionId);
+    expect(presence.broadcastToSession).toHaveBeenCalledWith(
+      closed.sessionId,
+      WebSocketEventType.SESSION_STATUS_UPDATE,
+      expect.objectContaining({ status: SessionStatus.EXPIRED })
+    );
+  });
+});
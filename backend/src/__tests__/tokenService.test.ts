@@ -0,0 +1,208 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TokenService, Revocation } from '../services/tokenService';
+import { OrganizationService } from '../services/organizationService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { ACCESS_TOKEN_TTL_SECONDS, verifyToken } from '../middleware/auth';
+import { User } from '../models/User';
+import { UserRole } from '../types';
+
+// In-memory stand-ins for the token collections
+const mockRefreshTokens: any[] = [];
+const mockRevocations = new Map<string, any>();
+
+const mockMatches = (doc: any, filter: Record<string, any>) => Object.entries(filter).every(([key, value]) => {
+  if (value && typeof value === 'object' && '$exists' in value) {
+    return (doc[key] !== undefined) === value.$exists;
+  }
+  return String(doc[key]) === String(value);
+});
+
+jest.mock('../models/RefreshToken', () => ({
+  RefreshToken: {
+    create: jest.fn(async (fields: any) => {
+      const doc = { _id: `token-${mockRefreshTokens.length + 1}`, createdAt: new Date(), ...fields };
+      mockRefreshTokens.push(doc);
+      return doc;
+    }),
+    findByTokenHash: jest.fn(async (tokenHash: string) =>
+      mockRefreshTokens.find(doc => doc.tokenHash === tokenHash) ?? null),
+    findOneAndUpdate: jest.fn(async (filter: any, update: any) => {
+      const doc = mockRefreshTokens.find(candidate => mockMatches(candidate, filter));
+      return doc ? Object.assign(doc, update.$set) : null;
+    }),
+    updateOne: jest.fn(async (filter: any, update: any) => {
+      const doc = mockRefreshTokens.find(candidate => mockMatches(candidate, filter));
+      if (doc) Object.assign(doc, update.$set);
+    }),
+    updateMany: jest.fn(async (filter: any, update: any) => {
+      mockRefreshTokens.filter(doc => mockMatches(doc, filter)).forEach(doc => Object.assign(doc, update.$set));
+    }),
+    exists: jest.fn(async (filter: any) => mockRefreshTokens.some(doc => mockMatches(doc, filter)) || null),
+    findActiveByUser: jest.fn(async (userId: string) =>
+      mockRefreshTokens.filter(doc => doc.userId === userId && !doc.rotatedAt && !doc.revokedAt))
+  }
+}));
+
+jest.mock('../models/RevokedToken', () => ({
+  RevokedToken: {
+    updateOne: jest.fn(async (filter: any, update: any) => {
+      mockRevocations.set(filter.key, { ...mockRevocations.get(filter.key), ...update.$set });
+    }),
+    findByKeys: jest.fn(async (keys: string[]) =>
+      keys.filter(key => mockRevocations.has(key)).map(key => mockRevocations.get(key)))
+  }
+}));
+
+jest.mock('../models/User', () => ({
+  User: { findOne: jest.fn() }
+}));
+
+const mockUserModel = User as jest.Mocked<any>;
+
+describe('TokenService', () => {
+  const user: any = {
+    userId: uuidv4(),
+    email: 'interviewer@example.com',
+    role: UserRole.INTERVIEWER,
+    organizationId: uuidv4()
+  };
+  const context = { ip: '203.0.113.7', userAgent: 'jest' };
+
+  beforeEach(() => {
+    mockRefreshTokens.length = 0;
+    mockRevocations.clear();
+    jest.clearAllMocks();
+    mockUserModel.findOne.mockResolvedValue(user);
+    jest.spyOn(OrganizationService, 'isOrganizationActive').mockResolvedValue(true);
+    jest.spyOn(TwoFactorService, 'isRequired').mockResolvedValue(false);
+  });
+
+  // Access tokens are stamped in whole seconds; move past the second a revocation was made in
+  const afterRevocation = () => jest.useFakeTimers({ now: Date.now() + 1000, doNotFake: ['setImmediate', 'nextTick'] });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('issues a short-lived access token tied to a new refresh token family', async () => {
+    const tokens = await TokenService.issueSession(user, context);
+    const payload = verifyToken(tokens.accessToken);
+
+    expect(tokens.expiresIn).toBe(ACCESS_TOKEN_TTL_SECONDS);
+    expect(payload.exp - payload.iat).toBe(ACCESS_TOKEN_TTL_SECONDS);
+    expect(payload.jti).toBeDefined();
+    expect(payload.sid).toBe(mockRefreshTokens[0].familyId);
+    // Only the hash of the refresh token is stored
+    expect(mockRefreshTokens[0].tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(mockRefreshTokens)).not.toContain(tokens.refreshToken);
+    expect(mockRefreshTokens[0]).toMatchObject({ userId: user.userId, organizationId: user.organizationId, createdByIp: '203.0.113.7' });
+  });
+
+  it('rotates the refresh token within the same family', async () => {
+    const first = await TokenService.issueSession(user, context);
+
+    const second = await TokenService.rotate(first.refreshToken, context);
+
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect(verifyToken(second.accessToken).sid).toBe(verifyToken(first.accessToken).sid);
+    expect(mockRefreshTokens[0].rotatedAt).toBeInstanceOf(Date);
+    expect(mockRefreshTokens[0].replacedBy).toBe(mockRefreshTokens[1]._id);
+  });
+
+  it('revokes the whole family when a rotated refresh token is used again', async () => {
+    const first = await TokenService.issueSession(user, context);
+    const second = await TokenService.rotate(first.refreshToken, context);
+    const listener = jest.fn();
+    const unsubscribe = TokenService.onRevoked(listener);
+
+    await expect(TokenService.rotate(first.refreshToken, context)).rejects.toMatchObject({ statusCode: 401 });
+
+    await expect(TokenService.rotate(second.refreshToken, context)).rejects.toThrow('Refresh token has been revoked');
+    expect(await TokenService.isRevoked(verifyToken(second.accessToken))).toBe(true);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+      kind: 'family',
+      userId: user.userId,
+      familyId: mockRefreshTokens[0].familyId
+    }));
+    unsubscribe();
+  });
+
+  it('rejects unknown, expired and deactivated-user refresh tokens', async () => {
+    await expect(TokenService.rotate('not-a-token')).rejects.toThrow('Invalid or expired refresh token');
+
+    const expired = await TokenService.issueSession(user, context);
+    mockRefreshTokens[0].expiresAt = new Date(Date.now() - 1000);
+    await expect(TokenService.rotate(expired.refreshToken)).rejects.toThrow('Invalid or expired refresh token');
+
+    const active = await TokenService.issueSession(user, context);
+    mockUserModel.findOne.mockResolvedValue(null);
+    await expect(TokenService.rotate(active.refreshToken)).rejects.toThrow('User not found or inactive.');
+    expect(mockRefreshTokens[1].revokedAt).toBeInstanceOf(Date);
+  });
+
+  it('stops refreshing sign-ins the organization now requires a second factor for', async () => {
+    const tokens = await TokenService.issueSession(user, context);
+    (TwoFactorService.isRequired as jest.Mock).mockResolvedValue(true);
+
+    await expect(TokenService.rotate(tokens.refreshToken, context))
+      .rejects.toThrow('Two-factor authentication is now required; please sign in again');
+    expect(mockRefreshTokens).toHaveLength(1);
+    expect(mockRefreshTokens[0].revokedAt).toBeInstanceOf(Date);
+
+    // Users who enrolled keep their sign-ins
+    const enrolled = await TokenService.issueSession({ ...user, twoFactorEnabled: true }, context);
+    mockUserModel.findOne.mockResolvedValue({ ...user, twoFactorEnabled: true });
+    await expect(TokenService.rotate(enrolled.refreshToken, context)).resolves.toMatchObject({ refreshToken: expect.any(String) });
+  });
+
+  it('logs out the sign-in without touching the user\'s other devices', async () => {
+    const laptop = await TokenService.issueSession(user, context);
+    const phone = await TokenService.issueSession(user, context);
+
+    await TokenService.logout(verifyToken(laptop.accessToken));
+
+    expect(await TokenService.isRevoked(verifyToken(laptop.accessToken))).toBe(true);
+    expect(await TokenService.isRevoked(verifyToken(phone.accessToken))).toBe(false);
+    await expect(TokenService.rotate(laptop.refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(TokenService.rotate(phone.refreshToken)).resolves.toBeDefined();
+  });
+
+  it('revokes every token issued to a user before the revocation, but not later sign-ins', async () => {
+    const before = await TokenService.issueSession(user, context);
+
+    await TokenService.revokeUser(user.userId, 'compromised laptop', uuidv4());
+    afterRevocation();
+    const after = await TokenService.issueSession(user, context);
+
+    expect(await TokenService.isRevoked(verifyToken(before.accessToken))).toBe(true);
+    expect(await TokenService.isRevoked(verifyToken(after.accessToken))).toBe(false);
+    await expect(TokenService.rotate(before.refreshToken)).rejects.toThrow('Refresh token has been revoked');
+  });
+
+  it('lists active sign-ins and revokes one of them', async () => {
+    const laptop = await TokenService.issueSession(user, context);
+    await TokenService.issueSession(user, { ip: '198.51.100.4', userAgent: 'phone' });
+    const laptopFamily = verifyToken(laptop.accessToken).sid!;
+
+    const logins = await TokenService.listSessions(user.userId, laptopFamily);
+    expect(logins).toHaveLength(2);
+    expect(logins.find(login => login.current)).toMatchObject({ familyId: laptopFamily, ip: '203.0.113.7' });
+
+    await TokenService.revokeSession(user.userId, laptopFamily, 'revoked by administrator');
+    expect(await TokenService.listSessions(user.userId)).toHaveLength(1);
+    await expect(TokenService.revokeSession(user.userId, uuidv4(), 'revoked by administrator'))
+      .rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('notifies listeners so open connections can be dropped', async () => {
+    const revocations: Revocation[] = [];
+    const unsubscribe = TokenService.onRevoked(revocation => revocations.push(revocation));
+
+    await TokenService.revokeUser(user.userId, 'signed out everywhere');
+    unsubscribe();
+    await TokenService.revokeUser(user.userId, 'signed out everywhere');
+
+    expect(revocations).toHaveLength(1);
+    expect(revocations[0]).toMatchObject({ kind: 'user', userId: user.userId });
+  });
+});
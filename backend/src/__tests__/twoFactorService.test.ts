@@ -0,0 +1,312 @@
+import express from 'express';
+import request from 'supertest';
+import { v4 as uuidv4 } from 'uuid';
+import authRoutes from '../routes/authRoutes';
+import { TwoFactorService } from '../services/twoFactorService';
+import { OrganizationService } from '../services/organizationService';
+import { base32Encode, generateTotp, totpStep, verifyTotp } from '../utils/totp';
+import { securityLogger } from '../utils/logger';
+import { UserRole } from '../types';
+
+// In-memory stand-ins for the users and organizations collections
+const mockUsers = new Map<string, any>();
+const mockOrganization = { isActive: true, twoFactorRequiredRoles: [] as UserRole[] };
+
+const mockGet = (doc: any, path: string) => path.split('.').reduce((value, key) => value?.[key], doc);
+const mockSet = (doc: any, path: string, value: unknown) => {
+  const keys = path.split('.');
+  const parent = keys.slice(0, -1).reduce((target, key) => (target[key] ??= {}), doc);
+  if (value === undefined) delete parent[keys[keys.length - 1]!];
+  else parent[keys[keys.length - 1]!] = value;
+};
+
+const mockMatches = (doc: any, filter: Record<string, any>): boolean => Object.entries(filter).every(([path, condition]) => {
+  if (path === '$or') return condition.some((branch: any) => mockMatches(doc, branch));
+  const value = mockGet(doc, path);
+  if (condition && typeof condition === 'object') {
+    if ('$exists' in condition) return (value !== undefined) === condition.$exists;
+    if ('$lt' in condition) return value !== undefined && value < condition.$lt;
+  }
+  return Array.isArray(value) ? value.includes(condition) : value === condition;
+});
+
+jest.mock('../models', () => ({
+  // Constructed by registration; saving adds the user to the collection
+  User: Object.assign(jest.fn(function (this: any, fields: any) {
+    Object.assign(this, fields, {
+      isActive: true,
+      twoFactorEnabled: false,
+      save: jest.fn(async () => mockUsers.set(fields.userId, this)),
+      updateLastLogin: jest.fn(async () => undefined),
+      toJSON: () => ({ userId: fields.userId, email: fields.email, role: fields.role })
+    });
+  }), {
+    // Awaited directly or through select()
+    findOne: jest.fn((filter: any) => {
+      const found = async () => [...mockUsers.values()].find(user => mockMatches(user, filter)) ?? null;
+      return { select: found, then: (resolve: any, reject: any) => found().then(resolve, reject) };
+    }),
+    updateOne: jest.fn(async (filter: any, update: any) => {
+      const user = [...mockUsers.values()].find(candidate => mockMatches(candidate, filter));
+      if (!user) return { modifiedCount: 0 };
+      Object.entries(update.$set ?? {}).forEach(([path, value]) => mockSet(user, path, value));
+      Object.keys(update.$unset ?? {}).forEach(path => mockSet(user, path, undefined));
+      Object.entries(update.$inc ?? {}).forEach(([path, by]) => mockSet(user, path, (mockGet(user, path) ?? 0) + (by as number)));
+      Object.entries(update.$pull ?? {}).forEach(([path, value]) => mockSet(user, path, mockGet(user, path).filter((item: unknown) => item !== value)));
+      return { modifiedCount: 1 };
+    })
+  }),
+  Organization: {
+    findOne: jest.fn(async () => mockOrganization),
+    findOneAndUpdate: jest.fn(async (_filter: any, update: any) => Object.assign(mockOrganization, update.$set))
+  }
+}));
+
+jest.mock('../models/RefreshToken', () => ({
+  RefreshToken: { create: jest.fn(async (fields: any) => ({ _id: 'refresh-token-id', ...fields })) }
+}));
+
+describe('TOTP', () => {
+  // RFC 6238 appendix B (SHA-1), truncated to the 6 digits authenticator apps show
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('matches the RFC 6238 test vectors', () => {
+    expect(generateTotp(secret, totpStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(secret, totpStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(secret, totpStep(2000000000 * 1000))).toBe('279037');
+  });
+
+  it('accepts one step of clock drift and refuses steps already used', () => {
+    const time = 1111111109 * 1000;
+    const previous = generateTotp(secret, totpStep(time) - 1);
+
+    expect(verifyTotp(secret, previous, { time })).toBe(totpStep(time) - 1);
+    expect(verifyTotp(secret, generateTotp(secret, totpStep(time) - 2), { time })).toBeNull();
+    expect(verifyTotp(secret, previous, { time, lastUsedStep: totpStep(time) - 1 })).toBeNull();
+    expect(verifyTotp(secret, '12345', { time })).toBeNull();
+  });
+});
+
+describe('TwoFactorService', () => {
+  const organizationId = uuidv4();
+  let user: any;
+
+  const enroll = async () => {
+    const { secret } = await TwoFactorService.beginEnrollment(user);
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(user, generateTotp(secret));
+    return { secret, recoveryCodes };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUsers.clear();
+    mockOrganization.isActive = true;
+    mockOrganization.twoFactorRequiredRoles = [];
+    user = { userId: uuidv4(), email: 'interviewer@example.com', role: UserRole.INTERVIEWER, organizationId, isActive: true, twoFactorEnabled: false };
+    mockUsers.set(user.userId, user);
+  });
+
+  it('enrolls with a confirmed code, storing the secret encrypted and only hashes of the recovery codes', async () => {
+    const changes = jest.spyOn(securityLogger, 'twoFactorChange');
+
+    const enrollment = await TwoFactorService.beginEnrollment(user);
+    expect(enrollment.otpauthUrl).toMatch(/^otpauth:\/\/totp\/.+interviewer%40example\.com\?secret=/);
+    expect(enrollment.qrCode).toMatch(/^data:image\/png;base64,/);
+    expect(user.twoFactor.pendingSecret).not.toContain(enrollment.secret);
+
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(user, generateTotp(enrollment.secret));
+
+    expect(user.twoFactorEnabled).toBe(true);
+    expect(user.twoFactor.pendingSecret).toBeUndefined();
+    expect(recoveryCodes).toHaveLength(10);
+    expect(recoveryCodes[0]).toMatch(/^[0-9A-Z]{5}-[0-9A-Z]{5}$/);
+    expect(JSON.stringify(user)).not.toContain(recoveryCodes[0]);
+    expect(changes).toHaveBeenCalledWith(user.userId, user.email, 'enrolled');
+    await expect(TwoFactorService.status(user)).resolves.toMatchObject({ enabled: true, recoveryCodesRemaining: 10, required: false });
+  });
+
+  it('does not enable two-factor authentication on a wrong confirmation code', async () => {
+    await TwoFactorService.beginEnrollment(user);
+
+    await expect(TwoFactorService.confirmEnrollment(user, '000000')).rejects.toThrow('Invalid two-factor code');
+    expect(user.twoFactorEnabled).toBe(false);
+  });
+
+  it('accepts an authenticator code once', async () => {
+    const { secret } = await enroll();
+    const code = generateTotp(secret, totpStep() + 1);
+
+    await expect(TwoFactorService.verify(user, code)).resolves.toBeUndefined();
+    await expect(TwoFactorService.verify(user, code)).rejects.toThrow('Invalid two-factor code');
+  });
+
+  it('uses up recovery codes', async () => {
+    const { recoveryCodes } = await enroll();
+
+    await TwoFactorService.verify(user, recoveryCodes[0]!.toLowerCase());
+
+    await expect(TwoFactorService.verify(user, recoveryCodes[0]!)).rejects.toThrow('Invalid two-factor code');
+    await expect(TwoFactorService.status(user)).resolves.toMatchObject({ recoveryCodesRemaining: 9 });
+  });
+
+  it('logs failed second factors and locks after repeated failures', async () => {
+    const { secret } = await enroll();
+    const failures = jest.spyOn(securityLogger, 'twoFactorFailed');
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await expect(TwoFactorService.verify(user, 'WRONG-CODE', '203.0.113.9')).rejects.toMatchObject({ statusCode: 401 });
+    }
+
+    expect(failures).toHaveBeenCalledTimes(5);
+    expect(failures).toHaveBeenLastCalledWith('203.0.113.9', user.userId, 'invalid recovery code', 5);
+    await expect(TwoFactorService.verify(user, generateTotp(secret, totpStep() + 1))).rejects.toMatchObject({ statusCode: 429 });
+  });
+
+  it('applies the organization policy to staff roles only and keeps required second factors on', async () => {
+    const { secret } = await enroll();
+    await TwoFactorService.updatePolicy(organizationId, [UserRole.INTERVIEWER]);
+
+    expect(await TwoFactorService.isRequired(user)).toBe(true);
+    expect(await TwoFactorService.isRequired({ ...user, role: UserRole.CANDIDATE })).toBe(false);
+    await expect(TwoFactorService.disable(user, generateTotp(secret))).rejects.toMatchObject({ statusCode: 403 });
+
+    await TwoFactorService.updatePolicy(organizationId, []);
+    await TwoFactorService.disable(user, generateTotp(secret, totpStep() + 1));
+    expect(user.twoFactorEnabled).toBe(false);
+    expect(user.twoFactor).toBeUndefined();
+  });
+
+  it('keeps login challenges to their purpose', async () => {
+    const challenge = TwoFactorService.issueChallenge(user, 'enroll');
+
+    await expect(TwoFactorService.readChallenge(challenge, 'enroll')).resolves.toBe(user);
+    await expect(TwoFactorService.readChallenge(challenge, 'verify')).rejects.toThrow('Invalid sign-in challenge');
+    await expect(TwoFactorService.readChallenge(`${challenge}x`, 'enroll')).rejects.toThrow('expired');
+  });
+
+  it('is not offered to candidates', async () => {
+    user.role = UserRole.CANDIDATE;
+
+    await expect(TwoFactorService.beginEnrollment(user)).rejects.toMatchObject({ statusCode: 403 });
+  });
+});
+
+describe('Two-factor login routes', () => {
+  const organizationId = uuidv4();
+  const app = express();
+  app.set('trust proxy', true);
+  app.use(express.json());
+  app.use('/api/auth', authRoutes);
+
+  let user: any;
+  let clientIp = 0;
+
+  // Each test logs in from its own address so the login rate limit does not carry over
+  const post = (path: string, body: object) =>
+    request(app).post(`/api/auth${path}`).set('X-Forwarded-For', `198.51.100.${clientIp}`).send(body);
+  const login = (password: string = 'password123') => post('/login', { email: user.email, password });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUsers.clear();
+    mockOrganization.isActive = true;
+    mockOrganization.twoFactorRequiredRoles = [];
+    clientIp++;
+    jest.spyOn(OrganizationService, 'isOrganizationActive').mockImplementation(async () => mockOrganization.isActive);
+    jest.spyOn(OrganizationService, 'resolveRegistrationOrganization').mockResolvedValue({ organizationId } as any);
+    user = {
+      userId: uuidv4(),
+      email: 'interviewer@example.com',
+      name: 'Ivy Interviewer',
+      role: UserRole.INTERVIEWER,
+      organizationId,
+      isActive: true,
+      twoFactorEnabled: false,
+      comparePassword: async (candidate: string) => candidate === 'password123',
+      updateLastLogin: jest.fn(async () => undefined),
+      toJSON() {
+        return { userId: this.userId, email: this.email, role: this.role };
+      }
+    };
+    mockUsers.set(user.userId, user);
+  });
+
+  it('signs in directly without a second factor', async () => {
+    const response = await login();
+
+    expect(response.status).toBe(200);
+    expect(response.body.message).toBe('Login successful');
+    expect(response.body.data.token).toBeDefined();
+    expect(response.body.data.challengeToken).toBeUndefined();
+  });
+
+  it('asks for a code after the password and signs in with it', async () => {
+    const { secret } = await TwoFactorService.beginEnrollment(user);
+    await TwoFactorService.confirmEnrollment(user, generateTotp(secret));
+
+    const challenge = await login();
+    expect(challenge.status).toBe(200);
+    expect(challenge.body.data).toEqual({ twoFactorStep: 'verify', challengeToken: expect.any(String) });
+
+    const rejected = await post('/login/two-factor', { challengeToken: challenge.body.data.challengeToken, code: '000000' });
+    expect(rejected.status).toBe(401);
+
+    const signedIn = await post('/login/two-factor', {
+      challengeToken: challenge.body.data.challengeToken,
+      code: generateTotp(secret, totpStep() + 1)
+    });
+    expect(signedIn.status).toBe(200);
+    expect(signedIn.body.data.token).toBeDefined();
+    expect(signedIn.body.data.user.userId).toBe(user.userId);
+    expect(user.updateLastLogin).toHaveBeenCalled();
+  });
+
+  it('sends users whose organization requires two-factor authentication to enrollment', async () => {
+    mockOrganization.twoFactorRequiredRoles = [UserRole.INTERVIEWER];
+
+    const response = await login();
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.twoFactorStep).toBe('enroll');
+    expect(response.body.data.token).toBeUndefined();
+    // An enrollment challenge cannot be used to skip the code
+    const skipped = await post('/login/two-factor', { challengeToken: response.body.data.challengeToken, code: '000000' });
+    expect(skipped.status).toBe(401);
+  });
+
+  it('sends new accounts whose role requires two-factor authentication to enrollment instead of signing them in', async () => {
+    const register = (email: string, role: UserRole) => post('/register', { email, password: 'password123', name: 'New User', role });
+    mockOrganization.twoFactorRequiredRoles = [UserRole.INTERVIEWER];
+
+    const interviewer = await register('new-interviewer@example.com', UserRole.INTERVIEWER);
+    expect(interviewer.status).toBe(201);
+    expect(interviewer.body.data).toEqual({ twoFactorStep: 'enroll', challengeToken: expect.any(String) });
+
+    // The challenge starts enrollment for the new account
+    const setup = await post('/two-factor/setup', { challengeToken: interviewer.body.data.challengeToken });
+    expect(setup.status).toBe(200);
+    expect(setup.body.data.secret).toBeDefined();
+
+    const candidate = await register('new-candidate@example.com', UserRole.CANDIDATE);
+    expect(candidate.status).toBe(201);
+    expect(candidate.body.data.token).toBeDefined();
+  });
+
+  it('checks the password, single sign-on and the organization before issuing a challenge', async () => {
+    user.twoFactorEnabled = true;
+
+    const wrongPassword = await login('wrong-password');
+    expect(wrongPassword.status).toBe(401);
+    expect(wrongPassword.body.data).toBeUndefined();
+
+    mockOrganization.isActive = false;
+    const deactivated = await login();
+    expect(deactivated.status).toBe(403);
+    expect(deactivated.body.error).toBe('Your organization has been deactivated');
+
+    user.authProvider = 'oidc';
+    const singleSignOn = await login();
+    expect(singleSignOn.status).toBe(403);
+    expect(singleSignOn.body.error).toBe('This account signs in with single sign-on');
+  });
+});
@@ -0,0 +1,73 @@
+import type { FfprobeData } from 'fluent-ffmpeg';
+import { VideoAssetService } from '../services/videoAssetService';
+
+const probeData = (streams: Array<Record<string, any>>, format: Record<string, any> = {}): FfprobeData =>
+  ({ streams, format, chapters: [] } as unknown as FfprobeData);
+
+describe('VideoAssetService', () => {
+  describe('parseProbe', () => {
+    it('reads duration, resolution, frame rate and codecs', () => {
+      const probed = VideoAssetService.parseProbe(probeData(
+        [
+          { codec_type: 'video', codec_name: 'h264', width: 1280, height: 720, avg_frame_rate: '30000/1001', r_frame_rate: '30/1' },
+          { codec_type: 'audio', codec_name: 'aac' }
+        ],
+        { duration: 95.4321, bit_rate: '1250000' }
+      ));
+
+      expect(probed).toEqual({
+        duration: 95.432,
+        bitRate: 1250000,
+        width: 1280,
+        height: 720,
+        frameRate: 29.97,
+        videoCodec: 'h264',
+        audioCodec: 'aac'
+      });
+    });
+
+    it('leaves out values a browser WebM recording does not carry', () => {
+      const probed = VideoAssetService.parseProbe(probeData(
+        [{ codec_type: 'video', codec_name: 'vp8', width: 640, height: 480, avg_frame_rate: '0/0', r_frame_rate: '1000/1' }],
+        { duration: 'N/A', bit_rate: 'N/A' }
+      ));
+
+      expect(probed).toEqual({ width: 640, height: 480, videoCodec: 'vp8' });
+    });
+
+    it('falls back to the stream duration', () => {
+      const probed = VideoAssetService.parseProbe(probeData(
+        [{ codec_type: 'audio', codec_name: 'opus', duration: '12.5' }],
+        {}
+      ));
+
+      expect(probed).toEqual({ duration: 12.5, audioCodec: 'opus' });
+    });
+  });
+
+  describe('planSprite', () => {
+    it('takes one frame per second for short recordings', () => {
+      expect(VideoAssetService.planSprite(42.3, 1280, 720)).toEqual({
+        columns: 10,
+        rows: 5,
+        frameCount: 43,
+        frameWidth: 160,
+        frameHeight: 90,
+        intervalSeconds: 1
+      });
+    });
+
+    it('spaces frames out so long recordings stay within the frame limit', () => {
+      const plan = VideoAssetService.planSprite(3600, 640, 480);
+
+      expect(plan.intervalSeconds).toBe(36);
+      expect(plan.frameCount).toBe(100);
+      expect(plan.rows).toBe(10);
+      expect(plan.frameHeight).toBe(120);
+    });
+
+    it('uses a single row for very short clips', () => {
+      expect(VideoAssetService.planSprite(3, 1920, 1080)).toMatchObject({ columns: 3, rows: 1, frameCount: 3 });
+    });
+  });
+});
@@ -1,6 +1,71 @@
 import fs from 'fs';
 import path from 'path';
+import { createHash } from 'crypto';
 import { VideoStorageService } from '../services/videoStorageService';
+import { VideoUpload } from '../models/VideoUpload';
+import { InterviewSession } from '../models/InterviewSession';
+
+// In-memory stand-in for the video_uploads collection; it outlives service instances like the real one
+const uploads = new Map<string, any>();
+
+const toDoc = (data: Record<string, any>) => {
+  const doc: any = {
+    ...data,
+    chunks: [...(data.chunks || [])],
+    set(update: Record<string, any>) {
+      Object.assign(doc, update);
+    },
+    deleteOne: jest.fn(async () => {
+      uploads.delete(doc.uploadId);
+    })
+  };
+  return doc;
+};
+
+const stored = (uploadId: string) => (uploads.has(uploadId) ? toDoc(uploads.get(uploadId)) : null);
+
+jest.mock('../models/VideoUpload', () => ({
+  VideoUpload: {
+    create: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    findOpen: jest.fn(),
+    findByUploadId: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    addChunk: jest.fn(),
+    updateOne: jest.fn()
+  }
+}));
+jest.mock('../models/InterviewSession', () => ({
+  InterviewSession: { findOneAndUpdate: jest.fn().mockResolvedValue(null) }
+}));
+jest.mock('../services/videoAssetService', () => ({
+  VideoAssetService: { capture: jest.fn().mockRejectedValue(new Error('not a real recording')) }
+}));
+jest.mock('../services/evidenceClipService', () => ({
+  EvidenceClipService: { capture: jest.fn().mockResolvedValue([]) }
+}));
+// Recordings stay on local disk unless a test switches to a remote driver
+const mockStorageDriver = { name: 'local', remote: false, put: jest.fn() };
+jest.mock('../services/storage', () => ({
+  StorageService: { driver: () => mockStorageDriver }
+}));
+jest.mock('../utils/ffmpeg', () => {
+  // Conversion to MP4 fails straight away, so recordings are kept as uploaded
+  const command: any = {
+    videoCodec: () => command,
+    audioCodec: () => command,
+    outputOptions: () => command,
+    on: (event: string, handler: (err?: Error) => void) => {
+      if (event === 'error') command.fail = handler;
+      return command;
+    },
+    save: () => command.fail(new Error('ffmpeg unavailable'))
+  };
+  return { __esModule: true, default: () => command };
+});
+
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
 
 describe('VideoStorageService', () => {
   let service: VideoStorageService;
@@ -10,16 +75,47 @@ describe('VideoStorageService', () => {
 
   beforeAll(() => {
     service = new VideoStorageService();
-    
-    // Ensure test directories exist
-    const uploadDir = path.join(process.cwd(), 'uploads', 'videos');
-    const tempDir = path.join(process.cwd(), 'uploads', 'temp');
-    
-    [uploadDir, tempDir].forEach(dir => {
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
+  });
+
+  beforeEach(() => {
+    uploads.clear();
+    Object.assign(mockStorageDriver, { name: 'local', remote: false });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    (VideoUpload.create as jest.Mock).mockImplementation(async (data: any) => {
+      uploads.set(data.uploadId, { ...data, chunks: [] });
+      return stored(data.uploadId);
+    });
+    (VideoUpload.findOpen as jest.Mock).mockImplementation(async (sessionId: string, candidateId: string) => {
+      const open = [...uploads.values()].find(u =>
+        u.sessionId === sessionId && u.candidateId === candidateId && u.status === 'uploading');
+      return open ? stored(open.uploadId) : null;
+    });
+    (VideoUpload.findOne as jest.Mock).mockImplementation(async (filter: any) => {
+      const found = [...uploads.values()].find(u =>
+        u.sessionId === filter.sessionId && u.checksum === filter.checksum && filter.status.$in.includes(u.status));
+      return found ? stored(found.uploadId) : null;
+    });
+    (VideoUpload.findByUploadId as jest.Mock).mockImplementation(async (uploadId: string) => stored(uploadId));
+    (VideoUpload.addChunk as jest.Mock).mockImplementation(async (uploadId: string, chunk: any) => {
+      const upload = uploads.get(uploadId);
+      if (!upload || upload.status !== 'uploading' || upload.chunks.some((c: any) => c.index === chunk.index)) return null;
+      upload.chunks.push(chunk);
+      return stored(uploadId);
+    });
+    (VideoUpload.findOneAndUpdate as jest.Mock).mockImplementation(async (filter: any, update: any) => {
+      const upload = uploads.get(filter.uploadId);
+      if (!upload || upload.status !== filter.status) return null;
+      Object.assign(upload, update.$set);
+      return stored(filter.uploadId);
     });
+    (VideoUpload.updateOne as jest.Mock).mockImplementation(async (filter: any, update: any) => {
+      Object.assign(uploads.get(filter.uploadId) || {}, update.$set);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   afterAll(() => {
@@ -30,48 +126,6 @@ describe('VideoStorageService', () => {
     }
   });
 
-  describe('initializeUploadSession', () => {
-    it('should create a new upload session', () => {
-      const session = service.initializeUploadSession(
-        testSessionId,
-        testCandidateId,
-        2,
-        'test-video.webm',
-        'video/webm'
-      );
-
-      expect(session.sessionId).toBe(testSessionId);
-      expect(session.candidateId).toBe(testCandidateId);
-      expect(session.totalChunks).toBe(2);
-      expect(session.filename).toBe('test-video.webm');
-      expect(session.mimeType).toBe('video/webm');
-      expect(session.chunks.size).toBe(0);
-    });
-
-    it('should return existing session if already initialized', () => {
-      // Initialize first time
-      const session1 = service.initializeUploadSession(
-        testSessionId,
-        testCandidateId,
-        2,
-        'test-video.webm',
-        'video/webm'
-      );
-
-      // Initialize again with same parameters
-      const session2 = service.initializeUploadSession(
-        testSessionId,
-        testCandidateId,
-        2,
-        'test-video.webm',
-        'video/webm'
-      );
-
-      expect(session1.createdAt).toEqual(session2.createdAt);
-      expect(session1.sessionId).toBe(session2.sessionId);
-    });
-  });
-
   describe('uploadChunk', () => {
     it('should upload a single chunk successfully', async () => {
       const uploadData = {
@@ -88,6 +142,11 @@ describe('VideoStorageService', () => {
       expect(result.success).toBe(true);
       expect(result.isComplete).toBe(true);
       expect(result.message).toContain('Video uploaded successfully');
+
+      const [upload] = [...uploads.values()];
+      expect(upload.status).toBe('completed');
+      const recording = path.join(process.cwd(), 'uploads', 'videos', `${upload.videoId}.webm`);
+      expect(fs.readFileSync(recording)).toEqual(testBuffer);
     });
 
     it('should handle multi-chunk upload', async () => {
@@ -136,12 +195,173 @@ describe('VideoStorageService', () => {
       expect(result.success).toBe(false);
       expect(result.message).toContain('Invalid chunk index');
     });
+
+    it('should reject a chunk that does not match its checksum', async () => {
+      const result = await service.uploadChunk({
+        sessionId: 'checksum-session',
+        candidateId: testCandidateId,
+        chunkIndex: 0,
+        totalChunks: 2,
+        filename: 'checksum.webm',
+        mimeType: 'video/webm',
+        chunkChecksum: sha256(Buffer.from('something else'))
+      }, testBuffer);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Chunk 0 checksum mismatch');
+      expect(await service.getMissingChunks('checksum-session', testCandidateId)).toEqual([0, 1]);
+    });
+
+    it('should accept a re-sent chunk once and refuse different content at the same index', async () => {
+      const chunk = {
+        sessionId: 'retry-session',
+        candidateId: testCandidateId,
+        chunkIndex: 0,
+        totalChunks: 2,
+        filename: 'retry.webm',
+        mimeType: 'video/webm'
+      };
+
+      expect((await service.uploadChunk(chunk, testBuffer)).success).toBe(true);
+      expect((await service.uploadChunk(chunk, testBuffer)).success).toBe(true);
+      const conflict = await service.uploadChunk(chunk, Buffer.from('other bytes'));
+
+      expect(conflict.success).toBe(false);
+      expect(conflict.message).toBe('Chunk 0 was already received with different content');
+      expect((await service.getUploadStatus('retry-session', testCandidateId)).chunksReceived).toBe(1);
+    });
+
+    it('should offload the recording when a remote storage driver is configured', async () => {
+      Object.assign(mockStorageDriver, { name: 's3', remote: true });
+      mockStorageDriver.put.mockImplementation(async (key: string) => ({ driver: 's3', key, size: testBuffer.length }));
+
+      await service.uploadChunk({
+        sessionId: 'remote-session',
+        candidateId: testCandidateId,
+        chunkIndex: 0,
+        totalChunks: 1,
+        filename: 'remote.webm',
+        mimeType: 'video/webm'
+      }, testBuffer);
+
+      const [upload] = [...uploads.values()];
+      const recording = path.join(process.cwd(), 'uploads', 'videos', `${upload.videoId}.webm`);
+      expect(mockStorageDriver.put).toHaveBeenCalledWith(
+        `recordings/remote-session/${upload.videoId}.webm`,
+        { filePath: recording },
+        'video/webm'
+      );
+      expect(InterviewSession.findOneAndUpdate).toHaveBeenCalledWith({ sessionId: 'remote-session' }, expect.objectContaining({
+        videoUrl: `/api/videos/${upload.videoId}`,
+        recordingStorageDriver: 's3',
+        recordingStorageKey: `recordings/remote-session/${upload.videoId}.webm`
+      }));
+      expect(fs.existsSync(recording)).toBe(false);
+    });
+
+    it('should keep received chunks across a restart', async () => {
+      await service.uploadChunk({
+        sessionId: 'restart-session',
+        candidateId: testCandidateId,
+        chunkIndex: 0,
+        totalChunks: 2,
+        filename: 'restart.webm',
+        mimeType: 'video/webm'
+      }, Buffer.from('first half '));
+
+      const restarted = new VideoStorageService();
+      expect(await restarted.getMissingChunks('restart-session', testCandidateId)).toEqual([1]);
+
+      const result = await restarted.uploadChunk({
+        sessionId: 'restart-session',
+        candidateId: testCandidateId,
+        chunkIndex: 1,
+        totalChunks: 2,
+        filename: 'restart.webm',
+        mimeType: 'video/webm'
+      }, Buffer.from('second half'));
+
+      expect(result.isComplete).toBe(true);
+      const [upload] = [...uploads.values()];
+      const recording = path.join(process.cwd(), 'uploads', 'videos', `${upload.videoId}.webm`);
+      expect(fs.readFileSync(recording, 'utf8')).toBe('first half second half');
+    });
+  });
+
+  describe('offset-based uploads', () => {
+    const file = Buffer.from('0123456789abcdefghij-tail');
+    const input = {
+      sessionId: 'offset-session',
+      candidateId: testCandidateId,
+      filename: 'offset.webm',
+      mimeType: 'video/webm',
+      totalSize: file.length,
+      chunkSize: 10,
+      checksum: sha256(file)
+    };
+
+    it('should append chunks at the current offset and complete the upload', async () => {
+      const { created, progress } = await service.createUpload(input);
+      expect(created).toBe(true);
+      expect(progress).toMatchObject({ offset: 0, totalChunks: 3, status: 'uploading' });
+
+      let offset = 0;
+      let latest = progress;
+      while (offset < file.length) {
+        const chunk = file.subarray(offset, offset + 10);
+        latest = await service.appendChunk(progress.uploadId, offset, chunk, sha256(chunk));
+        offset = latest.offset;
+      }
+
+      expect(latest).toMatchObject({ offset: file.length, status: 'completed', missingChunks: [] });
+      expect(latest.videoId).toBeDefined();
+    });
+
+    it('should resume the open upload for the same file', async () => {
+      const { progress } = await service.createUpload(input);
+      await service.appendChunk(progress.uploadId, 0, file.subarray(0, 10), sha256(file.subarray(0, 10)));
+
+      const resumed = await service.createUpload(input);
+
+      expect(resumed.created).toBe(false);
+      expect(resumed.progress).toMatchObject({ uploadId: progress.uploadId, offset: 10 });
+    });
+
+    it('should replace the open upload when a different file is opened', async () => {
+      const { progress } = await service.createUpload(input);
+
+      const other = Buffer.from('a different recording');
+      const replaced = await service.createUpload({ ...input, totalSize: other.length, checksum: sha256(other) });
+
+      expect(replaced.created).toBe(true);
+      expect(replaced.progress.uploadId).not.toBe(progress.uploadId);
+      expect(uploads.has(progress.uploadId)).toBe(false);
+    });
+
+    it('should refuse chunks at the wrong offset', async () => {
+      const { progress } = await service.createUpload(input);
+      const chunk = file.subarray(10, 20);
+
+      await expect(service.appendChunk(progress.uploadId, 10, chunk, sha256(chunk)))
+        .rejects.toMatchObject({ statusCode: 409, message: 'Upload offset is 0, not 10' });
+    });
+
+    it('should fail the upload when the assembled file does not match its checksum', async () => {
+      const { progress } = await service.createUpload({ ...input, checksum: sha256(Buffer.from('expected')) });
+
+      await service.appendChunk(progress.uploadId, 0, file.subarray(0, 10), sha256(file.subarray(0, 10)));
+      await service.appendChunk(progress.uploadId, 10, file.subarray(10, 20), sha256(file.subarray(10, 20)));
+      await expect(service.appendChunk(progress.uploadId, 20, file.subarray(20), sha256(file.subarray(20))))
+        .rejects.toMatchObject({ statusCode: 460, message: 'Upload checksum mismatch' });
+
+      expect(uploads.get(progress.uploadId)).toMatchObject({ status: 'failed', error: 'Upload checksum mismatch' });
+    });
   });
 
   describe('getUploadStatus', () => {
     it('should return status for existing session', async () => {
       const sessionId = 'status-test-session';
-      
+
       // Upload one chunk out of two
       await service.uploadChunk({
         sessionId,
@@ -152,16 +372,17 @@ describe('VideoStorageService', () => {
         mimeType: 'video/webm'
       }, testBuffer);
 
-      const status = service.getUploadStatus(sessionId, testCandidateId);
+      const status = await service.getUploadStatus(sessionId, testCandidateId);
 
       expect(status.exists).toBe(true);
       expect(status.chunksReceived).toBe(1);
       expect(status.totalChunks).toBe(2);
       expect(status.progress).toBe(50);
+      expect(status.offset).toBe(testBuffer.length);
     });
 
-    it('should return default status for non-existing session', () => {
-      const status = service.getUploadStatus('non-existent', 'non-existent');
+    it('should return default status for non-existing session', async () => {
+      const status = await service.getUploadStatus('non-existent', 'non-existent');
 
       expect(status.exists).toBe(false);
       expect(status.chunksReceived).toBe(0);
@@ -173,7 +394,7 @@ describe('VideoStorageService', () => {
   describe('getMissingChunks', () => {
     it('should return missing chunks for incomplete upload', async () => {
       const sessionId = 'missing-chunks-session';
-      
+
       // Upload chunks 0 and 2, skip chunk 1
       await service.uploadChunk({
         sessionId,
@@ -193,14 +414,14 @@ describe('VideoStorageService', () => {
         mimeType: 'video/webm'
       }, testBuffer);
 
-      const missingChunks = service.getMissingChunks(sessionId, testCandidateId);
+      const missingChunks = await service.getMissingChunks(sessionId, testCandidateId);
 
       expect(missingChunks).toEqual([1]);
     });
 
-    it('should return empty array for non-existing session', () => {
-      const missingChunks = service.getMissingChunks('non-existent', 'non-existent');
+    it('should return empty array for non-existing session', async () => {
+      const missingChunks = await service.getMissingChunks('non-existent', 'non-existent');
       expect(missingChunks).toEqual([]);
     });
   });
-});
\ No newline at end of file
+});
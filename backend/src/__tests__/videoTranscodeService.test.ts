@@ -0,0 +1,168 @@
+import { v4 as uuidv4 } from 'uuid';
+import { VideoTranscodeService } from '../services/videoTranscodeService';
+import { videoStorageService } from '../services/videoStorageService';
+import { VideoAssetService } from '../services/videoAssetService';
+import { InterviewSession } from '../models/InterviewSession';
+import { TranscodeJob } from '../models/TranscodeJob';
+import { NotFoundError } from '../middleware/errorHandler';
+
+jest.mock('../models/InterviewSession', () => ({
+  InterviewSession: { findOne: jest.fn() }
+}));
+jest.mock('../models/TranscodeJob', () => ({
+  TranscodeJob: {
+    create: jest.fn(),
+    findActiveForVideo: jest.fn(),
+    findByJobId: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    claimNext: jest.fn(),
+    updateLeased: jest.fn(),
+    updateOne: jest.fn()
+  }
+}));
+jest.mock('../services/videoStorageService', () => ({
+  videoStorageService: { transcodeVideo: jest.fn() }
+}));
+jest.mock('../services/videoAssetService', () => ({
+  VideoAssetService: { capture: jest.fn() }
+}));
+
+const mockSessionFindOne = InterviewSession.findOne as jest.Mock;
+const mockCreate = TranscodeJob.create as jest.Mock;
+const mockFindActive = TranscodeJob.findActiveForVideo as jest.Mock;
+const mockClaimNext = TranscodeJob.claimNext as jest.Mock;
+const mockUpdateLeased = TranscodeJob.updateLeased as jest.Mock;
+const mockUpdateOne = TranscodeJob.updateOne as jest.Mock;
+const mockTranscode = videoStorageService.transcodeVideo as jest.Mock;
+const mockCapture = VideoAssetService.capture as jest.Mock;
+
+// Let the queue claim and run the job it was poked for
+const flush = async () => {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+};
+
+const finalUpdate = () => mockUpdateLeased.mock.calls.map(call => call[2]).filter(update => update.status).pop();
+
+describe('VideoTranscodeService', () => {
+  const videoId = uuidv4();
+  const sessionId = uuidv4();
+  let job: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    job = {
+      jobId: uuidv4(),
+      videoId,
+      sessionId,
+      preset: 'low',
+      status: 'pending',
+      progress: 0,
+      attempts: 1,
+      maxAttempts: 2,
+      nextRunAt: new Date()
+    };
+    mockSessionFindOne.mockReturnValue({ select: () => Promise.resolve({ sessionId }) });
+    mockFindActive.mockResolvedValue(null);
+    mockCreate.mockImplementation(async (doc: any) => ({ ...doc, attempts: 0 }));
+    mockClaimNext.mockResolvedValueOnce(job).mockResolvedValue(null);
+    mockUpdateLeased.mockResolvedValue(true);
+    mockUpdateOne.mockResolvedValue({});
+  });
+
+  it('queues a job for the recording with the requested preset', async () => {
+    mockClaimNext.mockReset().mockResolvedValue(null);
+
+    const status = await VideoTranscodeService.enqueue(videoId, 'high', 'interviewer-1');
+
+    expect(mockSessionFindOne).toHaveBeenCalledWith({ videoUrl: `/api/videos/${videoId}` });
+    expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+      videoId,
+      sessionId,
+      preset: 'high',
+      requestedBy: 'interviewer-1',
+      status: 'pending'
+    }));
+    expect(status).toMatchObject({ videoId, preset: 'high', status: 'pending', progress: 0 });
+  });
+
+  it('rejects recordings that no session references', async () => {
+    mockSessionFindOne.mockReturnValue({ select: () => Promise.resolve(null) });
+
+    await expect(VideoTranscodeService.enqueue(videoId, 'medium', 'interviewer-1'))
+      .rejects.toMatchObject({ statusCode: 404 });
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('rejects a second transcode while one is active', async () => {
+    mockFindActive.mockResolvedValue(job);
+
+    await expect(VideoTranscodeService.enqueue(videoId, 'medium', 'interviewer-1'))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('transcodes the recording, reports progress and records the sizes', async () => {
+    mockTranscode.mockImplementation(async (_videoId: string, _preset: string, onProgress: (percent: number) => Promise<void>) => {
+      await onProgress(50);
+      return { filePath: `/uploads/videos/${videoId}.mp4`, originalSize: 1000, outputSize: 400, replaced: true };
+    });
+
+    await VideoTranscodeService.enqueue(videoId, 'low', 'interviewer-1');
+    await flush();
+
+    expect(mockTranscode).toHaveBeenCalledWith(videoId, 'low', expect.any(Function));
+    expect(mockUpdateLeased).toHaveBeenCalledWith(job.jobId, expect.any(String), expect.objectContaining({ progress: 50 }));
+    expect(mockUpdateOne).toHaveBeenCalledWith(
+      { jobId: job.jobId },
+      { $set: { originalSize: 1000, outputSize: 400 } }
+    );
+    expect(mockCapture).toHaveBeenCalledWith(videoId, sessionId, `/uploads/videos/${videoId}.mp4`, 'video/mp4');
+    expect(finalUpdate()).toMatchObject({ status: 'completed', progress: 100 });
+  });
+
+  it('completes even when refreshing the asset metadata fails', async () => {
+    mockTranscode.mockResolvedValue({ filePath: `/uploads/videos/${videoId}.mp4`, originalSize: 1000, outputSize: 400, replaced: true });
+    mockCapture.mockRejectedValue(new Error('ffprobe exited with code 1'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await VideoTranscodeService.enqueue(videoId, 'low', 'interviewer-1');
+    await flush();
+
+    expect(finalUpdate()).toMatchObject({ status: 'completed' });
+  });
+
+  it('keeps the asset metadata when the original recording was kept', async () => {
+    mockTranscode.mockResolvedValue({ filePath: `/uploads/videos/${videoId}.webm`, originalSize: 400, outputSize: 500, replaced: false });
+
+    await VideoTranscodeService.enqueue(videoId, 'low', 'interviewer-1');
+    await flush();
+
+    expect(mockCapture).not.toHaveBeenCalled();
+    expect(finalUpdate()).toMatchObject({ status: 'completed' });
+  });
+
+  it('fails without retrying when the recording file is gone', async () => {
+    mockTranscode.mockRejectedValue(new NotFoundError('Recording file'));
+
+    await VideoTranscodeService.enqueue(videoId, 'low', 'interviewer-1');
+    await flush();
+
+    expect(finalUpdate()).toMatchObject({ status: 'failed', error: 'Recording file not found' });
+  });
+
+  it('stops quietly when the job is cancelled mid-transcode', async () => {
+    mockTranscode.mockImplementation(async (_videoId: string, _preset: string, onProgress: (percent: number) => Promise<void>) => {
+      mockUpdateLeased.mockResolvedValue(false);
+      await onProgress(20);
+      return { filePath: `/uploads/videos/${videoId}.mp4`, originalSize: 1000, outputSize: 400, replaced: true };
+    });
+
+    await VideoTranscodeService.enqueue(videoId, 'low', 'interviewer-1');
+    await flush();
+
+    expect(finalUpdate()).toBeUndefined();
+    expect(mockUpdateOne).not.toHaveBeenCalled();
+  });
+});
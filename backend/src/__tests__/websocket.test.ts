@@ -378,8 +378,8 @@ describe('WebSocket Service', () => {
   });
 
   describe('Service Statistics', () => {
-    it('should track connection statistics', () => {
-      const stats = wsService.getStats();
+    it('should track connection statistics', async () => {
+      const stats = await wsService.getStats();
       expect(stats).toHaveProperty('totalConnections');
       expect(stats).toHaveProperty('activeSessions');
       expect(stats).toHaveProperty('connectedCandidates');
@@ -388,12 +388,12 @@ describe('WebSocket Service', () => {
       expect(typeof stats.uptime).toBe('number');
     });
 
-    it('should track active sessions count', () => {
-      expect(wsService.getActiveSessionsCount()).toBe(0);
+    it('should track active sessions count', async () => {
+      expect(await wsService.getActiveSessionsCount()).toBe(0);
     });
 
-    it('should track connected users count', () => {
-      expect(wsService.getConnectedUsersCount()).toBe(0);
+    it('should track connected users count', async () => {
+      expect(await wsService.getConnectedUsersCount()).toBe(0);
     });
   });
 
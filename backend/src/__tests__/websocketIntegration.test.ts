@@ -55,6 +55,7 @@ describe('WebSocket Integration', () => {
             sessionId: testSessionId,
             candidateId: candidateUserId,
             candidateName: 'Test Candidate',
+            interviewerId: interviewerUserId,
             startTime: new Date(),
             status: SessionStatus.ACTIVE
         });
@@ -137,8 +138,8 @@ describe('WebSocket Integration', () => {
     });
 
     describe('WebSocket Service Statistics', () => {
-        it('should track basic statistics', () => {
-            const stats = wsService.getStats();
+        it('should track basic statistics', async () => {
+            const stats = await wsService.getStats();
             expect(stats).toHaveProperty('totalConnections');
             expect(stats).toHaveProperty('activeSessions');
             expect(stats).toHaveProperty('connectedCandidates');
@@ -148,23 +149,23 @@ describe('WebSocket Integration', () => {
             expect(stats.uptime).toBeGreaterThan(0);
         });
 
-        it('should return correct session count', () => {
-            expect(wsService.getActiveSessionsCount()).toBe(0);
+        it('should return correct session count', async () => {
+            expect(await wsService.getActiveSessionsCount()).toBe(0);
         });
 
-        it('should return correct user count', () => {
-            expect(wsService.getConnectedUsersCount()).toBe(0);
+        it('should return correct user count', async () => {
+            expect(await wsService.getConnectedUsersCount()).toBe(0);
         });
     });
 
     describe('WebSocket Service Methods', () => {
-        it('should check user connection status', () => {
+        it('should check user connection status', async () => {
             const userId = '123e4567-e89b-12d3-a456-426614174001';
-            expect(wsService.isUserConnected(userId)).toBe(false);
+            expect(await wsService.isUserConnected(userId)).toBe(false);
         });
 
-        it('should return null for non-existent session users', () => {
-            const sessionUsers = wsService.getSessionUsers('non-existent-session');
+        it('should return null for non-existent session users', async () => {
+            const sessionUsers = await wsService.getSessionUsers('non-existent-session');
             expect(sessionUsers).toBeNull();
         });
 
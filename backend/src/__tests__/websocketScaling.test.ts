@@ -0,0 +1,202 @@
+import { createServer, Server as HTTPServer } from 'http';
+import { AddressInfo } from 'net';
+import { io as Client, Socket as ClientSocket } from 'socket.io-client';
+import jwt from 'jsonwebtoken';
+import { WebSocketService } from '../services/websocketService';
+import { TokenService } from '../services/tokenService';
+import { InterviewSession } from '../models/InterviewSession';
+import { RedisStandIn, startRedisStandIn } from '../utils/redisStandIn';
+import { WebSocketEventType, WebSocketUserRole } from '../types/websocket';
+import { SessionStatus, UserRole } from '../types';
+
+jest.mock('../models/InterviewSession', () => ({ InterviewSession: { findOne: jest.fn() } }));
+jest.mock('../services/sessionAccessService', () => ({
+  SessionAccessService: { canAccess: jest.fn().mockResolvedValue(true) }
+}));
+jest.mock('../services/auditService', () => ({
+  AuditService: { record: jest.fn().mockResolvedValue(undefined), actorFromSocket: jest.fn() }
+}));
+
+const mockFindOne = InterviewSession.findOne as jest.Mock;
+
+const SECRET = 'scaling-test-secret';
+const SESSION_ID = 'session-across-instances';
+const CANDIDATE_ID = 'candidate-1';
+const INTERVIEWER_ID = 'interviewer-1';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const nextEvent = <T = any>(socket: ClientSocket, event: string): Promise<T> =>
+  new Promise(resolve => socket.once(event, resolve));
+
+// Presence reports of other instances land asynchronously
+const eventually = async (assertion: () => Promise<void>, timeoutMs: number = 2000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    try {
+      return await assertion();
+    } catch (error) {
+      if (Date.now() > deadline) throw error;
+      await sleep(25);
+    }
+  }
+};
+
+describe('WebSocketService across instances', () => {
+  let standIn: RedisStandIn;
+  let instances: { httpServer: HTTPServer; service: WebSocketService; url: string }[];
+  let clients: ClientSocket[];
+
+  const connect = async (instance: number, userId: string, role: UserRole): Promise<ClientSocket> => {
+    const token = jwt.sign({ userId, email: `${userId}@test.com`, name: userId, role }, SECRET);
+    const client = Client(instances[instance]!.url, { auth: { token }, transports: ['websocket'] });
+    clients.push(client);
+    await nextEvent(client, 'connect');
+    return client;
+  };
+
+  const join = async (client: ClientSocket, role: WebSocketUserRole) => {
+    const joined = nextEvent(client, WebSocketEventType.SESSION_JOINED);
+    client.emit(WebSocketEventType.JOIN_SESSION, { sessionId: SESSION_ID, role });
+    return joined;
+  };
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = SECRET;
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(TokenService, 'isRevoked').mockResolvedValue(false);
+    mockFindOne.mockResolvedValue({ sessionId: SESSION_ID, status: SessionStatus.ACTIVE, candidateId: CANDIDATE_ID });
+
+    standIn = await startRedisStandIn();
+    clients = [];
+    instances = await Promise.all([0, 1].map(async () => {
+      const httpServer = createServer();
+      const service = new WebSocketService(httpServer, { redisUrl: standIn.url });
+      await new Promise<void>(resolve => httpServer.listen(0, resolve));
+      await service.ready();
+      return { httpServer, service, url: `http://localhost:${(httpServer.address() as AddressInfo).port}` };
+    }));
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    await Promise.all(instances.map(instance => instance.service.close()));
+    await standIn.close();
+    jest.restoreAllMocks();
+  });
+
+  it('delivers detection alerts and manual flags between instances', async () => {
+    const candidate = await connect(0, CANDIDATE_ID, UserRole.CANDIDATE);
+    const interviewer = await connect(1, INTERVIEWER_ID, UserRole.INTERVIEWER);
+    await join(candidate, WebSocketUserRole.CANDIDATE);
+    await join(interviewer, WebSocketUserRole.INTERVIEWER);
+
+    const alert = nextEvent(interviewer, 'alert');
+    const broadcast = nextEvent(interviewer, WebSocketEventType.DETECTION_EVENT_BROADCAST);
+    candidate.emit(WebSocketEventType.DETECTION_EVENT, {
+      sessionId: SESSION_ID,
+      candidateId: CANDIDATE_ID,
+      eventType: 'multiple-faces',
+      timestamp: new Date().toISOString(),
+      metadata: { faceCount: 2 }
+    });
+    expect(await alert).toMatchObject({ sessionId: SESSION_ID, severity: 'high', message: 'Multiple faces detected (2 faces)' });
+    expect(await broadcast).toMatchObject({ eventType: 'multiple-faces' });
+
+    const flag = nextEvent(candidate, WebSocketEventType.MANUAL_FLAG_BROADCAST);
+    interviewer.emit(WebSocketEventType.MANUAL_FLAG, {
+      sessionId: SESSION_ID,
+      interviewerId: INTERVIEWER_ID,
+      description: 'Looked at a second screen',
+      flagType: 'suspicious_behavior',
+      severity: 'medium',
+      timestamp: new Date().toISOString()
+    });
+    expect(await flag).toMatchObject({ description: 'Looked at a second screen' });
+  });
+
+  it('relays WebRTC signaling to a user on another instance', async () => {
+    const candidate = await connect(0, CANDIDATE_ID, UserRole.CANDIDATE);
+    const interviewer = await connect(1, INTERVIEWER_ID, UserRole.INTERVIEWER);
+    await join(candidate, WebSocketUserRole.CANDIDATE);
+    await join(interviewer, WebSocketUserRole.INTERVIEWER);
+
+    const offer = nextEvent(interviewer, WebSocketEventType.VIDEO_STREAM_OFFER);
+    candidate.emit(WebSocketEventType.VIDEO_STREAM_OFFER, {
+      sessionId: SESSION_ID,
+      toUserId: 'interviewer',
+      offer: { type: 'offer', sdp: 'candidate-sdp' }
+    });
+    expect(await offer).toMatchObject({ fromUserId: CANDIDATE_ID, offer: { sdp: 'candidate-sdp' } });
+
+    const answer = nextEvent(candidate, WebSocketEventType.VIDEO_STREAM_ANSWER);
+    interviewer.emit(WebSocketEventType.VIDEO_STREAM_ANSWER, {
+      sessionId: SESSION_ID,
+      toUserId: CANDIDATE_ID,
+      answer: { type: 'answer', sdp: 'interviewer-sdp' }
+    });
+    expect(await answer).toMatchObject({ fromUserId: INTERVIEWER_ID, answer: { sdp: 'interviewer-sdp' } });
+
+    const notice = nextEvent(candidate, 'notice');
+    instances[1]!.service.sendToUser(CANDIDATE_ID, 'notice', { text: 'hello', bytes: Buffer.from([1, 2, 3]) });
+    const received = await notice;
+    expect(received.text).toBe('hello');
+    expect(Buffer.from(received.bytes)).toEqual(Buffer.from([1, 2, 3]));
+  });
+
+  it('reports presence and statistics for the whole deployment', async () => {
+    const [first, second] = instances.map(instance => instance.service) as [WebSocketService, WebSocketService];
+    const candidate = await connect(0, CANDIDATE_ID, UserRole.CANDIDATE);
+    await join(candidate, WebSocketUserRole.CANDIDATE);
+    await eventually(async () => {
+      expect((await second.getSessionUsers(SESSION_ID))?.candidates).toHaveLength(1);
+    });
+
+    const interviewer = await connect(1, INTERVIEWER_ID, UserRole.INTERVIEWER);
+    const joined = await join(interviewer, WebSocketUserRole.INTERVIEWER);
+    expect(joined.connectedUsers.candidates.map((user: any) => user.userId)).toEqual([CANDIDATE_ID]);
+    expect(joined.connectedUsers.interviewers.map((user: any) => user.userId)).toEqual([INTERVIEWER_ID]);
+
+    await eventually(async () => {
+      expect(await first.getStats()).toMatchObject({
+        totalConnections: 2,
+        activeSessions: 1,
+        connectedCandidates: 1,
+        connectedInterviewers: 1,
+        instances: 2
+      });
+    });
+    expect(await first.isUserConnected(INTERVIEWER_ID)).toBe(true);
+    expect(await first.getSessionPresence(SESSION_ID)).toMatchObject({ connected: true, candidates: 1, interviewers: 1 });
+
+    const left = nextEvent(interviewer, WebSocketEventType.SESSION_LEFT);
+    candidate.disconnect();
+    expect((await left).connectedUsers.candidates).toEqual([]);
+    await eventually(async () => {
+      expect(await second.isUserConnected(CANDIDATE_ID)).toBe(false);
+    });
+
+    second.disconnectUser(INTERVIEWER_ID);
+    await eventually(async () => {
+      const presence = await first.getSessionPresence(SESSION_ID);
+      expect(presence.connected).toBe(false);
+      expect(presence.lastSeenAt).toBeInstanceOf(Date);
+    });
+    expect(await first.getConnectedUsersCount()).toBe(0);
+  });
+
+  it('drops the presence of an instance that shuts down', async () => {
+    const candidate = await connect(0, CANDIDATE_ID, UserRole.CANDIDATE);
+    await join(candidate, WebSocketUserRole.CANDIDATE);
+    await eventually(async () => {
+      expect(await instances[1]!.service.getActiveSessionsCount()).toBe(1);
+    });
+
+    await instances[0]!.service.close();
+    await eventually(async () => {
+      expect(await instances[1]!.service.getStats()).toMatchObject({ totalConnections: 0, activeSessions: 0, instances: 1 });
+    });
+  });
+});
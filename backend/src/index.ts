@@ -7,6 +7,13 @@ import dotenv from 'dotenv';
 import { connectToDatabase, performHealthCheck } from './utils/database';
 import { ApiResponse } from './types';
 import { WebSocketService } from './services/websocketService';
+import { ReportService } from './services/reportService';
+import { OrganizationService } from './services/organizationService';
+import { SessionSweeper } from './services/sessionSweeper';
+import { VideoTranscodeService } from './services/videoTranscodeService';
+import { StorageService } from './services/storage';
+import { retentionPurger } from './services/retentionPurger';
+import { abuseDetection } from './middleware/rateLimiter';
 
 // Load environment variables
 dotenv.config();
@@ -26,14 +33,18 @@ const corsOptions = {
     ? [process.env.FRONTEND_URL || 'https://video-interviews-proctoring-system.vercel.app']
     : [process.env.CORS_ORIGIN || 'http://localhost:5173'],
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  methods: ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  // Resumable recording uploads exchange offsets and checksums in headers
+  allowedHeaders: ['Content-Type', 'Authorization', 'Upload-Offset', 'Upload-Checksum'],
+  exposedHeaders: ['Upload-Offset', 'Upload-Length', 'Location', 'X-Request-Id', 'X-Archive-Sha256']
 };
 
 app.use(cors(corsOptions));
 app.use(morgan('combined'));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
+// After the body parsers so request bodies are checked too; banned IPs get nothing else
+app.use(abuseDetection);
 
 // Health check endpoint
 app.get('/health', async (req, res) => {
@@ -77,7 +88,12 @@ app.get('/', (req, res) => {
         sessions: '/api/sessions',
         events: '/api/events',
         reports: '/api/reports',
-        videos: '/api/videos'
+        organizations: '/api/organizations',
+        scoringPolicies: '/api/scoring-policies',
+        videos: '/api/videos',
+        retention: '/api/retention',
+        candidates: '/api/candidates',
+        audit: '/api/audit'
       }
     },
     message: 'Video Proctoring System Backend API is running successfully'
@@ -88,16 +104,30 @@ app.get('/', (req, res) => {
 // Import routes
 import videoRoutes from './routes/videoRoutes';
 import authRoutes from './routes/authRoutes';
+import oidcRoutes from './routes/oidcRoutes';
 import eventRoutes from './routes/eventRoutes';
 import reportRoutes from './routes/reportRoutes';
+import organizationRoutes from './routes/organizationRoutes';
+import scoringPolicyRoutes from './routes/scoringPolicyRoutes';
 import sessionRoutes, { setWebSocketService } from './routes/sessionRoutes';
+import storageRoutes from './routes/storageRoutes';
+import retentionRoutes from './routes/retentionRoutes';
+import candidateDataRoutes from './routes/candidateDataRoutes';
+import auditRoutes from './routes/auditRoutes';
 
 // API routes
 app.use('/api/videos', videoRoutes);
+app.use('/api/auth/oidc', oidcRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/events', eventRoutes);
 app.use('/api/reports', reportRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/scoring-policies', scoringPolicyRoutes);
 app.use('/api/sessions', sessionRoutes);
+app.use('/api/storage', storageRoutes);
+app.use('/api/retention', retentionRoutes);
+app.use('/api/candidates', candidateDataRoutes);
+app.use('/api/audit', auditRoutes);
 
 // (Removed /api/debug endpoint for production cleanliness)
 
@@ -127,8 +157,16 @@ app.use((err: Error, _req: express.Request, res: express.Response, _next: expres
 // Initialize database and start server
 async function startServer() {
   try {
+    // Fail fast on an incomplete storage configuration rather than on the first upload
+    console.log(`Storage driver: ${StorageService.driver().name}`);
+    // Files written to disk before a driver switch are still served through signed local links
+    StorageService.localDriver();
+
     // Connect to database
     await connectToDatabase();
+
+    // Create the default organization and move legacy records into it
+    await OrganizationService.ensureDefaultOrganization();
     
     // Create HTTP server
     const server = createServer(app);
@@ -136,6 +174,18 @@ async function startServer() {
     // Initialize WebSocket service
     const wsService = new WebSocketService(server);
     setWebSocketService(wsService);
+
+    // Resume queued and interrupted report generation jobs
+    ReportService.startReportWorker();
+
+    // Resume queued and interrupted recording transcodes
+    VideoTranscodeService.startTranscodeWorker();
+
+    // End abandoned and overlong sessions, expire missed scheduled ones
+    new SessionSweeper(wsService).start();
+
+    // Delete recordings, events and reports past their organization's retention windows
+    retentionPurger.start();
     
     // Start server
     server.listen(PORT, () => {
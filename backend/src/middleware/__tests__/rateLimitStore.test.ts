@@ -0,0 +1,138 @@
+import { MemoryRateLimitStore, RateLimitStore, RedisRateLimitStore } from '../rateLimitStore';
+import net, { AddressInfo } from 'net';
+import { RedisClient } from '../../utils/redisClient';
+import { RedisStandIn, startRedisStandIn } from '../../utils/redisStandIn';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe.each(['memory', 'redis'] as const)('%s rate limit store', (name) => {
+  let standIn: RedisStandIn | undefined;
+  let store: RateLimitStore;
+
+  beforeEach(async () => {
+    if (name === 'redis') {
+      standIn = await startRedisStandIn();
+      store = new RedisRateLimitStore(new RedisClient(standIn.url));
+    } else {
+      store = new MemoryRateLimitStore();
+    }
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await standIn?.close();
+  });
+
+  it('counts within a window that starts with the first increment', async () => {
+    const first = await store.increment('counter', 200);
+    await sleep(50);
+    const second = await store.increment('counter', 200);
+
+    expect(first.count).toBe(1);
+    expect(second.count).toBe(2);
+    expect(Math.abs(second.expiresAt - first.expiresAt)).toBeLessThan(20);
+    expect((await store.increment('counter', 200, -1)).count).toBe(1);
+
+    await sleep(200);
+    expect((await store.increment('counter', 200)).count).toBe(1);
+  });
+
+  it('expires values and deletes them', async () => {
+    await store.set('ban', 'value', 50);
+    await store.set('kept', 'value', 10000);
+    expect(await store.get('ban')).toBe('value');
+
+    await sleep(80);
+    await store.delete('kept');
+    expect(await store.get('ban')).toBeNull();
+    expect(await store.get('kept')).toBeNull();
+  });
+
+  it('only sets a value that has not changed since it was read', async () => {
+    expect(await store.compareAndSet('bucket', null, '1', 10000)).toBe(true);
+    expect(await store.compareAndSet('bucket', null, '2', 10000)).toBe(false);
+    expect(await store.compareAndSet('bucket', '1', '2', 10000)).toBe(true);
+    expect(await store.get('bucket')).toBe('2');
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  let standIn: RedisStandIn;
+
+  beforeEach(async () => {
+    standIn = await startRedisStandIn({ password: 'stand-in-secret' });
+  });
+
+  afterEach(async () => {
+    await standIn.close();
+  });
+
+  it('lets exactly one of several replicas win a compare-and-set', async () => {
+    const replicas = Array.from({ length: 3 }, () => new RedisRateLimitStore(new RedisClient(standIn.url)));
+
+    const results = await Promise.all(replicas.flatMap(replica =>
+      [0, 1].map(() => replica.compareAndSet('bucket', null, 'claimed', 10000))));
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    await Promise.all(replicas.map(replica => replica.close()));
+  });
+
+  it('keeps increments and compare-and-sets sharing a connection apart', async () => {
+    const store = new RedisRateLimitStore(new RedisClient(standIn.url));
+
+    const [, , claimed, count] = await Promise.all([
+      store.increment('counter', 10000),
+      store.increment('counter', 10000),
+      store.compareAndSet('bucket', null, 'claimed', 10000),
+      store.increment('counter', 10000)
+    ]);
+
+    expect(claimed).toBe(true);
+    expect(count.count).toBe(3);
+    expect(await store.get('bucket')).toBe('claimed');
+    await store.close();
+  });
+
+  it('authenticates with the password in the URL', async () => {
+    const rejected = new RedisRateLimitStore(new RedisClient(standIn.url.replace('stand-in-secret', 'wrong')));
+
+    await expect(rejected.get('key')).rejects.toThrow('WRONGPASS');
+    await rejected.close();
+  });
+});
+
+describe('RedisRateLimitStore against a server that stops answering', () => {
+  let server: net.Server;
+  const sockets: net.Socket[] = [];
+
+  beforeEach(async () => {
+    // Accepts connections and reads commands, but never replies
+    server = net.createServer(socket => {
+      sockets.push(socket);
+      socket.resume();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    sockets.splice(0).forEach(socket => socket.destroy());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('fails the command within the timeout and reconnects for the next one', async () => {
+    const url = `redis://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const store = new RedisRateLimitStore(new RedisClient(url, { commandTimeoutMs: 100 }));
+
+    const startedAt = Date.now();
+    const increment = store.increment('counter', 10000);
+    // Queued behind the unanswered transaction, so it fails with it
+    const queued = expect(store.get('key')).rejects.toThrow();
+    await expect(increment).rejects.toThrow('Redis did not answer MULTI within 100ms');
+    await queued;
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+
+    await expect(store.increment('counter', 10000)).rejects.toThrow('Redis did not answer MULTI within 100ms');
+    expect(sockets).toHaveLength(2);
+    await store.close();
+  });
+});
@@ -1,5 +1,9 @@
+import { EventEmitter } from 'events';
 import { Request, Response, NextFunction } from 'express';
-import { createRateLimiters, abuseDetection, ipFilter, requestSizeLimiter } from '../rateLimiter';
+import { createRateLimiters, abuseDetection, createAbuseDetection, ipFilter, requestSizeLimiter, RateLimiter, RateLimitConfig } from '../rateLimiter';
+import { MemoryRateLimitStore, RedisRateLimitStore } from '../rateLimitStore';
+import { RedisClient } from '../../utils/redisClient';
+import { RedisStandIn, startRedisStandIn } from '../../utils/redisStandIn';
 
 // Mock logger
 jest.mock('../../utils/logger', () => ({
@@ -44,24 +48,24 @@ describe('Rate Limiter', () => {
   });
 
   describe('General Rate Limiter', () => {
-    it('should allow requests within limit', () => {
+    it('should allow requests within limit', async () => {
       const rateLimiters = createRateLimiters();
       
       // Make requests within limit
       for (let i = 0; i < 5; i++) {
-        rateLimiters.general(req as Request, res as Response, next);
+        await rateLimiters.general(req as Request, res as Response, next);
       }
       
       expect(next).toHaveBeenCalledTimes(5);
       expect(res.status).not.toHaveBeenCalled();
     });
 
-    it('should block requests exceeding limit', () => {
+    it('should block requests exceeding limit', async () => {
       const rateLimiters = createRateLimiters();
       
       // Make requests exceeding limit
       for (let i = 0; i < 101; i++) {
-        rateLimiters.general(req as Request, res as Response, next);
+        await rateLimiters.general(req as Request, res as Response, next);
       }
       
       expect(res.status).toHaveBeenCalledWith(429);
@@ -76,12 +80,12 @@ describe('Rate Limiter', () => {
       });
     });
 
-    it('should set rate limit headers', () => {
+    it('should set rate limit headers', async () => {
       const rateLimiters = createRateLimiters();
       
       // Make requests to trigger rate limiting
       for (let i = 0; i < 101; i++) {
-        rateLimiters.general(req as Request, res as Response, next);
+        await rateLimiters.general(req as Request, res as Response, next);
       }
       
       expect(res.set).toHaveBeenCalledWith({
@@ -94,22 +98,22 @@ describe('Rate Limiter', () => {
   });
 
   describe('Auth Rate Limiter', () => {
-    it('should use email-based key generation', () => {
+    it('should use email-based key generation', async () => {
       const rateLimiters = createRateLimiters();
       req.body = { email: 'test@example.com' };
       
-      rateLimiters.auth(req as Request, res as Response, next);
+      await rateLimiters.auth(req as Request, res as Response, next);
       
       expect(next).toHaveBeenCalledTimes(1);
     });
 
-    it('should have stricter limits for auth', () => {
+    it('should have stricter limits for auth', async () => {
       const rateLimiters = createRateLimiters();
       req.body = { email: 'test@example.com' };
       
       // Make requests exceeding auth limit (5)
       for (let i = 0; i < 6; i++) {
-        rateLimiters.auth(req as Request, res as Response, next);
+        await rateLimiters.auth(req as Request, res as Response, next);
       }
       
       expect(res.status).toHaveBeenCalledWith(429);
@@ -117,11 +121,11 @@ describe('Rate Limiter', () => {
   });
 
   describe('Event Rate Limiter', () => {
-    it('should use session-based key generation', () => {
+    it('should use session-based key generation', async () => {
       const rateLimiters = createRateLimiters();
       req.body = { sessionId: 'test-session-123' };
       
-      rateLimiters.event(req as Request, res as Response, next);
+      await rateLimiters.event(req as Request, res as Response, next);
       
       expect(next).toHaveBeenCalledTimes(1);
     });
@@ -157,19 +161,19 @@ describe('Abuse Detection', () => {
     jest.clearAllMocks();
   });
 
-  it('should allow normal requests', () => {
+  it('should allow normal requests', async () => {
     req.body = { name: 'John Doe', email: 'john@example.com' };
     
-    abuseDetection(req as Request, res as Response, next);
+    await abuseDetection(req as Request, res as Response, next);
     
     expect(next).toHaveBeenCalledTimes(1);
     expect(res.status).not.toHaveBeenCalled();
   });
 
-  it('should detect XSS attempts in body', () => {
+  it('should detect XSS attempts in body', async () => {
     req.body = { name: '<script>alert("xss")</script>' };
     
-    abuseDetection(req as Request, res as Response, next);
+    await abuseDetection(req as Request, res as Response, next);
     
     expect(res.status).toHaveBeenCalledWith(400);
     expect(res.json).toHaveBeenCalledWith({
@@ -182,10 +186,10 @@ describe('Abuse Detection', () => {
     });
   });
 
-  it('should detect SQL injection attempts in query', () => {
+  it('should detect SQL injection attempts in query', async () => {
     req.query = { search: "1' UNION SELECT * FROM users --" };
     
-    abuseDetection(req as Request, res as Response, next);
+    await abuseDetection(req as Request, res as Response, next);
     
     expect(res.status).toHaveBeenCalledWith(400);
     expect(res.json).toHaveBeenCalledWith({
@@ -198,26 +202,26 @@ describe('Abuse Detection', () => {
     });
   });
 
-  it('should detect path traversal attempts in params', () => {
+  it('should detect path traversal attempts in params', async () => {
     req.params = { file: '../../../etc/passwd' };
     
-    abuseDetection(req as Request, res as Response, next);
+    await abuseDetection(req as Request, res as Response, next);
     
     expect(res.status).toHaveBeenCalledWith(400);
   });
 
-  it('should detect JavaScript injection in headers', () => {
+  it('should detect JavaScript injection in headers', async () => {
     req.headers = { 'x-custom': 'javascript:alert("xss")' };
     
-    abuseDetection(req as Request, res as Response, next);
+    await abuseDetection(req as Request, res as Response, next);
     
     expect(res.status).toHaveBeenCalledWith(400);
   });
 
-  it('should detect eval attempts', () => {
+  it('should detect eval attempts', async () => {
     req.body = { code: 'eval("malicious code")' };
     
-    abuseDetection(req as Request, res as Response, next);
+    await abuseDetection(req as Request, res as Response, next);
     
     expect(res.status).toHaveBeenCalledWith(400);
   });
@@ -363,3 +367,213 @@ describe('Request Size Limiter', () => {
     expect(res.status).not.toHaveBeenCalled();
   });
 });
+
+describe('Rate limit algorithms', () => {
+  // An hour boundary, so windows line up with the test clock
+  const start = 1_800_000_000_000;
+  let now: number;
+  let store: MemoryRateLimitStore;
+
+  const limiter = (config: Omit<RateLimitConfig, 'name' | 'store'>) =>
+    new RateLimiter({ name: 'test', store, ...config });
+
+  // Status of one request through the limiter: 200 when it was let through
+  const hit = async (rateLimiter: RateLimiter, user?: string) => {
+    const req = { ip: '127.0.0.1', path: '/test', method: 'POST', get: jest.fn(), user: user ? { userId: user } : undefined };
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis(), set: jest.fn().mockReturnThis() };
+    const next = jest.fn();
+    await rateLimiter.middleware(req as unknown as Request, res as unknown as Response, next);
+    return { status: next.mock.calls.length ? 200 : res.status.mock.calls[0]?.[0], headers: res.set.mock.calls[0]?.[0] };
+  };
+
+  const hits = async (rateLimiter: RateLimiter, count: number) => {
+    const statuses: number[] = [];
+    for (let i = 0; i < count; i++) {
+      statuses.push((await hit(rateLimiter)).status);
+    }
+    return statuses;
+  };
+
+  beforeEach(() => {
+    now = start;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    store = new MemoryRateLimitStore();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await store.close();
+  });
+
+  it('weighs the previous window in a sliding window', async () => {
+    const rateLimiter = limiter({ algorithm: 'sliding-window', windowMs: 1000, maxRequests: 10 });
+
+    expect(await hits(rateLimiter, 11)).toEqual([...Array(10).fill(200), 429]);
+
+    // Halfway through the next window half of the previous one still counts
+    now = start + 1500;
+    expect(await hits(rateLimiter, 6)).toEqual([...Array(5).fill(200), 429]);
+
+    // Two windows on, the earlier requests have slid out
+    now = start + 3000;
+    expect(await hits(rateLimiter, 10)).toEqual(Array(10).fill(200));
+  });
+
+  it('allows bursts from a token bucket and refills it evenly', async () => {
+    const rateLimiter = limiter({ algorithm: 'token-bucket', windowMs: 1000, maxRequests: 5 });
+
+    expect(await hits(rateLimiter, 5)).toEqual(Array(5).fill(200));
+    const rejected = await hit(rateLimiter);
+    expect(rejected.status).toBe(429);
+    expect(rejected.headers).toMatchObject({ 'Retry-After': '1', 'X-RateLimit-Remaining': '0' });
+
+    // One token comes back every 200ms
+    now = start + 400;
+    expect(await hits(rateLimiter, 3)).toEqual([200, 200, 429]);
+
+    now = start + 5000;
+    expect(await hits(rateLimiter, 6)).toEqual([...Array(5).fill(200), 429]);
+  });
+
+  it('counts authenticated requests per user rather than per IP', async () => {
+    const rateLimiter = limiter({ windowMs: 60000, maxRequests: 2 });
+
+    expect((await hit(rateLimiter, 'user-a')).status).toBe(200);
+    expect((await hit(rateLimiter, 'user-a')).status).toBe(200);
+    expect((await hit(rateLimiter, 'user-a')).status).toBe(429);
+    expect((await hit(rateLimiter, 'user-b')).status).toBe(200);
+    expect((await hit(rateLimiter)).status).toBe(200);
+  });
+
+  it.each(['fixed-window', 'sliding-window', 'token-bucket'] as const)('gives back requests it is told to skip (%s)', async (algorithm) => {
+    // Status of one request that the route answers with `status`
+    const respond = async (rateLimiter: RateLimiter, status: number) => {
+      const req = { ip: '127.0.0.1', path: '/login', method: 'POST', get: jest.fn() };
+      const res = Object.assign(new EventEmitter(), {
+        statusCode: 200,
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis()
+      });
+      const next = jest.fn();
+      await rateLimiter.middleware(req as unknown as Request, res as unknown as Response, next);
+      if (!next.mock.calls.length) {
+        return res.status.mock.calls[0]?.[0];
+      }
+      res.statusCode = status;
+      res.emit('finish');
+      await new Promise(resolve => setImmediate(resolve));
+      return status;
+    };
+
+    const failedOnly = limiter({ algorithm, windowMs: 60000, maxRequests: 2, skipSuccessfulRequests: true });
+    expect(await respond(failedOnly, 200)).toBe(200);
+    expect(await respond(failedOnly, 200)).toBe(200);
+    expect(await respond(failedOnly, 200)).toBe(200);
+    expect(await respond(failedOnly, 401)).toBe(401);
+    expect(await respond(failedOnly, 401)).toBe(401);
+    expect(await respond(failedOnly, 200)).toBe(429);
+
+    await store.close();
+    store = new MemoryRateLimitStore();
+    const successfulOnly = limiter({ algorithm, windowMs: 60000, maxRequests: 2, skipFailedRequests: true });
+    expect(await respond(successfulOnly, 500)).toBe(500);
+    expect(await respond(successfulOnly, 404)).toBe(404);
+    expect(await respond(successfulOnly, 201)).toBe(201);
+    expect(await respond(successfulOnly, 201)).toBe(201);
+    expect(await respond(successfulOnly, 201)).toBe(429);
+  });
+
+  it('lets requests through when the store is unavailable', async () => {
+    const rateLimiter = limiter({ windowMs: 60000, maxRequests: 1 });
+    jest.spyOn(store, 'increment').mockRejectedValue(new Error('Redis connection closed'));
+
+    expect(await hits(rateLimiter, 3)).toEqual([200, 200, 200]);
+  });
+
+  describe('with replicas sharing a Redis server', () => {
+    let standIn: RedisStandIn;
+    let replicas: RedisRateLimitStore[];
+
+    beforeEach(async () => {
+      jest.restoreAllMocks();
+      standIn = await startRedisStandIn();
+      replicas = [new RedisRateLimitStore(new RedisClient(standIn.url)), new RedisRateLimitStore(new RedisClient(standIn.url))];
+    });
+
+    afterEach(async () => {
+      await Promise.all(replicas.map(replica => replica.close()));
+      await standIn.close();
+    });
+
+    it.each(['fixed-window', 'sliding-window', 'token-bucket'] as const)('enforces one %s limit between them', async (algorithm) => {
+      const [first, second] = replicas.map(replicaStore =>
+        new RateLimiter({ name: 'upload', store: replicaStore, algorithm, windowMs: 60000, maxRequests: 6 }));
+
+      const statuses = await Promise.all(Array.from({ length: 8 }, (_, i) => hit(i % 2 ? first! : second!, 'user-a')));
+
+      expect(statuses.filter(({ status }) => status === 200)).toHaveLength(6);
+      expect(statuses.filter(({ status }) => status === 429)).toHaveLength(2);
+    });
+  });
+});
+
+describe('Abuse bans', () => {
+  let now: number;
+  let store: MemoryRateLimitStore;
+
+  const request = async (middleware: ReturnType<typeof createAbuseDetection>, ip: string, body: Record<string, unknown>) => {
+    const req = { ip, url: '/test', method: 'POST', get: jest.fn(), body, query: {}, params: {}, headers: {} };
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis(), set: jest.fn().mockReturnThis() };
+    const next = jest.fn();
+    await middleware(req as unknown as Request, res as unknown as Response, next);
+    return next.mock.calls.length ? { status: 200 } : { status: res.status.mock.calls[0]?.[0], body: res.json.mock.calls[0]?.[0] };
+  };
+
+  beforeEach(() => {
+    now = 1_800_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    store = new MemoryRateLimitStore();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await store.close();
+  });
+
+  it('bans an IP that keeps sending suspicious requests, for longer each time', async () => {
+    const detection = createAbuseDetection({ store, banThreshold: 2, banDurationMs: 60000 });
+    const attack = { name: '<script>alert(1)</script>' };
+
+    expect((await request(detection, '203.0.113.7', attack)).status).toBe(400);
+    expect(await request(detection, '203.0.113.7', attack)).toEqual({
+      status: 403,
+      body: { success: false, error: { message: 'Access temporarily denied', code: 'IP_BANNED', statusCode: 403, retryAfter: 60 } }
+    });
+
+    // Banned even for harmless requests, other IPs unaffected
+    expect((await request(detection, '203.0.113.7', { name: 'Jane' })).status).toBe(403);
+    expect((await request(detection, '198.51.100.2', { name: 'Jane' })).status).toBe(200);
+
+    now += 60000;
+    expect((await request(detection, '203.0.113.7', { name: 'Jane' })).status).toBe(200);
+
+    await request(detection, '203.0.113.7', attack);
+    expect((await request(detection, '203.0.113.7', attack)).body.error.retryAfter).toBe(120);
+  });
+
+  it('does not mistake an ellipsis for path traversal', async () => {
+    const detection = createAbuseDetection({ store });
+
+    expect((await request(detection, '203.0.113.7', { description: 'Candidate hesitated... then looked away' })).status).toBe(200);
+    expect((await request(detection, '203.0.113.7', { file: '..\\..\\windows\\win.ini' })).status).toBe(400);
+  });
+
+  it('forgets strikes outside the strike window', async () => {
+    const detection = createAbuseDetection({ store, banThreshold: 2, strikeWindowMs: 1000 });
+
+    expect((await request(detection, '203.0.113.7', { q: '../etc' })).status).toBe(400);
+    now += 1000;
+    expect((await request(detection, '203.0.113.7', { q: '../etc' })).status).toBe(400);
+  });
+});
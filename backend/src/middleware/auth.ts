@@ -1,33 +1,63 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 import * as jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
 import { User, UserDocument } from '../models';
+import { TokenService } from '../services/tokenService';
+import { MediaLinkService } from '../services/mediaLinkService';
 import { ApiResponse, UserRole, JWTPayload } from '../types';
+import { runWithTenant } from '../utils/tenantContext';
+import { RateLimiter } from './rateLimiter';
 
 // Extend Express Request interface to include user
 declare global {
   namespace Express {
     interface Request {
       user?: UserDocument;
+      // Verified access token the user authenticated with
+      auth?: JWTPayload;
     }
   }
 }
 
 // JWT secret from environment variables
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '24h';
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
 
 /**
- * Generate JWT token for user
+ * Lifetime in seconds of a duration given as seconds or as a number followed by s, m, h or d
  */
-export const generateToken = (user: UserDocument): string => {
+const parseDuration = (value: string): number | null => {
+  const match = /^(\d+)\s*([smhd]?)$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const unit = { '': 1, s: 1, m: 60, h: 3600, d: 86400 }[match[2] as '' | 's' | 'm' | 'h' | 'd'];
+  return Number(match[1]) * unit;
+};
+
+const configuredTtl = parseDuration(JWT_EXPIRES_IN);
+if (configuredTtl === null) {
+  console.warn(`Invalid JWT_EXPIRES_IN "${JWT_EXPIRES_IN}", using 15m`);
+}
+
+// Access tokens are short-lived; clients keep their session with a refresh token
+export const ACCESS_TOKEN_TTL_SECONDS = configuredTtl ?? 15 * 60;
+
+/**
+ * Generate JWT access token for user, tied to the sign-in (refresh token family) it was issued to
+ */
+export const generateToken = (user: UserDocument, familyId?: string): string => {
   const payload = {
     userId: user.userId,
     email: user.email,
-    role: user.role
+    role: user.role,
+    organizationId: user.organizationId,
+    ...(familyId ? { sid: familyId } : {})
   };
 
   const options: jwt.SignOptions = {
-    expiresIn: '24h'
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    jwtid: uuidv4()
   };
 
   return jwt.sign(payload, JWT_SECRET as string, options);
@@ -38,12 +68,28 @@ export const generateToken = (user: UserDocument): string => {
  */
 export const verifyToken = (token: string): JWTPayload => {
   try {
-    return jwt.verify(token, JWT_SECRET as string) as JWTPayload;
+    const decoded = jwt.verify(token, JWT_SECRET as string) as JWTPayload & jwt.JwtPayload;
+    // Access tokens carry no audience; one that does was issued for something else
+    if (decoded.aud !== undefined) {
+      throw new Error('Not an access token');
+    }
+    return decoded;
   } catch (error) {
     throw new Error('Invalid or expired token');
   }
 };
 
+/**
+ * Scope the rest of the request to the user's organization.
+ * Super admins are not scoped and can work across organizations.
+ */
+const continueAsTenant = (user: UserDocument, next: NextFunction): void => {
+  runWithTenant({
+    organizationId: user.organizationId,
+    crossTenant: user.role === UserRole.SUPER_ADMIN
+  }, () => next());
+};
+
 /**
  * Authentication middleware - verifies JWT token and attaches user to request
  */
@@ -65,6 +111,15 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
     // Verify token
     const decoded = verifyToken(token);
 
+    if (await TokenService.isRevoked(decoded)) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Token has been revoked.'
+      };
+      res.status(401).json(response);
+      return;
+    }
+
     // Find user in database
     const user = await User.findOne({ 
       userId: decoded.userId, 
@@ -82,7 +137,8 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
 
     // Attach user to request object
     req.user = user;
-    next();
+    req.auth = decoded;
+    continueAsTenant(user, next);
   } catch (error) {
     const response: ApiResponse = {
       success: false,
@@ -106,7 +162,11 @@ export const authorize = (...roles: UserRole[]) => {
       return;
     }
 
-    if (!roles.includes(req.user.role)) {
+    // Super admins pass any check that admits organization admins
+    const allowed = roles.includes(req.user.role) ||
+      (req.user.role === UserRole.SUPER_ADMIN && roles.includes(UserRole.ADMIN));
+
+    if (!allowed) {
       const response: ApiResponse = {
         success: false,
         error: 'Access denied. Insufficient permissions.'
@@ -129,13 +189,16 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
       const token = authHeader.substring(7);
       const decoded = verifyToken(token);
       
-      const user = await User.findOne({ 
+      const user = await TokenService.isRevoked(decoded) ? null : await User.findOne({ 
         userId: decoded.userId, 
         isActive: true 
       });
 
       if (user) {
         req.user = user;
+        req.auth = decoded;
+        continueAsTenant(user, next);
+        return;
       }
     }
     next();
@@ -145,6 +208,38 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
   }
 };
 
+/**
+ * For media URLs the browser opens directly (video players, image tags, plain links), which
+ * cannot send an Authorization header: a valid link from MediaLinkService stands in for
+ * `checks`, which were made when the link was issued. Requests without one go through them.
+ */
+export const signedMediaLinkOr = (...checks: RequestHandler[]) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const { expires, signature } = req.query;
+    if (typeof signature === 'string') {
+      if (MediaLinkService.verify(`${req.baseUrl}${req.path}`, Number(expires), signature)) {
+        next();
+        return;
+      }
+      const response: ApiResponse = {
+        success: false,
+        error: 'Media link is invalid or has expired'
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    const run = (index: number, error?: unknown): void => {
+      const check = checks[index];
+      if (error || !check) {
+        next(error);
+        return;
+      }
+      check(req, res, (err?: unknown) => run(index + 1, err));
+    };
+    run(0);
+  };
+
 /**
  * Middleware to check if user can access specific session
  */
@@ -162,7 +257,7 @@ export const canAccessSession = (req: Request, res: Response, next: NextFunction
   const { candidateId } = req.query;
 
   // Admins can access any session
-  if (req.user.role === UserRole.ADMIN) {
+  if (req.user.role === UserRole.ADMIN || req.user.role === UserRole.SUPER_ADMIN) {
     next();
     return;
   }
@@ -189,40 +284,19 @@ export const canAccessSession = (req: Request, res: Response, next: NextFunction
 };
 
 /**
- * Rate limiting middleware for authentication endpoints
+ * Rate limiting middleware for authentication endpoints, counted per client IP and endpoint
+ * in the store shared by every replica
  */
-export const authRateLimit = (maxAttempts: number = 5, windowMs: number = 15 * 60 * 1000) => {
-  const attempts = new Map<string, { count: number; resetTime: number }>();
-
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const clientId = req.ip || req.connection.remoteAddress || 'unknown';
-    const now = Date.now();
-
-    // Clean up expired entries
-    for (const [key, value] of attempts.entries()) {
-      if (now > value.resetTime) {
-        attempts.delete(key);
-      }
-    }
-
-    const clientAttempts = attempts.get(clientId);
-
-    if (!clientAttempts) {
-      attempts.set(clientId, { count: 1, resetTime: now + windowMs });
-      next();
-      return;
-    }
-
-    if (clientAttempts.count >= maxAttempts) {
-      const response: ApiResponse = {
-        success: false,
-        error: 'Too many authentication attempts. Please try again later.'
-      };
-      res.status(429).json(response);
-      return;
-    }
-
-    clientAttempts.count++;
-    next();
-  };
-};
\ No newline at end of file
+export const authRateLimit = (maxAttempts: number = 5, windowMs: number = 15 * 60 * 1000) => new RateLimiter({
+  name: 'auth-attempts',
+  windowMs,
+  maxRequests: maxAttempts,
+  keyGenerator: (req: Request) => `${req.ip || 'unknown'}:${req.baseUrl}${req.path}`,
+  handler: (_req: Request, res: Response) => {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Too many authentication attempts. Please try again later.'
+    };
+    res.status(429).json(response);
+  }
+}).middleware;
@@ -67,6 +67,24 @@ export class ConflictError extends CustomError {
   }
 }
 
+// A chunk or assembled upload whose SHA-256 differs from the one the client sent (status from the tus checksum extension)
+export class ChecksumMismatchError extends CustomError {
+  constructor(message: string = 'Checksum mismatch') {
+    super(message, 460);
+    this.name = 'ChecksumMismatchError';
+    this.code = 'CHECKSUM_MISMATCH';
+  }
+}
+
+// Joining a scheduled session before its window opens (403) or after it closed (410)
+export class JoinWindowError extends CustomError {
+  constructor(message: string, closed: boolean) {
+    super(message, closed ? 410 : 403);
+    this.name = 'JoinWindowError';
+    this.code = closed ? 'JOIN_WINDOW_CLOSED' : 'JOIN_WINDOW_NOT_OPEN';
+  }
+}
+
 export class RateLimitError extends CustomError {
   constructor(message: string = 'Too many requests') {
     super(message, 429);
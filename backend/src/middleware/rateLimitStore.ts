@@ -0,0 +1,201 @@
+import { RedisArgument, RedisClient, RedisReply, RedisSend } from '../utils/redisClient';
+
+export const RATE_LIMIT_STORES = ['memory', 'redis'] as const;
+export type RateLimitStoreName = typeof RATE_LIMIT_STORES[number];
+
+export interface CounterState {
+  count: number;
+  // When the counter (and with it the window) expires, in ms since the epoch
+  expiresAt: number;
+}
+
+/**
+ * Where rate limit counters, token buckets and IP bans are kept. Every operation is atomic
+ * on its own, so replicas sharing a store enforce one limit between them.
+ */
+export interface RateLimitStore {
+  readonly name: RateLimitStoreName;
+
+  // Adds `by` to a counter that expires windowMs after it was created
+  increment(key: string, windowMs: number, by?: number): Promise<CounterState>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  // Writes value only if the key still holds `expected` (null: absent); false when another writer got there first
+  compareAndSet(key: string, expected: string | null, value: string, ttlMs: number): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Per-process store. Limits are enforced per replica and forgotten on restart.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private readonly entries = new Map<string, { value: string; expiresAt: number }>();
+  private readonly cleanupInterval: NodeJS.Timeout;
+
+  constructor(cleanupIntervalMs: number = 60000) {
+    this.cleanupInterval = setInterval(() => this.cleanup(), cleanupIntervalMs);
+    this.cleanupInterval.unref();
+  }
+
+  async increment(key: string, windowMs: number, by: number = 1): Promise<CounterState> {
+    const now = Date.now();
+    let entry = this.live(key, now);
+    if (!entry) {
+      entry = { value: '0', expiresAt: now + windowMs };
+      this.entries.set(key, entry);
+    }
+    entry.value = String(Number(entry.value) + by);
+    return { count: Number(entry.value), expiresAt: entry.expiresAt };
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.live(key, Date.now())?.value ?? null;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async compareAndSet(key: string, expected: string | null, value: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    if ((this.live(key, now)?.value ?? null) !== expected) {
+      return false;
+    }
+    this.entries.set(key, { value, expiresAt: now + ttlMs });
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.cleanupInterval);
+    this.entries.clear();
+  }
+
+  private live(key: string, now: number) {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Store shared by every replica through a Redis server. Transactions use plain commands
+ * (MULTI/EXEC, WATCH for compare-and-set) rather than scripts, so any server speaking the
+ * Redis protocol works.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis';
+
+  constructor(private readonly client: RedisClient, private readonly keyPrefix: string = 'ratelimit:') {}
+
+  async increment(key: string, windowMs: number, by: number = 1): Promise<CounterState> {
+    const prefixed = this.keyPrefix + key;
+    // Written in one go, so EXEC closes the transaction whatever else shares the connection;
+    // a command refused while queueing makes EXEC fail too
+    const replies = await this.client.pipeline([
+      ['MULTI'],
+      // Creates the counter with its expiry, or leaves an existing one (and its expiry) alone
+      ['SET', prefixed, 0, 'PX', windowMs, 'NX'],
+      ['INCRBY', prefixed, by],
+      ['PTTL', prefixed],
+      ['EXEC']
+    ]);
+    const [, count, ttlMs] = this.execResult(replies[replies.length - 1] ?? null);
+    return { count: Number(count), expiresAt: Date.now() + Math.max(0, Number(ttlMs)) };
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.client.command('GET', this.keyPrefix + key);
+    return typeof value === 'string' ? value : null;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.command('SET', this.keyPrefix + key, value, 'PX', Math.max(1, Math.ceil(ttlMs)));
+  }
+
+  async compareAndSet(key: string, expected: string | null, value: string, ttlMs: number): Promise<boolean> {
+    const prefixed = this.keyPrefix + key;
+    return this.client.exclusive(async (send) => {
+      await send('WATCH', prefixed);
+      const current = await send('GET', prefixed);
+      if ((typeof current === 'string' ? current : null) !== expected) {
+        await send('UNWATCH');
+        return false;
+      }
+      // A null reply means the watched key changed in between
+      return (await this.transaction(send, [['SET', prefixed, value, 'PX', Math.max(1, Math.ceil(ttlMs))]])) !== null;
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.command('DEL', this.keyPrefix + key);
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+
+  private async transaction(send: RedisSend, commands: RedisArgument[][]): Promise<RedisReply> {
+    const queued = await Promise.allSettled([send('MULTI'), ...commands.map(command => send(...command))]);
+    const failed = queued.find(reply => reply.status === 'rejected');
+    if (failed) {
+      // Leave the connection out of MULTI for whoever uses it next
+      await send('DISCARD').catch(() => undefined);
+      throw failed.reason;
+    }
+    return send('EXEC');
+  }
+
+  private execResult(replies: RedisReply): RedisReply[] {
+    if (!Array.isArray(replies)) {
+      throw new Error('Redis transaction was aborted');
+    }
+    const failed = replies.find(reply => reply instanceof Error);
+    if (failed) {
+      throw failed;
+    }
+    return replies;
+  }
+}
+
+let sharedStore: RateLimitStore | undefined;
+
+/**
+ * Store used by the rate limiters and abuse detection, chosen with RATE_LIMIT_STORE.
+ * Without it, Redis is used when REDIS_URL is set and process memory otherwise.
+ */
+export const rateLimitStore = (): RateLimitStore => {
+  if (sharedStore) {
+    return sharedStore;
+  }
+  const configured = process.env.RATE_LIMIT_STORE?.trim().toLowerCase() || (process.env.REDIS_URL ? 'redis' : 'memory');
+  if (!(RATE_LIMIT_STORES as readonly string[]).includes(configured)) {
+    throw new Error(`Unknown RATE_LIMIT_STORE "${configured}"; expected one of ${RATE_LIMIT_STORES.join(', ')}`);
+  }
+  if (configured === 'redis') {
+    if (!process.env.REDIS_URL) {
+      throw new Error('The redis rate limit store requires REDIS_URL');
+    }
+    sharedStore = new RedisRateLimitStore(new RedisClient(process.env.REDIS_URL));
+  } else {
+    sharedStore = new MemoryRateLimitStore();
+  }
+  return sharedStore;
+};
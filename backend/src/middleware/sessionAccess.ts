@@ -0,0 +1,69 @@
+import { Request, Response, NextFunction } from 'express';
+import { SessionAccessService, SessionActor, SessionPermission } from '../services/sessionAccessService';
+import { ApiResponse } from '../types';
+
+type AccessCheck = (actor: SessionActor, req: Request) => Promise<unknown>;
+
+/**
+ * Run an access check for the authenticated user, answering 401/403/404 on failure
+ */
+const guard = (check: AccessCheck) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Authentication required.'
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    try {
+      await check(req.user, req);
+      next();
+    } catch (error) {
+      const statusCode = (error as any)?.statusCode || 500;
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to check session access'
+      };
+      res.status(statusCode).json(response);
+    }
+  };
+};
+
+/**
+ * Require a permission on the session named by req.params.sessionId (or req.body.sessionId)
+ */
+export const requireSessionAccess = (permission: SessionPermission, source: 'params' | 'body' = 'params') =>
+  guard((actor, req) => SessionAccessService.authorizeSession(actor, String(req[source]?.sessionId), permission));
+
+/**
+ * Require a permission on the session a report (req.params.reportId) belongs to
+ */
+export const requireReportAccess = (permission: SessionPermission) =>
+  guard((actor, req) => SessionAccessService.authorizeReport(actor, String(req.params.reportId), permission));
+
+/**
+ * Require a permission on the session a manual observation (req.params.observationId) belongs to
+ */
+export const requireObservationAccess = (permission: SessionPermission) =>
+  guard((actor, req) => SessionAccessService.authorizeObservation(actor, String(req.params.observationId), permission));
+
+/**
+ * Require a permission on the session a recording (req.params.videoId) belongs to
+ */
+export const requireVideoAccess = (permission: SessionPermission) =>
+  guard((actor, req) => SessionAccessService.authorizeVideo(actor, String(req.params.videoId), permission));
+
+/**
+ * Require a permission on the recording a transcode job (req.params.jobId) belongs to
+ */
+export const requireTranscodeJobAccess = (permission: SessionPermission) =>
+  guard((actor, req) => SessionAccessService.authorizeTranscodeJob(actor, String(req.params.jobId), permission));
+
+/**
+ * Require upload rights on the session a recording upload (req.params.uploadId) belongs to
+ */
+export const requireUploadAccess = () =>
+  guard((actor, req) => SessionAccessService.authorizeUpload(actor, String(req.params.uploadId)));
\ No newline at end of file
@@ -24,6 +24,7 @@ export const commonSchemas = {
     'background-voice',
     'multiple-voices',
     'excessive-noise',
+    'identity-mismatch',
     'face_detection',
     'object_detection',
     'inactivity',
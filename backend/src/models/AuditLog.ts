@@ -0,0 +1,186 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { AuditAction } from '../types';
+import { tenantScope } from './plugins/tenantScope';
+
+export type AuditChannel = 'http' | 'websocket';
+export type AuditTargetType = 'observation' | 'session' | 'report' | 'candidate' | 'user' | 'organization';
+
+// One interviewer or admin action. Entries are append-only and hash-chained per organization.
+export interface AuditLog {
+  entryId: string;
+  // Position in the organization's chain, starting at 1
+  sequence: number;
+  // Hash of the entry before this one; all zeros for the first entry
+  previousHash: string;
+  // SHA-256 over this entry's fields and previousHash
+  hash: string;
+  timestamp: Date;
+  actorId: string;
+  actorRole: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  sessionId?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  ip?: string;
+  userAgent?: string;
+  channel: AuditChannel;
+}
+
+// Extend the interface to include MongoDB document properties
+export interface AuditLogDocument extends AuditLog, Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId?: string;
+}
+
+// Audit Log Schema
+const AuditLogSchema = new Schema<AuditLogDocument>({
+  entryId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    validate: {
+      validator: function(v: string) {
+        // UUID v4 validation regex
+        return /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+      },
+      message: 'entryId must be a valid UUID'
+    }
+  },
+  sequence: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  previousHash: {
+    type: String,
+    required: true,
+    match: /^[0-9a-f]{64}$/
+  },
+  hash: {
+    type: String,
+    required: true,
+    match: /^[0-9a-f]{64}$/
+  },
+  timestamp: {
+    type: Date,
+    required: true
+  },
+  actorId: {
+    type: String,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  actorRole: {
+    type: String,
+    required: true
+  },
+  action: {
+    type: String,
+    enum: Object.values(AuditAction),
+    required: true
+  },
+  targetType: {
+    type: String,
+    enum: ['observation', 'session', 'report', 'candidate', 'user', 'organization'],
+    required: true
+  },
+  targetId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  sessionId: {
+    type: String,
+    required: false,
+    index: true
+  },
+  before: {
+    type: Schema.Types.Mixed,
+    required: false
+  },
+  after: {
+    type: Schema.Types.Mixed,
+    required: false
+  },
+  ip: {
+    type: String,
+    required: false
+  },
+  userAgent: {
+    type: String,
+    required: false,
+    maxlength: 500
+  },
+  channel: {
+    type: String,
+    enum: ['http', 'websocket'],
+    required: true
+  }
+}, {
+  collection: 'audit_logs',
+  // Mixed before/after values keep empty objects, so the hash input survives a round trip
+  minimize: false
+});
+
+AuditLogSchema.plugin(tenantScope);
+
+// One entry per position in each organization's chain; a concurrent append loses and retries
+AuditLogSchema.index({ organizationId: 1, sequence: 1 }, { unique: true });
+AuditLogSchema.index({ organizationId: 1, timestamp: -1 });
+AuditLogSchema.index({ action: 1, timestamp: -1 });
+
+// The log is append-only: reject every update and delete, and saves of existing entries
+const appendOnly = (): never => {
+  throw new Error('Audit log entries cannot be modified or deleted');
+};
+
+for (const hook of [
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'replaceOne',
+  'findOneAndReplace',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete'
+] as const) {
+  AuditLogSchema.pre(hook, appendOnly);
+}
+
+AuditLogSchema.pre('deleteOne', { document: true, query: false }, appendOnly);
+
+AuditLogSchema.pre('save', function() {
+  if (!this.isNew) {
+    appendOnly();
+  }
+});
+
+// Instance methods
+AuditLogSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+AuditLogSchema.statics.findByEntryId = function(entryId: string) {
+  return this.findOne({ entryId });
+};
+
+// Last entry of an organization's chain; entries made outside any organization form their own chain
+AuditLogSchema.statics.findChainHead = function(organizationId: string | undefined) {
+  return this.findOne({ organizationId: organizationId ?? null }).sort({ sequence: -1 });
+};
+
+// Add interface for static methods
+interface AuditLogModel extends mongoose.Model<AuditLogDocument> {
+  findByEntryId(entryId: string): mongoose.Query<AuditLogDocument | null, AuditLogDocument>;
+  findChainHead(organizationId: string | undefined): mongoose.Query<AuditLogDocument | null, AuditLogDocument>;
+}
+
+// Create and export the model
+export const AuditLog = mongoose.model<AuditLogDocument, AuditLogModel>('AuditLog', AuditLogSchema);
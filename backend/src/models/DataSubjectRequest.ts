@@ -0,0 +1,147 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScope } from './plugins/tenantScope';
+
+export type DataSubjectRequestType = 'export' | 'erasure';
+export type ErasureMode = 'anonymize' | 'delete';
+
+// Records found (export) or erased (erasure) per kind of data
+export interface DataSubjectCounts {
+  users: number;
+  sessions: number;
+  events: number;
+  observations: number;
+  reports: number;
+  recordings: number;
+  identityReferences: number;
+  invitations: number;
+}
+
+// Completion log entry for a candidate's access or erasure request
+export interface DataSubjectRequest {
+  requestId: string;
+  candidateId: string;
+  type: DataSubjectRequestType;
+  mode?: ErasureMode;
+  requestedBy: string;
+  startedAt: Date;
+  completedAt: Date;
+  counts: DataSubjectCounts;
+  // Items that could not be handled (e.g. a recording the storage backend refused to delete)
+  failures: string[];
+  // SHA-256 of the export archive handed out
+  archiveSha256?: string;
+  // SHA-256 over the fields above, so later edits to the entry can be detected
+  digest: string;
+}
+
+// Extend the interface to include MongoDB document properties
+export interface DataSubjectRequestDocument extends DataSubjectRequest, Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const countField = { type: Number, min: 0, default: 0 };
+
+// Data Subject Request Schema
+const DataSubjectRequestSchema = new Schema<DataSubjectRequestDocument>({
+  requestId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    validate: {
+      validator: function(v: string) {
+        // UUID v4 validation regex
+        return /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+      },
+      message: 'requestId must be a valid UUID'
+    }
+  },
+  candidateId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  type: {
+    type: String,
+    enum: ['export', 'erasure'],
+    required: true
+  },
+  mode: {
+    type: String,
+    enum: ['anonymize', 'delete'],
+    required: false
+  },
+  requestedBy: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  completedAt: {
+    type: Date,
+    required: true
+  },
+  counts: {
+    users: countField,
+    sessions: countField,
+    events: countField,
+    observations: countField,
+    reports: countField,
+    recordings: countField,
+    identityReferences: countField,
+    invitations: countField
+  },
+  failures: {
+    type: [String],
+    default: []
+  },
+  archiveSha256: {
+    type: String,
+    required: false,
+    match: /^[0-9a-f]{64}$/
+  },
+  digest: {
+    type: String,
+    required: true,
+    match: /^[0-9a-f]{64}$/
+  }
+}, {
+  timestamps: true,
+  collection: 'data_subject_requests'
+});
+
+// Requests are logged in the organization the candidate belongs to
+DataSubjectRequestSchema.plugin(tenantScope);
+
+DataSubjectRequestSchema.index({ candidateId: 1, startedAt: -1 });
+
+// Instance methods
+DataSubjectRequestSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+DataSubjectRequestSchema.statics.findByRequestId = function(requestId: string) {
+  return this.findOne({ requestId });
+};
+
+DataSubjectRequestSchema.statics.findByCandidate = function(candidateId: string) {
+  return this.find({ candidateId }).sort({ startedAt: -1 });
+};
+
+// Add interface for static methods
+interface DataSubjectRequestModel extends mongoose.Model<DataSubjectRequestDocument> {
+  findByRequestId(requestId: string): mongoose.Query<DataSubjectRequestDocument | null, DataSubjectRequestDocument>;
+  findByCandidate(candidateId: string): mongoose.Query<DataSubjectRequestDocument[], DataSubjectRequestDocument>;
+}
+
+// Create and export the model
+export const DataSubjectRequest = mongoose.model<DataSubjectRequestDocument, DataSubjectRequestModel>('DataSubjectRequest', DataSubjectRequestSchema);
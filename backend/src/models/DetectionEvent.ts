@@ -1,9 +1,11 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScope } from './plugins/tenantScope';
 import { DetectionEvent as IDetectionEvent, EventType, UnauthorizedItemType } from '../types';
 
 // Extend the interface to include MongoDB document properties
 export interface DetectionEventDocument extends IDetectionEvent, Document {
   _id: mongoose.Types.ObjectId;
+  organizationId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -133,6 +135,9 @@ const DetectionEventSchema = new Schema<DetectionEventDocument>({
   collection: 'detection_events'
 });
 
+// Events inherit the organization of the request that logged them
+DetectionEventSchema.plugin(tenantScope);
+
 // Compound indexes for efficient queries
 DetectionEventSchema.index({ sessionId: 1, timestamp: -1 });
 DetectionEventSchema.index({ candidateId: 1, eventType: 1 });
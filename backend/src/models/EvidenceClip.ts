@@ -0,0 +1,128 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScope } from './plugins/tenantScope';
+import { EventType } from '../types';
+
+// Evidence Clip interface (a short cut of the recording around one detection event)
+export interface EvidenceClip {
+  clipId: string;
+  videoId: string;
+  sessionId: string;
+  eventType: EventType;
+  eventTimestamp: Date;
+  // Seconds into the recording
+  offsetSeconds: number;
+  startSeconds: number;
+  durationSeconds: number;
+  clipFilename: string;
+  stillFilename: string;
+  size: number;
+}
+
+// Extend the interface to include MongoDB document properties
+export interface EvidenceClipDocument extends EvidenceClip, Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Evidence Clip Schema
+const EvidenceClipSchema = new Schema<EvidenceClipDocument>({
+  clipId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    validate: {
+      validator: function(v: string) {
+        // UUID v4 validation regex
+        return /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+      },
+      message: 'clipId must be a valid UUID'
+    }
+  },
+  videoId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  sessionId: {
+    type: String,
+    required: true,
+    index: true,
+    ref: 'InterviewSession'
+  },
+  eventType: {
+    type: String,
+    enum: Object.values(EventType),
+    required: true
+  },
+  eventTimestamp: {
+    type: Date,
+    required: true
+  },
+  offsetSeconds: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  startSeconds: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  durationSeconds: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  clipFilename: {
+    type: String,
+    required: true
+  },
+  stillFilename: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, {
+  timestamps: true,
+  collection: 'evidence_clips'
+});
+
+// Clips follow their session's organization
+EvidenceClipSchema.plugin(tenantScope);
+
+// Instance methods
+EvidenceClipSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+EvidenceClipSchema.statics.findByClipId = function(clipId: string) {
+  return this.findOne({ clipId });
+};
+
+EvidenceClipSchema.statics.findByVideoId = function(videoId: string) {
+  return this.find({ videoId }).sort({ offsetSeconds: 1 });
+};
+
+EvidenceClipSchema.statics.findBySession = function(sessionId: string) {
+  return this.find({ sessionId }).sort({ eventTimestamp: 1 });
+};
+
+// Add interface for static methods
+interface EvidenceClipModel extends mongoose.Model<EvidenceClipDocument> {
+  findByClipId(clipId: string): mongoose.Query<EvidenceClipDocument | null, EvidenceClipDocument>;
+  findByVideoId(videoId: string): mongoose.Query<EvidenceClipDocument[], EvidenceClipDocument>;
+  findBySession(sessionId: string): mongoose.Query<EvidenceClipDocument[], EvidenceClipDocument>;
+}
+
+// Create and export the model
+export const EvidenceClip = mongoose.model<EvidenceClipDocument, EvidenceClipModel>('EvidenceClip', EvidenceClipSchema);
\ No newline at end of file
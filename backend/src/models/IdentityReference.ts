@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScope } from './plugins/tenantScope';
+
+// Identity Reference interface (the interviewer-supplied photo a candidate is matched against).
+// Kept out of the session document so the candidate never receives the reference descriptor.
+export interface IdentityReference {
+  sessionId: string;
+  descriptor: number[];
+  photo?: string;
+  uploadedBy: string;
+}
+
+// Extend the interface to include MongoDB document properties
+export interface IdentityReferenceDocument extends IdentityReference, Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Identity Reference Schema
+const IdentityReferenceSchema = new Schema<IdentityReferenceDocument>({
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    ref: 'InterviewSession',
+    validate: {
+      validator: function(v: string) {
+        return /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+      },
+      message: 'sessionId must be a valid UUID'
+    }
+  },
+  descriptor: {
+    type: [Number],
+    required: true
+  },
+  // Downscaled data URL shown to interviewers next to the live video
+  photo: {
+    type: String,
+    required: false
+  },
+  uploadedBy: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: 'identity_references'
+});
+
+// References follow their session's organization
+IdentityReferenceSchema.plugin(tenantScope);
+
+// Instance methods
+IdentityReferenceSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+IdentityReferenceSchema.statics.findBySession = function(sessionId: string) {
+  return this.findOne({ sessionId });
+};
+
+// Add interface for static methods
+interface IdentityReferenceModel extends mongoose.Model<IdentityReferenceDocument> {
+  findBySession(sessionId: string): mongoose.Query<IdentityReferenceDocument | null, IdentityReferenceDocument>;
+}
+
+// Create and export the model
+export const IdentityReference = mongoose.model<IdentityReferenceDocument, IdentityReferenceModel>('IdentityReference', IdentityReferenceSchema);
\ No newline at end of file
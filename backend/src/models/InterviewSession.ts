@@ -1,21 +1,102 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { InterviewSession as IInterviewSession, SessionStatus } from '../types';
+import { tenantScope } from './plugins/tenantScope';
+import {
+  InterviewSession as IInterviewSession,
+  SessionStatus,
+  SessionEndReason,
+  SystemCheckResult,
+  SystemCheckStatus,
+  IdentityVerificationStatus,
+  IdentityVerificationSummary,
+  StorageDriverName,
+  STORAGE_DRIVERS,
+  LegalHold
+} from '../types';
 
 // Extend the interface to include MongoDB document properties
 export interface InterviewSessionDocument extends IInterviewSession, Document {
   _id: mongoose.Types.ObjectId;
   candidateEmail?: string; // Add this field to the document interface
   interviewerId?: string;
+  organizationId?: string;
   recordingPublicId?: string;
+  // Where the recording was offloaded by a remote storage driver (unset while it stays on local disk)
+  recordingStorageDriver?: StorageDriverName;
+  recordingStorageKey?: string;
   recordingUploadedAt?: Date;
+  // Wall-clock time the candidate's recorder started; maps event timestamps to playback offsets
+  recordingStartedAt?: Date;
+  // Scheduling (only set for sessions planned ahead of time)
+  scheduledStartTime?: Date;
+  joinWindowMinutes?: number;
+  maxDurationMinutes?: number;
+  // Only set when the session sweeper ended or expired the session
+  endReason?: SessionEndReason;
+  // Latest pre-interview system check reported by the candidate
+  systemCheck?: SystemCheckResult;
+  // Only set once the interviewer has uploaded a reference photo
+  identityVerification?: IdentityVerificationSummary;
+  // While set, retention purges leave the session's recording, events and reports alone
+  legalHold?: LegalHold;
+  // When the retention purge removed the recording
+  recordingPurgedAt?: Date;
+  // When the candidate's personal data was erased from the session
+  erasedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
   // instance methods
   calculateDuration: () => number;
+  getJoinWindow: () => { opensAt: Date; closesAt: Date } | null;
   endSession: () => Promise<InterviewSessionDocument>;
   terminateSession: () => Promise<InterviewSessionDocument>;
 }
 
+const checkStatus = { type: String, enum: Object.values(SystemCheckStatus), required: true };
+
+const MediaCheckSchema = new Schema({
+  permission: { type: String, enum: ['granted', 'denied', 'prompt', 'unavailable'], required: true },
+  deviceLabel: { type: String, required: false },
+  status: checkStatus
+}, { _id: false });
+
+const SystemCheckSchema = new Schema({
+  camera: { type: MediaCheckSchema, required: true },
+  microphone: { type: MediaCheckSchema, required: true },
+  frameProcessing: {
+    averageMs: { type: Number, min: 0, required: true },
+    maxAllowedMs: { type: Number, min: 0, required: true },
+    sampleCount: { type: Number, min: 0, required: true },
+    status: checkStatus
+  },
+  connection: {
+    connected: { type: Boolean, required: true },
+    latencyMs: { type: Number, min: 0, required: false },
+    status: checkStatus
+  },
+  audio: {
+    baselineNoiseLevel: { type: Number, min: 0, max: 1, required: true },
+    status: checkStatus
+  },
+  userAgent: { type: String, required: false },
+  overallStatus: checkStatus,
+  completedAt: { type: Date, required: true }
+}, { _id: false });
+
+const IdentityVerificationSchema = new Schema({
+  status: { type: String, enum: Object.values(IdentityVerificationStatus), required: true },
+  referenceUploadedAt: { type: Date, required: true },
+  lastCheckedAt: { type: Date, required: false },
+  lastSimilarity: { type: Number, min: 0, max: 1, required: false },
+  checkCount: { type: Number, min: 0, default: 0 },
+  mismatchCount: { type: Number, min: 0, default: 0 }
+}, { _id: false });
+
+const LegalHoldSchema = new Schema({
+  reason: { type: String, required: true, trim: true, maxlength: 500 },
+  placedBy: { type: String, required: true },
+  placedAt: { type: Date, required: true }
+}, { _id: false });
+
 // Interview Session Schema
 const InterviewSessionSchema = new Schema<InterviewSessionDocument>({
   interviewerId: {
@@ -111,16 +192,68 @@ const InterviewSessionSchema = new Schema<InterviewSessionDocument>({
       message: 'videoUrl must be a valid URL'
     }
   },
-  // Cloud storage metadata for recording
+  // Cloud storage metadata for recording (recordingPublicId is only set on Cloudinary uploads made before storage drivers)
   recordingPublicId: {
     type: String,
     required: false,
     index: true
   },
+  recordingStorageDriver: {
+    type: String,
+    enum: STORAGE_DRIVERS,
+    required: false
+  },
+  recordingStorageKey: {
+    type: String,
+    required: false
+  },
   recordingUploadedAt: {
     type: Date,
     required: false
   },
+  recordingStartedAt: {
+    type: Date,
+    required: false
+  },
+  scheduledStartTime: {
+    type: Date,
+    required: false
+  },
+  joinWindowMinutes: {
+    type: Number,
+    required: false,
+    min: 1
+  },
+  maxDurationMinutes: {
+    type: Number,
+    required: false,
+    min: 1
+  },
+  endReason: {
+    type: String,
+    enum: Object.values(SessionEndReason),
+    required: false
+  },
+  systemCheck: {
+    type: SystemCheckSchema,
+    required: false
+  },
+  identityVerification: {
+    type: IdentityVerificationSchema,
+    required: false
+  },
+  legalHold: {
+    type: LegalHoldSchema,
+    required: false
+  },
+  recordingPurgedAt: {
+    type: Date,
+    required: false
+  },
+  erasedAt: {
+    type: Date,
+    required: false
+  },
   status: {
     type: String,
     enum: Object.values(SessionStatus),
@@ -132,10 +265,14 @@ const InterviewSessionSchema = new Schema<InterviewSessionDocument>({
   collection: 'interview_sessions'
 });
 
+// Sessions are only visible inside their organization
+InterviewSessionSchema.plugin(tenantScope);
+
 // Indexes for efficient queries
 InterviewSessionSchema.index({ candidateId: 1, startTime: -1 });
 InterviewSessionSchema.index({ status: 1, startTime: -1 });
 InterviewSessionSchema.index({ startTime: -1 });
+InterviewSessionSchema.index({ status: 1, scheduledStartTime: 1 });
 
 // Pre-save middleware to calculate duration
 InterviewSessionSchema.pre('save', function(this: InterviewSessionDocument, next) {
@@ -160,6 +297,17 @@ InterviewSessionSchema.methods.calculateDuration = function(this: InterviewSessi
   return Math.floor((new Date().getTime() - this.startTime.getTime()) / 1000);
 };
 
+InterviewSessionSchema.methods.getJoinWindow = function(this: InterviewSessionDocument) {
+  if (!this.scheduledStartTime) {
+    return null;
+  }
+  const windowMs = (this.joinWindowMinutes || 0) * 60 * 1000;
+  return {
+    opensAt: new Date(this.scheduledStartTime.getTime() - windowMs),
+    closesAt: new Date(this.scheduledStartTime.getTime() + windowMs)
+  };
+};
+
 InterviewSessionSchema.methods.endSession = function(this: InterviewSessionDocument) {
   this.endTime = new Date();
   this.status = SessionStatus.COMPLETED;
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScope } from './plugins/tenantScope';
 
 // Manual Observation interface
 export interface ManualObservation {
@@ -10,6 +11,7 @@ export interface ManualObservation {
   description: string;
   severity: 'low' | 'medium' | 'high';
   flagged: boolean;
+  organizationId?: string;
 }
 
 // Extend the interface to include MongoDB document properties
@@ -93,6 +95,9 @@ const ManualObservationSchema = new Schema<ManualObservationDocument>({
   collection: 'manual_observations'
 });
 
+// Observations are scoped to the interviewer's organization
+ManualObservationSchema.plugin(tenantScope);
+
 // Indexes for efficient queries
 ManualObservationSchema.index({ sessionId: 1, timestamp: -1 });
 ManualObservationSchema.index({ interviewerId: 1, timestamp: -1 });
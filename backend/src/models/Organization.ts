@@ -0,0 +1,109 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { RetentionWindows, UserRole } from '../types';
+
+// Organization interface (a tenant: one business unit running its own hiring)
+export interface Organization {
+  organizationId: string;
+  name: string;
+  slug: string;
+  isActive: boolean;
+  // Legacy records created before organizations existed belong to the default one
+  isDefault: boolean;
+  // Overrides of the server's default retention windows
+  retention?: RetentionWindows;
+  // Roles whose members must use two-factor authentication to sign in
+  twoFactorRequiredRoles: UserRole[];
+}
+
+// Extend the interface to include MongoDB document properties
+export interface OrganizationDocument extends Organization, Document {
+  _id: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RetentionSchema = new Schema({
+  recordingDays: { type: Number, min: 1, required: false },
+  eventDays: { type: Number, min: 1, required: false },
+  reportDays: { type: Number, min: 1, required: false }
+}, { _id: false });
+
+// Organization Schema
+const OrganizationSchema = new Schema<OrganizationDocument>({
+  organizationId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    validate: {
+      validator: function(v: string) {
+        // UUID v4 validation regex
+        return /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+      },
+      message: 'organizationId must be a valid UUID'
+    }
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    minlength: 1,
+    maxlength: 100
+  },
+  slug: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true,
+    match: /^[a-z0-9-]+$/
+  },
+  isActive: {
+    type: Boolean,
+    required: true,
+    default: true,
+    index: true
+  },
+  isDefault: {
+    type: Boolean,
+    required: true,
+    default: false
+  },
+  retention: {
+    type: RetentionSchema,
+    required: false
+  },
+  twoFactorRequiredRoles: {
+    type: [String],
+    enum: [UserRole.INTERVIEWER, UserRole.ADMIN],
+    default: []
+  }
+}, {
+  timestamps: true,
+  collection: 'organizations'
+});
+
+// Instance methods
+OrganizationSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+OrganizationSchema.statics.findBySlug = function(slug: string) {
+  return this.findOne({ slug: slug.toLowerCase() });
+};
+
+OrganizationSchema.statics.findDefault = function() {
+  return this.findOne({ isDefault: true });
+};
+
+// Add interface for static methods
+interface OrganizationModel extends mongoose.Model<OrganizationDocument> {
+  findBySlug(slug: string): mongoose.Query<OrganizationDocument | null, OrganizationDocument>;
+  findDefault(): mongoose.Query<OrganizationDocument | null, OrganizationDocument>;
+}
+
+// Create and export the model
+export const Organization = mongoose.model<OrganizationDocument, OrganizationModel>('Organization', OrganizationSchema);
@@ -1,13 +1,25 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { ProctoringReport as IProctoringReport, SuspiciousEvent, EventType } from '../types';
+import { tenantScope } from './plugins/tenantScope';
+import { ProctoringReport as IProctoringReport, SuspiciousEvent, EventType, STORAGE_DRIVERS } from '../types';
+import { calculateIntegrityBreakdown, eventsFromCounts, summarizeEventTypes } from '../utils/integrityScoring';
 
 // Extend the interface to include MongoDB document properties
 export interface ProctoringReportDocument extends IProctoringReport, Document {
   _id: mongoose.Types.ObjectId;
+  organizationId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Evidence Link Schema
+const EvidenceLinkSchema = new Schema({
+  clipId: { type: String, required: true },
+  clipUrl: { type: String, required: true },
+  stillUrl: { type: String, required: true },
+  startSeconds: { type: Number, min: 0, required: true },
+  durationSeconds: { type: Number, min: 0, required: true }
+}, { _id: false });
+
 // Suspicious Event Schema
 const SuspiciousEventSchema = new Schema({
   eventType: {
@@ -30,6 +42,45 @@ const SuspiciousEventSchema = new Schema({
     trim: true,
     minlength: 1,
     maxlength: 500
+  },
+  evidence: {
+    type: EvidenceLinkSchema,
+    required: false
+  }
+}, { _id: false });
+
+// Event Type Stat Schema
+const EventTypeStatSchema = new Schema({
+  eventType: {
+    type: String,
+    enum: Object.values(EventType),
+    required: true
+  },
+  count: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  totalDuration: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  }
+}, { _id: false });
+
+// Scoring Policy Reference Schema
+const ScoringPolicyRefSchema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1
   }
 }, { _id: false });
 
@@ -107,6 +158,11 @@ const ProctoringReportSchema = new Schema<ProctoringReportDocument>({
     min: 0,
     default: 0
   },
+  // Count and total duration for every event type, including drowsiness and audio
+  eventStats: {
+    type: [EventTypeStatSchema],
+    default: undefined
+  },
   integrityScore: { 
     type: Number, 
     required: true,
@@ -126,7 +182,26 @@ const ProctoringReportSchema = new Schema<ProctoringReportDocument>({
     type: Schema.Types.Mixed,
     default: {}
   },
-  // Cloudinary storage URLs for generated reports
+  // Policy version the integrity score was calculated with
+  scoringPolicy: {
+    type: ScoringPolicyRefSchema,
+    required: false
+  },
+  // Archived exports; signed download URLs are issued by this storage driver
+  storageDriver: {
+    type: String,
+    enum: STORAGE_DRIVERS,
+    required: false
+  },
+  pdfStorageKey: {
+    type: String,
+    required: false
+  },
+  csvStorageKey: {
+    type: String,
+    required: false
+  },
+  // Cloudinary storage URLs for reports generated before storage drivers
   cloudinaryPdfUrl: {
     type: String,
     required: false,
@@ -160,22 +235,36 @@ const ProctoringReportSchema = new Schema<ProctoringReportDocument>({
   collection: 'proctoring_reports'
 });
 
+// Reports are scoped to the session's organization
+ProctoringReportSchema.plugin(tenantScope);
+
 // Indexes for efficient queries
 ProctoringReportSchema.index({ candidateId: 1, generatedAt: -1 });
 // Removed duplicate simple index on sessionId since the field already uses index: true
 ProctoringReportSchema.index({ integrityScore: 1 });
 ProctoringReportSchema.index({ generatedAt: -1 });
 
+// Per-type counts, falling back to the four legacy counters on older reports
+const countsByType = (report: any): Record<string, number> => {
+  if (report.eventStats?.length) {
+    return Object.fromEntries(report.eventStats.map((stat: any) => [stat.eventType, stat.count]));
+  }
+  return {
+    [EventType.FOCUS_LOSS]: report.focusLossCount,
+    [EventType.ABSENCE]: report.absenceCount,
+    [EventType.MULTIPLE_FACES]: report.multipleFacesCount,
+    [EventType.UNAUTHORIZED_ITEM]: report.unauthorizedItemsCount
+  };
+};
+
+// Score stored counts with the built-in policy (used when no score was supplied)
+const scoreFromCounts = (report: any): number =>
+  calculateIntegrityBreakdown(eventsFromCounts(countsByType(report)), []).finalScore;
+
 // Pre-save middleware to calculate integrity score if not provided
 ProctoringReportSchema.pre('save', function(next) {
-  if (!this.integrityScore) {
-    // Calculate integrity score inline
-    let score = 100;
-    score -= this.focusLossCount * 2;
-    score -= this.absenceCount * 5;
-    score -= this.multipleFacesCount * 10;
-    score -= this.unauthorizedItemsCount * 15;
-    this.integrityScore = score; // Allow negative scores
+  if (this.integrityScore === undefined || this.integrityScore === null) {
+    this.integrityScore = scoreFromCounts(this); // Allow negative scores
   }
   next();
 });
@@ -188,27 +277,21 @@ ProctoringReportSchema.methods.toJSON = function() {
 };
 
 ProctoringReportSchema.methods.calculateIntegrityScore = function(): number {
-  let score = 100;
-  
-  // Deduct points based on violations
-  // Focus loss: -2 points per incident
-  score -= this.focusLossCount * 2;
-  
-  // Absence: -5 points per incident
-  score -= this.absenceCount * 5;
-  
-  // Multiple faces: -10 points per incident
-  score -= this.multipleFacesCount * 10;
-  
-  // Unauthorized items: -15 points per incident
-  score -= this.unauthorizedItemsCount * 15;
-  
   // Allow negative scores to reflect severe violations
-  return score;
+  return scoreFromCounts(this);
 };
 
 ProctoringReportSchema.methods.addSuspiciousEvent = function(event: SuspiciousEvent) {
   this.suspiciousEvents.push(event);
+
+  if (!this.eventStats?.length) {
+    this.eventStats = summarizeEventTypes(eventsFromCounts(countsByType(this)));
+  }
+  const stat = this.eventStats.find((item: any) => item.eventType === event.eventType);
+  if (stat) {
+    stat.count += 1;
+    stat.totalDuration += event.duration || 0;
+  }
   
   // Update counters based on event type
   switch (event.eventType) {
@@ -231,8 +314,13 @@ ProctoringReportSchema.methods.addSuspiciousEvent = function(event: SuspiciousEv
 };
 
 ProctoringReportSchema.methods.getViolationSummary = function() {
+  const counts = countsByType(this);
   return {
-    totalViolations: this.focusLossCount + this.absenceCount + this.multipleFacesCount + this.unauthorizedItemsCount,
+    // Face-visible events mark recovery, not a violation
+    totalViolations: Object.entries(counts)
+      .filter(([eventType]) => eventType !== EventType.FACE_VISIBLE)
+      .reduce((sum, [, count]) => sum + (count || 0), 0),
+    countsByType: counts,
     focusLossCount: this.focusLossCount,
     absenceCount: this.absenceCount,
     multipleFacesCount: this.multipleFacesCount,
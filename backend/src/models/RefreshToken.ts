@@ -0,0 +1,131 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScope } from './plugins/tenantScope';
+
+// Refresh Token interface (one rotation of a signed-in device; the token itself is only ever stored hashed)
+export interface RefreshToken {
+  // SHA-256 of the opaque token handed to the client
+  tokenHash: string;
+  // Every token rotated from the same sign-in shares a family; access tokens carry it as `sid`
+  familyId: string;
+  userId: string;
+  expiresAt: Date;
+  lastUsedAt?: Date;
+  // Set once the token has been exchanged for its successor
+  rotatedAt?: Date;
+  replacedBy?: string;
+  revokedAt?: Date;
+  revokedReason?: string;
+  createdByIp?: string;
+  userAgent?: string;
+}
+
+// Extend the interface to include MongoDB document properties
+export interface RefreshTokenDocument extends RefreshToken, Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const isUuidV4 = (v: string) =>
+  /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+
+// Refresh Token Schema
+const RefreshTokenSchema = new Schema<RefreshTokenDocument>({
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    match: /^[0-9a-f]{64}$/
+  },
+  familyId: {
+    type: String,
+    required: true,
+    index: true,
+    validate: {
+      validator: isUuidV4,
+      message: 'familyId must be a valid UUID'
+    }
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true,
+    ref: 'User'
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  lastUsedAt: {
+    type: Date,
+    required: false
+  },
+  rotatedAt: {
+    type: Date,
+    required: false
+  },
+  replacedBy: {
+    type: String,
+    required: false
+  },
+  revokedAt: {
+    type: Date,
+    required: false
+  },
+  revokedReason: {
+    type: String,
+    required: false
+  },
+  createdByIp: {
+    type: String,
+    required: false
+  },
+  userAgent: {
+    type: String,
+    required: false
+  }
+}, {
+  timestamps: true,
+  collection: 'refresh_tokens'
+});
+
+// Tokens belong to their user's organization
+RefreshTokenSchema.plugin(tenantScope);
+
+// Expired tokens are removed by MongoDB
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+RefreshTokenSchema.index({ userId: 1, createdAt: -1 });
+
+// Instance methods
+RefreshTokenSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  delete obj.tokenHash;
+  return obj;
+};
+
+// Static methods
+RefreshTokenSchema.statics.findByTokenHash = function(tokenHash: string) {
+  return this.findOne({ tokenHash });
+};
+
+// Current (not yet rotated or revoked) token of each of the user's signed-in devices
+RefreshTokenSchema.statics.findActiveByUser = function(userId: string) {
+  return this.find({
+    userId,
+    rotatedAt: { $exists: false },
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() }
+  }).sort({ createdAt: -1 });
+};
+
+// Add interface for static methods
+interface RefreshTokenModel extends mongoose.Model<RefreshTokenDocument> {
+  findByTokenHash(tokenHash: string): mongoose.Query<RefreshTokenDocument | null, RefreshTokenDocument>;
+  findActiveByUser(userId: string): mongoose.Query<RefreshTokenDocument[], RefreshTokenDocument>;
+}
+
+// Create and export the model
+export const RefreshToken = mongoose.model<RefreshTokenDocument, RefreshTokenModel>('RefreshToken', RefreshTokenSchema);
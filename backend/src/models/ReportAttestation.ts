@@ -0,0 +1,109 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScope } from './plugins/tenantScope';
+
+export type AttestedFormat = 'pdf' | 'csv';
+
+// Signature issued for one exported PDF or CSV, looked up by the code printed on the document
+export interface ReportAttestation {
+  // Short verification code, stored without separators (e.g. K7QM2XRP9D4T)
+  code: string;
+  reportId: string;
+  sessionId: string;
+  format: AttestedFormat;
+  includeManualObservations: boolean;
+  // SHA-256 over the report's attested fields at export time
+  contentHash: string;
+  // Base64 Ed25519 signature over the code, report, format, content hash and issue time
+  signature: string;
+  // Fingerprint of the public key that verifies the signature
+  keyId: string;
+  // SHA-256 of the exported file as handed out
+  fileSha256: string;
+  issuedAt: Date;
+}
+
+// Extend the interface to include MongoDB document properties
+export interface ReportAttestationDocument extends ReportAttestation, Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Report Attestation Schema
+const ReportAttestationSchema = new Schema<ReportAttestationDocument>({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    match: /^[0-9A-HJKMNP-TV-Z]{12}$/
+  },
+  reportId: {
+    type: String,
+    required: true,
+    ref: 'ProctoringReport',
+    index: true
+  },
+  sessionId: {
+    type: String,
+    required: true,
+    ref: 'InterviewSession'
+  },
+  format: {
+    type: String,
+    enum: ['pdf', 'csv'],
+    required: true
+  },
+  includeManualObservations: {
+    type: Boolean,
+    required: true
+  },
+  contentHash: {
+    type: String,
+    required: true,
+    match: /^[0-9a-f]{64}$/
+  },
+  signature: {
+    type: String,
+    required: true
+  },
+  keyId: {
+    type: String,
+    required: true
+  },
+  fileSha256: {
+    type: String,
+    required: true,
+    match: /^[0-9a-f]{64}$/
+  },
+  issuedAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: 'report_attestations'
+});
+
+ReportAttestationSchema.plugin(tenantScope);
+
+// Instance methods
+ReportAttestationSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+ReportAttestationSchema.statics.findByCode = function(code: string) {
+  return this.findOne({ code });
+};
+
+// Add interface for static methods
+interface ReportAttestationModel extends mongoose.Model<ReportAttestationDocument> {
+  findByCode(code: string): mongoose.Query<ReportAttestationDocument | null, ReportAttestationDocument>;
+}
+
+// Create and export the model
+export const ReportAttestation = mongoose.model<ReportAttestationDocument, ReportAttestationModel>('ReportAttestation', ReportAttestationSchema);
@@ -0,0 +1,181 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ScoringPolicyRef } from '../types';
+
+export type ReportJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+// Report generation job interface
+export interface ReportJob {
+  reportId: string;
+  sessionId: string;
+  includeManualObservations: boolean;
+  scoringPolicy: ScoringPolicyRef;
+  status: ReportJobStatus;
+  progress: number;
+  message?: string;
+  error?: string;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: Date;
+  lockedBy?: string;
+  lockedAt?: Date;
+  completedAt?: Date;
+  cancelledAt?: Date;
+}
+
+// Extend the interface to include MongoDB document properties
+export interface ReportJobDocument extends ReportJob, Document {
+  _id: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Report Job Schema
+const ReportJobSchema = new Schema<ReportJobDocument>({
+  reportId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    validate: {
+      validator: function(v: string) {
+        // UUID v4 validation regex
+        return /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+      },
+      message: 'reportId must be a valid UUID'
+    }
+  },
+  sessionId: {
+    type: String,
+    required: true,
+    index: true,
+    ref: 'InterviewSession'
+  },
+  includeManualObservations: {
+    type: Boolean,
+    required: true,
+    default: true
+  },
+  // Policy resolved when the job was requested, so retries score identically
+  scoringPolicy: {
+    name: { type: String, required: true },
+    version: { type: Number, required: true, min: 1 }
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'],
+    required: true,
+    default: 'pending',
+    index: true
+  },
+  progress: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 100,
+    default: 0
+  },
+  message: {
+    type: String,
+    required: false
+  },
+  error: {
+    type: String,
+    required: false
+  },
+  attempts: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    required: true,
+    min: 1,
+    default: 3
+  },
+  nextRunAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  // Worker lease: a processing job whose lease is stale is picked up again
+  lockedBy: {
+    type: String,
+    required: false
+  },
+  lockedAt: {
+    type: Date,
+    required: false
+  },
+  completedAt: {
+    type: Date,
+    required: false
+  },
+  cancelledAt: {
+    type: Date,
+    required: false
+  }
+}, {
+  timestamps: true,
+  collection: 'report_jobs'
+});
+
+// Indexes for efficient queries
+ReportJobSchema.index({ status: 1, nextRunAt: 1 });
+ReportJobSchema.index({ status: 1, lockedAt: 1 });
+
+// Instance methods
+ReportJobSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+ReportJobSchema.statics.findByReportId = function(reportId: string) {
+  return this.findOne({ reportId });
+};
+
+/**
+ * Atomically claim the next runnable job: a pending job that is due, or a
+ * processing job whose worker lease expired (e.g. the worker crashed)
+ */
+ReportJobSchema.statics.claimNext = function(workerId: string, leaseMs: number) {
+  const now = new Date();
+  return this.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'pending', nextRunAt: { $lte: now } },
+        { status: 'processing', lockedAt: { $lt: new Date(now.getTime() - leaseMs) } }
+      ]
+    },
+    {
+      $set: { status: 'processing', lockedBy: workerId, lockedAt: now },
+      $inc: { attempts: 1 }
+    },
+    { sort: { nextRunAt: 1 }, new: true }
+  );
+};
+
+/**
+ * Update a job only while the given worker still holds its lease.
+ * Resolves to false if the job was cancelled or taken over by another worker.
+ */
+ReportJobSchema.statics.updateLeased = async function(reportId: string, workerId: string, update: Partial<ReportJob>) {
+  const result = await this.updateOne(
+    { reportId, lockedBy: workerId, status: 'processing' },
+    { $set: { ...update, lockedAt: new Date() } }
+  );
+  return result.matchedCount > 0;
+};
+
+// Add interface for static methods
+interface ReportJobModel extends mongoose.Model<ReportJobDocument> {
+  findByReportId(reportId: string): mongoose.Query<ReportJobDocument | null, ReportJobDocument>;
+  claimNext(workerId: string, leaseMs: number): mongoose.Query<ReportJobDocument | null, ReportJobDocument>;
+  updateLeased(reportId: string, workerId: string, update: Partial<ReportJob>): Promise<boolean>;
+}
+
+// Create and export the model
+export const ReportJob = mongoose.model<ReportJobDocument, ReportJobModel>('ReportJob', ReportJobSchema);
@@ -0,0 +1,138 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScope } from './plugins/tenantScope';
+import { RetentionWindows } from '../types';
+
+export type RetentionCategory = 'recording' | 'events' | 'report';
+
+// One thing a purge removed (or, in a dry run, would have removed)
+export interface RetentionPurgeItem {
+  category: RetentionCategory;
+  sessionId: string;
+  videoId?: string;
+  reportId?: string;
+  // Number of detection events, for the events category
+  count?: number;
+  // Storage locations the data was removed from, e.g. `local`, `s3:recordings/...` or `cloudinary:<publicId>`
+  locations?: string[];
+  // Set when removing this item failed; the rest of the purge carries on
+  error?: string;
+}
+
+// Audit record of one retention purge run for an organization
+export interface RetentionPurge {
+  purgeId: string;
+  organizationId: string;
+  dryRun: boolean;
+  trigger: 'scheduled' | 'manual';
+  requestedBy?: string;
+  // Windows applied by this run
+  policy: RetentionWindows;
+  startedAt: Date;
+  completedAt: Date;
+  items: RetentionPurgeItem[];
+  totals: {
+    recordings: number;
+    events: number;
+    reports: number;
+    failed: number;
+  };
+}
+
+// Extend the interface to include MongoDB document properties
+export interface RetentionPurgeDocument extends RetentionPurge, Document {
+  _id: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RetentionPurgeItemSchema = new Schema({
+  category: { type: String, enum: ['recording', 'events', 'report'], required: true },
+  sessionId: { type: String, required: true },
+  videoId: { type: String, required: false },
+  reportId: { type: String, required: false },
+  count: { type: Number, min: 0, required: false },
+  locations: { type: [String], default: undefined },
+  error: { type: String, required: false }
+}, { _id: false });
+
+// Retention Purge Schema
+const RetentionPurgeSchema = new Schema<RetentionPurgeDocument>({
+  purgeId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    validate: {
+      validator: function(v: string) {
+        // UUID v4 validation regex
+        return /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+      },
+      message: 'purgeId must be a valid UUID'
+    }
+  },
+  dryRun: {
+    type: Boolean,
+    required: true
+  },
+  trigger: {
+    type: String,
+    enum: ['scheduled', 'manual'],
+    required: true
+  },
+  requestedBy: {
+    type: String,
+    required: false,
+    ref: 'User'
+  },
+  policy: {
+    recordingDays: { type: Number, required: false },
+    eventDays: { type: Number, required: false },
+    reportDays: { type: Number, required: false }
+  },
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  completedAt: {
+    type: Date,
+    required: true
+  },
+  items: {
+    type: [RetentionPurgeItemSchema],
+    default: []
+  },
+  totals: {
+    recordings: { type: Number, min: 0, default: 0 },
+    events: { type: Number, min: 0, default: 0 },
+    reports: { type: Number, min: 0, default: 0 },
+    failed: { type: Number, min: 0, default: 0 }
+  }
+}, {
+  timestamps: true,
+  collection: 'retention_purges'
+});
+
+// Admins only see the purges of their own organization
+RetentionPurgeSchema.plugin(tenantScope);
+
+RetentionPurgeSchema.index({ organizationId: 1, startedAt: -1 });
+
+// Instance methods
+RetentionPurgeSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+RetentionPurgeSchema.statics.findByPurgeId = function(purgeId: string) {
+  return this.findOne({ purgeId });
+};
+
+// Add interface for static methods
+interface RetentionPurgeModel extends mongoose.Model<RetentionPurgeDocument> {
+  findByPurgeId(purgeId: string): mongoose.Query<RetentionPurgeDocument | null, RetentionPurgeDocument>;
+}
+
+// Create and export the model
+export const RetentionPurge = mongoose.model<RetentionPurgeDocument, RetentionPurgeModel>('RetentionPurge', RetentionPurgeSchema);
@@ -0,0 +1,89 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Held by the instance running an organization's retention purge
+export interface RetentionPurgeLease {
+  organizationId: string;
+  lockedBy: string;
+  lockedAt: Date;
+}
+
+// Extend the interface to include MongoDB document properties
+export interface RetentionPurgeLeaseDocument extends RetentionPurgeLease, Document {
+  _id: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Retention Purge Lease Schema
+const RetentionPurgeLeaseSchema = new Schema<RetentionPurgeLeaseDocument>({
+  organizationId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    ref: 'Organization'
+  },
+  lockedBy: {
+    type: String,
+    required: true
+  },
+  lockedAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: 'retention_purge_leases'
+});
+
+// Static methods
+
+/**
+ * Atomically take an organization's lease when nobody holds it or its holder's lease
+ * is stale (e.g. the instance crashed). Resolves to null while another worker holds it.
+ */
+RetentionPurgeLeaseSchema.statics.acquire = async function(organizationId: string, workerId: string, leaseMs: number) {
+  const now = new Date();
+  try {
+    return await this.findOneAndUpdate(
+      { organizationId, lockedAt: { $lt: new Date(now.getTime() - leaseMs) } },
+      { $set: { lockedBy: workerId, lockedAt: now } },
+      { upsert: true, new: true }
+    );
+  } catch (error) {
+    // The upsert collides with the unique organizationId of a lease that is still held
+    if ((error as any)?.code === 11000) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Renew a lease only while the given worker still holds it.
+ * Resolves to false if it expired and was taken over by another worker.
+ */
+RetentionPurgeLeaseSchema.statics.renew = async function(organizationId: string, workerId: string) {
+  const result = await this.updateOne(
+    { organizationId, lockedBy: workerId },
+    { $set: { lockedAt: new Date() } }
+  );
+  return result.matchedCount > 0;
+};
+
+RetentionPurgeLeaseSchema.statics.release = async function(organizationId: string, workerId: string) {
+  await this.deleteOne({ organizationId, lockedBy: workerId });
+};
+
+// Add interface for static methods
+interface RetentionPurgeLeaseModel extends mongoose.Model<RetentionPurgeLeaseDocument> {
+  acquire(organizationId: string, workerId: string, leaseMs: number): Promise<RetentionPurgeLeaseDocument | null>;
+  renew(organizationId: string, workerId: string): Promise<boolean>;
+  release(organizationId: string, workerId: string): Promise<void>;
+}
+
+// Create and export the model
+export const RetentionPurgeLease = mongoose.model<RetentionPurgeLeaseDocument, RetentionPurgeLeaseModel>(
+  'RetentionPurgeLease',
+  RetentionPurgeLeaseSchema
+);
@@ -0,0 +1,88 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// What a revocation applies to: one access token, every token of a sign-in, or every token of a user
+export type RevocationKind = 'token' | 'family' | 'user';
+
+// Revocation list entry, checked on every authenticated request and socket handshake.
+// Entries only need to outlive the access tokens they cover, so they expire with them.
+export interface RevokedToken {
+  // `<jti>`, `family:<familyId>` or `user:<userId>`
+  key: string;
+  kind: RevocationKind;
+  userId: string;
+  // For user revocations, tokens issued at or before this time are rejected
+  revokedAt: Date;
+  expiresAt: Date;
+  reason?: string;
+  // User who revoked the tokens, when it was not their owner
+  revokedBy?: string;
+}
+
+// Extend the interface to include MongoDB document properties
+export interface RevokedTokenDocument extends RevokedToken, Document {
+  _id: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Revoked Token Schema (not tenant scoped: it is consulted before the request's organization is known)
+const RevokedTokenSchema = new Schema<RevokedTokenDocument>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  kind: {
+    type: String,
+    enum: ['token', 'family', 'user'],
+    required: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true,
+    ref: 'User'
+  },
+  revokedAt: {
+    type: Date,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  reason: {
+    type: String,
+    required: false
+  },
+  revokedBy: {
+    type: String,
+    required: false
+  }
+}, {
+  timestamps: true,
+  collection: 'revoked_tokens'
+});
+
+RevokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Instance methods
+RevokedTokenSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+RevokedTokenSchema.statics.findByKeys = function(keys: string[]) {
+  return this.find({ key: { $in: keys } });
+};
+
+// Add interface for static methods
+interface RevokedTokenModel extends mongoose.Model<RevokedTokenDocument> {
+  findByKeys(keys: string[]): mongoose.Query<RevokedTokenDocument[], RevokedTokenDocument>;
+}
+
+// Create and export the model
+export const RevokedToken = mongoose.model<RevokedTokenDocument, RevokedTokenModel>('RevokedToken', RevokedTokenSchema);
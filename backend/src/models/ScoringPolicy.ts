@@ -0,0 +1,138 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ScoringPolicy as IScoringPolicy } from '../types';
+
+// Extend the interface to include MongoDB document properties
+export interface ScoringPolicyDocument extends IScoringPolicy, Document {
+  _id: mongoose.Types.ObjectId;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Scoring Rule Schema
+const ScoringRuleSchema = new Schema({
+  pointsPerIncident: { type: Number, required: true, min: 0 },
+  pointsPerSecond: { type: Number, required: true, min: 0, default: 0 },
+  maxPerIncident: { type: Number, required: false, min: 0 },
+  maxTotal: { type: Number, required: false, min: 0 }
+}, { _id: false });
+
+// Severity Multipliers Schema
+const SeverityMultipliersSchema = new Schema({
+  low: { type: Number, required: true, min: 0 },
+  medium: { type: Number, required: true, min: 0 },
+  high: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
+// Scoring Policy Schema
+const ScoringPolicySchema = new Schema<ScoringPolicyDocument>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true,
+    maxlength: 50,
+    validate: {
+      validator: function(v: string) {
+        return /^[a-z0-9-]+$/.test(v);
+      },
+      message: 'name may only contain lowercase letters, digits and dashes'
+    }
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  description: {
+    type: String,
+    required: false,
+    trim: true,
+    maxlength: 500
+  },
+  baseScore: {
+    type: Number,
+    required: true,
+    min: 1,
+    default: 100
+  },
+  // Keyed by EventType value, e.g. { 'focus-loss': { pointsPerIncident: 2 } }
+  eventRules: {
+    type: Map,
+    of: ScoringRuleSchema,
+    required: true,
+    default: {}
+  },
+  manualObservationPoints: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  severityMultipliers: {
+    type: SeverityMultipliersSchema,
+    required: true
+  },
+  isDefault: {
+    type: Boolean,
+    default: false,
+    index: true
+  },
+  createdBy: {
+    type: String,
+    required: false,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'scoring_policies'
+});
+
+// Each (name, version) pair is immutable once stored
+ScoringPolicySchema.index({ name: 1, version: -1 }, { unique: true });
+
+// Instance methods
+ScoringPolicySchema.methods.toJSON = function() {
+  const obj = this.toObject({ flattenMaps: true });
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+ScoringPolicySchema.statics.findLatest = function(name: string) {
+  return this.findOne({ name: name.toLowerCase() }).sort({ version: -1 });
+};
+
+ScoringPolicySchema.statics.findVersion = function(name: string, version: number) {
+  return this.findOne({ name: name.toLowerCase(), version });
+};
+
+ScoringPolicySchema.statics.findDefault = function() {
+  return this.findOne({ isDefault: true }).sort({ updatedAt: -1 });
+};
+
+ScoringPolicySchema.statics.listLatestVersions = function() {
+  return this.aggregate([
+    { $sort: { name: 1, version: -1 } },
+    {
+      $group: {
+        _id: '$name',
+        latestVersion: { $first: '$version' },
+        description: { $first: '$description' },
+        isDefault: { $max: '$isDefault' },
+        versions: { $push: '$version' }
+      }
+    },
+    { $sort: { _id: 1 } }
+  ]);
+};
+
+// Add interface for static methods
+interface ScoringPolicyModel extends mongoose.Model<ScoringPolicyDocument> {
+  findLatest(name: string): mongoose.Query<ScoringPolicyDocument | null, ScoringPolicyDocument>;
+  findVersion(name: string, version: number): mongoose.Query<ScoringPolicyDocument | null, ScoringPolicyDocument>;
+  findDefault(): mongoose.Query<ScoringPolicyDocument | null, ScoringPolicyDocument>;
+  listLatestVersions(): mongoose.Aggregate<any[]>;
+}
+
+// Create and export the model
+export const ScoringPolicy = mongoose.model<ScoringPolicyDocument, ScoringPolicyModel>('ScoringPolicy', ScoringPolicySchema);
@@ -0,0 +1,102 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { AssignmentRole } from '../types';
+
+// Session Assignment interface (an interviewer's role on one session)
+export interface SessionAssignment {
+  assignmentId: string;
+  sessionId: string;
+  userId: string;
+  role: AssignmentRole;
+  assignedBy?: string;
+}
+
+// Extend the interface to include MongoDB document properties
+export interface SessionAssignmentDocument extends SessionAssignment, Document {
+  _id: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const isUuidV4 = (v: string) =>
+  /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+
+// Session Assignment Schema
+const SessionAssignmentSchema = new Schema<SessionAssignmentDocument>({
+  assignmentId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    validate: {
+      validator: isUuidV4,
+      message: 'assignmentId must be a valid UUID'
+    }
+  },
+  sessionId: {
+    type: String,
+    required: true,
+    index: true,
+    ref: 'InterviewSession',
+    validate: {
+      validator: isUuidV4,
+      message: 'sessionId must be a valid UUID'
+    }
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true,
+    ref: 'User',
+    validate: {
+      validator: isUuidV4,
+      message: 'userId must be a valid UUID'
+    }
+  },
+  role: {
+    type: String,
+    enum: Object.values(AssignmentRole),
+    required: true,
+    default: AssignmentRole.SECONDARY
+  },
+  assignedBy: {
+    type: String,
+    required: false
+  }
+}, {
+  timestamps: true,
+  collection: 'session_assignments'
+});
+
+// One assignment per user and session
+SessionAssignmentSchema.index({ sessionId: 1, userId: 1 }, { unique: true });
+SessionAssignmentSchema.index({ userId: 1, createdAt: -1 });
+
+// Instance methods
+SessionAssignmentSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+SessionAssignmentSchema.statics.findBySession = function(sessionId: string) {
+  return this.find({ sessionId }).sort({ createdAt: 1 });
+};
+
+SessionAssignmentSchema.statics.findByUser = function(userId: string) {
+  return this.find({ userId }).sort({ createdAt: -1 });
+};
+
+SessionAssignmentSchema.statics.findAssignment = function(sessionId: string, userId: string) {
+  return this.findOne({ sessionId, userId });
+};
+
+// Add interface for static methods
+interface SessionAssignmentModel extends mongoose.Model<SessionAssignmentDocument> {
+  findBySession(sessionId: string): mongoose.Query<SessionAssignmentDocument[], SessionAssignmentDocument>;
+  findByUser(userId: string): mongoose.Query<SessionAssignmentDocument[], SessionAssignmentDocument>;
+  findAssignment(sessionId: string, userId: string): mongoose.Query<SessionAssignmentDocument | null, SessionAssignmentDocument>;
+}
+
+// Create and export the model
+export const SessionAssignment = mongoose.model<SessionAssignmentDocument, SessionAssignmentModel>('SessionAssignment', SessionAssignmentSchema);
@@ -0,0 +1,108 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScope } from './plugins/tenantScope';
+
+// Session Invitation interface (a single-use link sent to the candidate of a scheduled session)
+export interface SessionInvitation {
+  invitationId: string;
+  sessionId: string;
+  candidateEmail?: string;
+  createdBy: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  usedBy?: string;
+  revokedAt?: Date;
+}
+
+// Extend the interface to include MongoDB document properties
+export interface SessionInvitationDocument extends SessionInvitation, Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const isUuidV4 = (v: string) =>
+  /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+
+// Session Invitation Schema
+const SessionInvitationSchema = new Schema<SessionInvitationDocument>({
+  invitationId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    validate: {
+      validator: isUuidV4,
+      message: 'invitationId must be a valid UUID'
+    }
+  },
+  sessionId: {
+    type: String,
+    required: true,
+    index: true,
+    ref: 'InterviewSession',
+    validate: {
+      validator: isUuidV4,
+      message: 'sessionId must be a valid UUID'
+    }
+  },
+  candidateEmail: {
+    type: String,
+    required: false,
+    trim: true,
+    lowercase: true
+  },
+  createdBy: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date,
+    required: false
+  },
+  usedBy: {
+    type: String,
+    required: false
+  },
+  revokedAt: {
+    type: Date,
+    required: false
+  }
+}, {
+  timestamps: true,
+  collection: 'session_invitations'
+});
+
+// Invitations follow their session's organization
+SessionInvitationSchema.plugin(tenantScope);
+
+SessionInvitationSchema.index({ sessionId: 1, createdAt: -1 });
+
+// Instance methods
+SessionInvitationSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+SessionInvitationSchema.statics.findByInvitationId = function(invitationId: string) {
+  return this.findOne({ invitationId });
+};
+
+SessionInvitationSchema.statics.findBySession = function(sessionId: string) {
+  return this.find({ sessionId }).sort({ createdAt: -1 });
+};
+
+// Add interface for static methods
+interface SessionInvitationModel extends mongoose.Model<SessionInvitationDocument> {
+  findByInvitationId(invitationId: string): mongoose.Query<SessionInvitationDocument | null, SessionInvitationDocument>;
+  findBySession(sessionId: string): mongoose.Query<SessionInvitationDocument[], SessionInvitationDocument>;
+}
+
+// Create and export the model
+export const SessionInvitation = mongoose.model<SessionInvitationDocument, SessionInvitationModel>('SessionInvitation', SessionInvitationSchema);
\ No newline at end of file
@@ -0,0 +1,205 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { TranscodePreset } from '../types';
+
+export type TranscodeJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+// Recording transcode job interface
+export interface TranscodeJob {
+  jobId: string;
+  videoId: string;
+  sessionId: string;
+  preset: TranscodePreset;
+  requestedBy: string;
+  status: TranscodeJobStatus;
+  progress: number;
+  message?: string;
+  error?: string;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: Date;
+  lockedBy?: string;
+  lockedAt?: Date;
+  completedAt?: Date;
+  cancelledAt?: Date;
+  originalSize?: number;
+  outputSize?: number;
+}
+
+// Extend the interface to include MongoDB document properties
+export interface TranscodeJobDocument extends TranscodeJob, Document {
+  _id: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Transcode Job Schema
+const TranscodeJobSchema = new Schema<TranscodeJobDocument>({
+  jobId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    validate: {
+      validator: function(v: string) {
+        // UUID v4 validation regex
+        return /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+      },
+      message: 'jobId must be a valid UUID'
+    }
+  },
+  videoId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  sessionId: {
+    type: String,
+    required: true,
+    index: true,
+    ref: 'InterviewSession'
+  },
+  preset: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    required: true
+  },
+  requestedBy: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'],
+    required: true,
+    default: 'pending',
+    index: true
+  },
+  progress: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 100,
+    default: 0
+  },
+  message: {
+    type: String,
+    required: false
+  },
+  error: {
+    type: String,
+    required: false
+  },
+  attempts: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    required: true,
+    min: 1,
+    default: 3
+  },
+  nextRunAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  // Worker lease: a processing job whose lease is stale is picked up again
+  lockedBy: {
+    type: String,
+    required: false
+  },
+  lockedAt: {
+    type: Date,
+    required: false
+  },
+  completedAt: {
+    type: Date,
+    required: false
+  },
+  cancelledAt: {
+    type: Date,
+    required: false
+  },
+  // File sizes in bytes, recorded once the transcode finishes
+  originalSize: {
+    type: Number,
+    required: false,
+    min: 0
+  },
+  outputSize: {
+    type: Number,
+    required: false,
+    min: 0
+  }
+}, {
+  timestamps: true,
+  collection: 'transcode_jobs'
+});
+
+// Indexes for efficient queries
+TranscodeJobSchema.index({ status: 1, nextRunAt: 1 });
+TranscodeJobSchema.index({ status: 1, lockedAt: 1 });
+
+// Instance methods
+TranscodeJobSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+TranscodeJobSchema.statics.findByJobId = function(jobId: string) {
+  return this.findOne({ jobId });
+};
+
+// The queued or running job for a recording, if any
+TranscodeJobSchema.statics.findActiveForVideo = function(videoId: string) {
+  return this.findOne({ videoId, status: { $in: ['pending', 'processing'] } });
+};
+
+/**
+ * Atomically claim the next runnable job: a pending job that is due, or a
+ * processing job whose worker lease expired (e.g. the worker crashed)
+ */
+TranscodeJobSchema.statics.claimNext = function(workerId: string, leaseMs: number) {
+  const now = new Date();
+  return this.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'pending', nextRunAt: { $lte: now } },
+        { status: 'processing', lockedAt: { $lt: new Date(now.getTime() - leaseMs) } }
+      ]
+    },
+    {
+      $set: { status: 'processing', lockedBy: workerId, lockedAt: now },
+      $inc: { attempts: 1 }
+    },
+    { sort: { nextRunAt: 1 }, new: true }
+  );
+};
+
+/**
+ * Update a job only while the given worker still holds its lease.
+ * Resolves to false if the job was cancelled or taken over by another worker.
+ */
+TranscodeJobSchema.statics.updateLeased = async function(jobId: string, workerId: string, update: Partial<TranscodeJob>) {
+  const result = await this.updateOne(
+    { jobId, lockedBy: workerId, status: 'processing' },
+    { $set: { ...update, lockedAt: new Date() } }
+  );
+  return result.matchedCount > 0;
+};
+
+// Add interface for static methods
+interface TranscodeJobModel extends mongoose.Model<TranscodeJobDocument> {
+  findByJobId(jobId: string): mongoose.Query<TranscodeJobDocument | null, TranscodeJobDocument>;
+  findActiveForVideo(videoId: string): mongoose.Query<TranscodeJobDocument | null, TranscodeJobDocument>;
+  claimNext(workerId: string, leaseMs: number): mongoose.Query<TranscodeJobDocument | null, TranscodeJobDocument>;
+  updateLeased(jobId: string, workerId: string, update: Partial<TranscodeJob>): Promise<boolean>;
+}
+
+// Create and export the model
+export const TranscodeJob = mongoose.model<TranscodeJobDocument, TranscodeJobModel>('TranscodeJob', TranscodeJobSchema);
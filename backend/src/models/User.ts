@@ -1,7 +1,25 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScope } from './plugins/tenantScope';
 import bcrypt from 'bcryptjs';
 import { UserRole } from '../types';
 
+// How a user signs in: with a password, or through the organization's OpenID Connect provider
+export type AuthProvider = 'password' | 'oidc';
+
+// Authenticator app (TOTP) enrollment; secrets are stored encrypted and never leave the server
+export interface TwoFactorSettings {
+  // Confirmed secret, and one being enrolled that has not been confirmed with a code yet
+  secret?: string;
+  pendingSecret?: string;
+  // SHA-256 hashes of the unused recovery codes
+  recoveryCodes: string[];
+  enabledAt?: Date;
+  // Last time step a code was accepted for; older codes cannot be replayed
+  lastUsedStep?: number;
+  failedAttempts: number;
+  lockedUntil?: Date;
+}
+
 // User interface
 export interface IUser {
   userId: string;
@@ -11,6 +29,13 @@ export interface IUser {
   name: string;
   isActive: boolean;
   lastLogin?: Date;
+  organizationId?: string;
+  authProvider: AuthProvider;
+  // Identity at the OIDC provider (issuer URL and subject), set once the account signs in with SSO
+  oidcIssuer?: string;
+  oidcSubject?: string;
+  twoFactorEnabled: boolean;
+  twoFactor?: TwoFactorSettings;
 }
 
 // Extend the interface to include MongoDB document properties
@@ -22,6 +47,16 @@ export interface UserDocument extends IUser, Document {
   updateLastLogin(): Promise<void>;
 }
 
+const TwoFactorSchema = new Schema({
+  secret: { type: String, required: false },
+  pendingSecret: { type: String, required: false },
+  recoveryCodes: { type: [String], default: [] },
+  enabledAt: { type: Date, required: false },
+  lastUsedStep: { type: Number, required: false },
+  failedAttempts: { type: Number, default: 0 },
+  lockedUntil: { type: Date, required: false }
+}, { _id: false });
+
 // User Schema
 const UserSchema = new Schema<UserDocument>({
   userId: {
@@ -78,16 +113,45 @@ const UserSchema = new Schema<UserDocument>({
   lastLogin: {
     type: Date,
     required: false
+  },
+  authProvider: {
+    type: String,
+    enum: ['password', 'oidc'],
+    default: 'password'
+  },
+  oidcIssuer: {
+    type: String,
+    required: false
+  },
+  oidcSubject: {
+    type: String,
+    required: false
+  },
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false
+  },
+  twoFactor: {
+    type: TwoFactorSchema,
+    required: false,
+    select: false // Secrets and recovery codes are only loaded to check a second factor
   }
 }, {
   timestamps: true,
   collection: 'users'
 });
 
+// Users belong to one organization (login stays global by email)
+UserSchema.plugin(tenantScope);
+
 // Indexes for efficient queries
 UserSchema.index({ email: 1, isActive: 1 });
 UserSchema.index({ role: 1, isActive: 1 });
 UserSchema.index({ createdAt: -1 });
+UserSchema.index(
+  { oidcIssuer: 1, oidcSubject: 1 },
+  { unique: true, partialFilterExpression: { oidcSubject: { $exists: true } } }
+);
 
 // Pre-save middleware to hash password
 UserSchema.pre('save', async function(next) {
@@ -119,6 +183,7 @@ UserSchema.methods.updateLastLogin = async function(): Promise<void> {
 UserSchema.methods.toJSON = function() {
   const obj = this.toObject();
   delete obj.password;
+  delete obj.twoFactor;
   delete obj.__v;
   return obj;
 };
@@ -0,0 +1,179 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScope } from './plugins/tenantScope';
+
+// A single preview image stored next to the recording
+export interface VideoPoster {
+  filename: string;
+  width: number;
+  height: number;
+}
+
+// Grid of evenly spaced preview frames, read left to right and top to bottom
+export interface VideoSprite {
+  filename: string;
+  columns: number;
+  rows: number;
+  frameCount: number;
+  frameWidth: number;
+  frameHeight: number;
+  intervalSeconds: number;
+}
+
+// Video Asset interface (probed properties of a stored recording)
+export interface VideoAsset {
+  videoId: string;
+  sessionId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  checksum: string;
+  duration?: number;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  bitRate?: number;
+  poster?: VideoPoster;
+  sprite?: VideoSprite;
+  probedAt: Date;
+}
+
+// Extend the interface to include MongoDB document properties
+export interface VideoAssetDocument extends VideoAsset, Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VideoPosterSchema = new Schema({
+  filename: { type: String, required: true },
+  width: { type: Number, min: 1, required: true },
+  height: { type: Number, min: 1, required: true }
+}, { _id: false });
+
+const VideoSpriteSchema = new Schema({
+  filename: { type: String, required: true },
+  columns: { type: Number, min: 1, required: true },
+  rows: { type: Number, min: 1, required: true },
+  frameCount: { type: Number, min: 1, required: true },
+  frameWidth: { type: Number, min: 1, required: true },
+  frameHeight: { type: Number, min: 1, required: true },
+  intervalSeconds: { type: Number, min: 0, required: true }
+}, { _id: false });
+
+// Video Asset Schema
+const VideoAssetSchema = new Schema<VideoAssetDocument>({
+  videoId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    validate: {
+      validator: function(v: string) {
+        // UUID v4 validation regex
+        return /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+      },
+      message: 'videoId must be a valid UUID'
+    }
+  },
+  sessionId: {
+    type: String,
+    required: true,
+    index: true,
+    ref: 'InterviewSession'
+  },
+  filename: {
+    type: String,
+    required: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // SHA-256 of the stored file, hex encoded
+  checksum: {
+    type: String,
+    required: true,
+    match: /^[0-9a-f]{64}$/
+  },
+  // Seconds; browser WebM recordings often carry no duration
+  duration: {
+    type: Number,
+    required: false,
+    min: 0
+  },
+  width: {
+    type: Number,
+    required: false,
+    min: 1
+  },
+  height: {
+    type: Number,
+    required: false,
+    min: 1
+  },
+  frameRate: {
+    type: Number,
+    required: false,
+    min: 0
+  },
+  videoCodec: {
+    type: String,
+    required: false
+  },
+  audioCodec: {
+    type: String,
+    required: false
+  },
+  bitRate: {
+    type: Number,
+    required: false,
+    min: 0
+  },
+  poster: {
+    type: VideoPosterSchema,
+    required: false
+  },
+  sprite: {
+    type: VideoSpriteSchema,
+    required: false
+  },
+  probedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  }
+}, {
+  timestamps: true,
+  collection: 'video_assets'
+});
+
+// Assets follow their session's organization
+VideoAssetSchema.plugin(tenantScope);
+
+// Instance methods
+VideoAssetSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+VideoAssetSchema.statics.findByVideoId = function(videoId: string) {
+  return this.findOne({ videoId });
+};
+
+// Add interface for static methods
+interface VideoAssetModel extends mongoose.Model<VideoAssetDocument> {
+  findByVideoId(videoId: string): mongoose.Query<VideoAssetDocument | null, VideoAssetDocument>;
+}
+
+// Create and export the model
+export const VideoAsset = mongoose.model<VideoAssetDocument, VideoAssetModel>('VideoAsset', VideoAssetSchema);
\ No newline at end of file
@@ -0,0 +1,175 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type VideoUploadStatus = 'uploading' | 'processing' | 'completed' | 'failed';
+
+// A received chunk; its bytes are stored on disk under their SHA-256
+export interface VideoUploadChunk {
+  index: number;
+  size: number;
+  sha256: string;
+}
+
+// Chunked recording upload interface (persisted so uploads survive restarts and browser reloads)
+export interface VideoUpload {
+  uploadId: string;
+  sessionId: string;
+  candidateId: string;
+  filename: string;
+  mimeType: string;
+  totalChunks: number;
+  // Offset-based uploads declare their size up front; every chunk but the last is chunkSize bytes
+  chunkSize?: number;
+  totalSize?: number;
+  // Expected SHA-256 of the whole file, hex encoded
+  checksum?: string;
+  chunks: VideoUploadChunk[];
+  recordingStartedAt?: Date;
+  status: VideoUploadStatus;
+  videoId?: string;
+  error?: string;
+  lastActivityAt: Date;
+}
+
+// Extend the interface to include MongoDB document properties
+export interface VideoUploadDocument extends VideoUpload, Document {
+  _id: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VideoUploadChunkSchema = new Schema({
+  index: { type: Number, min: 0, required: true },
+  size: { type: Number, min: 0, required: true },
+  sha256: { type: String, required: true, match: /^[0-9a-f]{64}$/ }
+}, { _id: false });
+
+// Video Upload Schema
+const VideoUploadSchema = new Schema<VideoUploadDocument>({
+  uploadId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    validate: {
+      validator: function(v: string) {
+        // UUID v4 validation regex
+        return /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+      },
+      message: 'uploadId must be a valid UUID'
+    }
+  },
+  sessionId: {
+    type: String,
+    required: true,
+    index: true,
+    ref: 'InterviewSession'
+  },
+  candidateId: {
+    type: String,
+    required: true
+  },
+  filename: {
+    type: String,
+    required: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  totalChunks: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  chunkSize: {
+    type: Number,
+    required: false,
+    min: 1
+  },
+  totalSize: {
+    type: Number,
+    required: false,
+    min: 1
+  },
+  checksum: {
+    type: String,
+    required: false,
+    match: /^[0-9a-f]{64}$/
+  },
+  chunks: {
+    type: [VideoUploadChunkSchema],
+    default: []
+  },
+  recordingStartedAt: {
+    type: Date,
+    required: false
+  },
+  status: {
+    type: String,
+    enum: ['uploading', 'processing', 'completed', 'failed'],
+    required: true,
+    default: 'uploading'
+  },
+  videoId: {
+    type: String,
+    required: false
+  },
+  error: {
+    type: String,
+    required: false
+  },
+  lastActivityAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  }
+}, {
+  timestamps: true,
+  collection: 'video_uploads'
+});
+
+// Resuming looks up the open upload for a session's candidate
+VideoUploadSchema.index({ sessionId: 1, candidateId: 1, status: 1 });
+VideoUploadSchema.index({ status: 1, lastActivityAt: 1 });
+
+// Instance methods
+VideoUploadSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+  delete obj.__v;
+  return obj;
+};
+
+// Static methods
+VideoUploadSchema.statics.findByUploadId = function(uploadId: string) {
+  return this.findOne({ uploadId });
+};
+
+// The upload still receiving chunks for a session's candidate, if any
+VideoUploadSchema.statics.findOpen = function(sessionId: string, candidateId: string) {
+  return this.findOne({ sessionId, candidateId, status: 'uploading' }).sort({ createdAt: -1 });
+};
+
+/**
+ * Record a received chunk. Resolves to null if the upload is no longer open or
+ * already holds a chunk at that index, so concurrent retries store it once.
+ */
+VideoUploadSchema.statics.addChunk = function(uploadId: string, chunk: VideoUploadChunk) {
+  return this.findOneAndUpdate(
+    { uploadId, status: 'uploading', 'chunks.index': { $ne: chunk.index } },
+    {
+      $push: { chunks: chunk },
+      $set: { lastActivityAt: new Date() }
+    },
+    { new: true }
+  );
+};
+
+// Add interface for static methods
+interface VideoUploadModel extends mongoose.Model<VideoUploadDocument> {
+  findByUploadId(uploadId: string): mongoose.Query<VideoUploadDocument | null, VideoUploadDocument>;
+  findOpen(sessionId: string, candidateId: string): mongoose.Query<VideoUploadDocument | null, VideoUploadDocument>;
+  addChunk(uploadId: string, chunk: VideoUploadChunk): mongoose.Query<VideoUploadDocument | null, VideoUploadDocument>;
+}
+
+// Create and export the model
+export const VideoUpload = mongoose.model<VideoUploadDocument, VideoUploadModel>('VideoUpload', VideoUploadSchema);
\ No newline at end of file
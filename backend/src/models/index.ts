@@ -3,4 +3,21 @@ export { DetectionEvent, DetectionEventDocument } from './DetectionEvent';
 export { InterviewSession, InterviewSessionDocument } from './InterviewSession';
 export { ProctoringReport, ProctoringReportDocument } from './ProctoringReport';
 export { User, UserDocument, IUser } from './User';
-export { ManualObservation, ManualObservationDocument } from './ManualObservation';
\ No newline at end of file
+export { ManualObservation, ManualObservationDocument } from './ManualObservation';
+export { ScoringPolicy, ScoringPolicyDocument } from './ScoringPolicy';
+export { ReportJob, ReportJobDocument, ReportJobStatus } from './ReportJob';
+export { SessionAssignment, SessionAssignmentDocument } from './SessionAssignment';
+export { Organization, OrganizationDocument } from './Organization';
+export { SessionInvitation, SessionInvitationDocument } from './SessionInvitation';
+export { IdentityReference, IdentityReferenceDocument } from './IdentityReference';
+export { TranscodeJob, TranscodeJobDocument, TranscodeJobStatus } from './TranscodeJob';
+export { VideoAsset, VideoAssetDocument } from './VideoAsset';
+export { EvidenceClip, EvidenceClipDocument } from './EvidenceClip';
+export { VideoUpload, VideoUploadDocument, VideoUploadStatus } from './VideoUpload';
+export { RetentionPurge, RetentionPurgeDocument } from './RetentionPurge';
+export { RetentionPurgeLease, RetentionPurgeLeaseDocument } from './RetentionPurgeLease';
+export { DataSubjectRequest, DataSubjectRequestDocument } from './DataSubjectRequest';
+export { AuditLog, AuditLogDocument } from './AuditLog';
+export { ReportAttestation, ReportAttestationDocument } from './ReportAttestation';
+export { RefreshToken, RefreshTokenDocument } from './RefreshToken';
+export { RevokedToken, RevokedTokenDocument } from './RevokedToken';
\ No newline at end of file
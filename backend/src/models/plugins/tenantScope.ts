@@ -0,0 +1,66 @@
+import { Schema, Query, Aggregate } from 'mongoose';
+import { getScopedOrganizationId } from '../../utils/tenantContext';
+
+const QUERY_HOOKS = [
+  'countDocuments',
+  'deleteMany',
+  'deleteOne',
+  'distinct',
+  'find',
+  'findOne',
+  'findOneAndDelete',
+  'findOneAndReplace',
+  'findOneAndUpdate',
+  'replaceOne',
+  'updateMany',
+  'updateOne'
+] as const;
+
+/**
+ * Adds an organizationId to a schema and limits every query, aggregation and
+ * new document to the organization of the current request (see tenantContext).
+ * Queries that already filter on organizationId are left untouched.
+ */
+export function tenantScope(schema: Schema): void {
+  schema.add({
+    organizationId: {
+      type: String,
+      required: false,
+      index: true,
+      ref: 'Organization'
+    }
+  });
+
+  for (const hook of QUERY_HOOKS) {
+    schema.pre(hook, function(this: Query<unknown, unknown>) {
+      const organizationId = getScopedOrganizationId();
+      if (organizationId && this.getFilter().organizationId === undefined) {
+        this.where({ organizationId });
+      }
+    });
+  }
+
+  schema.pre('aggregate', function(this: Aggregate<unknown>) {
+    const organizationId = getScopedOrganizationId();
+    if (organizationId) {
+      this.pipeline().unshift({ $match: { organizationId } });
+    }
+  });
+
+  schema.pre('save', function() {
+    const organizationId = getScopedOrganizationId();
+    if (organizationId && !this.get('organizationId')) {
+      this.set('organizationId', organizationId);
+    }
+  });
+
+  schema.pre('insertMany', function(next: (err?: Error) => void, docs: any[]) {
+    const organizationId = getScopedOrganizationId();
+    if (organizationId) {
+      for (const doc of docs) {
+        doc.organizationId = doc.organizationId || organizationId;
+      }
+    }
+    next();
+  });
+}
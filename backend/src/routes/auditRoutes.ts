@@ -0,0 +1,109 @@
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { AuditService } from '../services/auditService';
+import { authenticate, authorize } from '../middleware/auth';
+import { validateParams, validateQuery } from '../middleware/validation';
+import { AuditQuerySchema, UserRole, ApiResponse } from '../types';
+
+const router = express.Router();
+
+// Validation schemas
+const OrganizationQuerySchema = z.object({
+  // Only honoured for super admins acting on another organization
+  organizationId: z.string().uuid().optional()
+});
+
+const EntryParamsSchema = z.object({
+  entryId: z.string().uuid()
+});
+
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  const statusCode = (error as any)?.statusCode || 500;
+  res.status(statusCode).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback
+  });
+};
+
+// Organization the request acts on: the admin's own, or the one a super admin names
+const targetOrganizationId = (req: Request): string | undefined => {
+  const requested = (req as any).validatedQuery?.organizationId;
+  return req.user!.role === UserRole.SUPER_ADMIN ? requested : req.user!.organizationId;
+};
+
+/**
+ * GET /api/audit
+ * Audit entries, newest first, filtered by actor, action, target, session or time range
+ */
+router.get('/',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateQuery(AuditQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await AuditService.query({
+        ...(req as any).validatedQuery,
+        organizationId: targetOrganizationId(req)
+      });
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: result
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error querying audit log:', error);
+      sendError(res, error, 'Failed to query audit log');
+    }
+  }
+);
+
+/**
+ * GET /api/audit/verify
+ * Recompute the organization's hash chain and report the first entry that breaks it
+ */
+router.get('/verify',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateQuery(OrganizationQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const verification = await AuditService.verifyChain(targetOrganizationId(req));
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: verification
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error verifying audit log:', error);
+      sendError(res, error, 'Failed to verify audit log');
+    }
+  }
+);
+
+/**
+ * GET /api/audit/:entryId
+ * A single audit entry
+ */
+router.get('/:entryId',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateParams(EntryParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const entry = await AuditService.getEntry(req.params.entryId as string);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: entry
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error getting audit entry:', error);
+      sendError(res, error, 'Failed to get audit entry');
+    }
+  }
+);
+
+export default router;
@@ -1,26 +1,85 @@
 import express, { Request, Response } from 'express';
+import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
 import { User, UserDocument } from '../models';
 import { InterviewSession } from '../models/InterviewSession';
+import { SessionAccessService } from '../services/sessionAccessService';
+import { OrganizationService } from '../services/organizationService';
+import { TokenService, IssuedTokens } from '../services/tokenService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { AuthenticationError } from '../middleware/errorHandler';
 import { 
-  generateToken, 
   authenticate, 
   authorize, 
+  optionalAuth,
   authRateLimit 
 } from '../middleware/auth';
-import { validateRequest } from '../middleware/validation';
+import { validateRequest, validateParams } from '../middleware/validation';
+import { runAcrossTenants } from '../utils/tenantContext';
 import {
   UserRegistrationSchema,
   UserLoginSchema,
+  RefreshTokenRequestSchema,
+  LogoutSchema,
+  TwoFactorLoginSchema,
+  TwoFactorCodeSchema,
+  TwoFactorSetupSchema,
+  TwoFactorEnableSchema,
   SessionCreationSchema,
   SessionPairingSchema,
   UserRole,
+  isAdminRole,
+  AssignmentRole,
   SessionStatus,
   ApiResponse
 } from '../types';
 
 const router = express.Router();
 
+const LoginParamsSchema = z.object({
+  familyId: z.string().uuid()
+});
+
+const requestContext = (req: Request) => ({ ip: req.ip, userAgent: req.get('user-agent') });
+
+// Token fields returned by register, login and refresh
+const tokenResponse = (tokens: IssuedTokens) => ({
+  token: tokens.accessToken,
+  refreshToken: tokens.refreshToken,
+  expiresIn: tokens.expiresIn,
+  refreshExpiresAt: tokens.refreshExpiresAt
+});
+
+// Start a session once every factor has been checked
+const signIn = async (req: Request, user: UserDocument) => {
+  const tokens = await TokenService.issueSession(user, requestContext(req));
+  await user.updateLastLogin();
+  return { user: user.toJSON(), ...tokenResponse(tokens) };
+};
+
+// Enrollment is open to signed-in users, and to users stopped at login because their organization requires it
+const enrollingUser = async (req: Request): Promise<UserDocument> => {
+  if (req.body.challengeToken) {
+    return TwoFactorService.readChallenge(req.body.challengeToken, 'enroll');
+  }
+  if (!req.user) {
+    throw new AuthenticationError('Access denied. No token provided.');
+  }
+  return req.user;
+};
+
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  const statusCode = (error as any)?.statusCode || 500;
+  if (statusCode === 500) {
+    console.error(`${fallback}:`, error);
+  }
+  const response: ApiResponse = {
+    success: false,
+    error: statusCode === 500 ? fallback : (error as Error).message
+  };
+  res.status(statusCode).json(response);
+};
+
 /**
  * POST /api/auth/register
  * Register a new user (candidate or interviewer)
@@ -30,10 +89,10 @@ router.post('/register',
   validateRequest(UserRegistrationSchema),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { email, password, name, role } = req.body;
+      const { email, password, name, role, organizationSlug } = req.body;
 
-      // Check if user already exists
-      const existingUser = await User.findOne({ email: email.toLowerCase() });
+      // Check if user already exists (in any organization, login is by email)
+      const existingUser = await runAcrossTenants(() => User.findOne({ email: email.toLowerCase() }));
       if (existingUser) {
         const response: ApiResponse = {
           success: false,
@@ -43,6 +102,29 @@ router.post('/register',
         return;
       }
 
+      // Knowing an organization's slug is no credential: its staff accounts are created by its admins
+      if (organizationSlug && role !== UserRole.CANDIDATE) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Interviewer accounts in an organization are created by its administrators'
+        };
+        res.status(403).json(response);
+        return;
+      }
+
+      // Join the requested organization, or the default one
+      let organizationId: string;
+      try {
+        ({ organizationId } = await OrganizationService.resolveRegistrationOrganization(organizationSlug));
+      } catch {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Organization not found'
+        };
+        res.status(400).json(response);
+        return;
+      }
+
       // Create new user
       const userId = uuidv4();
       const user = new User({
@@ -50,26 +132,29 @@ router.post('/register',
         email: email.toLowerCase(),
         password,
         name,
-        role
+        role,
+        organizationId
       });
 
       await user.save();
 
-      // Generate JWT token
-      const token = generateToken(user);
-
-      // Update last login
-      await user.updateLastLogin();
+      // Roles the organization requires a second factor for enroll one before getting tokens
+      if (await TwoFactorService.isRequired(user)) {
+        const response: ApiResponse<{ twoFactorStep: 'enroll'; challengeToken: string }> = {
+          success: true,
+          data: {
+            twoFactorStep: 'enroll',
+            challengeToken: TwoFactorService.issueChallenge(user, 'enroll')
+          },
+          message: 'User registered; two-factor setup required'
+        };
+        res.status(201).json(response);
+        return;
+      }
 
-      const response: ApiResponse<{
-        user: Omit<UserDocument, 'password'>;
-        token: string;
-      }> = {
+      const response: ApiResponse<any> = {
         success: true,
-        data: {
-          user: user.toJSON(),
-          token
-        },
+        data: await signIn(req, user),
         message: 'User registered successfully'
       };
 
@@ -87,7 +172,7 @@ router.post('/register',
 
 /**
  * POST /api/auth/login
- * Authenticate user and return JWT token
+ * Authenticate user and return JWT token, or a challenge for the second factor
  */
 router.post('/login',
   authRateLimit(5, 15 * 60 * 1000), // 5 attempts per 15 minutes
@@ -122,21 +207,43 @@ router.post('/login',
         return;
       }
 
-      // Generate JWT token
-      const token = generateToken(user);
+      // Staff accounts linked to the identity provider sign in through it (candidates keep passwords)
+      if (user.authProvider === 'oidc' && user.role !== UserRole.CANDIDATE) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'This account signs in with single sign-on'
+        };
+        res.status(403).json(response);
+        return;
+      }
+
+      if (!(await OrganizationService.isOrganizationActive(user.organizationId))) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Your organization has been deactivated'
+        };
+        res.status(403).json(response);
+        return;
+      }
 
-      // Update last login
-      await user.updateLastLogin();
+      // Second step: an authenticator code, or enrollment first when the organization requires it
+      if (user.twoFactorEnabled || await TwoFactorService.isRequired(user)) {
+        const step = user.twoFactorEnabled ? 'verify' : 'enroll';
+        const response: ApiResponse<{ twoFactorStep: 'verify' | 'enroll'; challengeToken: string }> = {
+          success: true,
+          data: {
+            twoFactorStep: step,
+            challengeToken: TwoFactorService.issueChallenge(user, step)
+          },
+          message: step === 'verify' ? 'Two-factor code required' : 'Two-factor setup required'
+        };
+        res.status(200).json(response);
+        return;
+      }
 
-      const response: ApiResponse<{
-        user: Omit<UserDocument, 'password'>;
-        token: string;
-      }> = {
+      const response: ApiResponse<any> = {
         success: true,
-        data: {
-          user: user.toJSON(),
-          token
-        },
+        data: await signIn(req, user),
         message: 'Login successful'
       };
 
@@ -152,6 +259,146 @@ router.post('/login',
   }
 );
 
+/**
+ * POST /api/auth/login/two-factor
+ * Second step of a login: the challenge from POST /api/auth/login and an authenticator or recovery code
+ */
+router.post('/login/two-factor',
+  authRateLimit(5, 15 * 60 * 1000), // 5 attempts per 15 minutes
+  validateRequest(TwoFactorLoginSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await TwoFactorService.readChallenge(req.body.challengeToken, 'verify');
+      await TwoFactorService.verify(user, req.body.code, req.ip);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: await signIn(req, user),
+        message: 'Login successful'
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      sendError(res, error, 'Login failed. Please try again.');
+    }
+  }
+);
+
+/**
+ * GET /api/auth/two-factor
+ * Whether the current user has two-factor authentication and whether their organization requires it
+ */
+router.get('/two-factor',
+  authenticate,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const response: ApiResponse<any> = {
+        success: true,
+        data: await TwoFactorService.status(req.user!)
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      sendError(res, error, 'Failed to get two-factor status');
+    }
+  }
+);
+
+/**
+ * POST /api/auth/two-factor/setup
+ * Start enrollment: a new authenticator secret (as text, otpauth URI and QR code) to confirm with a code
+ */
+router.post('/two-factor/setup',
+  authRateLimit(10, 15 * 60 * 1000),
+  optionalAuth,
+  validateRequest(TwoFactorSetupSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await enrollingUser(req);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: await TwoFactorService.beginEnrollment(user),
+        message: 'Scan the code with your authenticator app, then confirm with a code from it'
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      sendError(res, error, 'Failed to start two-factor setup');
+    }
+  }
+);
+
+/**
+ * POST /api/auth/two-factor/enable
+ * Confirm enrollment with a code; returns the recovery codes, and signs in when enrolling from a login challenge
+ */
+router.post('/two-factor/enable',
+  authRateLimit(10, 15 * 60 * 1000),
+  optionalAuth,
+  validateRequest(TwoFactorEnableSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await enrollingUser(req);
+      const recoveryCodes = await TwoFactorService.confirmEnrollment(user, req.body.code, req.ip);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: {
+          recoveryCodes,
+          ...(req.body.challengeToken ? await signIn(req, user) : {})
+        },
+        message: 'Two-factor authentication enabled'
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      sendError(res, error, 'Failed to enable two-factor authentication');
+    }
+  }
+);
+
+/**
+ * POST /api/auth/two-factor/recovery-codes
+ * Replace the recovery codes (confirmed with a current code)
+ */
+router.post('/two-factor/recovery-codes',
+  authenticate,
+  validateRequest(TwoFactorCodeSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(req.user!, req.body.code, req.ip);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: { recoveryCodes },
+        message: 'Recovery codes regenerated'
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      sendError(res, error, 'Failed to regenerate recovery codes');
+    }
+  }
+);
+
+/**
+ * POST /api/auth/two-factor/disable
+ * Turn two-factor authentication off (confirmed with a current code), unless the organization requires it
+ */
+router.post('/two-factor/disable',
+  authenticate,
+  validateRequest(TwoFactorCodeSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      await TwoFactorService.disable(req.user!, req.body.code, req.ip);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Two-factor authentication disabled'
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      sendError(res, error, 'Failed to disable two-factor authentication');
+    }
+  }
+);
+
 /**
  * GET /api/auth/me
  * Get current user profile
@@ -178,16 +425,66 @@ router.get('/me',
   }
 );
 
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access token and refresh token
+ */
+router.post('/refresh',
+  validateRequest(RefreshTokenRequestSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { user, ...tokens } = await TokenService.rotate(req.body.refreshToken, requestContext(req));
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: {
+          user: user.toJSON(),
+          ...tokenResponse(tokens)
+        },
+        message: 'Token refreshed successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      const statusCode = (error as any)?.statusCode || 500;
+      if (statusCode === 500) {
+        console.error('Token refresh error:', error);
+      }
+      const response: ApiResponse = {
+        success: false,
+        error: statusCode === 500 ? 'Token refresh failed' : (error as Error).message
+      };
+      res.status(statusCode).json(response);
+    }
+  }
+);
+
 /**
  * POST /api/auth/logout
- * Logout user (client-side token removal, server-side logging)
+ * Revoke the sign-in the access token (or, once it has expired, the refresh token) belongs to
  */
 router.post('/logout',
-  authenticate,
+  optionalAuth,
+  validateRequest(LogoutSchema),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      // In a more sophisticated implementation, you might maintain a blacklist of tokens
-      
+      const { refreshToken } = req.body;
+      if (!req.auth && !refreshToken) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Access denied. No token provided.'
+        };
+        res.status(401).json(response);
+        return;
+      }
+
+      if (req.auth) {
+        await TokenService.logout(req.auth);
+      }
+      if (refreshToken) {
+        await TokenService.revokeRefreshToken(refreshToken, 'logout');
+      }
+
       const response: ApiResponse = {
         success: true,
         message: 'Logout successful'
@@ -205,6 +502,90 @@ router.post('/logout',
   }
 );
 
+/**
+ * GET /api/auth/logins
+ * Devices the current user is signed in on
+ */
+router.get('/logins',
+  authenticate,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const logins = await TokenService.listSessions(req.user!.userId, req.auth?.sid);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: logins,
+        message: 'Logins retrieved successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Logins retrieval error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to retrieve logins'
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * DELETE /api/auth/logins
+ * Sign out on every device, including this one
+ */
+router.delete('/logins',
+  authenticate,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      await TokenService.revokeUser(req.user!.userId, 'signed out everywhere');
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Signed out on all devices'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      console.error('Logins revocation error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to revoke logins'
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * DELETE /api/auth/logins/:familyId
+ * Sign out on one of the current user's devices
+ */
+router.delete('/logins/:familyId',
+  authenticate,
+  validateParams(LoginParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      await TokenService.revokeSession(req.user!.userId, req.params.familyId as string, 'signed out by user');
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Login revoked successfully'
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      const statusCode = (error as any)?.statusCode || 500;
+      console.error('Login revocation error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: statusCode === 404 ? (error as Error).message : 'Failed to revoke login'
+      };
+      res.status(statusCode).json(response);
+    }
+  }
+);
+
 /**
  * POST /api/auth/sessions/create
  * Create a new interview session (interviewer only)
@@ -274,11 +655,13 @@ router.post('/sessions/create',
         sessionId,
         candidateId,
         candidateName,
+        interviewerId: interviewer.userId,
         startTime: new Date(),
         status: SessionStatus.ACTIVE
       });
 
       await session.save();
+      await SessionAccessService.assign(sessionId, interviewer.userId, AssignmentRole.PRIMARY, req.user!.userId);
 
       const response: ApiResponse<{
         session: any;
@@ -314,7 +697,7 @@ router.post('/sessions/pair',
   validateRequest(SessionPairingSchema),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { sessionId, interviewerUserId } = req.body;
+      const { sessionId, interviewerUserId, role } = req.body;
 
       // Verify interviewer exists and is active
       const interviewer = await User.findOne({ 
@@ -347,17 +730,31 @@ router.post('/sessions/pair',
         return;
       }
 
-      // In a more complex implementation, you might store interviewer-session relationships
-      // For now, we'll just verify the pairing is valid
+      // Only the session's primary interviewer (or an admin) may pair others
+      if (!(await SessionAccessService.canAccess(req.user!, session, 'assign'))) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Access denied. Cannot access this session.'
+        };
+        res.status(403).json(response);
+        return;
+      }
+
+      // A session without an owner gets the paired interviewer as its primary
+      const assignmentRole = role || (session.interviewerId ? AssignmentRole.SECONDARY : AssignmentRole.PRIMARY);
+      const assignment = await SessionAccessService.assign(sessionId, interviewer.userId, assignmentRole, req.user!.userId);
+
       const response: ApiResponse<{
         session: any;
         interviewer: any;
+        assignment: any;
         paired: boolean;
       }> = {
         success: true,
         data: {
           session: session.toJSON(),
           interviewer: interviewer.toJSON(),
+          assignment: assignment.toJSON(),
           paired: true
         },
         message: 'Session paired successfully'
@@ -389,10 +786,11 @@ router.get('/sessions',
         // Candidates can only see their own sessions
         sessions = await InterviewSession.find({ candidateId: req.user!.userId }).sort({ startTime: -1 });
       } else if (req.user!.role === UserRole.INTERVIEWER) {
-        // Interviewers can see all active sessions (in a real app, this would be filtered by assignment)
-        sessions = await InterviewSession.find({ status: SessionStatus.ACTIVE }).sort({ startTime: -1 });
-      } else if (req.user!.role === UserRole.ADMIN) {
-        // Admins can see all sessions
+        // Interviewers can see the active sessions they are assigned to
+        const assigned = await SessionAccessService.assignedSessionFilter(req.user!.userId);
+        sessions = await InterviewSession.find({ ...assigned, status: SessionStatus.ACTIVE }).sort({ startTime: -1 });
+      } else if (isAdminRole(req.user!.role)) {
+        // Admins see every session of their organization (super admins see all)
         sessions = await InterviewSession.find().sort({ startTime: -1 });
       }
 
@@ -435,7 +833,7 @@ router.get('/sessions/:sessionId',
       }
 
       // Check access permissions
-      if (req.user!.role === UserRole.CANDIDATE && session.candidateId !== req.user!.userId) {
+      if (!(await SessionAccessService.canAccess(req.user!, session, 'view'))) {
         const response: ApiResponse = {
           success: false,
           error: 'Access denied. Cannot access this session.'
@@ -487,6 +885,15 @@ router.put('/sessions/:sessionId/end',
         return;
       }
 
+      if (!(await SessionAccessService.canAccess(req.user!, session, 'manage'))) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Access denied. Cannot access this session.'
+        };
+        res.status(403).json(response);
+        return;
+      }
+
       // End the session
       session.endTime = new Date();
       session.status = SessionStatus.COMPLETED;
@@ -0,0 +1,156 @@
+import express, { Request, Response } from 'express';
+import fs from 'fs';
+import { z } from 'zod';
+import { CandidateDataService } from '../services/candidateDataService';
+import { AuditService } from '../services/auditService';
+import { authenticate, authorize } from '../middleware/auth';
+import { validateRequest, validateParams } from '../middleware/validation';
+import { CandidateErasureSchema, UserRole, AuditAction, ApiResponse } from '../types';
+
+const router = express.Router();
+
+// Validation schemas
+const CandidateParamsSchema = z.object({
+  candidateId: z.string().uuid()
+});
+
+const RequestParamsSchema = z.object({
+  requestId: z.string().uuid()
+});
+
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  const statusCode = (error as any)?.statusCode || 500;
+  res.status(statusCode).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback
+  });
+};
+
+/**
+ * GET /api/candidates/:candidateId/export
+ * Download everything held about a candidate as a .tar.gz (profile, sessions, events,
+ * observations, reports and recordings). The request is logged with the archive's SHA-256.
+ */
+router.get('/:candidateId/export',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateParams(CandidateParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { request, archivePath, filename } = await CandidateDataService.exportCandidateData(
+        req.params.candidateId as string,
+        req.user!.userId
+      );
+
+      await AuditService.record(AuditService.actorFromRequest(req), {
+        action: AuditAction.CANDIDATE_EXPORT,
+        targetType: 'candidate',
+        targetId: request.candidateId,
+        organizationId: request.organizationId,
+        after: { requestId: request.requestId, archiveSha256: request.archiveSha256 }
+      });
+
+      res.setHeader('X-Request-Id', request.requestId);
+      res.setHeader('X-Archive-Sha256', request.archiveSha256!);
+      res.download(archivePath, filename, error => {
+        if (error) {
+          console.error('Error sending candidate export:', error);
+        }
+        fs.promises.unlink(archivePath).catch(() => undefined);
+      });
+    } catch (error) {
+      console.error('Error exporting candidate data:', error);
+      sendError(res, error, 'Failed to export candidate data');
+    }
+  }
+);
+
+/**
+ * POST /api/candidates/:candidateId/erasure
+ * Erase a candidate's personal data (mode: anonymize, the default, or delete)
+ */
+router.post('/:candidateId/erasure',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateParams(CandidateParamsSchema),
+  validateRequest(CandidateErasureSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const request = await CandidateDataService.eraseCandidateData(
+        req.params.candidateId as string,
+        req.body.mode,
+        req.user!.userId
+      );
+
+      await AuditService.record(AuditService.actorFromRequest(req), {
+        action: AuditAction.CANDIDATE_ERASURE,
+        targetType: 'candidate',
+        targetId: request.candidateId,
+        organizationId: request.organizationId,
+        after: { requestId: request.requestId, mode: request.mode, failures: request.failures.length }
+      });
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: request,
+        message: request.failures.length > 0
+          ? `Erasure completed with ${request.failures.length} failure(s)`
+          : 'Candidate data erased'
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error erasing candidate data:', error);
+      sendError(res, error, 'Failed to erase candidate data');
+    }
+  }
+);
+
+/**
+ * GET /api/candidates/:candidateId/requests
+ * Completion log of the candidate's export and erasure requests
+ */
+router.get('/:candidateId/requests',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateParams(CandidateParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const requests = await CandidateDataService.listRequests(req.params.candidateId as string);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: requests
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error listing data subject requests:', error);
+      sendError(res, error, 'Failed to list data subject requests');
+    }
+  }
+);
+
+/**
+ * GET /api/candidates/requests/:requestId/verify
+ * Check a logged request against its digest and, for erasures, that no erased data remains
+ */
+router.get('/requests/:requestId/verify',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateParams(RequestParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const verification = await CandidateDataService.verifyRequest(req.params.requestId as string);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: verification
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error verifying data subject request:', error);
+      sendError(res, error, 'Failed to verify data subject request');
+    }
+  }
+);
+
+export default router;
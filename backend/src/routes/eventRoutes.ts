@@ -1,6 +1,10 @@
 import express, { Request, Response } from 'express';
 import { DetectionEvent } from '../models/DetectionEvent';
 import { InterviewSession } from '../models/InterviewSession';
+import { ManualObservation } from '../models/ManualObservation';
+import { ScoringPolicyService } from '../services/scoringPolicyService';
+import { SessionAccessService } from '../services/sessionAccessService';
+import { AuditService } from '../services/auditService';
 import { authenticate, authorize } from '../middleware/auth';
 import { validateRequest, validateParams, validateQuery } from '../middleware/validation';
 import {
@@ -8,11 +12,14 @@ import {
   EventQuerySchema,
   SessionParamsSchema,
   UserRole,
+  AuditAction,
+  isAdminRole,
   EventType,
   ApiResponse,
   PaginatedDetectionEvents,
   Pagination
 } from '../types';
+import { calculateIntegrityBreakdown, summarizeEventTypes } from '../utils/integrityScoring';
 
 const router = express.Router();
 
@@ -58,6 +65,14 @@ router.post('/',
           res.status(403).json(response);
           return;
         }
+      } else if (!(await SessionAccessService.canAccess(req.user!, session, 'manage'))) {
+        // Interviewers may only log events for sessions they manage
+        const response: ApiResponse = {
+          success: false,
+          error: 'Access denied. Cannot log events for this session.'
+        };
+        res.status(403).json(response);
+        return;
       }
 
       // Create the detection event
@@ -117,7 +132,7 @@ router.get('/:sessionId',
       }
 
       // Check access permissions
-      if (req.user!.role === UserRole.CANDIDATE && session.candidateId !== req.user!.userId) {
+      if (!(await SessionAccessService.canAccess(req.user!, session, 'view'))) {
         const response: ApiResponse = {
           success: false,
           error: 'Access denied. Cannot access events for this session.'
@@ -217,7 +232,7 @@ router.get('/:sessionId/summary',
       }
 
       // Check access permissions
-      if (req.user!.role === UserRole.CANDIDATE && session.candidateId !== req.user!.userId) {
+      if (!(await SessionAccessService.canAccess(req.user!, session, 'view'))) {
         const response: ApiResponse = {
           success: false,
           error: 'Access denied. Cannot access events for this session.'
@@ -251,60 +266,18 @@ router.get('/:sessionId/summary',
         };
       });
 
-      // Calculate integrity score (basic implementation)
-      let integrityScore = 100;
-  const focusLossCount = summaryByType[EventType.FOCUS_LOSS]?.count || 0;
-      const absenceCount = summaryByType[EventType.ABSENCE]?.count || 0;
-      const multipleFacesCount = summaryByType[EventType.MULTIPLE_FACES]?.count || 0;
-      const unauthorizedItemsCount = summaryByType[EventType.UNAUTHORIZED_ITEM]?.count || 0;
-  const drowsinessCount = summaryByType[EventType.DROWSINESS]?.count || 0;
-  const eyeClosureCount = summaryByType[EventType.EYE_CLOSURE]?.count || 0;
-  const excessiveBlinkingCount = summaryByType[EventType.EXCESSIVE_BLINKING]?.count || 0;
-  const backgroundVoiceCount = summaryByType[EventType.BACKGROUND_VOICE]?.count || 0;
-  const multipleVoicesCount = summaryByType[EventType.MULTIPLE_VOICES]?.count || 0;
-  const excessiveNoiseCount = summaryByType[EventType.EXCESSIVE_NOISE]?.count || 0;
-
-      // Calculate individual deductions
-      const focusLossDeduction = focusLossCount * 2;
-      const absenceDeduction = absenceCount * 5;
-      const multipleFacesDeduction = multipleFacesCount * 10;
-      const unauthorizedItemsDeduction = unauthorizedItemsCount * 15;
-
-      // Deduct points based on violations
-      integrityScore -= focusLossDeduction; // 2 points per focus loss
-      integrityScore -= absenceDeduction; // 5 points per absence
-      integrityScore -= multipleFacesDeduction; // 10 points per multiple faces
-      integrityScore -= unauthorizedItemsDeduction; // 15 points per unauthorized item
-
-      integrityScore = Math.max(0, integrityScore); // Ensure score doesn't go below 0
-
-      // Calculate detailed breakdown
-      const totalDeductions = focusLossDeduction + absenceDeduction + multipleFacesDeduction + unauthorizedItemsDeduction;
-      
-      // Create readable formula
-      const deductionParts = [];
-      if (focusLossDeduction > 0) deductionParts.push(`${focusLossCount} focus loss (${focusLossDeduction})`);
-      if (absenceDeduction > 0) deductionParts.push(`${absenceCount} absence (${absenceDeduction})`);
-      if (multipleFacesDeduction > 0) deductionParts.push(`${multipleFacesCount} multiple faces (${multipleFacesDeduction})`);
-      if (unauthorizedItemsDeduction > 0) deductionParts.push(`${unauthorizedItemsCount} unauthorized items (${unauthorizedItemsDeduction})`);
-      
-      const formula = deductionParts.length > 0 
-        ? `100 - [${deductionParts.join(' + ')}] = ${integrityScore}`
-        : `100 - 0 = ${integrityScore}`;
-
-      const integrityBreakdown = {
-        baseScore: 100,
-        deductions: {
-          focusLoss: focusLossDeduction,
-          absence: absenceDeduction,
-          multipleFaces: multipleFacesDeduction,
-          unauthorizedItems: unauthorizedItemsDeduction,
-          manualObservations: 0, // Not calculated in real-time summary
-          total: totalDeductions
-        },
-        finalScore: integrityScore,
-        formula
-      };
+      // Score with the same engine and default policy as generated reports
+      const [scorableEvents, manualObservations, policy] = await Promise.all([
+        DetectionEvent.find({ sessionId }, { eventType: 1, duration: 1 }).lean(),
+        ManualObservation.find({ sessionId, flagged: true }, { severity: 1, flagged: 1 }).lean(),
+        ScoringPolicyService.resolvePolicy()
+      ]);
+      const integrityBreakdown = calculateIntegrityBreakdown(scorableEvents, manualObservations, policy);
+      const integrityScore = integrityBreakdown.finalScore;
+
+      const eventStats = summarizeEventTypes(scorableEvents);
+      const countOf = (eventType: EventType): number =>
+        eventStats.find(stat => stat.eventType === eventType)?.count || 0;
 
       const summary = {
         sessionId,
@@ -315,17 +288,19 @@ router.get('/:sessionId/summary',
         integrityScore,
         integrityBreakdown,
         eventsByType: summaryByType,
+        eventStats,
         counts: {
-          focusLoss: focusLossCount,
-          absence: absenceCount,
-          multipleFaces: multipleFacesCount,
-          unauthorizedItems: unauthorizedItemsCount,
-          drowsiness: drowsinessCount,
-          eyeClosure: eyeClosureCount,
-          excessiveBlinking: excessiveBlinkingCount,
-          backgroundVoice: backgroundVoiceCount,
-          multipleVoices: multipleVoicesCount,
-          excessiveNoise: excessiveNoiseCount
+          focusLoss: countOf(EventType.FOCUS_LOSS),
+          absence: countOf(EventType.ABSENCE),
+          multipleFaces: countOf(EventType.MULTIPLE_FACES),
+          unauthorizedItems: countOf(EventType.UNAUTHORIZED_ITEM),
+          drowsiness: countOf(EventType.DROWSINESS),
+          eyeClosure: countOf(EventType.EYE_CLOSURE),
+          excessiveBlinking: countOf(EventType.EXCESSIVE_BLINKING),
+          backgroundVoice: countOf(EventType.BACKGROUND_VOICE),
+          multipleVoices: countOf(EventType.MULTIPLE_VOICES),
+          excessiveNoise: countOf(EventType.EXCESSIVE_NOISE),
+          identityMismatch: countOf(EventType.IDENTITY_MISMATCH)
         }
       };
 
@@ -366,8 +341,12 @@ router.get('/candidate/:candidateId',
         endDate 
       } = (req as any).validatedQuery;
 
-      // Build query filters
+      // Build query filters, limited to sessions the user is assigned to
       const filters: any = { candidateId };
+      if (!isAdminRole(req.user!.role)) {
+        const assigned = await SessionAccessService.assignedSessionFilter(req.user!.userId);
+        filters.sessionId = { $in: await InterviewSession.distinct('sessionId', { ...assigned, candidateId }) };
+      }
       
       if (eventType) {
         filters.eventType = eventType;
@@ -451,6 +430,16 @@ router.delete('/:sessionId',
       // Delete all events for the session
       const deleteResult = await DetectionEvent.deleteMany({ sessionId });
 
+      await AuditService.record(AuditService.actorFromRequest(req), {
+        action: AuditAction.EVENTS_DELETE,
+        targetType: 'session',
+        targetId: sessionId as string,
+        sessionId: sessionId as string,
+        organizationId: session.organizationId,
+        before: { eventCount: deleteResult.deletedCount },
+        after: { eventCount: 0 }
+      });
+
       const response: ApiResponse<any> = {
         success: true,
         data: {
@@ -0,0 +1,99 @@
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { OidcService } from '../services/oidcService';
+import { TokenService } from '../services/tokenService';
+import { validateQuery } from '../middleware/validation';
+import { securityLogger } from '../utils/logger';
+import { ApiResponse } from '../types';
+
+const router = express.Router();
+
+// Cookie holding the signed sign-in transaction between the redirect and the callback
+const TRANSACTION_COOKIE = 'oidc_tx';
+const COOKIE_PATH = '/api/auth/oidc';
+
+// Validation schemas
+const LoginQuerySchema = z.object({
+  // Frontend path to open after signing in; only same-site paths are accepted
+  returnTo: z.string().regex(/^\/(?![/\\])/).max(500).optional()
+});
+
+const frontendUrl = (): string =>
+  (process.env.FRONTEND_URL || process.env.CORS_ORIGIN || 'http://localhost:5173').replace(/\/+$/, '');
+
+// Tokens go in the URL fragment so they never reach server logs or Referer headers
+const redirectToFrontend = (res: Response, fragment: Record<string, string>): void => {
+  res.redirect(302, `${frontendUrl()}/auth/sso#${new URLSearchParams(fragment).toString()}`);
+};
+
+const readCookie = (req: Request, name: string): string | undefined => {
+  const cookie = (req.headers.cookie || '').split(';').map(part => part.trim()).find(part => part.startsWith(`${name}=`));
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : undefined;
+};
+
+/**
+ * GET /api/auth/oidc/login
+ * Start single sign-on: redirect the browser to the identity provider
+ */
+router.get('/login',
+  validateQuery(LoginQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { authorizationUrl, transaction } = await OidcService.beginLogin((req as any).validatedQuery.returnTo);
+
+      res.cookie(TRANSACTION_COOKIE, transaction, {
+        httpOnly: true,
+        // Sent along with the provider's top-level redirect back to the callback
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: COOKIE_PATH,
+        maxAge: 10 * 60 * 1000
+      });
+      res.redirect(302, authorizationUrl);
+    } catch (error) {
+      console.error('SSO login error:', error);
+      const statusCode = (error as any)?.statusCode || 500;
+      const response: ApiResponse = {
+        success: false,
+        error: statusCode === 500 ? 'Single sign-on is unavailable' : (error as Error).message
+      };
+      res.status(statusCode).json(response);
+    }
+  }
+);
+
+/**
+ * GET /api/auth/oidc/callback
+ * The identity provider's redirect back: provision the user, issue tokens and hand them to the frontend
+ */
+router.get('/callback',
+  async (req: Request, res: Response): Promise<void> => {
+    res.clearCookie(TRANSACTION_COOKIE, { path: COOKIE_PATH });
+    const query = req.query as Record<string, string | undefined>;
+
+    try {
+      const { claims, returnTo } = await OidcService.completeLogin(query, readCookie(req, TRANSACTION_COOKIE));
+      const user = await OidcService.provisionUser(claims);
+
+      const tokens = await TokenService.issueSession(user, { ip: req.ip, userAgent: req.get('user-agent') });
+      await user.updateLastLogin();
+      securityLogger.loginAttempt(req.ip || 'unknown', user.email, true, 'sso');
+
+      redirectToFrontend(res, {
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresIn: String(tokens.expiresIn),
+        ...(returnTo ? { returnTo } : {})
+      });
+    } catch (error) {
+      const statusCode = (error as any)?.statusCode || 500;
+      console.error('SSO callback error:', error);
+      securityLogger.loginAttempt(req.ip || 'unknown', 'sso', false, (error as Error).message);
+      redirectToFrontend(res, {
+        error: statusCode === 500 ? 'Single sign-on failed. Please try again.' : (error as Error).message
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,458 @@
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { OrganizationService } from '../services/organizationService';
+import { TokenService } from '../services/tokenService';
+import { AuditService } from '../services/auditService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { authenticate, authorize } from '../middleware/auth';
+import { validateRequest, validateParams, validateQuery } from '../middleware/validation';
+import {
+  CreateOrganizationSchema,
+  UpdateOrganizationSchema,
+  CreateOrganizationUserSchema,
+  UpdateOrganizationUserSchema,
+  TwoFactorPolicySchema,
+  UserRole,
+  AuditAction,
+  ApiResponse
+} from '../types';
+
+const router = express.Router();
+
+// Validation schemas
+const OrganizationParamsSchema = z.object({
+  organizationId: z.string().uuid()
+});
+
+const UserParamsSchema = z.object({
+  userId: z.string().uuid()
+});
+
+const UserLoginParamsSchema = z.object({
+  userId: z.string().uuid(),
+  familyId: z.string().uuid()
+});
+
+const UserQuerySchema = z.object({
+  role: z.nativeEnum(UserRole).optional(),
+  organizationId: z.string().uuid().optional()
+});
+
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  const statusCode = (error as any)?.statusCode || 500;
+  res.status(statusCode).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback
+  });
+};
+
+/**
+ * GET /api/organizations
+ * List all organizations (super admin only)
+ */
+router.get('/',
+  authenticate,
+  authorize(UserRole.SUPER_ADMIN),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const organizations = await OrganizationService.listOrganizations();
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: organizations
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error listing organizations:', error);
+      sendError(res, error, 'Failed to list organizations');
+    }
+  }
+);
+
+/**
+ * POST /api/organizations
+ * Create an organization, optionally with its first admin (super admin only)
+ */
+router.post('/',
+  authenticate,
+  authorize(UserRole.SUPER_ADMIN),
+  validateRequest(CreateOrganizationSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { organization, admin } = await OrganizationService.createOrganization(req.body);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: { organization, admin },
+        message: `Organization ${organization.name} created`
+      };
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Error creating organization:', error);
+      sendError(res, error, 'Failed to create organization');
+    }
+  }
+);
+
+/**
+ * GET /api/organizations/current
+ * Get the organization of the authenticated user
+ */
+router.get('/current',
+  authenticate,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user!.organizationId) {
+        res.status(404).json({
+          success: false,
+          error: 'User does not belong to an organization'
+        });
+        return;
+      }
+
+      const organization = await OrganizationService.getOrganization(req.user!.organizationId);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: organization
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error getting current organization:', error);
+      sendError(res, error, 'Failed to get organization');
+    }
+  }
+);
+
+/**
+ * GET /api/organizations/users
+ * List users of the admin's organization (super admins may pass ?organizationId=)
+ */
+router.get('/users',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateQuery(UserQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const users = await OrganizationService.listUsers((req as any).validatedQuery);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: users
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error listing organization users:', error);
+      sendError(res, error, 'Failed to list users');
+    }
+  }
+);
+
+/**
+ * POST /api/organizations/users
+ * Create a candidate, interviewer or admin in the admin's organization
+ */
+router.post('/users',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateRequest(CreateOrganizationUserSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await OrganizationService.createUser(req.body, req.user!);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: user,
+        message: 'User created successfully'
+      };
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Error creating organization user:', error);
+      sendError(res, error, 'Failed to create user');
+    }
+  }
+);
+
+/**
+ * PATCH /api/organizations/users/:userId
+ * Change the role or active flag of a user in the admin's organization
+ */
+router.patch('/users/:userId',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateParams(UserParamsSchema),
+  validateRequest(UpdateOrganizationUserSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await OrganizationService.updateUser(req.params.userId as string, req.body, req.user!);
+
+      // Tokens carry the role, and a deactivated user's open sockets have to close
+      if (req.body.isActive === false || req.body.role) {
+        await TokenService.revokeUser(user.userId, 'account updated by administrator', req.user!.userId);
+      }
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: user,
+        message: 'User updated successfully'
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error updating organization user:', error);
+      sendError(res, error, 'Failed to update user');
+    }
+  }
+);
+
+/**
+ * GET /api/organizations/users/:userId/logins
+ * The user's signed-in devices
+ */
+router.get('/users/:userId/logins',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateParams(UserParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await OrganizationService.getManagedUser(req.params.userId as string, req.user!);
+      const logins = await TokenService.listSessions(user.userId);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: logins
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error listing user logins:', error);
+      sendError(res, error, 'Failed to list user logins');
+    }
+  }
+);
+
+/**
+ * DELETE /api/organizations/users/:userId/logins/:familyId
+ * Sign the user out of one device (e.g. a lost or compromised laptop), effective immediately
+ */
+router.delete('/users/:userId/logins/:familyId',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateParams(UserLoginParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await OrganizationService.getManagedUser(req.params.userId as string, req.user!);
+      const familyId = req.params.familyId as string;
+      await TokenService.revokeSession(user.userId, familyId, 'revoked by administrator', req.user!.userId);
+
+      await AuditService.record(AuditService.actorFromRequest(req), {
+        action: AuditAction.USER_TOKENS_REVOKE,
+        targetType: 'user',
+        targetId: user.userId,
+        organizationId: user.organizationId,
+        after: { scope: 'login', familyId }
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Login revoked successfully'
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error revoking user login:', error);
+      sendError(res, error, 'Failed to revoke login');
+    }
+  }
+);
+
+/**
+ * POST /api/organizations/users/:userId/revoke-tokens
+ * Sign the user out everywhere, effective immediately
+ */
+router.post('/users/:userId/revoke-tokens',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateParams(UserParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await OrganizationService.getManagedUser(req.params.userId as string, req.user!);
+      await TokenService.revokeUser(user.userId, 'revoked by administrator', req.user!.userId);
+
+      await AuditService.record(AuditService.actorFromRequest(req), {
+        action: AuditAction.USER_TOKENS_REVOKE,
+        targetType: 'user',
+        targetId: user.userId,
+        organizationId: user.organizationId,
+        after: { scope: 'all' }
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'User tokens revoked successfully'
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error revoking user tokens:', error);
+      sendError(res, error, 'Failed to revoke user tokens');
+    }
+  }
+);
+
+/**
+ * POST /api/organizations/users/:userId/two-factor/reset
+ * Remove the user's second factor (lost device); they enroll again at their next sign-in if required
+ */
+router.post('/users/:userId/two-factor/reset',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateParams(UserParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await OrganizationService.getManagedUser(req.params.userId as string, req.user!);
+      await TwoFactorService.reset(user, req.user!.userId);
+      // Sessions started with the removed factor should not outlive it
+      await TokenService.revokeUser(user.userId, 'two-factor reset by administrator', req.user!.userId);
+
+      await AuditService.record(AuditService.actorFromRequest(req), {
+        action: AuditAction.USER_TWO_FACTOR_RESET,
+        targetType: 'user',
+        targetId: user.userId,
+        organizationId: user.organizationId,
+        before: { twoFactorEnabled: user.twoFactorEnabled },
+        after: { twoFactorEnabled: false }
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Two-factor authentication reset'
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error resetting two-factor authentication:', error);
+      sendError(res, error, 'Failed to reset two-factor authentication');
+    }
+  }
+);
+
+/**
+ * GET /api/organizations/current/two-factor-policy
+ * Roles the admin's organization requires two-factor authentication for
+ */
+router.get('/current/two-factor-policy',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user!.organizationId) {
+        res.status(404).json({
+          success: false,
+          error: 'User does not belong to an organization'
+        });
+        return;
+      }
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: { requiredRoles: await TwoFactorService.getPolicy(req.user!.organizationId) }
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error getting two-factor policy:', error);
+      sendError(res, error, 'Failed to get two-factor policy');
+    }
+  }
+);
+
+/**
+ * PUT /api/organizations/current/two-factor-policy
+ * Require two-factor authentication for roles; their members enroll at their next sign-in
+ */
+router.put('/current/two-factor-policy',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateRequest(TwoFactorPolicySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const organizationId = req.user!.organizationId;
+      if (!organizationId) {
+        res.status(404).json({
+          success: false,
+          error: 'User does not belong to an organization'
+        });
+        return;
+      }
+
+      const before = await TwoFactorService.getPolicy(organizationId);
+      const requiredRoles = await TwoFactorService.updatePolicy(organizationId, req.body.requiredRoles);
+
+      await AuditService.record(AuditService.actorFromRequest(req), {
+        action: AuditAction.TWO_FACTOR_POLICY_UPDATE,
+        targetType: 'organization',
+        targetId: organizationId,
+        organizationId,
+        before: { requiredRoles: before },
+        after: { requiredRoles }
+      });
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: { requiredRoles },
+        message: 'Two-factor policy updated'
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error updating two-factor policy:', error);
+      sendError(res, error, 'Failed to update two-factor policy');
+    }
+  }
+);
+
+/**
+ * GET /api/organizations/:organizationId
+ * Get an organization (super admin only)
+ */
+router.get('/:organizationId',
+  authenticate,
+  authorize(UserRole.SUPER_ADMIN),
+  validateParams(OrganizationParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const organization = await OrganizationService.getOrganization(req.params.organizationId as string);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: organization
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error getting organization:', error);
+      sendError(res, error, 'Failed to get organization');
+    }
+  }
+);
+
+/**
+ * PATCH /api/organizations/:organizationId
+ * Rename or (de)activate an organization (super admin only)
+ */
+router.patch('/:organizationId',
+  authenticate,
+  authorize(UserRole.SUPER_ADMIN),
+  validateParams(OrganizationParamsSchema),
+  validateRequest(UpdateOrganizationSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const organization = await OrganizationService.updateOrganization(req.params.organizationId as string, req.body);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: organization,
+        message: 'Organization updated successfully'
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error updating organization:', error);
+      sendError(res, error, 'Failed to update organization');
+    }
+  }
+);
+
+export default router;
@@ -1,7 +1,10 @@
 import express, { Request, Response } from 'express';
 import { ReportService } from '../services/reportService';
+import { AuditService } from '../services/auditService';
 import { validateRequest, validateParams, validateQuery } from '../middleware/validation';
 import { authenticate } from '../middleware/auth';
+import { requireSessionAccess, requireReportAccess, requireObservationAccess } from '../middleware/sessionAccess';
+import { AuditAction } from '../types';
 import { z } from 'zod';
 
 const router = express.Router();
@@ -9,7 +12,9 @@ const router = express.Router();
 // Validation schemas
 const GenerateReportSchema = z.object({
   sessionId: z.string().uuid(),
-  includeManualObservations: z.boolean().optional().default(true)
+  includeManualObservations: z.boolean().optional().default(true),
+  scoringPolicy: z.string().min(1).max(50).optional(),
+  scoringPolicyVersion: z.number().int().positive().optional()
 });
 
 const ReportParamsSchema = z.object({
@@ -36,18 +41,31 @@ const UpdateObservationSchema = z.object({
   flagged: z.boolean()
 });
 
+const VerifyParamsSchema = z.object({
+  code: z.string().min(12).max(20)
+});
+
+const VerifyQuerySchema = z.object({
+  // SHA-256 of the file being checked, to confirm it is the exact file issued
+  sha256: z.string().regex(/^[0-9a-fA-F]{64}$/).optional()
+});
+
 /**
  * POST /api/reports/generate
- * Generate a new proctoring report for a session
+ * Generate a new proctoring report for a session, optionally scored with a named policy
  */
 router.post('/generate', 
   authenticate,
   validateRequest(GenerateReportSchema),
+  requireSessionAccess('manage', 'body'),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { sessionId, includeManualObservations } = req.body;
+      const { sessionId, includeManualObservations, scoringPolicy, scoringPolicyVersion } = req.body;
+      const policySelector = scoringPolicy
+        ? { name: scoringPolicy, version: scoringPolicyVersion }
+        : undefined;
       
-      const reportId = await ReportService.generateReport(sessionId, includeManualObservations);
+      const reportId = await ReportService.generateReport(sessionId, includeManualObservations, policySelector);
       
       res.status(202).json({
         success: true,
@@ -58,7 +76,8 @@ router.post('/generate',
       });
     } catch (error) {
       console.error('Error generating report:', error);
-      res.status(500).json({
+      const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 500;
+      res.status(statusCode).json({
         success: false,
         error: error instanceof Error ? error.message : 'Failed to generate report'
       });
@@ -66,6 +85,35 @@ router.post('/generate',
   }
 );
 
+/**
+ * GET /api/reports/verify/:code
+ * Public: check an exported PDF or CSV against the stored report using the code printed on it
+ */
+router.get('/verify/:code',
+  validateParams(VerifyParamsSchema),
+  validateQuery(VerifyQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const verification = await ReportService.verifyExport(
+        req.params.code as string,
+        (req as any).validatedQuery.sha256
+      );
+
+      res.json({
+        success: true,
+        data: verification
+      });
+    } catch (error) {
+      console.error('Error verifying report export:', error);
+      const statusCode = (error as any)?.statusCode || 500;
+      res.status(statusCode).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to verify report'
+      });
+    }
+  }
+);
+
 /**
  * GET /api/reports/:reportId/status
  * Get report generation status
@@ -73,11 +121,12 @@ router.post('/generate',
 router.get('/:reportId/status',
   authenticate,
   validateParams(ReportParamsSchema),
+  requireReportAccess('view'),
   async (req: Request, res: Response): Promise<void> => {
     try {
       const { reportId } = req.params;
       
-      const status = ReportService.getReportStatus(reportId as string);
+      const status = await ReportService.getReportStatus(reportId as string);
       
       if (!status) {
         res.status(404).json({
@@ -101,6 +150,35 @@ router.get('/:reportId/status',
   }
 );
 
+/**
+ * POST /api/reports/:reportId/cancel
+ * Cancel a pending or in-progress report generation job
+ */
+router.post('/:reportId/cancel',
+  authenticate,
+  validateParams(ReportParamsSchema),
+  requireReportAccess('manage'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { reportId } = req.params;
+
+      const status = await ReportService.cancelReportGeneration(reportId as string);
+
+      res.json({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      console.error('Error cancelling report generation:', error);
+      const statusCode = (error as any)?.statusCode || 500;
+      res.status(statusCode).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel report generation'
+      });
+    }
+  }
+);
+
 /**
  * GET /api/reports/:reportId
  * Get completed report data
@@ -108,6 +186,7 @@ router.get('/:reportId/status',
 router.get('/:reportId',
   authenticate,
   validateParams(ReportParamsSchema),
+  requireReportAccess('view'),
   async (req: Request, res: Response): Promise<void> => {
     try {
       const { reportId } = req.params;
@@ -131,31 +210,38 @@ router.get('/:reportId',
 
 /**
  * GET /api/reports/:reportId/export
- * Export report as PDF or CSV (checks Cloudinary first, generates if needed)
+ * Export report as PDF or CSV (redirects to the archived export if there is one, generates it otherwise)
  */
 router.get('/:reportId/export',
   authenticate,
   validateParams(ReportParamsSchema),
   validateQuery(ExportQuerySchema),
+  requireReportAccess('view'),
   async (req: Request, res: Response): Promise<void> => {
     try {
       const { reportId } = req.params;
       const { format, includeManualObservations } = (req as any).validatedQuery;
       
-      // First check if we have Cloudinary URLs available
+      // Archived exports are served from storage through a short-lived signed URL
       const report = await ReportService.getReport(reportId as string);
-      
-      if (format === 'pdf' && report.cloudinaryPdfUrl) {
-        // Redirect to Cloudinary URL for faster delivery
-        res.redirect(report.cloudinaryPdfUrl);
-        return;
-      } else if (format === 'csv' && report.cloudinaryCsvUrl) {
-        // Redirect to Cloudinary URL for faster delivery
-        res.redirect(report.cloudinaryCsvUrl);
+      const archivedUrl = await ReportService.getArchivedExportUrl(report, format);
+
+      const audit = {
+        action: AuditAction.REPORT_EXPORT,
+        targetType: 'report' as const,
+        targetId: reportId as string,
+        sessionId: report.sessionId,
+        organizationId: report.organizationId,
+        after: { format, includeManualObservations, archived: !!archivedUrl }
+      };
+
+      if (archivedUrl) {
+        await AuditService.record(AuditService.actorFromRequest(req), audit);
+        res.redirect(archivedUrl);
         return;
       }
       
-      // Generate file if not available in Cloudinary
+      // Generate file if it was not archived
       let buffer: Buffer;
       let contentType: string;
       let filename: string;
@@ -170,6 +256,8 @@ router.get('/:reportId/export',
         filename = `proctoring-report-${reportId}.csv`;
       }
       
+      await AuditService.record(AuditService.actorFromRequest(req), audit);
+
       res.setHeader('Content-Type', contentType);
       res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
       res.setHeader('Content-Length', buffer.length);
@@ -188,21 +276,24 @@ router.get('/:reportId/export',
 
 /**
  * GET /api/reports/:reportId/cloud-links
- * Get Cloudinary URLs for report files
+ * Get signed download URLs for the archived report files
  */
 router.get('/:reportId/cloud-links',
   authenticate,
   validateParams(ReportParamsSchema),
+  requireReportAccess('view'),
   async (req: Request, res: Response): Promise<void> => {
     try {
       const { reportId } = req.params;
       
       const report = await ReportService.getReport(reportId as string);
       
+      const pdfUrl = await ReportService.getArchivedExportUrl(report, 'pdf');
+      const csvUrl = await ReportService.getArchivedExportUrl(report, 'csv');
       const cloudLinks = {
-        pdfUrl: report.cloudinaryPdfUrl || null,
-        csvUrl: report.cloudinaryCsvUrl || null,
-        available: !!(report.cloudinaryPdfUrl || report.cloudinaryCsvUrl)
+        pdfUrl,
+        csvUrl,
+        available: !!(pdfUrl || csvUrl)
       };
       
       res.json({
@@ -227,6 +318,7 @@ router.get('/:reportId/cloud-links',
 router.post('/observations',
   authenticate,
   validateRequest(ManualObservationSchema),
+  requireSessionAccess('manage', 'body'),
   async (req: Request, res: Response): Promise<void> => {
     try {
       const { sessionId, observationType, description, severity, flagged } = req.body;
@@ -262,6 +354,7 @@ router.post('/observations',
 router.get('/observations/:sessionId',
   authenticate,
   validateParams(z.object({ sessionId: z.string().uuid() })),
+  requireSessionAccess('view'),
   async (req: Request, res: Response): Promise<void> => {
     try {
       const { sessionId } = req.params;
@@ -290,12 +383,17 @@ router.patch('/observations/:observationId/flag',
   authenticate,
   validateParams(z.object({ observationId: z.string().uuid() })),
   validateRequest(UpdateObservationSchema),
+  requireObservationAccess('manage'),
   async (req: Request, res: Response): Promise<void> => {
     try {
       const { observationId } = req.params;
       const { flagged } = req.body;
       
-      const observation = await ReportService.updateObservationFlag(observationId as string, flagged);
+      const observation = await ReportService.updateObservationFlag(
+        observationId as string,
+        flagged,
+        AuditService.actorFromRequest(req)
+      );
       
       res.json({
         success: true,
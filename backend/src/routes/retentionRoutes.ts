@@ -0,0 +1,271 @@
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { RetentionService } from '../services/retentionService';
+import { retentionPurger } from '../services/retentionPurger';
+import { authenticate, authorize } from '../middleware/auth';
+import { validateRequest, validateParams, validateQuery } from '../middleware/validation';
+import {
+  RetentionPolicySchema,
+  RetentionPurgeSchema,
+  LegalHoldSchema,
+  UserRole,
+  ApiResponse
+} from '../types';
+
+const router = express.Router();
+
+// Validation schemas
+const OrganizationQuerySchema = z.object({
+  // Only honoured for super admins acting on another organization
+  organizationId: z.string().uuid().optional()
+});
+
+const PurgeListQuerySchema = OrganizationQuerySchema.extend({
+  limit: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().int().min(1).max(100)).optional()
+});
+
+const PurgeParamsSchema = z.object({
+  purgeId: z.string().uuid()
+});
+
+const SessionParamsSchema = z.object({
+  sessionId: z.string().uuid()
+});
+
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  const statusCode = (error as any)?.statusCode || 500;
+  res.status(statusCode).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback
+  });
+};
+
+// Organization the request acts on: the admin's own, or the one a super admin names
+const targetOrganizationId = (req: Request): string | undefined => {
+  const requested = (req as any).validatedQuery?.organizationId;
+  return req.user!.role === UserRole.SUPER_ADMIN && requested ? requested : req.user!.organizationId;
+};
+
+const requireOrganization = (req: Request, res: Response): string | null => {
+  const organizationId = targetOrganizationId(req);
+  if (!organizationId) {
+    res.status(400).json({
+      success: false,
+      error: 'No organization selected; pass ?organizationId='
+    });
+    return null;
+  }
+  return organizationId;
+};
+
+/**
+ * GET /api/retention/policy
+ * Retention windows in force for the organization, and which of them it overrides
+ */
+router.get('/policy',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateQuery(OrganizationQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const organizationId = requireOrganization(req, res);
+      if (!organizationId) return;
+
+      const policy = await RetentionService.getPolicy(organizationId);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: { ...policy, defaults: RetentionService.defaultWindows() }
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error getting retention policy:', error);
+      sendError(res, error, 'Failed to get retention policy');
+    }
+  }
+);
+
+/**
+ * PUT /api/retention/policy
+ * Override retention windows (in days) for the organization; null restores the server default
+ */
+router.put('/policy',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateQuery(OrganizationQuerySchema),
+  validateRequest(RetentionPolicySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const organizationId = requireOrganization(req, res);
+      if (!organizationId) return;
+
+      const policy = await RetentionService.updatePolicy(organizationId, req.body);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: { ...policy, defaults: RetentionService.defaultWindows() },
+        message: 'Retention policy updated'
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error updating retention policy:', error);
+      sendError(res, error, 'Failed to update retention policy');
+    }
+  }
+);
+
+/**
+ * POST /api/retention/purge
+ * Run a purge for the organization now. Defaults to a dry run listing what would be deleted.
+ */
+router.post('/purge',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateQuery(OrganizationQuerySchema),
+  validateRequest(RetentionPurgeSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const organizationId = requireOrganization(req, res);
+      if (!organizationId) return;
+
+      const purge = await retentionPurger.purgeOrganization(organizationId, {
+        dryRun: req.body.dryRun,
+        requestedBy: req.user!.userId
+      });
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: purge,
+        message: purge.dryRun ? 'Dry run completed; nothing was deleted' : 'Retention purge completed'
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error running retention purge:', error);
+      sendError(res, error, 'Failed to run retention purge');
+    }
+  }
+);
+
+/**
+ * GET /api/retention/purges
+ * Recent purge runs of the organization (without their item lists)
+ */
+router.get('/purges',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateQuery(PurgeListQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const purges = await RetentionService.listPurges((req as any).validatedQuery.limit);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: purges
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error listing retention purges:', error);
+      sendError(res, error, 'Failed to list retention purges');
+    }
+  }
+);
+
+/**
+ * GET /api/retention/purges/:purgeId
+ * A purge run with everything it deleted
+ */
+router.get('/purges/:purgeId',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateParams(PurgeParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const purge = await RetentionService.getPurge(req.params.purgeId as string);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: purge
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error getting retention purge:', error);
+      sendError(res, error, 'Failed to get retention purge');
+    }
+  }
+);
+
+/**
+ * GET /api/retention/legal-holds
+ * Sessions currently exempt from purges
+ */
+router.get('/legal-holds',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const sessions = await RetentionService.listLegalHolds();
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: sessions
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error listing legal holds:', error);
+      sendError(res, error, 'Failed to list legal holds');
+    }
+  }
+);
+
+/**
+ * PUT /api/retention/legal-holds/:sessionId
+ * Place a session on legal hold
+ */
+router.put('/legal-holds/:sessionId',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateParams(SessionParamsSchema),
+  validateRequest(LegalHoldSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const session = await RetentionService.placeLegalHold(req.params.sessionId as string, req.body.reason, req.user!.userId);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: { sessionId: session.sessionId, legalHold: session.legalHold },
+        message: 'Legal hold placed'
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error placing legal hold:', error);
+      sendError(res, error, 'Failed to place legal hold');
+    }
+  }
+);
+
+/**
+ * DELETE /api/retention/legal-holds/:sessionId
+ * Release a legal hold; the session's data becomes subject to retention again
+ */
+router.delete('/legal-holds/:sessionId',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateParams(SessionParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const session = await RetentionService.releaseLegalHold(req.params.sessionId as string);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: { sessionId: session.sessionId },
+        message: 'Legal hold released'
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error releasing legal hold:', error);
+      sendError(res, error, 'Failed to release legal hold');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,105 @@
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { ScoringPolicyService } from '../services/scoringPolicyService';
+import { authenticate, authorize } from '../middleware/auth';
+import { validateRequest, validateParams, validateQuery } from '../middleware/validation';
+import { CreateScoringPolicySchema, UserRole, ApiResponse } from '../types';
+
+const router = express.Router();
+
+// Validation schemas
+const PolicyParamsSchema = z.object({
+  name: z.string().min(1).max(50)
+});
+
+const PolicyQuerySchema = z.object({
+  version: z.string().regex(/^\d+$/).transform(Number).optional()
+});
+
+/**
+ * GET /api/scoring-policies
+ * List available scoring policies and their versions
+ */
+router.get('/',
+  authenticate,
+  authorize(UserRole.INTERVIEWER, UserRole.ADMIN),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const policies = await ScoringPolicyService.listPolicies();
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: policies
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error listing scoring policies:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list scoring policies'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/scoring-policies/:name
+ * Get a scoring policy (latest version unless ?version= is given)
+ */
+router.get('/:name',
+  authenticate,
+  authorize(UserRole.INTERVIEWER, UserRole.ADMIN),
+  validateParams(PolicyParamsSchema),
+  validateQuery(PolicyQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name } = req.params;
+      const { version } = (req as any).validatedQuery;
+
+      const policy = await ScoringPolicyService.getPolicy(name as string, version);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: policy
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error getting scoring policy:', error);
+      const statusCode = (error as any)?.statusCode || 500;
+      res.status(statusCode).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get scoring policy'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/scoring-policies
+ * Create a new version of a scoring policy (platform admins only, policies are shared by all organizations)
+ */
+router.post('/',
+  authenticate,
+  authorize(UserRole.SUPER_ADMIN),
+  validateRequest(CreateScoringPolicySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const policy = await ScoringPolicyService.createPolicyVersion(req.body, req.user!.userId);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: policy,
+        message: `Scoring policy ${policy.name} version ${policy.version} created`
+      };
+      res.status(201).json(response);
+    } catch (error) {
+      console.error('Error creating scoring policy:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create scoring policy'
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,19 +1,38 @@
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { InterviewSession } from '../models/InterviewSession';
+import { InterviewSession, InterviewSessionDocument } from '../models/InterviewSession';
 import { ManualObservation } from '../models/ManualObservation';
 import { authenticate } from '../middleware/auth';
 import { 
   SessionCreationSchema, 
   SessionPairingSchema,
+  SessionAssignmentSchema,
+  InvitationAcceptSchema,
+  SystemCheckSchema,
+  SystemCheckResult,
+  summarizeSystemCheck,
+  IdentityReferenceSchema,
+  IdentityVerificationSchema,
   CreateManualObservationSchema,
   ApiResponse,
   SessionStatus,
   UserRole,
+  isAdminRole,
+  AssignmentRole,
   ObservationType,
-  Severity
+  Severity,
+  AuditAction
 } from '../types';
 import { WebSocketService } from '../services/websocketService';
+import { AuditService } from '../services/auditService';
+import { SessionAccessService, SessionPermission } from '../services/sessionAccessService';
+import {
+  InvitationService,
+  DEFAULT_JOIN_WINDOW_MINUTES,
+  DEFAULT_MAX_DURATION_MINUTES
+} from '../services/invitationService';
+import { IdentityVerificationService } from '../services/identityVerificationService';
+import { IdentityReference } from '../models/IdentityReference';
 
 const router = express.Router();
 
@@ -24,14 +43,59 @@ export const setWebSocketService = (service: WebSocketService) => {
   wsService = service;
 };
 
-// Create a new interview session
+// Record a status change made through these routes in the audit log
+const auditStatusChange = (req: express.Request, session: InterviewSessionDocument, previousStatus: SessionStatus) =>
+  AuditService.record(AuditService.actorFromRequest(req), {
+    action: session.status === SessionStatus.TERMINATED
+      ? AuditAction.SESSION_TERMINATE
+      : AuditAction.SESSION_STATUS_CHANGE,
+    targetType: 'session',
+    targetId: session.sessionId,
+    sessionId: session.sessionId,
+    organizationId: session.organizationId,
+    before: { status: previousStatus },
+    after: { status: session.status, endTime: session.endTime ?? null }
+  });
+
+// Respond 403 unless the user holds the permission on the session
+const ensureSessionAccess = async (
+  req: express.Request,
+  res: express.Response,
+  session: InterviewSessionDocument,
+  permission: SessionPermission
+): Promise<boolean> => {
+  if (await SessionAccessService.canAccess(req.user!, session, permission)) {
+    return true;
+  }
+  const response: ApiResponse = {
+    success: false,
+    error: 'Forbidden',
+    message: 'You are not assigned to this session'
+  };
+  res.status(403).json(response);
+  return false;
+};
+
+// Respond with the status code carried by service errors (join window, invitations)
+const sendServiceError = (res: express.Response, error: unknown, fallback: string): void => {
+  const statusCode = (error as any)?.statusCode;
+  const response: ApiResponse = {
+    success: false,
+    error: statusCode ? (error as Error).message : 'Internal server error',
+    message: statusCode ? (error as Error).message : fallback
+  };
+  res.status(statusCode || 500).json(response);
+};
+
+// Create a new interview session (immediately active, or scheduled with an invitation)
 router.post('/create', authenticate, async (req, res): Promise<void> => {
   try {
     const validatedData = SessionCreationSchema.parse(req.body);
-  const { candidateName, candidateEmail } = validatedData;
+    const { candidateName, candidateEmail, scheduledStartTime, maxDurationMinutes } = validatedData;
+    const joinWindowMinutes = validatedData.joinWindowMinutes ?? DEFAULT_JOIN_WINDOW_MINUTES;
 
     // Verify interviewer exists and has correct role
-    if (req.user?.role !== UserRole.INTERVIEWER && req.user?.role !== UserRole.ADMIN) {
+    if (!req.user || (req.user.role !== UserRole.INTERVIEWER && !isAdminRole(req.user.role))) {
       const response: ApiResponse = {
         success: false,
         error: 'Unauthorized',
@@ -41,6 +105,16 @@ router.post('/create', authenticate, async (req, res): Promise<void> => {
       return;
     }
 
+    if (scheduledStartTime && scheduledStartTime.getTime() + joinWindowMinutes * 60 * 1000 <= Date.now()) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid schedule',
+        message: 'The join window for this start time has already closed'
+      };
+      res.status(400).json(response);
+      return;
+    }
+
     // Generate unique session ID
     const sessionId = uuidv4();
     
@@ -69,11 +143,24 @@ router.post('/create', authenticate, async (req, res): Promise<void> => {
       candidateName,
       candidateEmail,
       interviewerId: req.user?.userId,
-      startTime: new Date(),
-      status: SessionStatus.ACTIVE
+      // Scheduled sessions keep the planned start until the candidate actually joins
+      startTime: scheduledStartTime || new Date(),
+      status: scheduledStartTime ? SessionStatus.SCHEDULED : SessionStatus.ACTIVE,
+      ...(scheduledStartTime ? {
+        scheduledStartTime,
+        joinWindowMinutes,
+        maxDurationMinutes: maxDurationMinutes ?? DEFAULT_MAX_DURATION_MINUTES
+      } : maxDurationMinutes ? { maxDurationMinutes } : {})
     });
 
     await session.save();
+
+    // The creating interviewer owns the session
+    await SessionAccessService.assign(sessionId, req.user.userId, AssignmentRole.PRIMARY, req.user.userId);
+
+    const invitation = scheduledStartTime
+      ? await InvitationService.createInvitation(session, req.user.userId)
+      : null;
     
     const response: ApiResponse = {
       success: true,
@@ -84,9 +171,13 @@ router.post('/create', authenticate, async (req, res): Promise<void> => {
         candidateEmail,
         interviewerUserId: req.user?.userId,
         startTime: session.startTime,
-        status: session.status
+        status: session.status,
+        scheduledStartTime: session.scheduledStartTime,
+        joinWindow: session.getJoinWindow(),
+        maxDurationMinutes: session.maxDurationMinutes,
+        invitation
       },
-      message: 'Session created successfully'
+      message: scheduledStartTime ? 'Session scheduled successfully' : 'Session created successfully'
     };
 
     res.status(201).json(response);
@@ -101,6 +192,55 @@ router.post('/create', authenticate, async (req, res): Promise<void> => {
   }
 });
 
+// Redeem an invitation to a scheduled session (candidates only)
+router.post('/invitations/accept', authenticate, async (req, res): Promise<void> => {
+  try {
+    if (req.user?.role !== UserRole.CANDIDATE) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Forbidden',
+        message: 'Only candidates can accept invitations'
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    const parsed = InvitationAcceptSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: 'Invitation token is required'
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const session = await InvitationService.redeemInvitation(parsed.data.token, req.user);
+
+    if (wsService) {
+      wsService.broadcastToSession(session.sessionId, 'candidate_joined', {
+        sessionId: session.sessionId,
+        candidateId: req.user.userId,
+        candidateName: req.user.name,
+        candidateEmail: req.user.email,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: session.toJSON(),
+      message: 'Invitation accepted'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error accepting invitation:', error);
+    sendServiceError(res, error, 'Failed to accept invitation');
+  }
+});
+
 // Get session details
 router.get('/:sessionId', authenticate, async (req, res): Promise<void> => {
   try {
@@ -117,10 +257,14 @@ router.get('/:sessionId', authenticate, async (req, res): Promise<void> => {
       return;
     }
 
+    if (!(await ensureSessionAccess(req, res, session, 'view'))) {
+      return;
+    }
+
     // Get connected users if WebSocket service is available
     let connectedUsers = null;
     if (wsService && sessionId) {
-      connectedUsers = wsService.getSessionUsers(sessionId);
+      connectedUsers = await wsService.getSessionUsers(sessionId);
     }
 
     const response: ApiResponse = {
@@ -170,6 +314,27 @@ router.post('/:sessionId/join', authenticate, async (req, res): Promise<void> =>
       return;
     }
 
+    // Scheduled sessions can only be entered with their invitation
+    if (session.status === SessionStatus.SCHEDULED) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invitation required',
+        message: 'This interview is scheduled. Join it with your invitation link.'
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    if (session.status === SessionStatus.EXPIRED) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Session expired',
+        message: 'The join window for this session has closed'
+      };
+      res.status(410).json(response);
+      return;
+    }
+
     // Check if session is active
     if (session.status !== SessionStatus.ACTIVE) {
       const response: ApiResponse = {
@@ -181,11 +346,23 @@ router.post('/:sessionId/join', authenticate, async (req, res): Promise<void> =>
       return;
     }
 
-    // Update candidateId to match the authenticated user
-    // This ensures that the user can post events to this session
-    const previousCandidateId = session.candidateId;
-    session.candidateId = req.user.userId;
-    await session.save();
+    // Once a scheduled session started, only the invited candidate may rejoin it
+    if (session.scheduledStartTime) {
+      if (session.candidateId !== req.user.userId) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Forbidden',
+          message: 'This session was started by another candidate'
+        };
+        res.status(403).json(response);
+        return;
+      }
+    } else {
+      // Update candidateId to match the authenticated user
+      // This ensures that the user can post events to this session
+      session.candidateId = req.user.userId;
+      await session.save();
+    }
     
     // Broadcast that candidate joined via WebSocket
     if (wsService && sessionId) {
@@ -224,7 +401,8 @@ router.patch('/:sessionId/status', authenticate, async (req, res): Promise<void>
     const { sessionId } = req.params;
     const { status } = req.body;
 
-    if (!Object.values(SessionStatus).includes(status)) {
+    // Scheduled and expired are driven by scheduling, not set by hand
+    if (![SessionStatus.ACTIVE, SessionStatus.COMPLETED, SessionStatus.TERMINATED].includes(status)) {
       const response: ApiResponse = {
         success: false,
         error: 'Invalid status',
@@ -245,7 +423,12 @@ router.patch('/:sessionId/status', authenticate, async (req, res): Promise<void>
       return;
     }
 
+    if (!(await ensureSessionAccess(req, res, session, 'manage'))) {
+      return;
+    }
+
     // Update session
+    const previousStatus = session.status;
     session.status = status;
     if (status !== SessionStatus.ACTIVE) {
       session.endTime = new Date();
@@ -255,6 +438,7 @@ router.patch('/:sessionId/status', authenticate, async (req, res): Promise<void>
     }
 
     await session.save();
+    await auditStatusChange(req, session, previousStatus);
 
     // Broadcast status update via WebSocket
     if (wsService && sessionId) {
@@ -300,13 +484,19 @@ router.post('/:sessionId/end', authenticate, async (req, res): Promise<void> =>
       return;
     }
 
+    if (!(await ensureSessionAccess(req, res, session, 'manage'))) {
+      return;
+    }
+
     // End the session
+    const previousStatus = session.status;
     session.endTime = new Date();
     session.status = SessionStatus.COMPLETED;
     const startTime = session.startTime.getTime();
     const endTime = session.endTime.getTime();
     session.duration = Math.floor((endTime - startTime) / 1000);
     await session.save();
+    await auditStatusChange(req, session, previousStatus);
 
     // Trigger asynchronous report generation
     try {
@@ -362,13 +552,19 @@ router.post('/:sessionId/terminate', authenticate, async (req, res): Promise<voi
       return;
     }
 
+    if (!(await ensureSessionAccess(req, res, session, 'manage'))) {
+      return;
+    }
+
     // Terminate the session
+    const previousStatus = session.status;
     session.endTime = new Date();
     session.status = SessionStatus.TERMINATED;
     const startTime = session.startTime.getTime();
     const endTime = session.endTime.getTime();
     session.duration = Math.floor((endTime - startTime) / 1000);
     await session.save();
+    await auditStatusChange(req, session, previousStatus);
 
     // Trigger asynchronous report generation even on termination
     try {
@@ -414,7 +610,7 @@ router.post('/:sessionId/observations', authenticate, async (req, res): Promise<
     const { sessionId } = req.params;
     
     // Verify user is an interviewer
-    if (req.user?.role !== UserRole.INTERVIEWER && req.user?.role !== UserRole.ADMIN) {
+    if (!req.user || (req.user.role !== UserRole.INTERVIEWER && !isAdminRole(req.user.role))) {
       const response: ApiResponse = {
         success: false,
         error: 'Unauthorized',
@@ -436,6 +632,10 @@ router.post('/:sessionId/observations', authenticate, async (req, res): Promise<
       return;
     }
 
+    if (!(await ensureSessionAccess(req, res, session, 'manage'))) {
+      return;
+    }
+
     const validatedData = CreateManualObservationSchema.parse({
       ...req.body,
       sessionId,
@@ -503,6 +703,10 @@ router.get('/:sessionId/observations', authenticate, async (req, res): Promise<v
       return;
     }
 
+    if (!(await ensureSessionAccess(req, res, session, 'view'))) {
+      return;
+    }
+
     const observations = await ManualObservation.find({ sessionId }).sort({ timestamp: -1 });
 
     const response: ApiResponse = {
@@ -522,14 +726,492 @@ router.get('/:sessionId/observations', authenticate, async (req, res): Promise<v
   }
 });
 
+// Get interviewers assigned to a session
+router.get('/:sessionId/assignments', authenticate, async (req, res): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await InterviewSession.findOne({ sessionId });
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Not found',
+        message: 'Session not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (!(await ensureSessionAccess(req, res, session, 'view'))) {
+      return;
+    }
+
+    const assignments = await SessionAccessService.listAssignments(session.sessionId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: assignments.map(assignment => assignment.toJSON())
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching session assignments:', error);
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to fetch session assignments'
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Assign an interviewer or observer to a session (primary interviewer or admin)
+router.post('/:sessionId/assignments', authenticate, async (req, res): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+
+    const parsed = SessionAssignmentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid assignment',
+        message: parsed.error.issues.map(issue => issue.message).join(', ')
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const session = await InterviewSession.findOne({ sessionId });
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Not found',
+        message: 'Session not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (!(await ensureSessionAccess(req, res, session, 'assign'))) {
+      return;
+    }
+
+    const { User } = await import('../models');
+    const assignee = await User.findOne({
+      userId: parsed.data.userId,
+      role: { $in: [UserRole.INTERVIEWER, UserRole.ADMIN] },
+      isActive: true
+    });
+    if (!assignee) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Not found',
+        message: 'Interviewer not found or inactive'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const assignment = await SessionAccessService.assign(
+      session.sessionId,
+      assignee.userId,
+      parsed.data.role,
+      req.user!.userId
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      data: assignment.toJSON(),
+      message: 'Interviewer assigned successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error assigning interviewer:', error);
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to assign interviewer'
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Remove an interviewer or observer from a session (primary interviewer or admin)
+router.delete('/:sessionId/assignments/:userId', authenticate, async (req, res): Promise<void> => {
+  try {
+    const { sessionId, userId } = req.params;
+
+    const session = await InterviewSession.findOne({ sessionId });
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Not found',
+        message: 'Session not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (!(await ensureSessionAccess(req, res, session, 'assign'))) {
+      return;
+    }
+
+    await SessionAccessService.unassign(session.sessionId, userId as string);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Assignment removed successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error removing assignment:', error);
+    const notFound = error instanceof Error && error.message.includes('not found');
+    const response: ApiResponse = {
+      success: false,
+      error: notFound ? 'Not found' : 'Internal server error',
+      message: notFound ? (error as Error).message : 'Failed to remove assignment'
+    };
+    res.status(notFound ? 404 : 500).json(response);
+  }
+});
+
+// Issue a new invitation for a scheduled session (revokes unused earlier ones)
+router.post('/:sessionId/invitation', authenticate, async (req, res): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await InterviewSession.findOne({ sessionId });
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Not found',
+        message: 'Session not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (!(await ensureSessionAccess(req, res, session, 'manage'))) {
+      return;
+    }
+
+    const invitation = await InvitationService.createInvitation(session, req.user!.userId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: invitation,
+      message: 'Invitation issued successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error issuing invitation:', error);
+    sendServiceError(res, error, 'Failed to issue invitation');
+  }
+});
+
+// Record the candidate's pre-interview system check (re-running the check replaces it)
+router.post('/:sessionId/system-check', authenticate, async (req, res): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await InterviewSession.findOne({ sessionId });
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Not found',
+        message: 'Session not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (req.user?.role !== UserRole.CANDIDATE || session.candidateId !== req.user.userId) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Forbidden',
+        message: 'Only the session candidate can submit a system check'
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Conflict',
+        message: 'System checks can only be submitted for active sessions'
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const parsed = SystemCheckSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const systemCheck: SystemCheckResult = {
+      ...parsed.data,
+      overallStatus: summarizeSystemCheck(parsed.data),
+      completedAt: new Date()
+    };
+    session.systemCheck = systemCheck;
+    await session.save();
+
+    if (wsService && sessionId) {
+      wsService.broadcastToSession(sessionId, 'system_check_completed', {
+        sessionId,
+        candidateId: req.user.userId,
+        systemCheck,
+        timestamp: systemCheck.completedAt.toISOString()
+      });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: systemCheck,
+      message: 'System check recorded'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error recording system check:', error);
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to record system check'
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Upload (or replace) the reference photo the candidate is verified against
+router.put('/:sessionId/identity/reference', authenticate, async (req, res): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await InterviewSession.findOne({ sessionId });
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Not found',
+        message: 'Session not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (!(await ensureSessionAccess(req, res, session, 'manage'))) {
+      return;
+    }
+
+    const parsed = IdentityReferenceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    await IdentityVerificationService.setReference(session, parsed.data, req.user!.userId);
+
+    if (wsService && sessionId) {
+      wsService.broadcastToSession(sessionId, 'identity_verification_updated', {
+        sessionId,
+        identityVerification: session.identityVerification,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: session.identityVerification,
+      message: 'Reference photo saved'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error saving identity reference:', error);
+    sendServiceError(res, error, 'Failed to save reference photo');
+  }
+});
+
+// Get the reference photo for interviewers (the descriptor stays on the server)
+router.get('/:sessionId/identity/reference', authenticate, async (req, res): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await InterviewSession.findOne({ sessionId });
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Not found',
+        message: 'Session not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (req.user?.role === UserRole.CANDIDATE) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Forbidden',
+        message: 'Only interviewers can view the reference photo'
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    if (!(await ensureSessionAccess(req, res, session, 'view'))) {
+      return;
+    }
+
+    const reference = await IdentityReference.findBySession(sessionId!);
+    if (!reference) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Not found',
+        message: 'No reference photo has been uploaded for this session'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        sessionId,
+        photo: reference.photo,
+        uploadedBy: reference.uploadedBy,
+        uploadedAt: reference.updatedAt
+      },
+      message: 'Reference photo retrieved successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching identity reference:', error);
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal server error',
+      message: 'Failed to fetch reference photo'
+    };
+    res.status(500).json(response);
+  }
+});
+
+// Compare a candidate snapshot against the reference photo (initial check and periodic re-checks)
+router.post('/:sessionId/identity/verify', authenticate, async (req, res): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await InterviewSession.findOne({ sessionId });
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Not found',
+        message: 'Session not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (req.user?.role !== UserRole.CANDIDATE || session.candidateId !== req.user.userId) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Forbidden',
+        message: 'Only the session candidate can submit an identity check'
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    if (session.status !== SessionStatus.ACTIVE) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Conflict',
+        message: 'Identity checks can only be submitted for active sessions'
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const parsed = IdentityVerificationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const result = await IdentityVerificationService.verify(session, parsed.data);
+
+    if (wsService && sessionId) {
+      wsService.broadcastToSession(sessionId, 'identity_verification_updated', {
+        sessionId,
+        candidateId: req.user.userId,
+        identityVerification: result.summary,
+        phase: result.phase,
+        timestamp: new Date().toISOString()
+      });
+
+      if (result.event) {
+        const { candidateId, eventType, confidence, metadata, timestamp } = result.event;
+        wsService.broadcastDetectionEvent({
+          sessionId,
+          candidateId,
+          eventType,
+          confidence,
+          metadata,
+          timestamp: timestamp.toISOString()
+        });
+      }
+    }
+
+    const { event: _event, ...data } = result;
+    const response: ApiResponse = {
+      success: true,
+      data,
+      message: result.matched ? 'Identity verified' : 'Identity did not match the reference photo'
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error verifying identity:', error);
+    sendServiceError(res, error, 'Failed to verify identity');
+  }
+});
+
 // Get active sessions
 router.get('/', authenticate, async (req, res) => {
   try {
     const { status, limit = 50, offset = 0 } = req.query;
 
-    const query: any = {};
-    if (status && Object.values(SessionStatus).includes(status as SessionStatus)) {
-      query.status = status;
+    // Only list sessions the user is assigned to
+    const query: any = await SessionAccessService.sessionFilter(req.user!);
+    // Accepts one status or a comma separated list (e.g. active,scheduled)
+    const statuses = String(status || '')
+      .split(',')
+      .filter(value => Object.values(SessionStatus).includes(value as SessionStatus));
+    if (statuses.length === 1) {
+      query.status = statuses[0];
+    } else if (statuses.length > 1) {
+      query.status = { $in: statuses };
     }
 
     const sessions = await InterviewSession.find(query)
@@ -540,13 +1222,13 @@ router.get('/', authenticate, async (req, res) => {
     const total = await InterviewSession.countDocuments(query);
 
     // Add connected users info if WebSocket service is available
-    const sessionsWithUsers = sessions.map(session => {
+    const sessionsWithUsers = await Promise.all(sessions.map(async session => {
       const sessionData = session.toJSON() as any;
       if (wsService) {
-        sessionData.connectedUsers = wsService.getSessionUsers(session.sessionId);
+        sessionData.connectedUsers = await wsService.getSessionUsers(session.sessionId);
       }
       return sessionData;
-    });
+    }));
 
     const response: ApiResponse = {
       success: true,
@@ -586,7 +1268,7 @@ router.get('/stats/websocket', authenticate, async (req, res): Promise<void> =>
       return;
     }
 
-    const stats = wsService.getStats();
+    const stats = await wsService.getStats();
 
     const response: ApiResponse = {
       success: true,
@@ -608,7 +1290,7 @@ router.get('/stats/websocket', authenticate, async (req, res): Promise<void> =>
 // Get session history for the authenticated interviewer
 router.get('/history/self', authenticate, async (req, res): Promise<void> => {
   try {
-    if (req.user?.role !== UserRole.INTERVIEWER && req.user?.role !== UserRole.ADMIN) {
+    if (!req.user || (req.user.role !== UserRole.INTERVIEWER && !isAdminRole(req.user.role))) {
       const response: ApiResponse = {
         success: false,
         error: 'Unauthorized',
@@ -621,7 +1303,7 @@ router.get('/history/self', authenticate, async (req, res): Promise<void> => {
     const { limit = 50, offset = 0 } = req.query as any;
 
     const query: any = {
-      interviewerId: req.user?.userId,
+      ...(await SessionAccessService.assignedSessionFilter(req.user.userId)),
       status: { $in: [SessionStatus.COMPLETED, SessionStatus.TERMINATED] }
     };
 
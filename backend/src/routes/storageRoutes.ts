@@ -0,0 +1,54 @@
+import express, { Request, Response } from 'express';
+import { StorageService } from '../services/storage';
+
+const router = express.Router();
+
+/**
+ * GET /api/storage/*key
+ * Serve an object kept by the local storage driver. No login is needed: the link itself is
+ * the credential, signed and time-limited by LocalStorageDriver.getSignedUrl.
+ */
+router.get('/*key', (req: Request, res: Response): void => {
+  try {
+    const segments = req.params.key as unknown as string[];
+    const { expires, signature, download } = req.query;
+
+    const filePath = typeof signature === 'string'
+      ? StorageService.localDriver().verify(segments.join('/'), {
+        expires: Number(expires),
+        signature,
+        download: typeof download === 'string' ? download : undefined
+      })
+      : null;
+
+    if (!filePath) {
+      res.status(403).json({
+        success: false,
+        error: 'Download link is invalid or has expired'
+      });
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'private, no-store');
+    if (typeof download === 'string') {
+      res.attachment(download);
+    }
+    res.sendFile(filePath, (err) => {
+      if (err && !res.headersSent) {
+        res.status(404).json({
+          success: false,
+          error: 'File not found'
+        });
+      }
+    });
+
+  } catch (error) {
+    console.error('Error serving stored file:', error);
+    res.status(400).json({
+      success: false,
+      error: 'Invalid storage key'
+    });
+  }
+});
+
+export default router;
\ No newline at end of file
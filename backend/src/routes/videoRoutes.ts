@@ -1,15 +1,24 @@
 import express, { Request, Response } from 'express';
 import multer from 'multer';
 import type { MulterError } from 'multer';
-import { videoStorageService } from '../services/videoStorageService';
-import { VideoUploadSchema } from '../types';
+import { videoStorageService, UploadProgress } from '../services/videoStorageService';
+import { VideoUploadSchema, VideoUploadCreateSchema, VideoTranscodeSchema } from '../types';
 import { validateRequest } from '../middleware/validation';
 import createRateLimiters from '../middleware/rateLimiter';
-import { authenticate } from '../middleware/auth';
+import { authenticate, signedMediaLinkOr } from '../middleware/auth';
+import { requireSessionAccess, requireTranscodeJobAccess, requireUploadAccess, requireVideoAccess } from '../middleware/sessionAccess';
+import { SessionAccessService } from '../services/sessionAccessService';
+import { VideoTranscodeService } from '../services/videoTranscodeService';
+import { VideoAssetService } from '../services/videoAssetService';
+import { EvidenceClipService } from '../services/evidenceClipService';
+import { MediaLinkService } from '../services/mediaLinkService';
 
 const router = express.Router();
 const { upload: uploadLimiter } = createRateLimiters();
 
+// Media routes take the Authorization header or a signed link from MediaLinkService
+const mediaAccess = signedMediaLinkOr(authenticate, requireVideoAccess('view'));
+
 /**
  * GET /api/videos/health
  * Health check endpoint for video service
@@ -89,7 +98,10 @@ router.post('/upload', authenticate, uploadLimiter, (req: Request, res: Response
       chunkIndex: parseInt(req.body.chunkIndex),
       totalChunks: parseInt(req.body.totalChunks),
       filename: req.body.filename,
-      mimeType: req.file.mimetype
+      mimeType: req.file.mimetype,
+      ...(req.body.recordingStartedAt ? { recordingStartedAt: req.body.recordingStartedAt } : {}),
+      ...(req.body.chunkChecksum ? { chunkChecksum: req.body.chunkChecksum } : {}),
+      ...(req.body.checksum ? { checksum: req.body.checksum } : {})
     };
 
     // Validate upload data
@@ -103,6 +115,16 @@ router.post('/upload', authenticate, uploadLimiter, (req: Request, res: Response
       return;
     }
 
+    try {
+      await SessionAccessService.authorizeSession(req.user!, validation.data.sessionId, SessionAccessService.uploadPermission(req.user!));
+    } catch (accessError) {
+      res.status((accessError as any)?.statusCode || 500).json({
+        success: false,
+        error: accessError instanceof Error ? accessError.message : 'Access denied'
+      });
+      return;
+    }
+
     // Upload chunk
     const result = await videoStorageService.uploadChunk(
       validation.data,
@@ -139,7 +161,7 @@ router.post('/upload', authenticate, uploadLimiter, (req: Request, res: Response
  * GET /api/videos/upload/status/:sessionId/:candidateId
  * Get upload status
  */
-router.get('/upload/status/:sessionId/:candidateId', authenticate, (req: Request, res: Response): void => {
+router.get('/upload/status/:sessionId/:candidateId', authenticate, requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { sessionId, candidateId } = req.params;
 
@@ -151,7 +173,7 @@ router.get('/upload/status/:sessionId/:candidateId', authenticate, (req: Request
       return;
     }
 
-    const status = videoStorageService.getUploadStatus(sessionId, candidateId);
+    const status = await videoStorageService.getUploadStatus(sessionId, candidateId);
 
     res.json({
       success: true,
@@ -171,7 +193,7 @@ router.get('/upload/status/:sessionId/:candidateId', authenticate, (req: Request
  * GET /api/videos/upload/missing/:sessionId/:candidateId
  * Get missing chunks for resume functionality
  */
-router.get('/upload/missing/:sessionId/:candidateId', authenticate, (req: Request, res: Response): void => {
+router.get('/upload/missing/:sessionId/:candidateId', authenticate, requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { sessionId, candidateId } = req.params;
 
@@ -183,7 +205,7 @@ router.get('/upload/missing/:sessionId/:candidateId', authenticate, (req: Reques
       return;
     }
 
-    const missingChunks = videoStorageService.getMissingChunks(sessionId, candidateId);
+    const missingChunks = await videoStorageService.getMissingChunks(sessionId, candidateId);
 
     res.json({
       success: true,
@@ -202,11 +224,164 @@ router.get('/upload/missing/:sessionId/:candidateId', authenticate, (req: Reques
   }
 });
 
+/**
+ * Offset-based uploads, modelled on tus (https://tus.io): the client opens an upload with the
+ * size and SHA-256 of the whole file, reads its offset with HEAD and appends chunks with PATCH.
+ * Opening the same file again resumes the existing upload, e.g. after a browser reload.
+ */
+const setUploadHeaders = (res: Response, progress: UploadProgress): void => {
+  res.setHeader('Upload-Offset', String(progress.offset));
+  if (progress.totalSize !== undefined) {
+    res.setHeader('Upload-Length', String(progress.totalSize));
+  }
+  res.setHeader('Cache-Control', 'no-store');
+};
+
+// Upload-Checksum carries "<algorithm> <base64 digest>"; only sha256 is supported
+const parseUploadChecksum = (header: string | undefined): string | null => {
+  const [algorithm, digest] = (header || '').trim().split(/\s+/);
+  if (algorithm?.toLowerCase() !== 'sha256' || !digest) return null;
+  const hex = Buffer.from(digest, 'base64').toString('hex');
+  return hex.length === 64 ? hex : null;
+};
+
+/**
+ * POST /api/videos/uploads
+ * Open an upload, or resume the open one for the same file
+ */
+router.post('/uploads', authenticate, uploadLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = VideoUploadCreateSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid upload data',
+        details: validation.error.issues
+      });
+      return;
+    }
+
+    await SessionAccessService.authorizeSession(req.user!, validation.data.sessionId, SessionAccessService.uploadPermission(req.user!));
+
+    const { created, progress } = await videoStorageService.createUpload(validation.data);
+
+    setUploadHeaders(res, progress);
+    res.setHeader('Location', `/api/videos/uploads/${progress.uploadId}`);
+    res.status(created ? 201 : 200).json({
+      success: true,
+      data: progress,
+      message: created ? 'Upload opened' : 'Upload resumed'
+    });
+
+  } catch (error) {
+    console.error('Error opening upload:', error);
+    res.status((error as any)?.statusCode || 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+/**
+ * HEAD /api/videos/uploads/:uploadId
+ * Read the offset to resume from
+ */
+router.head('/uploads/:uploadId', authenticate, requireUploadAccess(), async (req: Request, res: Response): Promise<void> => {
+  try {
+    setUploadHeaders(res, await videoStorageService.getUpload(req.params.uploadId as string));
+    res.status(200).end();
+  } catch (error) {
+    res.status((error as any)?.statusCode || 500).end();
+  }
+});
+
+/**
+ * GET /api/videos/uploads/:uploadId
+ * Upload status, including the recording's video ID once processed
+ */
+router.get('/uploads/:uploadId', authenticate, requireUploadAccess(), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const progress = await videoStorageService.getUpload(req.params.uploadId as string);
+
+    setUploadHeaders(res, progress);
+    res.json({
+      success: true,
+      data: progress
+    });
+
+  } catch (error) {
+    console.error('Error getting upload:', error);
+    res.status((error as any)?.statusCode || 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+/**
+ * PATCH /api/videos/uploads/:uploadId
+ * Append the chunk at Upload-Offset; the body is the raw bytes and Upload-Checksum their SHA-256.
+ * Not rate limited per chunk: the upload's declared size already bounds how much can be sent.
+ */
+router.patch(
+  '/uploads/:uploadId',
+  authenticate,
+  requireUploadAccess(),
+  express.raw({ type: 'application/offset+octet-stream', limit: MAX_CHUNK_BYTES }),
+  async (req: Request, res: Response): Promise<void> => {
+    const uploadId = req.params.uploadId as string;
+
+    try {
+      const offset = Number(req.header('Upload-Offset'));
+      const checksum = parseUploadChecksum(req.header('Upload-Checksum'));
+
+      if (!Buffer.isBuffer(req.body) || !Number.isInteger(offset) || offset < 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Expected an application/offset+octet-stream body and an Upload-Offset header'
+        });
+        return;
+      }
+      if (!checksum) {
+        res.status(400).json({
+          success: false,
+          error: 'Upload-Checksum must be a sha256 digest'
+        });
+        return;
+      }
+
+      const progress = await videoStorageService.appendChunk(uploadId, offset, req.body, checksum);
+
+      setUploadHeaders(res, progress);
+      res.json({
+        success: true,
+        data: progress,
+        message: progress.status === 'uploading' ? 'Chunk received' : 'Upload complete'
+      });
+
+    } catch (error) {
+      const statusCode = (error as any)?.statusCode || 500;
+      if (statusCode === 409) {
+        // Tell the client where to resume from
+        const current = await videoStorageService.getUpload(uploadId).catch(() => null);
+        if (current) setUploadHeaders(res, current);
+      }
+      if (statusCode >= 500) {
+        console.error('Error appending upload chunk:', error);
+      }
+      res.status(statusCode).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+);
+
 /**
  * GET /api/videos/:videoId
- * Stream video with range support
+ * Stream video with range support (also through a signed link, so links and players can open it)
  */
-router.get('/:videoId', async (req: Request, res: Response): Promise<void> => {
+router.get('/:videoId', mediaAccess, async (req: Request, res: Response): Promise<void> => {
   try {
     const { videoId } = req.params;
 
@@ -218,6 +393,13 @@ router.get('/:videoId', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // Offloaded recordings are fetched straight from the storage driver
+    const remoteUrl = await videoStorageService.getRemoteVideoUrl(videoId);
+    if (remoteUrl) {
+      res.redirect(remoteUrl);
+      return;
+    }
+
     const range = req.headers.range;
 
     if (range) {
@@ -238,7 +420,7 @@ router.get('/:videoId', async (req: Request, res: Response): Promise<void> => {
         'Accept-Ranges': 'bytes',
         'Content-Length': result.contentLength.toString(),
         'Content-Type': result.contentType,
-        'Cache-Control': 'public, max-age=3600',
+        'Cache-Control': 'private, max-age=3600',
         'Content-Disposition': `attachment; filename="${videoId}${result.ext || ''}"`
       });
 
@@ -260,7 +442,7 @@ router.get('/:videoId', async (req: Request, res: Response): Promise<void> => {
         'Content-Length': result.contentLength.toString(),
         'Content-Type': result.contentType,
         'Accept-Ranges': 'bytes',
-        'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
+        'Cache-Control': 'private, max-age=3600', // Cache for 1 hour
         'Content-Disposition': `attachment; filename="${videoId}${result.ext || ''}"`
       });
 
@@ -280,7 +462,7 @@ router.get('/:videoId', async (req: Request, res: Response): Promise<void> => {
  * DELETE /api/videos/:videoId
  * Delete video
  */
-router.delete('/:videoId', authenticate, async (req: Request, res: Response): Promise<void> => {
+router.delete('/:videoId', authenticate, requireVideoAccess('manage'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { videoId } = req.params;
 
@@ -293,6 +475,8 @@ router.delete('/:videoId', authenticate, async (req: Request, res: Response): Pr
     }
 
     const deleted = await videoStorageService.deleteVideo(videoId);
+    await VideoAssetService.remove(videoId);
+    await EvidenceClipService.remove(videoId);
 
     if (deleted) {
       res.json({
@@ -317,9 +501,9 @@ router.delete('/:videoId', authenticate, async (req: Request, res: Response): Pr
 
 /**
  * POST /api/videos/compress/:videoId
- * Compress video (placeholder for future implementation)
+ * Queue a transcode of the recording with a low/medium/high preset
  */
-router.post('/compress/:videoId', async (req: Request, res: Response): Promise<void> => {
+router.post('/compress/:videoId', authenticate, requireVideoAccess('manage'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { videoId } = req.params;
 
@@ -331,22 +515,57 @@ router.post('/compress/:videoId', async (req: Request, res: Response): Promise<v
       return;
     }
 
-    const { quality = 'medium' } = req.body;
+    const parsed = VideoTranscodeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        message: parsed.error.issues.map(issue => issue.message).join('; ')
+      });
+      return;
+    }
 
-  // Placeholder for future video compression job
+    const job = await VideoTranscodeService.enqueue(videoId, parsed.data.quality, req.user!.userId);
 
-    res.json({
+    res.status(202).json({
       success: true,
       message: 'Video compression queued',
-      data: {
-        videoId,
-        quality,
-        status: 'queued'
-      }
+      data: job
     });
 
   } catch (error) {
     console.error('Error compressing video:', error);
+    const statusCode = (error as any)?.statusCode || 500;
+    res.status(statusCode).json({
+      success: false,
+      error: statusCode === 500 ? 'Internal server error' : (error as Error).message
+    });
+  }
+});
+
+/**
+ * GET /api/videos/compress/jobs/:jobId
+ * Get transcode job status and progress
+ */
+router.get('/compress/jobs/:jobId', authenticate, requireTranscodeJobAccess('view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await VideoTranscodeService.getJob(req.params.jobId as string);
+
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: 'Transcode job not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: job
+    });
+
+  } catch (error) {
+    console.error('Error getting transcode job:', error);
     res.status(500).json({
       success: false,
       error: 'Internal server error'
@@ -354,11 +573,45 @@ router.post('/compress/:videoId', async (req: Request, res: Response): Promise<v
   }
 });
 
+/**
+ * POST /api/videos/compress/jobs/:jobId/cancel
+ * Cancel a queued or running transcode
+ */
+router.post('/compress/jobs/:jobId/cancel', authenticate, requireTranscodeJobAccess('manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await VideoTranscodeService.cancel(req.params.jobId as string);
+
+    res.json({
+      success: true,
+      data: job
+    });
+
+  } catch (error) {
+    console.error('Error cancelling transcode job:', error);
+    const statusCode = (error as any)?.statusCode || 500;
+    res.status(statusCode).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel transcode job'
+    });
+  }
+});
+
+/**
+ * GET /api/videos/:videoId/link
+ * Short-lived signed link to the recording, for opening or downloading it outside the player
+ */
+router.get('/:videoId/link', authenticate, requireVideoAccess('view'), (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    data: MediaLinkService.sign(`/api/videos/${req.params.videoId}`)
+  });
+});
+
 /**
  * GET /api/videos/:videoId/metadata
- * Get video metadata
+ * Get probed video metadata with preview image locations
  */
-router.get('/:videoId/metadata', async (req: Request, res: Response): Promise<void> => {
+router.get('/:videoId/metadata', authenticate, requireVideoAccess('view'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { videoId } = req.params;
 
@@ -370,15 +623,29 @@ router.get('/:videoId/metadata', async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    // TODO: Implement metadata retrieval from database
-    // For now, return basic file information
+    const asset = await VideoAssetService.getAsset(videoId);
 
-    const result = await videoStorageService.getVideoStream(videoId);
+    if (!asset) {
+      // Recordings stored before assets were captured only have file information
+      const result = await videoStorageService.getVideoStream(videoId);
 
-    if (!result) {
-      res.status(404).json({
-        success: false,
-        error: 'Video not found'
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: 'Video not found'
+        });
+        return;
+      }
+
+      result.stream.destroy();
+      res.json({
+        success: true,
+        data: {
+          videoId,
+          url: MediaLinkService.sign(`/api/videos/${videoId}`).url,
+          size: result.contentLength,
+          contentType: result.contentType
+        }
       });
       return;
     }
@@ -387,9 +654,35 @@ router.get('/:videoId/metadata', async (req: Request, res: Response): Promise<vo
       success: true,
       data: {
         videoId,
-        size: result.contentLength,
-        contentType: result.contentType,
-        // TODO: Add more metadata like duration, resolution, etc.
+        url: MediaLinkService.sign(`/api/videos/${videoId}`).url,
+        size: asset.size,
+        contentType: asset.mimeType,
+        checksum: asset.checksum,
+        ...(asset.duration !== undefined ? { duration: asset.duration } : {}),
+        ...(asset.width && asset.height ? { resolution: { width: asset.width, height: asset.height } } : {}),
+        ...(asset.frameRate !== undefined ? { frameRate: asset.frameRate } : {}),
+        ...(asset.videoCodec ? { videoCodec: asset.videoCodec } : {}),
+        ...(asset.audioCodec ? { audioCodec: asset.audioCodec } : {}),
+        ...(asset.bitRate !== undefined ? { bitRate: asset.bitRate } : {}),
+        ...(asset.poster ? {
+          poster: {
+            url: MediaLinkService.sign(`/api/videos/${videoId}/poster`).url,
+            width: asset.poster.width,
+            height: asset.poster.height
+          }
+        } : {}),
+        ...(asset.sprite ? {
+          sprite: {
+            url: MediaLinkService.sign(`/api/videos/${videoId}/sprite`).url,
+            columns: asset.sprite.columns,
+            rows: asset.sprite.rows,
+            frameCount: asset.sprite.frameCount,
+            frameWidth: asset.sprite.frameWidth,
+            frameHeight: asset.sprite.frameHeight,
+            intervalSeconds: asset.sprite.intervalSeconds
+          }
+        } : {}),
+        probedAt: asset.probedAt
       }
     });
 
@@ -402,4 +695,118 @@ router.get('/:videoId/metadata', async (req: Request, res: Response): Promise<vo
   }
 });
 
+/**
+ * GET /api/videos/:videoId/poster
+ * GET /api/videos/:videoId/sprite
+ * Serve a recording's preview images (also through a signed link, so <img> tags can load them)
+ */
+const sendPreviewImage = (kind: 'poster' | 'sprite') =>
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const asset = await VideoAssetService.getAsset(req.params.videoId as string);
+      const image = asset?.[kind];
+
+      if (!image) {
+        res.status(404).json({
+          success: false,
+          error: `Video ${kind} not found`
+        });
+        return;
+      }
+
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      res.sendFile(VideoAssetService.thumbnailPath(image.filename), (err) => {
+        if (err && !res.headersSent) {
+          res.status(404).json({
+            success: false,
+            error: `Video ${kind} not found`
+          });
+        }
+      });
+
+    } catch (error) {
+      console.error(`Error serving video ${kind}:`, error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  };
+
+router.get('/:videoId/poster', mediaAccess, sendPreviewImage('poster'));
+router.get('/:videoId/sprite', mediaAccess, sendPreviewImage('sprite'));
+
+/**
+ * GET /api/videos/:videoId/evidence
+ * List the clips cut around high-severity events in the recording
+ */
+router.get('/:videoId/evidence', authenticate, requireVideoAccess('view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const clips = await EvidenceClipService.listForVideo(req.params.videoId as string);
+
+    res.json({
+      success: true,
+      data: clips.map(clip => ({
+        ...EvidenceClipService.toLink(clip),
+        // Signed so <video> and <img> tags can load them
+        clipUrl: MediaLinkService.sign(`/api/videos/${clip.videoId}/evidence/${clip.clipId}`).url,
+        stillUrl: MediaLinkService.sign(`/api/videos/${clip.videoId}/evidence/${clip.clipId}/still`).url,
+        eventType: clip.eventType,
+        eventTimestamp: clip.eventTimestamp,
+        offsetSeconds: clip.offsetSeconds,
+        size: clip.size
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error listing evidence clips:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * GET /api/videos/:videoId/evidence/:clipId
+ * GET /api/videos/:videoId/evidence/:clipId/still
+ * Serve an evidence clip or its still (also through a signed link, for <video> and <img> tags)
+ */
+const sendEvidence = (kind: 'clip' | 'still') =>
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const clip = await EvidenceClipService.getClip(req.params.videoId as string, req.params.clipId as string);
+
+      if (!clip) {
+        res.status(404).json({
+          success: false,
+          error: 'Evidence clip not found'
+        });
+        return;
+      }
+
+      const filename = kind === 'clip' ? clip.clipFilename : clip.stillFilename;
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      // sendFile answers range requests, so clips can be seeked
+      res.sendFile(EvidenceClipService.evidencePath(filename), (err) => {
+        if (err && !res.headersSent) {
+          res.status(404).json({
+            success: false,
+            error: 'Evidence clip not found'
+          });
+        }
+      });
+
+    } catch (error) {
+      console.error(`Error serving evidence ${kind}:`, error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  };
+
+router.get('/:videoId/evidence/:clipId', mediaAccess, sendEvidence('clip'));
+router.get('/:videoId/evidence/:clipId/still', mediaAccess, sendEvidence('still'));
+
 export default router;
\ No newline at end of file
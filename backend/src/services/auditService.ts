@@ -0,0 +1,271 @@
+import { Request } from 'express';
+import { Socket } from 'socket.io';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditLog, AuditLogDocument, AuditChannel, AuditTargetType } from '../models/AuditLog';
+import { NotFoundError } from '../middleware/errorHandler';
+import { AuditAction, AuditQuery, Pagination } from '../types';
+import { getScopedOrganizationId } from '../utils/tenantContext';
+
+// previousHash of the first entry in a chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Concurrent appends from other server instances can take the same sequence number
+const MAX_APPEND_ATTEMPTS = 5;
+
+// Who performed an action, and from where
+export interface AuditActor {
+  userId: string;
+  role: string;
+  organizationId?: string | undefined;
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+  channel: AuditChannel;
+}
+
+export interface AuditEntryInput {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  sessionId?: string | undefined;
+  // Organization the target belongs to, when it can differ from the actor's (super admins)
+  organizationId?: string | undefined;
+  before?: Record<string, unknown> | undefined;
+  after?: Record<string, unknown> | undefined;
+}
+
+export interface AuditChainVerification {
+  organizationId: string | null;
+  valid: boolean;
+  checked: number;
+  // First entry that does not follow from the one before it
+  brokenAt?: { sequence: number; entryId: string; reason: string };
+}
+
+// JSON with object keys sorted, so the hash does not depend on key order after a database round trip
+const canonicalJson = (value: unknown): string => JSON.stringify(value, (_key, val) => {
+  if (val && typeof val === 'object' && !Array.isArray(val)) {
+    return Object.keys(val).sort().reduce<Record<string, unknown>>((sorted, key) => {
+      sorted[key] = val[key];
+      return sorted;
+    }, {});
+  }
+  return val;
+});
+
+// Plain fields of an entry, as hashed
+interface AuditLogFields {
+  organizationId?: string | undefined;
+  entryId: string;
+  sequence: number;
+  previousHash: string;
+  hash: string;
+  timestamp: Date;
+  actorId: string;
+  actorRole: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  sessionId?: string | undefined;
+  before?: Record<string, unknown> | undefined;
+  after?: Record<string, unknown> | undefined;
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+  channel: AuditChannel;
+}
+
+const isDuplicateKey = (error: unknown): boolean => (error as any)?.code === 11000;
+
+/**
+ * Append-only, hash-chained log of interviewer and admin actions. Each organization has
+ * its own chain; editing or removing an entry breaks every hash after it.
+ */
+export class AuditService {
+    // Appends to the same chain are queued in-process so they rarely race for a sequence number
+    private static readonly tails = new Map<string, Promise<unknown>>();
+
+    static actorFromRequest(req: Request): AuditActor {
+        return {
+            userId: req.user!.userId,
+            role: req.user!.role,
+            organizationId: req.user!.organizationId,
+            ip: req.ip,
+            userAgent: req.get('user-agent'),
+            channel: 'http'
+        };
+    }
+
+    static actorFromSocket(socket: Socket): AuditActor {
+        const forwarded = socket.handshake.headers['x-forwarded-for'];
+        // Same rule as Express with 'trust proxy' set to one hop: the address the proxy saw
+        const ip = typeof forwarded === 'string' && forwarded.trim()
+            ? forwarded.split(',').pop()!.trim()
+            : socket.handshake.address;
+        return {
+            userId: socket.data.user.userId,
+            role: socket.data.user.role,
+            organizationId: socket.data.user.organizationId,
+            ip,
+            userAgent: socket.handshake.headers['user-agent'],
+            channel: 'websocket'
+        };
+    }
+
+    /**
+     * Append an entry. Failures are logged rather than thrown, so an audit
+     * outage does not undo or fail the action being audited.
+     */
+    static async record(actor: AuditActor, entry: AuditEntryInput): Promise<AuditLogDocument | null> {
+        try {
+            return await this.append(actor, entry);
+        } catch (error) {
+            console.error(`Failed to write audit entry ${entry.action} for ${entry.targetType} ${entry.targetId}:`, error);
+            return null;
+        }
+    }
+
+    static async append(actor: AuditActor, entry: AuditEntryInput): Promise<AuditLogDocument> {
+        const organizationId = entry.organizationId ?? getScopedOrganizationId() ?? actor.organizationId;
+        const chain = organizationId ?? '';
+
+        const previous = this.tails.get(chain) ?? Promise.resolve();
+        const appended = previous.catch(() => undefined).then(() => this.appendToChain(organizationId, actor, entry));
+        this.tails.set(chain, appended);
+        try {
+            return await appended;
+        } finally {
+            if (this.tails.get(chain) === appended) {
+                this.tails.delete(chain);
+            }
+        }
+    }
+
+    /**
+     * Entries matching the filters, newest first
+     */
+    static async query(filters: AuditQuery): Promise<{ items: AuditLogDocument[]; pagination: Pagination }> {
+        const { page = 1, limit = 50 } = filters;
+        const conditions: Record<string, any> = {};
+        if (filters.organizationId) conditions.organizationId = filters.organizationId;
+        if (filters.actorId) conditions.actorId = filters.actorId;
+        if (filters.action) conditions.action = filters.action;
+        if (filters.targetId) conditions.targetId = filters.targetId;
+        if (filters.sessionId) conditions.sessionId = filters.sessionId;
+        if (filters.startDate || filters.endDate) {
+            conditions.timestamp = {};
+            if (filters.startDate) conditions.timestamp.$gte = new Date(filters.startDate);
+            if (filters.endDate) conditions.timestamp.$lte = new Date(filters.endDate);
+        }
+
+        const [total, items] = await Promise.all([
+            AuditLog.countDocuments(conditions),
+            AuditLog.find(conditions)
+                .sort({ timestamp: -1, sequence: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+        ]);
+
+        return {
+            items,
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+        };
+    }
+
+    static async getEntry(entryId: string): Promise<AuditLogDocument> {
+        const entry = await AuditLog.findByEntryId(entryId);
+        if (!entry) {
+            throw new NotFoundError('Audit entry');
+        }
+        return entry;
+    }
+
+    /**
+     * Walk an organization's chain from the start, checking each hash and link
+     */
+    static async verifyChain(organizationId: string | undefined): Promise<AuditChainVerification> {
+        const result: AuditChainVerification = { organizationId: organizationId ?? null, valid: true, checked: 0 };
+        const cursor = AuditLog.find({ organizationId: organizationId ?? null }).sort({ sequence: 1 }).cursor();
+
+        let expectedSequence = 1;
+        let previousHash = GENESIS_HASH;
+        for await (const entry of cursor) {
+            const reason = entry.sequence !== expectedSequence
+                ? `expected sequence ${expectedSequence}, found ${entry.sequence}`
+                : entry.previousHash !== previousHash
+                    ? 'previousHash does not match the preceding entry'
+                    : this.hashOf(entry) !== entry.hash
+                        ? 'hash does not match the entry contents'
+                        : null;
+            if (reason) {
+                result.valid = false;
+                result.brokenAt = { sequence: entry.sequence, entryId: entry.entryId, reason };
+                await cursor.close();
+                break;
+            }
+            result.checked++;
+            expectedSequence++;
+            previousHash = entry.hash;
+        }
+        return result;
+    }
+
+    /**
+     * SHA-256 over everything an entry records, including the hash of the entry before it
+     */
+    static hashOf(fields: Omit<AuditLogFields, 'hash'>): string {
+        const canonical = canonicalJson([
+            fields.organizationId ?? null,
+            fields.sequence,
+            fields.previousHash,
+            fields.entryId,
+            new Date(fields.timestamp).toISOString(),
+            fields.actorId,
+            fields.actorRole,
+            fields.action,
+            fields.targetType,
+            fields.targetId,
+            fields.sessionId ?? null,
+            fields.before ?? null,
+            fields.after ?? null,
+            fields.ip ?? null,
+            fields.userAgent ?? null,
+            fields.channel
+        ]);
+        return createHash('sha256').update(canonical).digest('hex');
+    }
+
+    private static async appendToChain(
+        organizationId: string | undefined,
+        actor: AuditActor,
+        entry: AuditEntryInput
+    ): Promise<AuditLogDocument> {
+        for (let attempt = 1; ; attempt++) {
+            const head = await AuditLog.findChainHead(organizationId);
+            const fields: Omit<AuditLogFields, 'hash'> = {
+                organizationId,
+                entryId: uuidv4(),
+                sequence: (head?.sequence ?? 0) + 1,
+                previousHash: head?.hash ?? GENESIS_HASH,
+                timestamp: new Date(),
+                actorId: actor.userId,
+                actorRole: actor.role,
+                action: entry.action,
+                targetType: entry.targetType,
+                targetId: entry.targetId,
+                sessionId: entry.sessionId,
+                before: entry.before,
+                after: entry.after,
+                ip: actor.ip,
+                userAgent: actor.userAgent,
+                channel: actor.channel
+            };
+            try {
+                return await AuditLog.create({ ...fields, hash: this.hashOf(fields) });
+            } catch (error) {
+                if (!isDuplicateKey(error) || attempt >= MAX_APPEND_ATTEMPTS) {
+                    throw error;
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,380 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { User, UserDocument } from '../models/User';
+import { InterviewSession, InterviewSessionDocument } from '../models/InterviewSession';
+import { DetectionEvent } from '../models/DetectionEvent';
+import { ManualObservation } from '../models/ManualObservation';
+import { ProctoringReport } from '../models/ProctoringReport';
+import { IdentityReference } from '../models/IdentityReference';
+import { SessionInvitation } from '../models/SessionInvitation';
+import { SessionAssignment } from '../models/SessionAssignment';
+import {
+    DataSubjectCounts,
+    DataSubjectRequest,
+    DataSubjectRequestDocument,
+    DataSubjectRequestType,
+    ErasureMode
+} from '../models/DataSubjectRequest';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { UserRole } from '../types';
+import { DataRemovalService } from './dataRemovalService';
+import { videoStorageService } from './videoStorageService';
+import { TarArchiveWriter } from '../utils/tarArchive';
+import { getScopedOrganizationId } from '../utils/tenantContext';
+
+// Replaces the candidate's name wherever a de-identified record is kept
+export const ERASED_CANDIDATE_NAME = 'Erased candidate';
+
+export interface CandidateExport {
+    request: DataSubjectRequestDocument;
+    archivePath: string;
+    filename: string;
+}
+
+export interface ErasureVerification {
+    requestId: string;
+    // The log entry still matches the digest recorded when the request completed
+    digestValid: boolean;
+    // Records that should be gone or de-identified but are still present
+    remaining: Partial<DataSubjectCounts>;
+    verified: boolean;
+}
+
+const emptyCounts = (): DataSubjectCounts => ({
+    users: 0,
+    sessions: 0,
+    events: 0,
+    observations: 0,
+    reports: 0,
+    recordings: 0,
+    identityReferences: 0,
+    invitations: 0
+});
+
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+/**
+ * Answers candidate data subject requests: an export of everything held about a
+ * candidate, and erasure of it. Each completed request is logged with a digest.
+ */
+export class CandidateDataService {
+    private static readonly tempDir = path.join(process.cwd(), 'uploads', 'temp');
+
+    /**
+     * Bundle the candidate's profile, sessions, events, observations, reports and recordings
+     * into a .tar.gz. The caller sends the archive and removes it afterwards.
+     */
+    static async exportCandidateData(candidateId: string, requestedBy: string): Promise<CandidateExport> {
+        const startedAt = new Date();
+        const { user, sessions } = await this.findCandidate(candidateId);
+        const sessionIds = sessions.map(session => session.sessionId);
+
+        const [events, observations, reports, identityReferences, invitations] = await Promise.all([
+            DetectionEvent.find({ candidateId }).sort({ timestamp: 1 }),
+            ManualObservation.find({ sessionId: { $in: sessionIds } }).sort({ timestamp: 1 }),
+            ProctoringReport.find({ candidateId }).sort({ generatedAt: 1 }),
+            IdentityReference.find({ sessionId: { $in: sessionIds } }),
+            SessionInvitation.find({ sessionId: { $in: sessionIds } })
+        ]);
+
+        const requestId = uuidv4();
+        await fs.promises.mkdir(this.tempDir, { recursive: true });
+        const archivePath = path.join(this.tempDir, `candidate-export-${requestId}.tar.gz`);
+        const archive = new TarArchiveWriter(archivePath);
+
+        const counts: DataSubjectCounts = {
+            ...emptyCounts(),
+            users: user ? 1 : 0,
+            sessions: sessions.length,
+            events: events.length,
+            observations: observations.length,
+            reports: reports.length,
+            identityReferences: identityReferences.length,
+            invitations: invitations.length
+        };
+        const failures: string[] = [];
+        const recordingFiles: string[] = [];
+
+        try {
+            await archive.addJson('profile.json', user);
+            await archive.addJson('sessions.json', sessions);
+            await archive.addJson('events.json', events);
+            await archive.addJson('observations.json', observations);
+            await archive.addJson('reports.json', reports);
+            await archive.addJson('identity-references.json', identityReferences);
+            await archive.addJson('invitations.json', invitations);
+
+            for (const session of sessions) {
+                if (!session.videoUrl) continue;
+                try {
+                    recordingFiles.push(await this.addRecording(archive, session, requestId));
+                    counts.recordings++;
+                } catch (error) {
+                    failures.push(`recording of session ${session.sessionId}: ${errorMessage(error)}`);
+                }
+            }
+
+            await archive.addJson('manifest.json', {
+                requestId,
+                candidateId,
+                generatedAt: new Date().toISOString(),
+                counts,
+                recordings: recordingFiles,
+                failures
+            });
+            const archiveSha256 = await archive.finish();
+
+            const request = await this.logRequest({
+                requestId,
+                organizationId: this.organizationOf(user, sessions),
+                candidateId,
+                type: 'export',
+                requestedBy,
+                startedAt,
+                counts,
+                failures,
+                archiveSha256
+            });
+            return { request, archivePath, filename: `candidate-${candidateId}.tar.gz` };
+        } catch (error) {
+            await archive.finish().catch(() => undefined);
+            await fs.promises.unlink(archivePath).catch(() => undefined);
+            throw error;
+        }
+    }
+
+    /**
+     * Erase the candidate's personal data. Recordings, identity references and detection events are
+     * always deleted; `anonymize` keeps sessions, observations and reports under a placeholder name,
+     * `delete` removes them and the candidate's account too. Sessions on legal hold block erasure.
+     */
+    static async eraseCandidateData(candidateId: string, mode: ErasureMode, requestedBy: string): Promise<DataSubjectRequestDocument> {
+        const startedAt = new Date();
+        const { user, sessions } = await this.findCandidate(candidateId);
+        if (user && user.role !== UserRole.CANDIDATE) {
+            throw new ValidationError('Only candidate accounts can be erased');
+        }
+        const held = sessions.filter(session => session.legalHold);
+        if (held.length > 0) {
+            throw new ConflictError(`Sessions on legal hold: ${held.map(session => session.sessionId).join(', ')}`);
+        }
+
+        const sessionIds = sessions.map(session => session.sessionId);
+        const counts = emptyCounts();
+        const failures: string[] = [];
+
+        for (const session of sessions) {
+            if (!session.videoUrl) continue;
+            try {
+                await DataRemovalService.removeRecording(session);
+                counts.recordings++;
+            } catch (error) {
+                failures.push(`recording of session ${session.sessionId}: ${errorMessage(error)}`);
+            }
+        }
+
+        counts.identityReferences = (await IdentityReference.deleteMany({ sessionId: { $in: sessionIds } })).deletedCount;
+        counts.events = (await DetectionEvent.deleteMany({ candidateId })).deletedCount;
+
+        const reports = await ProctoringReport.find({ candidateId });
+        for (const report of reports) {
+            try {
+                if (mode === 'delete') {
+                    await DataRemovalService.removeReport(report);
+                } else {
+                    // Archived exports carry the candidate's name and evidence stills
+                    await DataRemovalService.removeReportExports(report);
+                    report.candidateName = ERASED_CANDIDATE_NAME;
+                    await report.save();
+                }
+                counts.reports++;
+            } catch (error) {
+                failures.push(`report ${report.reportId}: ${errorMessage(error)}`);
+            }
+        }
+
+        if (mode === 'delete') {
+            counts.observations = (await ManualObservation.deleteMany({ sessionId: { $in: sessionIds } })).deletedCount;
+            counts.invitations = (await SessionInvitation.deleteMany({ sessionId: { $in: sessionIds } })).deletedCount;
+            await SessionAssignment.deleteMany({ sessionId: { $in: sessionIds } });
+            counts.sessions = (await InterviewSession.deleteMany({ candidateId })).deletedCount;
+            if (user) {
+                counts.users = (await User.deleteOne({ userId: candidateId })).deletedCount;
+            }
+        } else {
+            counts.invitations = (await SessionInvitation.updateMany(
+                { sessionId: { $in: sessionIds }, candidateEmail: { $exists: true } },
+                { $unset: { candidateEmail: 1 } }
+            )).modifiedCount;
+            counts.sessions = (await InterviewSession.updateMany(
+                { candidateId },
+                {
+                    $set: { candidateName: ERASED_CANDIDATE_NAME, erasedAt: new Date() },
+                    // System checks record the candidate's devices and browser
+                    $unset: { candidateEmail: 1, systemCheck: 1 }
+                }
+            )).modifiedCount;
+            if (user) {
+                user.name = ERASED_CANDIDATE_NAME;
+                user.email = `erased-${candidateId}@erased.invalid`;
+                user.password = randomBytes(32).toString('hex');
+                user.isActive = false;
+                await user.save();
+                counts.users = 1;
+            }
+        }
+
+        return this.logRequest({
+            requestId: uuidv4(),
+            organizationId: this.organizationOf(user, sessions),
+            candidateId,
+            type: 'erasure',
+            mode,
+            requestedBy,
+            startedAt,
+            counts,
+            failures
+        });
+    }
+
+    static async listRequests(candidateId: string): Promise<DataSubjectRequestDocument[]> {
+        return DataSubjectRequest.findByCandidate(candidateId);
+    }
+
+    /**
+     * Check that a logged request is unaltered and, for erasures, that nothing it removed has come back
+     */
+    static async verifyRequest(requestId: string): Promise<ErasureVerification> {
+        const request = await DataSubjectRequest.findByRequestId(requestId);
+        if (!request) {
+            throw new NotFoundError('Data subject request');
+        }
+
+        const digestValid = this.digestOf(request) === request.digest;
+        const remaining = request.type === 'erasure'
+            ? await this.countRemaining(request.candidateId, request.mode || 'anonymize')
+            : {};
+        const verified = digestValid && Object.values(remaining).every(count => count === 0);
+
+        return { requestId, digestValid, remaining, verified };
+    }
+
+    /**
+     * SHA-256 over the fields a completed request is judged by, in a fixed order
+     */
+    static digestOf(request: Omit<DataSubjectRequest, 'digest'> & { organizationId?: string | undefined }): string {
+        const counts = { ...emptyCounts(), ...request.counts };
+        const canonical = JSON.stringify([
+            request.requestId,
+            request.organizationId ?? null,
+            request.candidateId,
+            request.type,
+            request.mode ?? null,
+            request.requestedBy,
+            new Date(request.startedAt).toISOString(),
+            new Date(request.completedAt).toISOString(),
+            (Object.keys(emptyCounts()) as Array<keyof DataSubjectCounts>).map(key => counts[key]),
+            [...request.failures],
+            request.archiveSha256 ?? null
+        ]);
+        return createHash('sha256').update(canonical).digest('hex');
+    }
+
+    private static async findCandidate(candidateId: string) {
+        const [user, sessions] = await Promise.all([
+            User.findOne({ userId: candidateId }),
+            InterviewSession.find({ candidateId }).sort({ startTime: 1 }) as Promise<InterviewSessionDocument[]>
+        ]);
+        if (!user && sessions.length === 0) {
+            throw new NotFoundError('Candidate');
+        }
+        return { user, sessions };
+    }
+
+    // The log entry is digested before saving, so its organization must be known up front
+    private static organizationOf(user: UserDocument | null, sessions: InterviewSessionDocument[]): string | undefined {
+        return user?.organizationId ?? sessions[0]?.organizationId ?? getScopedOrganizationId();
+    }
+
+    /**
+     * Copy a session's recording into the archive from local disk or, when offloaded, from its download URL
+     */
+    private static async addRecording(archive: TarArchiveWriter, session: InterviewSessionDocument, requestId: string): Promise<string> {
+        const videoId = DataRemovalService.recordingVideoId(session);
+
+        if (videoId && !session.recordingStorageDriver) {
+            const local = await videoStorageService.getVideoStream(videoId);
+            if (local) {
+                const name = `recordings/${session.sessionId}${local.ext}`;
+                await archive.addStream(name, local.contentLength, local.stream);
+                return name;
+            }
+        }
+
+        // Offloaded recordings, and Cloudinary recordings from before storage drivers (absolute videoUrl)
+        const url = videoId ? await videoStorageService.getRemoteVideoUrl(videoId) : session.videoUrl;
+        if (!url || !/^https?:\/\//.test(url)) {
+            throw new Error('recording file not found');
+        }
+        const response = await fetch(url);
+        if (!response.ok || !response.body) {
+            throw new Error(`download failed with status ${response.status}`);
+        }
+
+        const ext = path.extname(new URL(url).pathname) || '.mp4';
+        const tempPath = path.join(this.tempDir, `candidate-export-${requestId}-${session.sessionId}${ext}`);
+        try {
+            await pipeline(Readable.fromWeb(response.body as any), fs.createWriteStream(tempPath));
+            const name = `recordings/${session.sessionId}${ext}`;
+            await archive.addFile(name, tempPath);
+            return name;
+        } finally {
+            await fs.promises.unlink(tempPath).catch(() => undefined);
+        }
+    }
+
+    private static async countRemaining(candidateId: string, mode: ErasureMode): Promise<Partial<DataSubjectCounts>> {
+        const erasedName = { $ne: ERASED_CANDIDATE_NAME };
+        const [users, sessions, events, reports, recordings] = await Promise.all([
+            User.countDocuments(mode === 'delete'
+                ? { userId: candidateId }
+                : { userId: candidateId, $or: [{ isActive: true }, { name: erasedName }] }),
+            InterviewSession.countDocuments(mode === 'delete'
+                ? { candidateId }
+                : { candidateId, $or: [{ candidateName: erasedName }, { candidateEmail: { $exists: true } }] }),
+            DetectionEvent.countDocuments({ candidateId }),
+            ProctoringReport.countDocuments(mode === 'delete'
+                ? { candidateId }
+                : {
+                    candidateId,
+                    $or: [
+                        { candidateName: erasedName },
+                        { pdfStorageKey: { $exists: true } },
+                        { cloudinaryPdfUrl: { $exists: true } }
+                    ]
+                }),
+            InterviewSession.countDocuments({ candidateId, videoUrl: { $exists: true } })
+        ]);
+        return { users, sessions, events, reports, recordings };
+    }
+
+    private static async logRequest(entry: {
+        requestId: string;
+        organizationId?: string | undefined;
+        candidateId: string;
+        type: DataSubjectRequestType;
+        mode?: ErasureMode;
+        requestedBy: string;
+        startedAt: Date;
+        counts: DataSubjectCounts;
+        failures: string[];
+        archiveSha256?: string;
+    }): Promise<DataSubjectRequestDocument> {
+        const completed = { ...entry, completedAt: new Date() };
+        return DataSubjectRequest.create({ ...completed, digest: this.digestOf(completed) });
+    }
+}
@@ -135,6 +135,22 @@ export class CloudStorageService {
 		};
 	}
 
+	/**
+	 * Time-limited download URL for a stored file (signed with the API secret)
+	 */
+	public signedDownloadUrl(publicId: string, resourceType: 'image' | 'video' | 'raw', format: string, expiresAt: number, attachment = false): string {
+		if (!this.isEnabled()) {
+			throw new Error('Cloudinary not configured');
+		}
+
+		return cloudinary.utils.private_download_url(publicId, format, {
+			resource_type: resourceType,
+			type: 'upload',
+			expires_at: expiresAt,
+			attachment
+		});
+	}
+
 	/**
 	 * Delete file from Cloudinary
 	 */
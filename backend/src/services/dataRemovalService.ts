@@ -0,0 +1,118 @@
+import { InterviewSession, InterviewSessionDocument } from '../models/InterviewSession';
+import { ProctoringReportDocument } from '../models/ProctoringReport';
+import { ReportJob } from '../models/ReportJob';
+import { StorageService } from './storage';
+import { cloudStorageService } from './cloudStorageService';
+import { videoStorageService } from './videoStorageService';
+import { VideoAssetService } from './videoAssetService';
+import { EvidenceClipService } from './evidenceClipService';
+
+// Recordings are always served through the API, so the video id is the last path segment
+const RECORDING_URL = /^\/api\/videos\/([^/?#]+)$/;
+
+/**
+ * Removes recordings and reports together with everything stored alongside them.
+ * Shared by retention purges and candidate erasure.
+ */
+export class DataRemovalService {
+    static recordingVideoId(session: Pick<InterviewSessionDocument, 'videoUrl'>): string | undefined {
+        return RECORDING_URL.exec(session.videoUrl || '')?.[1];
+    }
+
+    /**
+     * Where a session's recording is kept, e.g. `local`, `s3:recordings/...` or `cloudinary:<publicId>`
+     */
+    static recordingLocations(session: InterviewSessionDocument): string[] {
+        const locations: string[] = [];
+        if (session.recordingStorageDriver && session.recordingStorageKey) {
+            locations.push(`${session.recordingStorageDriver}:${session.recordingStorageKey}`);
+        } else if (this.recordingVideoId(session)) {
+            locations.push('local');
+        }
+        if (session.recordingPublicId) {
+            locations.push(`cloudinary:${session.recordingPublicId}`);
+        }
+        return locations;
+    }
+
+    /**
+     * Delete a session's recording, its previews and evidence clips, and clear the recording fields.
+     * Extra fields (such as when and why it was removed) are set in the same update.
+     */
+    static async removeRecording(session: InterviewSessionDocument, $set: Record<string, unknown> = {}): Promise<void> {
+        const videoId = this.recordingVideoId(session);
+
+        if (session.recordingStorageDriver && session.recordingStorageKey) {
+            await StorageService.remove({ driver: session.recordingStorageDriver, key: session.recordingStorageKey });
+        } else if (videoId) {
+            await videoStorageService.deleteVideo(videoId);
+        }
+        // Recordings uploaded to Cloudinary before storage drivers only have a public id
+        if (session.recordingPublicId) {
+            await cloudStorageService.deleteFile(session.recordingPublicId, 'video');
+        }
+        if (videoId) {
+            await VideoAssetService.remove(videoId);
+            await EvidenceClipService.remove(videoId);
+        }
+
+        await InterviewSession.updateOne(
+            { sessionId: session.sessionId },
+            {
+                $unset: {
+                    videoUrl: 1,
+                    recordingStorageDriver: 1,
+                    recordingStorageKey: 1,
+                    recordingPublicId: 1,
+                    recordingUploadedAt: 1
+                },
+                ...(Object.keys($set).length ? { $set } : {})
+            }
+        );
+    }
+
+    /**
+     * Where a report's archived PDF and CSV exports are kept
+     */
+    static reportLocations(report: ProctoringReportDocument): string[] {
+        return [
+            ...this.storedExportKeys(report).map(key => `${report.storageDriver}:${key}`),
+            ...this.legacyExportIds(report).map(publicId => `cloudinary:${publicId}`)
+        ];
+    }
+
+    /**
+     * Delete a report's archived exports and forget them, so they are rendered afresh on request
+     */
+    static async removeReportExports(report: ProctoringReportDocument): Promise<void> {
+        for (const key of this.storedExportKeys(report)) {
+            await StorageService.remove({ driver: report.storageDriver!, key });
+        }
+        for (const publicId of this.legacyExportIds(report)) {
+            await cloudStorageService.deleteFile(publicId, 'raw');
+        }
+        for (const field of ['storageDriver', 'pdfStorageKey', 'csvStorageKey', 'cloudinaryPdfUrl', 'cloudinaryPdfPublicId', 'cloudinaryCsvUrl', 'cloudinaryCsvPublicId']) {
+            report.set(field, undefined);
+        }
+    }
+
+    /**
+     * Delete a report, its archived exports and its generation job
+     */
+    static async removeReport(report: ProctoringReportDocument): Promise<void> {
+        await this.removeReportExports(report);
+        await ReportJob.deleteOne({ reportId: report.reportId });
+        await report.deleteOne();
+    }
+
+    private static storedExportKeys(report: ProctoringReportDocument): string[] {
+        return report.storageDriver
+            ? [report.pdfStorageKey, report.csvStorageKey].filter((key): key is string => !!key)
+            : [];
+    }
+
+    private static legacyExportIds(report: ProctoringReportDocument): string[] {
+        return [report.cloudinaryPdfPublicId, report.cloudinaryCsvPublicId]
+            .filter((publicId): publicId is string => !!publicId);
+    }
+}
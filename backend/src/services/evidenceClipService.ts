@@ -0,0 +1,242 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DetectionEvent } from '../models/DetectionEvent';
+import { EvidenceClip, EvidenceClipDocument } from '../models/EvidenceClip';
+import { InterviewSession } from '../models/InterviewSession';
+import { ProctoringReport } from '../models/ProctoringReport';
+import { EventType, EvidenceLink, SuspiciousEvent } from '../types';
+import { envInt } from '../utils/concurrency';
+
+// Where a clip is cut from the recording, in seconds
+export interface EvidencePlan {
+    eventType: EventType;
+    eventTimestamp: Date;
+    offsetSeconds: number;
+    startSeconds: number;
+    durationSeconds: number;
+    // Frame used for the still; kept inside the recording for events at its very end
+    stillSeconds: number;
+}
+
+// Cuts the clip and still for a plan (VideoStorageService, which owns the ffmpeg pipeline)
+export interface EvidenceCutter {
+    cutEvidence(sourcePath: string, plan: EvidencePlan, clipPath: string, stillPath: string): Promise<void>;
+}
+
+export interface RecordingTiming {
+    duration?: number | undefined;
+    recordingStartedAt?: Date | undefined;
+}
+
+// Events severe enough that reviewers want to see them without watching the whole interview
+export const EVIDENCE_EVENT_TYPES: readonly EventType[] = [EventType.MULTIPLE_FACES, EventType.UNAUTHORIZED_ITEM];
+
+const LEAD_SECONDS = 5;
+const TRAIL_SECONDS = 5;
+const MAX_CLIP_SECONDS = 30;
+
+const roundSeconds = (value: number): number => Math.round(value * 1000) / 1000;
+
+// Suspicious events are built from detection events, so type and timestamp identify them
+const eventKey = (eventType: string, timestamp: Date | string): string =>
+    `${eventType}@${new Date(timestamp).getTime()}`;
+
+export class EvidenceClipService {
+    private static readonly evidenceDir = path.join(process.cwd(), 'uploads', 'evidence');
+    private static readonly maxClipsPerRecording = envInt('EVIDENCE_MAX_CLIPS', 20);
+
+    /**
+     * Place a clip around each high-severity event that falls inside the recording
+     */
+    static planClips(
+        events: Array<{ eventType: EventType; timestamp: Date; duration?: number | undefined }>,
+        recordingStartedAt: Date,
+        recordingDuration?: number
+    ): EvidencePlan[] {
+        const end = recordingDuration ?? Infinity;
+        const plans: EvidencePlan[] = [];
+
+        for (const event of events) {
+            if (!EVIDENCE_EVENT_TYPES.includes(event.eventType)) continue;
+
+            const offsetSeconds = roundSeconds((new Date(event.timestamp).getTime() - recordingStartedAt.getTime()) / 1000);
+            if (offsetSeconds < 0 || offsetSeconds >= end) continue;
+
+            const startSeconds = Math.max(0, offsetSeconds - LEAD_SECONDS);
+            const stopSeconds = Math.min(end, startSeconds + MAX_CLIP_SECONDS, offsetSeconds + (event.duration || 0) + TRAIL_SECONDS);
+
+            plans.push({
+                eventType: event.eventType,
+                eventTimestamp: new Date(event.timestamp),
+                offsetSeconds,
+                startSeconds: roundSeconds(startSeconds),
+                durationSeconds: roundSeconds(stopSeconds - startSeconds),
+                stillSeconds: Number.isFinite(end) ? roundSeconds(Math.min(offsetSeconds, Math.max(0, end - 0.5))) : offsetSeconds
+            });
+        }
+
+        return plans.slice(0, this.maxClipsPerRecording);
+    }
+
+    static toLink(clip: EvidenceClip): EvidenceLink {
+        return {
+            clipId: clip.clipId,
+            clipUrl: `/api/videos/${clip.videoId}/evidence/${clip.clipId}`,
+            stillUrl: `/api/videos/${clip.videoId}/evidence/${clip.clipId}/still`,
+            startSeconds: clip.startSeconds,
+            durationSeconds: clip.durationSeconds
+        };
+    }
+
+    /**
+     * Link each suspicious event to the clip cut around it; links to clips that no longer exist are dropped
+     */
+    static attachEvidence(events: SuspiciousEvent[], clips: EvidenceClip[]): SuspiciousEvent[] {
+        const byEvent = new Map(clips.map(clip => [eventKey(clip.eventType, clip.eventTimestamp), clip]));
+
+        return events.map(({ evidence: _previous, ...event }) => {
+            const clip = byEvent.get(eventKey(event.eventType, event.timestamp));
+            return clip ? { ...event, evidence: this.toLink(clip) } : event;
+        });
+    }
+
+    /**
+     * Cut clips and stills around the session's high-severity events and link them from its reports.
+     * A clip that fails to cut is skipped; the others are kept.
+     */
+    static async capture(
+        videoId: string,
+        sessionId: string,
+        filePath: string,
+        timing: RecordingTiming,
+        cutter: EvidenceCutter
+    ): Promise<EvidenceClipDocument[]> {
+        const session = await InterviewSession.findOne({ sessionId }).select('startTime recordingStartedAt organizationId');
+        if (!session) return [];
+
+        const events = await DetectionEvent.find({
+            sessionId,
+            eventType: { $in: EVIDENCE_EVENT_TYPES }
+        }).sort({ timestamp: 1 });
+
+        const recordingStartedAt = timing.recordingStartedAt ?? session.recordingStartedAt ?? session.startTime;
+        const plans = this.planClips(events, recordingStartedAt, timing.duration);
+
+        // A re-capture replaces whatever was cut before
+        await this.deleteClips(await EvidenceClip.findByVideoId(videoId));
+
+        const clips: EvidenceClipDocument[] = [];
+        if (plans.length > 0) {
+            await fs.promises.mkdir(this.evidenceDir, { recursive: true });
+        }
+
+        for (const plan of plans) {
+            const clipId = uuidv4();
+            const clipFilename = `${videoId}-${clipId}.mp4`;
+            const stillFilename = `${videoId}-${clipId}.jpg`;
+
+            try {
+                await cutter.cutEvidence(filePath, plan, this.evidencePath(clipFilename), this.evidencePath(stillFilename));
+                const stats = await fs.promises.stat(this.evidencePath(clipFilename));
+
+                clips.push(await EvidenceClip.create({
+                    clipId,
+                    videoId,
+                    sessionId,
+                    organizationId: session.organizationId,
+                    eventType: plan.eventType,
+                    eventTimestamp: plan.eventTimestamp,
+                    offsetSeconds: plan.offsetSeconds,
+                    startSeconds: plan.startSeconds,
+                    durationSeconds: plan.durationSeconds,
+                    clipFilename,
+                    stillFilename,
+                    size: stats.size
+                }));
+            } catch (error) {
+                console.warn(`Evidence clip at ${plan.offsetSeconds}s failed for video ${videoId}:`, error);
+                await this.unlinkFiles([clipFilename, stillFilename]);
+            }
+        }
+
+        await this.linkReports(sessionId);
+        return clips;
+    }
+
+    static async listForVideo(videoId: string): Promise<EvidenceClipDocument[]> {
+        return EvidenceClip.findByVideoId(videoId);
+    }
+
+    static async findBySession(sessionId: string): Promise<EvidenceClipDocument[]> {
+        return EvidenceClip.findBySession(sessionId);
+    }
+
+    static async getClip(videoId: string, clipId: string): Promise<EvidenceClipDocument | null> {
+        const clip = await EvidenceClip.findByClipId(clipId);
+        return clip?.videoId === videoId ? clip : null;
+    }
+
+    /**
+     * Load the stills linked from a report's suspicious events as data URLs, keyed by clip ID,
+     * so the PDF renderer does not need to fetch them through the API
+     */
+    static async loadStills(sessionId: string, events: SuspiciousEvent[]): Promise<Map<string, string>> {
+        const stills = new Map<string, string>();
+        if (!events.some(event => event.evidence)) return stills;
+
+        for (const clip of await EvidenceClip.findBySession(sessionId)) {
+            try {
+                const image = await fs.promises.readFile(this.evidencePath(clip.stillFilename));
+                stills.set(clip.clipId, `data:image/jpeg;base64,${image.toString('base64')}`);
+            } catch (error) {
+                console.warn(`Evidence still missing for clip ${clip.clipId}:`, error);
+            }
+        }
+        return stills;
+    }
+
+    /**
+     * Remove a recording's clips and unlink them from its session's reports
+     */
+    static async remove(videoId: string): Promise<void> {
+        const clips = await EvidenceClip.findByVideoId(videoId);
+        if (clips.length === 0) return;
+
+        await this.deleteClips(clips);
+        for (const sessionId of new Set(clips.map(clip => clip.sessionId))) {
+            await this.linkReports(sessionId);
+        }
+    }
+
+    static evidencePath(filename: string): string {
+        return path.join(this.evidenceDir, path.basename(filename));
+    }
+
+    /**
+     * Refresh the evidence links on every report for the session (reports may be generated before or after the recording)
+     */
+    private static async linkReports(sessionId: string): Promise<void> {
+        const reports = await ProctoringReport.find({ sessionId });
+        if (reports.length === 0) return;
+
+        const clips = await EvidenceClip.findBySession(sessionId);
+        for (const report of reports) {
+            report.set('suspiciousEvents', this.attachEvidence(report.toObject().suspiciousEvents || [], clips));
+            await report.save();
+        }
+    }
+
+    private static async deleteClips(clips: EvidenceClipDocument[]): Promise<void> {
+        for (const clip of clips) {
+            await this.unlinkFiles([clip.clipFilename, clip.stillFilename]);
+            await clip.deleteOne();
+        }
+    }
+
+    private static async unlinkFiles(filenames: string[]): Promise<void> {
+        for (const filename of filenames) {
+            await fs.promises.unlink(this.evidencePath(filename)).catch(() => undefined);
+        }
+    }
+}
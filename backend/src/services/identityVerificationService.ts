@@ -0,0 +1,138 @@
+import { InterviewSessionDocument } from '../models/InterviewSession';
+import { IdentityReference, IdentityReferenceDocument } from '../models/IdentityReference';
+import { DetectionEvent, DetectionEventDocument } from '../models/DetectionEvent';
+import { ConflictError, ValidationError } from '../middleware/errorHandler';
+import {
+    EventType,
+    IdentityReferenceInput,
+    IdentityVerificationInput,
+    IdentityVerificationStatus,
+    IdentityVerificationSummary
+} from '../types';
+import { envInt } from '../utils/concurrency';
+
+export interface IdentityVerificationResult {
+    matched: boolean;
+    similarity: number;
+    threshold: number;
+    phase: IdentityVerificationInput['phase'];
+    summary: IdentityVerificationSummary;
+    /** The detection event recorded for a mismatch */
+    event?: DetectionEventDocument;
+}
+
+export class IdentityVerificationService {
+    /**
+     * Minimum similarity for a snapshot to count as the reference person
+     */
+    static get matchThreshold(): number {
+        return Math.min(100, envInt('IDENTITY_MATCH_THRESHOLD_PERCENT', 85)) / 100;
+    }
+
+    /**
+     * Similarity of two landmark descriptors in [0, 1], where 1 means identical geometry.
+     * Each ratio is compared relative to its size so long and short distances weigh the same.
+     */
+    static compareDescriptors(reference: number[], candidate: number[]): number {
+        if (reference.length !== candidate.length || reference.length === 0) {
+            throw new ValidationError('Face descriptor does not match the reference format');
+        }
+
+        const meanRelativeDifference = reference.reduce((sum, value, index) => {
+            const other = candidate[index]!;
+            const scale = (Math.abs(value) + Math.abs(other)) / 2;
+            return sum + (scale > 0 ? Math.abs(value - other) / scale : 0);
+        }, 0) / reference.length;
+
+        return Math.round(Math.max(0, 1 - meanRelativeDifference) * 1000) / 1000;
+    }
+
+    /**
+     * Store (or replace) the reference photo for a session and reset its verification summary
+     */
+    static async setReference(
+        session: InterviewSessionDocument,
+        input: IdentityReferenceInput,
+        uploadedBy: string
+    ): Promise<IdentityReferenceDocument> {
+        const reference = await IdentityReference.findBySession(session.sessionId)
+            ?? new IdentityReference({ sessionId: session.sessionId, organizationId: session.organizationId });
+        reference.descriptor = input.descriptor;
+        reference.uploadedBy = uploadedBy;
+        reference.set('photo', input.photo);
+        await reference.save();
+
+        session.identityVerification = {
+            status: IdentityVerificationStatus.PENDING,
+            referenceUploadedAt: new Date(),
+            checkCount: 0,
+            mismatchCount: 0
+        };
+        await session.save();
+
+        return reference;
+    }
+
+    /**
+     * Compare a candidate snapshot with the session's reference and record the outcome
+     */
+    static async verify(
+        session: InterviewSessionDocument,
+        input: IdentityVerificationInput
+    ): Promise<IdentityVerificationResult> {
+        const reference = await IdentityReference.findBySession(session.sessionId);
+        if (!reference || !session.identityVerification) {
+            throw new ConflictError('No reference photo has been uploaded for this session');
+        }
+
+        const similarity = this.compareDescriptors(reference.descriptor, input.descriptor);
+        const threshold = this.matchThreshold;
+        const matched = similarity >= threshold;
+
+        const previous = session.identityVerification;
+        const summary: IdentityVerificationSummary = {
+            status: matched ? IdentityVerificationStatus.VERIFIED : IdentityVerificationStatus.MISMATCH,
+            referenceUploadedAt: previous.referenceUploadedAt,
+            lastCheckedAt: new Date(),
+            lastSimilarity: similarity,
+            checkCount: (previous.checkCount || 0) + 1,
+            mismatchCount: (previous.mismatchCount || 0) + (matched ? 0 : 1)
+        };
+        session.identityVerification = summary;
+        await session.save();
+
+        const result: IdentityVerificationResult = { matched, similarity, threshold, phase: input.phase, summary };
+        if (!matched) {
+            result.event = await this.recordMismatch(session, result);
+        }
+        return result;
+    }
+
+    /**
+     * Log a mismatch in the session timeline; the server records it so a candidate can't leave it out
+     */
+    private static async recordMismatch(
+        session: InterviewSessionDocument,
+        result: IdentityVerificationResult
+    ): Promise<DetectionEventDocument> {
+        const event = new DetectionEvent({
+            sessionId: session.sessionId,
+            candidateId: session.candidateId,
+            organizationId: session.organizationId,
+            eventType: EventType.IDENTITY_MISMATCH,
+            timestamp: new Date(),
+            confidence: Math.min(1, Math.max(0, 1 - result.similarity)),
+            metadata: {
+                identityMetrics: {
+                    similarity: result.similarity,
+                    threshold: result.threshold,
+                    phase: result.phase
+                },
+                description: `Candidate did not match the reference photo (${result.phase} check)`,
+                eventSource: 'identity-verification'
+            }
+        });
+        await event.save();
+        return event;
+    }
+}
@@ -0,0 +1,189 @@
+import { createHash } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { InterviewSession, InterviewSessionDocument } from '../models/InterviewSession';
+import { SessionInvitation } from '../models/SessionInvitation';
+import { UserDocument } from '../models/User';
+import {
+    AuthenticationError,
+    AuthorizationError,
+    ConflictError,
+    CustomError,
+    JoinWindowError,
+    NotFoundError
+} from '../middleware/errorHandler';
+import { SessionStatus, SessionEndReason } from '../types';
+import { runAcrossTenants } from '../utils/tenantContext';
+
+export const DEFAULT_JOIN_WINDOW_MINUTES = 15;
+export const DEFAULT_MAX_DURATION_MINUTES = 60;
+
+// Checked on redemption; access token verification refuses tokens carrying any audience
+const INVITATION_AUDIENCE = 'session-invitation';
+
+interface InvitationTokenPayload {
+    invitationId: string;
+    sessionId: string;
+}
+
+export interface IssuedInvitation {
+    invitationId: string;
+    token: string;
+    invitationUrl: string;
+    expiresAt: Date;
+}
+
+export class InvitationService {
+    /**
+     * Issue a signed, single-use invitation for a scheduled session.
+     * Earlier unused invitations for the session are revoked.
+     */
+    static async createInvitation(session: InterviewSessionDocument, createdBy: string): Promise<IssuedInvitation> {
+        const window = session.getJoinWindow();
+        if (!window || session.status !== SessionStatus.SCHEDULED) {
+            throw new ConflictError('Invitations can only be issued for scheduled sessions');
+        }
+        if (window.closesAt.getTime() <= Date.now()) {
+            throw new JoinWindowError('The join window for this session has already closed', true);
+        }
+
+        await SessionInvitation.updateMany(
+            { sessionId: session.sessionId, usedAt: { $exists: false }, revokedAt: { $exists: false } },
+            { $set: { revokedAt: new Date() } }
+        );
+
+        const invitation = await SessionInvitation.create({
+            invitationId: uuidv4(),
+            sessionId: session.sessionId,
+            candidateEmail: session.candidateEmail,
+            createdBy,
+            expiresAt: window.closesAt,
+            organizationId: session.organizationId
+        });
+
+        const payload: InvitationTokenPayload = {
+            invitationId: invitation.invitationId,
+            sessionId: session.sessionId
+        };
+        const token = jwt.sign(payload, this.signingSecret(), {
+            audience: INVITATION_AUDIENCE,
+            expiresIn: Math.max(1, Math.ceil((window.closesAt.getTime() - Date.now()) / 1000))
+        });
+
+        return {
+            invitationId: invitation.invitationId,
+            token,
+            invitationUrl: this.buildInvitationUrl(token),
+            expiresAt: window.closesAt
+        };
+    }
+
+    /**
+     * Redeem an invitation: checks the join window, marks the invitation used
+     * and activates the session for the candidate.
+     */
+    static async redeemInvitation(token: string, candidate: UserDocument): Promise<InterviewSessionDocument> {
+        const { invitationId, sessionId } = this.verifyInvitationToken(token);
+
+        // The token is the credential here, so look it up regardless of the caller's organization
+        return runAcrossTenants(async () => {
+            const invitation = await SessionInvitation.findByInvitationId(invitationId);
+            if (!invitation || invitation.sessionId !== sessionId) {
+                throw new NotFoundError('Invitation');
+            }
+            if (invitation.revokedAt) {
+                throw new CustomError('Invitation has been revoked', 410);
+            }
+            if (invitation.usedAt) {
+                throw new ConflictError('Invitation has already been used');
+            }
+
+            const session = await InterviewSession.findOne({ sessionId });
+            if (!session) {
+                throw new NotFoundError('Session');
+            }
+            if (session.organizationId && session.organizationId !== candidate.organizationId) {
+                throw new AuthorizationError('This invitation belongs to another organization');
+            }
+            if (invitation.candidateEmail && invitation.candidateEmail !== candidate.email.toLowerCase()) {
+                throw new AuthorizationError('This invitation was issued to a different email address');
+            }
+            if (session.status === SessionStatus.EXPIRED) {
+                throw new JoinWindowError('The join window for this session has closed', true);
+            }
+            if (session.status !== SessionStatus.SCHEDULED) {
+                throw new ConflictError('Session is no longer accepting invitations');
+            }
+
+            await this.checkJoinWindow(session);
+
+            // Claim atomically so two concurrent requests cannot both use the invitation
+            const claimed = await SessionInvitation.findOneAndUpdate(
+                { invitationId, usedAt: { $exists: false }, revokedAt: { $exists: false } },
+                { $set: { usedAt: new Date(), usedBy: candidate.userId } },
+                { new: true }
+            );
+            if (!claimed) {
+                throw new ConflictError('Invitation has already been used');
+            }
+
+            session.status = SessionStatus.ACTIVE;
+            session.startTime = new Date();
+            session.candidateId = candidate.userId;
+            return session.save();
+        });
+    }
+
+    /**
+     * Reject joins outside a scheduled session's window. A session whose window
+     * closed without the candidate joining is marked expired.
+     */
+    static async checkJoinWindow(session: InterviewSessionDocument, now: Date = new Date()): Promise<void> {
+        const window = session.getJoinWindow();
+        if (!window) {
+            return;
+        }
+        if (now < window.opensAt) {
+            throw new JoinWindowError(`The join window opens at ${window.opensAt.toISOString()}`, false);
+        }
+        if (now > window.closesAt) {
+            await this.expireIfScheduled(session.sessionId);
+            throw new JoinWindowError('The join window for this session has closed', true);
+        }
+    }
+
+    static async expireIfScheduled(sessionId: string): Promise<boolean> {
+        const result = await InterviewSession.updateOne(
+            { sessionId, status: SessionStatus.SCHEDULED },
+            { $set: { status: SessionStatus.EXPIRED, endReason: SessionEndReason.JOIN_WINDOW_CLOSED } }
+        );
+        return result.modifiedCount > 0;
+    }
+
+    private static verifyInvitationToken(token: string): InvitationTokenPayload {
+        try {
+            const payload = jwt.verify(token, this.signingSecret(), { audience: INVITATION_AUDIENCE }) as InvitationTokenPayload;
+            if (!payload.invitationId || !payload.sessionId) {
+                throw new Error('Malformed invitation token');
+            }
+            return payload;
+        } catch (error) {
+            if (error instanceof jwt.TokenExpiredError) {
+                throw new JoinWindowError('Invitation has expired', true);
+            }
+            throw new AuthenticationError('Invalid invitation token');
+        }
+    }
+
+    // Derived per purpose so an invitation is never signed with the key of access tokens
+    private static signingSecret(): string {
+        return createHash('sha256')
+            .update(`session-invitation:${process.env.INVITATION_SECRET || process.env.JWT_SECRET || 'your-secret-key'}`)
+            .digest('hex');
+    }
+
+    private static buildInvitationUrl(token: string): string {
+        const frontendUrl = process.env.FRONTEND_URL || process.env.CORS_ORIGIN || 'http://localhost:5173';
+        return `${frontendUrl.replace(/\/$/, '')}/candidate?invite=${encodeURIComponent(token)}`;
+    }
+}
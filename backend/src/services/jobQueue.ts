@@ -0,0 +1,205 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { CustomError } from '../middleware/errorHandler';
+
+export interface JobQueueConfig {
+    concurrency: number;
+    pollIntervalMs: number;
+    leaseMs: number;
+    baseBackoffMs: number;
+    maxBackoffMs: number;
+}
+
+// The fields every persisted job carries for retries and leasing
+export interface QueuedJob {
+    attempts: number;
+    maxAttempts: number;
+    error?: string | undefined;
+}
+
+export interface JobUpdate {
+    status?: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+    progress?: number;
+    message?: string;
+    error?: string;
+    nextRunAt?: Date;
+    completedAt?: Date;
+}
+
+/**
+ * Persistence for one kind of job. Implemented by the job's Mongoose model.
+ */
+export interface JobStore<TJob extends QueuedJob> {
+    // What the job is called in status messages, e.g. "Report generation"
+    label: string;
+    getId(job: TJob): string;
+    claimNext(workerId: string, leaseMs: number): PromiseLike<TJob | null>;
+    updateLeased(jobId: string, workerId: string, update: JobUpdate): Promise<boolean>;
+    cancel(jobId: string): PromiseLike<TJob | null>;
+}
+
+export interface JobContext {
+    /**
+     * Record progress and renew the lease.
+     * Throws JobAbortedError if the job was cancelled or taken over.
+     */
+    checkpoint(progress: number, message: string): Promise<void>;
+}
+
+export type JobProcessor<TJob> = (job: TJob, context: JobContext) => Promise<void>;
+
+// Raised inside a running job once this worker no longer owns it
+export class JobAbortedError extends Error {
+    constructor(jobId: string) {
+        super(`Job ${jobId} was cancelled or reassigned`);
+        this.name = 'JobAbortedError';
+    }
+}
+
+/**
+ * Mongo-backed job queue.
+ * Jobs survive restarts: pending jobs are polled, and processing jobs whose
+ * lease expired (the worker died mid-flight) are claimed again and resumed.
+ */
+export class PersistentJobQueue<TJob extends QueuedJob> {
+    public readonly workerId = `${os.hostname()}-${process.pid}-${uuidv4().slice(0, 8)}`;
+    private readonly config: JobQueueConfig;
+    private active = 0;
+    private draining = false;
+    private pollTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly store: JobStore<TJob>,
+        private readonly processor: JobProcessor<TJob>,
+        config: Partial<JobQueueConfig> = {}
+    ) {
+        this.config = {
+            concurrency: 2,
+            pollIntervalMs: 5000,
+            leaseMs: 2 * 60 * 1000,
+            baseBackoffMs: 5000,
+            maxBackoffMs: 5 * 60 * 1000,
+            ...config
+        };
+    }
+
+    /**
+     * Start polling for due and abandoned jobs
+     */
+    public start(): void {
+        if (this.pollTimer) return;
+        this.pollTimer = setInterval(() => this.poke(), this.config.pollIntervalMs);
+        this.pollTimer.unref();
+        this.poke();
+    }
+
+    public stop(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+    }
+
+    /**
+     * Try to claim work immediately (e.g. right after a job was enqueued)
+     */
+    public poke(): void {
+        void this.drain();
+    }
+
+    /**
+     * Cancel a pending or running job. A running job stops at its next checkpoint.
+     */
+    public async cancel(jobId: string): Promise<TJob | null> {
+        return this.store.cancel(jobId);
+    }
+
+    public get activeJobs(): number {
+        return this.active;
+    }
+
+    private async drain(): Promise<void> {
+        if (this.draining) return;
+        this.draining = true;
+
+        try {
+            while (this.active < this.config.concurrency) {
+                const job = await this.store.claimNext(this.workerId, this.config.leaseMs);
+                if (!job) break;
+
+                this.active++;
+                void this.execute(job).finally(() => {
+                    this.active--;
+                    this.poke();
+                });
+            }
+        } catch (error) {
+            console.error(`${this.store.label} queue poll failed:`, error);
+        } finally {
+            this.draining = false;
+        }
+    }
+
+    private async execute(job: TJob): Promise<void> {
+        const jobId = this.store.getId(job);
+
+        // A job that keeps crashing its worker is eventually given up on
+        if (job.attempts > job.maxAttempts) {
+            await this.store.updateLeased(jobId, this.workerId, {
+                status: 'failed',
+                progress: 0,
+                error: job.error || `Exceeded ${job.maxAttempts} attempts`
+            });
+            return;
+        }
+
+        // Keep the lease alive during long steps such as PDF rendering or transcoding
+        const heartbeat = setInterval(() => {
+            this.store.updateLeased(jobId, this.workerId, {}).catch(() => undefined);
+        }, Math.floor(this.config.leaseMs / 3));
+        heartbeat.unref();
+
+        const context: JobContext = {
+            checkpoint: async (progress: number, message: string) => {
+                const held = await this.store.updateLeased(jobId, this.workerId, { progress, message });
+                if (!held) {
+                    throw new JobAbortedError(jobId);
+                }
+            }
+        };
+
+        try {
+            await this.processor(job, context);
+            await this.store.updateLeased(jobId, this.workerId, {
+                status: 'completed',
+                progress: 100,
+                message: `${this.store.label} completed successfully`,
+                completedAt: new Date()
+            });
+        } catch (error) {
+            if (error instanceof JobAbortedError) return;
+
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            // Client errors (e.g. missing session) will not succeed on retry
+            const retryable = !(error instanceof CustomError && error.statusCode < 500);
+
+            if (retryable && job.attempts < job.maxAttempts) {
+                const delay = Math.min(this.config.baseBackoffMs * 2 ** (job.attempts - 1), this.config.maxBackoffMs);
+                await this.store.updateLeased(jobId, this.workerId, {
+                    status: 'pending',
+                    error: message,
+                    message: `Attempt ${job.attempts} of ${job.maxAttempts} failed, retrying in ${Math.ceil(delay / 1000)}s`,
+                    nextRunAt: new Date(Date.now() + delay)
+                });
+            } else {
+                await this.store.updateLeased(jobId, this.workerId, {
+                    status: 'failed',
+                    progress: 0,
+                    error: message
+                });
+            }
+        } finally {
+            clearInterval(heartbeat);
+        }
+    }
+}
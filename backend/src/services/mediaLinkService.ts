@@ -0,0 +1,44 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { envInt } from '../utils/concurrency';
+
+export interface MediaLink {
+    url: string;
+    expiresAt: Date;
+}
+
+/**
+ * Short-lived links to one media resource (a recording, its preview images, an evidence clip)
+ * for <video> and <img> tags and plain links, which cannot send an Authorization header.
+ * The link is issued to a request that passed the usual checks and carries no login token,
+ * so a link leaked through logs, history or Referer headers opens that one resource, briefly.
+ */
+export class MediaLinkService {
+    // Long enough to watch a recording; the player fetches fresh links when reopened
+    private static readonly ttlSeconds = envInt('MEDIA_LINK_TTL_SECONDS', 3600);
+
+    /**
+     * Sign an API path such as `/api/videos/<videoId>/poster`
+     */
+    static sign(path: string, expiresInSeconds: number = this.ttlSeconds): MediaLink {
+        const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+        const query = new URLSearchParams({ expires: String(expires), signature: this.signature(path, expires) });
+        return { url: `${path}?${query.toString()}`, expiresAt: new Date(expires * 1000) };
+    }
+
+    static verify(path: string, expires: number, signature: string): boolean {
+        if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+
+        const expected = Buffer.from(this.signature(path, expires), 'hex');
+        const given = Buffer.from(signature, 'hex');
+        return given.length === expected.length && timingSafeEqual(given, expected);
+    }
+
+    private static signature(path: string, expires: number): string {
+        return createHmac('sha256', this.secret()).update(`${path}\n${expires}`).digest('hex');
+    }
+
+    // Derived from JWT_SECRET so a media signature is never valid as anything else
+    private static secret(): Buffer {
+        return createHash('sha256').update(`media-link:${process.env.JWT_SECRET || 'your-secret-key'}`).digest();
+    }
+}
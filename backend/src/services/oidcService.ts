@@ -0,0 +1,359 @@
+import { createHash, createPublicKey, randomBytes, JsonWebKey, KeyObject } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { User, UserDocument } from '../models';
+import { AuthenticationError, AuthorizationError, ConflictError, ExternalServiceError } from '../middleware/errorHandler';
+import { OrganizationService } from './organizationService';
+import { TokenService } from './tokenService';
+import { UserRole } from '../types';
+import { runAcrossTenants } from '../utils/tenantContext';
+import { securityLogger } from '../utils/logger';
+import { envInt } from '../utils/concurrency';
+
+// Sign-in attempts must come back from the provider within this time
+const TRANSACTION_TTL_SECONDS = 10 * 60;
+
+// Roles single sign-on can grant; candidates keep signing in with a password
+const SSO_ROLES = [UserRole.ADMIN, UserRole.INTERVIEWER] as const;
+type SsoRole = typeof SSO_ROLES[number];
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string;
+  // ID token claim holding the user's groups
+  groupsClaim: string;
+  // Provider group name → role granted to its members
+  roleMapping: Map<string, SsoRole>;
+  // Organization new users are provisioned into (slug); the default organization when unset
+  organizationSlug?: string | undefined;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+// Browser-bound state of a sign-in, kept in a signed cookie between redirect and callback
+export interface OidcTransaction {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo?: string | undefined;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+const base64url = (buffer: Buffer): string => buffer.toString('base64url');
+
+/**
+ * Parse OIDC_ROLE_MAPPING: comma-separated `group:role` pairs, e.g. `proctoring-admins:admin,interviewers:interviewer`
+ */
+const parseRoleMapping = (value: string): Map<string, SsoRole> => {
+  const mapping = new Map<string, SsoRole>();
+  for (const entry of value.split(',').map(pair => pair.trim()).filter(Boolean)) {
+    const separator = entry.lastIndexOf(':');
+    const group = entry.slice(0, separator).trim();
+    const role = entry.slice(separator + 1).trim().toLowerCase() as SsoRole;
+    if (separator <= 0 || !SSO_ROLES.includes(role)) {
+      throw new Error(`Invalid OIDC_ROLE_MAPPING entry "${entry}"; expected group:${SSO_ROLES.join('|')}`);
+    }
+    mapping.set(group, role);
+  }
+  return mapping;
+};
+
+/**
+ * OpenID Connect sign-in for interviewers and admins (authorization code flow with PKCE).
+ * Users are provisioned on first sign-in and their role follows their provider groups on every sign-in.
+ */
+export class OidcService {
+    private static metadata: Map<string, Promise<ProviderMetadata>> = new Map();
+    private static keys: Map<string, Map<string, KeyObject>> = new Map();
+
+    static isEnabled(): boolean {
+        return !!(process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID);
+    }
+
+    static config(): OidcConfig {
+        if (!this.isEnabled()) {
+            throw new ExternalServiceError('Single sign-on', 'OIDC_ISSUER and OIDC_CLIENT_ID are not configured');
+        }
+        return {
+            issuer: process.env.OIDC_ISSUER!.replace(/\/+$/, ''),
+            clientId: process.env.OIDC_CLIENT_ID!,
+            clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+            redirectUri: process.env.OIDC_REDIRECT_URI || `http://localhost:${process.env.PORT || 5000}/api/auth/oidc/callback`,
+            scopes: process.env.OIDC_SCOPES || 'openid email profile groups',
+            groupsClaim: process.env.OIDC_GROUPS_CLAIM || 'groups',
+            roleMapping: parseRoleMapping(process.env.OIDC_ROLE_MAPPING || ''),
+            organizationSlug: process.env.OIDC_ORGANIZATION || undefined
+        };
+    }
+
+    /**
+     * Where to send the browser to sign in, and the transaction to keep until it comes back
+     */
+    static async beginLogin(returnTo?: string): Promise<{ authorizationUrl: string; transaction: string }> {
+        const config = this.config();
+        const metadata = await this.discover(config.issuer);
+
+        const transaction: OidcTransaction = {
+            state: base64url(randomBytes(24)),
+            nonce: base64url(randomBytes(24)),
+            codeVerifier: base64url(randomBytes(32)),
+            returnTo
+        };
+
+        const url = new URL(metadata.authorization_endpoint);
+        url.search = new URLSearchParams({
+            response_type: 'code',
+            client_id: config.clientId,
+            redirect_uri: config.redirectUri,
+            scope: config.scopes,
+            state: transaction.state,
+            nonce: transaction.nonce,
+            code_challenge: base64url(createHash('sha256').update(transaction.codeVerifier).digest()),
+            code_challenge_method: 'S256'
+        }).toString();
+
+        return {
+            authorizationUrl: url.toString(),
+            transaction: jwt.sign(transaction, this.transactionSecret(), { expiresIn: TRANSACTION_TTL_SECONDS })
+        };
+    }
+
+    /**
+     * Finish a sign-in: check the callback against its transaction, redeem the code and verify the ID token
+     */
+    static async completeLogin(
+        callback: { code?: string | undefined; state?: string | undefined; error?: string | undefined; error_description?: string | undefined },
+        signedTransaction: string | undefined
+    ): Promise<{ claims: OidcClaims; returnTo?: string | undefined }> {
+        if (callback.error) {
+            throw new AuthenticationError(`Single sign-on failed: ${callback.error_description || callback.error}`);
+        }
+
+        let transaction: OidcTransaction;
+        try {
+            transaction = jwt.verify(signedTransaction || '', this.transactionSecret()) as OidcTransaction;
+        } catch {
+            throw new AuthenticationError('Single sign-on attempt expired; please try again');
+        }
+        if (!callback.code || callback.state !== transaction.state) {
+            throw new AuthenticationError('Single sign-on response does not match this sign-in attempt');
+        }
+
+        const config = this.config();
+        const metadata = await this.discover(config.issuer);
+        const idToken = await this.redeemCode(config, metadata, callback.code, transaction.codeVerifier);
+        const claims = await this.verifyIdToken(config, metadata, idToken, transaction.nonce);
+        return { claims, returnTo: transaction.returnTo };
+    }
+
+    /**
+     * Find, link or create the user for verified ID token claims and bring their role in line with their groups
+     */
+    static async provisionUser(claims: OidcClaims): Promise<UserDocument> {
+        const config = this.config();
+        const email = typeof claims.email === 'string' ? claims.email.toLowerCase() : undefined;
+        if (!email || claims.email_verified === false) {
+            throw new AuthenticationError('The identity provider did not supply a verified email address');
+        }
+
+        const role = this.mapRole(claims, config);
+        if (!role) {
+            securityLogger.loginAttempt('sso', email, false, 'no mapped group');
+            throw new AuthorizationError('Your account is not in a group allowed to use this application');
+        }
+
+        // Sign-in is global, like password login; the user's organization is found from their account
+        let user = await runAcrossTenants(() => User.findOne({ oidcIssuer: config.issuer, oidcSubject: claims.sub }));
+        if (!user) {
+            const organization = await OrganizationService.resolveRegistrationOrganization(config.organizationSlug);
+            user = await runAcrossTenants(() => User.findOne({ email }));
+            if (!user) {
+                const name = (typeof claims.name === 'string' && claims.name.trim()) || email;
+                return User.create({
+                    userId: uuidv4(),
+                    email,
+                    // Never used: SSO accounts cannot sign in with a password
+                    password: base64url(randomBytes(32)),
+                    name: name.slice(0, 100),
+                    role,
+                    organizationId: organization.organizationId,
+                    authProvider: 'oidc',
+                    oidcIssuer: config.issuer,
+                    oidcSubject: claims.sub
+                });
+            }
+
+            // Linking by email hands the account to whoever holds that address at the provider
+            if (claims.email_verified !== true) {
+                throw new ConflictError('This email belongs to an existing account; the identity provider has not verified it');
+            }
+            if (user.organizationId !== organization.organizationId) {
+                throw new ConflictError('This email belongs to an account outside the organization single sign-on is set up for');
+            }
+        }
+
+        if (user.oidcSubject && (user.oidcIssuer !== config.issuer || user.oidcSubject !== claims.sub)) {
+            throw new ConflictError('This email is linked to a different single sign-on identity');
+        }
+        if (user.role === UserRole.CANDIDATE || user.role === UserRole.SUPER_ADMIN) {
+            throw new ConflictError('This account cannot use single sign-on; sign in with your password');
+        }
+        if (!user.isActive) {
+            throw new AuthenticationError('User not found or inactive.');
+        }
+
+        const roleChanged = user.role !== role;
+        user.role = role;
+        user.authProvider = 'oidc';
+        user.oidcIssuer = config.issuer;
+        user.oidcSubject = claims.sub;
+        await user.save();
+
+        // Earlier tokens carry the old role
+        if (roleChanged) {
+            await TokenService.revokeUser(user.userId, 'role changed by identity provider groups');
+        }
+        return user;
+    }
+
+    /**
+     * The most privileged role any of the user's groups maps to
+     */
+    static mapRole(claims: OidcClaims, config: OidcConfig = this.config()): SsoRole | null {
+        const value = claims[config.groupsClaim];
+        const groups = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? [value] : [];
+        const roles = groups.map(group => config.roleMapping.get(group)).filter(Boolean);
+        return SSO_ROLES.find(role => roles.includes(role)) ?? null;
+    }
+
+    // Forget cached provider metadata and signing keys (after reconfiguration)
+    static clearCache(): void {
+        this.metadata.clear();
+        this.keys.clear();
+    }
+
+    private static discover(issuer: string): Promise<ProviderMetadata> {
+        if (!this.metadata.has(issuer)) {
+            const discovery = this.fetchJson<ProviderMetadata>(`${issuer}/.well-known/openid-configuration`)
+                .then(metadata => {
+                    if (metadata.issuer.replace(/\/+$/, '') !== issuer) {
+                        throw new ExternalServiceError('Single sign-on', `Provider reports issuer ${metadata.issuer}`);
+                    }
+                    return metadata;
+                });
+            // Retry discovery on the next sign-in if the provider was unreachable
+            discovery.catch(() => this.metadata.delete(issuer));
+            this.metadata.set(issuer, discovery);
+        }
+        return this.metadata.get(issuer)!;
+    }
+
+    private static async redeemCode(config: OidcConfig, metadata: ProviderMetadata, code: string, codeVerifier: string): Promise<string> {
+        const body = new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: config.redirectUri,
+            code_verifier: codeVerifier,
+            client_id: config.clientId
+        });
+        const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+        if (metadata.token_endpoint_auth_methods_supported?.includes('client_secret_post')
+            && !metadata.token_endpoint_auth_methods_supported.includes('client_secret_basic')) {
+            body.set('client_secret', config.clientSecret);
+        } else {
+            const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+            headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+        }
+
+        const tokens = await this.fetchJson<{ id_token?: string }>(metadata.token_endpoint, { method: 'POST', headers, body });
+        if (!tokens.id_token) {
+            throw new ExternalServiceError('Single sign-on', 'Token response did not include an ID token');
+        }
+        return tokens.id_token;
+    }
+
+    private static async verifyIdToken(config: OidcConfig, metadata: ProviderMetadata, idToken: string, nonce: string): Promise<OidcClaims> {
+        const decoded = jwt.decode(idToken, { complete: true });
+        if (!decoded || typeof decoded.payload === 'string') {
+            throw new AuthenticationError('Invalid ID token');
+        }
+
+        const key = await this.signingKey(metadata.jwks_uri, decoded.header.kid);
+        let claims: OidcClaims;
+        try {
+            claims = jwt.verify(idToken, key, {
+                algorithms: ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'PS256'],
+                issuer: metadata.issuer,
+                audience: config.clientId,
+                clockTolerance: 60
+            }) as OidcClaims;
+        } catch (error) {
+            throw new AuthenticationError(`Invalid ID token: ${(error as Error).message}`);
+        }
+        if (claims.nonce !== nonce) {
+            throw new AuthenticationError('Invalid ID token: nonce does not match');
+        }
+        return claims;
+    }
+
+    // Provider key by id; the key set is fetched again when a key is not known yet (rotation)
+    private static async signingKey(jwksUri: string, kid: string | undefined): Promise<KeyObject> {
+        const find = () => {
+            const keys = this.keys.get(jwksUri);
+            if (!keys) return undefined;
+            return kid ? keys.get(kid) : keys.size === 1 ? [...keys.values()][0] : undefined;
+        };
+
+        if (!find()) {
+            const { keys } = await this.fetchJson<{ keys: Array<JsonWebKey & { kid?: string; use?: string }> }>(jwksUri);
+            this.keys.set(jwksUri, new Map(keys
+                .filter(jwk => !jwk.use || jwk.use === 'sig')
+                .map((jwk, index) => [jwk.kid || String(index), createPublicKey({ key: jwk, format: 'jwk' })])));
+        }
+
+        const key = find();
+        if (!key) {
+            throw new AuthenticationError('Invalid ID token: unknown signing key');
+        }
+        return key;
+    }
+
+    // A provider that stops answering fails the sign-in instead of holding the request open
+    private static async fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+        const timeoutMs = envInt('OIDC_PROVIDER_TIMEOUT_MS', 10000);
+        let response: Response;
+        try {
+            response = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+        } catch (error) {
+            const reason = (error as Error).name === 'TimeoutError'
+                ? `no answer within ${timeoutMs}ms`
+                : (error as Error).message;
+            throw new ExternalServiceError('Single sign-on', `Identity provider unreachable: ${reason}`);
+        }
+        if (!response.ok) {
+            throw new ExternalServiceError('Single sign-on', `Identity provider returned ${response.status} for ${new URL(url).pathname}`);
+        }
+        return await response.json() as T;
+    }
+
+    // Transactions are signed with a key derived from JWT_SECRET so they cannot pass as access tokens
+    private static transactionSecret(): string {
+        return createHash('sha256').update(`oidc-transaction:${process.env.JWT_SECRET || 'your-secret-key'}`).digest('hex');
+    }
+}
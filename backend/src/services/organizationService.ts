@@ -0,0 +1,192 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Organization, OrganizationDocument } from '../models/Organization';
+import { User, UserDocument } from '../models/User';
+import { InterviewSession } from '../models/InterviewSession';
+import { DetectionEvent } from '../models/DetectionEvent';
+import { ManualObservation } from '../models/ManualObservation';
+import { ProctoringReport } from '../models/ProctoringReport';
+import { AuthorizationError, ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { CreateOrganizationInput, CreateOrganizationUserInput, UserRole } from '../types';
+import { runAcrossTenants } from '../utils/tenantContext';
+
+export type UpdateOrganizationUserInput = {
+    role?: UserRole.CANDIDATE | UserRole.INTERVIEWER | UserRole.ADMIN | undefined;
+    isActive?: boolean | undefined;
+};
+
+// Collections carrying an organizationId, backfilled when the default organization is created
+const TENANT_MODELS = [User, InterviewSession, DetectionEvent, ManualObservation, ProctoringReport];
+
+export class OrganizationService {
+    /**
+     * Make sure the default organization exists and owns every record created
+     * before organizations were introduced. Safe to run on every startup.
+     */
+    static async ensureDefaultOrganization(): Promise<OrganizationDocument> {
+        return runAcrossTenants(async () => {
+            let organization = await Organization.findDefault();
+            if (!organization) {
+                organization = await Organization.create({
+                    organizationId: uuidv4(),
+                    name: process.env.DEFAULT_ORGANIZATION_NAME || 'Default Organization',
+                    slug: 'default',
+                    isDefault: true
+                });
+            }
+
+            const { organizationId } = organization;
+            for (const model of TENANT_MODELS) {
+                const result = await (model as any).updateMany(
+                    { organizationId: { $exists: false } },
+                    { $set: { organizationId } }
+                );
+                if (result.modifiedCount > 0) {
+                    console.log(`Assigned ${result.modifiedCount} ${model.collection.name} to the default organization`);
+                }
+            }
+
+            return organization;
+        });
+    }
+
+    static async listOrganizations(): Promise<OrganizationDocument[]> {
+        return Organization.find().sort({ name: 1 });
+    }
+
+    static async getOrganization(organizationId: string): Promise<OrganizationDocument> {
+        const organization = await Organization.findOne({ organizationId });
+        if (!organization) {
+            throw new NotFoundError('Organization');
+        }
+        return organization;
+    }
+
+    /**
+     * Create an organization, optionally together with its first admin
+     */
+    static async createOrganization(input: CreateOrganizationInput): Promise<{ organization: OrganizationDocument; admin: UserDocument | null }> {
+        if (await Organization.findBySlug(input.slug)) {
+            throw new ConflictError(`Organization slug already in use: ${input.slug}`);
+        }
+        if (input.admin) {
+            await this.assertEmailAvailable(input.admin.email);
+        }
+
+        const organization = await Organization.create({
+            organizationId: uuidv4(),
+            name: input.name,
+            slug: input.slug
+        });
+
+        let admin: UserDocument | null = null;
+        if (input.admin) {
+            admin = await User.create({
+                userId: uuidv4(),
+                email: input.admin.email.toLowerCase(),
+                password: input.admin.password,
+                name: input.admin.name,
+                role: UserRole.ADMIN,
+                organizationId: organization.organizationId
+            });
+        }
+
+        return { organization, admin };
+    }
+
+    static async updateOrganization(organizationId: string, update: { name?: string | undefined; isActive?: boolean | undefined }): Promise<OrganizationDocument> {
+        const organization = await this.getOrganization(organizationId);
+        if (organization.isDefault && update.isActive === false) {
+            throw new ConflictError('The default organization cannot be deactivated');
+        }
+        if (update.name) organization.name = update.name;
+        if (update.isActive !== undefined) organization.isActive = update.isActive;
+        return organization.save();
+    }
+
+    /**
+     * Organization new self-registered users join: the one named by slug, or the default
+     */
+    static async resolveRegistrationOrganization(slug?: string): Promise<OrganizationDocument> {
+        const organization = slug
+            ? await Organization.findBySlug(slug)
+            : (await Organization.findDefault()) ?? (await this.ensureDefaultOrganization());
+        if (!organization || !organization.isActive) {
+            throw new NotFoundError('Organization');
+        }
+        return organization;
+    }
+
+    /**
+     * Create a user in the actor's organization. Super admins may target another organization.
+     */
+    static async createUser(input: CreateOrganizationUserInput, actor: UserDocument): Promise<UserDocument> {
+        const organizationId = actor.role === UserRole.SUPER_ADMIN && input.organizationId
+            ? (await this.getOrganization(input.organizationId)).organizationId
+            : actor.organizationId;
+
+        await this.assertEmailAvailable(input.email);
+
+        return User.create({
+            userId: uuidv4(),
+            email: input.email.toLowerCase(),
+            password: input.password,
+            name: input.name,
+            role: input.role,
+            organizationId
+        });
+    }
+
+    /**
+     * List users; queries are already limited to the caller's organization
+     */
+    static async listUsers(filter: { role?: UserRole | undefined; organizationId?: string | undefined } = {}): Promise<UserDocument[]> {
+        const query: Record<string, unknown> = {};
+        if (filter.role) query.role = filter.role;
+        if (filter.organizationId) query.organizationId = filter.organizationId;
+        return User.find(query).sort({ createdAt: -1 });
+    }
+
+    static async updateUser(userId: string, update: UpdateOrganizationUserInput, actor: UserDocument): Promise<UserDocument> {
+        const user = await this.getManagedUser(userId, actor);
+        if (user.userId === actor.userId && (update.isActive === false || (update.role && update.role !== user.role))) {
+            throw new ConflictError('You cannot deactivate or change the role of your own account');
+        }
+
+        if (update.role) user.role = update.role;
+        if (update.isActive !== undefined) user.isActive = update.isActive;
+        return user.save();
+    }
+
+    /**
+     * A user of the caller's organization the actor may manage; only super admins manage super admins
+     */
+    static async getManagedUser(userId: string, actor: UserDocument): Promise<UserDocument> {
+        const user = await User.findOne({ userId });
+        if (!user) {
+            throw new NotFoundError('User');
+        }
+        if (user.role === UserRole.SUPER_ADMIN && actor.role !== UserRole.SUPER_ADMIN) {
+            throw new AuthorizationError('Cannot modify a platform administrator');
+        }
+        return user;
+    }
+
+    /**
+     * Whether the user's organization still allows sign-in. Users predating organizations are let through.
+     */
+    static async isOrganizationActive(organizationId?: string): Promise<boolean> {
+        if (!organizationId) {
+            return true;
+        }
+        const organization = await Organization.findOne({ organizationId });
+        return !!organization && organization.isActive;
+    }
+
+    // Emails are unique across all organizations because login is by email
+    private static async assertEmailAvailable(email: string): Promise<void> {
+        const existing = await runAcrossTenants(() => User.findOne({ email: email.toLowerCase() }));
+        if (existing) {
+            throw new ConflictError('User with this email already exists');
+        }
+    }
+}
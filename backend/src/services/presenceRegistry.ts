@@ -0,0 +1,152 @@
+import { v4 as uuidv4 } from 'uuid';
+import { RedisClient } from '../utils/redisClient';
+import { WebSocketConnectionData } from '../types/websocket';
+
+// Who is connected to one server instance
+export interface InstancePresence {
+    instanceId: string;
+    // Participants of each session with someone connected here
+    sessions: Record<string, WebSocketConnectionData[]>;
+    // Signed-in users with at least one socket here
+    users: string[];
+}
+
+/**
+ * Where each WebSocket server instance reports who is connected to it, so any instance can
+ * answer for the whole deployment. Instances replace their own report on every change.
+ */
+export interface PresenceRegistry {
+    readonly instanceId: string;
+
+    publish(presence: Omit<InstancePresence, 'instanceId'>): Promise<void>;
+    // Reports of every live instance, this one included
+    instances(): Promise<InstancePresence[]>;
+    // When a session last had someone connected, kept after it empties out
+    setLastSeen(sessionId: string, at: Date): Promise<void>;
+    lastSeen(sessionId: string): Promise<Date | null>;
+    clearLastSeen(sessionId: string): Promise<void>;
+    // Withdraws this instance's report
+    close(): Promise<void>;
+}
+
+/**
+ * Registry of a single instance, kept in process memory
+ */
+export class MemoryPresenceRegistry implements PresenceRegistry {
+    readonly instanceId = uuidv4();
+    private current: InstancePresence = { instanceId: this.instanceId, sessions: {}, users: [] };
+    private readonly lastSeenAt = new Map<string, Date>();
+
+    async publish(presence: Omit<InstancePresence, 'instanceId'>): Promise<void> {
+        this.current = { instanceId: this.instanceId, ...presence };
+    }
+
+    async instances(): Promise<InstancePresence[]> {
+        return [this.current];
+    }
+
+    async setLastSeen(sessionId: string, at: Date): Promise<void> {
+        this.lastSeenAt.set(sessionId, at);
+    }
+
+    async lastSeen(sessionId: string): Promise<Date | null> {
+        return this.lastSeenAt.get(sessionId) ?? null;
+    }
+
+    async clearLastSeen(sessionId: string): Promise<void> {
+        this.lastSeenAt.delete(sessionId);
+    }
+
+    async close(): Promise<void> {
+        this.current = { instanceId: this.instanceId, sessions: {}, users: [] };
+    }
+}
+
+export interface RedisPresenceRegistryOptions {
+    keyPrefix?: string;
+    // An instance that stops refreshing its report is considered gone after this long
+    instanceTtlMs?: number;
+    lastSeenTtlMs?: number;
+}
+
+/**
+ * Registry shared through a Redis server. Each instance's report is one key that expires
+ * unless refreshed, so instances that crash drop out on their own.
+ */
+export class RedisPresenceRegistry implements PresenceRegistry {
+    readonly instanceId = uuidv4();
+    private readonly keyPrefix: string;
+    private readonly instanceTtlMs: number;
+    private readonly lastSeenTtlMs: number;
+
+    constructor(private readonly client: RedisClient, options: RedisPresenceRegistryOptions = {}) {
+        this.keyPrefix = options.keyPrefix ?? 'presence:';
+        this.instanceTtlMs = options.instanceTtlMs ?? 90 * 1000;
+        this.lastSeenTtlMs = options.lastSeenTtlMs ?? 7 * 24 * 60 * 60 * 1000;
+    }
+
+    async publish(presence: Omit<InstancePresence, 'instanceId'>): Promise<void> {
+        const report: InstancePresence = { instanceId: this.instanceId, ...presence };
+        // The report goes in before the instance is listed, so a listed instance without one has expired
+        await Promise.all([
+            this.client.command('SET', this.instanceKey(this.instanceId), JSON.stringify(report), 'PX', this.instanceTtlMs),
+            this.client.command('SADD', this.instancesKey(), this.instanceId)
+        ]);
+    }
+
+    async instances(): Promise<InstancePresence[]> {
+        const listed = await this.client.command('SMEMBERS', this.instancesKey());
+        const instanceIds = Array.isArray(listed) ? listed.map(String) : [];
+        if (instanceIds.length === 0) {
+            return [];
+        }
+
+        const reports = await this.client.command('MGET', ...instanceIds.map(id => this.instanceKey(id)));
+        const expired = instanceIds.filter((_id, index) => !Array.isArray(reports) || typeof reports[index] !== 'string');
+        if (expired.length > 0) {
+            await this.client.command('SREM', this.instancesKey(), ...expired);
+        }
+
+        return (Array.isArray(reports) ? reports : [])
+            .filter((report): report is string => typeof report === 'string')
+            .map(report => {
+                const presence = JSON.parse(report) as InstancePresence;
+                Object.values(presence.sessions).forEach(connections => connections.forEach(connection => {
+                    connection.connectedAt = new Date(connection.connectedAt);
+                }));
+                return presence;
+            });
+    }
+
+    async setLastSeen(sessionId: string, at: Date): Promise<void> {
+        await this.client.command('SET', this.lastSeenKey(sessionId), at.toISOString(), 'PX', this.lastSeenTtlMs);
+    }
+
+    async lastSeen(sessionId: string): Promise<Date | null> {
+        const value = await this.client.command('GET', this.lastSeenKey(sessionId));
+        return typeof value === 'string' ? new Date(value) : null;
+    }
+
+    async clearLastSeen(sessionId: string): Promise<void> {
+        await this.client.command('DEL', this.lastSeenKey(sessionId));
+    }
+
+    async close(): Promise<void> {
+        await Promise.all([
+            this.client.command('SREM', this.instancesKey(), this.instanceId),
+            this.client.command('DEL', this.instanceKey(this.instanceId))
+        ]);
+    }
+
+    private instancesKey(): string {
+        return `${this.keyPrefix}instances`;
+    }
+
+    private instanceKey(instanceId: string): string {
+        return `${this.keyPrefix}instance:${instanceId}`;
+    }
+
+    private lastSeenKey(sessionId: string): string {
+        return `${this.keyPrefix}last-seen:${sessionId}`;
+    }
+}
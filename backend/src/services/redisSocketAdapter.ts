@@ -0,0 +1,115 @@
+import { Namespace } from 'socket.io';
+import {
+    ClusterAdapterOptions,
+    ClusterAdapterWithHeartbeat,
+    ClusterMessage,
+    ClusterResponse,
+    Offset,
+    ServerId
+} from 'socket.io-adapter';
+import { RedisClient } from '../utils/redisClient';
+
+export interface RedisSocketAdapterOptions extends ClusterAdapterOptions {
+    channelPrefix?: string;
+}
+
+// Binary payloads (recorded chunks, WebRTC data) travel base64-encoded inside the JSON message
+const encode = (message: ClusterMessage | ClusterResponse): string =>
+    JSON.stringify(message, function (this: Record<string, unknown>, key: string, value: unknown) {
+        const raw = this[key];
+        if (raw instanceof Uint8Array || raw instanceof ArrayBuffer) {
+            return { $binary: Buffer.from(raw as Uint8Array).toString('base64') };
+        }
+        return value;
+    });
+
+const decode = <T>(message: string): T =>
+    JSON.parse(message, (_key, value) =>
+        value && typeof value === 'object' && typeof value.$binary === 'string' && Object.keys(value).length === 1
+            ? Buffer.from(value.$binary, 'base64')
+            : value);
+
+/**
+ * Socket.IO adapter that relays room broadcasts, joins, disconnects and server-side events
+ * between server instances over Redis pub/sub. Each namespace uses one channel for messages
+ * to every instance and one per instance for replies addressed to it.
+ */
+export class RedisSocketAdapter extends ClusterAdapterWithHeartbeat {
+    // Resolves once this instance receives messages from the others
+    public readonly ready: Promise<void>;
+    private readonly channelPrefix: string;
+    private readonly channel: string;
+    private readonly responseChannel: string;
+
+    constructor(
+        nsp: Namespace,
+        private readonly publisher: RedisClient,
+        private readonly subscriber: RedisClient,
+        options: RedisSocketAdapterOptions = {}
+    ) {
+        super(nsp, options);
+        this.channelPrefix = options.channelPrefix ?? 'socket.io';
+        this.channel = `${this.channelPrefix}#${nsp.name}#`;
+        this.responseChannel = this.responseChannelOf(this.uid);
+
+        this.ready = Promise.all([
+            this.subscriber.subscribe(this.channel, message => this.receive(message, 'message')),
+            this.subscriber.subscribe(this.responseChannel, message => this.receive(message, 'response'))
+        ]).then(() => undefined);
+        this.ready.catch(error => console.error('Failed to subscribe to Socket.IO cluster channels:', error));
+    }
+
+    init(): void {
+        // Announce this instance only once it can hear the others answer
+        this.ready.then(() => super.init(), () => undefined);
+    }
+
+    async close(): Promise<void> {
+        super.close();
+        await Promise.all([
+            this.subscriber.unsubscribe(this.channel),
+            this.subscriber.unsubscribe(this.responseChannel)
+        ]).catch(() => undefined);
+    }
+
+    protected async doPublish(message: ClusterMessage): Promise<Offset> {
+        await this.publisher.command('PUBLISH', this.channel, encode(message));
+        // Offsets only matter for connection state recovery, which pub/sub cannot replay
+        return '';
+    }
+
+    protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse): Promise<void> {
+        await this.publisher.command('PUBLISH', this.responseChannelOf(requesterUid), encode(response));
+    }
+
+    private responseChannelOf(uid: ServerId): string {
+        return `${this.channelPrefix}-response#${this.nsp.name}#${uid}#`;
+    }
+
+    private receive(message: string, kind: 'message' | 'response'): void {
+        try {
+            if (kind === 'message') {
+                this.onMessage(decode<ClusterMessage>(message));
+            } else {
+                this.onResponse(decode<ClusterResponse>(message));
+            }
+        } catch (error) {
+            console.error('Ignoring malformed Socket.IO cluster message:', error);
+        }
+    }
+}
+
+/**
+ * Adapter factory for `new Server(httpServer, { adapter })`. The subscriber client is put in
+ * subscriber mode, so it cannot be the publisher or be shared with other commands.
+ */
+export const createRedisSocketAdapter = (
+    publisher: RedisClient,
+    subscriber: RedisClient,
+    options: RedisSocketAdapterOptions = {}
+) => {
+    // Socket.IO calls the factory with `new`, which an arrow function does not support
+    return function (nsp: Namespace) {
+        return new RedisSocketAdapter(nsp, publisher, subscriber, options);
+    };
+};
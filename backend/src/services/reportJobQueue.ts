@@ -0,0 +1,29 @@
+import { ReportJob, ReportJobDocument } from '../models/ReportJob';
+import { JobAbortedError, JobContext, JobProcessor, JobQueueConfig, PersistentJobQueue } from './jobQueue';
+
+export type ReportJobQueueConfig = JobQueueConfig;
+export type ReportJobContext = JobContext;
+export type ReportJobProcessor = JobProcessor<ReportJobDocument>;
+export { JobAbortedError as ReportJobAbortedError };
+
+/**
+ * Persisted queue of report generation jobs
+ */
+export class ReportJobQueue extends PersistentJobQueue<ReportJobDocument> {
+    constructor(processor: ReportJobProcessor, config: Partial<ReportJobQueueConfig> = {}) {
+        super({
+            label: 'Report generation',
+            getId: job => job.reportId,
+            claimNext: (workerId, leaseMs) => ReportJob.claimNext(workerId, leaseMs),
+            updateLeased: (reportId, workerId, update) => ReportJob.updateLeased(reportId, workerId, update),
+            cancel: reportId => ReportJob.findOneAndUpdate(
+                { reportId, status: { $in: ['pending', 'processing'] } },
+                {
+                    $set: { status: 'cancelled', cancelledAt: new Date(), message: 'Report generation cancelled' },
+                    $unset: { lockedBy: 1, lockedAt: 1 }
+                },
+                { new: true }
+            )
+        }, processor, config);
+    }
+}
@@ -5,93 +5,146 @@ import { DetectionEvent } from '../models/DetectionEvent';
 import { InterviewSession } from '../models/InterviewSession';
 import { ProctoringReport } from '../models/ProctoringReport';
 import { ManualObservation } from '../models/ManualObservation';
-import { EventType, SuspiciousEvent, ManualObservation as IManualObservation } from '../types';
-import { cloudStorageService } from './cloudStorageService';
+import { AuditAction, EventType, ProctoringReport as ProctoringReportData, SuspiciousEvent } from '../types';
+import { ReportJob, ReportJobDocument, ReportJobStatus } from '../models/ReportJob';
+import { StorageService } from './storage';
+import { ReportJobQueue, ReportJobContext, ReportJobAbortedError } from './reportJobQueue';
+import { ScoringPolicyService, ScoringPolicySelector } from './scoringPolicyService';
+import { EvidenceClipService } from './evidenceClipService';
+import { AuditService, AuditActor } from './auditService';
+import { ReportSigningService } from './reportSigningService';
+import {
+    calculateIntegrityBreakdown,
+    eventsFromCounts,
+    getEventTypeLabel,
+    summarizeEventTypes,
+    LEGACY_SCORING_POLICY,
+    EventTypeDeduction,
+    EventTypeStat
+} from '../utils/integrityScoring';
+import { Semaphore, envInt } from '../utils/concurrency';
+import { NotFoundError, ConflictError } from '../middleware/errorHandler';
 import { Readable } from 'stream';
 import path from 'path';
 import fs from 'fs/promises';
 
+// Outcome of checking an exported report against the stored one
+export interface ReportVerification {
+    code: string;
+    reportId: string;
+    format: 'pdf' | 'csv';
+    issuedAt: Date;
+    contentHash: string;
+    signatureValid: boolean;
+    reportExists: boolean;
+    // The stored report still hashes to the value signed at export
+    contentMatches: boolean;
+    // Only present when the caller supplied the file's SHA-256
+    fileMatches?: boolean;
+    valid: boolean;
+    // What the stored report says, to compare against the document
+    report?: {
+        candidateName: string;
+        sessionId: string;
+        integrityScore: number;
+        generatedAt: Date;
+    };
+    signingKey: { keyId: string; publicKey: string };
+}
+
 // Report generation status tracking
 export interface ReportGenerationStatus {
     reportId: string;
-    status: 'pending' | 'processing' | 'completed' | 'failed';
+    status: ReportJobStatus;
     progress: number;
     message?: string;
     error?: string;
+    attempts?: number;
+    maxAttempts?: number;
+    nextRunAt?: Date;
 }
 
-// In-memory status tracking (in production, use Redis or database)
-const reportStatusMap = new Map<string, ReportGenerationStatus>();
+type ArchivedExports = Pick<
+    ProctoringReportData,
+    'reportId' | 'storageDriver' | 'pdfStorageKey' | 'csvStorageKey' | 'cloudinaryPdfUrl' | 'cloudinaryCsvUrl'
+>;
+
+// Puppeteer launches are expensive; cap how many browsers render at once
+const pdfRenderSlots = new Semaphore(envInt('REPORT_PDF_CONCURRENCY', 2));
 
 export class ReportService {
+    // Persisted job queue; jobs outlive this process and resume after a restart
+    private static readonly jobQueue = new ReportJobQueue(
+        (job, context) => ReportService.processReportGeneration(job, context),
+        { concurrency: envInt('REPORT_JOB_CONCURRENCY', 2) }
+    );
+
     /**
-     * Generate a comprehensive proctoring report for a session
+     * Generate a comprehensive proctoring report for a session.
+     * The scoring policy is resolved up front so an unknown policy fails the request.
      */
-    static async generateReport(sessionId: string, includeManualObservations: boolean = true): Promise<string> {
+    static async generateReport(
+        sessionId: string,
+        includeManualObservations: boolean = true,
+        policySelector?: ScoringPolicySelector
+    ): Promise<string> {
+        const policy = await ScoringPolicyService.resolvePolicy(policySelector);
         const reportId = uuidv4();
 
-        // Initialize status tracking
-        reportStatusMap.set(reportId, {
+        await ReportJob.create({
             reportId,
+            sessionId,
+            includeManualObservations,
+            scoringPolicy: { name: policy.name, version: policy.version },
             status: 'pending',
             progress: 0,
-            message: 'Starting report generation'
+            message: 'Waiting for a report worker',
+            maxAttempts: envInt('REPORT_JOB_MAX_ATTEMPTS', 3),
+            nextRunAt: new Date()
         });
 
-        try {
-            // Start async report generation
-            this.processReportGeneration(reportId, sessionId, includeManualObservations);
-            return reportId;
-        } catch (error) {
-            reportStatusMap.set(reportId, {
-                reportId,
-                status: 'failed',
-                progress: 0,
-                error: error instanceof Error ? error.message : 'Unknown error'
-            });
-            throw error;
-        }
+        // Start async report generation if a worker slot is free
+        this.jobQueue.poke();
+        return reportId;
     }
 
     /**
-     * Process report generation asynchronously
+     * Start the background worker that picks up queued and abandoned jobs
      */
-    private static async processReportGeneration(
-        reportId: string,
-        sessionId: string,
-        includeManualObservations: boolean
-    ): Promise<void> {
-        try {
-            // Update status to processing
-            reportStatusMap.set(reportId, {
-                reportId,
-                status: 'processing',
-                progress: 10,
-                message: 'Fetching session data'
-            });
+    static startReportWorker(): void {
+        this.jobQueue.start();
+    }
+
+    static stopReportWorker(): void {
+        this.jobQueue.stop();
+    }
+
+    /**
+     * Process a report generation job. Safe to re-run after a crash: an
+     * already-saved report is reused and only the remaining steps are redone.
+     */
+    private static async processReportGeneration(job: ReportJobDocument, context: ReportJobContext): Promise<void> {
+        const { reportId, sessionId, includeManualObservations } = job;
+
+        await context.checkpoint(10, 'Fetching session data');
 
+        let report = await ProctoringReport.findOne({ reportId });
+
+        if (!report) {
             // Fetch session data
             const session = await InterviewSession.findOne({ sessionId });
             if (!session) {
-                throw new Error(`Session not found: ${sessionId}`);
+                throw new NotFoundError(`Session ${sessionId}`);
             }
 
-            reportStatusMap.set(reportId, {
-                reportId,
-                status: 'processing',
-                progress: 30,
-                message: 'Fetching detection events'
-            });
+            const policy = await ScoringPolicyService.resolvePolicy(job.scoringPolicy);
+
+            await context.checkpoint(30, 'Fetching detection events');
 
             // Fetch detection events
             const detectionEvents = await DetectionEvent.findBySession(sessionId);
 
-            reportStatusMap.set(reportId, {
-                reportId,
-                status: 'processing',
-                progress: 50,
-                message: 'Processing events and calculating scores'
-            });
+            await context.checkpoint(50, 'Processing events and calculating scores');
 
             // Fetch manual observations if requested
             let manualObservations: any[] = [];
@@ -101,33 +154,36 @@ export class ReportService {
             }
 
             // Calculate event counts and create suspicious events
-            const eventCounts = this.calculateEventCounts(detectionEvents);
-            const suspiciousEvents = this.createSuspiciousEvents(detectionEvents);
+            const eventStats = summarizeEventTypes(detectionEvents);
+            // Clips exist already when the recording was assembled first; otherwise they are linked once cut
+            const suspiciousEvents = EvidenceClipService.attachEvidence(
+                this.createSuspiciousEvents(detectionEvents),
+                await EvidenceClipService.findBySession(sessionId)
+            );
 
-            // Calculate integrity score and detailed breakdown
-            const integrityScore = this.calculateIntegrityScore(eventCounts, manualObservations);
-            const integrityBreakdown = this.calculateIntegrityScoreBreakdown(eventCounts, manualObservations);
+            // Calculate integrity score and detailed breakdown under the selected policy
+            const integrityBreakdown = calculateIntegrityBreakdown(detectionEvents, manualObservations, policy);
+            const integrityScore = integrityBreakdown.finalScore;
 
-            reportStatusMap.set(reportId, {
-                reportId,
-                status: 'processing',
-                progress: 80,
-                message: 'Creating report document'
-            });
+            await context.checkpoint(60, 'Creating report document');
 
             // Create proctoring report
-            const report = new ProctoringReport({
+            report = new ProctoringReport({
                 reportId,
                 sessionId: session.sessionId,
+                // The worker runs outside any request, so the tenant is taken from the session
+                organizationId: session.organizationId,
                 candidateId: session.candidateId,
                 candidateName: session.candidateName,
                 interviewDuration: session.duration || (session as any).calculateDuration(),
-                focusLossCount: eventCounts.focusLoss,
-                absenceCount: eventCounts.absence,
-                multipleFacesCount: eventCounts.multipleFaces,
-                unauthorizedItemsCount: eventCounts.unauthorizedItems,
+                focusLossCount: this.countOf(eventStats, EventType.FOCUS_LOSS),
+                absenceCount: this.countOf(eventStats, EventType.ABSENCE),
+                multipleFacesCount: this.countOf(eventStats, EventType.MULTIPLE_FACES),
+                unauthorizedItemsCount: this.countOf(eventStats, EventType.UNAUTHORIZED_ITEM),
+                eventStats,
                 integrityScore,
                 suspiciousEvents,
+                scoringPolicy: integrityBreakdown.policy,
                 generatedAt: new Date(),
                 // Add integrity breakdown to metadata
                 metadata: {
@@ -136,88 +192,96 @@ export class ReportService {
             });
 
             await report.save();
+        }
 
-            // Generate and upload reports to Cloudinary if configured
-            if (cloudStorageService.isEnabled()) {
-                reportStatusMap.set(reportId, {
-                    reportId,
-                    status: 'processing',
-                    progress: 70,
-                    message: 'Generating PDF report'
-                });
+        // Archive the PDF and CSV exports with the storage driver (skipped if a previous attempt finished it)
+        if (!report.csvStorageKey && !report.cloudinaryCsvUrl) {
+            await context.checkpoint(70, 'Generating PDF report');
 
-                try {
-                    // Generate PDF
-                    const pdfBuffer = await this.exportReportAsPDF(reportId, includeManualObservations);
-                    const pdfResult = await cloudStorageService.uploadDocument(
-                        pdfBuffer,
-                        `proctoring-report-${reportId}.pdf`,
-                        {
-                            public_id: `proctoring-report-${reportId}-pdf`,
-                            folder: 'video-interviews/reports'
-                        }
-                    );
-
-                    reportStatusMap.set(reportId, {
-                        reportId,
-                        status: 'processing',
-                        progress: 85,
-                        message: 'Generating CSV report'
-                    });
+            try {
+                const pdfBuffer = await this.exportReportAsPDF(reportId, includeManualObservations);
+                const pdf = await StorageService.put(this.exportKey(reportId, 'pdf'), { buffer: pdfBuffer }, 'application/pdf');
 
-                    // Generate CSV
-                    const csvBuffer = await this.exportReportAsCSV(reportId, includeManualObservations);
-                    const csvResult = await cloudStorageService.uploadDocument(
-                        csvBuffer,
-                        `proctoring-report-${reportId}.csv`,
-                        {
-                            public_id: `proctoring-report-${reportId}-csv`,
-                            folder: 'video-interviews/reports'
-                        }
-                    );
-
-                    // Update report with Cloudinary URLs
-                    report.cloudinaryPdfUrl = pdfResult.url;
-                    report.cloudinaryPdfPublicId = pdfResult.publicId;
-                    report.cloudinaryCsvUrl = csvResult.url;
-                    report.cloudinaryCsvPublicId = csvResult.publicId;
-                    await report.save();
-
-                    reportStatusMap.set(reportId, {
-                        reportId,
-                        status: 'processing',
-                        progress: 95,
-                        message: 'Finalizing report storage'
-                    });
-                } catch (cloudError) {
-                    console.warn('Failed to upload reports to Cloudinary:', cloudError);
-                    // Continue without failing the entire report generation
-                }
-            }
+                await context.checkpoint(85, 'Generating CSV report');
 
-            // Update status to completed
-            reportStatusMap.set(reportId, {
-                reportId,
-                status: 'completed',
-                progress: 100,
-                message: 'Report generation completed successfully'
-            });
+                const csvBuffer = await this.exportReportAsCSV(reportId, includeManualObservations);
+                const csv = await StorageService.put(this.exportKey(reportId, 'csv'), { buffer: csvBuffer }, 'text/csv');
 
-        } catch (error) {
-            reportStatusMap.set(reportId, {
-                reportId,
-                status: 'failed',
-                progress: 0,
-                error: error instanceof Error ? error.message : 'Unknown error'
-            });
+                report.storageDriver = pdf.driver;
+                report.pdfStorageKey = pdf.key;
+                report.csvStorageKey = csv.key;
+                await report.save();
+
+                await context.checkpoint(95, 'Finalizing report storage');
+            } catch (storageError) {
+                if (storageError instanceof ReportJobAbortedError) throw storageError;
+                console.warn('Failed to archive report exports:', storageError);
+                // Continue without failing the entire report generation; exports are rendered on request
+            }
         }
     }
 
     /**
      * Get report generation status
      */
-    static getReportStatus(reportId: string): ReportGenerationStatus | null {
-        return reportStatusMap.get(reportId) || null;
+    static async getReportStatus(reportId: string): Promise<ReportGenerationStatus | null> {
+        const job = await ReportJob.findByReportId(reportId);
+
+        if (!job) {
+            // Reports created before jobs were persisted have no job record
+            const report = await ProctoringReport.findOne({ reportId });
+            return report
+                ? { reportId, status: 'completed', progress: 100, message: 'Report generation completed successfully' }
+                : null;
+        }
+
+        return {
+            reportId: job.reportId,
+            status: job.status,
+            progress: job.progress,
+            ...(job.message ? { message: job.message } : {}),
+            ...(job.error ? { error: job.error } : {}),
+            attempts: job.attempts,
+            maxAttempts: job.maxAttempts,
+            ...(job.status === 'pending' ? { nextRunAt: job.nextRunAt } : {})
+        };
+    }
+
+    /**
+     * Cancel a pending or running report generation job
+     */
+    static async cancelReportGeneration(reportId: string): Promise<ReportGenerationStatus> {
+        const job = await this.jobQueue.cancel(reportId);
+
+        if (!job) {
+            const existing = await ReportJob.findByReportId(reportId);
+            if (!existing) {
+                throw new NotFoundError(`Report job ${reportId}`);
+            }
+            throw new ConflictError(`Report generation already ${existing.status}`);
+        }
+
+        return {
+            reportId: job.reportId,
+            status: job.status,
+            progress: job.progress,
+            ...(job.message ? { message: job.message } : {})
+        };
+    }
+
+    /**
+     * Signed download URL for an archived export, or null when it has to be rendered on request
+     */
+    static async getArchivedExportUrl(report: ArchivedExports, format: 'pdf' | 'csv'): Promise<string | null> {
+        const key = format === 'pdf' ? report.pdfStorageKey : report.csvStorageKey;
+        if (key && report.storageDriver) {
+            return StorageService.signedUrl(
+                { driver: report.storageDriver, key },
+                { downloadName: `proctoring-report-${report.reportId}.${format}` }
+            );
+        }
+        // Reports archived before storage drivers only have a public Cloudinary URL
+        return (format === 'pdf' ? report.cloudinaryPdfUrl : report.cloudinaryCsvUrl) || null;
     }
 
     /**
@@ -232,20 +296,30 @@ export class ReportService {
         // Include manual observations if they exist
         const manualObservations = await ManualObservation.findBySession(report.sessionId);
 
-        // Calculate integrity breakdown if not stored in metadata
+        // Reports generated before per-type stats only stored the four legacy counters
+        const eventStats: EventTypeStat[] = report.eventStats?.length
+            ? report.toJSON().eventStats!
+            : summarizeEventTypes(eventsFromCounts({
+                [EventType.FOCUS_LOSS]: report.focusLossCount,
+                [EventType.ABSENCE]: report.absenceCount,
+                [EventType.MULTIPLE_FACES]: report.multipleFacesCount,
+                [EventType.UNAUTHORIZED_ITEM]: report.unauthorizedItemsCount
+            }));
+
+        // Recalculate the breakdown if it was not stored (or predates per-type deductions)
         let integrityBreakdown = report.metadata?.integrityBreakdown;
-        if (!integrityBreakdown) {
-            const eventCounts = {
-                focusLoss: report.focusLossCount,
-                absence: report.absenceCount,
-                multipleFaces: report.multipleFacesCount,
-                unauthorizedItems: report.unauthorizedItemsCount
-            };
-            integrityBreakdown = this.calculateIntegrityScoreBreakdown(eventCounts, manualObservations.map(obs => obs.toJSON()));
+        if (!integrityBreakdown?.eventDeductions) {
+            // Reports without a policy reference were scored with the first built-in weights
+            const policy = report.scoringPolicy
+                ? await ScoringPolicyService.resolvePolicy(report.scoringPolicy).catch(() => LEGACY_SCORING_POLICY)
+                : LEGACY_SCORING_POLICY;
+            const events = eventsFromCounts(Object.fromEntries(eventStats.map(stat => [stat.eventType, stat.count])));
+            integrityBreakdown = calculateIntegrityBreakdown(events, manualObservations.map(obs => obs.toJSON() as any), policy);
         }
 
         return {
             ...report.toJSON(),
+            eventStats,
             manualObservations: manualObservations.map(obs => obs.toJSON()),
             integrityBreakdown
         };
@@ -256,39 +330,52 @@ export class ReportService {
      */
     static async exportReportAsPDF(reportId: string, includeManualObservations: boolean = true): Promise<Buffer> {
         const report = await this.getReport(reportId);
+        const evidenceStills = await EvidenceClipService.loadStills(report.sessionId, report.suspiciousEvents || []);
+        const attestation = ReportSigningService.sign(report, 'pdf', includeManualObservations);
+        const footerTemplate = await ReportSigningService.pdfFooterTemplate(attestation);
+
+        const rendered = await pdfRenderSlots.use(async () => {
+            let browser;
+            try {
+                browser = await puppeteer.launch({
+                    headless: true,
+                    args: ['--no-sandbox', '--disable-setuid-sandbox']
+                });
 
-        let browser;
-        try {
-            browser = await puppeteer.launch({
-                headless: true,
-                args: ['--no-sandbox', '--disable-setuid-sandbox']
-            });
-
-            const page = await browser.newPage();
-
-            // Generate HTML content for the report
-            const htmlContent = this.generateReportHTML(report, includeManualObservations);
-
-            await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
+                const page = await browser.newPage();
+
+                // Generate HTML content for the report
+                const htmlContent = this.generateReportHTML(report, includeManualObservations, evidenceStills);
+
+                await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
+
+                // Generate PDF
+                // Every page carries the verification code and QR code in its footer
+                const pdfBuffer = await page.pdf({
+                    format: 'A4',
+                    printBackground: true,
+                    displayHeaderFooter: true,
+                    headerTemplate: '<span></span>',
+                    footerTemplate,
+                    margin: {
+                        top: '20mm',
+                        right: '15mm',
+                        bottom: '30mm',
+                        left: '15mm'
+                    }
+                });
 
-            // Generate PDF
-            const pdfBuffer = await page.pdf({
-                format: 'A4',
-                printBackground: true,
-                margin: {
-                    top: '20mm',
-                    right: '15mm',
-                    bottom: '20mm',
-                    left: '15mm'
+                return Buffer.from(pdfBuffer);
+            } finally {
+                if (browser) {
+                    await browser.close();
                 }
-            });
-
-            return Buffer.from(pdfBuffer);
-        } finally {
-            if (browser) {
-                await browser.close();
             }
-        }
+        });
+
+        const signed = await ReportSigningService.embedInPdf(rendered, attestation);
+        await ReportSigningService.record(attestation, signed);
+        return signed;
     }
 
     /**
@@ -296,36 +383,51 @@ export class ReportService {
      */
     static async exportReportAsCSV(reportId: string, includeManualObservations: boolean = true): Promise<Buffer> {
         const report = await this.getReport(reportId);
+        const attestation = ReportSigningService.sign(report, 'csv', includeManualObservations);
 
-        return new Promise((resolve, reject) => {
+        const buffer = await new Promise<Buffer>((resolve, reject) => {
             const csvData: any[] = [];
 
+            // Every row carries every column; csv headers come from the first row
+            const emptyRow = {
+                Type: '',
+                'Candidate Name': report.candidateName,
+                'Session ID': report.sessionId,
+                'Interview Duration (seconds)': '',
+                'Final Integrity Score': '',
+                'Focus Loss Count': '',
+                'Absence Count': '',
+                'Multiple Faces Count': '',
+                'Unauthorized Items Count': '',
+                'Generated At': '',
+                'Event Count': '',
+                'Event Duration (seconds)': '',
+                'Score Deduction': '',
+                Timestamp: '',
+                Description: '',
+                Severity: '',
+                'Observation Type': '',
+                Flagged: ''
+            };
+
             // Add report summary
             csvData.push({
+                ...emptyRow,
                 Type: 'Report Summary',
-                'Candidate Name': report.candidateName,
-                'Session ID': report.sessionId,
                 'Interview Duration (seconds)': report.interviewDuration,
                 'Final Integrity Score': report.integrityScore,
                 'Focus Loss Count': report.focusLossCount,
                 'Absence Count': report.absenceCount,
                 'Multiple Faces Count': report.multipleFacesCount,
                 'Unauthorized Items Count': report.unauthorizedItemsCount,
-                'Generated At': report.generatedAt,
-                Timestamp: '',
-                Description: '',
-                Severity: '',
-                'Observation Type': '',
-                Flagged: ''
+                'Generated At': report.generatedAt
             });
 
             // Add integrity score breakdown if available
             if (report.integrityBreakdown) {
                 csvData.push({
+                    ...emptyRow,
                     Type: 'Integrity Score Calculation',
-                    'Candidate Name': report.candidateName,
-                    'Session ID': report.sessionId,
-                    'Interview Duration (seconds)': '',
                     'Final Integrity Score': `Formula: ${report.integrityBreakdown.formula}`,
                     'Focus Loss Count': `Base Score: ${report.integrityBreakdown.baseScore}`,
                     'Absence Count': `Focus Loss Deduction: -${report.integrityBreakdown.deductions.focusLoss}`,
@@ -335,29 +437,34 @@ export class ReportService {
                     Timestamp: `Manual Flags Deduction: -${report.integrityBreakdown.deductions.manualObservations}`,
                     Description: `Total Deductions: -${report.integrityBreakdown.deductions.total}`,
                     Severity: `Final Score: ${report.integrityBreakdown.finalScore}`,
-                    'Observation Type': '',
-                    Flagged: ''
+                    'Observation Type': `Scoring Policy: ${report.integrityBreakdown.policy.name} v${report.integrityBreakdown.policy.version}`
                 });
             }
 
+            // Add per event type counts, durations and deductions
+            (report.eventStats || []).forEach((stat: EventTypeStat) => {
+                const deduction = report.integrityBreakdown?.eventDeductions
+                    ?.find((item: EventTypeDeduction) => item.eventType === stat.eventType)?.deduction || 0;
+                csvData.push({
+                    ...emptyRow,
+                    Type: 'Event Type Summary',
+                    'Event Count': stat.count,
+                    'Event Duration (seconds)': stat.totalDuration,
+                    'Score Deduction': deduction ? `-${deduction}` : 0,
+                    Description: getEventTypeLabel(stat.eventType),
+                    'Observation Type': stat.eventType
+                });
+            });
+
             // Add suspicious events
             report.suspiciousEvents.forEach((event: SuspiciousEvent) => {
                 csvData.push({
+                    ...emptyRow,
                     Type: 'Suspicious Event',
-                    'Candidate Name': report.candidateName,
-                    'Session ID': report.sessionId,
-                    'Interview Duration (seconds)': '',
-                    'Final Integrity Score': '',
-                    'Focus Loss Count': '',
-                    'Absence Count': '',
-                    'Multiple Faces Count': '',
-                    'Unauthorized Items Count': '',
-                    'Generated At': '',
+                    'Event Duration (seconds)': event.duration ?? '',
                     Timestamp: event.timestamp,
                     Description: event.description,
-                    Severity: '',
-                    'Observation Type': event.eventType,
-                    Flagged: ''
+                    'Observation Type': event.eventType
                 });
             });
 
@@ -365,16 +472,8 @@ export class ReportService {
             if (includeManualObservations && report.manualObservations) {
                 report.manualObservations.forEach((observation: any) => {
                     csvData.push({
+                        ...emptyRow,
                         Type: 'Manual Observation',
-                        'Candidate Name': report.candidateName,
-                        'Session ID': report.sessionId,
-                        'Interview Duration (seconds)': '',
-                        'Final Integrity Score': '',
-                        'Focus Loss Count': '',
-                        'Absence Count': '',
-                        'Multiple Faces Count': '',
-                        'Unauthorized Items Count': '',
-                        'Generated At': '',
                         Timestamp: observation.timestamp,
                         Description: observation.description,
                         Severity: observation.severity,
@@ -384,6 +483,16 @@ export class ReportService {
                 });
             }
 
+            // Verification code and signature last, so the rows above read as before
+            ReportSigningService.csvRows(attestation).forEach(([label, value]) => {
+                csvData.push({
+                    ...emptyRow,
+                    Type: 'Verification',
+                    Description: value,
+                    'Observation Type': label
+                });
+            });
+
             const csvStream = csv.format({ headers: true });
             const chunks: Buffer[] = [];
 
@@ -394,6 +503,49 @@ export class ReportService {
             csvData.forEach(row => csvStream.write(row));
             csvStream.end();
         });
+
+        await ReportSigningService.record(attestation, buffer);
+        return buffer;
+    }
+
+    /**
+     * Check an exported PDF or CSV by its verification code: the signature must be ours and the
+     * stored report must still state what the export stated. With the file's SHA-256 the check
+     * also confirms the file is byte-for-byte the one issued.
+     */
+    static async verifyExport(code: string, fileSha256?: string): Promise<ReportVerification> {
+        const attestation = await ReportSigningService.findAttestation(code);
+        if (!attestation) {
+            throw new NotFoundError('Verification code');
+        }
+
+        const signatureValid = ReportSigningService.verifySignature(attestation);
+        const report = await this.getReport(attestation.reportId).catch(() => null);
+        const contentMatches = !!report
+            && ReportSigningService.contentHash(report, attestation.includeManualObservations) === attestation.contentHash;
+        const fileMatches = fileSha256 ? fileSha256.toLowerCase() === attestation.fileSha256 : undefined;
+
+        return {
+            code: ReportSigningService.formatCode(attestation.code),
+            reportId: attestation.reportId,
+            format: attestation.format,
+            issuedAt: attestation.issuedAt,
+            contentHash: attestation.contentHash,
+            signatureValid,
+            reportExists: !!report,
+            contentMatches,
+            ...(fileMatches !== undefined ? { fileMatches } : {}),
+            valid: signatureValid && contentMatches && fileMatches !== false,
+            ...(report ? {
+                report: {
+                    candidateName: report.candidateName,
+                    sessionId: report.sessionId,
+                    integrityScore: report.integrityScore,
+                    generatedAt: report.generatedAt
+                }
+            } : {}),
+            signingKey: ReportSigningService.publicKey()
+        };
     }
 
     /**
@@ -425,16 +577,29 @@ export class ReportService {
     }
 
     /**
-     * Update manual observation flagged status
+     * Update manual observation flagged status, recording the change in the audit log when an actor is given
      */
-    static async updateObservationFlag(observationId: string, flagged: boolean): Promise<any> {
+    static async updateObservationFlag(observationId: string, flagged: boolean, actor?: AuditActor): Promise<any> {
         const observation = await ManualObservation.findOne({ observationId });
         if (!observation) {
             throw new Error(`Observation not found: ${observationId}`);
         }
 
+        const previous = observation.flagged;
         observation.flagged = flagged;
         await observation.save();
+
+        if (actor) {
+            await AuditService.record(actor, {
+                action: AuditAction.OBSERVATION_FLAG,
+                targetType: 'observation',
+                targetId: observationId,
+                sessionId: observation.sessionId,
+                organizationId: observation.organizationId,
+                before: { flagged: previous },
+                after: { flagged }
+            });
+        }
         return observation.toJSON();
     }
 
@@ -447,46 +612,14 @@ export class ReportService {
     }
 
     /**
-     * Calculate event counts from detection events
+     * Look up the count for one event type
      */
-    private static calculateEventCounts(events: any[]): {
-        focusLoss: number;
-        absence: number;
-        multipleFaces: number;
-        unauthorizedItems: number;
-    } {
-        const counts = {
-            focusLoss: 0,
-            absence: 0,
-            multipleFaces: 0,
-            unauthorizedItems: 0
-        };
-
-        events.forEach(event => {
-            switch (event.eventType) {
-                case EventType.FOCUS_LOSS:
-                case 'focus-loss':
-                    counts.focusLoss++;
-                    break;
-                case EventType.ABSENCE:
-                case 'absence':
-                    counts.absence++;
-                    break;
-                case EventType.MULTIPLE_FACES:
-                case 'multiple-faces':
-                    counts.multipleFaces++;
-                    break;
-                case EventType.UNAUTHORIZED_ITEM:
-                case 'unauthorized-item':
-                    counts.unauthorizedItems++;
-                    break;
-                default:
-                    // Unknown event type - silently continue
-                    break;
-            }
-        });
+    private static exportKey(reportId: string, format: 'pdf' | 'csv'): string {
+        return `reports/${reportId}.${format}`;
+    }
 
-        return counts;
+    private static countOf(stats: EventTypeStat[], eventType: EventType): number {
+        return stats.find(stat => stat.eventType === eventType)?.count || 0;
     }
 
     /**
@@ -501,115 +634,6 @@ export class ReportService {
         }));
     }
 
-    /**
-     * Calculate integrity score based on violations
-     */
-    private static calculateIntegrityScore(
-        eventCounts: { focusLoss: number; absence: number; multipleFaces: number; unauthorizedItems: number },
-        manualObservations: any[]
-    ): number {
-        let score = 100;
-
-        // Deduct points for detection events
-        score -= eventCounts.focusLoss * 2;        // -2 points per focus loss
-        score -= eventCounts.absence * 5;          // -5 points per absence
-        score -= eventCounts.multipleFaces * 10;   // -10 points per multiple faces
-        score -= eventCounts.unauthorizedItems * 15; // -15 points per unauthorized item
-
-        // Deduct points for flagged manual observations
-        const flaggedObservations = manualObservations.filter(obs => obs.flagged);
-        flaggedObservations.forEach(obs => {
-            switch (obs.severity) {
-                case 'low':
-                    score -= 2;
-                    break;
-                case 'medium':
-                    score -= 5;
-                    break;
-                case 'high':
-                    score -= 10;
-                    break;
-            }
-        });
-
-        // Allow negative scores to reflect severe violations
-        return score;
-    }
-
-    /**
-     * Calculate detailed integrity score breakdown
-     */
-    private static calculateIntegrityScoreBreakdown(
-        eventCounts: { focusLoss: number; absence: number; multipleFaces: number; unauthorizedItems: number },
-        manualObservations: any[]
-    ): {
-        baseScore: number;
-        deductions: {
-            focusLoss: number;
-            absence: number;
-            multipleFaces: number;
-            unauthorizedItems: number;
-            manualObservations: number;
-            total: number;
-        };
-        finalScore: number;
-        formula: string;
-    } {
-        const baseScore = 100;
-        
-        // Calculate individual deductions
-        const focusLossDeduction = eventCounts.focusLoss * 2;
-        const absenceDeduction = eventCounts.absence * 5;
-        const multipleFacesDeduction = eventCounts.multipleFaces * 10;
-        const unauthorizedItemsDeduction = eventCounts.unauthorizedItems * 15;
-        
-        // Calculate manual observation deductions
-        const flaggedObservations = manualObservations.filter(obs => obs.flagged);
-        let manualObservationsDeduction = 0;
-        flaggedObservations.forEach(obs => {
-            switch (obs.severity) {
-                case 'low':
-                    manualObservationsDeduction += 2;
-                    break;
-                case 'medium':
-                    manualObservationsDeduction += 5;
-                    break;
-                case 'high':
-                    manualObservationsDeduction += 10;
-                    break;
-            }
-        });
-
-        const totalDeductions = focusLossDeduction + absenceDeduction + multipleFacesDeduction + unauthorizedItemsDeduction + manualObservationsDeduction;
-        const finalScore = baseScore - totalDeductions; // Allow negative scores
-        
-        // Create readable formula
-        const deductionParts = [];
-        if (focusLossDeduction > 0) deductionParts.push(`${eventCounts.focusLoss} focus loss (${focusLossDeduction})`);
-        if (absenceDeduction > 0) deductionParts.push(`${eventCounts.absence} absence (${absenceDeduction})`);
-        if (multipleFacesDeduction > 0) deductionParts.push(`${eventCounts.multipleFaces} multiple faces (${multipleFacesDeduction})`);
-        if (unauthorizedItemsDeduction > 0) deductionParts.push(`${eventCounts.unauthorizedItems} unauthorized items (${unauthorizedItemsDeduction})`);
-        if (manualObservationsDeduction > 0) deductionParts.push(`${flaggedObservations.length} manual flags (${manualObservationsDeduction})`);
-        
-        const formula = deductionParts.length > 0 
-            ? `100 - [${deductionParts.join(' + ')}] = ${finalScore}`
-            : `100 - 0 = ${finalScore}`;
-
-        return {
-            baseScore,
-            deductions: {
-                focusLoss: focusLossDeduction,
-                absence: absenceDeduction,
-                multipleFaces: multipleFacesDeduction,
-                unauthorizedItems: unauthorizedItemsDeduction,
-                manualObservations: manualObservationsDeduction,
-                total: totalDeductions
-            },
-            finalScore,
-            formula
-        };
-    }
-
     /**
      * Get human-readable description for detection event
      */
@@ -623,6 +647,20 @@ export class ReportService {
                 return `Multiple faces detected in video frame (${event.metadata?.faceCount || 'unknown'} faces)`;
             case EventType.UNAUTHORIZED_ITEM:
                 return `Unauthorized item detected: ${event.metadata?.objectType || 'unknown item'}`;
+            case EventType.DROWSINESS:
+                return `Candidate appeared drowsy for ${event.duration || 'unknown'} seconds`;
+            case EventType.EYE_CLOSURE:
+                return `Candidate's eyes were closed for ${event.duration || 'unknown'} seconds`;
+            case EventType.EXCESSIVE_BLINKING:
+                return 'Excessive blinking detected';
+            case EventType.BACKGROUND_VOICE:
+                return `Background voice detected for ${event.duration || 'unknown'} seconds`;
+            case EventType.MULTIPLE_VOICES:
+                return `Multiple voices detected for ${event.duration || 'unknown'} seconds`;
+            case EventType.EXCESSIVE_NOISE:
+                return `Excessive background noise detected for ${event.duration || 'unknown'} seconds`;
+            case EventType.IDENTITY_MISMATCH:
+                return 'Candidate did not match the reference photo';
             default:
                 return 'Unknown suspicious event';
         }
@@ -631,7 +669,11 @@ export class ReportService {
     /**
      * Generate HTML content for PDF report
      */
-    private static generateReportHTML(report: any, includeManualObservations: boolean): string {
+    private static generateReportHTML(
+        report: any,
+        includeManualObservations: boolean,
+        evidenceStills: Map<string, string> = new Map()
+    ): string {
         const manualObsSection = includeManualObservations && report.manualObservations?.length > 0
             ? `
         <div class="section">
@@ -667,8 +709,9 @@ export class ReportService {
           <h2>Detailed Integrity Score Calculation</h2>
           <div class="integrity-breakdown">
             <div class="formula-section">
-              <h3>Formula: Final Integrity Score = 100 - Total Deductions</h3>
+              <h3>Formula: Final Integrity Score = ${report.integrityBreakdown.baseScore} - Total Deductions</h3>
               <p class="formula-text">${report.integrityBreakdown.formula}</p>
+              <p>Scoring policy: ${report.integrityBreakdown.policy.name} (version ${report.integrityBreakdown.policy.version})</p>
             </div>
             <div class="breakdown-table">
               <table>
@@ -681,34 +724,18 @@ export class ReportService {
                   </tr>
                 </thead>
                 <tbody>
-                  <tr>
-                    <td>Focus Loss</td>
-                    <td>${Math.round(report.integrityBreakdown.deductions.focusLoss / 2)}</td>
-                    <td>-2</td>
-                    <td>-${report.integrityBreakdown.deductions.focusLoss}</td>
-                  </tr>
-                  <tr>
-                    <td>Absence</td>
-                    <td>${Math.round(report.integrityBreakdown.deductions.absence / 5)}</td>
-                    <td>-5</td>
-                    <td>-${report.integrityBreakdown.deductions.absence}</td>
-                  </tr>
-                  <tr>
-                    <td>Multiple Faces</td>
-                    <td>${Math.round(report.integrityBreakdown.deductions.multipleFaces / 10)}</td>
-                    <td>-10</td>
-                    <td>-${report.integrityBreakdown.deductions.multipleFaces}</td>
-                  </tr>
-                  <tr>
-                    <td>Unauthorized Items</td>
-                    <td>${Math.round(report.integrityBreakdown.deductions.unauthorizedItems / 15)}</td>
-                    <td>-15</td>
-                    <td>-${report.integrityBreakdown.deductions.unauthorizedItems}</td>
-                  </tr>
+                  ${report.integrityBreakdown.eventDeductions.map((item: EventTypeDeduction) => `
+                    <tr>
+                      <td>${getEventTypeLabel(item.eventType)}</td>
+                      <td>${item.count}</td>
+                      <td>-${item.pointsPerIncident}${item.pointsPerSecond ? ` (+${item.pointsPerSecond}/s)` : ''}</td>
+                      <td>-${item.deduction}${item.capped ? ' (capped)' : ''}</td>
+                    </tr>
+                  `).join('')}
                   <tr>
                     <td>Manual Flags</td>
-                    <td>-</td>
-                    <td>Variable</td>
+                    <td>${report.integrityBreakdown.flaggedObservationCount}</td>
+                    <td>Severity-weighted</td>
                     <td>-${report.integrityBreakdown.deductions.manualObservations}</td>
                   </tr>
                   <tr class="total-row">
@@ -719,7 +746,7 @@ export class ReportService {
                   </tr>
                   <tr class="final-score-row">
                     <td><strong>Final Integrity Score</strong></td>
-                    <td colspan="3"><strong>${report.integrityBreakdown.finalScore}/100</strong></td>
+                    <td colspan="3"><strong>${report.integrityBreakdown.finalScore}/${report.integrityBreakdown.baseScore}</strong></td>
                   </tr>
                 </tbody>
               </table>
@@ -754,6 +781,7 @@ export class ReportService {
           .severity-low { color: #28a745; }
           .severity-medium { color: #ffc107; }
           .severity-high { color: #dc3545; }
+          .evidence-still { display: block; max-width: 240px; margin-top: 8px; border: 1px solid #ddd; }
         </style>
       </head>
       <body>
@@ -782,6 +810,28 @@ export class ReportService {
           </div>
         </div>
 
+        <div class="section">
+          <h2>Events by Type</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Event Type</th>
+                <th>Count</th>
+                <th>Total Duration</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${(report.eventStats || []).map((stat: EventTypeStat) => `
+                <tr>
+                  <td>${getEventTypeLabel(stat.eventType)}</td>
+                  <td>${stat.count}</td>
+                  <td>${stat.totalDuration ? `${stat.totalDuration}s` : 'N/A'}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+        </div>
+
         ${integrityBreakdownSection}
 
         <div class="section">
@@ -801,7 +851,12 @@ export class ReportService {
                   <td>${new Date(event.timestamp).toLocaleString()}</td>
                   <td>${event.eventType}</td>
                   <td>${event.duration ? `${event.duration}s` : 'N/A'}</td>
-                  <td>${event.description}</td>
+                  <td>
+                    ${event.description}
+                    ${event.evidence && evidenceStills.has(event.evidence.clipId) ? `
+                      <img class="evidence-still" src="${evidenceStills.get(event.evidence.clipId)}" alt="Evidence still" />
+                    ` : ''}
+                  </td>
                 </tr>
               `).join('')}
             </tbody>
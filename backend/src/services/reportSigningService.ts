@@ -0,0 +1,243 @@
+import { createHash, createPrivateKey, createPublicKey, randomBytes, sign, verify, KeyObject } from 'crypto';
+import QRCode from 'qrcode';
+import { PDFDocument } from 'pdf-lib';
+import { ReportAttestation, ReportAttestationDocument, AttestedFormat } from '../models/ReportAttestation';
+import { ManualObservation, ProctoringReport, SuspiciousEvent } from '../types';
+
+// Crockford base32: no I, L, O or U, so codes survive being read aloud or retyped
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 12;
+
+// PKCS#8 DER prefix for an Ed25519 private key; the 32-byte seed follows
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+// Attestation as printed on and embedded in an export, before the file itself is hashed
+export interface ExportAttestation {
+  code: string;
+  reportId: string;
+  sessionId: string;
+  organizationId?: string | undefined;
+  format: AttestedFormat;
+  includeManualObservations: boolean;
+  contentHash: string;
+  signature: string;
+  keyId: string;
+  issuedAt: Date;
+}
+
+// The parts of a report an export states, which are what its signature covers
+export type AttestedReport = Pick<
+  ProctoringReport,
+  | 'reportId' | 'sessionId' | 'candidateId' | 'candidateName' | 'interviewDuration' | 'integrityScore'
+  | 'focusLossCount' | 'absenceCount' | 'multipleFacesCount' | 'unauthorizedItemsCount'
+  | 'eventStats' | 'scoringPolicy' | 'generatedAt'
+> & {
+  organizationId?: string | undefined;
+  suspiciousEvents?: Pick<SuspiciousEvent, 'eventType' | 'timestamp' | 'duration' | 'description'>[];
+  manualObservations?: Pick<ManualObservation, 'observationId' | 'timestamp' | 'observationType' | 'severity' | 'description' | 'flagged'>[];
+};
+
+const iso = (value: unknown): string | null => value ? new Date(value as string).toISOString() : null;
+
+/**
+ * Signs report exports so a reader can check them against the stored report.
+ * Signatures are Ed25519 with REPORT_SIGNING_KEY (a PEM private key); without one
+ * the key is derived from JWT_SECRET so signatures survive restarts.
+ */
+export class ReportSigningService {
+    private static key: { privateKey: KeyObject; publicKey: KeyObject; keyId: string } | null = null;
+
+    /**
+     * Canonical SHA-256 of what a report export states: scores, counts, events and, if included, manual observations
+     */
+    static contentHash(report: AttestedReport, includeManualObservations: boolean): string {
+        const canonical = JSON.stringify([
+            report.reportId,
+            report.sessionId,
+            report.candidateId ?? null,
+            report.candidateName,
+            report.interviewDuration ?? null,
+            report.integrityScore,
+            [report.focusLossCount ?? 0, report.absenceCount ?? 0, report.multipleFacesCount ?? 0, report.unauthorizedItemsCount ?? 0],
+            (report.eventStats || []).map(stat => [stat.eventType, stat.count, stat.totalDuration]),
+            (report.suspiciousEvents || []).map(event => [
+                event.eventType,
+                iso(event.timestamp),
+                event.duration ?? null,
+                event.description ?? null
+            ]),
+            report.scoringPolicy ? [report.scoringPolicy.name, report.scoringPolicy.version] : null,
+            iso(report.generatedAt),
+            includeManualObservations
+                ? (report.manualObservations || []).map(obs => [
+                    obs.observationId ?? null,
+                    iso(obs.timestamp),
+                    obs.observationType,
+                    obs.severity,
+                    obs.description,
+                    !!obs.flagged
+                ])
+                : null
+        ]);
+        return createHash('sha256').update(canonical).digest('hex');
+    }
+
+    /**
+     * Issue a code and signature for an export of the report about to be rendered
+     */
+    static sign(report: AttestedReport, format: AttestedFormat, includeManualObservations: boolean): ExportAttestation {
+        const { privateKey, keyId } = this.signingKey();
+        const attestation = {
+            code: this.generateCode(),
+            reportId: report.reportId,
+            sessionId: report.sessionId,
+            organizationId: report.organizationId,
+            format,
+            includeManualObservations,
+            contentHash: this.contentHash(report, includeManualObservations),
+            keyId,
+            issuedAt: new Date()
+        };
+        const signature = sign(null, this.signedPayload(attestation), privateKey).toString('base64');
+        return { ...attestation, signature };
+    }
+
+    /**
+     * Store the attestation along with the hash of the finished file
+     */
+    static async record(attestation: ExportAttestation, file: Buffer): Promise<ReportAttestationDocument> {
+        return ReportAttestation.create({
+            ...attestation,
+            fileSha256: createHash('sha256').update(file).digest('hex')
+        });
+    }
+
+    static verifySignature(attestation: Omit<ExportAttestation, 'organizationId'>): boolean {
+        const { publicKey, keyId } = this.signingKey();
+        if (attestation.keyId !== keyId) {
+            return false;
+        }
+        try {
+            return verify(null, this.signedPayload(attestation), publicKey, Buffer.from(attestation.signature, 'base64'));
+        } catch {
+            return false;
+        }
+    }
+
+    static async findAttestation(code: string): Promise<ReportAttestationDocument | null> {
+        const normalized = this.normalizeCode(code);
+        return normalized ? ReportAttestation.findByCode(normalized) : null;
+    }
+
+    static publicKey(): { keyId: string; publicKey: string } {
+        const { publicKey, keyId } = this.signingKey();
+        return { keyId, publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString() };
+    }
+
+    /**
+     * Codes are shown in groups of four; lower case, separators and look-alike letters are accepted on input
+     */
+    static formatCode(code: string): string {
+        return code.match(/.{1,4}/g)!.join('-');
+    }
+
+    static normalizeCode(input: string): string | null {
+        const code = input.toUpperCase().replace(/[\s-]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+        return code.length === CODE_LENGTH && [...code].every(char => CODE_ALPHABET.includes(char)) ? code : null;
+    }
+
+    static verificationUrl(code: string): string {
+        const baseUrl = (process.env.REPORT_VERIFY_BASE_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/+$/, '');
+        return `${baseUrl}/api/reports/verify/${this.formatCode(code)}`;
+    }
+
+    /**
+     * Footer for the PDF renderer: QR code for the verification URL, the short code and page numbers
+     */
+    static async pdfFooterTemplate(attestation: ExportAttestation): Promise<string> {
+        const url = this.verificationUrl(attestation.code);
+        const qr = await QRCode.toDataURL(url, { margin: 0, width: 160, errorCorrectionLevel: 'M' });
+        return `
+      <div style="width: 100%; margin: 0 15mm; font-family: Arial, sans-serif; font-size: 8px; color: #555; display: flex; align-items: center; gap: 10px;">
+        <img src="${qr}" style="width: 18mm; height: 18mm;" />
+        <div style="flex: 1;">
+          <div>Verification code <strong>${this.formatCode(attestation.code)}</strong> &middot; ${url}</div>
+          <div>SHA-256 ${attestation.contentHash}</div>
+        </div>
+        <div>Page <span class="pageNumber"></span> of <span class="totalPages"></span></div>
+      </div>`;
+    }
+
+    /**
+     * Write the attestation into the PDF's document information (subject and keywords)
+     */
+    static async embedInPdf(pdf: Buffer, attestation: ExportAttestation): Promise<Buffer> {
+        const document = await PDFDocument.load(pdf);
+        document.setSubject(`Proctoring report ${attestation.reportId}; verify with code ${this.formatCode(attestation.code)}`);
+        document.setKeywords([
+            'proctoring-report',
+            `report-id:${attestation.reportId}`,
+            `verification-code:${attestation.code}`,
+            `content-sha256:${attestation.contentHash}`,
+            `signature-ed25519:${attestation.signature}`,
+            `signing-key-id:${attestation.keyId}`,
+            `issued-at:${attestation.issuedAt.toISOString()}`
+        ]);
+        return Buffer.from(await document.save());
+    }
+
+    /**
+     * Rows appended to CSV exports: label and value
+     */
+    static csvRows(attestation: ExportAttestation): Array<[string, string]> {
+        return [
+            ['Verification Code', this.formatCode(attestation.code)],
+            ['Verification URL', this.verificationUrl(attestation.code)],
+            ['Content SHA-256', attestation.contentHash],
+            ['Signature (Ed25519)', attestation.signature],
+            ['Signing Key ID', attestation.keyId],
+            ['Issued At', attestation.issuedAt.toISOString()]
+        ];
+    }
+
+    private static signedPayload(attestation: Omit<ExportAttestation, 'signature' | 'organizationId'>): Buffer {
+        return Buffer.from([
+            'proctoring-report-attestation:v1',
+            attestation.code,
+            attestation.reportId,
+            attestation.format,
+            attestation.includeManualObservations ? 'with-observations' : 'without-observations',
+            attestation.contentHash,
+            new Date(attestation.issuedAt).toISOString()
+        ].join('\n'));
+    }
+
+    private static generateCode(): string {
+        return [...randomBytes(CODE_LENGTH)].map(byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+    }
+
+    private static signingKey() {
+        if (!this.key) {
+            const configured = process.env.REPORT_SIGNING_KEY;
+            let privateKey: KeyObject;
+            if (configured) {
+                privateKey = createPrivateKey(configured.replace(/\\n/g, '\n'));
+            } else {
+                console.warn('REPORT_SIGNING_KEY is not set; deriving the report signing key from JWT_SECRET');
+                const seed = createHash('sha256').update(`report-signing:${process.env.JWT_SECRET || 'your-secret-key'}`).digest();
+                privateKey = createPrivateKey({
+                    key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+                    format: 'der',
+                    type: 'pkcs8'
+                });
+            }
+            const publicKey = createPublicKey(privateKey);
+            const keyId = createHash('sha256')
+                .update(publicKey.export({ type: 'spki', format: 'der' }))
+                .digest('hex')
+                .slice(0, 16);
+            this.key = { privateKey, publicKey, keyId };
+        }
+        return this.key;
+    }
+}
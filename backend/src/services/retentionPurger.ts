@@ -0,0 +1,284 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { Organization } from '../models/Organization';
+import { InterviewSession, InterviewSessionDocument } from '../models/InterviewSession';
+import { DetectionEvent } from '../models/DetectionEvent';
+import { ProctoringReport, ProctoringReportDocument } from '../models/ProctoringReport';
+import { RetentionPurge, RetentionPurgeDocument, RetentionPurgeItem } from '../models/RetentionPurge';
+import { RetentionPurgeLease } from '../models/RetentionPurgeLease';
+import { ConflictError } from '../middleware/errorHandler';
+import { SessionStatus } from '../types';
+import { RetentionService } from './retentionService';
+import { DataRemovalService } from './dataRemovalService';
+import { envInt } from '../utils/concurrency';
+import { runAcrossTenants } from '../utils/tenantContext';
+
+export interface RetentionPurgerConfig {
+    intervalMs: number;
+    // Scheduled runs only record what they would delete
+    dryRun: boolean;
+    // Most items of each kind removed per organization and run; the rest follow on the next run
+    batchSize: number;
+    // A purge whose lease is not renewed for this long (its instance died) may be run again
+    leaseMs: number;
+}
+
+export interface PurgeOptions {
+    dryRun: boolean;
+    requestedBy?: string | undefined;
+    now?: Date | undefined;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+/**
+ * Deletes recordings, detection events and reports once they are older than the
+ * retention windows of their organization, skipping sessions on legal hold.
+ * Every run that finds something (and every manual run) leaves a RetentionPurge record.
+ * Runs hold a per-organization lease in Mongo, so instances never purge the same organization at once.
+ */
+export class RetentionPurger {
+    public readonly workerId = `${os.hostname()}-${process.pid}-${uuidv4().slice(0, 8)}`;
+    private readonly config: RetentionPurgerConfig;
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(config: Partial<RetentionPurgerConfig> = {}) {
+        this.config = {
+            intervalMs: envInt('RETENTION_PURGE_INTERVAL_HOURS', 24) * 60 * 60 * 1000,
+            dryRun: process.env.RETENTION_PURGE_DRY_RUN === 'true',
+            batchSize: 500,
+            leaseMs: 10 * 60 * 1000,
+            ...config
+        };
+    }
+
+    public start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => {
+            this.purgeAll().catch(error => console.error('Retention purge failed:', error));
+        }, this.config.intervalMs);
+        this.timer.unref();
+    }
+
+    public stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Scheduled pass over every organization. Organizations with a purge in progress are skipped.
+     */
+    public async purgeAll(now: Date = new Date()): Promise<RetentionPurgeDocument[]> {
+        return runAcrossTenants(async () => {
+            const organizations = await Organization.find().select('organizationId');
+            const purges: RetentionPurgeDocument[] = [];
+            for (const { organizationId } of organizations) {
+                try {
+                    const purge = await this.leased(organizationId, () =>
+                        this.run(organizationId, 'scheduled', { dryRun: this.config.dryRun, now }));
+                    if (purge) purges.push(purge);
+                } catch (error) {
+                    console.error(`Retention purge failed for organization ${organizationId}:`, error);
+                }
+            }
+            return purges;
+        });
+    }
+
+    /**
+     * Purge one organization on request. Always recorded, even when nothing was due.
+     */
+    public async purgeOrganization(organizationId: string, options: PurgeOptions): Promise<RetentionPurgeDocument> {
+        const purge = await this.leased(organizationId, () => this.run(organizationId, 'manual', options));
+        if (!purge) {
+            throw new ConflictError('A retention purge is already running for this organization');
+        }
+        return purge;
+    }
+
+    /**
+     * Run a purge while holding the organization's lease; resolves to null without running
+     * when another run (on this or any other instance) holds it
+     */
+    private async leased(
+        organizationId: string,
+        purge: () => Promise<RetentionPurgeDocument | null>
+    ): Promise<RetentionPurgeDocument | null> {
+        if (!await RetentionPurgeLease.acquire(organizationId, this.workerId, this.config.leaseMs)) {
+            return null;
+        }
+
+        // Keep the lease alive while large batches are removed
+        const heartbeat = setInterval(() => {
+            RetentionPurgeLease.renew(organizationId, this.workerId).catch(() => undefined);
+        }, Math.floor(this.config.leaseMs / 3));
+        heartbeat.unref();
+        try {
+            return await purge();
+        } finally {
+            clearInterval(heartbeat);
+            await RetentionPurgeLease.release(organizationId, this.workerId)
+                .catch(error => console.error(`Failed to release the retention purge lease of ${organizationId}:`, error));
+        }
+    }
+
+    private async run(
+        organizationId: string,
+        trigger: 'scheduled' | 'manual',
+        options: PurgeOptions
+    ): Promise<RetentionPurgeDocument | null> {
+        const startedAt = new Date();
+        const now = options.now ?? startedAt;
+        const { windows } = await RetentionService.getPolicy(organizationId);
+        const cutoff = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+        const held: string[] = await InterviewSession.distinct('sessionId', {
+            organizationId,
+            legalHold: { $exists: true }
+        });
+
+        const items: RetentionPurgeItem[] = [];
+        if (windows.recordingDays) {
+            items.push(...await this.purgeRecordings(organizationId, cutoff(windows.recordingDays), options.dryRun));
+        }
+        if (windows.eventDays) {
+            items.push(...await this.purgeEvents(organizationId, cutoff(windows.eventDays), held, options.dryRun));
+        }
+        if (windows.reportDays) {
+            items.push(...await this.purgeReports(organizationId, cutoff(windows.reportDays), held, options.dryRun));
+        }
+
+        if (items.length === 0 && trigger === 'scheduled') {
+            return null;
+        }
+
+        const succeeded = items.filter(item => !item.error);
+        const totals = {
+            recordings: succeeded.filter(item => item.category === 'recording').length,
+            events: succeeded.filter(item => item.category === 'events').reduce((sum, item) => sum + (item.count || 0), 0),
+            reports: succeeded.filter(item => item.category === 'report').length,
+            failed: items.length - succeeded.length
+        };
+
+        const purge = await RetentionPurge.create({
+            purgeId: uuidv4(),
+            organizationId,
+            dryRun: options.dryRun,
+            trigger,
+            ...(options.requestedBy ? { requestedBy: options.requestedBy } : {}),
+            policy: windows,
+            startedAt,
+            completedAt: new Date(),
+            items,
+            totals
+        });
+
+        if (items.length > 0) {
+            const verb = options.dryRun ? 'would remove' : 'removed';
+            console.log(
+                `Retention purge for organization ${organizationId} ${verb} ${totals.recordings} recording(s), ` +
+                `${totals.events} event(s), ${totals.reports} report(s); ${totals.failed} failed`
+            );
+        }
+        return purge;
+    }
+
+    private async purgeRecordings(organizationId: string, cutoff: Date, dryRun: boolean): Promise<RetentionPurgeItem[]> {
+        const sessions = await InterviewSession.find({
+            organizationId,
+            videoUrl: { $exists: true },
+            startTime: { $lt: cutoff },
+            status: { $nin: [SessionStatus.ACTIVE, SessionStatus.SCHEDULED] },
+            legalHold: { $exists: false }
+        }).limit(this.config.batchSize);
+
+        const items: RetentionPurgeItem[] = [];
+        for (const session of sessions) {
+            items.push(await this.purgeRecording(session, dryRun));
+        }
+        return items;
+    }
+
+    private async purgeRecording(session: InterviewSessionDocument, dryRun: boolean): Promise<RetentionPurgeItem> {
+        const videoId = DataRemovalService.recordingVideoId(session);
+        const item: RetentionPurgeItem = {
+            category: 'recording',
+            sessionId: session.sessionId,
+            ...(videoId ? { videoId } : {}),
+            locations: DataRemovalService.recordingLocations(session)
+        };
+        if (dryRun) return item;
+
+        try {
+            await DataRemovalService.removeRecording(session, { recordingPurgedAt: new Date() });
+        } catch (error) {
+            item.error = errorMessage(error);
+        }
+        return item;
+    }
+
+    private async purgeEvents(organizationId: string, cutoff: Date, held: string[], dryRun: boolean): Promise<RetentionPurgeItem[]> {
+        const groups: Array<{ _id: string; count: number }> = await DetectionEvent.aggregate([
+            { $match: { organizationId, timestamp: { $lt: cutoff }, sessionId: { $nin: held } } },
+            { $group: { _id: '$sessionId', count: { $sum: 1 } } },
+            { $limit: this.config.batchSize }
+        ]);
+
+        const items: RetentionPurgeItem[] = [];
+        for (const group of groups) {
+            const item: RetentionPurgeItem = { category: 'events', sessionId: group._id, count: group.count };
+            if (!dryRun) {
+                try {
+                    const result = await DetectionEvent.deleteMany({
+                        organizationId,
+                        sessionId: group._id,
+                        timestamp: { $lt: cutoff }
+                    });
+                    item.count = result.deletedCount;
+                } catch (error) {
+                    item.error = errorMessage(error);
+                }
+            }
+            items.push(item);
+        }
+        return items;
+    }
+
+    private async purgeReports(organizationId: string, cutoff: Date, held: string[], dryRun: boolean): Promise<RetentionPurgeItem[]> {
+        const reports = await ProctoringReport.find({
+            organizationId,
+            generatedAt: { $lt: cutoff },
+            sessionId: { $nin: held }
+        }).limit(this.config.batchSize);
+
+        const items: RetentionPurgeItem[] = [];
+        for (const report of reports) {
+            items.push(await this.purgeReport(report, dryRun));
+        }
+        return items;
+    }
+
+    private async purgeReport(report: ProctoringReportDocument, dryRun: boolean): Promise<RetentionPurgeItem> {
+        const item: RetentionPurgeItem = {
+            category: 'report',
+            sessionId: report.sessionId,
+            reportId: report.reportId,
+            locations: DataRemovalService.reportLocations(report)
+        };
+        if (dryRun) return item;
+
+        try {
+            await DataRemovalService.removeReport(report);
+        } catch (error) {
+            item.error = errorMessage(error);
+        }
+        return item;
+    }
+}
+
+// Shared by the scheduler and the admin routes
+export const retentionPurger = new RetentionPurger();
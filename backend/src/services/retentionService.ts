@@ -0,0 +1,125 @@
+import { Organization } from '../models/Organization';
+import { InterviewSession, InterviewSessionDocument } from '../models/InterviewSession';
+import { RetentionPurge, RetentionPurgeDocument } from '../models/RetentionPurge';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { RetentionPolicyInput, RetentionWindows } from '../types';
+
+const WINDOW_FIELDS = ['recordingDays', 'eventDays', 'reportDays'] as const;
+
+// Unset or invalid means the data is kept forever
+const envDays = (name: string): number | undefined => {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+export class RetentionService {
+    /**
+     * Server-wide retention windows, used for any window an organization does not override
+     */
+    static defaultWindows(): RetentionWindows {
+        const windows: RetentionWindows = {};
+        const recordingDays = envDays('RETENTION_RECORDING_DAYS');
+        const eventDays = envDays('RETENTION_EVENT_DAYS');
+        const reportDays = envDays('RETENTION_REPORT_DAYS');
+        if (recordingDays) windows.recordingDays = recordingDays;
+        if (eventDays) windows.eventDays = eventDays;
+        if (reportDays) windows.reportDays = reportDays;
+        return windows;
+    }
+
+    /**
+     * Retention windows in force for an organization: its overrides on top of the server defaults
+     */
+    static async getPolicy(organizationId: string): Promise<{ windows: RetentionWindows; overrides: RetentionWindows }> {
+        const organization = await Organization.findOne({ organizationId });
+        if (!organization) {
+            throw new NotFoundError('Organization');
+        }
+        const overrides = this.overridesOf(organization.retention);
+        return { windows: { ...this.defaultWindows(), ...overrides }, overrides };
+    }
+
+    /**
+     * Change an organization's overrides. Omitted windows are left as they are; null removes the override.
+     */
+    static async updatePolicy(organizationId: string, input: RetentionPolicyInput): Promise<{ windows: RetentionWindows; overrides: RetentionWindows }> {
+        const $set: Record<string, number> = {};
+        const $unset: Record<string, 1> = {};
+        for (const field of WINDOW_FIELDS) {
+            const value = input[field];
+            if (value === null) $unset[`retention.${field}`] = 1;
+            else if (value !== undefined) $set[`retention.${field}`] = value;
+        }
+
+        const organization = await Organization.findOneAndUpdate(
+            { organizationId },
+            {
+                ...(Object.keys($set).length ? { $set } : {}),
+                ...(Object.keys($unset).length ? { $unset } : {})
+            },
+            { new: true }
+        );
+        if (!organization) {
+            throw new NotFoundError('Organization');
+        }
+        const overrides = this.overridesOf(organization.retention);
+        return { windows: { ...this.defaultWindows(), ...overrides }, overrides };
+    }
+
+    /**
+     * Exempt a session from retention purges until the hold is released
+     */
+    static async placeLegalHold(sessionId: string, reason: string, placedBy: string): Promise<InterviewSessionDocument> {
+        const session = await InterviewSession.findOne({ sessionId });
+        if (!session) {
+            throw new NotFoundError('Session');
+        }
+        if (session.legalHold) {
+            throw new ConflictError('Session is already on legal hold');
+        }
+        session.legalHold = { reason, placedBy, placedAt: new Date() };
+        return session.save();
+    }
+
+    static async releaseLegalHold(sessionId: string): Promise<InterviewSessionDocument> {
+        const session = await InterviewSession.findOne({ sessionId });
+        if (!session) {
+            throw new NotFoundError('Session');
+        }
+        if (!session.legalHold) {
+            throw new ConflictError('Session is not on legal hold');
+        }
+        session.set('legalHold', undefined);
+        return session.save();
+    }
+
+    static async listLegalHolds(): Promise<InterviewSessionDocument[]> {
+        return InterviewSession.find({ legalHold: { $exists: true } })
+            .select('sessionId candidateId candidateName startTime status legalHold')
+            .sort({ 'legalHold.placedAt': -1 });
+    }
+
+    /**
+     * Recent purge runs, newest first; queries are already limited to the caller's organization
+     */
+    static async listPurges(limit: number = 20): Promise<RetentionPurgeDocument[]> {
+        return RetentionPurge.find().select('-items').sort({ startedAt: -1 }).limit(limit);
+    }
+
+    static async getPurge(purgeId: string): Promise<RetentionPurgeDocument> {
+        const purge = await RetentionPurge.findByPurgeId(purgeId);
+        if (!purge) {
+            throw new NotFoundError('Retention purge');
+        }
+        return purge;
+    }
+
+    private static overridesOf(retention?: RetentionWindows): RetentionWindows {
+        const overrides: RetentionWindows = {};
+        for (const field of WINDOW_FIELDS) {
+            const value = retention?.[field];
+            if (value) overrides[field] = value;
+        }
+        return overrides;
+    }
+}
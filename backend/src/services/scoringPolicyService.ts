@@ -0,0 +1,139 @@
+import { ScoringPolicy as ScoringPolicyModel, ScoringPolicyDocument } from '../models/ScoringPolicy';
+import { CreateScoringPolicyInput, ScoringPolicy } from '../types';
+import { BUILT_IN_SCORING_POLICIES, DEFAULT_SCORING_POLICY } from '../utils/integrityScoring';
+import { NotFoundError } from '../middleware/errorHandler';
+
+// Concurrent creates of the same policy name race for the next version number
+const CREATE_VERSION_ATTEMPTS = 5;
+
+const isDuplicateKey = (error: unknown): boolean => (error as any)?.code === 11000;
+
+// Identifies a policy by name and (optionally) a specific version
+export interface ScoringPolicySelector {
+    name?: string | undefined;
+    version?: number | undefined;
+}
+
+export class ScoringPolicyService {
+    /**
+     * Resolve the policy to score a report with.
+     * Without a selector the stored default is used, falling back to the built-in policy.
+     */
+    static async resolvePolicy(selector: ScoringPolicySelector = {}): Promise<ScoringPolicy> {
+        if (!selector.name) {
+            const storedDefault = await ScoringPolicyModel.findDefault();
+            return storedDefault ? this.toPolicy(storedDefault) : DEFAULT_SCORING_POLICY;
+        }
+
+        const name = selector.name.toLowerCase();
+        const stored = selector.version
+            ? await ScoringPolicyModel.findVersion(name, selector.version)
+            : await ScoringPolicyModel.findLatest(name);
+
+        if (stored) {
+            return this.toPolicy(stored);
+        }
+
+        // Built-in policy versions can be selected explicitly even if they were never stored
+        if (name === DEFAULT_SCORING_POLICY.name) {
+            const builtIn = selector.version
+                ? BUILT_IN_SCORING_POLICIES.find(policy => policy.version === selector.version)
+                : DEFAULT_SCORING_POLICY;
+            if (builtIn) {
+                return builtIn;
+            }
+        }
+
+        const label = selector.version ? `${name}@v${selector.version}` : name;
+        throw new NotFoundError(`Scoring policy ${label}`);
+    }
+
+    /**
+     * Store a new version of a named policy. Existing versions are never modified,
+     * so reports keep pointing at the exact weights that scored them.
+     */
+    static async createPolicyVersion(input: CreateScoringPolicyInput, createdBy?: string): Promise<ScoringPolicy> {
+        const name = input.name.toLowerCase();
+        // Stored versions of the built-in name continue after the built-in versions
+        const firstVersion = name === DEFAULT_SCORING_POLICY.name ? DEFAULT_SCORING_POLICY.version + 1 : 1;
+
+        for (let attempt = 1; ; attempt++) {
+            const latest = await ScoringPolicyModel.findLatest(name);
+            const policy = new ScoringPolicyModel({
+                ...input,
+                name,
+                version: latest ? latest.version + 1 : firstVersion,
+                ...(createdBy ? { createdBy } : {})
+            });
+
+            try {
+                await policy.save();
+            } catch (error) {
+                // Another request stored this version first; take the next one
+                if (isDuplicateKey(error) && attempt < CREATE_VERSION_ATTEMPTS) {
+                    continue;
+                }
+                throw error;
+            }
+
+            // Only once the new default is stored, so there is always one (findDefault prefers the newest)
+            if (input.isDefault) {
+                await ScoringPolicyModel.updateMany(
+                    { isDefault: true, _id: { $ne: policy._id } },
+                    { $set: { isDefault: false } }
+                );
+            }
+            return this.toPolicy(policy);
+        }
+    }
+
+    /**
+     * List every stored policy with its latest version, plus the built-in policy
+     */
+    static async listPolicies(): Promise<Array<{ name: string; latestVersion: number; versions: number[]; description?: string; isDefault: boolean }>> {
+        const stored = await ScoringPolicyModel.listLatestVersions();
+        const policies = stored.map((item: any) => ({
+            name: item._id,
+            latestVersion: item.latestVersion,
+            versions: item.versions,
+            description: item.description,
+            isDefault: !!item.isDefault
+        }));
+
+        if (!policies.some(policy => policy.name === DEFAULT_SCORING_POLICY.name)) {
+            policies.push({
+                name: DEFAULT_SCORING_POLICY.name,
+                latestVersion: DEFAULT_SCORING_POLICY.version,
+                versions: BUILT_IN_SCORING_POLICIES.map(policy => policy.version),
+                description: DEFAULT_SCORING_POLICY.description,
+                isDefault: !policies.some(policy => policy.isDefault)
+            });
+        }
+
+        return policies;
+    }
+
+    /**
+     * Get a specific policy version (or the latest when no version is given)
+     */
+    static async getPolicy(name: string, version?: number): Promise<ScoringPolicy> {
+        return this.resolvePolicy({ name, version });
+    }
+
+    /**
+     * Convert a stored document into a plain policy object
+     */
+    private static toPolicy(doc: ScoringPolicyDocument): ScoringPolicy {
+        const obj = doc.toJSON() as any;
+        return {
+            name: obj.name,
+            version: obj.version,
+            ...(obj.description ? { description: obj.description } : {}),
+            baseScore: obj.baseScore,
+            eventRules: obj.eventRules || {},
+            manualObservationPoints: obj.manualObservationPoints,
+            severityMultipliers: obj.severityMultipliers,
+            isDefault: !!obj.isDefault
+        };
+    }
+}
@@ -0,0 +1,220 @@
+import { v4 as uuidv4 } from 'uuid';
+import { InterviewSession, InterviewSessionDocument } from '../models/InterviewSession';
+import { SessionAssignment, SessionAssignmentDocument } from '../models/SessionAssignment';
+import { ProctoringReport } from '../models/ProctoringReport';
+import { ReportJob } from '../models/ReportJob';
+import { ManualObservation } from '../models/ManualObservation';
+import { TranscodeJob } from '../models/TranscodeJob';
+import { VideoUpload } from '../models/VideoUpload';
+import { AuthorizationError, NotFoundError } from '../middleware/errorHandler';
+import { AssignmentRole, JWTPayload, UserRole } from '../types';
+
+/**
+ * What a caller wants to do with a session:
+ * - view: read the session, its events, observations, reports and recording
+ * - manage: change status, add observations, generate or cancel reports
+ * - assign: add or remove other interviewers
+ */
+export type SessionPermission = 'view' | 'manage' | 'assign';
+
+// The parts of an authenticated user (REST or WebSocket) that access checks need
+export type SessionActor = Pick<JWTPayload, 'userId' | 'role' | 'organizationId'>;
+
+const PERMISSIONS_BY_ROLE: Record<AssignmentRole, SessionPermission[]> = {
+    [AssignmentRole.PRIMARY]: ['view', 'manage', 'assign'],
+    [AssignmentRole.SECONDARY]: ['view', 'manage'],
+    [AssignmentRole.OBSERVER]: ['view']
+};
+
+export class SessionAccessService {
+    /**
+     * The role an interviewer holds on a session. The session's creator
+     * (interviewerId) is treated as primary even without a stored assignment.
+     */
+    static async getAssignmentRole(userId: string, session: InterviewSessionDocument): Promise<AssignmentRole | null> {
+        const assignment = await SessionAssignment.findAssignment(session.sessionId, userId);
+        if (assignment) {
+            return assignment.role;
+        }
+        return session.interviewerId === userId ? AssignmentRole.PRIMARY : null;
+    }
+
+    static async canAccess(actor: SessionActor, session: InterviewSessionDocument, permission: SessionPermission): Promise<boolean> {
+        if (actor.role === UserRole.SUPER_ADMIN) {
+            return true;
+        }
+
+        // Never cross organization boundaries, not even for organization admins
+        if (session.organizationId && session.organizationId !== actor.organizationId) {
+            return false;
+        }
+
+        if (actor.role === UserRole.ADMIN) {
+            return true;
+        }
+
+        // Candidates may only read their own session
+        if (actor.role === UserRole.CANDIDATE) {
+            return permission === 'view' && session.candidateId === actor.userId;
+        }
+
+        const role = await this.getAssignmentRole(actor.userId, session);
+        return role !== null && PERMISSIONS_BY_ROLE[role].includes(permission);
+    }
+
+    /**
+     * Load a session and make sure the actor holds the permission on it
+     */
+    static async authorizeSession(actor: SessionActor, sessionId: string, permission: SessionPermission): Promise<InterviewSessionDocument> {
+        const session = await InterviewSession.findOne({ sessionId });
+        if (!session) {
+            throw new NotFoundError('Session');
+        }
+
+        if (!(await this.canAccess(actor, session, permission))) {
+            throw new AuthorizationError('Access denied. Cannot access this session.');
+        }
+
+        return session;
+    }
+
+    /**
+     * Authorize access to a report (or a report job that has not produced one yet)
+     */
+    static async authorizeReport(actor: SessionActor, reportId: string, permission: SessionPermission): Promise<InterviewSessionDocument> {
+        const report = await ProctoringReport.findOne({ reportId }).select('sessionId');
+        const sessionId = report?.sessionId || (await ReportJob.findByReportId(reportId))?.sessionId;
+        if (!sessionId) {
+            throw new NotFoundError('Report');
+        }
+        return this.authorizeSession(actor, sessionId, permission);
+    }
+
+    static async authorizeObservation(actor: SessionActor, observationId: string, permission: SessionPermission): Promise<InterviewSessionDocument> {
+        const observation = await ManualObservation.findOne({ observationId }).select('sessionId');
+        if (!observation) {
+            throw new NotFoundError('Observation');
+        }
+        return this.authorizeSession(actor, observation.sessionId, permission);
+    }
+
+    /**
+     * Authorize access to a locally stored recording via the session that references it
+     */
+    static async authorizeVideo(actor: SessionActor, videoId: string, permission: SessionPermission): Promise<void> {
+        if (actor.role === UserRole.SUPER_ADMIN) {
+            return;
+        }
+
+        const session = await InterviewSession.findOne({ videoUrl: `/api/videos/${videoId}` });
+        if (!session) {
+            throw new NotFoundError('Video');
+        }
+
+        if (!(await this.canAccess(actor, session, permission))) {
+            throw new AuthorizationError('Access denied. Cannot access this recording.');
+        }
+    }
+
+    static async authorizeTranscodeJob(actor: SessionActor, jobId: string, permission: SessionPermission): Promise<void> {
+        const job = await TranscodeJob.findByJobId(jobId);
+        if (!job) {
+            throw new NotFoundError('Transcode job');
+        }
+        return this.authorizeVideo(actor, job.videoId, permission);
+    }
+
+    // Candidates upload their own recording; interviewers must be able to manage the session
+    static uploadPermission(actor: SessionActor): SessionPermission {
+        return actor.role === UserRole.CANDIDATE ? 'view' : 'manage';
+    }
+
+    static async authorizeUpload(actor: SessionActor, uploadId: string): Promise<void> {
+        const upload = await VideoUpload.findByUploadId(uploadId);
+        if (!upload) {
+            throw new NotFoundError('Upload');
+        }
+        await this.authorizeSession(actor, upload.sessionId, this.uploadPermission(actor));
+    }
+
+    /**
+     * Query restricting session lists to what the actor may see
+     */
+    static async sessionFilter(actor: SessionActor): Promise<Record<string, any>> {
+        if (actor.role === UserRole.SUPER_ADMIN) {
+            return {};
+        }
+        if (actor.role === UserRole.ADMIN) {
+            return actor.organizationId ? { organizationId: actor.organizationId } : {};
+        }
+        if (actor.role === UserRole.CANDIDATE) {
+            return { candidateId: actor.userId };
+        }
+        return this.assignedSessionFilter(actor.userId);
+    }
+
+    /**
+     * Query matching sessions a user created or is assigned to
+     */
+    static async assignedSessionFilter(userId: string): Promise<Record<string, any>> {
+        const sessionIds = await SessionAssignment.distinct('sessionId', { userId });
+        return {
+            $or: [
+                { interviewerId: userId },
+                { sessionId: { $in: sessionIds } }
+            ]
+        };
+    }
+
+    static async listAssignments(sessionId: string): Promise<SessionAssignmentDocument[]> {
+        return SessionAssignment.findBySession(sessionId);
+    }
+
+    /**
+     * Assign an interviewer to a session, or change the role they already hold.
+     * A session has a single primary interviewer; assigning a new one demotes the previous.
+     */
+    static async assign(sessionId: string, userId: string, role: AssignmentRole, assignedBy?: string): Promise<SessionAssignmentDocument> {
+        if (role === AssignmentRole.PRIMARY) {
+            const session = await InterviewSession.findOne({ sessionId }).select('interviewerId');
+            const previousOwner = session?.interviewerId;
+            if (previousOwner && previousOwner !== userId) {
+                // Keep the previous owner on the session as a secondary interviewer
+                await SessionAssignment.updateOne(
+                    { sessionId, userId: previousOwner },
+                    { $set: { role: AssignmentRole.SECONDARY }, $setOnInsert: { assignmentId: uuidv4() } },
+                    { upsert: true }
+                );
+            }
+            await SessionAssignment.updateMany(
+                { sessionId, role: AssignmentRole.PRIMARY, userId: { $ne: userId } },
+                { $set: { role: AssignmentRole.SECONDARY } }
+            );
+            await InterviewSession.updateOne({ sessionId }, { $set: { interviewerId: userId } });
+        }
+
+        const assignment = await SessionAssignment.findOneAndUpdate(
+            { sessionId, userId },
+            {
+                $set: { role, ...(assignedBy ? { assignedBy } : {}) },
+                $setOnInsert: { assignmentId: uuidv4() }
+            },
+            { upsert: true, new: true, runValidators: true }
+        );
+        return assignment!;
+    }
+
+    static async unassign(sessionId: string, userId: string): Promise<void> {
+        const assignment = await SessionAssignment.findOneAndDelete({ sessionId, userId });
+
+        // Removing the session's owner also drops the implicit primary role
+        const ownership = await InterviewSession.updateOne(
+            { sessionId, interviewerId: userId },
+            { $unset: { interviewerId: 1 } }
+        );
+
+        if (!assignment && ownership.modifiedCount === 0) {
+            throw new NotFoundError('Assignment');
+        }
+    }
+}
\ No newline at end of file
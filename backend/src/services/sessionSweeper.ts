@@ -0,0 +1,187 @@
+import { InterviewSession, InterviewSessionDocument } from '../models/InterviewSession';
+import { SessionEndReason, SessionStatus } from '../types';
+import { SessionPresence, WebSocketEventType } from '../types/websocket';
+import { InvitationService } from './invitationService';
+import { ReportService } from './reportService';
+import { envInt } from '../utils/concurrency';
+
+export interface SessionSweeperConfig {
+    intervalMs: number;
+    // How long an active session may have nobody connected before it is ended
+    idleTimeoutMs: number;
+    // Applies to sessions created without their own maxDurationMinutes
+    defaultMaxDurationMs: number;
+    batchSize: number;
+}
+
+// The parts of WebSocketService the sweeper relies on
+export interface SessionPresenceSource {
+    getSessionPresence(sessionId: string): Promise<SessionPresence>;
+    clearPresence(sessionId: string): Promise<void>;
+    broadcastToSession(sessionId: string, event: string, data: any): void;
+}
+
+export interface SweepResult {
+    expired: number;
+    ended: number;
+}
+
+/**
+ * Periodically closes sessions nobody will close by hand: scheduled sessions
+ * whose join window passed, and active sessions that ran past their maximum
+ * duration or were abandoned (no one connected for the idle timeout).
+ * Ended sessions get their report generated automatically.
+ */
+export class SessionSweeper {
+    private readonly config: SessionSweeperConfig;
+    // Presence kept in memory is lost on restart; give clients this long to reconnect before counting idle time
+    private readonly startedAt = new Date();
+    private timer: NodeJS.Timeout | null = null;
+    private sweeping = false;
+
+    constructor(private readonly presence: SessionPresenceSource | null, config: Partial<SessionSweeperConfig> = {}) {
+        this.config = {
+            intervalMs: envInt('SESSION_SWEEP_INTERVAL_SECONDS', 60) * 1000,
+            idleTimeoutMs: envInt('SESSION_IDLE_TIMEOUT_MINUTES', 15) * 60 * 1000,
+            defaultMaxDurationMs: envInt('SESSION_MAX_DURATION_MINUTES', 180) * 60 * 1000,
+            batchSize: 200,
+            ...config
+        };
+    }
+
+    public start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => {
+            this.sweep().catch(error => console.error('Session sweep failed:', error));
+        }, this.config.intervalMs);
+        this.timer.unref();
+    }
+
+    public stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Run one pass. Overlapping passes are skipped rather than queued.
+     */
+    public async sweep(now: Date = new Date()): Promise<SweepResult> {
+        if (this.sweeping) {
+            return { expired: 0, ended: 0 };
+        }
+        this.sweeping = true;
+        try {
+            const expired = await this.expireScheduledSessions(now);
+            const ended = await this.endStaleSessions(now);
+            if (expired > 0 || ended > 0) {
+                console.log(`Session sweep: expired ${expired} scheduled, ended ${ended} active session(s)`);
+            }
+            return { expired, ended };
+        } finally {
+            this.sweeping = false;
+        }
+    }
+
+    private async expireScheduledSessions(now: Date): Promise<number> {
+        // Every session whose window closed has started; the exact window is checked per session
+        const candidates = await InterviewSession.find({
+            status: SessionStatus.SCHEDULED,
+            scheduledStartTime: { $lt: now }
+        }).limit(this.config.batchSize);
+
+        let expired = 0;
+        for (const session of candidates) {
+            const window = session.getJoinWindow();
+            if (!window || window.closesAt >= now) continue;
+
+            if (await InvitationService.expireIfScheduled(session.sessionId)) {
+                expired++;
+                this.broadcastStatus(session.sessionId, SessionStatus.EXPIRED, SessionEndReason.JOIN_WINDOW_CLOSED, now);
+            }
+        }
+        return expired;
+    }
+
+    private async endStaleSessions(now: Date): Promise<number> {
+        const sessions = await InterviewSession.find({ status: SessionStatus.ACTIVE })
+            .sort({ startTime: 1 })
+            .limit(this.config.batchSize);
+
+        let ended = 0;
+        for (const session of sessions) {
+            const reason = await this.getEndReason(session, now);
+            if (reason && await this.endSession(session, reason, now)) {
+                ended++;
+            }
+        }
+        return ended;
+    }
+
+    /**
+     * Why the session should be ended now, or null to leave it running
+     */
+    private async getEndReason(session: InterviewSessionDocument, now: Date): Promise<SessionEndReason | null> {
+        const maxDurationMs = session.maxDurationMinutes
+            ? session.maxDurationMinutes * 60 * 1000
+            : this.config.defaultMaxDurationMs;
+        if (now.getTime() - session.startTime.getTime() > maxDurationMs) {
+            return SessionEndReason.MAX_DURATION;
+        }
+
+        // Without presence data (no WebSocket server) only the duration limit applies
+        if (!this.presence) {
+            return null;
+        }
+        const presence = await this.presence.getSessionPresence(session.sessionId);
+        if (presence.connected) {
+            return null;
+        }
+        const idleSince = Math.max(
+            session.startTime.getTime(),
+            (presence.lastSeenAt || this.startedAt).getTime()
+        );
+        return now.getTime() - idleSince > this.config.idleTimeoutMs ? SessionEndReason.IDLE_TIMEOUT : null;
+    }
+
+    private async endSession(session: InterviewSessionDocument, reason: SessionEndReason, now: Date): Promise<boolean> {
+        // Conditional update so a session ended meanwhile (or by another instance) is left alone
+        const updated = await InterviewSession.findOneAndUpdate(
+            { sessionId: session.sessionId, status: SessionStatus.ACTIVE },
+            {
+                $set: {
+                    status: SessionStatus.COMPLETED,
+                    endTime: now,
+                    duration: Math.max(0, Math.floor((now.getTime() - session.startTime.getTime()) / 1000)),
+                    endReason: reason
+                }
+            },
+            { new: true }
+        );
+        if (!updated) {
+            return false;
+        }
+
+        this.broadcastStatus(session.sessionId, SessionStatus.COMPLETED, reason, now);
+        await this.presence?.clearPresence(session.sessionId).catch(error =>
+            console.error(`Failed to clear presence of swept session ${session.sessionId}:`, error));
+
+        try {
+            await ReportService.generateReport(session.sessionId);
+        } catch (error) {
+            console.error(`Failed to queue report for swept session ${session.sessionId}:`, error);
+        }
+        return true;
+    }
+
+    private broadcastStatus(sessionId: string, status: SessionStatus, reason: SessionEndReason, now: Date): void {
+        this.presence?.broadcastToSession(sessionId, WebSocketEventType.SESSION_STATUS_UPDATE, {
+            sessionId,
+            status,
+            updatedBy: 'system',
+            reason,
+            timestamp: now.toISOString()
+        });
+    }
+}
@@ -0,0 +1,66 @@
+import path from 'path';
+import { CloudStorageService } from '../cloudStorageService';
+import { SignedUrlOptions, StorageContent, StorageDriver, StoredObject, contentSize } from './storageDriver';
+
+const VIDEO_EXTENSIONS = ['.mp4', '.webm', '.mov', '.avi'];
+
+/**
+ * Stores objects in Cloudinary. Recordings are video resources whose public ID drops the
+ * extension; everything else is a raw resource keyed by the full path.
+ */
+export class CloudinaryStorageDriver implements StorageDriver {
+    readonly name = 'cloudinary' as const;
+    readonly remote = true;
+
+    constructor(
+        private readonly cloud: CloudStorageService,
+        private readonly folder: string,
+        private readonly defaultExpirySeconds: number
+    ) {}
+
+    async put(key: string, content: StorageContent, _contentType: string): Promise<StoredObject> {
+        const publicId = this.publicId(key);
+        const options = {
+            folder: path.posix.dirname(publicId),
+            public_id: path.posix.basename(publicId),
+            use_filename: false,
+            unique_filename: false,
+            overwrite: true
+        };
+
+        let result;
+        if ('buffer' in content) {
+            result = await this.cloud.uploadDocument(content.buffer, path.posix.basename(key), {
+                ...options,
+                resource_type: this.resourceType(key)
+            });
+        } else if (this.resourceType(key) === 'video') {
+            result = await this.cloud.uploadVideo(content.filePath, options);
+        } else {
+            result = await this.cloud.uploadDocumentFromPath(content.filePath, options);
+        }
+
+        return { driver: this.name, key, size: result.bytes ?? await contentSize(content) };
+    }
+
+    async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+        const resourceType = this.resourceType(key);
+        const expiresAt = Math.floor(Date.now() / 1000) + (options.expiresInSeconds ?? this.defaultExpirySeconds);
+        const format = resourceType === 'video' ? path.extname(key).slice(1) : '';
+
+        return this.cloud.signedDownloadUrl(this.publicId(key), resourceType, format, expiresAt, !!options.downloadName);
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.cloud.deleteFile(this.publicId(key), this.resourceType(key));
+    }
+
+    private resourceType(key: string): 'video' | 'raw' {
+        return VIDEO_EXTENSIONS.includes(path.extname(key).toLowerCase()) ? 'video' : 'raw';
+    }
+
+    private publicId(key: string): string {
+        const id = this.resourceType(key) === 'video' ? key.slice(0, -path.extname(key).length) : key;
+        return `${this.folder}/${id}`;
+    }
+}
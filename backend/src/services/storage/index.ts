@@ -0,0 +1,117 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { cloudStorageService } from '../cloudStorageService';
+import { envInt } from '../../utils/concurrency';
+import { CloudinaryStorageDriver } from './cloudinaryStorageDriver';
+import { LocalStorageDriver } from './localStorageDriver';
+import { S3StorageDriver } from './s3StorageDriver';
+import { STORAGE_DRIVERS } from '../../types';
+import { SignedUrlOptions, StorageContent, StorageDriver, StorageDriverName, StoredObject } from './storageDriver';
+
+export * from './storageDriver';
+export { CloudinaryStorageDriver } from './cloudinaryStorageDriver';
+export { LocalStorageDriver } from './localStorageDriver';
+export { S3StorageDriver } from './s3StorageDriver';
+
+// Reference to a stored object as persisted on reports and sessions
+export interface StorageRef {
+    driver: StorageDriverName;
+    key: string;
+}
+
+export class StorageService {
+    private static readonly drivers = new Map<StorageDriverName, StorageDriver>();
+    private static readonly signedUrlTtlSeconds = envInt('STORAGE_SIGNED_URL_TTL_SECONDS', 900);
+
+    /**
+     * Driver new objects are written to, chosen with STORAGE_DRIVER. Without it, Cloudinary
+     * is used when configured (as before drivers existed) and the local disk otherwise.
+     */
+    static driver(): StorageDriver {
+        const configured = process.env.STORAGE_DRIVER?.trim().toLowerCase();
+        if (!configured) {
+            return this.driverFor(cloudStorageService.isEnabled() ? 'cloudinary' : 'local');
+        }
+        if (!(STORAGE_DRIVERS as readonly string[]).includes(configured)) {
+            throw new Error(`Unknown STORAGE_DRIVER "${configured}"; expected one of ${STORAGE_DRIVERS.join(', ')}`);
+        }
+        return this.driverFor(configured as StorageDriverName);
+    }
+
+    /**
+     * Driver holding an existing object. Objects stay with the driver they were written to,
+     * so switching STORAGE_DRIVER does not strand earlier recordings and reports.
+     */
+    static driverFor(name: StorageDriverName): StorageDriver {
+        let driver = this.drivers.get(name);
+        if (!driver) {
+            driver = this.createDriver(name);
+            this.drivers.set(name, driver);
+        }
+        return driver;
+    }
+
+    static async put(key: string, content: StorageContent, contentType: string): Promise<StoredObject> {
+        return this.driver().put(key, content, contentType);
+    }
+
+    static async signedUrl(ref: StorageRef, options?: SignedUrlOptions): Promise<string> {
+        return this.driverFor(ref.driver).getSignedUrl(ref.key, options);
+    }
+
+    static async remove(ref: StorageRef): Promise<void> {
+        await this.driverFor(ref.driver).delete(ref.key);
+    }
+
+    static localDriver(): LocalStorageDriver {
+        return this.driverFor('local') as LocalStorageDriver;
+    }
+
+    /**
+     * Key the local driver signs its links with, derived from the secret so it is not the JWT key itself.
+     * Links signed with the built-in placeholder could be forged by anyone, so production refuses it.
+     */
+    private static localSigningKey(): string {
+        const secret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+        if (!secret && process.env.NODE_ENV === 'production') {
+            throw new Error('Local storage links require STORAGE_SIGNING_SECRET or JWT_SECRET in production');
+        }
+        return createHash('sha256').update(`storage-link:${secret || 'your-secret-key'}`).digest('hex');
+    }
+
+    private static createDriver(name: StorageDriverName): StorageDriver {
+        switch (name) {
+            case 'local':
+                return new LocalStorageDriver(
+                    process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'uploads', 'storage'),
+                    this.localSigningKey(),
+                    this.signedUrlTtlSeconds
+                );
+            case 's3': {
+                const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_FORCE_PATH_STYLE } = process.env;
+                if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+                    throw new Error('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+                }
+                return new S3StorageDriver({
+                    endpoint: S3_ENDPOINT || undefined,
+                    region: S3_REGION || 'us-east-1',
+                    bucket: S3_BUCKET,
+                    accessKeyId: S3_ACCESS_KEY_ID,
+                    secretAccessKey: S3_SECRET_ACCESS_KEY,
+                    // Custom endpoints (MinIO) rarely have per-bucket host names
+                    forcePathStyle: S3_FORCE_PATH_STYLE ? S3_FORCE_PATH_STYLE === 'true' : !!S3_ENDPOINT,
+                    defaultExpirySeconds: this.signedUrlTtlSeconds
+                });
+            }
+            case 'cloudinary':
+                if (!cloudStorageService.isEnabled()) {
+                    throw new Error('Cloudinary storage requires CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY and CLOUDINARY_API_SECRET');
+                }
+                return new CloudinaryStorageDriver(
+                    cloudStorageService,
+                    process.env.CLOUDINARY_FOLDER || 'video-interviews',
+                    this.signedUrlTtlSeconds
+                );
+        }
+    }
+}
@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { SignedUrlOptions, StorageContent, StorageDriver, StoredObject, contentSize } from './storageDriver';
+
+export interface LocalSignature {
+    expires: number;
+    signature: string;
+    download?: string | undefined;
+}
+
+/**
+ * Keeps objects under a directory on this server. Signed URLs point at /api/storage,
+ * which serves the file after checking the HMAC and expiry in the query string.
+ */
+export class LocalStorageDriver implements StorageDriver {
+    readonly name = 'local' as const;
+    readonly remote = false;
+
+    constructor(
+        private readonly rootDir: string,
+        private readonly signingSecret: string,
+        private readonly defaultExpirySeconds: number
+    ) {}
+
+    async put(key: string, content: StorageContent, _contentType: string): Promise<StoredObject> {
+        const target = this.resolve(key);
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+        if ('buffer' in content) {
+            await fs.promises.writeFile(target, content.buffer);
+        } else {
+            await fs.promises.copyFile(content.filePath, target);
+        }
+
+        return { driver: this.name, key, size: await contentSize(content) };
+    }
+
+    async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+        this.resolve(key);
+        const expires = Math.floor(Date.now() / 1000) + (options.expiresInSeconds ?? this.defaultExpirySeconds);
+        const query = new URLSearchParams({ expires: String(expires) });
+        if (options.downloadName) {
+            query.set('download', options.downloadName);
+        }
+        query.set('signature', this.sign(key, expires, options.downloadName));
+
+        const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+        return `/api/storage/${encodedKey}?${query.toString()}`;
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.promises.unlink(this.resolve(key)).catch((error: NodeJS.ErrnoException) => {
+            if (error.code !== 'ENOENT') throw error;
+        });
+    }
+
+    /**
+     * Check a signed URL's query parameters; returns the file to serve, or null if the
+     * signature does not match or has expired
+     */
+    verify(key: string, { expires, signature, download }: LocalSignature): string | null {
+        if (!Number.isFinite(expires) || expires < Date.now() / 1000) return null;
+
+        const expected = Buffer.from(this.sign(key, expires, download), 'hex');
+        const given = Buffer.from(signature, 'hex');
+        if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+
+        return this.resolve(key);
+    }
+
+    /**
+     * Map a key onto the storage directory, refusing keys that would escape it
+     */
+    resolve(key: string): string {
+        const target = path.resolve(this.rootDir, key);
+        if (!key || !target.startsWith(path.resolve(this.rootDir) + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return target;
+    }
+
+    private sign(key: string, expires: number, download?: string): string {
+        return crypto.createHmac('sha256', this.signingSecret)
+            .update(`${key}\n${expires}\n${download ?? ''}`)
+            .digest('hex');
+    }
+}
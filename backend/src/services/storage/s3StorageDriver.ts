@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import { Readable } from 'stream';
+import { SignedUrlOptions, StorageContent, StorageDriver, StoredObject, contentSize } from './storageDriver';
+
+export interface S3Config {
+    // Custom endpoint for S3-compatible services such as MinIO; AWS is used when unset
+    endpoint?: string | undefined;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    // Address the bucket in the path (MinIO) rather than the host name (AWS)
+    forcePathStyle: boolean;
+    defaultExpirySeconds: number;
+}
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+// RFC 3986 encoding as required by Signature Version 4
+const uriEncode = (value: string): string =>
+    encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const sha256Hex = (value: string | Buffer): string => crypto.createHash('sha256').update(value).digest('hex');
+
+const hmac = (key: string | Buffer, value: string): Buffer => crypto.createHmac('sha256', key).update(value).digest();
+
+const amzDate = (now: Date): string => now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+const canonicalQuery = (params: Record<string, string>): string =>
+    Object.keys(params)
+        .sort()
+        .map(name => `${uriEncode(name)}=${uriEncode(params[name]!)}`)
+        .join('&');
+
+/**
+ * Stores objects in an S3 bucket, or any service speaking the S3 API (MinIO, R2, ...).
+ * Requests are signed with AWS Signature Version 4; downloads use presigned GET URLs.
+ */
+export class S3StorageDriver implements StorageDriver {
+    readonly name = 's3' as const;
+    readonly remote = true;
+
+    constructor(private readonly config: S3Config) {}
+
+    async put(key: string, content: StorageContent, contentType: string): Promise<StoredObject> {
+        const size = await contentSize(content);
+        const body = 'buffer' in content ? content.buffer : fs.createReadStream(content.filePath);
+        // Files are streamed, so only buffers can have their payload hash signed
+        const payloadHash = 'buffer' in content ? sha256Hex(content.buffer) : UNSIGNED_PAYLOAD;
+
+        await this.send('PUT', key, {
+            'content-type': contentType,
+            'content-length': String(size)
+        }, payloadHash, body);
+
+        return { driver: this.name, key, size };
+    }
+
+    async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+        const query: Record<string, string> = {};
+        if (options.downloadName) {
+            query['response-content-disposition'] = `attachment; filename="${options.downloadName}"`;
+        }
+        return this.presign('GET', key, options.expiresInSeconds ?? this.config.defaultExpirySeconds, new Date(), query);
+    }
+
+    async delete(key: string): Promise<void> {
+        // S3 answers 204 whether or not the key existed
+        await this.send('DELETE', key, {}, sha256Hex(''));
+    }
+
+    /**
+     * Presigned URL for a request on the object, valid for the given number of seconds
+     */
+    presign(method: string, key: string, expiresInSeconds: number, now: Date, extraQuery: Record<string, string> = {}): string {
+        const url = this.objectUrl(key);
+        const timestamp = amzDate(now);
+        const scope = this.scope(timestamp);
+
+        const query = canonicalQuery({
+            ...extraQuery,
+            'X-Amz-Algorithm': ALGORITHM,
+            'X-Amz-Credential': `${this.config.accessKeyId}/${scope}`,
+            'X-Amz-Date': timestamp,
+            'X-Amz-Expires': String(expiresInSeconds),
+            'X-Amz-SignedHeaders': 'host'
+        });
+        const canonicalRequest = [method, url.pathname, query, `host:${url.host}\n`, 'host', UNSIGNED_PAYLOAD].join('\n');
+
+        return `${url.origin}${url.pathname}?${query}&X-Amz-Signature=${this.signature(timestamp, canonicalRequest)}`;
+    }
+
+    private async send(
+        method: string,
+        key: string,
+        headers: Record<string, string>,
+        payloadHash: string,
+        body?: Buffer | Readable
+    ): Promise<void> {
+        const url = this.objectUrl(key);
+        const timestamp = amzDate(new Date());
+        const signed: Record<string, string> = {
+            ...headers,
+            host: url.host,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': timestamp
+        };
+        // Content-Length is left out of the signature; proxies may rewrite it
+        const signedNames = Object.keys(signed).filter(name => name !== 'content-length').sort();
+        const canonicalRequest = [
+            method,
+            url.pathname,
+            '',
+            signedNames.map(name => `${name}:${signed[name]!.trim()}\n`).join(''),
+            signedNames.join(';'),
+            payloadHash
+        ].join('\n');
+
+        const authorization = `${ALGORITHM} Credential=${this.config.accessKeyId}/${this.scope(timestamp)}, ` +
+            `SignedHeaders=${signedNames.join(';')}, Signature=${this.signature(timestamp, canonicalRequest)}`;
+
+        const { statusCode, responseBody } = await new Promise<{ statusCode: number; responseBody: string }>((resolve, reject) => {
+            const request = (url.protocol === 'https:' ? https : http).request(url, {
+                method,
+                headers: { ...signed, authorization }
+            }, response => {
+                const chunks: Buffer[] = [];
+                response.on('data', chunk => chunks.push(chunk));
+                response.on('end', () => resolve({
+                    statusCode: response.statusCode ?? 0,
+                    responseBody: Buffer.concat(chunks).toString('utf8')
+                }));
+                response.on('error', reject);
+            });
+            request.on('error', reject);
+
+            if (body instanceof Readable) {
+                body.on('error', error => request.destroy(error));
+                body.pipe(request);
+            } else {
+                request.end(body);
+            }
+        });
+
+        if (statusCode >= 300) {
+            const code = responseBody.match(/<Code>([^<]+)<\/Code>/)?.[1];
+            throw new Error(`S3 ${method} ${key} failed with status ${statusCode}${code ? ` (${code})` : ''}`);
+        }
+    }
+
+    private objectUrl(key: string): URL {
+        const { bucket, region, forcePathStyle } = this.config;
+        const endpoint = new URL(this.config.endpoint || `https://s3.${region}.amazonaws.com`);
+        const encodedKey = key.split('/').map(uriEncode).join('/');
+
+        return forcePathStyle
+            ? new URL(`${endpoint.protocol}//${endpoint.host}/${bucket}/${encodedKey}`)
+            : new URL(`${endpoint.protocol}//${bucket}.${endpoint.host}/${encodedKey}`);
+    }
+
+    private scope(timestamp: string): string {
+        return `${timestamp.slice(0, 8)}/${this.config.region}/s3/aws4_request`;
+    }
+
+    private signature(timestamp: string, canonicalRequest: string): string {
+        const stringToSign = [ALGORITHM, timestamp, this.scope(timestamp), sha256Hex(canonicalRequest)].join('\n');
+        const signingKey = ['s3', 'aws4_request'].reduce<Buffer>(
+            (key, part) => hmac(key, part),
+            hmac(hmac(`AWS4${this.config.secretAccessKey}`, timestamp.slice(0, 8)), this.config.region)
+        );
+        return hmac(signingKey, stringToSign).toString('hex');
+    }
+}
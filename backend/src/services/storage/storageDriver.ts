@@ -0,0 +1,38 @@
+import fs from 'fs';
+import { StorageDriverName } from '../../types';
+
+export type { StorageDriverName };
+
+// What to store: a file on local disk (recordings) or an in-memory buffer (generated reports)
+export type StorageContent = { filePath: string } | { buffer: Buffer };
+
+// Where an object ended up; persisted next to the record that owns it
+export interface StoredObject {
+    driver: StorageDriverName;
+    key: string;
+    size: number;
+}
+
+export interface SignedUrlOptions {
+    expiresInSeconds?: number;
+    // Served as an attachment with this filename
+    downloadName?: string;
+}
+
+/**
+ * A place recordings and reports are kept. Keys are slash-separated paths such as
+ * `reports/<reportId>.pdf`; each driver maps them onto its own namespace.
+ */
+export interface StorageDriver {
+    readonly name: StorageDriverName;
+    // Remote drivers keep the only copy once a file is stored, so the local one can be removed
+    readonly remote: boolean;
+
+    put(key: string, content: StorageContent, contentType: string): Promise<StoredObject>;
+    getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+    // Removing a key that does not exist is not an error
+    delete(key: string): Promise<void>;
+}
+
+export const contentSize = async (content: StorageContent): Promise<number> =>
+    'buffer' in content ? content.buffer.length : (await fs.promises.stat(content.filePath)).size;
@@ -0,0 +1,276 @@
+import { createHash, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { User, UserDocument } from '../models';
+import { RefreshToken, RefreshTokenDocument } from '../models/RefreshToken';
+import { RevokedToken, RevocationKind } from '../models/RevokedToken';
+import { generateToken, ACCESS_TOKEN_TTL_SECONDS } from '../middleware/auth';
+import { AuthenticationError, NotFoundError } from '../middleware/errorHandler';
+import { OrganizationService } from './organizationService';
+import { TwoFactorService } from './twoFactorService';
+import { JWTPayload } from '../types';
+import { securityLogger } from '../utils/logger';
+
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+
+// Where a token was requested from, kept with the refresh token so users can tell their sign-ins apart
+export interface TokenRequestContext {
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  // Access token lifetime in seconds
+  expiresIn: number;
+  refreshExpiresAt: Date;
+}
+
+// One signed-in device, as listed to its user or an admin
+export interface LoginSession {
+  familyId: string;
+  current: boolean;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+export interface Revocation {
+  kind: RevocationKind;
+  userId: string;
+  familyId?: string | undefined;
+  jti?: string | undefined;
+  revokedAt: Date;
+}
+
+type RevocationListener = (revocation: Revocation) => void;
+
+const refreshTokenTtlMs = (): number =>
+  (Number(process.env.REFRESH_TOKEN_TTL_DAYS) || DEFAULT_REFRESH_TOKEN_TTL_DAYS) * 24 * 60 * 60 * 1000;
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Short-lived access tokens backed by rotating refresh tokens, plus the revocation list.
+ * Each sign-in starts a refresh token family; every refresh replaces the token with a new one
+ * from the same family, and presenting a replaced token again revokes the whole family.
+ */
+export class TokenService {
+    private static listeners: Set<RevocationListener> = new Set();
+
+    /**
+     * Start a new sign-in for the user
+     */
+    static async issueSession(user: UserDocument, context: TokenRequestContext = {}): Promise<IssuedTokens> {
+        const familyId = uuidv4();
+        const { refreshToken, expiresAt } = await this.createRefreshToken(user, familyId, context);
+        return {
+            accessToken: generateToken(user, familyId),
+            refreshToken,
+            expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+            refreshExpiresAt: expiresAt
+        };
+    }
+
+    /**
+     * Exchange a refresh token for a new access token and refresh token
+     */
+    static async rotate(refreshToken: string, context: TokenRequestContext = {}): Promise<IssuedTokens & { user: UserDocument }> {
+        const stored = await RefreshToken.findByTokenHash(hashToken(refreshToken));
+        if (!stored || stored.expiresAt <= new Date()) {
+            throw new AuthenticationError('Invalid or expired refresh token');
+        }
+        if (stored.revokedAt) {
+            throw new AuthenticationError('Refresh token has been revoked');
+        }
+
+        // Claim the token; only one exchange can win
+        const claimed = await RefreshToken.findOneAndUpdate(
+            { _id: stored._id, rotatedAt: { $exists: false }, revokedAt: { $exists: false } },
+            { $set: { rotatedAt: new Date(), lastUsedAt: new Date() } },
+            { new: true }
+        );
+        if (!claimed) {
+            // A replaced token came back: it was copied, so nothing issued from this sign-in can be trusted
+            securityLogger.suspiciousActivity(context.ip || 'unknown', 'refresh_token_reuse', {
+                userId: stored.userId,
+                familyId: stored.familyId
+            });
+            await this.revokeFamily(stored.userId, stored.familyId, 'refresh token reuse');
+            throw new AuthenticationError('Refresh token has already been used');
+        }
+
+        const user = await User.findOne({ userId: stored.userId, isActive: true });
+        if (!user || !(await OrganizationService.isOrganizationActive(user.organizationId))) {
+            await this.revokeFamily(stored.userId, stored.familyId, 'account deactivated');
+            throw new AuthenticationError('User not found or inactive.');
+        }
+        // The organization now requires a second factor the user has not set up: sign in again to enroll
+        if (!user.twoFactorEnabled && await TwoFactorService.isRequired(user)) {
+            await this.revokeFamily(stored.userId, stored.familyId, 'two-factor enrollment required');
+            throw new AuthenticationError('Two-factor authentication is now required; please sign in again');
+        }
+
+        const issued = await this.createRefreshToken(user, stored.familyId, context);
+        await RefreshToken.updateOne({ _id: claimed._id }, { $set: { replacedBy: issued.id } });
+
+        return {
+            user,
+            accessToken: generateToken(user, stored.familyId),
+            refreshToken: issued.refreshToken,
+            expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+            refreshExpiresAt: issued.expiresAt
+        };
+    }
+
+    /**
+     * Whether an access token was revoked: by itself, with its sign-in, or with all of its user's tokens
+     */
+    static async isRevoked(payload: JWTPayload): Promise<boolean> {
+        const keys = [`user:${payload.userId}`];
+        if (payload.jti) keys.push(payload.jti);
+        if (payload.sid) keys.push(`family:${payload.sid}`);
+
+        const entries = await RevokedToken.findByKeys(keys);
+        return entries.some(entry =>
+            entry.kind !== 'user' || payload.iat * 1000 <= entry.revokedAt.getTime());
+    }
+
+    /**
+     * End the sign-in the access token belongs to
+     */
+    static async logout(payload: JWTPayload): Promise<void> {
+        if (payload.sid) {
+            await this.revokeFamily(payload.userId, payload.sid, 'logout');
+        } else if (payload.jti) {
+            await this.addRevocation({
+                key: payload.jti,
+                kind: 'token',
+                userId: payload.userId,
+                expiresAt: new Date(payload.exp * 1000),
+                reason: 'logout'
+            }, { jti: payload.jti });
+        }
+    }
+
+    /**
+     * End the sign-in a refresh token belongs to. Unknown tokens are ignored.
+     */
+    static async revokeRefreshToken(refreshToken: string, reason: string): Promise<void> {
+        const stored = await RefreshToken.findByTokenHash(hashToken(refreshToken));
+        if (stored) {
+            await this.revokeFamily(stored.userId, stored.familyId, reason);
+        }
+    }
+
+    /**
+     * Revoke one sign-in: its refresh tokens and every access token issued from them
+     */
+    static async revokeFamily(userId: string, familyId: string, reason: string, revokedBy?: string): Promise<void> {
+        await RefreshToken.updateMany(
+            { userId, familyId, revokedAt: { $exists: false } },
+            { $set: { revokedAt: new Date(), revokedReason: reason } }
+        );
+        await this.addRevocation({
+            key: `family:${familyId}`,
+            kind: 'family',
+            userId,
+            expiresAt: new Date(Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000),
+            reason,
+            revokedBy
+        }, { familyId });
+    }
+
+    /**
+     * Revoke every token the user holds; they have to sign in again on every device
+     */
+    static async revokeUser(userId: string, reason: string, revokedBy?: string): Promise<void> {
+        await RefreshToken.updateMany(
+            { userId, revokedAt: { $exists: false } },
+            { $set: { revokedAt: new Date(), revokedReason: reason } }
+        );
+        await this.addRevocation({
+            key: `user:${userId}`,
+            kind: 'user',
+            userId,
+            expiresAt: new Date(Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000),
+            reason,
+            revokedBy
+        });
+    }
+
+    /**
+     * The user's signed-in devices, most recent first
+     */
+    static async listSessions(userId: string, currentFamilyId?: string): Promise<LoginSession[]> {
+        const tokens = await RefreshToken.findActiveByUser(userId);
+        return tokens.map((token: RefreshTokenDocument) => ({
+            familyId: token.familyId,
+            current: token.familyId === currentFamilyId,
+            lastUsedAt: token.lastUsedAt || token.createdAt,
+            expiresAt: token.expiresAt,
+            ip: token.createdByIp,
+            userAgent: token.userAgent
+        }));
+    }
+
+    /**
+     * Revoke one of the user's sign-ins by its family id
+     */
+    static async revokeSession(userId: string, familyId: string, reason: string, revokedBy?: string): Promise<void> {
+        const exists = await RefreshToken.exists({ userId, familyId });
+        if (!exists) {
+            throw new NotFoundError('Login session');
+        }
+        await this.revokeFamily(userId, familyId, reason, revokedBy);
+    }
+
+    /**
+     * Be told about revocations made by this process, e.g. to drop sockets authenticated with revoked tokens
+     */
+    static onRevoked(listener: RevocationListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private static async createRefreshToken(user: UserDocument, familyId: string, context: TokenRequestContext) {
+        const refreshToken = randomBytes(32).toString('base64url');
+        const expiresAt = new Date(Date.now() + refreshTokenTtlMs());
+        const stored = await RefreshToken.create({
+            tokenHash: hashToken(refreshToken),
+            familyId,
+            userId: user.userId,
+            organizationId: user.organizationId,
+            expiresAt,
+            lastUsedAt: new Date(),
+            createdByIp: context.ip,
+            userAgent: context.userAgent
+        });
+        return { id: String(stored._id), refreshToken, expiresAt };
+    }
+
+    private static async addRevocation(
+        entry: { key: string; kind: RevocationKind; userId: string; expiresAt: Date; reason: string; revokedBy?: string | undefined },
+        target: { familyId?: string; jti?: string } = {}
+    ): Promise<void> {
+        const revokedAt = new Date();
+        // Revoking again moves the cut-off for user revocations forward
+        await RevokedToken.updateOne(
+            { key: entry.key },
+            { $set: { ...entry, revokedAt } },
+            { upsert: true }
+        );
+
+        const revocation: Revocation = { kind: entry.kind, userId: entry.userId, ...target, revokedAt };
+        for (const listener of this.listeners) {
+            try {
+                listener(revocation);
+            } catch (error) {
+                console.error('Revocation listener failed:', error);
+            }
+        }
+    }
+}
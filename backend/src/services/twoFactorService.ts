@@ -0,0 +1,307 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomInt } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { User, UserDocument, Organization } from '../models';
+import { AuthenticationError, AuthorizationError, ConflictError, NotFoundError, RateLimitError } from '../middleware/errorHandler';
+import { UserRole } from '../types';
+import { generateTotpSecret, totpUri, verifyTotp } from '../utils/totp';
+import { runAcrossTenants } from '../utils/tenantContext';
+import { securityLogger } from '../utils/logger';
+
+// A password login has this long to complete its second step
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+// Consecutive wrong codes before the second factor locks, and for how long
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const RECOVERY_CODE_COUNT = 10;
+// Crockford base32 without ambiguous characters, grouped as XXXXX-XXXXX
+const RECOVERY_CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+// 'verify' challenges ask an enrolled user for a code; 'enroll' ones let a user the policy covers enroll first
+export type TwoFactorChallengePurpose = 'verify' | 'enroll';
+
+export interface TwoFactorEnrollment {
+  // Base32 secret for manual entry, and the same secret as an otpauth:// URI and QR code
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: Date | undefined;
+  recoveryCodesRemaining: number;
+  // The organization requires two-factor authentication for the user's role
+  required: boolean;
+}
+
+const hashRecoveryCode = (code: string): string =>
+  createHash('sha256').update(code.toUpperCase().replace(/[^0-9A-Z]/g, '')).digest('hex');
+
+const generateRecoveryCode = (): string => {
+  const chars = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]);
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+};
+
+/**
+ * Authenticator app (TOTP) second factor for staff accounts, its recovery codes and the
+ * organization policy requiring it. Secrets are encrypted at rest with TWO_FACTOR_ENCRYPTION_KEY
+ * (derived from JWT_SECRET when unset).
+ */
+export class TwoFactorService {
+    /**
+     * Whether the user's organization requires a second factor for their role
+     */
+    static async isRequired(user: UserDocument): Promise<boolean> {
+        if (user.role === UserRole.CANDIDATE || !user.organizationId) {
+            return false;
+        }
+        const organization = await Organization.findOne({ organizationId: user.organizationId });
+        return organization?.twoFactorRequiredRoles?.includes(user.role) ?? false;
+    }
+
+    /**
+     * Roles the organization requires two-factor authentication for
+     */
+    static async getPolicy(organizationId: string): Promise<UserRole[]> {
+        const organization = await Organization.findOne({ organizationId });
+        if (!organization) {
+            throw new NotFoundError('Organization');
+        }
+        return organization.twoFactorRequiredRoles ?? [];
+    }
+
+    static async updatePolicy(organizationId: string, requiredRoles: UserRole[]): Promise<UserRole[]> {
+        const organization = await Organization.findOneAndUpdate(
+            { organizationId },
+            { $set: { twoFactorRequiredRoles: [...new Set(requiredRoles)] } },
+            { new: true }
+        );
+        if (!organization) {
+            throw new NotFoundError('Organization');
+        }
+        return organization.twoFactorRequiredRoles;
+    }
+
+    static async status(user: UserDocument): Promise<TwoFactorStatus> {
+        const withSecrets = await this.loadUser(user.userId);
+        return {
+            enabled: withSecrets.twoFactorEnabled,
+            enabledAt: withSecrets.twoFactor?.enabledAt,
+            recoveryCodesRemaining: withSecrets.twoFactorEnabled ? withSecrets.twoFactor?.recoveryCodes.length ?? 0 : 0,
+            required: await this.isRequired(withSecrets)
+        };
+    }
+
+    /**
+     * Short-lived token standing for a password that was already checked
+     */
+    static issueChallenge(user: UserDocument, purpose: TwoFactorChallengePurpose): string {
+        return jwt.sign({ purpose }, this.challengeSecret(), { subject: user.userId, expiresIn: CHALLENGE_TTL_SECONDS });
+    }
+
+    /**
+     * The user a login challenge was issued to
+     */
+    static async readChallenge(challengeToken: string, purpose: TwoFactorChallengePurpose): Promise<UserDocument> {
+        let payload: jwt.JwtPayload;
+        try {
+            payload = jwt.verify(challengeToken, this.challengeSecret()) as jwt.JwtPayload;
+        } catch {
+            throw new AuthenticationError('Sign-in attempt expired; please sign in again');
+        }
+        if (payload.purpose !== purpose || !payload.sub) {
+            throw new AuthenticationError('Invalid sign-in challenge');
+        }
+        return this.loadUser(payload.sub);
+    }
+
+    /**
+     * Start enrollment: a new secret, kept pending until the user confirms it with a code
+     */
+    static async beginEnrollment(user: UserDocument): Promise<TwoFactorEnrollment> {
+        if (user.role === UserRole.CANDIDATE) {
+            throw new AuthorizationError('Two-factor authentication is available to interviewer and admin accounts');
+        }
+        if (user.twoFactorEnabled) {
+            throw new ConflictError('Two-factor authentication is already enabled');
+        }
+
+        const secret = generateTotpSecret();
+        await User.updateOne({ userId: user.userId }, { $set: { 'twoFactor.pendingSecret': this.encrypt(secret) } });
+
+        // Name authenticator apps list the account under
+        const otpauthUrl = totpUri(secret, user.email, process.env.TWO_FACTOR_ISSUER || 'Video Proctoring');
+        return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+    }
+
+    /**
+     * Finish enrollment with a code from the new secret; returns the recovery codes, shown only this once.
+     * The document passed in is marked as enrolled as well.
+     */
+    static async confirmEnrollment(user: UserDocument, code: string, ip: string = 'unknown'): Promise<string[]> {
+        const current = await this.loadUser(user.userId);
+        if (current.twoFactorEnabled) {
+            throw new ConflictError('Two-factor authentication is already enabled');
+        }
+        if (!current.twoFactor?.pendingSecret) {
+            throw new ConflictError('Two-factor setup has not been started');
+        }
+        this.assertNotLocked(current);
+
+        const step = verifyTotp(this.decrypt(current.twoFactor.pendingSecret), code);
+        if (step === null) {
+            await this.recordFailure(current, ip, 'invalid enrollment code');
+        }
+
+        const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+        await User.updateOne({ userId: current.userId }, {
+            $set: {
+                twoFactorEnabled: true,
+                twoFactor: {
+                    secret: current.twoFactor.pendingSecret,
+                    recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+                    enabledAt: new Date(),
+                    lastUsedStep: step,
+                    failedAttempts: 0
+                }
+            }
+        });
+        user.twoFactorEnabled = true;
+        securityLogger.twoFactorChange(current.userId, current.email, 'enrolled');
+        return recoveryCodes;
+    }
+
+    /**
+     * Check a second factor: a code from the authenticator app, or an unused recovery code (which is then used up)
+     */
+    static async verify(user: UserDocument, code: string, ip: string = 'unknown'): Promise<void> {
+        const current = await this.loadUser(user.userId);
+        if (!current.twoFactorEnabled || !current.twoFactor?.secret) {
+            throw new ConflictError('Two-factor authentication is not enabled');
+        }
+        this.assertNotLocked(current);
+
+        const normalized = code.replace(/\s/g, '');
+        if (/^\d{6}$/.test(normalized)) {
+            const step = verifyTotp(this.decrypt(current.twoFactor.secret), normalized, { lastUsedStep: current.twoFactor.lastUsedStep });
+            // Claim the time step so the same code cannot sign in twice, even concurrently
+            const claimed = step !== null && (await User.updateOne(
+                {
+                    userId: current.userId,
+                    $or: [{ 'twoFactor.lastUsedStep': { $exists: false } }, { 'twoFactor.lastUsedStep': { $lt: step } }]
+                },
+                { $set: { 'twoFactor.lastUsedStep': step, 'twoFactor.failedAttempts': 0 }, $unset: { 'twoFactor.lockedUntil': 1 } }
+            )).modifiedCount > 0;
+            if (!claimed) {
+                await this.recordFailure(current, ip, step === null ? 'invalid code' : 'code already used');
+            }
+            return;
+        }
+
+        const hash = hashRecoveryCode(normalized);
+        const used = (await User.updateOne(
+            { userId: current.userId, 'twoFactor.recoveryCodes': hash },
+            { $pull: { 'twoFactor.recoveryCodes': hash }, $set: { 'twoFactor.failedAttempts': 0 }, $unset: { 'twoFactor.lockedUntil': 1 } }
+        )).modifiedCount > 0;
+        if (!used) {
+            await this.recordFailure(current, ip, 'invalid recovery code');
+        }
+        securityLogger.suspiciousActivity(ip, 'two_factor_recovery_code_used', {
+            userId: current.userId,
+            remaining: current.twoFactor.recoveryCodes.length - 1
+        });
+    }
+
+    /**
+     * Replace all recovery codes after checking a current second factor
+     */
+    static async regenerateRecoveryCodes(user: UserDocument, code: string, ip?: string): Promise<string[]> {
+        await this.verify(user, code, ip);
+
+        const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+        await User.updateOne({ userId: user.userId }, { $set: { 'twoFactor.recoveryCodes': recoveryCodes.map(hashRecoveryCode) } });
+        securityLogger.twoFactorChange(user.userId, user.email, 'recovery_codes_regenerated');
+        return recoveryCodes;
+    }
+
+    /**
+     * Turn the second factor off; not allowed while the organization requires it for the user's role
+     */
+    static async disable(user: UserDocument, code: string, ip?: string): Promise<void> {
+        if (await this.isRequired(user)) {
+            throw new AuthorizationError('Your organization requires two-factor authentication for your role');
+        }
+        await this.verify(user, code, ip);
+
+        await this.clear(user.userId);
+        securityLogger.twoFactorChange(user.userId, user.email, 'disabled');
+    }
+
+    /**
+     * Remove a user's second factor for them (lost device); they enroll again at their next sign-in if required
+     */
+    static async reset(user: UserDocument, actorId: string): Promise<void> {
+        await this.clear(user.userId);
+        securityLogger.twoFactorChange(user.userId, user.email, 'reset', actorId);
+    }
+
+    private static async clear(userId: string): Promise<void> {
+        await User.updateOne({ userId }, { $set: { twoFactorEnabled: false }, $unset: { twoFactor: 1 } });
+    }
+
+    private static async loadUser(userId: string): Promise<UserDocument> {
+        // Second factors are checked during the global login, before any tenant is known
+        const user = await runAcrossTenants(() => User.findOne({ userId, isActive: true }).select('+twoFactor'));
+        if (!user) {
+            throw new AuthenticationError('User not found or inactive.');
+        }
+        return user;
+    }
+
+    private static assertNotLocked(user: UserDocument): void {
+        if (user.twoFactor?.lockedUntil && user.twoFactor.lockedUntil > new Date()) {
+            throw new RateLimitError('Too many incorrect two-factor codes. Try again later.');
+        }
+    }
+
+    private static async recordFailure(user: UserDocument, ip: string, reason: string): Promise<never> {
+        const failedAttempts = (user.twoFactor?.failedAttempts ?? 0) + 1;
+        const locked = failedAttempts >= MAX_FAILED_ATTEMPTS;
+        await User.updateOne({ userId: user.userId }, {
+            $inc: { 'twoFactor.failedAttempts': 1 },
+            ...(locked ? { $set: { 'twoFactor.lockedUntil': new Date(Date.now() + LOCKOUT_MS) } } : {})
+        });
+
+        securityLogger.twoFactorFailed(ip, user.userId, reason, failedAttempts);
+        if (locked) {
+            securityLogger.suspiciousActivity(ip, 'two_factor_lockout', { userId: user.userId, failedAttempts });
+        }
+        throw new AuthenticationError('Invalid two-factor code');
+    }
+
+    private static encryptionKey(): Buffer {
+        return createHash('sha256')
+            .update(`two-factor:${process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-secret-key'}`)
+            .digest();
+    }
+
+    private static encrypt(secret: string): string {
+        const iv = randomBytes(12);
+        const cipher = createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+        const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+        return ['v1', iv, cipher.getAuthTag(), ciphertext].map(part => typeof part === 'string' ? part : part.toString('base64url')).join(':');
+    }
+
+    private static decrypt(stored: string): string {
+        const [, iv, tag, ciphertext] = stored.split(':').map((part, index) => index === 0 ? part : Buffer.from(part, 'base64url'));
+        const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey(), iv as Buffer);
+        decipher.setAuthTag(tag as Buffer);
+        return Buffer.concat([decipher.update(ciphertext as Buffer), decipher.final()]).toString('utf8');
+    }
+
+    // Challenges are signed with a key derived from JWT_SECRET so they cannot pass as access tokens
+    private static challengeSecret(): string {
+        return createHash('sha256').update(`two-factor-challenge:${process.env.JWT_SECRET || 'your-secret-key'}`).digest('hex');
+    }
+}
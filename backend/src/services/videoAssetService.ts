@@ -0,0 +1,236 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { FfprobeData } from 'fluent-ffmpeg';
+import ffmpeg from '../utils/ffmpeg';
+import { InterviewSession } from '../models/InterviewSession';
+import { VideoAsset, VideoAssetDocument, VideoPoster, VideoSprite } from '../models/VideoAsset';
+
+// Properties read from the container and its first audio and video streams
+export interface ProbedVideo {
+    duration?: number;
+    width?: number;
+    height?: number;
+    frameRate?: number;
+    videoCodec?: string;
+    audioCodec?: string;
+    bitRate?: number;
+}
+
+export type SpritePlan = Omit<VideoSprite, 'filename'>;
+
+const POSTER_MAX_WIDTH = 640;
+const SPRITE_FRAME_WIDTH = 160;
+const SPRITE_COLUMNS = 10;
+const SPRITE_MAX_FRAMES = 100;
+
+const finitePositive = (value: unknown): number | undefined => {
+    const number = typeof value === 'string' ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+// Scaled dimensions must be even for yuv420 encoders
+const even = (value: number): number => Math.max(2, Math.round(value / 2) * 2);
+
+export class VideoAssetService {
+    private static readonly thumbnailDir = path.join(process.cwd(), 'uploads', 'thumbnails');
+
+    /**
+     * Read the probe output ffprobe produced for a recording
+     */
+    static parseProbe(data: FfprobeData): ProbedVideo {
+        const video = data.streams.find(stream => stream.codec_type === 'video');
+        const audio = data.streams.find(stream => stream.codec_type === 'audio');
+        const probed: ProbedVideo = {};
+
+        const duration = finitePositive(data.format.duration)
+            ?? finitePositive(video?.duration)
+            ?? finitePositive(audio?.duration);
+        if (duration !== undefined) probed.duration = Math.round(duration * 1000) / 1000;
+
+        const bitRate = finitePositive(data.format.bit_rate);
+        if (bitRate !== undefined) probed.bitRate = Math.round(bitRate);
+
+        if (video) {
+            const width = finitePositive(video.width);
+            const height = finitePositive(video.height);
+            if (width !== undefined && height !== undefined) {
+                probed.width = width;
+                probed.height = height;
+            }
+            // avg_frame_rate is 0/0 for streams without timing; r_frame_rate is the fallback
+            const frameRate = this.parseFrameRate(video.avg_frame_rate) ?? this.parseFrameRate(video.r_frame_rate);
+            if (frameRate !== undefined) probed.frameRate = frameRate;
+            if (video.codec_name) probed.videoCodec = video.codec_name;
+        }
+        if (audio?.codec_name) {
+            probed.audioCodec = audio.codec_name;
+        }
+
+        return probed;
+    }
+
+    /**
+     * Lay out the preview sprite: at most SPRITE_MAX_FRAMES frames spaced whole seconds apart
+     */
+    static planSprite(duration: number, width: number, height: number): SpritePlan {
+        const intervalSeconds = Math.max(1, Math.ceil(duration / SPRITE_MAX_FRAMES));
+        const frameCount = Math.max(1, Math.min(SPRITE_MAX_FRAMES, Math.ceil(duration / intervalSeconds)));
+        const columns = Math.min(SPRITE_COLUMNS, frameCount);
+
+        return {
+            columns,
+            rows: Math.ceil(frameCount / columns),
+            frameCount,
+            frameWidth: SPRITE_FRAME_WIDTH,
+            frameHeight: even((SPRITE_FRAME_WIDTH * height) / width),
+            intervalSeconds
+        };
+    }
+
+    static async probe(filePath: string): Promise<ProbedVideo> {
+        const data = await new Promise<FfprobeData>((resolve, reject) => {
+            ffmpeg.ffprobe(filePath, (err, result) => (err ? reject(err) : resolve(result)));
+        });
+        return this.parseProbe(data);
+    }
+
+    static async checksum(filePath: string): Promise<string> {
+        const hash = createHash('sha256');
+        for await (const chunk of fs.createReadStream(filePath)) {
+            hash.update(chunk as Buffer);
+        }
+        return hash.digest('hex');
+    }
+
+    /**
+     * Probe a stored recording and save its asset record with a poster and preview sprite.
+     * Probing must succeed; the preview images are best effort.
+     */
+    static async capture(videoId: string, sessionId: string, filePath: string, mimeType: string): Promise<VideoAssetDocument> {
+        const [probed, checksum, stats, session] = await Promise.all([
+            this.probe(filePath),
+            this.checksum(filePath),
+            fs.promises.stat(filePath),
+            InterviewSession.findOne({ sessionId }).select('organizationId')
+        ]);
+
+        const asset = await VideoAsset.findByVideoId(videoId)
+            ?? new VideoAsset({ videoId, sessionId, organizationId: session?.organizationId });
+        const previous = { poster: asset.poster?.filename, sprite: asset.sprite?.filename };
+
+        asset.set({
+            sessionId,
+            filename: path.basename(filePath),
+            mimeType,
+            size: stats.size,
+            checksum,
+            duration: probed.duration,
+            width: probed.width,
+            height: probed.height,
+            frameRate: probed.frameRate,
+            videoCodec: probed.videoCodec,
+            audioCodec: probed.audioCodec,
+            bitRate: probed.bitRate,
+            poster: await this.renderPoster(videoId, filePath, probed),
+            sprite: await this.renderSprite(videoId, filePath, probed),
+            probedAt: new Date()
+        });
+        await asset.save();
+
+        // A re-capture (e.g. after a transcode) writes fresh images under new names
+        for (const filename of [previous.poster, previous.sprite]) {
+            if (filename && filename !== asset.poster?.filename && filename !== asset.sprite?.filename) {
+                await fs.promises.unlink(this.thumbnailPath(filename)).catch(() => undefined);
+            }
+        }
+
+        return asset;
+    }
+
+    static async getAsset(videoId: string): Promise<VideoAssetDocument | null> {
+        return VideoAsset.findByVideoId(videoId);
+    }
+
+    /**
+     * Remove the asset record and its preview images
+     */
+    static async remove(videoId: string): Promise<void> {
+        const asset = await VideoAsset.findByVideoId(videoId);
+        if (!asset) return;
+
+        for (const filename of [asset.poster?.filename, asset.sprite?.filename]) {
+            if (filename) {
+                await fs.promises.unlink(this.thumbnailPath(filename)).catch(() => undefined);
+            }
+        }
+        await asset.deleteOne();
+    }
+
+    static thumbnailPath(filename: string): string {
+        return path.join(this.thumbnailDir, path.basename(filename));
+    }
+
+    private static parseFrameRate(rate: string | undefined): number | undefined {
+        const [numerator, denominator] = (rate || '').split('/').map(Number);
+        const value = denominator ? numerator! / denominator : numerator;
+        const frameRate = finitePositive(value);
+        // Browser recordings report a 1000 fps timebase rather than a real rate
+        return frameRate !== undefined && frameRate < 500 ? Math.round(frameRate * 100) / 100 : undefined;
+    }
+
+    private static async renderPoster(videoId: string, filePath: string, probed: ProbedVideo): Promise<VideoPoster | undefined> {
+        if (!probed.width || !probed.height) return undefined;
+
+        const width = even(Math.min(POSTER_MAX_WIDTH, probed.width));
+        const height = even((width * probed.height) / probed.width);
+        const filename = `${videoId}-poster-${Date.now()}.jpg`;
+        // Skip the first second, which is often black while the camera starts
+        const seekTo = probed.duration ? Math.min(1, probed.duration / 2) : 0;
+
+        try {
+            await this.renderImage(
+                ffmpeg(filePath).seekInput(seekTo).videoFilters(`scale=${width}:${height}`),
+                filename
+            );
+            return { filename, width, height };
+        } catch (error) {
+            console.warn(`Poster generation failed for video ${videoId}:`, error);
+            return undefined;
+        }
+    }
+
+    private static async renderSprite(videoId: string, filePath: string, probed: ProbedVideo): Promise<VideoSprite | undefined> {
+        if (!probed.width || !probed.height || !probed.duration) return undefined;
+
+        const plan = this.planSprite(probed.duration, probed.width, probed.height);
+        const filename = `${videoId}-sprite-${Date.now()}.jpg`;
+
+        try {
+            await this.renderImage(
+                ffmpeg(filePath).videoFilters([
+                    `fps=1/${plan.intervalSeconds}`,
+                    `scale=${plan.frameWidth}:${plan.frameHeight}`,
+                    `tile=${plan.columns}x${plan.rows}`
+                ]),
+                filename
+            );
+            return { filename, ...plan };
+        } catch (error) {
+            console.warn(`Sprite generation failed for video ${videoId}:`, error);
+            return undefined;
+        }
+    }
+
+    private static async renderImage(command: ReturnType<typeof ffmpeg>, filename: string): Promise<void> {
+        await fs.promises.mkdir(this.thumbnailDir, { recursive: true });
+        await new Promise<void>((resolve, reject) => {
+            command
+                .noAudio()
+                .outputOptions(['-frames:v 1', '-q:v 4'])
+                .on('error', (err) => reject(err))
+                .on('end', () => resolve())
+                .save(this.thumbnailPath(filename));
+        });
+    }
+}
@@ -1,48 +1,62 @@
 import fs from 'fs';
 import path from 'path';
-import { randomUUID } from 'crypto';
-import { VideoMetadata, VideoUploadInput } from '../types';
-import { cloudStorageService } from './cloudStorageService';
+import { createHash, randomUUID } from 'crypto';
+import { TranscodePreset, VideoMetadata, VideoUploadCreateInput, VideoUploadInput } from '../types';
+import { StorageService } from './storage';
+import { VideoAssetService } from './videoAssetService';
+import { EvidenceClipService, EvidenceCutter, EvidencePlan } from './evidenceClipService';
 import { InterviewSession } from '../models/InterviewSession';
-import ffmpeg from 'fluent-ffmpeg';
-// eslint-disable-next-line @typescript-eslint/ban-ts-comment
-// @ts-ignore
-import ffmpegStatic from 'ffmpeg-static';
-
-try {
-  if (ffmpegStatic) {
-    ffmpeg.setFfmpegPath(ffmpegStatic as string);
-  }
-} catch {
-  // rely on system ffmpeg if available
+import { VideoUpload, VideoUploadDocument, VideoUploadStatus } from '../models/VideoUpload';
+import { ChecksumMismatchError, ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import ffmpeg from '../utils/ffmpeg';
+import { envInt } from '../utils/concurrency';
+
+// Where an upload stands; offset counts the bytes received without gaps from the start of the file
+export interface UploadProgress {
+  uploadId: string;
+  status: VideoUploadStatus;
+  offset: number;
+  totalSize?: number;
+  chunkSize?: number;
+  totalChunks: number;
+  chunksReceived: number;
+  missingChunks: number[];
+  videoId?: string;
+  error?: string;
 }
 
-export interface VideoChunk {
-  chunkIndex: number;
-  totalChunks: number;
-  buffer: Buffer;
-  filename: string;
-  mimeType: string;
+export interface TranscodeProfile {
+  maxHeight: number;
+  videoBitrate: string;
+  audioBitrate: string;
 }
 
-export interface VideoUploadSession {
-  sessionId: string;
-  candidateId: string;
-  chunks: Map<number, VideoChunk>;
-  totalChunks: number;
-  filename: string;
-  mimeType: string;
-  createdAt: Date;
-  lastUpdated: Date;
+// Bitrate ladder for recording transcodes; recordings are never upscaled past their own height
+export const TRANSCODE_PRESETS: Record<TranscodePreset, TranscodeProfile> = {
+  low: { maxHeight: 480, videoBitrate: '500k', audioBitrate: '64k' },
+  medium: { maxHeight: 720, videoBitrate: '1200k', audioBitrate: '96k' },
+  high: { maxHeight: 1080, videoBitrate: '2500k', audioBitrate: '128k' }
+};
+
+export interface TranscodeResult {
+  // The stored recording after the job, whether or not it was replaced
+  filePath: string;
+  originalSize: number;
+  outputSize: number;
+  // False when the transcoded file came out larger and the original was kept
+  replaced: boolean;
 }
 
-export class VideoStorageService {
-  private uploadSessions: Map<string, VideoUploadSession> = new Map();
+// Stills are embedded in PDF reports, so keep them small
+const EVIDENCE_STILL_MAX_WIDTH = 640;
+
+export class VideoStorageService implements EvidenceCutter {
   private readonly uploadDir: string;
   private readonly tempDir: string;
   // Max per-chunk size (bytes). Keep in sync with multer limit in routes.
   private readonly maxChunkSize = Math.max(1, Math.floor(Number(process.env.UPLOAD_MAX_CHUNK_MB || 10))) * 1024 * 1024; // default 10MB
-  private readonly sessionTimeout = 30 * 60 * 1000; // 30 minutes
+  // Unfinished uploads are kept long enough to resume after a restart or a browser reload
+  private readonly uploadTtlMs = envInt('UPLOAD_SESSION_TTL_HOURS', 24) * 60 * 60 * 1000;
 
   constructor() {
     this.uploadDir = path.join(process.cwd(), 'uploads', 'videos');
@@ -61,39 +75,30 @@ export class VideoStorageService {
 
   private startCleanupTimer(): void {
     setInterval(() => {
-      this.cleanupExpiredSessions();
-    }, 5 * 60 * 1000); // Run every 5 minutes
+      this.cleanupExpiredUploads().catch(error => console.error('Upload cleanup failed:', error));
+    }, 5 * 60 * 1000).unref(); // Run every 5 minutes
   }
 
-  private cleanupExpiredSessions(): void {
-    const now = Date.now();
-    for (const [sessionKey, session] of this.uploadSessions.entries()) {
-      if (now - session.lastUpdated.getTime() > this.sessionTimeout) {
-        this.cleanupSession(sessionKey);
-      }
+  private async cleanupExpiredUploads(): Promise<void> {
+    const cutoff = new Date(Date.now() - this.uploadTtlMs);
+    const expired = await VideoUpload.find({ status: 'uploading', lastActivityAt: { $lt: cutoff } });
+    for (const upload of expired) {
+      await this.removeChunks(upload.uploadId);
+      await upload.deleteOne();
     }
   }
 
-  private cleanupSession(sessionKey: string): void {
-    const session = this.uploadSessions.get(sessionKey);
-    if (session) {
-      // Clean up temporary chunk files
-      for (const chunk of session.chunks.values()) {
-        const tempPath = this.getTempChunkPath(sessionKey, chunk.chunkIndex);
-        if (fs.existsSync(tempPath)) {
-          fs.unlinkSync(tempPath);
-        }
-      }
-      this.uploadSessions.delete(sessionKey);
-    }
+  private async removeChunks(uploadId: string): Promise<void> {
+    await fs.promises.rm(this.getChunkDir(uploadId), { recursive: true, force: true });
   }
 
-  private getSessionKey(sessionId: string, candidateId: string): string {
-    return `${sessionId}-${candidateId}`;
+  // Chunks are stored under their SHA-256, so a retried chunk is written once
+  private getChunkDir(uploadId: string): string {
+    return path.join(this.tempDir, path.basename(uploadId));
   }
 
-  private getTempChunkPath(sessionKey: string, chunkIndex: number): string {
-    return path.join(this.tempDir, `${sessionKey}-chunk-${chunkIndex}`);
+  private getChunkPath(uploadId: string, sha256: string): string {
+    return path.join(this.getChunkDir(uploadId), sha256);
   }
 
   private getFinalVideoPath(videoId: string, filename: string): string {
@@ -118,56 +123,225 @@ export class VideoStorageService {
   }
 
   /**
-   * Initialize or get existing upload session
+   * Find the stored file for a recording, preferring MP4 when several formats exist
    */
-  public initializeUploadSession(
-    sessionId: string,
-    candidateId: string,
-    totalChunks: number,
-    filename: string,
-    mimeType: string
-  ): VideoUploadSession {
-    const sessionKey = this.getSessionKey(sessionId, candidateId);
-    
-    let session = this.uploadSessions.get(sessionKey);
-    if (!session) {
-      session = {
-        sessionId,
-        candidateId,
-        chunks: new Map(),
-        totalChunks,
-        filename,
-        mimeType,
-        createdAt: new Date(),
-        lastUpdated: new Date()
-      };
-      this.uploadSessions.set(sessionKey, session);
-    } else {
-      session.lastUpdated = new Date();
+  private async findVideoFile(videoId: string): Promise<string | null> {
+    const files = await fs.promises.readdir(this.uploadDir);
+    const candidates = files.filter(file => file.startsWith(videoId));
+    const priority = ['.mp4', '.webm', '.mov', '.avi'];
+    for (const ext of priority) {
+      const found = candidates.find(f => f.toLowerCase().endsWith(ext));
+      if (found) return found;
+    }
+    return candidates[0] ?? null;
+  }
+
+  /**
+   * Re-encode a locally stored recording with a preset and swap it in for the original.
+   * onProgress receives whole percentages; if it rejects, ffmpeg is stopped and the original is kept.
+   */
+  public async transcodeVideo(
+    videoId: string,
+    preset: TranscodePreset,
+    onProgress: (percent: number) => Promise<void>
+  ): Promise<TranscodeResult> {
+    const sourceFile = await this.findVideoFile(videoId);
+    if (!sourceFile) {
+      throw new NotFoundError('Recording file');
     }
 
-    return session;
+    const sourcePath = path.join(this.uploadDir, sourceFile);
+    const outputPath = path.join(this.tempDir, `${videoId}-${preset}-${randomUUID()}.mp4`);
+    const profile = TRANSCODE_PRESETS[preset];
+    const originalSize = (await fs.promises.stat(sourcePath)).size;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        let reported = 0;
+        let reporting = false;
+        let progressError: unknown = null;
+
+        const command = ffmpeg(sourcePath)
+          .videoCodec('libx264')
+          .audioCodec('aac')
+          .videoBitrate(profile.videoBitrate)
+          .audioBitrate(profile.audioBitrate)
+          .videoFilters(`scale=-2:'min(${profile.maxHeight},ih)'`)
+          .outputOptions([
+            '-movflags +faststart',
+            '-preset veryfast',
+            '-pix_fmt yuv420p'
+          ])
+          .on('progress', (info) => {
+            // percent is missing when ffmpeg cannot read the duration (common for browser WebM)
+            const percent = Math.min(99, Math.floor(info.percent ?? 0));
+            if (reporting || progressError || percent < reported + 5) return;
+
+            reported = percent;
+            reporting = true;
+            onProgress(percent)
+              .catch(error => {
+                progressError = error;
+                command.kill('SIGKILL');
+              })
+              .finally(() => {
+                reporting = false;
+              });
+          })
+          .on('error', (err) => reject(progressError ?? err))
+          .on('end', () => (progressError ? reject(progressError) : resolve()));
+
+        command.save(outputPath);
+      });
+
+      const outputSize = (await fs.promises.stat(outputPath)).size;
+      if (outputSize >= originalSize) {
+        return { filePath: sourcePath, originalSize, outputSize, replaced: false };
+      }
+
+      const finalPath = path.join(this.uploadDir, `${videoId}.mp4`);
+      await fs.promises.rename(outputPath, finalPath);
+      if (sourcePath !== finalPath) {
+        await fs.promises.unlink(sourcePath).catch(() => undefined);
+      }
+
+      return { filePath: finalPath, originalSize, outputSize, replaced: true };
+    } finally {
+      await fs.promises.unlink(outputPath).catch(() => undefined);
+    }
   }
 
   /**
-   * Upload a video chunk
+   * Cut a short clip and a single still out of a recording for a suspicious event
+   */
+  public async cutEvidence(sourcePath: string, plan: EvidencePlan, clipPath: string, stillPath: string): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(sourcePath)
+        .seekInput(plan.startSeconds)
+        .duration(plan.durationSeconds)
+        .videoCodec('libx264')
+        .audioCodec('aac')
+        .outputOptions([
+          '-movflags +faststart',
+          '-preset veryfast',
+          '-pix_fmt yuv420p'
+        ])
+        .on('error', (err) => reject(err))
+        .on('end', () => resolve())
+        .save(clipPath);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(sourcePath)
+        .seekInput(plan.stillSeconds)
+        .noAudio()
+        .videoFilters(`scale='min(${EVIDENCE_STILL_MAX_WIDTH},iw)':-2`)
+        .outputOptions(['-frames:v 1', '-q:v 3'])
+        .on('error', (err) => reject(err))
+        .on('end', () => resolve())
+        .save(stillPath);
+    });
+  }
+
+  /**
+   * Open an offset-based upload, or resume the open one for the same file.
+   * The upload is addressed by the whole-file checksum, so a client that lost its state
+   * (e.g. after a browser reload) gets its previous upload and offset back.
+   */
+  public async createUpload(input: VideoUploadCreateInput): Promise<{ created: boolean; progress: UploadProgress }> {
+    if (input.chunkSize > this.maxChunkSize) {
+      throw new ValidationError(`Chunk size exceeds maximum allowed size of ${this.maxChunkSize} bytes`);
+    }
+
+    const open = await VideoUpload.findOpen(input.sessionId, input.candidateId);
+    if (open) {
+      if (open.checksum === input.checksum && open.totalSize === input.totalSize && open.chunkSize === input.chunkSize) {
+        return { created: false, progress: this.toProgress(open) };
+      }
+      // A different recording replaces the unfinished one
+      await this.discardUpload(open);
+    }
+
+    const finished = await VideoUpload.findOne({
+      sessionId: input.sessionId,
+      candidateId: input.candidateId,
+      checksum: input.checksum,
+      status: { $in: ['processing', 'completed'] }
+    });
+    if (finished) {
+      return { created: false, progress: this.toProgress(finished) };
+    }
+
+    const upload = await VideoUpload.create({
+      uploadId: randomUUID(),
+      sessionId: input.sessionId,
+      candidateId: input.candidateId,
+      filename: input.filename,
+      mimeType: input.mimeType,
+      totalChunks: Math.ceil(input.totalSize / input.chunkSize),
+      chunkSize: input.chunkSize,
+      totalSize: input.totalSize,
+      checksum: input.checksum,
+      chunks: [],
+      ...(input.recordingStartedAt ? { recordingStartedAt: input.recordingStartedAt } : {}),
+      status: 'uploading',
+      lastActivityAt: new Date()
+    });
+
+    return { created: true, progress: this.toProgress(upload) };
+  }
+
+  public async getUpload(uploadId: string): Promise<UploadProgress> {
+    const upload = await VideoUpload.findByUploadId(uploadId);
+    if (!upload) {
+      throw new NotFoundError('Upload');
+    }
+    return this.toProgress(upload);
+  }
+
+  /**
+   * Append the bytes at the current offset of an upload (tus-style PATCH).
+   * The offset must match what the server holds, and the chunk must match its SHA-256.
+   */
+  public async appendChunk(uploadId: string, offset: number, buffer: Buffer, sha256: string): Promise<UploadProgress> {
+    const upload = await VideoUpload.findByUploadId(uploadId);
+    if (!upload) {
+      throw new NotFoundError('Upload');
+    }
+    if (!upload.chunkSize || !upload.totalSize) {
+      throw new ValidationError('Upload was not opened with a declared size');
+    }
+
+    const current = this.contiguousOffset(upload);
+    if (upload.status !== 'uploading') {
+      // A retry of the final chunk after the upload completed
+      if (offset + buffer.length === upload.totalSize && current === upload.totalSize) {
+        return this.toProgress(upload);
+      }
+      throw new ConflictError('Upload is no longer accepting chunks');
+    }
+    if (offset !== current) {
+      throw new ConflictError(`Upload offset is ${current}, not ${offset}`);
+    }
+
+    const expectedLength = Math.min(upload.chunkSize, upload.totalSize - offset);
+    if (buffer.length !== expectedLength) {
+      throw new ValidationError(`Expected ${expectedLength} bytes at offset ${offset}`);
+    }
+
+    const stored = await this.storeChunk(upload, offset / upload.chunkSize, buffer, sha256);
+    const finished = await this.finalizeIfComplete(stored);
+    return this.toProgress(finished);
+  }
+
+  /**
+   * Upload a video chunk by index (multipart protocol); the upload is opened on the first chunk
    */
   public async uploadChunk(
     uploadData: VideoUploadInput,
     buffer: Buffer
   ): Promise<{ success: boolean; isComplete: boolean; message: string }> {
     try {
-      const sessionKey = this.getSessionKey(uploadData.sessionId, uploadData.candidateId);
-      
-      // Initialize session if it doesn't exist
-      const session = this.initializeUploadSession(
-        uploadData.sessionId,
-        uploadData.candidateId,
-        uploadData.totalChunks,
-        uploadData.filename,
-        uploadData.mimeType
-      );
-
       // Validate chunk
       if (uploadData.chunkIndex >= uploadData.totalChunks) {
         throw new Error('Invalid chunk index');
@@ -177,56 +351,45 @@ export class VideoStorageService {
         throw new Error('Chunk size exceeds maximum allowed size');
       }
 
-      // Store chunk temporarily
-      const tempPath = this.getTempChunkPath(sessionKey, uploadData.chunkIndex);
-      await fs.promises.writeFile(tempPath, buffer);
-
-      // Update session
-      session.chunks.set(uploadData.chunkIndex, {
-        chunkIndex: uploadData.chunkIndex,
-        totalChunks: uploadData.totalChunks,
-        buffer,
-        filename: uploadData.filename,
-        mimeType: uploadData.mimeType
-      });
-      session.lastUpdated = new Date();
-
-      // Check if all chunks are received
-      const isComplete = session.chunks.size === session.totalChunks;
-
-      if (isComplete) {
-        const asyncProcessing = process.env.ASYNC_VIDEO_PROCESSING === 'true' || process.env.NODE_ENV === 'production';
-        if (asyncProcessing) {
-          // Process in background to avoid blocking request in production
-          setImmediate(async () => {
-            try {
-              await this.assembleVideo(session);
-            } catch (e) {
-              console.error('Async video assembly failed:', e);
-            } finally {
-              this.cleanupSession(sessionKey);
-            }
-          });
-          return {
-            success: true,
-            isComplete: true,
-            message: 'Upload complete. Processing recording in background.'
-          };
-        } else {
-          const videoMetadata = await this.assembleVideo(session);
-          this.cleanupSession(sessionKey);
-          return {
-            success: true,
-            isComplete: true,
-            message: `Video uploaded successfully. Video ID: ${videoMetadata.videoId}`
-          };
-        }
+      const upload = await VideoUpload.findOpen(uploadData.sessionId, uploadData.candidateId)
+        ?? await VideoUpload.create({
+          uploadId: randomUUID(),
+          sessionId: uploadData.sessionId,
+          candidateId: uploadData.candidateId,
+          filename: uploadData.filename,
+          mimeType: uploadData.mimeType,
+          totalChunks: uploadData.totalChunks,
+          ...(uploadData.checksum ? { checksum: uploadData.checksum } : {}),
+          chunks: [],
+          status: 'uploading',
+          lastActivityAt: new Date()
+        });
+
+      if (uploadData.totalChunks !== upload.totalChunks) {
+        throw new Error(`Upload was opened with ${upload.totalChunks} chunks, not ${uploadData.totalChunks}`);
+      }
+      if (uploadData.recordingStartedAt && !upload.recordingStartedAt) {
+        upload.recordingStartedAt = uploadData.recordingStartedAt;
+        await VideoUpload.updateOne({ uploadId: upload.uploadId }, { $set: { recordingStartedAt: uploadData.recordingStartedAt } });
+      }
+
+      const stored = await this.storeChunk(upload, uploadData.chunkIndex, buffer, uploadData.chunkChecksum);
+      const finished = await this.finalizeIfComplete(stored);
+
+      if (finished.status === 'uploading') {
+        return {
+          success: true,
+          isComplete: false,
+          message: `Chunk ${uploadData.chunkIndex + 1}/${uploadData.totalChunks} uploaded successfully`
+        };
       }
 
       return {
         success: true,
-        isComplete: false,
-        message: `Chunk ${uploadData.chunkIndex + 1}/${uploadData.totalChunks} uploaded successfully`
+        isComplete: true,
+        message: finished.status === 'completed'
+          ? `Video uploaded successfully. Video ID: ${finished.videoId}`
+          : 'Upload complete. Processing recording in background.'
       };
 
     } catch (error) {
@@ -240,36 +403,198 @@ export class VideoStorageService {
   }
 
   /**
-   * Assemble video from chunks
+   * Verify a chunk and store it under its SHA-256. Re-sending a received chunk is a no-op.
+   */
+  private async storeChunk(
+    upload: VideoUploadDocument,
+    index: number,
+    buffer: Buffer,
+    expectedSha256?: string
+  ): Promise<VideoUploadDocument> {
+    const sha256 = createHash('sha256').update(buffer).digest('hex');
+    if (expectedSha256 && expectedSha256 !== sha256) {
+      throw new ChecksumMismatchError(`Chunk ${index} checksum mismatch`);
+    }
+
+    const received = upload.chunks.find(chunk => chunk.index === index);
+    if (received) {
+      if (received.sha256 !== sha256) {
+        throw new ConflictError(`Chunk ${index} was already received with different content`);
+      }
+      return upload;
+    }
+
+    const chunkPath = this.getChunkPath(upload.uploadId, sha256);
+    if (!fs.existsSync(chunkPath)) {
+      await fs.promises.mkdir(this.getChunkDir(upload.uploadId), { recursive: true });
+      // Write beside the final name so a crash never leaves a partial chunk under a valid hash
+      const partialPath = `${chunkPath}.${randomUUID()}.part`;
+      await fs.promises.writeFile(partialPath, buffer);
+      await fs.promises.rename(partialPath, chunkPath);
+    }
+
+    const updated = await VideoUpload.addChunk(upload.uploadId, { index, size: buffer.length, sha256 });
+    if (updated) {
+      return updated;
+    }
+
+    // Another request recorded this chunk first, or the upload closed meanwhile
+    const latest = await VideoUpload.findByUploadId(upload.uploadId);
+    const concurrent = latest?.chunks.find(chunk => chunk.index === index);
+    if (latest && concurrent?.sha256 === sha256) {
+      return latest;
+    }
+    throw new ConflictError('Upload is no longer accepting chunks');
+  }
+
+  /**
+   * Once every chunk is in, join and verify the file, then process it (in the background in production)
    */
-  private async assembleVideo(session: VideoUploadSession): Promise<VideoMetadata> {
-  const videoId = randomUUID();
-  const finalPath = this.getFinalVideoPath(videoId, session.filename);
-    const sessionKey = this.getSessionKey(session.sessionId, session.candidateId);
+  private async finalizeIfComplete(upload: VideoUploadDocument): Promise<VideoUploadDocument> {
+    if (upload.chunks.length < upload.totalChunks) {
+      return upload;
+    }
+
+    // Only one request may finalize an upload
+    const claimed = await VideoUpload.findOneAndUpdate(
+      { uploadId: upload.uploadId, status: 'uploading' },
+      { $set: { status: 'processing', lastActivityAt: new Date() } },
+      { new: true }
+    );
+    if (!claimed) {
+      return (await VideoUpload.findByUploadId(upload.uploadId)) ?? upload;
+    }
+
+    let assembled: { videoId: string; finalPath: string };
+    try {
+      assembled = await this.concatenateChunks(claimed);
+    } catch (error) {
+      await VideoUpload.updateOne(
+        { uploadId: claimed.uploadId },
+        { $set: { status: 'failed', error: error instanceof Error ? error.message : 'Assembly failed' } }
+      );
+      throw error;
+    } finally {
+      await this.removeChunks(claimed.uploadId);
+    }
+
+    const processUpload = async (): Promise<VideoUploadStatus> => {
+      try {
+        await this.assembleVideo(claimed, assembled.videoId, assembled.finalPath);
+        await VideoUpload.updateOne({ uploadId: claimed.uploadId }, { $set: { status: 'completed', videoId: assembled.videoId } });
+        return 'completed';
+      } catch (error) {
+        await VideoUpload.updateOne(
+          { uploadId: claimed.uploadId },
+          { $set: { status: 'failed', error: error instanceof Error ? error.message : 'Processing failed' } }
+        );
+        throw error;
+      }
+    };
+
+    const asyncProcessing = process.env.ASYNC_VIDEO_PROCESSING === 'true' || process.env.NODE_ENV === 'production';
+    if (asyncProcessing) {
+      // Process in background to avoid blocking request in production
+      setImmediate(() => {
+        processUpload().catch(e => console.error('Async video assembly failed:', e));
+      });
+      claimed.set({ videoId: assembled.videoId });
+      return claimed;
+    }
+
+    claimed.set({ status: await processUpload(), videoId: assembled.videoId });
+    return claimed;
+  }
+
+  /**
+   * Join the stored chunks in order into the recording file, checking its size and SHA-256
+   */
+  private async concatenateChunks(upload: VideoUploadDocument): Promise<{ videoId: string; finalPath: string }> {
+    const videoId = randomUUID();
+    const finalPath = this.getFinalVideoPath(videoId, upload.filename);
+    const chunks = [...upload.chunks].sort((a, b) => a.index - b.index);
+    const hash = createHash('sha256');
+    let size = 0;
 
     try {
-      // Create write stream for final video
       const writeStream = fs.createWriteStream(finalPath);
+      const finished = new Promise<void>((resolve, reject) => {
+        writeStream.on('finish', () => resolve());
+        writeStream.on('error', reject);
+      });
 
-      // Write chunks in order
-      for (let i = 0; i < session.totalChunks; i++) {
-        const tempPath = this.getTempChunkPath(sessionKey, i);
-        if (fs.existsSync(tempPath)) {
-          const chunkData = await fs.promises.readFile(tempPath);
-          writeStream.write(chunkData);
-        } else {
+      for (let i = 0; i < upload.totalChunks; i++) {
+        const chunk = chunks[i];
+        if (chunk?.index !== i) {
           throw new Error(`Missing chunk ${i}`);
         }
+        const chunkData = await fs.promises.readFile(this.getChunkPath(upload.uploadId, chunk.sha256));
+        hash.update(chunkData);
+        size += chunkData.length;
+        if (!writeStream.write(chunkData)) {
+          await new Promise<void>(resolve => writeStream.once('drain', () => resolve()));
+        }
       }
 
       writeStream.end();
+      await finished;
 
-      // Wait for write to complete
-      await new Promise<void>((resolve, reject) => {
-        writeStream.on('finish', () => resolve());
-        writeStream.on('error', reject);
-      });
+      if (upload.totalSize !== undefined && size !== upload.totalSize) {
+        throw new ValidationError(`Upload size is ${size} bytes, expected ${upload.totalSize}`);
+      }
+      if (upload.checksum && hash.digest('hex') !== upload.checksum) {
+        throw new ChecksumMismatchError('Upload checksum mismatch');
+      }
 
+      return { videoId, finalPath };
+    } catch (error) {
+      await fs.promises.unlink(finalPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async discardUpload(upload: VideoUploadDocument): Promise<void> {
+    await this.removeChunks(upload.uploadId);
+    await upload.deleteOne();
+  }
+
+  private contiguousOffset(upload: VideoUpload): number {
+    const sizes = new Map(upload.chunks.map(chunk => [chunk.index, chunk.size]));
+    let offset = 0;
+    for (let i = 0; sizes.has(i); i++) {
+      offset += sizes.get(i)!;
+    }
+    return offset;
+  }
+
+  private toProgress(upload: VideoUpload): UploadProgress {
+    const received = new Set(upload.chunks.map(chunk => chunk.index));
+    const missingChunks: number[] = [];
+    for (let i = 0; i < upload.totalChunks; i++) {
+      if (!received.has(i)) {
+        missingChunks.push(i);
+      }
+    }
+
+    return {
+      uploadId: upload.uploadId,
+      status: upload.status,
+      offset: this.contiguousOffset(upload),
+      ...(upload.totalSize !== undefined ? { totalSize: upload.totalSize } : {}),
+      ...(upload.chunkSize !== undefined ? { chunkSize: upload.chunkSize } : {}),
+      totalChunks: upload.totalChunks,
+      chunksReceived: received.size,
+      missingChunks,
+      ...(upload.videoId ? { videoId: upload.videoId } : {}),
+      ...(upload.error ? { error: upload.error } : {})
+    };
+  }
+
+  /**
+   * Process an assembled recording: convert, probe, cut evidence and store it
+   */
+  private async assembleVideo(upload: VideoUploadDocument, videoId: string, finalPath: string): Promise<VideoMetadata> {
+    try {
       let pathForUpload = finalPath;
       let chosenExt = path.extname(finalPath).toLowerCase();
       if (chosenExt !== '.mp4') {
@@ -290,54 +615,73 @@ export class VideoStorageService {
       // Default metadata (local storage)
       let metadata: VideoMetadata = {
         videoId,
-        sessionId: session.sessionId,
-        candidateId: session.candidateId,
+        sessionId: upload.sessionId,
+        candidateId: upload.candidateId,
         filename: `${videoId}${chosenExt}`,
-        originalName: session.filename,
-        mimeType: chosenExt === '.mp4' ? 'video/mp4' : session.mimeType,
+        originalName: upload.filename,
+        mimeType: chosenExt === '.mp4' ? 'video/mp4' : upload.mimeType,
         size: stats.size,
         uploadedAt: new Date(),
         storageUrl: `/api/videos/${videoId}`
       };
 
-      // Try upload to Cloudinary if configured
+      // Probe while the file is still local; a cloud upload removes it below
       try {
-        if (cloudStorageService.isEnabled()) {
-          const uploadRes = await cloudStorageService.uploadVideo(pathForUpload, {
-            folder: `video-interviews/recordings/${session.sessionId}`
-          });
-          metadata.storageUrl = uploadRes.url;
-          // Persist to session for history/downloads
-          await InterviewSession.findOneAndUpdate(
-            { sessionId: session.sessionId },
-            {
-              videoUrl: uploadRes.url,
-              recordingPublicId: uploadRes.publicId,
-              recordingUploadedAt: new Date()
-            }
+        const asset = await VideoAssetService.capture(videoId, upload.sessionId, pathForUpload, metadata.mimeType);
+        if (asset.duration) {
+          metadata.duration = asset.duration;
+        }
+        if (asset.width && asset.height) {
+          metadata.resolution = { width: asset.width, height: asset.height };
+        }
+      } catch (probeErr) {
+        console.error('Video probe failed; storing recording without asset metadata:', probeErr);
+      }
+
+      // Evidence around high-severity events is cut from the local file too; clips stay local
+      try {
+        await EvidenceClipService.capture(videoId, upload.sessionId, pathForUpload, {
+          duration: metadata.duration,
+          recordingStartedAt: upload.recordingStartedAt
+        }, this);
+      } catch (evidenceErr) {
+        console.error('Evidence clip extraction failed:', evidenceErr);
+      }
+
+      const recordingTiming = upload.recordingStartedAt ? { recordingStartedAt: upload.recordingStartedAt } : {};
+      // Recordings are always played through the API; remote copies are reached by redirect
+      let recordingStorage = {};
+
+      // Offload to remote storage if configured; the local driver keeps the recording where it is
+      try {
+        const driver = StorageService.driver();
+        if (driver.remote) {
+          const stored = await driver.put(
+            `recordings/${upload.sessionId}/${metadata.filename}`,
+            { filePath: pathForUpload },
+            metadata.mimeType
           );
-          // If uploaded to cloud successfully, remove local file to save disk space
+          recordingStorage = {
+            recordingStorageDriver: stored.driver,
+            recordingStorageKey: stored.key,
+            recordingUploadedAt: new Date()
+          };
+          // Stored remotely, so remove the local file to save disk space
           try { await fs.promises.unlink(pathForUpload); } catch { /* ignore */ }
-        } else {
-          // Fallback: store local file url
-          await InterviewSession.findOneAndUpdate(
-            { sessionId: session.sessionId },
-            {
-              videoUrl: metadata.storageUrl
-            }
-          );
         }
       } catch (e) {
-  console.error('Cloud upload failed, keeping local file only:', e);
-        // Keep local storage URL and still save to session
-        await InterviewSession.findOneAndUpdate(
-          { sessionId: session.sessionId },
-          {
-            videoUrl: metadata.storageUrl
-          }
-        );
+        console.error('Remote storage upload failed, keeping local file only:', e);
       }
 
+      await InterviewSession.findOneAndUpdate(
+        { sessionId: upload.sessionId },
+        {
+          videoUrl: metadata.storageUrl,
+          ...recordingStorage,
+          ...recordingTiming
+        }
+      );
+
       return metadata;
 
     } catch (error) {
@@ -349,6 +693,18 @@ export class VideoStorageService {
     }
   }
 
+  /**
+   * Signed download URL for a recording offloaded to remote storage, or null if it is kept locally
+   */
+  public async getRemoteVideoUrl(videoId: string): Promise<string | null> {
+    const session = await InterviewSession.findOne({ videoUrl: `/api/videos/${videoId}` })
+      .select('recordingStorageDriver recordingStorageKey');
+    if (!session?.recordingStorageDriver || !session.recordingStorageKey) {
+      return null;
+    }
+    return StorageService.signedUrl({ driver: session.recordingStorageDriver, key: session.recordingStorageKey });
+  }
+
   /**
    * Get video stream
    */
@@ -501,6 +857,17 @@ export class VideoStorageService {
         return true;
       }
 
+      // Offloaded recordings have no local file left
+      const session = await InterviewSession.findOne({ videoUrl: `/api/videos/${videoId}` });
+      if (session?.recordingStorageDriver && session.recordingStorageKey) {
+        await StorageService.remove({ driver: session.recordingStorageDriver, key: session.recordingStorageKey });
+        await InterviewSession.updateOne(
+          { sessionId: session.sessionId },
+          { $unset: { recordingStorageDriver: 1, recordingStorageKey: 1 } }
+        );
+        return true;
+      }
+
       return false;
     } catch (error) {
       console.error('Error deleting video:', error);
@@ -509,56 +876,46 @@ export class VideoStorageService {
   }
 
   /**
-   * Get upload session status
+   * Get the status of the open upload for a session's candidate
    */
-  public getUploadStatus(sessionId: string, candidateId: string): {
+  public async getUploadStatus(sessionId: string, candidateId: string): Promise<{
     exists: boolean;
+    uploadId?: string;
+    offset: number;
     chunksReceived: number;
     totalChunks: number;
     progress: number;
-  } {
-    const sessionKey = this.getSessionKey(sessionId, candidateId);
-    const session = this.uploadSessions.get(sessionKey);
+  }> {
+    const upload = await VideoUpload.findOpen(sessionId, candidateId);
 
-    if (!session) {
+    if (!upload) {
       return {
         exists: false,
+        offset: 0,
         chunksReceived: 0,
         totalChunks: 0,
         progress: 0
       };
     }
 
-    const chunksReceived = session.chunks.size;
-    const progress = (chunksReceived / session.totalChunks) * 100;
+    const { uploadId, offset, chunksReceived, totalChunks } = this.toProgress(upload);
 
     return {
       exists: true,
+      uploadId,
+      offset,
       chunksReceived,
-      totalChunks: session.totalChunks,
-      progress
+      totalChunks,
+      progress: (chunksReceived / totalChunks) * 100
     };
   }
 
   /**
    * Resume upload - get missing chunks
    */
-  public getMissingChunks(sessionId: string, candidateId: string): number[] {
-    const sessionKey = this.getSessionKey(sessionId, candidateId);
-    const session = this.uploadSessions.get(sessionKey);
-
-    if (!session) {
-      return [];
-    }
-
-    const missingChunks: number[] = [];
-    for (let i = 0; i < session.totalChunks; i++) {
-      if (!session.chunks.has(i)) {
-        missingChunks.push(i);
-      }
-    }
-
-    return missingChunks;
+  public async getMissingChunks(sessionId: string, candidateId: string): Promise<number[]> {
+    const upload = await VideoUpload.findOpen(sessionId, candidateId);
+    return upload ? this.toProgress(upload).missingChunks : [];
   }
 }
 
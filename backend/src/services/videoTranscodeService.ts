@@ -0,0 +1,158 @@
+import { v4 as uuidv4 } from 'uuid';
+import { InterviewSession } from '../models/InterviewSession';
+import { TranscodeJob, TranscodeJobDocument, TranscodeJobStatus } from '../models/TranscodeJob';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { TranscodePreset } from '../types';
+import { JobContext, PersistentJobQueue } from './jobQueue';
+import { videoStorageService } from './videoStorageService';
+import { VideoAssetService } from './videoAssetService';
+import { envInt } from '../utils/concurrency';
+
+export interface TranscodeJobStatusView {
+    jobId: string;
+    videoId: string;
+    preset: TranscodePreset;
+    status: TranscodeJobStatus;
+    progress: number;
+    message?: string;
+    error?: string;
+    attempts: number;
+    maxAttempts: number;
+    nextRunAt?: Date;
+    originalSize?: number;
+    outputSize?: number;
+    completedAt?: Date;
+}
+
+export class VideoTranscodeService {
+    // ffmpeg saturates a core per job, so transcodes run one at a time by default
+    private static readonly jobQueue = new PersistentJobQueue<TranscodeJobDocument>(
+        {
+            label: 'Recording transcode',
+            getId: job => job.jobId,
+            claimNext: (workerId, leaseMs) => TranscodeJob.claimNext(workerId, leaseMs),
+            updateLeased: (jobId, workerId, update) => TranscodeJob.updateLeased(jobId, workerId, update),
+            cancel: jobId => TranscodeJob.findOneAndUpdate(
+                { jobId, status: { $in: ['pending', 'processing'] } },
+                {
+                    $set: { status: 'cancelled', cancelledAt: new Date(), message: 'Recording transcode cancelled' },
+                    $unset: { lockedBy: 1, lockedAt: 1 }
+                },
+                { new: true }
+            )
+        },
+        (job, context) => VideoTranscodeService.processTranscode(job, context),
+        { concurrency: envInt('VIDEO_TRANSCODE_CONCURRENCY', 1) }
+    );
+
+    /**
+     * Queue a transcode of a locally stored recording. Only one job per recording may be active.
+     */
+    static async enqueue(videoId: string, preset: TranscodePreset, requestedBy: string): Promise<TranscodeJobStatusView> {
+        const session = await InterviewSession.findOne({ videoUrl: `/api/videos/${videoId}` }).select('sessionId');
+        if (!session) {
+            throw new NotFoundError('Video');
+        }
+
+        if (await TranscodeJob.findActiveForVideo(videoId)) {
+            throw new ConflictError('A transcode is already queued or running for this recording');
+        }
+
+        const job = await TranscodeJob.create({
+            jobId: uuidv4(),
+            videoId,
+            sessionId: session.sessionId,
+            preset,
+            requestedBy,
+            status: 'pending',
+            progress: 0,
+            message: 'Waiting for a transcode worker',
+            maxAttempts: envInt('VIDEO_TRANSCODE_MAX_ATTEMPTS', 2),
+            nextRunAt: new Date()
+        });
+
+        this.jobQueue.poke();
+        return this.toStatus(job);
+    }
+
+    static async getJob(jobId: string): Promise<TranscodeJobStatusView | null> {
+        const job = await TranscodeJob.findByJobId(jobId);
+        return job ? this.toStatus(job) : null;
+    }
+
+    /**
+     * Cancel a pending or running transcode; the stored recording is left untouched
+     */
+    static async cancel(jobId: string): Promise<TranscodeJobStatusView> {
+        const job = await this.jobQueue.cancel(jobId);
+
+        if (!job) {
+            const existing = await TranscodeJob.findByJobId(jobId);
+            if (!existing) {
+                throw new NotFoundError(`Transcode job ${jobId}`);
+            }
+            throw new ConflictError(`Recording transcode already ${existing.status}`);
+        }
+
+        return this.toStatus(job);
+    }
+
+    /**
+     * Start the background worker that picks up queued and abandoned transcodes
+     */
+    static startTranscodeWorker(): void {
+        this.jobQueue.start();
+    }
+
+    static stopTranscodeWorker(): void {
+        this.jobQueue.stop();
+    }
+
+    /**
+     * Transcode one recording. A retry starts over from the stored file, which is
+     * only replaced once a complete, smaller output exists.
+     */
+    private static async processTranscode(job: TranscodeJobDocument, context: JobContext): Promise<void> {
+        await context.checkpoint(5, `Transcoding recording (${job.preset})`);
+
+        const result = await videoStorageService.transcodeVideo(job.videoId, job.preset, percent =>
+            context.checkpoint(5 + Math.round(percent * 0.9), `Transcoding recording (${percent}%)`)
+        );
+
+        await context.checkpoint(
+            98,
+            result.replaced ? 'Stored recording replaced' : 'Transcoded file was not smaller; original kept'
+        );
+        await TranscodeJob.updateOne(
+            { jobId: job.jobId },
+            { $set: { originalSize: result.originalSize, outputSize: result.outputSize } }
+        );
+
+        if (result.replaced) {
+            // The swap already happened, so a failed probe must not retry the transcode
+            try {
+                await VideoAssetService.capture(job.videoId, job.sessionId, result.filePath, 'video/mp4');
+            } catch (error) {
+                console.error(`Failed to refresh asset metadata for video ${job.videoId}:`, error);
+            }
+        }
+    }
+
+    private static toStatus(job: TranscodeJobDocument): TranscodeJobStatusView {
+        return {
+            jobId: job.jobId,
+            videoId: job.videoId,
+            preset: job.preset,
+            status: job.status,
+            progress: job.progress,
+            ...(job.message ? { message: job.message } : {}),
+            ...(job.error ? { error: job.error } : {}),
+            attempts: job.attempts,
+            maxAttempts: job.maxAttempts,
+            ...(job.status === 'pending' ? { nextRunAt: job.nextRunAt } : {}),
+            ...(job.originalSize !== undefined ? { originalSize: job.originalSize } : {}),
+            ...(job.outputSize !== undefined ? { outputSize: job.outputSize } : {}),
+            ...(job.completedAt ? { completedAt: job.completedAt } : {})
+        };
+    }
+}
@@ -20,20 +20,59 @@ import {
   SessionControlUpdatePayload,
   WebSocketErrorPayload,
   ActiveSession,
+  SessionPresence,
   WebSocketStats
 } from '../types/websocket';
-import { JWTPayload, UserRole } from '../types';
+import { JWTPayload, UserRole, SessionStatus, AuditAction, isAdminRole } from '../types';
 import { InterviewSession } from '../models/InterviewSession';
+import { SessionAccessService } from './sessionAccessService';
+import { AuditService } from './auditService';
+import { TokenService, Revocation } from './tokenService';
+import { InstancePresence, MemoryPresenceRegistry, PresenceRegistry, RedisPresenceRegistry } from './presenceRegistry';
+import { RedisSocketAdapter, createRedisSocketAdapter } from './redisSocketAdapter';
+import { RedisClient } from '../utils/redisClient';
+
+// Relayed to the other instances so they drop their own sockets for a revoked sign-in
+const TOKEN_REVOKED_EVENT = 'token_revoked';
+
+export interface WebSocketServiceOptions {
+  // Instances sharing a Redis server relay broadcasts and presence to each other
+  redisUrl?: string | undefined;
+}
+
+// Every socket of a user joins this room, on whichever instance it is connected to
+const userRoom = (userId: string) => `user:${userId}`;
+const interviewersRoom = (sessionId: string) => `${sessionId}:interviewers`;
 
 export class WebSocketService {
   private io: SocketIOServer;
+  // Sessions with participants connected to this instance
   private activeSessions: Map<string, ActiveSession> = new Map();
-  private userSockets: Map<string, Socket> = new Map();
+  private readonly presence: PresenceRegistry;
+  private readonly redisClients: RedisClient[] = [];
+  // Presence reports are written one after another so an older one never lands last
+  private publishing: Promise<void> = Promise.resolve();
+  private stopRevocationListener: () => void;
   private startTime: Date = new Date();
   private heartbeatInterval: NodeJS.Timeout | null = null;
+  private reportedSessions = new Set<string>();
+  private closed = false;
+
+  constructor(server: HTTPServer, options: WebSocketServiceOptions = {}) {
+    const redisUrl = options.redisUrl ?? process.env.REDIS_URL;
+    let adapter: ReturnType<typeof createRedisSocketAdapter> | undefined;
+    if (redisUrl) {
+      const publisher = new RedisClient(redisUrl);
+      const subscriber = new RedisClient(redisUrl);
+      this.redisClients.push(publisher, subscriber);
+      this.presence = new RedisPresenceRegistry(publisher);
+      adapter = createRedisSocketAdapter(publisher, subscriber);
+    } else {
+      this.presence = new MemoryPresenceRegistry();
+    }
 
-  constructor(server: HTTPServer) {
     this.io = new SocketIOServer(server, {
+      ...(adapter ? { adapter } : {}),
       cors: {
         origin: process.env.FRONTEND_URL || "http://localhost:3000",
         methods: ["GET", "POST"],
@@ -49,6 +88,17 @@ export class WebSocketService {
     this.setupMiddleware();
     this.setupEventHandlers();
     this.startHeartbeat();
+
+    // Revoked tokens lose their open connections, not only future handshakes
+    this.stopRevocationListener = TokenService.onRevoked(revocation => {
+      this.disconnectRevoked(revocation);
+      if (this.redisClients.length > 0) {
+        this.io.serverSideEmit(TOKEN_REVOKED_EVENT, revocation);
+      }
+    });
+    this.io.on(TOKEN_REVOKED_EVENT, (revocation: Revocation) => {
+      this.disconnectRevoked({ ...revocation, revokedAt: new Date(revocation.revokedAt) });
+    });
   }
 
   private startHeartbeat(): void {
@@ -57,7 +107,9 @@ export class WebSocketService {
       clearInterval(this.heartbeatInterval);
     }
     this.heartbeatInterval = setInterval(() => {
-      this.io.emit('heartbeat', { timestamp: new Date(), serverUptime: Date.now() - this.startTime.getTime() });
+      this.io.local.emit('heartbeat', { timestamp: new Date(), serverUptime: Date.now() - this.startTime.getTime() });
+      // Keeps this instance's presence report from expiring
+      this.publishPresence();
     }, 30000);
   }
 
@@ -71,7 +123,14 @@ export class WebSocketService {
           return next(new Error('Authentication token required'));
         }
 
-        const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JWTPayload;
+        const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JWTPayload & jwt.JwtPayload;
+        // Access tokens carry no audience; one that does was issued for something else
+        if (decoded.aud !== undefined) {
+          return next(new Error('Invalid authentication token'));
+        }
+        if (await TokenService.isRevoked(decoded)) {
+          return next(new Error('Authentication token has been revoked'));
+        }
         socket.data.user = decoded;
         
         next();
@@ -84,7 +143,8 @@ export class WebSocketService {
 
   private setupEventHandlers(): void {
     this.io.on('connection', (socket: Socket) => {
-      this.userSockets.set(socket.data.user.userId, socket);
+      socket.join(userRoom(socket.data.user.userId));
+      this.publishPresence();
 
       // Handle session joining
       socket.on(WebSocketEventType.JOIN_SESSION, (payload: JoinSessionPayload) => {
@@ -179,16 +239,35 @@ export class WebSocketService {
           this.emitError(socket, 'UNAUTHORIZED', 'Not authorized to join as candidate');
           return;
         }
+
+        // Scheduled sessions open only once the invitation was redeemed, and only for that candidate
+        if (session.status === SessionStatus.SCHEDULED || session.status === SessionStatus.EXPIRED) {
+          this.emitError(socket, 'SESSION_NOT_STARTED', 'Session has not been started with its invitation');
+          return;
+        }
+        if (session.scheduledStartTime && session.candidateId !== userId) {
+          this.emitError(socket, 'UNAUTHORIZED', 'Session belongs to another candidate');
+          return;
+        }
       } else if (role === WebSocketUserRole.INTERVIEWER) {
         // For interviewers, check if they have the interviewer role
-        if (socket.data.user.role !== UserRole.INTERVIEWER && socket.data.user.role !== UserRole.ADMIN) {
+        if (socket.data.user.role !== UserRole.INTERVIEWER && !isAdminRole(socket.data.user.role)) {
           this.emitError(socket, 'UNAUTHORIZED', 'Not authorized to join as interviewer');
           return;
         }
+
+        // Interviewers may only join sessions they are assigned to
+        if (!(await SessionAccessService.canAccess(socket.data.user, session, 'view'))) {
+          this.emitError(socket, 'UNAUTHORIZED', 'Not assigned to this session');
+          return;
+        }
       }
 
       // Join socket room
       socket.join(sessionId);
+      if (role === WebSocketUserRole.INTERVIEWER) {
+        socket.join(interviewersRoom(sessionId));
+      }
 
       // Create or get active session
       let activeSession = this.activeSessions.get(sessionId);
@@ -220,16 +299,14 @@ export class WebSocketService {
       }
 
       activeSession.lastActivity = new Date();
+      this.publishPresence();
 
       // Emit session joined event
       const joinedPayload: SessionJoinedPayload = {
         sessionId,
         role,
         userId,
-        connectedUsers: {
-          candidates: Array.from(activeSession.candidates.values()),
-          interviewers: Array.from(activeSession.interviewers.values())
-        }
+        connectedUsers: await this.getSessionUsers(sessionId) ?? { candidates: [], interviewers: [] }
       };
 
       socket.emit(WebSocketEventType.SESSION_JOINED, joinedPayload);
@@ -243,12 +320,13 @@ export class WebSocketService {
     }
   }
 
-  private handleLeaveSession(socket: Socket, sessionId: string): void {
+  private async handleLeaveSession(socket: Socket, sessionId: string): Promise<void> {
     try {
       const userId = socket.data.user.userId;
       
       // Leave socket room
       socket.leave(sessionId);
+      socket.leave(interviewersRoom(sessionId));
 
       // Remove from active session
       const activeSession = this.activeSessions.get(sessionId);
@@ -261,15 +339,13 @@ export class WebSocketService {
         if (activeSession.candidates.size === 0 && activeSession.interviewers.size === 0) {
           this.activeSessions.delete(sessionId);
         }
+        this.publishPresence();
 
         // Notify other users
         socket.to(sessionId).emit(WebSocketEventType.SESSION_LEFT, {
           sessionId,
           userId,
-          connectedUsers: {
-            candidates: Array.from(activeSession.candidates.values()),
-            interviewers: Array.from(activeSession.interviewers.values())
-          }
+          connectedUsers: await this.getSessionUsers(sessionId) ?? { candidates: [], interviewers: [] }
         });
       }
 
@@ -280,7 +356,7 @@ export class WebSocketService {
 
   private async handleDetectionEvent(socket: Socket, payload: DetectionEventPayload): Promise<void> {
     try {
-      const { sessionId, eventType, candidateId, timestamp, confidence, metadata } = payload;
+      const { sessionId } = payload;
       
       // Validate session exists
       const activeSession = this.activeSessions.get(sessionId);
@@ -290,38 +366,11 @@ export class WebSocketService {
         return;
       }
 
-      // Create enhanced alert payload for interviewers
-      const alertPayload = {
-        id: `alert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        sessionId,
-        candidateId,
-        eventType,
-        timestamp: typeof timestamp === 'string' ? new Date(timestamp) : timestamp,
-        confidence: confidence || 0.8,
-        metadata: {
-          ...metadata,
-          source: 'real-time-detection',
-          sessionActive: true
-        },
-        message: this.getEventMessage(eventType, metadata),
-        severity: this.getEventSeverity(eventType),
-        type: eventType
-      };
-
       // Broadcast detection event to all users in session
       socket.to(sessionId).emit(WebSocketEventType.DETECTION_EVENT_BROADCAST, payload);
       
       // Send formatted alert specifically to interviewers
-      let alertsSent = 0;
-      activeSession.interviewers.forEach((interviewer, interviewerId) => {
-        const interviewerSocket = this.userSockets.get(interviewerId);
-        if (interviewerSocket) {
-          interviewerSocket.emit('alert', alertPayload);
-          alertsSent++;
-        } else {
-          console.warn(`[WebSocket] Interviewer ${interviewerId} socket not found`);
-        }
-      });
+      this.io.to(interviewersRoom(sessionId)).emit('alert', this.buildAlert(payload, 'real-time-detection'));
       
       // Update session activity
       activeSession.lastActivity = new Date();
@@ -332,6 +381,27 @@ export class WebSocketService {
     }
   }
 
+  // Enhanced alert payload for interviewers
+  private buildAlert(payload: DetectionEventPayload, source: string) {
+    const { sessionId, eventType, candidateId, timestamp, confidence, metadata } = payload;
+    return {
+      id: `alert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      sessionId,
+      candidateId,
+      eventType,
+      timestamp: typeof timestamp === 'string' ? new Date(timestamp) : timestamp,
+      confidence: confidence || 0.8,
+      metadata: {
+        ...metadata,
+        source,
+        sessionActive: true
+      },
+      message: this.getEventMessage(eventType, metadata),
+      severity: this.getEventSeverity(eventType),
+      type: eventType
+    };
+  }
+
   private getEventMessage(eventType: string, metadata?: any): string {
     switch (eventType) {
       case 'focus-loss':
@@ -370,6 +440,11 @@ export class WebSocketService {
         return 'Multiple voices detected';
       case 'excessive-noise':
         return 'Excessive background noise detected';
+      case 'identity-mismatch':
+        if (typeof metadata?.identityMetrics?.similarity === 'number') {
+          return `Candidate did not match the reference photo (similarity ${metadata.identityMetrics.similarity.toFixed(2)})`;
+        }
+        return 'Candidate did not match the reference photo';
       default:
         return `Detection event: ${eventType}`;
     }
@@ -383,6 +458,7 @@ export class WebSocketService {
       case 'multiple-faces':
       case 'unauthorized-item':
       case 'multiple-voices':
+      case 'identity-mismatch':
         return 'high';
       case 'drowsiness':
       case 'eye-closure':
@@ -409,6 +485,19 @@ export class WebSocketService {
 
       // Broadcast to all users in the session
       this.io.to(sessionId).emit(WebSocketEventType.MANUAL_FLAG_BROADCAST, payload);
+
+      void AuditService.record(AuditService.actorFromSocket(socket), {
+        action: AuditAction.MANUAL_FLAG,
+        targetType: 'session',
+        targetId: sessionId,
+        sessionId,
+        after: {
+          flagType: payload.flagType,
+          severity: payload.severity,
+          description: payload.description,
+          targetTimestamp: payload.targetTimestamp ?? null
+        }
+      });
       
     } catch (error) {
       console.error('Error handling manual flag:', error);
@@ -449,15 +538,7 @@ export class WebSocketService {
       // Broadcast to interviewers in the session (candidates don't need to see other candidate streams)
       const activeSession = this.activeSessions.get(sessionId);
       if (activeSession) {
-        let sentCount = 0;
-        activeSession.interviewers.forEach((interviewer) => {
-          const interviewerSocket = this.userSockets.get(interviewer.userId);
-          if (interviewerSocket) {
-            interviewerSocket.emit(WebSocketEventType.VIDEO_STREAM_DATA, payload);
-            sentCount++;
-          }
-        });
-        
+        this.io.to(interviewersRoom(sessionId)).emit(WebSocketEventType.VIDEO_STREAM_DATA, payload);
       } else {
         // No active session found - silent continue
       }
@@ -475,31 +556,19 @@ export class WebSocketService {
       if (toUserId === 'interviewer') {
         const activeSession = this.activeSessions.get(sessionId);
         if (activeSession) {
-          let sentCount = 0;
-          activeSession.interviewers.forEach((interviewer) => {
-            const interviewerSocket = this.userSockets.get(interviewer.userId);
-            if (interviewerSocket) {
-              interviewerSocket.emit(WebSocketEventType.VIDEO_STREAM_OFFER, {
-                ...payload,
-                fromUserId
-              });
-              sentCount++;
-            }
-          });
-        } else {
-          // No active session found - silent continue
-        }
-      } else {
-        // Direct message to specific user
-        const targetSocket = this.userSockets.get(toUserId);
-        if (targetSocket) {
-          targetSocket.emit(WebSocketEventType.VIDEO_STREAM_OFFER, {
+          this.io.to(interviewersRoom(sessionId)).emit(WebSocketEventType.VIDEO_STREAM_OFFER, {
             ...payload,
             fromUserId
           });
         } else {
-          // Target user not found - silent continue;
+          // No active session found - silent continue
         }
+      } else {
+        // Direct message to specific user, wherever they are connected
+        this.io.to(userRoom(toUserId)).emit(WebSocketEventType.VIDEO_STREAM_OFFER, {
+          ...payload,
+          fromUserId
+        });
       }
     } catch (error) {
       console.error('Error handling video stream offer:', error);
@@ -511,16 +580,10 @@ export class WebSocketService {
       const { toUserId } = payload;
       const fromUserId = socket.data.user.userId;
       
-      const targetSocket = this.userSockets.get(toUserId);
-      
-      if (targetSocket) {
-        targetSocket.emit(WebSocketEventType.VIDEO_STREAM_ANSWER, {
-          ...payload,
-          fromUserId
-        });
-      } else {
-        // Target user not found - silent continue
-      }
+      this.io.to(userRoom(toUserId)).emit(WebSocketEventType.VIDEO_STREAM_ANSWER, {
+        ...payload,
+        fromUserId
+      });
     } catch (error) {
       console.error('Error handling video stream answer:', error);
     }
@@ -534,25 +597,17 @@ export class WebSocketService {
       if (toUserId === 'interviewer') {
         const activeSession = this.activeSessions.get(sessionId);
         if (activeSession) {
-          activeSession.interviewers.forEach((interviewer) => {
-            const interviewerSocket = this.userSockets.get(interviewer.userId);
-            if (interviewerSocket) {
-              interviewerSocket.emit(WebSocketEventType.VIDEO_STREAM_ICE_CANDIDATE, {
-                ...payload,
-                fromUserId: socket.data.user.userId
-              });
-            }
-          });
-        }
-      } else {
-        // Direct message to specific user
-        const targetSocket = this.userSockets.get(toUserId);
-        if (targetSocket) {
-          targetSocket.emit(WebSocketEventType.VIDEO_STREAM_ICE_CANDIDATE, {
+          this.io.to(interviewersRoom(sessionId)).emit(WebSocketEventType.VIDEO_STREAM_ICE_CANDIDATE, {
             ...payload,
             fromUserId: socket.data.user.userId
           });
         }
+      } else {
+        // Direct message to specific user
+        this.io.to(userRoom(toUserId)).emit(WebSocketEventType.VIDEO_STREAM_ICE_CANDIDATE, {
+          ...payload,
+          fromUserId: socket.data.user.userId
+        });
       }
     } catch (error) {
       console.error('Error handling video stream ICE candidate:', error);
@@ -564,8 +619,8 @@ export class WebSocketService {
       const { sessionId, status } = payload;
       const userId = socket.data.user.userId;
 
-      // Update session status in database
-      await InterviewSession.findOneAndUpdate(
+      // Update session status in database; the previous document is returned for the audit log
+      const previous = await InterviewSession.findOneAndUpdate(
         { sessionId },
         { 
           status,
@@ -573,6 +628,20 @@ export class WebSocketService {
         }
       );
 
+      if (previous) {
+        await AuditService.record(AuditService.actorFromSocket(socket), {
+          action: status === SessionStatus.TERMINATED
+            ? AuditAction.SESSION_TERMINATE
+            : AuditAction.SESSION_STATUS_CHANGE,
+          targetType: 'session',
+          targetId: sessionId,
+          sessionId,
+          organizationId: previous.organizationId,
+          before: { status: previous.status },
+          after: { status }
+        });
+      }
+
       // Broadcast to all users in the session
       this.io.to(sessionId).emit(WebSocketEventType.SESSION_STATUS_UPDATE, payload);
       
@@ -625,6 +694,14 @@ export class WebSocketService {
       };
 
       this.io.to(sessionId).emit(WebSocketEventType.SESSION_CONTROL_UPDATE, controlUpdate);
+
+      void AuditService.record(AuditService.actorFromSocket(socket), {
+        action: action === 'terminate' ? AuditAction.SESSION_TERMINATE : AuditAction.SESSION_CONTROL,
+        targetType: 'session',
+        targetId: sessionId,
+        sessionId,
+        after: { control: controlType }
+      });
       
     } catch (error) {
       console.error('Error handling interviewer session control:', error);
@@ -673,32 +750,20 @@ export class WebSocketService {
     }
   }
 
-  private handleDisconnect(socket: Socket): void {
+  private async handleDisconnect(socket: Socket): Promise<void> {
     try {
       const userId = socket.data.user?.userId;
-      const socketId = socket.id;
       
       if (!userId) return;
 
-      // Remove from user sockets map
-      this.userSockets.delete(userId);
-
       // Remove from all active sessions
+      const leftSessions: string[] = [];
       this.activeSessions.forEach((session, sessionId) => {
         if (session.candidates.has(userId) || session.interviewers.has(userId)) {
           session.candidates.delete(userId);
           session.interviewers.delete(userId);
           session.lastActivity = new Date();
-
-          // Notify other users in the session
-          socket.to(sessionId).emit(WebSocketEventType.SESSION_LEFT, {
-            sessionId,
-            userId,
-            connectedUsers: {
-              candidates: Array.from(session.candidates.values()),
-              interviewers: Array.from(session.interviewers.values())
-            }
-          });
+          leftSessions.push(sessionId);
 
           // Remove empty sessions
           if (session.candidates.size === 0 && session.interviewers.size === 0) {
@@ -706,11 +771,73 @@ export class WebSocketService {
           }
         }
       });
+      this.publishPresence();
+
+      // Notify other users in the sessions
+      for (const sessionId of leftSessions) {
+        this.io.to(sessionId).emit(WebSocketEventType.SESSION_LEFT, {
+          sessionId,
+          userId,
+          connectedUsers: await this.getSessionUsers(sessionId) ?? { candidates: [], interviewers: [] }
+        });
+      }
     } catch (error) {
       console.error('Error handling disconnect:', error);
     }
   }
 
+  /**
+   * Replaces this instance's presence report with what is connected here now, and stamps
+   * sessions that emptied out here as last seen
+   */
+  private publishPresence(): void {
+    this.publishing = this.publishing.then(async () => {
+      const current = this.localPresence();
+      const emptied = [...this.reportedSessions].filter(sessionId => !current.sessions[sessionId]);
+      this.reportedSessions = new Set(Object.keys(current.sessions));
+
+      await this.presence.publish(current);
+      const now = new Date();
+      await Promise.all(emptied.map(sessionId => this.presence.setLastSeen(sessionId, now)));
+    }).catch(error => console.error('Failed to publish WebSocket presence:', error));
+  }
+
+  private localPresence(): Omit<InstancePresence, 'instanceId'> {
+    const sessions: InstancePresence['sessions'] = {};
+    this.activeSessions.forEach((session, sessionId) => {
+      sessions[sessionId] = [...session.candidates.values(), ...session.interviewers.values()];
+    });
+    const users = new Set<string>();
+    this.io.sockets.sockets.forEach(socket => {
+      if (socket.data.user?.userId) {
+        users.add(socket.data.user.userId);
+      }
+    });
+    return { sessions, users: [...users] };
+  }
+
+  // This instance's presence as it is now, with the latest reports of the others
+  private async clusterPresence(): Promise<Omit<InstancePresence, 'instanceId'>[]> {
+    const others = (await this.presence.instances())
+      .filter(instance => instance.instanceId !== this.presence.instanceId);
+    return [this.localPresence(), ...others];
+  }
+
+  private disconnectRevoked(revocation: Revocation): void {
+    this.io.sockets.sockets.forEach(socket => {
+      const user: JWTPayload | undefined = socket.data.user;
+      if (!user || user.userId !== revocation.userId) return;
+
+      const revoked = revocation.kind === 'token' ? user.jti === revocation.jti
+        : revocation.kind === 'family' ? user.sid === revocation.familyId
+        : user.iat * 1000 <= revocation.revokedAt.getTime();
+      if (revoked) {
+        this.emitError(socket, 'TOKEN_REVOKED', 'Your sign-in has been revoked');
+        socket.disconnect(true);
+      }
+    });
+  }
+
   private emitError(socket: Socket, code: string, message: string, details?: any): void {
     const errorPayload: WebSocketErrorPayload = {
       code,
@@ -725,57 +852,126 @@ export class WebSocketService {
     this.io.to(sessionId).emit(event, data);
   }
 
+  // Detection events recorded by the server reach the session like the ones candidates send
+  public broadcastDetectionEvent(payload: DetectionEventPayload): void {
+    this.io.to(payload.sessionId).emit(WebSocketEventType.DETECTION_EVENT_BROADCAST, payload);
+    this.io.to(interviewersRoom(payload.sessionId)).emit('alert', this.buildAlert(payload, 'server-detection'));
+  }
+
   public sendToUser(userId: string, event: string, data: any): void {
-    const socket = this.userSockets.get(userId);
-    if (socket) {
-      socket.emit(event, data);
-    }
+    this.io.to(userRoom(userId)).emit(event, data);
   }
 
-  public getActiveSessionsCount(): number {
-    return this.activeSessions.size;
+  public async getActiveSessionsCount(): Promise<number> {
+    return (await this.getStats()).activeSessions;
   }
 
-  public getConnectedUsersCount(): number {
-    return this.userSockets.size;
+  public async getConnectedUsersCount(): Promise<number> {
+    return (await this.getStats()).totalConnections;
   }
 
-  public getSessionUsers(sessionId: string): { candidates: WebSocketConnectionData[], interviewers: WebSocketConnectionData[] } | null {
-    const session = this.activeSessions.get(sessionId);
-    if (!session) return null;
+  // Participants connected to the session on any instance; a user connected twice is listed once
+  public async getSessionUsers(sessionId: string): Promise<{ candidates: WebSocketConnectionData[], interviewers: WebSocketConnectionData[] } | null> {
+    const connections = (await this.clusterPresence()).flatMap(instance => instance.sessions[sessionId] ?? []);
+    if (connections.length === 0) return null;
+
+    const candidates = new Map<string, WebSocketConnectionData>();
+    const interviewers = new Map<string, WebSocketConnectionData>();
+    connections.forEach(connection => {
+      const users = connection.role === WebSocketUserRole.CANDIDATE ? candidates : interviewers;
+      if (!users.has(connection.userId)) {
+        users.set(connection.userId, connection);
+      }
+    });
 
     return {
-      candidates: Array.from(session.candidates.values()),
-      interviewers: Array.from(session.interviewers.values())
+      candidates: Array.from(candidates.values()),
+      interviewers: Array.from(interviewers.values())
     };
   }
 
-  public getStats(): WebSocketStats {
-    let candidateCount = 0;
-    let interviewerCount = 0;
+  public async getSessionPresence(sessionId: string): Promise<SessionPresence> {
+    const users = await this.getSessionUsers(sessionId);
+    if (users) {
+      return {
+        connected: true,
+        candidates: users.candidates.length,
+        interviewers: users.interviewers.length,
+        lastSeenAt: new Date()
+      };
+    }
+    return {
+      connected: false,
+      candidates: 0,
+      interviewers: 0,
+      lastSeenAt: await this.presence.lastSeen(sessionId)
+    };
+  }
 
-    this.activeSessions.forEach(session => {
-      candidateCount += session.candidates.size;
-      interviewerCount += session.interviewers.size;
+  // Drop presence bookkeeping for a session that has ended
+  public async clearPresence(sessionId: string): Promise<void> {
+    // Behind pending reports, which may still stamp the session
+    await this.publishing;
+    await this.presence.clearLastSeen(sessionId);
+  }
+
+  public async getStats(): Promise<WebSocketStats> {
+    const instances = await this.clusterPresence();
+    const users = new Set<string>();
+    const candidates = new Set<string>();
+    const interviewers = new Set<string>();
+    const sessions = new Set<string>();
+
+    instances.forEach(instance => {
+      instance.users.forEach(userId => users.add(userId));
+      Object.entries(instance.sessions).forEach(([sessionId, connections]) => {
+        sessions.add(sessionId);
+        connections.forEach(connection => {
+          const key = `${sessionId}:${connection.userId}`;
+          (connection.role === WebSocketUserRole.CANDIDATE ? candidates : interviewers).add(key);
+        });
+      });
     });
 
     return {
-      totalConnections: this.userSockets.size,
-      activeSessions: this.activeSessions.size,
-      connectedCandidates: candidateCount,
-      connectedInterviewers: interviewerCount,
+      totalConnections: users.size,
+      activeSessions: sessions.size,
+      connectedCandidates: candidates.size,
+      connectedInterviewers: interviewers.size,
+      instances: instances.length,
       uptime: Date.now() - this.startTime.getTime()
     };
   }
 
-  public isUserConnected(userId: string): boolean {
-    return this.userSockets.has(userId);
+  public async isUserConnected(userId: string): Promise<boolean> {
+    return (await this.clusterPresence()).some(instance => instance.users.includes(userId));
   }
 
   public disconnectUser(userId: string): void {
-    const socket = this.userSockets.get(userId);
-    if (socket) {
-      socket.disconnect();
+    this.io.in(userRoom(userId)).disconnectSockets();
+  }
+
+  // Resolves once this instance is connected to the others and has reported its presence
+  public async ready(): Promise<void> {
+    const adapter = this.io.sockets.adapter;
+    if (adapter instanceof RedisSocketAdapter) {
+      await adapter.ready;
+    }
+    this.publishPresence();
+    await this.publishing;
+  }
+
+  public async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
     }
+    this.stopRevocationListener();
+    await this.io.close();
+    await this.publishing;
+    await this.presence.close().catch(error => console.error('Failed to withdraw WebSocket presence:', error));
+    await Promise.all(this.redisClients.map(client => client.quit()));
   }
-}
\ No newline at end of file
+}
@@ -17,19 +17,59 @@ export enum EventType {
   EXCESSIVE_BLINKING = 'excessive-blinking',
   BACKGROUND_VOICE = 'background-voice',
   MULTIPLE_VOICES = 'multiple-voices',
-  EXCESSIVE_NOISE = 'excessive-noise'
+  EXCESSIVE_NOISE = 'excessive-noise',
+  IDENTITY_MISMATCH = 'identity-mismatch'
 }
 
 export enum SessionStatus {
+  // Planned ahead of time, waiting for the candidate to redeem their invitation
+  SCHEDULED = 'scheduled',
   ACTIVE = 'active',
   COMPLETED = 'completed',
-  TERMINATED = 'terminated'
+  TERMINATED = 'terminated',
+  // The join window closed before the candidate joined
+  EXPIRED = 'expired'
+}
+
+// Why the server ended a session on its own
+export enum SessionEndReason {
+  IDLE_TIMEOUT = 'idle_timeout',
+  MAX_DURATION = 'max_duration',
+  JOIN_WINDOW_CLOSED = 'join_window_closed'
+}
+
+// Outcome of a single pre-interview system check, and of the check as a whole
+export enum SystemCheckStatus {
+  PASSED = 'passed',
+  WARNING = 'warning',
+  FAILED = 'failed'
+}
+
+// Whether the candidate on camera matches the interviewer's reference photo
+export enum IdentityVerificationStatus {
+  PENDING = 'pending',
+  VERIFIED = 'verified',
+  MISMATCH = 'mismatch'
 }
 
 export enum UserRole {
   CANDIDATE = 'candidate',
   INTERVIEWER = 'interviewer',
-  ADMIN = 'admin'
+  // Administers a single organization
+  ADMIN = 'admin',
+  // Platform operator: manages organizations and sees across them
+  SUPER_ADMIN = 'super_admin'
+}
+
+// Organization admins and platform super admins
+export const isAdminRole = (role: UserRole): boolean =>
+  role === UserRole.ADMIN || role === UserRole.SUPER_ADMIN;
+
+// Role an interviewer holds on a specific session
+export enum AssignmentRole {
+  PRIMARY = 'primary',
+  SECONDARY = 'secondary',
+  OBSERVER = 'observer'
 }
 
 export enum UnauthorizedItemType {
@@ -52,6 +92,22 @@ export enum Severity {
   HIGH = 'high'
 }
 
+// Interviewer and admin actions recorded in the audit log
+export enum AuditAction {
+  OBSERVATION_FLAG = 'observation.flag',
+  MANUAL_FLAG = 'session.manual_flag',
+  SESSION_STATUS_CHANGE = 'session.status_change',
+  SESSION_TERMINATE = 'session.terminate',
+  SESSION_CONTROL = 'session.control',
+  EVENTS_DELETE = 'events.delete',
+  REPORT_EXPORT = 'report.export',
+  CANDIDATE_EXPORT = 'candidate.export',
+  CANDIDATE_ERASURE = 'candidate.erasure',
+  USER_TOKENS_REVOKE = 'user.tokens_revoke',
+  USER_TWO_FACTOR_RESET = 'user.two_factor_reset',
+  TWO_FACTOR_POLICY_UPDATE = 'organization.two_factor_policy'
+}
+
 // ============================================================================
 // ZOD VALIDATION SCHEMAS
 // ============================================================================
@@ -140,12 +196,22 @@ export const InterviewSessionSchema = z.object({
   status: z.nativeEnum(SessionStatus)
 });
 
+// Evidence clip and still cut from the recording around a suspicious event
+export const EvidenceLinkSchema = z.object({
+  clipId: z.string().uuid(),
+  clipUrl: z.string(),
+  stillUrl: z.string(),
+  startSeconds: z.number().min(0),
+  durationSeconds: z.number().min(0)
+});
+
 // Suspicious Event Schema
 export const SuspiciousEventSchema = z.object({
   eventType: z.nativeEnum(EventType),
   timestamp: z.date(),
   duration: z.number().positive().optional(),
-  description: z.string().min(1).max(500)
+  description: z.string().min(1).max(500),
+  evidence: EvidenceLinkSchema.optional()
 });
 
 // Manual Observation Schema
@@ -160,7 +226,49 @@ export const ManualObservationSchema = z.object({
   flagged: z.boolean()
 });
 
+// Scoring Rule Schema (deductions applied for a single event type)
+export const ScoringRuleSchema = z.object({
+  pointsPerIncident: z.number().min(0),
+  pointsPerSecond: z.number().min(0).default(0),
+  maxPerIncident: z.number().min(0).optional(),
+  maxTotal: z.number().min(0).optional()
+});
+
+// Scoring Policy Schema
+export const ScoringPolicySchema = z.object({
+  name: z.string().min(1).max(50).regex(/^[a-z0-9-]+$/),
+  version: z.number().int().positive(),
+  description: z.string().max(500).optional(),
+  baseScore: z.number().positive().default(100),
+  // Keyed by event type, so a misspelt type is rejected rather than stored and never matched
+  eventRules: z.partialRecord(z.nativeEnum(EventType), ScoringRuleSchema),
+  manualObservationPoints: z.number().min(0),
+  severityMultipliers: z.object({
+    low: z.number().min(0),
+    medium: z.number().min(0),
+    high: z.number().min(0)
+  }),
+  isDefault: z.boolean().default(false)
+});
+
+// Scoring Policy Reference Schema (identifies the policy version that scored a report)
+export const ScoringPolicyRefSchema = z.object({
+  name: z.string().min(1),
+  version: z.number().int().positive()
+});
+
 // Proctoring Report Schema
+// Per event type totals stored on a report
+export const EventTypeStatSchema = z.object({
+  eventType: z.nativeEnum(EventType),
+  count: z.number().int().min(0),
+  totalDuration: z.number().min(0)
+});
+
+// Backends recordings and generated reports can be stored in
+export const STORAGE_DRIVERS = ['local', 's3', 'cloudinary'] as const;
+export type StorageDriverName = typeof STORAGE_DRIVERS[number];
+
 export const ProctoringReportSchema = z.object({
   reportId: z.string().uuid(),
   sessionId: z.string().uuid(),
@@ -171,12 +279,18 @@ export const ProctoringReportSchema = z.object({
   absenceCount: z.number().int().min(0),
   multipleFacesCount: z.number().int().min(0),
   unauthorizedItemsCount: z.number().int().min(0),
+  eventStats: z.array(EventTypeStatSchema).optional(),
   integrityScore: z.number().max(100),
   suspiciousEvents: z.array(SuspiciousEventSchema),
   manualObservations: z.array(ManualObservationSchema).optional(),
   generatedAt: z.date(),
   metadata: z.record(z.string(), z.any()).optional(),
-  // Cloudinary storage URLs for generated reports
+  scoringPolicy: ScoringPolicyRefSchema.optional(),
+  // Archived PDF and CSV exports, kept by the storage driver named here
+  storageDriver: z.enum(STORAGE_DRIVERS).optional(),
+  pdfStorageKey: z.string().optional(),
+  csvStorageKey: z.string().optional(),
+  // Cloudinary storage URLs for reports generated before storage drivers
   cloudinaryPdfUrl: z.string().url().optional(),
   cloudinaryPdfPublicId: z.string().optional(),
   cloudinaryCsvUrl: z.string().url().optional(),
@@ -195,7 +309,82 @@ export const UserRegistrationSchema = z.object({
   email: z.string().email(),
   password: z.string().min(6).max(100),
   name: z.string().min(1).max(100),
-  role: z.nativeEnum(UserRole)
+  // Admins are created by an organization admin, never through self-registration
+  role: z.enum([UserRole.CANDIDATE, UserRole.INTERVIEWER]),
+  organizationSlug: z.string().min(1).max(50).optional()
+});
+
+// Organization Schema
+export const OrganizationSchema = z.object({
+  name: z.string().min(1).max(100),
+  slug: z.string().min(2).max(50).regex(/^[a-z0-9-]+$/)
+});
+
+// Create Organization Input Schema (optionally with its first admin)
+export const CreateOrganizationSchema = OrganizationSchema.extend({
+  admin: z.object({
+    email: z.string().email(),
+    password: z.string().min(6).max(100),
+    name: z.string().min(1).max(100)
+  }).optional()
+});
+
+export const UpdateOrganizationSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  isActive: z.boolean().optional()
+});
+
+// Organization User Schema (users created by an organization admin)
+export const CreateOrganizationUserSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(6).max(100),
+  name: z.string().min(1).max(100),
+  role: z.enum([UserRole.CANDIDATE, UserRole.INTERVIEWER, UserRole.ADMIN]),
+  // Only honoured for super admins creating users in another organization
+  organizationId: z.string().uuid().optional()
+});
+
+// Retention windows in days, counted from the session start (recordings), event time or report generation.
+// null removes an organization's override so the server default applies again.
+const RetentionDaysSchema = z.number().int().min(1).max(36500).nullable().optional();
+
+export const RetentionPolicySchema = z.object({
+  recordingDays: RetentionDaysSchema,
+  eventDays: RetentionDaysSchema,
+  reportDays: RetentionDaysSchema
+});
+
+// Legal hold keeps every record of a session out of retention purges
+export const LegalHoldSchema = z.object({
+  reason: z.string().min(1).max(500)
+});
+
+// Manual purge run; previews by default
+export const RetentionPurgeSchema = z.object({
+  dryRun: z.boolean().default(true)
+});
+
+// Candidate erasure: anonymize keeps de-identified sessions and reports for statistics, delete removes them
+export const CandidateErasureSchema = z.object({
+  mode: z.enum(['anonymize', 'delete']).default('anonymize')
+});
+
+// Audit log query; organizationId is only honoured for super admins
+export const AuditQuerySchema = z.object({
+  organizationId: z.string().uuid().optional(),
+  actorId: z.string().uuid().optional(),
+  action: z.nativeEnum(AuditAction).optional(),
+  targetId: z.string().min(1).optional(),
+  sessionId: z.string().uuid().optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  page: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().int().min(1)).optional(),
+  limit: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().int().min(1).max(100)).optional()
+});
+
+export const UpdateOrganizationUserSchema = z.object({
+  role: z.enum([UserRole.CANDIDATE, UserRole.INTERVIEWER, UserRole.ADMIN]).optional(),
+  isActive: z.boolean().optional()
 });
 
 // User Login Schema
@@ -204,17 +393,114 @@ export const UserLoginSchema = z.object({
   password: z.string().min(1)
 });
 
+// Refresh Token Schema (exchanged for a new access token and refresh token)
+export const RefreshTokenRequestSchema = z.object({
+  refreshToken: z.string().min(1)
+});
+
+// Logout Schema (the refresh token lets a client sign out after its access token expired)
+export const LogoutSchema = z.object({
+  refreshToken: z.string().min(1).optional()
+}).default({});
+
+// Second step of a password login: the challenge from POST /api/auth/login and an
+// authenticator code or a recovery code
+export const TwoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().trim().min(6).max(20)
+});
+
+// Authenticator code (or recovery code) confirming a change to the user's own two-factor settings
+export const TwoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6).max(20)
+});
+
+// Enrollment runs either signed in or, when the organization requires it, from the login challenge
+export const TwoFactorSetupSchema = z.object({
+  challengeToken: z.string().min(1).optional()
+}).default({});
+
+export const TwoFactorEnableSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app'),
+  challengeToken: z.string().min(1).optional()
+});
+
+// Organization policy: roles that must use two-factor authentication
+export const TwoFactorPolicySchema = z.object({
+  requiredRoles: z.array(z.enum([UserRole.INTERVIEWER, UserRole.ADMIN])).max(2)
+});
+
 // Session Creation Schema
 export const SessionCreationSchema = z.object({
   candidateName: z.string().min(1).max(100),
   candidateEmail: z.string().email().optional(),
-  interviewerUserId: z.string().uuid()
+  interviewerUserId: z.string().uuid(),
+  // Scheduling (omit scheduledStartTime to start the session immediately)
+  scheduledStartTime: z.coerce.date().optional(),
+  // Minutes before and after the planned start during which the candidate may join
+  joinWindowMinutes: z.number().int().min(1).max(24 * 60).optional(),
+  maxDurationMinutes: z.number().int().min(5).max(8 * 60).optional()
+});
+
+// Invitation Redemption Schema
+export const InvitationAcceptSchema = z.object({
+  token: z.string().min(1)
+});
+
+// Pre-interview System Check Schema (reported by the candidate's browser)
+const MediaCheckSchema = z.object({
+  permission: z.enum(['granted', 'denied', 'prompt', 'unavailable']),
+  deviceLabel: z.string().max(200).optional(),
+  status: z.nativeEnum(SystemCheckStatus)
+});
+
+export const SystemCheckSchema = z.object({
+  camera: MediaCheckSchema,
+  microphone: MediaCheckSchema,
+  frameProcessing: z.object({
+    averageMs: z.number().min(0),
+    maxAllowedMs: z.number().positive(),
+    sampleCount: z.number().int().min(0),
+    status: z.nativeEnum(SystemCheckStatus)
+  }),
+  connection: z.object({
+    connected: z.boolean(),
+    latencyMs: z.number().min(0).optional(),
+    status: z.nativeEnum(SystemCheckStatus)
+  }),
+  audio: z.object({
+    baselineNoiseLevel: z.number().min(0).max(1),
+    status: z.nativeEnum(SystemCheckStatus)
+  }),
+  userAgent: z.string().max(500).optional()
+});
+
+// Face descriptors are landmark geometry ratios computed in the browser
+const FaceDescriptorSchema = z.array(z.number().finite().min(0)).min(8).max(256);
+
+// Identity Reference Schema (uploaded by the interviewer)
+export const IdentityReferenceSchema = z.object({
+  descriptor: FaceDescriptorSchema,
+  photo: z.string().regex(/^data:image\/(png|jpeg|webp);base64,/).max(2_000_000).optional()
+});
+
+// Identity Verification Schema (a snapshot taken by the candidate)
+export const IdentityVerificationSchema = z.object({
+  descriptor: FaceDescriptorSchema,
+  phase: z.enum(['initial', 'periodic'])
 });
 
 // Session Pairing Schema
 export const SessionPairingSchema = z.object({
   sessionId: z.string().uuid(),
-  interviewerUserId: z.string().uuid()
+  interviewerUserId: z.string().uuid(),
+  role: z.nativeEnum(AssignmentRole).optional()
+});
+
+// Session Assignment Schema
+export const SessionAssignmentSchema = z.object({
+  userId: z.string().uuid(),
+  role: z.nativeEnum(AssignmentRole).default(AssignmentRole.SECONDARY)
 });
 
 // JWT Payload Schema
@@ -222,6 +508,11 @@ export const JWTPayloadSchema = z.object({
   userId: z.string().uuid(),
   email: z.string().email(),
   role: z.nativeEnum(UserRole),
+  organizationId: z.string().uuid().optional(),
+  // Token id, for revoking this one access token
+  jti: z.string().uuid().optional(),
+  // Refresh token family (sign-in) the access token was issued to
+  sid: z.string().uuid().optional(),
   iat: z.number(),
   exp: z.number()
 });
@@ -243,14 +534,63 @@ export type GazeDirection = z.infer<typeof GazeDirectionSchema>;
 export type DetectionEventMetadata = z.infer<typeof DetectionEventMetadataSchema>;
 export type DetectionEvent = z.infer<typeof DetectionEventSchema>;
 export type InterviewSession = z.infer<typeof InterviewSessionSchema>;
+export type EvidenceLink = z.infer<typeof EvidenceLinkSchema>;
 export type SuspiciousEvent = z.infer<typeof SuspiciousEventSchema>;
 export type ManualObservation = z.infer<typeof ManualObservationSchema>;
+export type EventTypeStat = z.infer<typeof EventTypeStatSchema>;
 export type ProctoringReport = z.infer<typeof ProctoringReportSchema>;
+export type ScoringRule = z.infer<typeof ScoringRuleSchema>;
+export type ScoringPolicy = z.infer<typeof ScoringPolicySchema>;
+export type ScoringPolicyRef = z.infer<typeof ScoringPolicyRefSchema>;
 export type AuthUser = z.infer<typeof AuthUserSchema>;
 export type UserRegistrationInput = z.infer<typeof UserRegistrationSchema>;
 export type UserLoginInput = z.infer<typeof UserLoginSchema>;
+export type RefreshTokenRequestInput = z.infer<typeof RefreshTokenRequestSchema>;
+export type TwoFactorPolicyInput = z.infer<typeof TwoFactorPolicySchema>;
 export type SessionCreationInput = z.infer<typeof SessionCreationSchema>;
 export type SessionPairingInput = z.infer<typeof SessionPairingSchema>;
+export type InvitationAcceptInput = z.infer<typeof InvitationAcceptSchema>;
+export type SystemCheckInput = z.infer<typeof SystemCheckSchema>;
+export type SystemCheckResult = SystemCheckInput & {
+  overallStatus: SystemCheckStatus;
+  completedAt: Date;
+};
+
+// The overall result is the worst individual check, so a client cannot report a passing summary over failed checks
+export const summarizeSystemCheck = (check: SystemCheckInput): SystemCheckStatus => {
+  const statuses = [check.camera, check.microphone, check.frameProcessing, check.connection, check.audio]
+    .map(result => result.status);
+  if (statuses.includes(SystemCheckStatus.FAILED)) return SystemCheckStatus.FAILED;
+  if (statuses.includes(SystemCheckStatus.WARNING)) return SystemCheckStatus.WARNING;
+  return SystemCheckStatus.PASSED;
+};
+export type IdentityReferenceInput = z.infer<typeof IdentityReferenceSchema>;
+export type IdentityVerificationInput = z.infer<typeof IdentityVerificationSchema>;
+export interface IdentityVerificationSummary {
+  status: IdentityVerificationStatus;
+  referenceUploadedAt: Date;
+  lastCheckedAt?: Date;
+  lastSimilarity?: number;
+  checkCount: number;
+  mismatchCount: number;
+}
+export type SessionAssignmentInput = z.infer<typeof SessionAssignmentSchema>;
+export type CreateOrganizationInput = z.infer<typeof CreateOrganizationSchema>;
+export type CreateOrganizationUserInput = z.infer<typeof CreateOrganizationUserSchema>;
+export type RetentionPolicyInput = z.infer<typeof RetentionPolicySchema>;
+export type LegalHoldInput = z.infer<typeof LegalHoldSchema>;
+export type AuditQuery = z.infer<typeof AuditQuerySchema>;
+// Effective retention windows; a missing window keeps that data forever
+export interface RetentionWindows {
+  recordingDays?: number;
+  eventDays?: number;
+  reportDays?: number;
+}
+export interface LegalHold {
+  reason: string;
+  placedBy: string;
+  placedAt: Date;
+}
 export type JWTPayload = z.infer<typeof JWTPayloadSchema>;
 export type ApiResponse<T = any> = {
   success: boolean;
@@ -289,7 +629,14 @@ export const UpdateInterviewSessionSchema = InterviewSessionSchema.partial().omi
 // Generate Report Input Schema
 export const GenerateReportSchema = z.object({
   sessionId: z.string().uuid(),
-  includeManualObservations: z.boolean().optional().default(true)
+  includeManualObservations: z.boolean().optional().default(true),
+  scoringPolicy: z.string().min(1).optional(),
+  scoringPolicyVersion: z.number().int().positive().optional()
+});
+
+// Create Scoring Policy Input Schema (version is assigned by the server)
+export const CreateScoringPolicySchema = ScoringPolicySchema.omit({
+  version: true
 });
 
 // Create Manual Observation Input Schema
@@ -307,6 +654,9 @@ export const ReportExportSchema = z.object({
   includeManualObservations: z.boolean().optional().default(true)
 });
 
+// Hex-encoded SHA-256, as sent for upload chunks and whole files
+const SHA256_HEX_PATTERN = /^[0-9a-f]{64}$/;
+
 // Video Upload Schema
 export const VideoUploadSchema = z.object({
   sessionId: z.string().uuid(),
@@ -314,7 +664,24 @@ export const VideoUploadSchema = z.object({
   chunkIndex: z.number().int().min(0),
   totalChunks: z.number().int().positive(),
   filename: z.string().min(1),
-  mimeType: z.string().min(1)
+  mimeType: z.string().min(1),
+  // When the browser started recording; sent with every chunk of the upload
+  recordingStartedAt: z.coerce.date().optional(),
+  // Hex SHA-256 of this chunk and of the whole file; verified when sent
+  chunkChecksum: z.string().regex(SHA256_HEX_PATTERN).optional(),
+  checksum: z.string().regex(SHA256_HEX_PATTERN).optional()
+});
+
+// Opening (or resuming) an offset-based upload: the client declares the size and checksum of the whole file
+export const VideoUploadCreateSchema = z.object({
+  sessionId: z.string().uuid(),
+  candidateId: z.string().uuid(),
+  filename: z.string().min(1),
+  mimeType: z.string().min(1),
+  totalSize: z.number().int().positive(),
+  chunkSize: z.number().int().positive(),
+  checksum: z.string().regex(SHA256_HEX_PATTERN),
+  recordingStartedAt: z.coerce.date().optional()
 });
 
 // Video Metadata Schema
@@ -337,15 +704,26 @@ export const VideoMetadataSchema = z.object({
   thumbnailUrl: z.string().url().optional()
 });
 
+// Recording transcode request; presets map to the bitrate ladder in VideoStorageService
+export const TranscodePresetSchema = z.enum(['low', 'medium', 'high']);
+
+export const VideoTranscodeSchema = z.object({
+  quality: TranscodePresetSchema.default('medium')
+});
+
 // Export Input Types
 export type CreateDetectionEventInput = z.infer<typeof CreateDetectionEventSchema>;
 export type CreateInterviewSessionInput = z.infer<typeof CreateInterviewSessionSchema>;
 export type UpdateInterviewSessionInput = z.infer<typeof UpdateInterviewSessionSchema>;
 export type GenerateReportInput = z.infer<typeof GenerateReportSchema>;
+export type CreateScoringPolicyInput = z.infer<typeof CreateScoringPolicySchema>;
 export type CreateManualObservationInput = z.infer<typeof CreateManualObservationSchema>;
 export type ReportExportInput = z.infer<typeof ReportExportSchema>;
 export type VideoUploadInput = z.infer<typeof VideoUploadSchema>;
+export type VideoUploadCreateInput = z.infer<typeof VideoUploadCreateSchema>;
 export type VideoMetadata = z.infer<typeof VideoMetadataSchema>;
+export type TranscodePreset = z.infer<typeof TranscodePresetSchema>;
+export type VideoTranscodeInput = z.infer<typeof VideoTranscodeSchema>;
 
 // ============================================================================
 // RE-EXPORTS
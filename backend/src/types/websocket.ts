@@ -145,8 +145,10 @@ export interface VideoStreamIceCandidatePayload {
 // Session status update payload
 export interface SessionStatusUpdatePayload {
   sessionId: string;
-  status: 'active' | 'completed' | 'terminated';
+  status: 'active' | 'completed' | 'terminated' | 'expired';
   updatedBy: string;
+  // Set when the server ended the session on its own (see SessionEndReason)
+  reason?: string;
   timestamp: string;
 }
 
@@ -187,11 +189,22 @@ export interface ActiveSession {
   lastActivity: Date;
 }
 
+// Who is connected to a session right now, and when anyone last was
+export interface SessionPresence {
+  connected: boolean;
+  candidates: number;
+  interviewers: number;
+  // Null when nobody joined since this server started
+  lastSeenAt: Date | null;
+}
+
 // WebSocket server statistics
 export interface WebSocketStats {
   totalConnections: number;
   activeSessions: number;
   connectedCandidates: number;
   connectedInterviewers: number;
+  // Server instances sharing presence, this one included
+  instances: number;
   uptime: number;
 }
\ No newline at end of file
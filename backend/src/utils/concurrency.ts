@@ -0,0 +1,62 @@
+/**
+ * Counting semaphore limiting how many async tasks run at once
+ */
+export class Semaphore {
+  private active = 0;
+  private readonly waiters: Array<() => void> = [];
+
+  constructor(private readonly maxConcurrent: number) {
+    if (maxConcurrent < 1) {
+      throw new Error('Semaphore requires at least one slot');
+    }
+  }
+
+  /**
+   * Run a task once a slot is free, releasing the slot when it settles
+   */
+  public async use<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  public get pending(): number {
+    return this.waiters.length;
+  }
+
+  public get running(): number {
+    return this.active;
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      this.waiters.push(() => {
+        this.active++;
+        resolve();
+      });
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    }
+  }
+}
+
+/**
+ * Read a positive integer from the environment, falling back to a default
+ */
+export const envInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
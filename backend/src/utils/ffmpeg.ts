@@ -0,0 +1,22 @@
+import ffmpeg from 'fluent-ffmpeg';
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore
+import ffmpegStatic from 'ffmpeg-static';
+import ffprobeStatic from 'ffprobe-static';
+
+/**
+ * fluent-ffmpeg configured with the bundled ffmpeg and ffprobe binaries.
+ * Falls back to whatever is on the PATH when a bundled binary is unavailable.
+ */
+try {
+  if (ffmpegStatic) {
+    ffmpeg.setFfmpegPath(ffmpegStatic as string);
+  }
+  if (ffprobeStatic?.path) {
+    ffmpeg.setFfprobePath(ffprobeStatic.path);
+  }
+} catch {
+  // rely on system ffmpeg if available
+}
+
+export default ffmpeg;
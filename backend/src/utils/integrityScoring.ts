@@ -0,0 +1,2 @@
+// The scoring engine lives in shared/ so the frontend live summary uses the exact same code
+export * from '../../../shared/scoring/integrityScoring';
\ No newline at end of file
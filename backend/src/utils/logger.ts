@@ -159,6 +159,26 @@ export const securityLogger = {
       limit,
       timestamp: new Date().toISOString()
     });
+  },
+
+  twoFactorChange: (userId: string, email: string, change: 'enrolled' | 'disabled' | 'recovery_codes_regenerated' | 'reset', actorId?: string) => {
+    logger.warn('Two-Factor Change', {
+      userId,
+      email,
+      change,
+      actorId,
+      timestamp: new Date().toISOString()
+    });
+  },
+
+  twoFactorFailed: (ip: string, userId: string, reason: string, failedAttempts: number) => {
+    logger.warn('Two-Factor Failed', {
+      ip,
+      userId,
+      reason,
+      failedAttempts,
+      timestamp: new Date().toISOString()
+    });
   }
 };
 
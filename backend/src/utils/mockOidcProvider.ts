@@ -0,0 +1,198 @@
+import express, { Request, Response } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, generateKeyPairSync, randomBytes } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import dotenv from 'dotenv';
+
+/**
+ * Minimal OpenID Connect provider for development and integration tests: discovery, an
+ * authorization endpoint that signs in a configured user, a token endpoint (authorization
+ * code with PKCE) and the key set. Not for production use.
+ */
+
+export interface MockOidcUser {
+  sub: string;
+  email: string;
+  name: string;
+  groups: string[];
+  emailVerified?: boolean;
+}
+
+export interface MockOidcProviderOptions {
+  clientId: string;
+  clientSecret: string;
+  users: MockOidcUser[];
+  // 0 picks a free port
+  port?: number;
+}
+
+export interface MockOidcProvider {
+  issuer: string;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  user: MockOidcUser;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  expiresAt: number;
+}
+
+const CODE_TTL_MS = 60 * 1000;
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+export const startMockOidcProvider = async (options: MockOidcProviderOptions): Promise<MockOidcProvider> => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const keyId = randomBytes(8).toString('hex');
+  const codes = new Map<string, PendingCode>();
+  let issuer = '';
+
+  const signIdToken = (claims: Record<string, unknown>): string =>
+    jwt.sign(claims, privateKey, { algorithm: 'RS256', keyid: keyId, expiresIn: 300 });
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/.well-known/openid-configuration', (_req: Request, res: Response) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+      scopes_supported: ['openid', 'email', 'profile', 'groups']
+    });
+  });
+
+  app.get('/jwks', (_req: Request, res: Response) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: keyId, use: 'sig', alg: 'RS256' }] });
+  });
+
+  // Signs in the user named by login_hint; without one, lists the users to pick from
+  app.get('/authorize', (req: Request, res: Response) => {
+    const query = req.query as Record<string, string | undefined>;
+    if (query.client_id !== options.clientId || query.response_type !== 'code' || !query.redirect_uri) {
+      res.status(400).send('invalid_request');
+      return;
+    }
+    if (query.code_challenge && query.code_challenge_method !== 'S256') {
+      res.status(400).send('invalid_request: only S256 code challenges are supported');
+      return;
+    }
+
+    const user = options.users.find(candidate => candidate.email === query.login_hint);
+    if (!user) {
+      const links = options.users.map(candidate => {
+        const url = new URL(`${issuer}/authorize`);
+        url.search = new URLSearchParams({ ...query, login_hint: candidate.email } as Record<string, string>).toString();
+        return `<li><a href="${escapeHtml(url.toString())}">${escapeHtml(candidate.name)} (${escapeHtml(candidate.email)}) - ${escapeHtml(candidate.groups.join(', '))}</a></li>`;
+      });
+      res.send(`<!doctype html><title>Mock identity provider</title><h1>Sign in as</h1><ul>${links.join('')}</ul>`);
+      return;
+    }
+
+    const code = randomBytes(24).toString('base64url');
+    codes.set(code, {
+      user,
+      redirectUri: query.redirect_uri,
+      ...(query.nonce ? { nonce: query.nonce } : {}),
+      ...(query.code_challenge ? { codeChallenge: query.code_challenge } : {}),
+      expiresAt: Date.now() + CODE_TTL_MS
+    });
+
+    const redirect = new URL(query.redirect_uri);
+    redirect.searchParams.set('code', code);
+    if (query.state) redirect.searchParams.set('state', query.state);
+    res.redirect(302, redirect.toString());
+  });
+
+  app.post('/token', (req: Request, res: Response) => {
+    const basic = /^Basic (.+)$/.exec(req.get('authorization') || '');
+    const [clientId, clientSecret] = basic
+      ? Buffer.from(basic[1]!, 'base64').toString().split(':').map(decodeURIComponent)
+      : [req.body.client_id, req.body.client_secret];
+    if (clientId !== options.clientId || clientSecret !== options.clientSecret) {
+      res.status(401).json({ error: 'invalid_client' });
+      return;
+    }
+
+    const pending = codes.get(req.body.code);
+    codes.delete(req.body.code);
+    if (req.body.grant_type !== 'authorization_code' || !pending || pending.expiresAt < Date.now()
+      || pending.redirectUri !== req.body.redirect_uri) {
+      res.status(400).json({ error: 'invalid_grant' });
+      return;
+    }
+    if (pending.codeChallenge) {
+      const challenge = createHash('sha256').update(String(req.body.code_verifier || '')).digest('base64url');
+      if (challenge !== pending.codeChallenge) {
+        res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+        return;
+      }
+    }
+
+    const { user } = pending;
+    res.json({
+      access_token: randomBytes(24).toString('base64url'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: signIdToken({
+        iss: issuer,
+        sub: user.sub,
+        aud: options.clientId,
+        ...(pending.nonce ? { nonce: pending.nonce } : {}),
+        email: user.email,
+        email_verified: user.emailVerified ?? true,
+        name: user.name,
+        groups: user.groups
+      })
+    });
+  });
+
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(options.port ?? 0, '127.0.0.1', () => resolve(listening));
+  });
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    close: () => new Promise((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+};
+
+/**
+ * CLI runner: `npm run mock-idp` serves the users in MOCK_OIDC_USERS (JSON) for the client
+ * configured in OIDC_CLIENT_ID / OIDC_CLIENT_SECRET
+ */
+if (require.main === module) {
+  dotenv.config();
+  const users: MockOidcUser[] = process.env.MOCK_OIDC_USERS
+    ? JSON.parse(process.env.MOCK_OIDC_USERS)
+    : [
+      { sub: 'mock-admin', email: 'admin@example.com', name: 'Mock Admin', groups: ['proctoring-admins'] },
+      { sub: 'mock-interviewer', email: 'interviewer@example.com', name: 'Mock Interviewer', groups: ['proctoring-interviewers'] }
+    ];
+
+  startMockOidcProvider({
+    clientId: process.env.OIDC_CLIENT_ID || 'video-proctoring',
+    clientSecret: process.env.OIDC_CLIENT_SECRET || 'mock-secret',
+    users,
+    port: Number(process.env.MOCK_OIDC_PORT) || 9400
+  })
+    .then(provider => {
+      console.log(`Mock identity provider listening at ${provider.issuer}`);
+      console.log(`Set OIDC_ISSUER=${provider.issuer} to sign in through it`);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,323 @@
+import net from 'net';
+import tls from 'tls';
+
+/**
+ * Minimal client for the Redis serialization protocol (RESP2): enough for the shared rate limit
+ * store, presence registry and Socket.IO adapter. Commands are pipelined over one connection,
+ * which is opened on first use and again after it drops.
+ */
+
+export type RedisReply = string | number | null | RedisReplyError | RedisReply[];
+export type RedisArgument = string | number;
+
+// An error reply (`-ERR ...`); a failed command rejects with it, inside EXEC it is an array element
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisReplyError';
+  }
+}
+
+export const encodeCommand = (args: RedisArgument[]): Buffer => {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)];
+  for (const arg of args) {
+    const value = Buffer.from(String(arg));
+    parts.push(Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n'));
+  }
+  return Buffer.concat(parts);
+};
+
+/**
+ * Incremental RESP2 reader: feed it socket chunks and take complete values out
+ */
+export class RespReader {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  public push(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+  }
+
+  // The next complete value, or undefined until more data arrives
+  public next(): { value: RedisReply } | undefined {
+    const parsed = this.parse(0);
+    if (!parsed) {
+      return undefined;
+    }
+    this.buffer = this.buffer.subarray(parsed.offset);
+    return { value: parsed.value };
+  }
+
+  private parse(offset: number): { value: RedisReply; offset: number } | undefined {
+    const lineEnd = this.buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) {
+      return undefined;
+    }
+    const type = String.fromCharCode(this.buffer[offset]!);
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+      case '+':
+        return { value: line, offset: next };
+      case '-':
+        return { value: new RedisReplyError(line), offset: next };
+      case ':':
+        return { value: Number(line), offset: next };
+      case '$': {
+        const length = Number(line);
+        if (length < 0) {
+          return { value: null, offset: next };
+        }
+        if (this.buffer.length < next + length + 2) {
+          return undefined;
+        }
+        return { value: this.buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+      }
+      case '*': {
+        const count = Number(line);
+        if (count < 0) {
+          return { value: null, offset: next };
+        }
+        const items: RedisReply[] = [];
+        let position = next;
+        for (let index = 0; index < count; index++) {
+          const item = this.parse(position);
+          if (!item) {
+            return undefined;
+          }
+          items.push(item.value);
+          position = item.offset;
+        }
+        return { value: items, offset: position };
+      }
+      default:
+        throw new Error(`Unexpected RESP type "${type}"`);
+    }
+  }
+}
+
+export interface RedisClientOptions {
+  // Give up on a connection attempt after this long
+  connectTimeoutMs?: number;
+  // Fail a command whose reply has not arrived after this long, and drop the connection
+  commandTimeoutMs?: number;
+}
+
+interface PendingReply {
+  resolve: (value: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+export type RedisSend = (...args: RedisArgument[]) => Promise<RedisReply>;
+
+export class RedisClient {
+  private readonly url: URL;
+  private readonly connectTimeoutMs: number;
+  private readonly commandTimeoutMs: number;
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  // Replies awaited on each connection, in the order its commands were written
+  private readonly pending = new WeakMap<net.Socket, PendingReply[]>();
+  // Commands wait behind an exclusive block (WATCH ... EXEC) so they do not land inside its transaction
+  private gate: Promise<void> = Promise.resolve();
+  private closed = false;
+  // Set by the first subscribe; from then on the connection only serves subscriptions
+  private subscriber = false;
+  private readonly subscriptions = new Map<string, (message: string) => void>();
+
+  constructor(url: string, options: RedisClientOptions = {}) {
+    this.url = new URL(url);
+    if (this.url.protocol !== 'redis:' && this.url.protocol !== 'rediss:') {
+      throw new Error(`Unsupported Redis URL "${url}"; expected redis:// or rediss://`);
+    }
+    this.connectTimeoutMs = options.connectTimeoutMs ?? 5000;
+    this.commandTimeoutMs = options.commandTimeoutMs ?? 2000;
+  }
+
+  public command(...args: RedisArgument[]): Promise<RedisReply> {
+    return this.gate.then(() => this.send(args));
+  }
+
+  /**
+   * Writes commands back to back, so no other caller's command lands between them (e.g. a
+   * MULTI ... EXEC transaction), without holding the connection while their replies come back
+   */
+  public pipeline(commands: RedisArgument[][]): Promise<RedisReply[]> {
+    return this.gate.then(async () => {
+      const socket = await this.connection();
+      return Promise.all(commands.map(command => this.write(socket, command)));
+    });
+  }
+
+  /**
+   * Runs `block` with the connection to itself, for optimistic transactions: WATCH keys
+   * set by this client are not disturbed by its other callers' commands meanwhile
+   */
+  public exclusive<T>(block: (send: RedisSend) => Promise<T>): Promise<T> {
+    const result = this.gate.then(() => block((...args) => this.send(args)));
+    this.gate = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  /**
+   * Delivers messages published on channel to listener. Subscribing puts the connection in
+   * subscriber mode, so keep a separate client for other commands. Subscriptions are restored
+   * when a dropped connection comes back.
+   */
+  public async subscribe(channel: string, listener: (message: string) => void): Promise<void> {
+    this.subscriber = true;
+    this.subscriptions.set(channel, listener);
+    await this.command('SUBSCRIBE', channel);
+  }
+
+  public async unsubscribe(channel: string): Promise<void> {
+    if (this.subscriptions.delete(channel)) {
+      await this.command('UNSUBSCRIBE', channel);
+    }
+  }
+
+  public async quit(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.subscriptions.clear();
+    if (this.socket || this.connecting) {
+      // Queued behind commands already issued, so those still go out
+      await this.command('QUIT').catch(() => undefined);
+    }
+    this.closed = true;
+    this.socket?.destroy();
+  }
+
+  private async send(args: RedisArgument[]): Promise<RedisReply> {
+    const socket = await this.connection();
+    return this.write(socket, args);
+  }
+
+  private write(socket: net.Socket, args: RedisArgument[]): Promise<RedisReply> {
+    const queue = this.pending.get(socket);
+    if (!queue || socket.destroyed) {
+      return Promise.reject(new Error('Redis connection closed'));
+    }
+    return new Promise<RedisReply>((resolve, reject) => {
+      // Replies arrive in order, so one that never comes leaves the connection unusable;
+      // closing it fails the replies queued behind and the next command reconnects
+      const timer = setTimeout(() => {
+        reject(new Error(`Redis did not answer ${args[0]} within ${this.commandTimeoutMs}ms`));
+        socket.destroy();
+      }, this.commandTimeoutMs);
+      timer.unref();
+      queue.push({
+        resolve: (value) => {
+          clearTimeout(timer);
+          value instanceof RedisReplyError ? reject(value) : resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connection(): Promise<net.Socket> {
+    if (this.closed) {
+      return Promise.reject(new Error('Redis client is closed'));
+    }
+    // A connection dropped after a command timed out is replaced before its close event comes in
+    if (this.socket && !this.socket.destroyed) {
+      return Promise.resolve(this.socket);
+    }
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async connect(): Promise<net.Socket> {
+    const host = this.url.hostname || '127.0.0.1';
+    const port = Number(this.url.port) || 6379;
+    const socket = this.url.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    const reader = new RespReader();
+    const pending: PendingReply[] = [];
+    this.pending.set(socket, pending);
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Timed out connecting to Redis at ${host}:${port}`));
+      }, this.connectTimeoutMs);
+      socket.once(this.url.protocol === 'rediss:' ? 'secureConnect' : 'connect', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      socket.once('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+
+    socket.setNoDelay(true);
+    socket.on('data', (chunk: Buffer) => {
+      reader.push(chunk);
+      let reply = reader.next();
+      while (reply) {
+        const value = reply.value;
+        if (this.subscriber && Array.isArray(value) && value[0] === 'message') {
+          this.subscriptions.get(String(value[1]))?.(String(value[2]));
+        } else {
+          pending.shift()?.resolve(value);
+        }
+        reply = reader.next();
+      }
+    });
+    socket.on('error', () => {
+      // Surfaced to callers through the close below
+    });
+    socket.on('close', () => {
+      const established = this.socket === socket;
+      if (established) {
+        this.socket = null;
+      }
+      const error = new Error('Redis connection closed');
+      pending.splice(0).forEach(reply => reply.reject(error));
+      // Nothing else would reconnect a client that only listens
+      if (established && this.subscriptions.size > 0 && !this.closed) {
+        this.reconnectLater(1000);
+      }
+    });
+
+    const password = decodeURIComponent(this.url.password);
+    const username = decodeURIComponent(this.url.username);
+    const database = Number(this.url.pathname.slice(1));
+    try {
+      if (password) {
+        await this.write(socket, username ? ['AUTH', username, password] : ['AUTH', password]);
+      }
+      if (database) {
+        await this.write(socket, ['SELECT', database]);
+      }
+      for (const channel of this.subscriptions.keys()) {
+        await this.write(socket, ['SUBSCRIBE', channel]);
+      }
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    this.socket = socket;
+    return socket;
+  }
+
+  private reconnectLater(delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.connection().catch(() => this.reconnectLater(Math.min(delayMs * 2, 30000)));
+    }, delayMs);
+    timer.unref();
+  }
+}
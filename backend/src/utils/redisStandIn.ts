@@ -0,0 +1,367 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+import dotenv from 'dotenv';
+import { RedisReply, RedisReplyError, RespReader } from './redisClient';
+
+/**
+ * In-process stand-in for a Redis server, speaking RESP2 over TCP, for development and
+ * integration tests: string and set keys with expiry, counters, optimistic transactions
+ * (WATCH/MULTI/EXEC) and pub/sub channels. One keyspace shared by every database number.
+ * Not for production use.
+ */
+
+export interface RedisStandInOptions {
+  // 0 picks a free port
+  port?: number;
+  // Require AUTH with this password (any user name)
+  password?: string;
+}
+
+export interface RedisStandIn {
+  url: string;
+  close(): Promise<void>;
+}
+
+interface Entry {
+  value: string | Set<string>;
+  expiresAt?: number;
+}
+
+interface Connection {
+  socket: net.Socket;
+  authenticated: boolean;
+  // Channels this connection is subscribed to; while any, only pub/sub commands are accepted
+  channels: Set<string>;
+  // Key versions at WATCH time; EXEC fails when any has moved on
+  watched: Map<string, number>;
+  queued: string[][] | null;
+  aborted: boolean;
+}
+
+// Simple string replies (+OK) as opposed to bulk strings
+class Status {
+  constructor(readonly text: string) {}
+}
+
+// Several replies to one command, as SUBSCRIBE sends one per channel
+class Replies {
+  constructor(readonly items: Reply[]) {}
+}
+
+type Reply = RedisReply | Status | Replies | Reply[];
+
+const OK = new Status('OK');
+
+const encodeReply = (reply: Reply): string => {
+  if (reply === null) return '$-1\r\n';
+  if (reply instanceof Status) return `+${reply.text}\r\n`;
+  if (reply instanceof Replies) return reply.items.map(encodeReply).join('');
+  if (reply instanceof RedisReplyError) return `-${reply.message}\r\n`;
+  if (typeof reply === 'number') return `:${reply}\r\n`;
+  if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map(encodeReply).join('')}`;
+  return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+};
+
+const syntaxError = () => new RedisReplyError('ERR syntax error');
+const integerError = () => new RedisReplyError('ERR value is not an integer or out of range');
+const typeError = () => new RedisReplyError('WRONGTYPE Operation against a key holding the wrong kind of value');
+
+const toInteger = (value: string | undefined): number | null =>
+  value !== undefined && /^-?\d+$/.test(value) ? Number(value) : null;
+
+export const startRedisStandIn = async (options: RedisStandInOptions = {}): Promise<RedisStandIn> => {
+  const entries = new Map<string, Entry>();
+  const versions = new Map<string, number>();
+  const sockets = new Set<net.Socket>();
+  const subscribers = new Map<string, Set<Connection>>();
+
+  const touch = (key: string) => versions.set(key, (versions.get(key) ?? 0) + 1);
+
+  // The entry under key, dropping it once expired
+  const live = (key: string): Entry | undefined => {
+    const entry = entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      touch(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const write = (key: string, entry: Entry) => {
+    entries.set(key, entry);
+    touch(key);
+  };
+
+  // The set under key (empty when absent), or a reply for a key of another type
+  const setAt = (key: string): Set<string> | RedisReplyError => {
+    const value = live(key)?.value ?? new Set<string>();
+    return value instanceof Set ? value : typeError();
+  };
+
+  const incrementBy = (key: string, by: number | null): Reply => {
+    if (by === null) return integerError();
+    const entry = live(key);
+    const value = entry?.value;
+    if (value instanceof Set) return typeError();
+    const current = value === undefined ? 0 : toInteger(value);
+    if (current === null) return integerError();
+    write(key, { ...entry, value: String(current + by) });
+    return current + by;
+  };
+
+  const expire = (key: string, ms: number | null): Reply => {
+    if (ms === null) return integerError();
+    const entry = live(key);
+    if (!entry) return 0;
+    write(key, { ...entry, expiresAt: Date.now() + ms });
+    return 1;
+  };
+
+  const ttl = (key: string, unitMs: number): Reply => {
+    const entry = live(key);
+    if (!entry) return -2;
+    if (entry.expiresAt === undefined) return -1;
+    return Math.ceil((entry.expiresAt - Date.now()) / unitMs);
+  };
+
+  const set = (args: string[]): Reply => {
+    const [key, value, ...flags] = args;
+    if (key === undefined || value === undefined) return syntaxError();
+    let expiresAt: number | undefined;
+    let condition: 'NX' | 'XX' | undefined;
+    for (let index = 0; index < flags.length; index++) {
+      const flag = flags[index]!.toUpperCase();
+      if (flag === 'NX' || flag === 'XX') {
+        condition = flag;
+      } else if (flag === 'PX' || flag === 'EX') {
+        const amount = toInteger(flags[++index]);
+        if (amount === null || amount <= 0) return syntaxError();
+        expiresAt = Date.now() + amount * (flag === 'EX' ? 1000 : 1);
+      } else {
+        return syntaxError();
+      }
+    }
+    const exists = live(key) !== undefined;
+    if ((condition === 'NX' && exists) || (condition === 'XX' && !exists)) return null;
+    write(key, expiresAt === undefined ? { value } : { value, expiresAt });
+    return OK;
+  };
+
+  // Commands that read or write data, valid inside MULTI
+  const commands: Record<string, (args: string[]) => Reply> = {
+    PING: (args) => args[0] ?? new Status('PONG'),
+    GET: ([key]) => {
+      const value = key === undefined ? syntaxError() : live(key)?.value ?? null;
+      return value instanceof Set ? typeError() : value;
+    },
+    MGET: (keys) => keys.map(key => {
+      const value = live(key)?.value;
+      return typeof value === 'string' ? value : null;
+    }),
+    SET: set,
+    INCR: ([key]) => incrementBy(key!, 1),
+    INCRBY: ([key, by]) => incrementBy(key!, toInteger(by)),
+    DECR: ([key]) => incrementBy(key!, -1),
+    DECRBY: ([key, by]) => {
+      const amount = toInteger(by);
+      return incrementBy(key!, amount === null ? null : -amount);
+    },
+    PEXPIRE: ([key, ms]) => expire(key!, toInteger(ms)),
+    EXPIRE: ([key, seconds]) => {
+      const amount = toInteger(seconds);
+      return expire(key!, amount === null ? null : amount * 1000);
+    },
+    PTTL: ([key]) => ttl(key!, 1),
+    TTL: ([key]) => ttl(key!, 1000),
+    EXISTS: (keys) => keys.filter(key => live(key) !== undefined).length,
+    DEL: (keys) => keys.filter(key => {
+      if (!live(key)) return false;
+      entries.delete(key);
+      touch(key);
+      return true;
+    }).length,
+    SADD: ([key, ...members]) => {
+      const set = setAt(key!);
+      if (set instanceof RedisReplyError) return set;
+      const added = members.filter(member => !set.has(member) && set.add(member)).length;
+      write(key!, { ...live(key!), value: set });
+      return added;
+    },
+    SREM: ([key, ...members]) => {
+      const set = setAt(key!);
+      if (set instanceof RedisReplyError) return set;
+      const removed = members.filter(member => set.delete(member)).length;
+      if (set.size === 0) {
+        entries.delete(key!);
+      }
+      touch(key!);
+      return removed;
+    },
+    SMEMBERS: ([key]) => {
+      const set = setAt(key!);
+      return set instanceof RedisReplyError ? set : [...set];
+    },
+    SCARD: ([key]) => {
+      const set = setAt(key!);
+      return set instanceof RedisReplyError ? set : set.size;
+    },
+    PUBLISH: ([channel, message]) => {
+      const receivers = [...subscribers.get(channel!) ?? []];
+      receivers.forEach(receiver => receiver.socket.write(encodeReply(['message', channel!, message!])));
+      return receivers.length;
+    },
+    FLUSHALL: () => {
+      [...entries.keys()].forEach(touch);
+      entries.clear();
+      return OK;
+    }
+  };
+
+  const execute = (connection: Connection, name: string, args: string[]): Reply => {
+    if (name === 'AUTH') {
+      const password = args[args.length - 1];
+      if (!options.password || password !== options.password) {
+        return new RedisReplyError('WRONGPASS invalid username-password pair or user is disabled.');
+      }
+      connection.authenticated = true;
+      return OK;
+    }
+    if (!connection.authenticated) {
+      return new RedisReplyError('NOAUTH Authentication required.');
+    }
+
+    switch (name) {
+      case 'SUBSCRIBE':
+        return new Replies(args.map(channel => {
+          connection.channels.add(channel);
+          subscribers.set(channel, (subscribers.get(channel) ?? new Set()).add(connection));
+          return ['subscribe', channel, connection.channels.size];
+        }));
+      case 'UNSUBSCRIBE':
+        return new Replies((args.length ? args : [...connection.channels]).map(channel => {
+          connection.channels.delete(channel);
+          subscribers.get(channel)?.delete(connection);
+          return ['unsubscribe', channel, connection.channels.size];
+        }));
+    }
+    if (connection.channels.size > 0 && name !== 'PING') {
+      return new RedisReplyError(`ERR Can't execute '${name.toLowerCase()}': only (P|S)SUBSCRIBE / (P|S)UNSUBSCRIBE / PING / QUIT are allowed in this context`);
+    }
+
+    switch (name) {
+      case 'SELECT':
+        return toInteger(args[0]) === null ? integerError() : OK;
+      case 'MULTI':
+        if (connection.queued) return new RedisReplyError('ERR MULTI calls can not be nested');
+        connection.queued = [];
+        return OK;
+      case 'WATCH':
+        if (connection.queued) return new RedisReplyError('ERR WATCH inside MULTI is not allowed');
+        args.forEach(key => {
+          live(key);
+          connection.watched.set(key, versions.get(key) ?? 0);
+        });
+        return OK;
+      case 'UNWATCH':
+        connection.watched.clear();
+        return OK;
+      case 'DISCARD':
+        if (!connection.queued) return new RedisReplyError('ERR DISCARD without MULTI');
+        connection.queued = null;
+        connection.aborted = false;
+        connection.watched.clear();
+        return OK;
+      case 'EXEC': {
+        const queued = connection.queued;
+        if (!queued) return new RedisReplyError('ERR EXEC without MULTI');
+        const aborted = connection.aborted;
+        const unchanged = [...connection.watched].every(([key, version]) => {
+          live(key);
+          return (versions.get(key) ?? 0) === version;
+        });
+        connection.queued = null;
+        connection.aborted = false;
+        connection.watched.clear();
+        if (aborted) return new RedisReplyError('EXECABORT Transaction discarded because of previous errors.');
+        if (!unchanged) return null;
+        return queued.map(([command, ...commandArgs]) => commands[command!]!(commandArgs));
+      }
+    }
+
+    const command = commands[name];
+    if (!command) {
+      if (connection.queued) connection.aborted = true;
+      return new RedisReplyError(`ERR unknown command '${name.toLowerCase()}'`);
+    }
+    if (connection.queued) {
+      connection.queued.push([name, ...args]);
+      return new Status('QUEUED');
+    }
+    return command(args);
+  };
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    const reader = new RespReader();
+    const connection: Connection = {
+      socket,
+      authenticated: !options.password,
+      channels: new Set(),
+      watched: new Map(),
+      queued: null,
+      aborted: false
+    };
+
+    socket.on('data', (chunk: Buffer) => {
+      reader.push(chunk);
+      let request = reader.next();
+      while (request) {
+        const [name, ...args] = Array.isArray(request.value) ? request.value.map(String) : [];
+        if (!name) {
+          socket.end(encodeReply(new RedisReplyError('ERR Protocol error: expected an array of bulk strings')));
+          return;
+        }
+        if (name.toUpperCase() === 'QUIT') {
+          socket.end(encodeReply(OK));
+          return;
+        }
+        socket.write(encodeReply(execute(connection, name.toUpperCase(), args)));
+        request = reader.next();
+      }
+    });
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      sockets.delete(socket);
+      connection.channels.forEach(channel => subscribers.get(channel)?.delete(connection));
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+  const credentials = options.password ? `:${encodeURIComponent(options.password)}@` : '';
+
+  return {
+    url: `redis://${credentials}127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(() => resolve());
+    })
+  };
+};
+
+if (require.main === module) {
+  dotenv.config();
+  startRedisStandIn({ port: Number(process.env.REDIS_STAND_IN_PORT) || 6379 })
+    .then(standIn => {
+      console.log(`Redis stand-in listening at ${standIn.url}`);
+      console.log(`Set REDIS_URL=${standIn.url} to share rate limits and WebSocket presence between local replicas`);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
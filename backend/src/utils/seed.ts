@@ -2,6 +2,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { DetectionEvent, InterviewSession, ProctoringReport } from '../models';
 import { EventType, SessionStatus, UnauthorizedItemType } from '../types';
 import { connectToDatabase, disconnectFromDatabase } from './database';
+import { OrganizationService } from '../services/organizationService';
 
 /**
  * Generate sample detection events for a session
@@ -221,6 +222,9 @@ export async function seedDatabase(): Promise<void> {
     console.log('Inserting proctoring reports...');
     const insertedReports = await ProctoringReport.insertMany(reports);
     console.log(`Inserted ${insertedReports.length} proctoring reports`);
+
+    // Sample data belongs to the default organization
+    await OrganizationService.ensureDefaultOrganization();
     
     console.log('Database seeding completed successfully!');
     
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { once } from 'events';
+
+const BLOCK_SIZE = 512;
+
+const octal = (value: number, length: number): string =>
+  value.toString(8).padStart(length - 1, '0') + '\0';
+
+/**
+ * POSIX ustar header for a regular file. Names longer than 100 bytes are split into prefix and name.
+ */
+const header = (name: string, size: number, mtime: Date): Buffer => {
+  const block = Buffer.alloc(BLOCK_SIZE);
+  let prefix = '';
+  if (Buffer.byteLength(name) > 100) {
+    const split = name.lastIndexOf('/', 155);
+    if (split <= 0 || Buffer.byteLength(name.slice(split + 1)) > 100) {
+      throw new Error(`Archive entry name too long: ${name}`);
+    }
+    prefix = name.slice(0, split);
+    name = name.slice(split + 1);
+  }
+
+  block.write(name, 0, 100, 'utf8');
+  block.write(octal(0o644, 8), 100, 'ascii');
+  block.write(octal(0, 8), 108, 'ascii');
+  block.write(octal(0, 8), 116, 'ascii');
+  block.write(octal(size, 12), 124, 'ascii');
+  block.write(octal(Math.floor(mtime.getTime() / 1000), 12), 136, 'ascii');
+  block.fill(' ', 148, 156); // checksum is computed with its own field as spaces
+  block.write('0', 156, 'ascii');
+  block.write('ustar\0', 257, 'ascii');
+  block.write('00', 263, 'ascii');
+  block.write(prefix, 345, 155, 'utf8');
+
+  let checksum = 0;
+  for (const byte of block) checksum += byte;
+  block.write(octal(checksum, 7) + ' ', 148, 'ascii');
+  return block;
+};
+
+/**
+ * Streams a gzip-compressed tar archive to a file, one entry at a time,
+ * and keeps a SHA-256 of the finished archive.
+ */
+export class TarArchiveWriter {
+  private readonly gzip = zlib.createGzip();
+  private readonly output: fs.WriteStream;
+  private readonly hash = createHash('sha256');
+
+  constructor(filePath: string) {
+    this.output = fs.createWriteStream(filePath);
+    this.gzip.on('data', chunk => this.hash.update(chunk));
+    this.gzip.pipe(this.output);
+  }
+
+  async addBuffer(name: string, content: Buffer, mtime: Date = new Date()): Promise<void> {
+    await this.write(header(name, content.length, mtime));
+    await this.write(content);
+    await this.pad(content.length);
+  }
+
+  async addJson(name: string, value: unknown, mtime?: Date): Promise<void> {
+    await this.addBuffer(name, Buffer.from(JSON.stringify(value, null, 2)), mtime);
+  }
+
+  /**
+     * Add a stream whose length is known up front; a stream of a different length is an error
+     */
+  async addStream(name: string, size: number, stream: Readable, mtime: Date = new Date()): Promise<void> {
+    await this.write(header(name, size, mtime));
+    let written = 0;
+    for await (const chunk of stream) {
+      written += chunk.length;
+      await this.write(chunk);
+    }
+    if (written !== size) {
+      throw new Error(`Archive entry ${name} was ${written} bytes, expected ${size}`);
+    }
+    await this.pad(size);
+  }
+
+  async addFile(name: string, filePath: string): Promise<void> {
+    const stats = await fs.promises.stat(filePath);
+    await this.addStream(name, stats.size, fs.createReadStream(filePath), stats.mtime);
+  }
+
+  /**
+     * Write the end-of-archive marker and wait for the file to be flushed.
+     * Returns the hex SHA-256 of the compressed archive.
+     */
+  async finish(): Promise<string> {
+    await this.write(Buffer.alloc(BLOCK_SIZE * 2));
+    this.gzip.end();
+    await once(this.output, 'close');
+    return this.hash.digest('hex');
+  }
+
+  private async pad(size: number): Promise<void> {
+    const remainder = size % BLOCK_SIZE;
+    if (remainder) {
+      await this.write(Buffer.alloc(BLOCK_SIZE - remainder));
+    }
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    if (!this.gzip.write(chunk)) {
+      await once(this.gzip, 'drain');
+    }
+  }
+}
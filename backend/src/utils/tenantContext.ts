@@ -0,0 +1,32 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface TenantContext {
+  organizationId?: string | undefined;
+  // Super admins and system tasks may read across organizations
+  crossTenant: boolean;
+}
+
+const storage = new AsyncLocalStorage<TenantContext>();
+
+/**
+ * Run a callback (and everything it awaits) scoped to an organization
+ */
+export const runWithTenant = <T>(context: TenantContext, callback: () => T): T =>
+  storage.run(context, callback);
+
+/**
+ * Run a callback with tenant scoping disabled, e.g. for startup migrations
+ */
+export const runAcrossTenants = <T>(callback: () => T): T =>
+  storage.run({ crossTenant: true }, callback);
+
+export const getTenantContext = (): TenantContext | undefined => storage.getStore();
+
+/**
+ * Organization that queries should currently be limited to, if any.
+ * Code running outside a request (workers, scripts) is not scoped.
+ */
+export const getScopedOrganizationId = (): string | undefined => {
+  const context = storage.getStore();
+  return context && !context.crossTenant ? context.organizationId : undefined;
+};
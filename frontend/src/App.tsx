@@ -2,7 +2,7 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
 import { Toaster } from './components/ui/sonner';
-import { AuthPage, ProtectedRoute } from './components/auth';
+import { AuthPage, ProtectedRoute, SsoCallback } from './components/auth';
 import { CandidateDashboard, InterviewerDashboard } from './components/dashboard';
 import ReportDashboardPage from './components/dashboard/ReportDashboardPage';
 
@@ -14,6 +14,7 @@ function App() {
           <Routes>
             {/* Public Routes */}
             <Route path="/auth" element={<AuthPage />} />
+            <Route path="/auth/sso" element={<SsoCallback />} />
             
             {/* Protected Routes */}
             <Route
@@ -1,17 +1,30 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { VideoStreamComponent } from './VideoStreamComponent';
+import { SystemCheckWizard } from './SystemCheckWizard';
+import { IdentityCheckStep } from './IdentityCheckStep';
 import { useFaceDetection } from '../hooks/useFaceDetection';
 import { useComputerVision } from '../hooks/useComputerVision';
 import { apiService } from '../services/apiService';
 import { useEnhancedMonitoring } from '../hooks/useEnhancedMonitoring';
+import { useIdentityVerification } from '../hooks/useIdentityVerification';
 import { faceMeshService } from '../services/faceMeshService';
 import type { FaceLandmarks } from '../types';
-import { ENHANCED_MONITORING_CONFIG } from '../config/cvConfig';
+import { ENHANCED_MONITORING_CONFIG, IDENTITY_VERIFICATION_CONFIG } from '../config/cvConfig';
 import type { CVWorkerLightResult } from '../types';
 import { useScreenRecording } from '../hooks/useScreenRecording';
 import { io } from 'socket.io-client';
-import type { InterviewSession, DetectionEvent, FocusStatus, UnauthorizedItem } from '../types';
+import type {
+  InterviewSession,
+  DetectionEvent,
+  FocusStatus,
+  UnauthorizedItem,
+  SystemCheckInput,
+  IdentityVerificationStatus
+} from '../types';
+
+const CONNECTION_WAIT_MS = 10000;
+const PONG_TIMEOUT_MS = 5000;
 
 interface CandidateInterfaceProps {
   sessionId?: string;
@@ -70,6 +83,15 @@ export const CandidateInterface: React.FC<CandidateInterfaceProps> = ({
   const isLeavingRef = useRef<boolean>(false); // Track if we're already in the process of leaving
   const lastDrowsinessAtRef = useRef<number>(0);
   const lastWorkerLandmarksAtRef = useRef<number>(0);
+  // Detection events produced while the system check exercises the pipeline are not reported
+  const systemCheckDoneRef = useRef<boolean>(false);
+  const [systemCheckDone, setSystemCheckDone] = useState(false);
+  const [baselineNoiseLevel, setBaselineNoiseLevel] = useState<number | undefined>(undefined);
+  const [identityCheckDone, setIdentityCheckDone] = useState(false);
+  const lastIdentityCheckAtRef = useRef<number>(0);
+  const identityCheckInFlightRef = useRef<boolean>(false);
+  // Last known verification status, read by socket handlers registered before it changes
+  const identityStatusRef = useRef<IdentityVerificationStatus | undefined>(undefined);
 
   // Enhanced monitoring (drowsiness + audio)
   const {
@@ -80,7 +102,8 @@ export const CandidateInterface: React.FC<CandidateInterfaceProps> = ({
   } = useEnhancedMonitoring({
     sessionId: sessionState.session?.sessionId || '',
     candidateId: sessionState.session?.candidateId || '',
-    onDetectionEvent: handleDetectionEvent
+    onDetectionEvent: handleDetectionEvent,
+    baselineNoiseLevel
   });
 
   // Screen recording hook (uploads chunks to backend)
@@ -113,6 +136,11 @@ export const CandidateInterface: React.FC<CandidateInterfaceProps> = ({
     }
   });
 
+  // Reference photo matching before and during the interview
+  const { verify: verifyIdentity } = useIdentityVerification({
+    sessionId: sessionState.session?.sessionId
+  });
+
   // Check if detection services are running
   const isDetecting = isFaceDetectionInitialized && isComputerVisionInitialized;
 
@@ -131,6 +159,10 @@ export const CandidateInterface: React.FC<CandidateInterfaceProps> = ({
 
   // Handle detection events
   function handleDetectionEvent(event: DetectionEvent) {
+    if (!systemCheckDoneRef.current) {
+      return;
+    }
+
     // Send event to backend API for storage
     sendEventToBackend(event);
     
@@ -178,6 +210,8 @@ export const CandidateInterface: React.FC<CandidateInterfaceProps> = ({
       showNotification('Multiple voices detected simultaneously. This is not allowed.', 'error', 7000, 'multiple-voices', 10000);
     } else if (event.eventType === 'excessive-noise') {
       showNotification('High background noise detected. Please move to a quieter place.', 'info', 5000, 'excessive-noise', 8000);
+    } else if (event.eventType === 'identity-mismatch') {
+      showNotification('We could not confirm your identity. Please face the camera directly.', 'warning', 6000, 'identity-mismatch', 10000);
     }
   }
 
@@ -242,6 +276,13 @@ export const CandidateInterface: React.FC<CandidateInterfaceProps> = ({
 
       const session: InterviewSession = sessionData.data;
 
+      // A candidate rejoining after a reload keeps the check they already passed
+      if (session.systemCheck) {
+        completeSystemCheck(session.systemCheck.audio.baselineNoiseLevel);
+      }
+
+      identityStatusRef.current = session.identityVerification?.status;
+
       setSessionState({
         session,
         isSessionActive: session.status === 'active',
@@ -388,9 +429,8 @@ export const CandidateInterface: React.FC<CandidateInterfaceProps> = ({
     try {
       const socketUrl = import.meta.env.VITE_WS_URL || import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000';
       const socket = io(socketUrl, {
-        auth: {
-          token: authState.token
-        },
+        // Read the token on every (re)connect so a silently refreshed one is used
+        auth: (cb) => cb({ token: localStorage.getItem('auth_token') }),
         transports: ['websocket', 'polling'],
         timeout: 10000,
         forceNew: true
@@ -427,6 +467,18 @@ export const CandidateInterface: React.FC<CandidateInterfaceProps> = ({
         handleWebSocketMessage({ type: 'interviewer_message', data });
       });
 
+      // The interviewer may upload or replace the reference photo after the candidate joined
+      socket.on('identity_verification_updated', (data) => {
+        // Candidates already in the interview are covered by the periodic re-checks instead
+        if (systemCheckDoneRef.current && identityStatusRef.current !== 'pending') {
+          setIdentityCheckDone(true);
+        }
+        identityStatusRef.current = data.identityVerification?.status;
+        setSessionState(prev => prev.session
+          ? { ...prev, session: { ...prev.session, identityVerification: data.identityVerification } }
+          : prev);
+      });
+
       // WebRTC signaling events
       socket.on('video_stream_offer', handleVideoOffer);
       socket.on('video_stream_answer', handleVideoAnswer);
@@ -441,6 +493,49 @@ export const CandidateInterface: React.FC<CandidateInterfaceProps> = ({
     }
   };
 
+  const completeSystemCheck = (noiseLevel: number) => {
+    systemCheckDoneRef.current = true;
+    setBaselineNoiseLevel(noiseLevel);
+    setSystemCheckDone(true);
+  };
+
+  // Round trip over the session socket, used by the system check
+  const checkConnection = useCallback(async (): Promise<number | null> => {
+    const deadline = Date.now() + CONNECTION_WAIT_MS;
+    while (!wsRef.current?.connected && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+    const socket = wsRef.current;
+    if (!socket?.connected) {
+      return null;
+    }
+
+    return new Promise(resolve => {
+      const startedAt = performance.now();
+      const onPong = () => {
+        clearTimeout(timer);
+        resolve(Math.round(performance.now() - startedAt));
+      };
+      const timer = setTimeout(() => {
+        socket.off('pong', onPong);
+        resolve(null);
+      }, PONG_TIMEOUT_MS);
+      socket.once('pong', onPong);
+      socket.emit('ping');
+    });
+  }, []);
+
+  const handleSystemCheckComplete = async (result: SystemCheckInput) => {
+    try {
+      await apiService.post(`/api/sessions/${sessionState.session!.sessionId}/system-check`, result);
+    } catch (error) {
+      // The interview can go ahead; the interviewer just won't see the results
+      console.error('Failed to save system check:', error);
+      showNotification('Your system check results could not be saved.', 'warning', 5000);
+    }
+    completeSystemCheck(result.audio.baselineNoiseLevel);
+  };
+
   // Handle WebSocket messages
   const handleWebSocketMessage = (message: any) => {
     switch (message.type) {
@@ -541,7 +636,12 @@ export const CandidateInterface: React.FC<CandidateInterfaceProps> = ({
           
           isLeavingRef.current = true; // Mark that we're starting the leave process
           
-          if (message.data.status === 'completed') {
+          if (message.data.reason === 'max_duration') {
+            showNotification(
+              'The interview reached its maximum duration and has ended. You will be redirected to the dashboard.',
+              'info'
+            );
+          } else if (message.data.status === 'completed') {
             showNotification(
               'Interview session has been completed by the interviewer. You will be redirected to the dashboard.',
               'info'
@@ -671,6 +771,22 @@ export const CandidateInterface: React.FC<CandidateInterfaceProps> = ({
           if (import.meta.env.DEV) console.debug('Enhanced monitoring frame process error:', e);
         }
         
+        // Periodic identity re-check against the reference photo (runs in the background; the server logs mismatches)
+        const nowMs = Date.now();
+        if (sessionState.session?.identityVerification && !identityCheckInFlightRef.current) {
+          if (lastIdentityCheckAtRef.current === 0) {
+            lastIdentityCheckAtRef.current = nowMs;
+          } else if (nowMs - lastIdentityCheckAtRef.current >= IDENTITY_VERIFICATION_CONFIG.recheckInterval) {
+            lastIdentityCheckAtRef.current = nowMs;
+            identityCheckInFlightRef.current = true;
+            verifyIdentity(imageData, 'periodic')
+              .catch(() => undefined)
+              .finally(() => {
+                identityCheckInFlightRef.current = false;
+              });
+          }
+        }
+
         // Log processing performance for monitoring
         const processingTime = performance.now() - startTime;
         
@@ -686,11 +802,11 @@ export const CandidateInterface: React.FC<CandidateInterfaceProps> = ({
         // Don't stop the entire system for processing errors
       }
     }
-  }, [isDetecting, sessionControls.isSessionActive, processFaceFrame, processComputerVisionFrame, isEnhancedMonitoring, processDrowsinessLandmarks, sessionState.session]);
+  }, [isDetecting, sessionControls.isSessionActive, processFaceFrame, processComputerVisionFrame, isEnhancedMonitoring, processDrowsinessLandmarks, sessionState.session, verifyIdentity]);
 
   // Start enhanced monitoring when session is available and active
   useEffect(() => {
-    if (!isEnhancedMonitoring && sessionState.session && sessionControls.isSessionActive) {
+    if (!isEnhancedMonitoring && systemCheckDone && sessionState.session && sessionControls.isSessionActive) {
       (async () => {
         try {
           await startEnhancedMonitoring();
@@ -699,7 +815,7 @@ export const CandidateInterface: React.FC<CandidateInterfaceProps> = ({
         }
       })();
     }
-  }, [isEnhancedMonitoring, sessionState.session, sessionControls.isSessionActive, startEnhancedMonitoring]);
+  }, [isEnhancedMonitoring, systemCheckDone, sessionState.session, sessionControls.isSessionActive, startEnhancedMonitoring]);
 
   // Memoized callbacks for VideoStreamComponent
   const handleStreamStart = useCallback((stream: MediaStream) => {
@@ -807,6 +923,31 @@ export const CandidateInterface: React.FC<CandidateInterfaceProps> = ({
     );
   }
 
+  // Check the candidate's devices and connection before monitoring starts
+  if (sessionState.session && sessionControls.isSessionActive && !systemCheckDone) {
+    return (
+      <SystemCheckWizard
+        processFrame={processComputerVisionFrame}
+        isVisionReady={isComputerVisionInitialized}
+        checkConnection={checkConnection}
+        onComplete={handleSystemCheckComplete}
+      />
+    );
+  }
+
+  // Confirm the candidate matches the reference photo, when the interviewer uploaded one
+  if (sessionState.session?.identityVerification?.status === 'pending' && sessionControls.isSessionActive && !identityCheckDone) {
+    return (
+      <IdentityCheckStep
+        verify={verifyIdentity}
+        onComplete={() => {
+          lastIdentityCheckAtRef.current = Date.now();
+          setIdentityCheckDone(true);
+        }}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -0,0 +1,152 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { CheckCircle, XCircle, Loader2, Camera } from 'lucide-react';
+import { IDENTITY_VERIFICATION_CONFIG } from '../config/cvConfig';
+import type { IdentityCheckOutcome } from '../hooks/useIdentityVerification';
+
+interface IdentityCheckStepProps {
+  verify: (imageData: ImageData, phase: 'initial') => Promise<IdentityCheckOutcome>;
+  onComplete: () => void;
+}
+
+type StepState =
+  | { kind: 'ready' }
+  | { kind: 'checking' }
+  | { kind: 'retry'; message: string }
+  | { kind: 'verified' }
+  | { kind: 'failed'; message: string };
+
+/**
+ * Pre-interview snapshot compared against the reference photo uploaded by the interviewer.
+ * A few attempts are allowed for bad lighting or framing; the server logs every mismatch for the interviewer.
+ */
+export const IdentityCheckStep: React.FC<IdentityCheckStepProps> = ({ verify, onComplete }) => {
+  const [state, setState] = useState<StepState>({ kind: 'ready' });
+  const [attempts, setAttempts] = useState(0);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ video: true });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play().catch(() => undefined);
+        }
+      } catch {
+        setCameraError('Camera access is needed to confirm your identity.');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    };
+  }, []);
+
+  const takeSnapshot = async () => {
+    const video = videoRef.current;
+    const canvas = document.createElement('canvas');
+    canvas.width = video?.videoWidth || 640;
+    canvas.height = video?.videoHeight || 480;
+    const ctx = canvas.getContext('2d');
+    if (!video || !ctx) {
+      setState({ kind: 'retry', message: 'Could not capture a snapshot. Please try again.' });
+      return;
+    }
+
+    setState({ kind: 'checking' });
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const outcome = await verify(ctx.getImageData(0, 0, canvas.width, canvas.height), 'initial');
+
+    if (outcome.kind === 'no-face') {
+      setState({ kind: 'retry', message: 'We could not find your face. Look straight at the camera and try again.' });
+      return;
+    }
+    if (outcome.kind === 'unavailable') {
+      // Nothing to compare against; the interview goes ahead without the check
+      setState({ kind: 'failed', message: outcome.message });
+      return;
+    }
+    if (outcome.result.matched) {
+      setState({ kind: 'verified' });
+      return;
+    }
+
+    const attempt = attempts + 1;
+    setAttempts(attempt);
+    if (attempt < IDENTITY_VERIFICATION_CONFIG.maxInitialAttempts) {
+      setState({ kind: 'retry', message: 'Your snapshot did not match. Improve the lighting, face the camera and try again.' });
+      return;
+    }
+
+    setState({ kind: 'failed', message: 'Your snapshot did not match the reference photo. Your interviewer has been notified.' });
+  };
+
+  // Without a camera the check can't run; the interviewer sees it as still pending
+  const canContinue = state.kind === 'verified' || state.kind === 'failed' || !!cameraError;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white shadow rounded-lg p-6 w-full max-w-2xl">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Identity Check</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          Your interviewer uploaded a reference photo. Take a snapshot so we can confirm it is you.
+          Your identity will also be re-checked during the interview.
+        </p>
+
+        <div className="bg-gray-900 rounded-lg overflow-hidden aspect-video mb-4">
+          <video ref={videoRef} muted playsInline className="w-full h-full object-cover" />
+        </div>
+
+        <div className="min-h-[2rem]" data-testid="identity-check-status">
+          {cameraError && <p className="text-sm text-red-700">{cameraError}</p>}
+          {state.kind === 'checking' && (
+            <p className="flex items-center gap-2 text-sm text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin" /> Comparing with the reference photo...
+            </p>
+          )}
+          {state.kind === 'retry' && <p className="text-sm text-yellow-700">{state.message}</p>}
+          {state.kind === 'verified' && (
+            <p className="flex items-center gap-2 text-sm text-green-700">
+              <CheckCircle className="h-4 w-4" /> Identity confirmed
+            </p>
+          )}
+          {state.kind === 'failed' && (
+            <p className="flex items-center gap-2 text-sm text-red-700">
+              <XCircle className="h-4 w-4" /> {state.message}
+            </p>
+          )}
+        </div>
+
+        <div className="mt-6 flex justify-end gap-3">
+          {!canContinue && (
+            <button
+              onClick={takeSnapshot}
+              disabled={state.kind === 'checking'}
+              className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Camera className="h-4 w-4" /> Take Snapshot
+            </button>
+          )}
+          {canContinue && (
+            <button
+              onClick={onComplete}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              Continue to Interview
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
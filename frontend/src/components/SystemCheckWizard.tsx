@@ -0,0 +1,338 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { CheckCircle, AlertTriangle, XCircle, Loader2 } from 'lucide-react';
+import { CV_CONFIG } from '../config/cvConfig';
+import { AudioDetectionService } from '../services/audioDetectionService';
+import { queryMediaPermission, getPermissionStateFromError } from '../utils/videoUtils';
+import type { CameraPermissionState, MediaCheckResult, SystemCheckInput, SystemCheckStatus } from '../types';
+
+interface SystemCheckWizardProps {
+  // Runs one frame through the computer vision pipeline used during the interview
+  processFrame: (imageData: ImageData) => Promise<void>;
+  isVisionReady: boolean;
+  // Round-trip time to the session's WebSocket in ms, or null when it can't be reached
+  checkConnection: () => Promise<number | null>;
+  onComplete: (result: SystemCheckInput) => void;
+}
+
+type CheckKey = 'camera' | 'microphone' | 'frameProcessing' | 'connection' | 'audio';
+
+interface CheckRow {
+  status: SystemCheckStatus | 'pending' | 'running';
+  detail: string;
+}
+
+const CHECK_LABELS: Record<CheckKey, string> = {
+  camera: 'Camera',
+  microphone: 'Microphone',
+  frameProcessing: 'Monitoring performance',
+  connection: 'Connection to interviewer',
+  audio: 'Background noise'
+};
+
+const FRAME_SAMPLES = 10;
+const VISION_READY_TIMEOUT_MS = 15000;
+const SLOW_CONNECTION_MS = 1000;
+// Baseline noise above this makes background-voice detection unreliable
+const NOISY_ROOM_LEVEL = 0.3;
+
+const initialRows = (): Record<CheckKey, CheckRow> => ({
+  camera: { status: 'pending', detail: '' },
+  microphone: { status: 'pending', detail: '' },
+  frameProcessing: { status: 'pending', detail: '' },
+  connection: { status: 'pending', detail: '' },
+  audio: { status: 'pending', detail: '' }
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const permissionDetail = (permission: CameraPermissionState, label?: string): string => {
+  switch (permission) {
+    case 'granted':
+      return label || 'Access granted';
+    case 'denied':
+      return 'Access was blocked. Allow it in your browser settings and run the check again.';
+    case 'unavailable':
+      return 'No device found';
+    default:
+      return 'Access was not granted';
+  }
+};
+
+/**
+ * Pre-interview check of the candidate's camera, microphone, machine speed and
+ * connection. Also calibrates the background noise baseline for audio monitoring.
+ */
+export const SystemCheckWizard: React.FC<SystemCheckWizardProps> = ({
+  processFrame,
+  isVisionReady,
+  checkConnection,
+  onComplete
+}) => {
+  const [phase, setPhase] = useState<'intro' | 'running' | 'done'>('intro');
+  const [rows, setRows] = useState<Record<CheckKey, CheckRow>>(initialRows);
+  const [result, setResult] = useState<SystemCheckInput | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  // The vision pipeline loads asynchronously; the frame check reads the latest value
+  const isVisionReadyRef = useRef(isVisionReady);
+
+  useEffect(() => {
+    isVisionReadyRef.current = isVisionReady;
+  }, [isVisionReady]);
+
+  const updateRow = (key: CheckKey, row: CheckRow) => {
+    setRows(prev => ({ ...prev, [key]: row }));
+  };
+
+  const stopStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  useEffect(() => stopStream, []);
+
+  // Warn up front about devices the browser already blocks for this site
+  useEffect(() => {
+    (async () => {
+      const [camera, microphone] = await Promise.all([
+        queryMediaPermission('camera'),
+        queryMediaPermission('microphone')
+      ]);
+      setRows(prev => ({
+        ...prev,
+        ...(camera === 'denied' && { camera: { status: 'pending', detail: permissionDetail(camera) } }),
+        ...(microphone === 'denied' && { microphone: { status: 'pending', detail: permissionDetail(microphone) } })
+      }));
+    })();
+  }, []);
+
+  const checkDevices = async (): Promise<{ camera: MediaCheckResult; microphone: MediaCheckResult }> => {
+    updateRow('camera', { status: 'running', detail: 'Requesting access...' });
+    updateRow('microphone', { status: 'running', detail: 'Requesting access...' });
+
+    const check = async (kind: 'video' | 'audio'): Promise<MediaCheckResult> => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ [kind]: true });
+        const track = stream.getTracks()[0];
+        if (streamRef.current) {
+          streamRef.current.addTrack(track);
+        } else {
+          streamRef.current = stream;
+        }
+        return { permission: 'granted', ...(track?.label && { deviceLabel: track.label }), status: 'passed' };
+      } catch (error) {
+        const permission = 'mediaDevices' in navigator ? getPermissionStateFromError(error) : 'unavailable';
+        return { permission, status: 'failed' };
+      }
+    };
+
+    // One device at a time so each permission prompt is attributed correctly
+    const camera = await check('video');
+    const microphone = await check('audio');
+
+    updateRow('camera', { status: camera.status, detail: permissionDetail(camera.permission, camera.deviceLabel) });
+    updateRow('microphone', { status: microphone.status, detail: permissionDetail(microphone.permission, microphone.deviceLabel) });
+
+    if (videoRef.current && streamRef.current && camera.status === 'passed') {
+      videoRef.current.srcObject = streamRef.current;
+      await videoRef.current.play().catch(() => undefined);
+    }
+    return { camera, microphone };
+  };
+
+  const checkFrameProcessing = async (hasCamera: boolean): Promise<SystemCheckInput['frameProcessing']> => {
+    const maxAllowedMs = CV_CONFIG.faceDetection.maxProcessingTime;
+    updateRow('frameProcessing', { status: 'running', detail: 'Loading detection models...' });
+
+    if (!hasCamera || !videoRef.current) {
+      updateRow('frameProcessing', { status: 'failed', detail: 'Needs camera access' });
+      return { averageMs: 0, maxAllowedMs, sampleCount: 0, status: 'failed' };
+    }
+
+    const deadline = Date.now() + VISION_READY_TIMEOUT_MS;
+    while (!isVisionReadyRef.current && Date.now() < deadline) {
+      await wait(250);
+    }
+    if (!isVisionReadyRef.current) {
+      updateRow('frameProcessing', { status: 'warning', detail: 'Detection models did not load. Basic monitoring will be used.' });
+      return { averageMs: 0, maxAllowedMs, sampleCount: 0, status: 'warning' };
+    }
+
+    const video = videoRef.current;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth || 640;
+    canvas.height = video.videoHeight || 480;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      updateRow('frameProcessing', { status: 'warning', detail: 'Could not capture frames' });
+      return { averageMs: 0, maxAllowedMs, sampleCount: 0, status: 'warning' };
+    }
+
+    updateRow('frameProcessing', { status: 'running', detail: 'Measuring frame processing time...' });
+    const timings: number[] = [];
+    for (let i = 0; i < FRAME_SAMPLES; i++) {
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const startTime = performance.now();
+      try {
+        await processFrame(imageData);
+        timings.push(performance.now() - startTime);
+      } catch (error) {
+        console.warn('Frame processing failed during system check:', error);
+      }
+      await wait(CV_CONFIG.faceDetection.processingInterval);
+    }
+
+    // The first frames include model warm-up; ignore the slowest sample
+    const sorted = [...timings].sort((a, b) => a - b).slice(0, Math.max(1, timings.length - 1));
+    const averageMs = sorted.length ? sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length : 0;
+    const status: SystemCheckStatus = timings.length === 0 || averageMs > maxAllowedMs * 2
+      ? 'failed'
+      : averageMs > maxAllowedMs ? 'warning' : 'passed';
+
+    updateRow('frameProcessing', {
+      status,
+      detail: timings.length === 0
+        ? 'Frames could not be processed'
+        : `${Math.round(averageMs)} ms per frame (target ${maxAllowedMs} ms)${status === 'passed' ? '' : '. Monitoring may be degraded on this device.'}`
+    });
+    return { averageMs: Math.round(averageMs * 10) / 10, maxAllowedMs, sampleCount: timings.length, status };
+  };
+
+  const checkConnectionRow = async (): Promise<SystemCheckInput['connection']> => {
+    updateRow('connection', { status: 'running', detail: 'Contacting the interview server...' });
+    const latencyMs = await checkConnection();
+    if (latencyMs === null) {
+      updateRow('connection', { status: 'failed', detail: 'Could not reach the interview server' });
+      return { connected: false, status: 'failed' };
+    }
+    const status: SystemCheckStatus = latencyMs > SLOW_CONNECTION_MS ? 'warning' : 'passed';
+    updateRow('connection', {
+      status,
+      detail: `${latencyMs} ms round trip${status === 'warning' ? '. Your connection is slow.' : ''}`
+    });
+    return { connected: true, latencyMs, status };
+  };
+
+  const calibrateAudio = async (hasMicrophone: boolean): Promise<SystemCheckInput['audio']> => {
+    if (!hasMicrophone || !streamRef.current) {
+      updateRow('audio', { status: 'failed', detail: 'Needs microphone access' });
+      return { baselineNoiseLevel: 0, status: 'failed' };
+    }
+    updateRow('audio', { status: 'running', detail: 'Stay quiet for a few seconds...' });
+    try {
+      const baselineNoiseLevel = await new AudioDetectionService().calibrate(streamRef.current);
+      const status: SystemCheckStatus = baselineNoiseLevel > NOISY_ROOM_LEVEL ? 'warning' : 'passed';
+      updateRow('audio', {
+        status,
+        detail: status === 'warning'
+          ? 'Your surroundings are noisy. Move somewhere quieter if you can.'
+          : 'Your surroundings are quiet'
+      });
+      return { baselineNoiseLevel: Math.min(1, baselineNoiseLevel), status };
+    } catch (error) {
+      console.warn('Audio calibration failed:', error);
+      updateRow('audio', { status: 'warning', detail: 'Background noise could not be measured' });
+      return { baselineNoiseLevel: 0, status: 'warning' };
+    }
+  };
+
+  const runChecks = async () => {
+    stopStream();
+    setRows(initialRows());
+    setResult(null);
+    setPhase('running');
+
+    const { camera, microphone } = await checkDevices();
+    const frameProcessing = await checkFrameProcessing(camera.status === 'passed');
+    const connection = await checkConnectionRow();
+    const audio = await calibrateAudio(microphone.status === 'passed');
+
+    stopStream();
+    setResult({ camera, microphone, frameProcessing, connection, audio, userAgent: navigator.userAgent.slice(0, 500) });
+    setPhase('done');
+  };
+
+  // Monitoring can't run without camera and microphone; everything else is reported but not blocking
+  const canContinue = result !== null && result.camera.status !== 'failed' && result.microphone.status !== 'failed';
+
+  const renderIcon = (status: CheckRow['status']) => {
+    switch (status) {
+      case 'passed':
+        return <CheckCircle className="h-5 w-5 text-green-600" />;
+      case 'warning':
+        return <AlertTriangle className="h-5 w-5 text-yellow-600" />;
+      case 'failed':
+        return <XCircle className="h-5 w-5 text-red-600" />;
+      case 'running':
+        return <Loader2 className="h-5 w-5 text-blue-600 animate-spin" />;
+      default:
+        return <div className="h-5 w-5 rounded-full border-2 border-gray-300" />;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white shadow rounded-lg p-6 w-full max-w-2xl">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">System Check</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          Before the interview starts we check your camera, microphone, device performance and connection.
+          Your interviewer will see the results.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="bg-gray-900 rounded-lg overflow-hidden aspect-video">
+            <video ref={videoRef} muted playsInline className="w-full h-full object-cover" />
+          </div>
+
+          <ul className="space-y-3">
+            {(Object.keys(CHECK_LABELS) as CheckKey[]).map(key => (
+              <li key={key} className="flex items-start gap-3" data-testid={`system-check-${key}`}>
+                <div className="mt-0.5">{renderIcon(rows[key].status)}</div>
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{CHECK_LABELS[key]}</p>
+                  {rows[key].detail && <p className="text-xs text-gray-600">{rows[key].detail}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-3">
+          {phase === 'intro' && (
+            <button
+              onClick={runChecks}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              Start System Check
+            </button>
+          )}
+
+          {phase === 'running' && (
+            <div className="px-6 py-3 bg-gray-100 text-gray-600 rounded-lg font-medium">
+              Checking your system...
+            </div>
+          )}
+
+          {phase === 'done' && (
+            <>
+              <button
+                onClick={runChecks}
+                className="px-6 py-3 bg-gray-100 text-gray-800 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+              >
+                Run Again
+              </button>
+              <button
+                onClick={() => result && onComplete(result)}
+                disabled={!canContinue}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Continue to Interview
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
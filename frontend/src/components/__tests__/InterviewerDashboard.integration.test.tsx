@@ -138,7 +138,7 @@ describe('InterviewerDashboard Integration', () => {
         );
 
         await waitFor(() => {
-            expect(global.fetch).toHaveBeenCalledWith('/api/sessions?status=active', {
+            expect(global.fetch).toHaveBeenCalledWith('/api/sessions?status=active,scheduled', {
                 headers: {
                     'Authorization': 'Bearer mock-jwt-token',
                     'Content-Type': 'application/json'
@@ -135,7 +135,7 @@ describe('InterviewerDashboard', () => {
         expect(screen.getByText('Bob Candidate')).toBeInTheDocument();
       });
 
-      expect(global.fetch).toHaveBeenCalledWith('/api/sessions?status=active', {
+      expect(global.fetch).toHaveBeenCalledWith('/api/sessions?status=active,scheduled', {
         headers: {
           'Authorization': 'Bearer mock-jwt-token',
           'Content-Type': 'application/json'
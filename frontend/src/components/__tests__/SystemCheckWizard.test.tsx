@@ -0,0 +1,97 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { SystemCheckWizard } from '../SystemCheckWizard';
+
+const mockCalibrate = vi.fn();
+
+vi.mock('../../services/audioDetectionService', () => ({
+  AudioDetectionService: vi.fn().mockImplementation(() => ({
+    calibrate: mockCalibrate
+  }))
+}));
+
+const createStream = (label: string) => {
+  const track = { label, stop: vi.fn() };
+  return {
+    getTracks: () => [track],
+    addTrack: vi.fn()
+  };
+};
+
+describe('SystemCheckWizard', () => {
+  const processFrame = vi.fn();
+  const checkConnection = vi.fn();
+  const onComplete = vi.fn();
+
+  const renderWizard = (isVisionReady = true) => render(
+    <SystemCheckWizard
+      processFrame={processFrame}
+      isVisionReady={isVisionReady}
+      checkConnection={checkConnection}
+      onComplete={onComplete}
+    />
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    processFrame.mockResolvedValue(undefined);
+    checkConnection.mockResolvedValue(40);
+    mockCalibrate.mockResolvedValue(0.05);
+    (navigator.mediaDevices.getUserMedia as any).mockImplementation((constraints: MediaStreamConstraints) =>
+      Promise.resolve(createStream(constraints.video ? 'Test Camera' : 'Test Microphone'))
+    );
+  });
+
+  it('should run every check and report the results', async () => {
+    renderWizard();
+
+    fireEvent.click(screen.getByText('Start System Check'));
+
+    const continueButton = await screen.findByText('Continue to Interview', {}, { timeout: 5000 });
+    expect(continueButton).not.toBeDisabled();
+    expect(screen.getByTestId('system-check-camera')).toHaveTextContent('Test Camera');
+    expect(screen.getByTestId('system-check-connection')).toHaveTextContent('40 ms round trip');
+    expect(processFrame).toHaveBeenCalledTimes(10);
+
+    fireEvent.click(continueButton);
+
+    expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({
+      camera: expect.objectContaining({ permission: 'granted', status: 'passed' }),
+      microphone: expect.objectContaining({ permission: 'granted', status: 'passed' }),
+      frameProcessing: expect.objectContaining({ sampleCount: 10, maxAllowedMs: 50, status: 'passed' }),
+      connection: { connected: true, latencyMs: 40, status: 'passed' },
+      audio: { baselineNoiseLevel: 0.05, status: 'passed' }
+    }));
+  });
+
+  it('should not let the candidate continue without camera access', async () => {
+    (navigator.mediaDevices.getUserMedia as any).mockImplementation((constraints: MediaStreamConstraints) =>
+      constraints.video
+        ? Promise.reject(Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' }))
+        : Promise.resolve(createStream('Test Microphone'))
+    );
+    renderWizard();
+
+    fireEvent.click(screen.getByText('Start System Check'));
+
+    const continueButton = await screen.findByText('Continue to Interview', {}, { timeout: 5000 });
+    expect(continueButton).toBeDisabled();
+    expect(screen.getByTestId('system-check-camera')).toHaveTextContent('Access was blocked');
+    expect(processFrame).not.toHaveBeenCalled();
+  });
+
+  it('should flag an unreachable server without blocking the interview', async () => {
+    checkConnection.mockResolvedValue(null);
+    renderWizard();
+
+    fireEvent.click(screen.getByText('Start System Check'));
+
+    const continueButton = await screen.findByText('Continue to Interview', {}, { timeout: 5000 });
+    expect(screen.getByTestId('system-check-connection')).toHaveTextContent('Could not reach the interview server');
+
+    fireEvent.click(continueButton);
+    await waitFor(() => expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({
+      connection: { connected: false, status: 'failed' }
+    })));
+  });
+});
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Eye, X, Users, Smartphone, Flag, AlertTriangle, Ear, Mic2 } from 'lucide-react';
+import { Eye, X, Users, Smartphone, Flag, AlertTriangle, Ear, Mic2, UserX } from 'lucide-react';
 import type { Alert } from '../../types';
 
 /**
@@ -24,9 +24,13 @@ export const ALERT_TYPE_INFO: Record<string, AlertTypeInfo> = {
   'multiple-faces': { label: 'Multiple Faces', icon: <Users className={`${base} text-purple-600`} />, category: 'faces', isViolation: true, defaultSeverity: 'high' },
   'unauthorized-item': { label: 'Unauthorized Item', icon: <Smartphone className={`${base} text-orange-600`} />, category: 'device', isViolation: true, defaultSeverity: 'high' },
   'manual_flag': { label: 'Manual Flag', icon: <Flag className={`${base} text-orange-500`} />, category: 'manual', isViolation: true, defaultSeverity: 'medium' },
+  'drowsiness': { label: 'Drowsiness', icon: <Eye className={`${base} text-indigo-600`} />, category: 'focus', isViolation: true, defaultSeverity: 'medium' },
+  'eye-closure': { label: 'Eye Closure', icon: <Eye className={`${base} text-indigo-500`} />, category: 'focus', isViolation: true, defaultSeverity: 'medium' },
+  'excessive-blinking': { label: 'Excessive Blinking', icon: <Eye className={`${base} text-indigo-400`} />, category: 'focus', isViolation: true, defaultSeverity: 'low' },
   'background-voice': { label: 'Background Voice', icon: <Mic2 className={`${base} text-blue-600`} />, category: 'audio', isViolation: true, defaultSeverity: 'high' },
   'multiple-voices': { label: 'Multiple Voices', icon: <Mic2 className={`${base} text-blue-700`} />, category: 'audio', isViolation: true, defaultSeverity: 'high' },
   'excessive-noise': { label: 'Excessive Noise', icon: <Ear className={`${base} text-blue-500`} />, category: 'audio', isViolation: true, defaultSeverity: 'high' },
+  'identity-mismatch': { label: 'Identity Mismatch', icon: <UserX className={`${base} text-red-700`} />, category: 'presence', isViolation: true, defaultSeverity: 'high' },
 };
 
 export function getAlertTypeInfo(type: string): AlertTypeInfo {
@@ -11,8 +11,9 @@ export const AuthPage: React.FC = () => {
   const location = useLocation();
   const [authMode, setAuthMode] = useState<AuthMode>('login');
 
-  // Get the intended destination from location state
-  const from = (location.state as { from?: { pathname: string } })?.from?.pathname || '/';
+  // Get the intended destination from location state (keeping the query, e.g. an invitation token)
+  const fromLocation = (location.state as { from?: { pathname: string; search?: string } })?.from;
+  const from = fromLocation ? `${fromLocation.pathname}${fromLocation.search || ''}` : '/';
 
   // Redirect if already authenticated
   if (authState.isAuthenticated && authState.user) {
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import type { LoginCredentials } from '../../types';
+import { TwoFactorStep } from './TwoFactorStep';
 
 interface LoginFormProps {
   onSuccess?: () => void;
@@ -8,7 +9,9 @@ interface LoginFormProps {
 }
 
 export const LoginForm: React.FC<LoginFormProps> = ({ onSuccess, onSwitchToSignup }) => {
-  const { login, authState, clearError } = useAuth();
+  const { login, loginWithSso, authState, clearError } = useAuth();
+  // Single sign-on is offered when the backend has an identity provider configured
+  const ssoEnabled = import.meta.env.VITE_OIDC_ENABLED === 'true';
   const [formData, setFormData] = useState<LoginCredentials>({
     email: '',
     password: '',
@@ -80,6 +83,11 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onSuccess, onSwitchToSignu
     }
   };
 
+  // The password was accepted; the login continues with a second factor
+  if (authState.twoFactorChallenge) {
+    return <TwoFactorStep onSuccess={onSuccess} />;
+  }
+
   return (
     <div className="w-full max-w-md mx-auto">
       <div className="bg-white shadow-md rounded-lg px-8 pt-6 pb-8 mb-4">
@@ -161,6 +169,28 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onSuccess, onSwitchToSignu
           </button>
         </form>
 
+        {/* Single sign-on for interviewers and admins */}
+        {ssoEnabled && (
+          <div className="mt-4">
+            <div className="flex items-center my-4">
+              <div className="flex-grow border-t border-gray-200" />
+              <span className="mx-3 text-xs text-gray-500 uppercase">or</span>
+              <div className="flex-grow border-t border-gray-200" />
+            </div>
+            <button
+              type="button"
+              onClick={() => loginWithSso()}
+              disabled={authState.isLoading}
+              className="w-full py-2 px-4 rounded-md border border-gray-300 text-gray-700 font-medium bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            >
+              Continue with single sign-on
+            </button>
+            <p className="mt-2 text-xs text-center text-gray-500">
+              For interviewers and administrators
+            </p>
+          </div>
+        )}
+
         {/* Switch to Signup */}
         {onSwitchToSignup && (
           <div className="mt-6 text-center">
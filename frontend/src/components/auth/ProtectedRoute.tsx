@@ -30,8 +30,9 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     return <Navigate to={redirectTo} state={{ from: location }} replace />;
   }
 
-  // Check role-based access if required
-  if (requiredRole && authState.user.role !== requiredRole) {
+  // Check role-based access if required (admins may use interviewer pages)
+  const role = authState.user.role === 'admin' ? 'interviewer' : authState.user.role;
+  if (requiredRole && role !== requiredRole) {
     // Redirect based on user's actual role
     const roleBasedRedirect = authState.user.role === 'candidate' ? '/candidate' : '/interviewer';
     return <Navigate to={roleBasedRedirect} replace />;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import type { SignupData } from '../../types';
+import { TwoFactorStep } from './TwoFactorStep';
 
 interface SignupFormProps {
   onSuccess?: () => void;
@@ -119,6 +120,11 @@ export const SignupForm: React.FC<SignupFormProps> = ({ onSuccess, onSwitchToLog
     }
   };
 
+  // The account was created; the organization wants an authenticator enrolled before the first sign-in
+  if (authState.twoFactorChallenge) {
+    return <TwoFactorStep onSuccess={onSuccess} />;
+  }
+
   return (
     <div className="w-full max-w-md mx-auto">
       <div className="bg-white shadow-md rounded-lg px-8 pt-6 pb-8 mb-4">
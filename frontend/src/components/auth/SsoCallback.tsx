@@ -0,0 +1,63 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+
+// The server hands tokens (or an error) back in the URL fragment, which never leaves the browser
+const readFragment = (): URLSearchParams => new URLSearchParams(window.location.hash.replace(/^#/, ''));
+
+export const SsoCallback: React.FC = () => {
+  const { completeSsoLogin, authState } = useAuth();
+  const [fragment] = useState(readFragment);
+  const [error, setError] = useState<string | null>(() =>
+    fragment.get('error') ?? (fragment.get('token') ? null : 'Single sign-on did not return a session'));
+  const started = useRef(false);
+
+  useEffect(() => {
+    // Drop the tokens from the address bar and history
+    window.history.replaceState(null, '', window.location.pathname);
+
+    const token = fragment.get('token');
+    if (started.current || !token) {
+      return;
+    }
+    started.current = true;
+
+    const expiresIn = Number(fragment.get('expiresIn')) || undefined;
+    completeSsoLogin({
+      token,
+      ...(fragment.get('refreshToken') ? { refreshToken: fragment.get('refreshToken')! } : {}),
+      ...(expiresIn ? { expiresIn } : {}),
+    }).catch((err) => {
+      setError(err instanceof Error ? err.message : 'Single sign-on failed');
+    });
+  }, [completeSsoLogin, fragment]);
+
+  if (!error && authState.isAuthenticated && authState.user) {
+    const returnTo = fragment.get('returnTo');
+    const roleBasedRedirect = authState.user.role === 'candidate' ? '/candidate' : '/interviewer';
+    return <Navigate to={returnTo && returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : roleBasedRedirect} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md mx-auto bg-white shadow-md rounded-lg px-8 pt-6 pb-8 text-center">
+        {error ? (
+          <>
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">Single sign-on failed</h2>
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-6">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+            <Link to="/auth" className="text-blue-600 hover:text-blue-500 font-medium">
+              Back to sign in
+            </Link>
+          </>
+        ) : (
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4" role="status" aria-label="Loading"></div>
+            <p className="text-gray-600">Signing you in…</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
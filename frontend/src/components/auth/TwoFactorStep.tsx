@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import type { TwoFactorEnrollment } from '../../types';
+
+interface TwoFactorStepProps {
+  onSuccess?: () => void;
+}
+
+/**
+ * Second step of a password login or sign-up: a code from the authenticator app (or a recovery code),
+ * or enrolling an authenticator first when the organization requires it.
+ */
+export const TwoFactorStep: React.FC<TwoFactorStepProps> = ({ onSuccess }) => {
+  const { authState, verifyTwoFactor, startTwoFactorSetup, completeTwoFactorSetup, cancelTwoFactor, clearError } = useAuth();
+  const step = authState.twoFactorChallenge?.step ?? 'verify';
+  const [code, setCode] = useState('');
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<{ codes: string[]; finish: () => void } | null>(null);
+  const [setupError, setSetupError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const setupStarted = useRef(false);
+
+  // Enrollment starts with a new secret to scan
+  useEffect(() => {
+    if (step !== 'enroll' || setupStarted.current) {
+      return;
+    }
+    setupStarted.current = true;
+    startTwoFactorSetup()
+      .then(setEnrollment)
+      .catch((err) => setSetupError(err instanceof Error ? err.message : 'Two-factor setup failed'));
+  }, [step, startTwoFactorSetup]);
+
+  const handleCodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCode(e.target.value);
+    setSetupError(null);
+    if (authState.error) {
+      clearError();
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      return;
+    }
+
+    if (step === 'verify') {
+      try {
+        await verifyTwoFactor(code.trim());
+        onSuccess?.();
+      } catch (error) {
+        // Error is handled by the auth context
+        console.error('Two-factor verification failed:', error);
+      }
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await completeTwoFactorSetup(code.trim());
+      setRecoveryCodes({ codes: result.recoveryCodes, finish: result.finish });
+    } catch (err) {
+      setSetupError(err instanceof Error ? err.message : 'Two-factor setup failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleFinish = () => {
+    recoveryCodes?.finish();
+    onSuccess?.();
+  };
+
+  const error = setupError ?? authState.error;
+  const busy = authState.isLoading || isSubmitting;
+
+  // Recovery codes are shown once, right after enrollment
+  if (recoveryCodes) {
+    return (
+      <div className="w-full max-w-md mx-auto">
+        <div className="bg-white shadow-md rounded-lg px-8 pt-6 pb-8 mb-4">
+          <h2 className="text-2xl font-bold text-center text-gray-800 mb-2">Save your recovery codes</h2>
+          <p className="text-center text-gray-600 mb-4">
+            Each code signs you in once if you lose your authenticator. They will not be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 border border-gray-200 rounded-md p-4 mb-6" aria-label="Recovery codes">
+            {recoveryCodes.codes.map((recoveryCode) => (
+              <li key={recoveryCode} className="text-center">{recoveryCode}</li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={handleFinish}
+            className="w-full py-2 px-4 rounded-md text-white font-medium bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            I have saved these codes
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <div className="bg-white shadow-md rounded-lg px-8 pt-6 pb-8 mb-4">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-center text-gray-800 mb-2">
+            {step === 'verify' ? 'Two-Factor Authentication' : 'Set Up Two-Factor Authentication'}
+          </h2>
+          <p className="text-center text-gray-600">
+            {step === 'verify'
+              ? 'Enter the 6-digit code from your authenticator app, or one of your recovery codes.'
+              : 'Your organization requires two-factor authentication. Scan this code with an authenticator app, then enter the code it shows.'}
+          </p>
+        </div>
+
+        {step === 'enroll' && enrollment && (
+          <div className="mb-6 text-center">
+            <img src={enrollment.qrCode} alt="Authenticator QR code" className="mx-auto w-48 h-48" />
+            <p className="mt-2 text-xs text-gray-500">Or enter this key manually:</p>
+            <p className="font-mono text-sm break-all text-gray-800">{enrollment.secret}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="twoFactorCode" className="block text-sm font-medium text-gray-700 mb-2">
+              Authentication code
+            </label>
+            <input
+              type="text"
+              id="twoFactorCode"
+              name="twoFactorCode"
+              inputMode={step === 'enroll' ? 'numeric' : 'text'}
+              autoComplete="one-time-code"
+              autoFocus
+              value={code}
+              onChange={handleCodeChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 tracking-widest"
+              placeholder={step === 'verify' ? '123456' : 'Code from your app'}
+              disabled={busy || (step === 'enroll' && !enrollment)}
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={busy || !code.trim()}
+            className={`w-full py-2 px-4 rounded-md text-white font-medium focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${busy || !code.trim()
+              ? 'bg-gray-400 cursor-not-allowed'
+              : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+          >
+            {busy ? 'Verifying...' : step === 'verify' ? 'Verify' : 'Enable two-factor authentication'}
+          </button>
+        </form>
+
+        <div className="mt-6 text-center">
+          <button
+            type="button"
+            onClick={cancelTwoFactor}
+            className="text-sm text-blue-600 hover:text-blue-500 font-medium focus:outline-none focus:underline"
+            disabled={busy}
+          >
+            Back to sign in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -229,4 +229,137 @@ describe('LoginForm', () => {
     expect(screen.getByLabelText(/email address/i)).toBeDisabled();
     expect(screen.getByLabelText(/password/i)).toBeDisabled();
   });
-});
\ No newline at end of file
+
+  it('offers single sign-on only when it is enabled', async () => {
+    const user = userEvent.setup();
+    const originalLocation = window.location;
+    const assign = vi.fn();
+    Object.defineProperty(window, 'location', { configurable: true, value: { ...originalLocation, assign } });
+
+    try {
+      const { unmount } = render(
+        <TestWrapper>
+          <LoginForm onSuccess={mockOnSuccess} onSwitchToSignup={mockOnSwitchToSignup} />
+        </TestWrapper>
+      );
+      expect(screen.queryByRole('button', { name: /single sign-on/i })).not.toBeInTheDocument();
+      unmount();
+
+      vi.stubEnv('VITE_OIDC_ENABLED', 'true');
+      render(
+        <TestWrapper>
+          <LoginForm onSuccess={mockOnSuccess} onSwitchToSignup={mockOnSwitchToSignup} />
+        </TestWrapper>
+      );
+      await user.click(screen.getByRole('button', { name: /continue with single sign-on/i }));
+
+      expect(assign).toHaveBeenCalledWith('/api/auth/oidc/login');
+    } finally {
+      vi.unstubAllEnvs();
+      Object.defineProperty(window, 'location', { configurable: true, value: originalLocation });
+    }
+  });
+
+  it('asks for a second factor before completing the login', async () => {
+    const user = userEvent.setup();
+    const session = {
+      user: { userId: '1', email: 'interviewer@example.com', name: 'Interviewer', role: 'interviewer' },
+      token: 'mock-token',
+      refreshToken: 'mock-refresh-token',
+      expiresIn: 900,
+    };
+
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: { twoFactorStep: 'verify', challengeToken: 'challenge-1' } }),
+      })
+      .mockResolvedValueOnce({
+        ok: false,
+        json: async () => ({ success: false, error: 'Invalid two-factor code' }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: session }),
+      });
+
+    render(
+      <TestWrapper>
+        <LoginForm onSuccess={mockOnSuccess} onSwitchToSignup={mockOnSwitchToSignup} />
+      </TestWrapper>
+    );
+
+    await user.type(screen.getByLabelText(/email address/i), 'interviewer@example.com');
+    await user.type(screen.getByLabelText(/password/i), 'password123');
+    await user.click(screen.getByRole('button', { name: /sign in/i }));
+
+    const codeInput = await screen.findByLabelText(/authentication code/i);
+    expect(mockLocalStorage.setItem).not.toHaveBeenCalledWith('auth_token', expect.anything());
+
+    await user.type(codeInput, '000000');
+    await user.click(screen.getByRole('button', { name: /^verify$/i }));
+    expect(await screen.findByText(/invalid two-factor code/i)).toBeInTheDocument();
+
+    await user.clear(codeInput);
+    await user.type(codeInput, '123456');
+    await user.click(screen.getByRole('button', { name: /^verify$/i }));
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenLastCalledWith('/api/auth/login/two-factor', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: '123456', challengeToken: 'challenge-1' }),
+      });
+      expect(mockLocalStorage.setItem).toHaveBeenCalledWith('auth_token', 'mock-token');
+      expect(mockLocalStorage.setItem).toHaveBeenCalledWith('refresh_token', 'mock-refresh-token');
+    });
+  });
+
+  it('walks through required two-factor enrollment and shows the recovery codes', async () => {
+    const user = userEvent.setup();
+
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: { twoFactorStep: 'enroll', challengeToken: 'challenge-2' } }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          success: true,
+          data: { secret: 'JBSWY3DPEHPK3PXP', otpauthUrl: 'otpauth://totp/x', qrCode: 'data:image/png;base64,AAAA' },
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          success: true,
+          data: {
+            recoveryCodes: ['ABCDE-12345', 'FGHJK-67890'],
+            user: { userId: '2', email: 'admin@example.com', name: 'Admin', role: 'admin' },
+            token: 'admin-token',
+          },
+        }),
+      });
+
+    render(
+      <TestWrapper>
+        <LoginForm onSuccess={mockOnSuccess} onSwitchToSignup={mockOnSwitchToSignup} />
+      </TestWrapper>
+    );
+
+    await user.type(screen.getByLabelText(/email address/i), 'admin@example.com');
+    await user.type(screen.getByLabelText(/password/i), 'password123');
+    await user.click(screen.getByRole('button', { name: /sign in/i }));
+
+    expect(await screen.findByText('JBSWY3DPEHPK3PXP')).toBeInTheDocument();
+    await user.type(screen.getByLabelText(/authentication code/i), '123456');
+    await user.click(screen.getByRole('button', { name: /enable two-factor authentication/i }));
+
+    expect(await screen.findByText('ABCDE-12345')).toBeInTheDocument();
+    expect(mockLocalStorage.setItem).not.toHaveBeenCalledWith('auth_token', expect.anything());
+
+    await user.click(screen.getByRole('button', { name: /i have saved these codes/i }));
+    expect(mockLocalStorage.setItem).toHaveBeenCalledWith('auth_token', 'admin-token');
+  });
+});
@@ -227,6 +227,40 @@ describe('SignupForm', () => {
     });
   });
 
+  it('enrolls a second factor before signing in when the organization requires it for the role', async () => {
+    const user = userEvent.setup();
+
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: { twoFactorStep: 'enroll', challengeToken: 'challenge-1' } }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          success: true,
+          data: { secret: 'JBSWY3DPEHPK3PXP', otpauthUrl: 'otpauth://totp/x', qrCode: 'data:image/png;base64,AAAA' },
+        }),
+      });
+
+    render(
+      <TestWrapper>
+        <SignupForm onSuccess={mockOnSuccess} onSwitchToLogin={mockOnSwitchToLogin} />
+      </TestWrapper>
+    );
+
+    await user.type(screen.getByLabelText(/full name/i), 'Ivy Interviewer');
+    await user.type(screen.getByLabelText(/email address/i), 'ivy@example.com');
+    await user.selectOptions(screen.getByLabelText(/role/i), 'interviewer');
+    await user.type(screen.getByLabelText(/^password$/i), 'Password123');
+    await user.type(screen.getByLabelText(/confirm password/i), 'Password123');
+    await user.click(screen.getByRole('button', { name: /create account/i }));
+
+    expect(await screen.findByText('JBSWY3DPEHPK3PXP')).toBeInTheDocument();
+    expect(JSON.parse(mockFetch.mock.calls[1]![1].body)).toEqual({ challengeToken: 'challenge-1' });
+    expect(mockLocalStorage.setItem).not.toHaveBeenCalledWith('auth_token', expect.anything());
+  });
+
   it('handles signup failure', async () => {
     const user = userEvent.setup();
     const mockError = { message: 'Email already exists' };
@@ -1,4 +1,6 @@
 export { AuthPage } from './AuthPage';
 export { LoginForm } from './LoginForm';
 export { SignupForm } from './SignupForm';
+export { SsoCallback } from './SsoCallback';
+export { TwoFactorStep } from './TwoFactorStep';
 export { ProtectedRoute, withAuth } from './ProtectedRoute';
\ No newline at end of file
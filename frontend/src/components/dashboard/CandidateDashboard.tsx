@@ -1,11 +1,41 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { CandidateInterface } from '../CandidateInterface';
+import apiService from '../../services/apiService';
 
 export const CandidateDashboard: React.FC = () => {
   const { authState, logout } = useAuth();
   const [sessionId, setSessionId] = useState<string>('');
   const [showInterface, setShowInterface] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const [isAcceptingInvite, setIsAcceptingInvite] = useState(false);
+  // Invitations are single-use, so never submit the same token twice
+  const redeemedTokenRef = useRef<string | null>(null);
+
+  // Opened from an invitation link: redeem it and go straight into the session
+  useEffect(() => {
+    const token = searchParams.get('invite');
+    if (!token || redeemedTokenRef.current === token) return;
+    redeemedTokenRef.current = token;
+
+    setSearchParams({}, { replace: true });
+    setIsAcceptingInvite(true);
+    setInviteError(null);
+
+    apiService.post<{ sessionId: string }>('/api/sessions/invitations/accept', { token })
+      .then((resp) => {
+        if (resp.success && resp.data) {
+          setSessionId(resp.data.sessionId);
+          setShowInterface(true);
+        }
+      })
+      .catch((err) => {
+        setInviteError(err instanceof Error ? err.message : 'Failed to accept invitation');
+      })
+      .finally(() => setIsAcceptingInvite(false));
+  }, [searchParams, setSearchParams]);
 
   const handleLogout = () => {
     logout();
@@ -65,7 +95,19 @@ export const CandidateDashboard: React.FC = () => {
             </h2>
             <p className="text-gray-600 mb-6">
               Enter the session ID provided by your interviewer to join the interview session.
+              Scheduled interviews are joined through the invitation link you received.
             </p>
+
+            {isAcceptingInvite && (
+              <div className="mb-6 p-4 bg-blue-50 text-blue-800 text-sm rounded-md">
+                Checking your invitation...
+              </div>
+            )}
+            {inviteError && (
+              <div className="mb-6 p-4 bg-red-50 text-red-800 text-sm rounded-md" role="alert">
+                {inviteError}
+              </div>
+            )}
             
             <div className="max-w-md">
               <label htmlFor="sessionId" className="block text-sm font-medium text-gray-700 mb-2">
@@ -3,19 +3,28 @@ import { Button } from '../ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
 import { Input } from '../ui/input';
 import { Card, CardContent } from '../ui/card';
+import type { SessionInvitation } from '../../types';
+
+export interface NewSessionData {
+  candidateName: string;
+  candidateEmail: string;
+  // Empty to start the session right away, otherwise a datetime-local value
+  scheduledStartTime: string;
+  joinWindowMinutes: number;
+  maxDurationMinutes: number;
+}
 
 interface CreateSessionModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onCreateSession: (data: { candidateName: string; candidateEmail: string }) => void;
-  newSessionData: {
-    candidateName: string;
-    candidateEmail: string;
-  };
-  onUpdateSessionData: (data: { candidateName: string; candidateEmail: string }) => void;
+  onCreateSession: (data: NewSessionData) => void;
+  newSessionData: NewSessionData;
+  onUpdateSessionData: (data: NewSessionData) => void;
   createdSession?: {
     sessionId: string;
     candidateName: string;
+    scheduledStartTime?: string;
+    invitation?: SessionInvitation | null;
   } | null;
 }
 
@@ -27,27 +36,33 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
   onUpdateSessionData,
   createdSession
 }) => {
+  const isScheduled = newSessionData.scheduledStartTime !== '';
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (newSessionData.candidateName.trim() && newSessionData.candidateEmail.trim()) {
+    if (newSessionData.candidateName.trim()) {
       onCreateSession(newSessionData);
     }
   };
 
-  const handleInputChange = (field: 'candidateName' | 'candidateEmail', value: string) => {
+  const handleInputChange = <K extends keyof NewSessionData>(field: K, value: NewSessionData[K]) => {
     onUpdateSessionData({
       ...newSessionData,
       [field]: value
     });
   };
 
+  const copyToClipboard = (value: string) => {
+    navigator.clipboard.writeText(value);
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Create New Interview Session</DialogTitle>
+          <DialogTitle>{createdSession ? 'Session Created' : 'Create New Interview Session'}</DialogTitle>
         </DialogHeader>
-        
+
         {createdSession ? (
           <Card>
             <CardContent className="p-6">
@@ -57,18 +72,52 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
                 </div>
-                <h3 className="text-lg font-semibold mb-2">Session Created Successfully!</h3>
+                <h3 className="text-lg font-semibold mb-2">
+                  {createdSession.invitation ? 'Interview Scheduled!' : 'Session Created Successfully!'}
+                </h3>
                 <p className="text-gray-600 mb-2">
                   Session for <strong>{createdSession.candidateName}</strong>
                 </p>
-                <p className="text-sm text-gray-500 mb-4">
-                  Session ID: <code className="bg-gray-100 px-2 py-1 rounded">{createdSession.sessionId}</code>
-                </p>
-                <p className="text-sm text-gray-600 mb-6">
-                  The candidate will receive an email with joining instructions.
-                </p>
+                {createdSession.scheduledStartTime && (
+                  <p className="text-sm text-gray-600 mb-2">
+                    Starts {new Date(createdSession.scheduledStartTime).toLocaleString()}
+                  </p>
+                )}
+
+                {createdSession.invitation ? (
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4 text-left">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Invitation Link
+                    </label>
+                    <div className="flex items-center space-x-2">
+                      <Input readOnly value={createdSession.invitation.invitationUrl} className="font-mono text-xs" />
+                      <Button type="button" variant="outline" onClick={() => copyToClipboard(createdSession.invitation!.invitationUrl)}>
+                        Copy
+                      </Button>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                      The link works once and expires {new Date(createdSession.invitation.expiresAt).toLocaleString()}.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4 text-left">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Session ID
+                    </label>
+                    <div className="flex items-center space-x-2">
+                      <Input readOnly value={createdSession.sessionId} className="font-mono text-sm" />
+                      <Button type="button" variant="outline" onClick={() => copyToClipboard(createdSession.sessionId)}>
+                        Copy
+                      </Button>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                      The candidate can use this ID to join the interview session from their dashboard.
+                    </p>
+                  </div>
+                )}
+
                 <Button onClick={onClose} className="w-full">
-                  Close
+                  Done
                 </Button>
               </div>
             </CardContent>
@@ -77,7 +126,7 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
               <label htmlFor="candidateName" className="block text-sm font-medium text-gray-700 mb-1">
-                Candidate Name
+                Candidate Name *
               </label>
               <Input
                 id="candidateName"
@@ -88,10 +137,10 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
                 required
               />
             </div>
-            
+
             <div>
               <label htmlFor="candidateEmail" className="block text-sm font-medium text-gray-700 mb-1">
-                Candidate Email
+                Candidate Email {isScheduled ? '(the invitation only works for this address)' : '(Optional)'}
               </label>
               <Input
                 id="candidateEmail"
@@ -99,19 +148,61 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
                 value={newSessionData.candidateEmail}
                 onChange={(e) => handleInputChange('candidateEmail', e.target.value)}
                 placeholder="Enter candidate's email address"
-                required
               />
             </div>
-            
+
+            <div>
+              <label htmlFor="scheduledStartTime" className="block text-sm font-medium text-gray-700 mb-1">
+                Planned Start (leave empty to start now)
+              </label>
+              <Input
+                id="scheduledStartTime"
+                type="datetime-local"
+                value={newSessionData.scheduledStartTime}
+                onChange={(e) => handleInputChange('scheduledStartTime', e.target.value)}
+              />
+            </div>
+
+            {isScheduled && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="joinWindowMinutes" className="block text-sm font-medium text-gray-700 mb-1">
+                    Join Window (± min)
+                  </label>
+                  <Input
+                    id="joinWindowMinutes"
+                    type="number"
+                    min={1}
+                    max={1440}
+                    value={newSessionData.joinWindowMinutes}
+                    onChange={(e) => handleInputChange('joinWindowMinutes', Number(e.target.value))}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="maxDurationMinutes" className="block text-sm font-medium text-gray-700 mb-1">
+                    Max Duration (min)
+                  </label>
+                  <Input
+                    id="maxDurationMinutes"
+                    type="number"
+                    min={5}
+                    max={480}
+                    value={newSessionData.maxDurationMinutes}
+                    onChange={(e) => handleInputChange('maxDurationMinutes', Number(e.target.value))}
+                  />
+                </div>
+              </div>
+            )}
+
             <div className="flex justify-end space-x-3 pt-4">
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
               </Button>
-              <Button 
+              <Button
                 type="submit"
-                disabled={!newSessionData.candidateName.trim() || !newSessionData.candidateEmail.trim()}
+                disabled={!newSessionData.candidateName.trim()}
               >
-                Create Session
+                {isScheduled ? 'Schedule Interview' : 'Create Session'}
               </Button>
             </div>
           </form>
@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import apiService from '../../services/apiService';
+import { captureFaceDescriptor } from '../../utils/faceDescriptor';
+import type { IdentityVerificationStatus, IdentityVerificationSummary } from '../../types';
+
+interface IdentityVerificationPanelProps {
+  sessionId: string;
+  identityVerification?: IdentityVerificationSummary | undefined;
+  onReferenceUploaded: (summary: IdentityVerificationSummary) => void;
+}
+
+const STATUS_STYLES: Record<IdentityVerificationStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  verified: 'bg-green-100 text-green-800',
+  mismatch: 'bg-red-100 text-red-800'
+};
+
+const STATUS_LABELS: Record<IdentityVerificationStatus, string> = {
+  pending: 'Awaiting check',
+  verified: 'Verified',
+  mismatch: 'Mismatch'
+};
+
+// Reference photos are stored as data URLs, so keep them small
+const MAX_PHOTO_WIDTH = 480;
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The selected file is not an image'));
+    };
+    image.src = url;
+  });
+
+export const IdentityVerificationPanel: React.FC<IdentityVerificationPanelProps> = ({
+  sessionId,
+  identityVerification,
+  onReferenceUploaded
+}) => {
+  const [referencePhoto, setReferencePhoto] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const hasReference = !!identityVerification;
+
+  useEffect(() => {
+    setReferencePhoto(null);
+    if (!hasReference) return;
+
+    let cancelled = false;
+    apiService.get(`/api/sessions/${sessionId}/identity/reference`)
+      .then(response => {
+        if (!cancelled && response.success) {
+          setReferencePhoto(response.data?.photo ?? null);
+        }
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, hasReference]);
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const image = await loadImage(file);
+      const scale = Math.min(1, MAX_PHOTO_WIDTH / image.width);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('Could not read the photo');
+      }
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+      const descriptor = await captureFaceDescriptor(ctx.getImageData(0, 0, canvas.width, canvas.height));
+      if (!descriptor) {
+        toast.error('No face found in the photo. Choose a clear, front-facing photo.');
+        return;
+      }
+
+      const photo = canvas.toDataURL('image/jpeg', 0.85);
+      const response = await apiService.put<IdentityVerificationSummary>(
+        `/api/sessions/${sessionId}/identity/reference`,
+        { descriptor, photo }
+      );
+      if (!response.success || !response.data) {
+        throw new Error(response.message || 'Failed to save reference photo');
+      }
+
+      setReferencePhoto(photo);
+      onReferenceUploaded(response.data);
+      toast.success('Reference photo saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save reference photo');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="col-span-2">
+      <span className="font-medium">Identity:</span>
+      {identityVerification ? (
+        <span className={`ml-2 px-2 py-1 text-xs rounded-full ${STATUS_STYLES[identityVerification.status]}`}>
+          {STATUS_LABELS[identityVerification.status]}
+        </span>
+      ) : (
+        <span className="ml-2 px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800">No reference photo</span>
+      )}
+
+      <div className="mt-2 flex items-start gap-3">
+        {referencePhoto && (
+          <img src={referencePhoto} alt="Reference" className="h-16 w-16 rounded object-cover border" />
+        )}
+        <div className="text-xs text-gray-600 space-y-1">
+          {identityVerification && (
+            <>
+              <p>
+                Checks: {identityVerification.checkCount}, mismatches: {identityVerification.mismatchCount}
+              </p>
+              {identityVerification.lastSimilarity !== undefined && (
+                <p>Last similarity: {Math.round(identityVerification.lastSimilarity * 100)}%</p>
+              )}
+              {identityVerification.lastCheckedAt && (
+                <p>Last checked: {new Date(identityVerification.lastCheckedAt).toLocaleTimeString()}</p>
+              )}
+            </>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/webp"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            {isUploading ? 'Saving...' : referencePhoto || identityVerification ? 'Replace reference photo' : 'Upload reference photo'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
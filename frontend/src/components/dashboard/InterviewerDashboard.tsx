@@ -1,9 +1,12 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import type { InterviewSession } from '../../types';
+import type { InterviewSession, SessionInvitation, SystemCheckResult, IdentityVerificationSummary } from '../../types';
 import { io, Socket } from 'socket.io-client';
 import { AlertManagementPanel } from '../alerts';
 import SessionHistory from './SessionHistory';
+import { CreateSessionModal, type NewSessionData } from './CreateSessionModal';
+import { SystemCheckSummary } from './SystemCheckSummary';
+import { IdentityVerificationPanel } from './IdentityVerificationPanel';
 import { useAlertStreaming } from '../../hooks/useAlertStreaming';
 import { toast } from 'sonner';
 import apiService from '../../services/apiService';
@@ -23,20 +26,34 @@ interface ConnectedUsers {
   }>;
 }
 
+// Defaults match the backend's join window and maximum duration
+const emptySessionData: NewSessionData = {
+  candidateName: '',
+  candidateEmail: '',
+  scheduledStartTime: '',
+  joinWindowMinutes: 15,
+  maxDurationMinutes: 60
+};
+
 export const InterviewerDashboard: React.FC = () => {
   const { authState, logout } = useAuth();
   const [activeSessions, setActiveSessions] = useState<InterviewSession[]>([]);
   const [selectedSession, setSelectedSession] = useState<InterviewSession | null>(null);
   const [connectedUsers, setConnectedUsers] = useState<ConnectedUsers | null>(null);
+  // Checks received live, kept apart from selectedSession so the socket isn't recreated
+  const [systemChecks, setSystemChecks] = useState<Record<string, SystemCheckResult>>({});
+  const [identityChecks, setIdentityChecks] = useState<Record<string, IdentityVerificationSummary>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   // Report dashboard moved to dedicated route; overlay state removed
   const [showCreateSession, setShowCreateSession] = useState(false);
-  const [newSessionData, setNewSessionData] = useState({
-    candidateName: '',
-    candidateEmail: ''
-  });
-  const [createdSession, setCreatedSession] = useState<{sessionId: string, candidateName: string} | null>(null);
+  const [newSessionData, setNewSessionData] = useState<NewSessionData>(emptySessionData);
+  const [createdSession, setCreatedSession] = useState<{
+    sessionId: string;
+    candidateName: string;
+    scheduledStartTime?: string;
+    invitation?: SessionInvitation | null;
+  } | null>(null);
   const [isVideoStreamActive, setIsVideoStreamActive] = useState(false);
   const [videoStreamStatus, setVideoStreamStatus] = useState<'waiting' | 'connecting' | 'connected' | 'disconnected'>('waiting');
   
@@ -108,7 +125,7 @@ export const InterviewerDashboard: React.FC = () => {
   // Fetch active sessions
   const fetchActiveSessions = useCallback(async () => {
     try {
-      const data = await apiService.get<{ sessions: InterviewSession[] }>(`/api/sessions?status=active`);
+      const data = await apiService.get<{ sessions: InterviewSession[] }>(`/api/sessions?status=active,scheduled`);
       if (data.success) {
         setActiveSessions(data.data?.sessions || []);
       }
@@ -133,9 +150,8 @@ export const InterviewerDashboard: React.FC = () => {
 
     const socketUrl = import.meta.env.VITE_WS_URL || import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000';
     const socket = io(socketUrl, {
-      auth: {
-        token: authState.token
-      },
+      // Read the token on every (re)connect so a silently refreshed one is used
+      auth: (cb) => cb({ token: localStorage.getItem('auth_token') }),
       transports: ['websocket', 'polling'],
       timeout: 10000,
       forceNew: true, // Force new connection to avoid conflicts
@@ -164,6 +180,14 @@ export const InterviewerDashboard: React.FC = () => {
       setConnectedUsers(data.connectedUsers);
     });
 
+    socket.on('system_check_completed', (data) => {
+      setSystemChecks(prev => ({ ...prev, [data.sessionId]: data.systemCheck }));
+    });
+
+    socket.on('identity_verification_updated', (data) => {
+      setIdentityChecks(prev => ({ ...prev, [data.sessionId]: data.identityVerification }));
+    });
+
     socket.on('session_status_update', (data) => {
       setActiveSessions(prev =>
         prev.map(session =>
@@ -638,19 +662,30 @@ export const InterviewerDashboard: React.FC = () => {
     }
 
     try {
+      const schedule = newSessionData.scheduledStartTime
+        ? {
+            scheduledStartTime: new Date(newSessionData.scheduledStartTime).toISOString(),
+            joinWindowMinutes: newSessionData.joinWindowMinutes,
+            maxDurationMinutes: newSessionData.maxDurationMinutes
+          }
+        : {};
+
       const resp = await apiService.post(`/api/sessions/create`, {
         candidateName: newSessionData.candidateName,
         candidateEmail: newSessionData.candidateEmail || undefined,
-        interviewerUserId: authState.user?.userId
+        interviewerUserId: authState.user?.userId,
+        ...schedule
       });
 
       if (resp.success && resp.data) {
         const data: any = resp.data;
         setCreatedSession({
           sessionId: data.sessionId,
-          candidateName: data.candidateName
+          candidateName: data.candidateName,
+          scheduledStartTime: data.scheduledStartTime,
+          invitation: data.invitation
         });
-        setNewSessionData({ candidateName: '', candidateEmail: '' });
+        setNewSessionData(emptySessionData);
         fetchActiveSessions(); // Refresh the sessions list
       } else {
         throw new Error((resp as any).message || 'Failed to create session');
@@ -663,7 +698,7 @@ export const InterviewerDashboard: React.FC = () => {
   const resetCreateSession = () => {
     setShowCreateSession(false);
     setCreatedSession(null);
-    setNewSessionData({ candidateName: '', candidateEmail: '' });
+    setNewSessionData(emptySessionData);
   };
 
   // Helper functions
@@ -827,7 +862,9 @@ export const InterviewerDashboard: React.FC = () => {
                             {session.candidateName}
                           </h3>
                           <p className="text-sm text-gray-500">
-                            Started: {new Date(session.startTime).toLocaleString()}
+                            {session.status === 'scheduled' && session.scheduledStartTime
+                              ? `Scheduled: ${new Date(session.scheduledStartTime).toLocaleString()}`
+                              : `Started: ${new Date(session.startTime).toLocaleString()}`}
                           </p>
                           <p className="text-sm text-gray-500">
                             Session ID: {session.sessionId}
@@ -836,7 +873,9 @@ export const InterviewerDashboard: React.FC = () => {
                         <div className="flex items-center space-x-2">
                           <span className={`px-2 py-1 text-xs font-medium rounded-full ${session.status === 'active'
                             ? 'bg-green-100 text-green-800'
-                            : 'bg-gray-100 text-gray-800'
+                            : session.status === 'scheduled'
+                              ? 'bg-blue-100 text-blue-800'
+                              : 'bg-gray-100 text-gray-800'
                             }`}>
                             {session.status}
                           </span>
@@ -1111,6 +1150,16 @@ export const InterviewerDashboard: React.FC = () => {
                          videoStreamStatus === 'disconnected' ? 'Disconnected' : 'Waiting'}
                       </span>
                     </div>
+                    <SystemCheckSummary
+                      systemCheck={systemChecks[selectedSession!.sessionId] ?? selectedSession!.systemCheck}
+                    />
+                    <IdentityVerificationPanel
+                      sessionId={selectedSession!.sessionId}
+                      identityVerification={identityChecks[selectedSession!.sessionId] ?? selectedSession!.identityVerification}
+                      onReferenceUploaded={summary =>
+                        setIdentityChecks(prev => ({ ...prev, [selectedSession!.sessionId]: summary }))
+                      }
+                    />
                   </div>
                 </div>
               </div>
@@ -1130,119 +1179,16 @@ export const InterviewerDashboard: React.FC = () => {
         </div>
       </main>
 
-      {/* Create Session Modal */}
-      {showCreateSession && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
-            <h3 className="text-lg font-medium text-gray-900 mb-4">
-              Create New Interview Session
-            </h3>
-            
-            <div className="space-y-4">
-              <div>
-                <label htmlFor="candidateName" className="block text-sm font-medium text-gray-700 mb-2">
-                  Candidate Name *
-                </label>
-                <input
-                  type="text"
-                  id="candidateName"
-                  value={newSessionData.candidateName}
-                  onChange={(e) => setNewSessionData(prev => ({ ...prev, candidateName: e.target.value }))}
-                  placeholder="Enter candidate name..."
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                />
-              </div>
-              
-              <div>
-                <label htmlFor="candidateEmail" className="block text-sm font-medium text-gray-700 mb-2">
-                  Candidate Email (Optional)
-                </label>
-                <input
-                  type="email"
-                  id="candidateEmail"
-                  value={newSessionData.candidateEmail}
-                  onChange={(e) => setNewSessionData(prev => ({ ...prev, candidateEmail: e.target.value }))}
-                  placeholder="Enter candidate email..."
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                />
-              </div>
-            </div>
-            
-            <div className="mt-6 flex justify-end space-x-3">
-              <button
-                onClick={resetCreateSession}
-                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={createNewSession}
-                disabled={!newSessionData.candidateName.trim()}
-                className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Create Session
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
+      {/* Create / schedule session modal */}
+      <CreateSessionModal
+        isOpen={showCreateSession || createdSession !== null}
+        onClose={resetCreateSession}
+        onCreateSession={createNewSession}
+        newSessionData={newSessionData}
+        onUpdateSessionData={setNewSessionData}
+        createdSession={createdSession}
+      />
 
-      {/* Session Created Success Modal */}
-      {createdSession && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 w-full max-w-lg mx-4">
-            <div className="text-center">
-              <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-green-100 mb-4">
-                <svg className="h-6 w-6 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                </svg>
-              </div>
-              
-              <h3 className="text-lg font-medium text-gray-900 mb-2">
-                Session Created Successfully!
-              </h3>
-              
-              <p className="text-sm text-gray-600 mb-4">
-                Share the session ID below with <strong>{createdSession.candidateName}</strong> to begin the interview.
-              </p>
-              
-              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Session ID
-                </label>
-                <div className="flex items-center space-x-2">
-                  <input
-                    type="text"
-                    readOnly
-                    value={createdSession.sessionId}
-                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md bg-white text-sm font-mono"
-                  />
-                  <button
-                    onClick={() => {
-                      navigator.clipboard.writeText(createdSession.sessionId);
-                      // You might want to show a toast notification here
-                    }}
-                    className="px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100"
-                  >
-                    Copy
-                  </button>
-                </div>
-              </div>
-              
-              <p className="text-xs text-gray-500 mb-6">
-                The candidate can use this ID to join the interview session from their dashboard.
-              </p>
-              
-              <button
-                onClick={resetCreateSession}
-                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
-              >
-                Done
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
       {/* Loading state (rendered inline to avoid hook order changes) */}
       {isLoading && (
         <div className="absolute inset-0 flex items-center justify-center bg-gray-50/80 z-50">
@@ -0,0 +1,220 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { Film } from 'lucide-react';
+import type { VideoAssetMetadata } from '../../types';
+import { formatDuration, getLocalVideoId, getSpriteFrameOffset } from '../../utils/videoUtils';
+
+// A detection event or manual observation placed on the scrub bar
+export interface RecordingMarker {
+  id: string;
+  offsetSeconds: number;
+  label: string;
+  kind: 'event' | 'observation';
+  severity: 'low' | 'medium' | 'high';
+}
+
+export interface RecordingPlayerHandle {
+  seekTo: (seconds: number) => void;
+}
+
+interface RecordingPlayerProps {
+  videoUrl: string;
+  token: string | null;
+  markers?: RecordingMarker[];
+  onMarkerClick?: (marker: RecordingMarker) => void;
+}
+
+interface HoverPreview {
+  time: number;
+  // Position of the cursor along the scrub bar, 0..1
+  ratio: number;
+}
+
+const MARKER_COLORS: Record<RecordingMarker['severity'], string> = {
+  high: 'bg-red-600',
+  medium: 'bg-yellow-500',
+  low: 'bg-green-500'
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+export const RecordingPlayer = forwardRef<RecordingPlayerHandle, RecordingPlayerProps>(({
+  videoUrl,
+  token,
+  markers = [],
+  onMarkerClick
+}, ref) => {
+  const videoId = getLocalVideoId(videoUrl);
+  const [metadata, setMetadata] = useState<VideoAssetMetadata | null>(null);
+  // Browser WebM recordings report an infinite duration until fully read, so prefer the probed one
+  const [elementDuration, setElementDuration] = useState<number | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [hover, setHover] = useState<HoverPreview | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    setMetadata(null);
+    if (!videoId) return;
+
+    let cancelled = false;
+    fetch(`/api/videos/${videoId}/metadata`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      }
+    })
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!cancelled && data?.success) {
+          setMetadata(data.data);
+        }
+      })
+      .catch(err => console.warn('Failed to fetch recording metadata:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId, token]);
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (seconds: number) => {
+      const video = videoRef.current;
+      if (!video) return;
+      video.currentTime = Math.max(0, seconds);
+      setCurrentTime(video.currentTime);
+      containerRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'nearest' });
+    }
+  }), []);
+
+  // Media elements cannot send headers, so recordings served by our API play from the
+  // signed link in the metadata; the video element issues range requests against it as it seeks
+  const src = videoId ? metadata?.url : videoUrl;
+  const duration = metadata?.duration ?? elementDuration ?? undefined;
+  const sprite = metadata?.sprite;
+  const spriteOffset = sprite && hover ? getSpriteFrameOffset(sprite, hover.time) : null;
+  const visibleMarkers = duration
+    ? markers.filter(marker => marker.offsetSeconds >= 0 && marker.offsetSeconds <= duration)
+    : [];
+
+  const timeAt = (event: React.MouseEvent<HTMLDivElement>): HoverPreview | null => {
+    if (!duration) return null;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    return { ratio, time: ratio * duration };
+  };
+
+  const seek = (event: React.MouseEvent<HTMLDivElement>) => {
+    const target = timeAt(event);
+    if (target && videoRef.current) {
+      videoRef.current.currentTime = target.time;
+    }
+  };
+
+  const details = metadata ? [
+    duration !== undefined ? formatDuration(duration) : null,
+    metadata.resolution ? `${metadata.resolution.width}×${metadata.resolution.height}` : null,
+    metadata.frameRate ? `${metadata.frameRate} fps` : null,
+    [metadata.videoCodec, metadata.audioCodec].filter(Boolean).join(' / ') || null,
+    formatBytes(metadata.size)
+  ].filter(Boolean) : [];
+
+  return (
+    <div ref={containerRef} className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <Film className="w-5 h-5 mr-2" />
+          Recording
+        </h3>
+        {details.length > 0 && (
+          <span className="text-sm text-gray-500">{details.join(' • ')}</span>
+        )}
+      </div>
+      <div className="p-6 space-y-3">
+        <video
+          ref={videoRef}
+          src={src}
+          poster={metadata?.poster?.url}
+          controls
+          preload="metadata"
+          onLoadedMetadata={event => {
+            const value = event.currentTarget.duration;
+            setElementDuration(Number.isFinite(value) && value > 0 ? value : null);
+          }}
+          onTimeUpdate={event => setCurrentTime(event.currentTarget.currentTime)}
+          className="w-full max-h-[480px] bg-black rounded"
+        />
+
+        {duration ? (
+          <div
+            className="relative h-3 bg-gray-200 rounded cursor-pointer"
+            onMouseMove={event => setHover(timeAt(event))}
+            onMouseLeave={() => setHover(null)}
+            onClick={seek}
+            role="slider"
+            aria-label="Scrub recording"
+            aria-valuemin={0}
+            aria-valuemax={Math.round(duration)}
+            aria-valuenow={Math.round(currentTime)}
+          >
+            <div
+              className="absolute inset-y-0 left-0 bg-blue-200 rounded pointer-events-none"
+              style={{ width: `${Math.min(100, (currentTime / duration) * 100)}%` }}
+            />
+
+            {visibleMarkers.map(marker => (
+              <button
+                key={marker.id}
+                type="button"
+                title={`${marker.label} at ${formatDuration(marker.offsetSeconds)}`}
+                aria-label={`${marker.label} at ${formatDuration(marker.offsetSeconds)}`}
+                onClick={event => {
+                  event.stopPropagation();
+                  onMarkerClick?.(marker);
+                }}
+                className={`absolute -top-1 h-5 w-1 -translate-x-1/2 rounded-sm ${MARKER_COLORS[marker.severity]} ${
+                  marker.kind === 'observation' ? 'ring-1 ring-blue-700' : ''
+                }`}
+                style={{ left: `${(marker.offsetSeconds / duration) * 100}%` }}
+              />
+            ))}
+
+            {hover && (
+              <div
+                className="absolute bottom-5 -translate-x-1/2 pointer-events-none"
+                style={{ left: `${hover.ratio * 100}%` }}
+              >
+                {sprite && spriteOffset && (
+                  <div
+                    className="rounded border border-gray-300 shadow"
+                    style={{
+                      width: sprite.frameWidth,
+                      height: sprite.frameHeight,
+                      backgroundImage: `url(${sprite.url})`,
+                      backgroundPosition: `-${spriteOffset.x}px -${spriteOffset.y}px`
+                    }}
+                  />
+                )}
+                <div className="mt-1 text-center text-xs text-gray-700">{formatDuration(hover.time)}</div>
+              </div>
+            )}
+          </div>
+        ) : null}
+
+        {visibleMarkers.length > 0 && (
+          <div className="flex items-center space-x-4 text-xs text-gray-500">
+            <span className="flex items-center"><span className="w-1 h-3 mr-1 bg-red-600 rounded-sm" />High</span>
+            <span className="flex items-center"><span className="w-1 h-3 mr-1 bg-yellow-500 rounded-sm" />Medium</span>
+            <span className="flex items-center"><span className="w-1 h-3 mr-1 bg-green-500 rounded-sm" />Low</span>
+            <span className="flex items-center"><span className="w-1 h-3 mr-1 bg-gray-300 ring-1 ring-blue-700 rounded-sm" />Manual observation</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+RecordingPlayer.displayName = 'RecordingPlayer';
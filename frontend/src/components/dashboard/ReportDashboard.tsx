@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import type { InterviewSession, DetectionEvent, Alert } from '../../types';
 import { 
@@ -20,6 +20,14 @@ import {
   XCircle
 } from 'lucide-react';
 import { getAlertTypeInfo } from '../alerts/alertTypeMap';
+import {
+  calculateIntegrityBreakdown,
+  DEFAULT_SCORING_POLICY,
+  type IntegrityBreakdown,
+  type ScorableEvent,
+  type ScorableObservation,
+  type ScoringPolicy
+} from '@shared/scoring/integrityScoring';
 import { 
   safeParseDate, 
   safeFormatDate, 
@@ -27,6 +35,26 @@ import {
   safeFormatTime
 } from '../../utils/dateUtils';
 import { ErrorBoundary } from '../error/ErrorBoundary';
+import { RecordingPlayer, type RecordingMarker, type RecordingPlayerHandle } from './RecordingPlayer';
+import { formatDuration, getRecordingOffset } from '../../utils/videoUtils';
+
+// Event types listed in the per-type breakdown, matching the report's eventStats
+const REPORTED_EVENT_TYPES = [
+  'focus-loss',
+  'absence',
+  'multiple-faces',
+  'unauthorized-item',
+  'drowsiness',
+  'eye-closure',
+  'excessive-blinking',
+  'background-voice',
+  'multiple-voices',
+  'excessive-noise',
+  'identity-mismatch'
+];
+
+// Seconds of lead-in shown before an event when jumping to it in the recording
+const SEEK_CONTEXT_SECONDS = 5;
 
 interface ReportDashboardProps {
   sessionId: string;
@@ -37,14 +65,10 @@ interface ReportDashboardProps {
 
 interface LiveSessionSummary {
   integrityScore: number;
-  integrityBreakdown?: {
-    baseScore: number;
-    deductions: Record<string, number> & { total: number };
-    finalScore: number;
-    formula: string;
-  };
+  integrityBreakdown?: IntegrityBreakdown;
   totalEvents: number; // violation events only (excludes recovery like face-visible)
   counts: Record<string, number>; // raw counts per type
+  durations: Record<string, number>; // total seconds per type (from detection events)
   sessionDuration: number;
   lastEventTime?: Date;
 }
@@ -76,6 +100,7 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({
     integrityScore: 100,
     totalEvents: 0,
     counts: {},
+    durations: {},
     sessionDuration: 0
   });
   
@@ -93,6 +118,7 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({
     progress: 0
   });
   
+  const [scoringPolicy, setScoringPolicy] = useState<ScoringPolicy>(DEFAULT_SCORING_POLICY);
   const [activeTab, setActiveTab] = useState<'summary' | 'timeline' | 'observations'>('summary');
   const [timelineFilter, setTimelineFilter] = useState<'all' | 'high' | 'medium' | 'low'>('all');
   const [isLoading, setIsLoading] = useState(true);
@@ -114,89 +140,100 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({
     }
   }, [session.startTime, session.endTime]);
 
-  // Calculate live summary from alerts and events
+  // Older recordings did not store when the recorder started; the session start is close enough
+  const recordingStartedAt = session.videoUrl ? (session.recordingStartedAt ?? session.startTime) : undefined;
+  const playerRef = useRef<RecordingPlayerHandle>(null);
+
+  const recordingOffsetOf = useCallback((timestamp: Date | string): number | null => {
+    if (!recordingStartedAt) return null;
+    const offset = getRecordingOffset(timestamp, recordingStartedAt);
+    return Number.isFinite(offset) && offset >= 0 ? offset : null;
+  }, [recordingStartedAt]);
+
+  const seekToMoment = useCallback((timestamp: Date | string) => {
+    const offset = recordingOffsetOf(timestamp);
+    if (offset !== null) {
+      playerRef.current?.seekTo(offset - SEEK_CONTEXT_SECONDS);
+    }
+  }, [recordingOffsetOf]);
+
+  const recordingMarkers = useMemo((): RecordingMarker[] => {
+    if (!recordingStartedAt) return [];
+    const markers: RecordingMarker[] = [];
+
+    detectionEvents.forEach((event, index) => {
+      const info = getAlertTypeInfo(event.eventType);
+      const offset = recordingOffsetOf(event.timestamp);
+      if (!info.isViolation || offset === null) return;
+      markers.push({
+        id: `event-${index}`,
+        offsetSeconds: offset,
+        label: info.label,
+        kind: 'event',
+        severity: info.defaultSeverity ?? 'medium'
+      });
+    });
+
+    manualObservations.forEach((observation, index) => {
+      const offset = recordingOffsetOf(observation.timestamp);
+      if (offset === null) return;
+      markers.push({
+        id: `observation-${observation.id ?? index}`,
+        offsetSeconds: offset,
+        label: `Observation: ${observation.description}`,
+        kind: 'observation',
+        severity: observation.severity
+      });
+    });
+
+    return markers;
+  }, [detectionEvents, manualObservations, recordingOffsetOf, recordingStartedAt]);
+
+  const handleMarkerClick = useCallback((marker: RecordingMarker) => {
+    playerRef.current?.seekTo(marker.offsetSeconds - SEEK_CONTEXT_SECONDS);
+  }, []);
+
+  // Calculate live summary from alerts and events with the shared scoring engine
   const calculateLiveSummary = useCallback((events: DetectionEvent[], observations: ManualObservation[], rawAlerts: Alert[]): LiveSessionSummary => {
     try {
       // Validate inputs
       const safeEvents = Array.isArray(events) ? events : [];
       const safeObservations = Array.isArray(observations) ? observations : [];
-
-      // Derive counts from alerts (more authoritative for real-time view)
       const safeAlerts = Array.isArray(rawAlerts) ? rawAlerts : [];
-      const counts: Record<string, number> = {};
-      safeAlerts.forEach(a => { counts[a.type] = (counts[a.type] || 0) + 1; });
 
-      // Include legacy detectionEvents (in case some events not surfaced as alerts yet)
-      safeEvents.forEach(e => { counts[e.eventType] = (counts[e.eventType] || 0) + 1; });
+      // Persisted detection events carry durations; alerts arrive first in real time.
+      // Score every stored event, plus any alerts not yet persisted as events.
+      const scorableEvents: ScorableEvent[] = safeEvents.map(e => ({ eventType: e.eventType, duration: e.duration }));
+      const alertCounts: Record<string, number> = {};
+      safeAlerts.forEach(a => { alertCounts[a.type] = (alertCounts[a.type] || 0) + 1; });
+      Object.entries(alertCounts).forEach(([type, alertCount]) => {
+        if (type === 'manual_flag') return; // scored as manual observations below
+        const stored = safeEvents.filter(e => e.eventType === type).length;
+        for (let i = stored; i < alertCount; i++) {
+          scorableEvents.push({ eventType: type });
+        }
+      });
+
+      const counts: Record<string, number> = {};
+      const durations: Record<string, number> = {};
+      scorableEvents.forEach(e => {
+        counts[e.eventType] = (counts[e.eventType] || 0) + 1;
+        durations[e.eventType] = (durations[e.eventType] || 0) + (e.duration || 0);
+      });
+      if (alertCounts['manual_flag']) counts['manual_flag'] = alertCounts['manual_flag'];
 
       // Filter violation events (exclude recovery types like face-visible)
-      const violationTypes = Object.keys(counts).filter(t => getAlertTypeInfo(t).isViolation);
-      const violationEvents = violationTypes.reduce((sum, t) => sum + counts[t], 0);
-
-      // Calculate integrity score via rule table
-      let integrityScore = 100;
-      const deductions: Record<string, number> = {};
-
-      const deductionRules: Record<string, number> = {
-        'focus-loss': 2,
-        'absence': 5,
-        'multiple-faces': 10,
-        'unauthorized-item': 15,
-        'manual_flag': 0, // manual flags handled separately by severity
-        'background-voice': 8,
-        'multiple-voices': 12,
-        'excessive-noise': 6
-      };
+      const violationEvents = Object.keys(counts)
+        .filter(t => getAlertTypeInfo(t).isViolation)
+        .reduce((sum, t) => sum + counts[t], 0);
 
-      violationTypes.forEach(type => {
-        if (type === 'manual_flag') return; // separate pass
-        const per = deductionRules[type] ?? 1;
-        deductions[type] = (counts[type] || 0) * per;
-        integrityScore -= deductions[type];
-      });
+      // Flagged manual observations plus manual_flag alerts, weighted by severity
+      const scorableObservations: ScorableObservation[] = [
+        ...safeObservations.filter(obs => obs.flagged),
+        ...safeAlerts.filter(a => a.type === 'manual_flag').map(a => ({ severity: a.severity, flagged: true }))
+      ];
 
-      // Manual observations (existing logic) + manual_flag alerts
-      const flaggedObservations = safeObservations.filter(obs => obs.flagged);
-      let manualObservationsDeduction = 0;
-      flaggedObservations.forEach(obs => {
-        switch (obs.severity) {
-          case 'low': manualObservationsDeduction += 2; break;
-          case 'medium': manualObservationsDeduction += 5; break;
-          case 'high': manualObservationsDeduction += 10; break;
-        }
-      });
-      // Add manual_flag alerts severity-based (approx using alert.severity)
-      safeAlerts.filter(a => a.type === 'manual_flag').forEach(a => {
-        if (a.severity === 'low') manualObservationsDeduction += 2;
-        else if (a.severity === 'medium') manualObservationsDeduction += 5;
-        else manualObservationsDeduction += 10;
-      });
-      deductions['manualObservations'] = manualObservationsDeduction;
-      integrityScore -= manualObservationsDeduction;
-
-      const totalDeductions = Object.values(deductions).reduce((s, v) => s + v, 0);
-    
-      const deductionParts: string[] = [];
-      Object.entries(deductions).forEach(([type, value]) => {
-        if (!value) return;
-        if (type === 'manualObservations') {
-          deductionParts.push(`${flaggedObservations.length + (counts['manual_flag'] || 0)} manual flags (${value})`);
-        } else {
-          const info = getAlertTypeInfo(type);
-            deductionParts.push(`${counts[type]} ${info.label.toLowerCase()} (${value})`);
-        }
-      });
-    
-    const formula = deductionParts.length > 0 
-      ? `100 - [${deductionParts.join(' + ')}] = ${integrityScore}`
-      : `100 - 0 = ${integrityScore}`;
-
-    const integrityBreakdown = {
-      baseScore: 100,
-      deductions: { ...deductions, total: totalDeductions },
-      finalScore: integrityScore,
-      formula
-    };
+      const integrityBreakdown = calculateIntegrityBreakdown(scorableEvents, scorableObservations, scoringPolicy);
 
     const lastEventTime = safeEvents.length > 0 
       ? (() => {
@@ -216,10 +253,11 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({
       : undefined;
 
     return {
-      integrityScore,
+      integrityScore: integrityBreakdown.finalScore,
       integrityBreakdown,
       totalEvents: violationEvents,
       counts,
+      durations,
       sessionDuration,
       lastEventTime
     };
@@ -230,11 +268,39 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({
       integrityScore: 0,
       totalEvents: 0,
       counts: {},
+      durations: {},
       sessionDuration: 0,
       lastEventTime: undefined
     };
   }
-  }, [sessionDuration]);
+  }, [sessionDuration, scoringPolicy]);
+
+  // Fetch the active scoring policy so the live score matches the generated report
+  const fetchScoringPolicy = useCallback(async () => {
+    try {
+      const headers = {
+        'Authorization': `Bearer ${authState.token}`,
+        'Content-Type': 'application/json'
+      };
+      const listResponse = await fetch('/api/scoring-policies', { headers });
+      if (!listResponse.ok) return;
+
+      const listData = await listResponse.json();
+      const active = (listData.data || []).find((policy: { isDefault: boolean }) => policy.isDefault);
+      if (!active) return;
+
+      const policyResponse = await fetch(`/api/scoring-policies/${active.name}`, { headers });
+      if (policyResponse.ok) {
+        const policyData = await policyResponse.json();
+        if (policyData.success && policyData.data) {
+          setScoringPolicy(policyData.data);
+        }
+      }
+    } catch (err) {
+      // Keep the built-in policy
+      console.warn('Failed to fetch scoring policy:', err);
+    }
+  }, [authState.token]);
 
   // Fetch detection events for the session
   const fetchDetectionEvents = useCallback(async () => {
@@ -396,6 +462,8 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({
             reportReady = true;
           } else if (statusData.data.status === 'failed') {
             throw new Error(statusData.data.error || 'Report generation failed');
+          } else if (statusData.data.status === 'cancelled') {
+            throw new Error('Report generation was cancelled');
           }
           
           setExportStatus(prev => ({ 
@@ -457,7 +525,8 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({
       try {
         await Promise.all([
           fetchDetectionEvents(),
-          fetchManualObservations()
+          fetchManualObservations(),
+          fetchScoringPolicy()
         ]);
       } catch (err) {
         setError('Failed to load report data');
@@ -467,7 +536,7 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({
     };
 
     loadData();
-  }, [fetchDetectionEvents, fetchManualObservations]);
+  }, [fetchDetectionEvents, fetchManualObservations, fetchScoringPolicy]);
 
   // Real-time updates from alerts (lightweight ingestion for timeline display only)
   useEffect(() => {
@@ -678,6 +747,19 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({
             </nav>
           </div>
 
+          {/* Recording, kept mounted across tabs so playback survives switching */}
+          {session.videoUrl && (
+            <div className="mb-6">
+              <RecordingPlayer
+                ref={playerRef}
+                videoUrl={session.videoUrl}
+                token={authState.token}
+                markers={recordingMarkers}
+                onMarkerClick={handleMarkerClick}
+              />
+            </div>
+          )}
+
           {/* Tab Content */}
           {activeTab === 'summary' && (
             <div className="space-y-6">
@@ -777,27 +859,16 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({
                       <div>
                         <h4 className="text-md font-semibold text-gray-900 mb-3">Deduction Breakdown</h4>
                         <div className="space-y-3">
-                          {(() => {
-                            const d = liveSummary.integrityBreakdown.deductions;
-                            // Map UI labels to deduction keys used in calculation (which are hyphen-case)
-                            const rows: { key: string; per: number; label: string }[] = [
-                              { key: 'focus-loss', per: 2, label: 'Focus Loss' },
-                              { key: 'absence', per: 5, label: 'Absence' },
-                              { key: 'multiple-faces', per: 10, label: 'Multiple Faces' },
-                              { key: 'unauthorized-item', per: 15, label: 'Unauthorized Items' }
-                            ];
-                            return rows.map(r => {
-                              const raw = (d as any)[r.key] || 0;
-                              if (!raw) return null; // Skip zero deductions
-                              const incidents = Math.round(raw / r.per) || 0;
-                              return (
-                                <div key={r.key} className="flex justify-between items-center p-3 bg-red-50 rounded-md">
-                                  <span className="text-sm font-medium text-gray-700">{r.label} ({incidents} incidents × -{r.per} pts)</span>
-                                  <span className="text-sm font-bold text-red-600">-{raw}</span>
-                                </div>
-                              );
-                            });
-                          })()}
+                          {liveSummary.integrityBreakdown.eventDeductions
+                            .filter(item => item.deduction > 0) // Skip zero deductions
+                            .map(item => (
+                              <div key={item.eventType} className="flex justify-between items-center p-3 bg-red-50 rounded-md">
+                                <span className="text-sm font-medium text-gray-700">
+                                  {getAlertTypeInfo(item.eventType).label} ({item.count} incidents × -{item.pointsPerIncident} pts{item.capped ? ', capped' : ''})
+                                </span>
+                                <span className="text-sm font-bold text-red-600">-{item.deduction}</span>
+                              </div>
+                            ))}
                           {liveSummary.integrityBreakdown.deductions.manualObservations > 0 && (
                             <div className="flex justify-between items-center p-3 bg-red-50 rounded-md">
                               <span className="text-sm font-medium text-gray-700">Manual Flags (variable deduction)</span>
@@ -823,7 +894,7 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({
                             <span className={`text-xl font-bold ${
                               liveSummary.integrityBreakdown.finalScore >= 80 ? 'text-green-600' :
                               liveSummary.integrityBreakdown.finalScore >= 60 ? 'text-yellow-600' : 'text-red-600'
-                            }`}>{liveSummary.integrityBreakdown.finalScore}/100</span>
+                            }`}>{liveSummary.integrityBreakdown.finalScore}/{liveSummary.integrityBreakdown.baseScore}</span>
                           </div>
                         </div>
                       </div>
@@ -863,6 +934,32 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({
                       <div className="text-sm text-gray-500">Unauthorized Items</div>
                     </div>
                   </div>
+
+                  {/* Every event type with its count and total duration */}
+                  <table className="mt-6 min-w-full divide-y divide-gray-200">
+                    <thead>
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Event Type</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Count</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total Duration</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {REPORTED_EVENT_TYPES.map(type => {
+                        const info = getAlertTypeInfo(type);
+                        const duration = liveSummary.durations[type] || 0;
+                        return (
+                          <tr key={type}>
+                            <td className="px-3 py-2 text-sm text-gray-700">
+                              <span className="inline-flex items-center gap-2">{info.icon}{info.label}</span>
+                            </td>
+                            <td className="px-3 py-2 text-sm text-right font-medium text-gray-900">{liveSummary.counts[type] || 0}</td>
+                            <td className="px-3 py-2 text-sm text-right text-gray-500">{duration ? `${Math.round(duration * 10) / 10}s` : '—'}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
                 </div>
               </div>
 
@@ -936,31 +1033,44 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {detectionEvents.map((event, index) => (
-                      <div key={index} className="flex items-start space-x-4">
-                        <div className="flex-shrink-0 w-2 h-2 bg-blue-500 rounded-full mt-2"></div>
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center justify-between">
-                            <div className="flex items-center space-x-2">
-                              <span className="text-sm font-medium text-gray-900">
-                                {event.eventType.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
-                              </span>
+                    {detectionEvents.map((event, index) => {
+                      const offset = recordingOffsetOf(event.timestamp);
+                      return (
+                        <div
+                          key={index}
+                          className={`flex items-start space-x-4 ${offset !== null ? 'cursor-pointer rounded-md hover:bg-gray-50' : ''}`}
+                          onClick={offset !== null ? () => seekToMoment(event.timestamp) : undefined}
+                          title={offset !== null ? 'Play this moment in the recording' : undefined}
+                        >
+                          <div className="flex-shrink-0 w-2 h-2 bg-blue-500 rounded-full mt-2"></div>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center space-x-2">
+                                <span className="text-sm font-medium text-gray-900">
+                                  {event.eventType.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                                </span>
+                                <span className="text-xs text-gray-500">
+                                  {safeFormatDate(event.timestamp)}
+                                </span>
+                              </div>
                               <span className="text-xs text-gray-500">
-                                {safeFormatDate(event.timestamp)}
+                                {Math.round(event.confidence * 100)}% confidence
                               </span>
                             </div>
-                            <span className="text-xs text-gray-500">
-                              {Math.round(event.confidence * 100)}% confidence
-                            </span>
+                            {event.duration && (
+                              <div className="text-xs text-gray-500 mt-1">
+                                Duration: {event.duration}s
+                              </div>
+                            )}
+                            {offset !== null && (
+                              <div className="text-xs text-blue-600 mt-1">
+                                At {formatDuration(offset)} in recording
+                              </div>
+                            )}
                           </div>
-                          {event.duration && (
-                            <div className="text-xs text-gray-500 mt-1">
-                              Duration: {event.duration}s
-                            </div>
-                          )}
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </div>
@@ -1076,6 +1186,15 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({
                               {observation.flagged && (
                                 <Flag className="w-4 h-4 text-red-500" />
                               )}
+
+                              {recordingOffsetOf(observation.timestamp) !== null && (
+                                <button
+                                  onClick={() => seekToMoment(observation.timestamp)}
+                                  className="text-xs text-blue-600 hover:text-blue-800"
+                                >
+                                  Play at {formatDuration(recordingOffsetOf(observation.timestamp)!)}
+                                </button>
+                              )}
                             </div>
                             
                             <p className="text-sm text-gray-900">{observation.description}</p>
@@ -75,6 +75,20 @@ export const SessionHistory: React.FC = () => {
 		}
 	};
 
+	// Recordings are downloads, so following their signed link keeps this page open
+	const handleOpenRecording = async (videoId: string) => {
+		try {
+			const resp = await apiService.get<{ url: string }>(`/api/videos/${videoId}/link`);
+			if (!resp.success || !resp.data) {
+				throw new Error(resp.error || 'Failed to open recording');
+			}
+			const baseURL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000';
+			window.location.assign(`${baseURL}${resp.data.url}`);
+		} catch (e) {
+			setError(e instanceof Error ? e.message : 'Failed to open recording');
+		}
+	};
+
 	const fetchHistory = async (newOffset = 0) => {
 		try {
 			setIsLoading(true);
@@ -170,6 +184,7 @@ export const SessionHistory: React.FC = () => {
 								key={session.sessionId}
 								session={session}
 								onDownloadReport={handleDownloadReport}
+								onOpenRecording={handleOpenRecording}
 							/>
 						))}
 					</div>
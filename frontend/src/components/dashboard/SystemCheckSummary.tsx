@@ -0,0 +1,56 @@
+import React from 'react';
+import type { SystemCheckResult, SystemCheckStatus } from '../../types';
+
+interface SystemCheckSummaryProps {
+  systemCheck?: SystemCheckResult | undefined;
+}
+
+const STATUS_STYLES: Record<SystemCheckStatus, string> = {
+  passed: 'bg-green-100 text-green-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const STATUS_LABELS: Record<SystemCheckStatus, string> = {
+  passed: 'Passed',
+  warning: 'Warnings',
+  failed: 'Failed'
+};
+
+export const SystemCheckSummary: React.FC<SystemCheckSummaryProps> = ({ systemCheck }) => {
+  if (!systemCheck) {
+    return (
+      <div>
+        <span className="font-medium">System Check:</span>
+        <span className="ml-2 px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800">Not completed</span>
+      </div>
+    );
+  }
+
+  const { camera, microphone, frameProcessing, connection, audio } = systemCheck;
+
+  return (
+    <div className="col-span-2">
+      <span className="font-medium">System Check:</span>
+      <span className={`ml-2 px-2 py-1 text-xs rounded-full ${STATUS_STYLES[systemCheck.overallStatus]}`}>
+        {STATUS_LABELS[systemCheck.overallStatus]}
+      </span>
+      <ul className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-600">
+        <li>Camera: {camera.permission}{camera.deviceLabel ? ` (${camera.deviceLabel})` : ''}</li>
+        <li>Microphone: {microphone.permission}</li>
+        <li className={frameProcessing.status === 'passed' ? '' : 'text-yellow-700'}>
+          Frame processing: {frameProcessing.sampleCount > 0
+            ? `${Math.round(frameProcessing.averageMs)} ms (target ${frameProcessing.maxAllowedMs} ms)`
+            : 'not measured'}
+        </li>
+        <li className={connection.status === 'passed' ? '' : 'text-yellow-700'}>
+          Connection: {connection.connected ? `${connection.latencyMs ?? '?'} ms round trip` : 'unreachable'}
+        </li>
+        <li className={audio.status === 'passed' ? '' : 'text-yellow-700'}>
+          Background noise: {Math.round(audio.baselineNoiseLevel * 100)}%
+        </li>
+        <li>Checked: {new Date(systemCheck.completedAt).toLocaleTimeString()}</li>
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import { createRef } from 'react';
+import { act, render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, beforeEach, expect } from 'vitest';
+import { RecordingPlayer, type RecordingMarker, type RecordingPlayerHandle } from '../RecordingPlayer';
+
+const videoId = '3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e';
+
+const markers: RecordingMarker[] = [
+  { id: 'event-0', offsetSeconds: 30, label: 'Absence', kind: 'event', severity: 'high' },
+  { id: 'observation-1', offsetSeconds: 60, label: 'Observation: looked away', kind: 'observation', severity: 'low' },
+  // Falls after the end of the recording and is not drawn
+  { id: 'event-2', offsetSeconds: 500, label: 'Focus Loss', kind: 'event', severity: 'medium' }
+];
+
+const signedUrl = (path: string) => `${path}?expires=1760000000&signature=f00d`;
+
+const mockMetadata = (data: Record<string, unknown>) => {
+  global.fetch = vi.fn().mockResolvedValue({
+    ok: true,
+    json: async () => ({
+      success: true,
+      data: {
+        videoId,
+        url: signedUrl(`/api/videos/${videoId}`),
+        size: 2048,
+        contentType: 'video/mp4',
+        poster: { url: signedUrl(`/api/videos/${videoId}/poster`), width: 640, height: 360 },
+        ...data
+      }
+    })
+  }) as any;
+};
+
+describe('RecordingPlayer', () => {
+  beforeEach(() => {
+    mockMetadata({ duration: 120 });
+  });
+
+  it('streams the recording from its signed link and shows probed details', async () => {
+    const { container } = render(<RecordingPlayer videoUrl={`/api/videos/${videoId}`} token="abc" />);
+
+    await waitFor(() => expect(screen.getByText(/02:00/)).toBeInTheDocument());
+    expect(fetch).toHaveBeenCalledWith(`/api/videos/${videoId}/metadata`, expect.objectContaining({
+      headers: expect.objectContaining({ Authorization: 'Bearer abc' })
+    }));
+    const video = container.querySelector('video')!;
+    expect(video.getAttribute('src')).toBe(signedUrl(`/api/videos/${videoId}`));
+    expect(video.getAttribute('poster')).toBe(signedUrl(`/api/videos/${videoId}/poster`));
+    expect(video.getAttribute('src')).not.toContain('abc');
+  });
+
+  it('draws markers inside the recording and reports clicks', async () => {
+    const onMarkerClick = vi.fn();
+    render(
+      <RecordingPlayer
+        videoUrl={`/api/videos/${videoId}`}
+        token="abc"
+        markers={markers}
+        onMarkerClick={onMarkerClick}
+      />
+    );
+
+    const absence = await screen.findByLabelText('Absence at 00:30');
+    expect(screen.getByLabelText('Observation: looked away at 01:00')).toBeInTheDocument();
+    expect(screen.queryByLabelText(/Focus Loss/)).not.toBeInTheDocument();
+
+    fireEvent.click(absence);
+    expect(onMarkerClick).toHaveBeenCalledWith(markers[0]);
+  });
+
+  it('seeks the video through its handle, never before the start', async () => {
+    const ref = createRef<RecordingPlayerHandle>();
+    const { container } = render(<RecordingPlayer ref={ref} videoUrl={`/api/videos/${videoId}`} token="abc" />);
+    const video = container.querySelector('video')!;
+    await screen.findByText(/02:00/);
+
+    act(() => ref.current!.seekTo(42));
+    expect(video.currentTime).toBe(42);
+
+    act(() => ref.current!.seekTo(-3));
+    expect(video.currentTime).toBe(0);
+  });
+
+  it('plays external recordings without fetching metadata', () => {
+    const { container } = render(<RecordingPlayer videoUrl="https://cdn.example.com/recording.mp4" token="abc" />);
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(container.querySelector('video')?.getAttribute('src')).toBe('https://cdn.example.com/recording.mp4');
+  });
+});
@@ -8,4 +8,7 @@ export { DashboardHeader } from './DashboardHeader';
 export { SessionList } from './SessionList';
 export { SessionMonitor } from './SessionMonitor';
 export { CreateSessionModal } from './CreateSessionModal';
-export { ErrorBanner } from './ErrorBanner';
\ No newline at end of file
+export { ErrorBanner } from './ErrorBanner';
+export { SystemCheckSummary } from './SystemCheckSummary';
+export { IdentityVerificationPanel } from './IdentityVerificationPanel';
+export { RecordingPlayer } from './RecordingPlayer';
\ No newline at end of file
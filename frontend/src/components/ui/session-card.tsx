@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader } from "./card"
 import { Badge } from "./badge"
 import { Button } from "./button"
 import { StatusBadge } from "./status-badge"
+import { getLocalVideoId } from "../../utils/videoUtils"
 
 export interface SessionCardProps {
   session: {
@@ -18,6 +19,8 @@ export interface SessionCardProps {
     reportId?: string | null
   }
   onDownloadReport?: (reportId: string) => void
+  // Recordings served by our API need a signed link, which the parent requests
+  onOpenRecording?: (videoId: string) => void
   className?: string
 }
 
@@ -45,7 +48,7 @@ const formatDateTime = (date: string | Date) => {
 }
 
 export const SessionCard = React.forwardRef<HTMLDivElement, SessionCardProps>(
-  ({ session, onDownloadReport, className, ...props }, ref) => {
+  ({ session, onDownloadReport, onOpenRecording, className, ...props }, ref) => {
     const getRecordingUrl = (url?: string | null) => {
       if (!url) return null
       return url.startsWith('http') 
@@ -53,6 +56,8 @@ export const SessionCard = React.forwardRef<HTMLDivElement, SessionCardProps>(
         : `${import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000'}${url}`
     }
 
+    const localVideoId = getLocalVideoId(session.recordingUrl)
+
     return (
       <Card ref={ref} className={cn("hover:shadow-md transition-shadow", className)} {...props}>
         <CardHeader className="pb-3">
@@ -112,6 +117,11 @@ export const SessionCard = React.forwardRef<HTMLDivElement, SessionCardProps>(
                     href={getRecordingUrl(session.recordingUrl)!}
                     target="_blank"
                     rel="noopener noreferrer"
+                    onClick={event => {
+                      if (!localVideoId) return
+                      event.preventDefault()
+                      onOpenRecording?.(localVideoId)
+                    }}
                     className="flex items-center gap-1"
                   >
                     <Download className="h-3 w-3" />
@@ -80,6 +80,14 @@ export const CV_CONFIG = {
     audioEventDebounceMs: Number(import.meta.env.VITE_AUDIO_EVENT_DEBOUNCE_MS ?? 1000)
   },
 
+  // Identity verification against the interviewer's reference photo
+  identityVerification: {
+    // How often the candidate is re-checked during the interview
+    recheckInterval: Number(import.meta.env.VITE_IDENTITY_RECHECK_MS ?? 120000),
+    // Snapshots the candidate may take before a failed initial check is reported
+    maxInitialAttempts: 3
+  },
+
   // Real-time Communication
   realtime: {
     // WebSocket settings
@@ -142,3 +150,4 @@ export const REALTIME_CONFIG = CV_CONFIG.realtime;
 export const PERFORMANCE_CONFIG = CV_CONFIG.performance;
 export const DEBUG_CONFIG = CV_CONFIG.debug;
 export const ENHANCED_MONITORING_CONFIG = CV_CONFIG.enhancedMonitoring;
+export const IDENTITY_VERIFICATION_CONFIG = CV_CONFIG.identityVerification;
@@ -1,5 +1,5 @@
-import React, { createContext, useContext, useReducer, useEffect, type ReactNode } from 'react';
-import type { AuthState, AuthContextType, LoginCredentials, SignupData, User } from '../types';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, type ReactNode } from 'react';
+import type { AuthState, AuthContextType, LoginCredentials, SignupData, User, TwoFactorChallenge, TwoFactorEnrollment } from '../types';
 import { apiService } from '../services/apiService';
 
 // Initial auth state
@@ -9,6 +9,53 @@ const initialAuthState: AuthState = {
   isAuthenticated: false,
   isLoading: true,
   error: null,
+  twoFactorChallenge: null,
+};
+
+// Refresh this long before the access token expires, plus a random spread so open tabs do not race
+const REFRESH_MARGIN_MS = 60 * 1000;
+const REFRESH_SPREAD_MS = 30 * 1000;
+
+// Tokens as returned by register, login and refresh
+interface AuthSessionData {
+  user: User;
+  token: string;
+  refreshToken?: string;
+  expiresIn?: number;
+}
+
+const storeSession = (data: AuthSessionData): void => {
+  localStorage.setItem('auth_token', data.token);
+  localStorage.setItem('auth_user', JSON.stringify(data.user));
+  if (data.refreshToken) {
+    localStorage.setItem('refresh_token', data.refreshToken);
+  }
+  if (data.expiresIn) {
+    localStorage.setItem('auth_token_expires_at', String(Date.now() + data.expiresIn * 1000));
+  }
+};
+
+const clearSession = (): void => {
+  localStorage.removeItem('auth_token');
+  localStorage.removeItem('auth_user');
+  localStorage.removeItem('refresh_token');
+  localStorage.removeItem('auth_token_expires_at');
+};
+
+// Revoke the tokens on the server; the local session is already gone, so failures are only logged
+const revokeSession = async (token: string | null, refreshToken: string | null): Promise<void> => {
+  try {
+    await fetch('/api/auth/logout', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(refreshToken ? { refreshToken } : {}),
+    });
+  } catch (err) {
+    console.error('Logout error:', err);
+  }
 };
 
 // Auth actions
@@ -16,6 +63,9 @@ type AuthAction =
   | { type: 'AUTH_START' }
   | { type: 'AUTH_SUCCESS'; payload: { user: User; token: string } }
   | { type: 'AUTH_ERROR'; payload: string }
+  | { type: 'TWO_FACTOR_REQUIRED'; payload: TwoFactorChallenge }
+  | { type: 'TWO_FACTOR_ERROR'; payload: string }
+  | { type: 'TWO_FACTOR_CANCEL' }
   | { type: 'AUTH_LOGOUT' }
   | { type: 'CLEAR_ERROR' };
 
@@ -36,6 +86,7 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isAuthenticated: true,
         isLoading: false,
         error: null,
+        twoFactorChallenge: null,
       };
     case 'AUTH_ERROR':
       return {
@@ -45,6 +96,28 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isAuthenticated: false,
         isLoading: false,
         error: action.payload,
+        twoFactorChallenge: null,
+      };
+    case 'TWO_FACTOR_REQUIRED':
+      return {
+        ...state,
+        isLoading: false,
+        error: null,
+        twoFactorChallenge: action.payload,
+      };
+    case 'TWO_FACTOR_ERROR':
+      // Keep the challenge so the user can try another code
+      return {
+        ...state,
+        isLoading: false,
+        error: action.payload,
+      };
+    case 'TWO_FACTOR_CANCEL':
+      return {
+        ...state,
+        isLoading: false,
+        error: null,
+        twoFactorChallenge: null,
       };
     case 'AUTH_LOGOUT':
       return {
@@ -54,6 +127,7 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isAuthenticated: false,
         isLoading: false,
         error: null,
+        twoFactorChallenge: null,
       };
     case 'CLEAR_ERROR':
       return {
@@ -76,11 +150,88 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [authState, dispatch] = useReducer(authReducer, initialAuthState);
 
-  // Setup API service unauthorized handler
+  // Exchange the refresh token for a new access token; false when the session cannot be renewed
+  const refreshSession = useCallback(async (): Promise<boolean> => {
+    const refreshToken = localStorage.getItem('refresh_token');
+    if (!refreshToken) {
+      return false;
+    }
+
+    try {
+      const response = await fetch('/api/auth/refresh', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+      if (!response.ok) {
+        return false;
+      }
+
+      const data = await response.json();
+      storeSession(data.data);
+      dispatch({
+        type: 'AUTH_SUCCESS',
+        payload: { user: data.data.user, token: data.data.token },
+      });
+      return true;
+    } catch (err) {
+      console.error('Token refresh error:', err);
+      return false;
+    }
+  }, []);
+
+  // Setup API service unauthorized handler and silent refresh
   useEffect(() => {
     apiService.setUnauthorizedHandler(() => {
       dispatch({ type: 'AUTH_LOGOUT' });
     });
+    apiService.setTokenRefresher(refreshSession);
+  }, [refreshSession]);
+
+  // Renew the access token shortly before it expires
+  useEffect(() => {
+    const expiresAt = Number(localStorage.getItem('auth_token_expires_at'));
+    if (!authState.token || !expiresAt) {
+      return;
+    }
+
+    const delay = Math.max(0, expiresAt - Date.now() - REFRESH_MARGIN_MS - Math.random() * REFRESH_SPREAD_MS);
+    const timer = setTimeout(() => {
+      // Another tab may have refreshed already; the storage listener picks up its token
+      if (Number(localStorage.getItem('auth_token_expires_at')) - Date.now() > REFRESH_MARGIN_MS) {
+        return;
+      }
+      void apiService.refreshSession();
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [authState.token]);
+
+  // Follow sign-ins, refreshes and sign-outs made in other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== 'auth_token') {
+        return;
+      }
+      const userStr = localStorage.getItem('auth_user');
+      if (event.newValue && userStr) {
+        try {
+          dispatch({
+            type: 'AUTH_SUCCESS',
+            payload: { user: JSON.parse(userStr), token: event.newValue },
+          });
+        } catch {
+          dispatch({ type: 'AUTH_LOGOUT' });
+        }
+      } else {
+        dispatch({ type: 'AUTH_LOGOUT' });
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
   }, []);
 
   // Check for existing token on mount
@@ -98,8 +249,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           });
         } catch {
           // Invalid stored data, clear it
-          localStorage.removeItem('auth_token');
-          localStorage.removeItem('auth_user');
+          clearSession();
           dispatch({ type: 'AUTH_LOGOUT' });
         }
       } else {
@@ -129,9 +279,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         throw new Error(data.error || data.message || 'Login failed');
       }
 
-      // Store token and user data (backend returns data.data.token and data.data.user)
-      localStorage.setItem('auth_token', data.data.token);
-      localStorage.setItem('auth_user', JSON.stringify(data.data.user));
+      // The password was right but a second factor is needed first
+      if (data.data?.twoFactorStep) {
+        dispatch({
+          type: 'TWO_FACTOR_REQUIRED',
+          payload: { step: data.data.twoFactorStep, challengeToken: data.data.challengeToken },
+        });
+        return;
+      }
+
+      // Store tokens and user data (backend returns data.data.token, data.data.refreshToken and data.data.user)
+      storeSession(data.data);
 
       dispatch({
         type: 'AUTH_SUCCESS',
@@ -164,9 +322,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         throw new Error(responseData.error || responseData.message || 'Signup failed');
       }
 
-      // Store token and user data (backend returns data.data.token and data.data.user)
-      localStorage.setItem('auth_token', responseData.data.token);
-      localStorage.setItem('auth_user', JSON.stringify(responseData.data.user));
+      // The organization requires a second factor for this role: enroll before signing in
+      if (responseData.data?.twoFactorStep) {
+        dispatch({
+          type: 'TWO_FACTOR_REQUIRED',
+          payload: { step: responseData.data.twoFactorStep, challengeToken: responseData.data.challengeToken },
+        });
+        return;
+      }
+
+      // Store tokens and user data (backend returns data.data.token, data.data.refreshToken and data.data.user)
+      storeSession(responseData.data);
 
       dispatch({
         type: 'AUTH_SUCCESS',
@@ -179,11 +345,113 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  // Logout function
+  // POST a second-step request carrying the login challenge
+  const postTwoFactor = async (path: string, body: Record<string, string>) => {
+    const response = await fetch(path, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...body, challengeToken: authState.twoFactorChallenge?.challengeToken }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || data.message || 'Two-factor authentication failed');
+    }
+    return data.data;
+  };
+
+  // Second step of the login: an authenticator code or a recovery code
+  const verifyTwoFactor = async (code: string): Promise<void> => {
+    dispatch({ type: 'AUTH_START' });
+
+    try {
+      const session = await postTwoFactor('/api/auth/login/two-factor', { code });
+      storeSession(session);
+
+      dispatch({
+        type: 'AUTH_SUCCESS',
+        payload: { user: session.user, token: session.token },
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Two-factor authentication failed';
+      dispatch({ type: 'TWO_FACTOR_ERROR', payload: errorMessage });
+      throw err;
+    }
+  };
+
+  // Enrollment the organization requires before the login can finish
+  const startTwoFactorSetup = async (): Promise<TwoFactorEnrollment> => {
+    return postTwoFactor('/api/auth/two-factor/setup', {});
+  };
+
+  const completeTwoFactorSetup = async (code: string): Promise<{ recoveryCodes: string[]; finish: () => void }> => {
+    const { recoveryCodes, ...session } = await postTwoFactor('/api/auth/two-factor/enable', { code });
+
+    return {
+      recoveryCodes,
+      finish: () => {
+        storeSession(session);
+        dispatch({
+          type: 'AUTH_SUCCESS',
+          payload: { user: session.user, token: session.token },
+        });
+      },
+    };
+  };
+
+  const cancelTwoFactor = (): void => {
+    dispatch({ type: 'TWO_FACTOR_CANCEL' });
+  };
+
+  // Single sign-on: the browser leaves for the identity provider and comes back to /auth/sso
+  const loginWithSso = (returnTo?: string): void => {
+    const query = returnTo ? `?${new URLSearchParams({ returnTo }).toString()}` : '';
+    window.location.assign(`/api/auth/oidc/login${query}`);
+  };
+
+  // Finish single sign-on with the tokens handed back by the server
+  const completeSsoLogin = async (tokens: { token: string; refreshToken?: string; expiresIn?: number }): Promise<void> => {
+    dispatch({ type: 'AUTH_START' });
+
+    try {
+      const response = await fetch('/api/auth/me', {
+        headers: {
+          Authorization: `Bearer ${tokens.token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || data.message || 'Single sign-on failed');
+      }
+
+      storeSession({ ...tokens, user: data.data });
+
+      dispatch({
+        type: 'AUTH_SUCCESS',
+        payload: { user: data.data, token: tokens.token },
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Single sign-on failed';
+      dispatch({ type: 'AUTH_ERROR', payload: errorMessage });
+      throw err;
+    }
+  };
+
+  // Logout function: sign out locally at once, then revoke the tokens on the server
   const logout = (): void => {
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('auth_user');
+    const token = localStorage.getItem('auth_token');
+    const refreshToken = localStorage.getItem('refresh_token');
+    clearSession();
     dispatch({ type: 'AUTH_LOGOUT' });
+
+    if (token || refreshToken) {
+      void revokeSession(token, refreshToken);
+    }
   };
 
   // Clear error function
@@ -195,6 +463,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     authState,
     login,
     signup,
+    loginWithSso,
+    completeSsoLogin,
+    verifyTwoFactor,
+    startTwoFactorSetup,
+    completeTwoFactorSetup,
+    cancelTwoFactor,
     logout,
     clearError,
   };
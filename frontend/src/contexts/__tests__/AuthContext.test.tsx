@@ -3,6 +3,7 @@ import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { AuthProvider, useAuth } from '../AuthContext';
+import { apiService } from '../../services/apiService';
 
 // Mock fetch
 const mockFetch = vi.fn();
@@ -294,6 +295,71 @@ describe('AuthContext', () => {
     expect(authState.user).toBe(null);
   });
 
+  it('revokes the session on the server when logging out', async () => {
+    const user = userEvent.setup();
+    const mockUser = { id: '1', email: 'test@example.com', name: 'Test User', role: 'interviewer' };
+    mockLocalStorage.getItem.mockImplementation((key) => {
+      if (key === 'auth_token') return 'mock-token';
+      if (key === 'auth_user') return JSON.stringify(mockUser);
+      if (key === 'refresh_token') return 'mock-refresh-token';
+      return null;
+    });
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ success: true }) });
+
+    render(
+      <AuthProvider>
+        <TestComponent />
+      </AuthProvider>
+    );
+
+    await waitFor(() => {
+      const authState = JSON.parse(screen.getByTestId('auth-state').textContent || '{}');
+      expect(authState.isAuthenticated).toBe(true);
+    });
+
+    await user.click(screen.getByTestId('logout-btn'));
+
+    expect(mockLocalStorage.removeItem).toHaveBeenCalledWith('refresh_token');
+    expect(mockFetch).toHaveBeenCalledWith('/api/auth/logout', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer mock-token' },
+      body: JSON.stringify({ refreshToken: 'mock-refresh-token' }),
+    });
+  });
+
+  it('renews the access token with the refresh token', async () => {
+    const mockUser = { id: '1', email: 'test@example.com', name: 'Test User', role: 'interviewer' };
+    mockLocalStorage.getItem.mockImplementation((key) => {
+      if (key === 'auth_token') return 'expired-token';
+      if (key === 'auth_user') return JSON.stringify(mockUser);
+      if (key === 'refresh_token') return 'mock-refresh-token';
+      return null;
+    });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: { user: mockUser, token: 'new-token', refreshToken: 'new-refresh-token', expiresIn: 900 },
+      }),
+    });
+
+    render(
+      <AuthProvider>
+        <TestComponent />
+      </AuthProvider>
+    );
+
+    await expect(apiService.refreshSession()).resolves.toBe(true);
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/auth/refresh', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken: 'mock-refresh-token' }),
+    });
+    expect(mockLocalStorage.setItem).toHaveBeenCalledWith('auth_token', 'new-token');
+    expect(mockLocalStorage.setItem).toHaveBeenCalledWith('refresh_token', 'new-refresh-token');
+    expect(mockLocalStorage.setItem).toHaveBeenCalledWith('auth_token_expires_at', expect.any(String));
+  });
+
   it('clears error when clearError is called', async () => {
     const user = userEvent.setup();
     
@@ -63,6 +63,8 @@ const getEventMessage = (event: DetectionEvent): string => {
       return 'Multiple voices detected';
     case 'excessive-noise':
       return 'High background noise detected';
+    case 'identity-mismatch':
+      return 'Candidate does not match the reference photo';
     default:
       return `Event: ${event.eventType}`;
   }
@@ -76,6 +78,7 @@ const getEventSeverity = (eventType: string): 'low' | 'medium' | 'high' => {
     case 'multiple-faces':
     case 'unauthorized-item':
     case 'multiple-voices':
+    case 'identity-mismatch':
       return 'high';
     case 'drowsiness':
     case 'eye-closure':
@@ -6,6 +6,8 @@ export interface UseEnhancedMonitoringOptions {
   sessionId: string;
   candidateId: string;
   onDetectionEvent?: (event: DetectionEvent) => void;
+  // Noise baseline measured by the pre-interview system check
+  baselineNoiseLevel?: number;
 }
 
 export interface EnhancedMonitoringState {
@@ -33,7 +35,8 @@ export interface EnhancedMonitoringState {
 export function useEnhancedMonitoring({
   sessionId,
   candidateId,
-  onDetectionEvent
+  onDetectionEvent,
+  baselineNoiseLevel
 }: UseEnhancedMonitoringOptions) {
   const serviceRef = useRef<EnhancedMonitoringService | null>(null);
   const [state, setState] = useState<EnhancedMonitoringState>({
@@ -80,6 +83,9 @@ export function useEnhancedMonitoring({
 
     try {
       setState(prev => ({ ...prev, error: null }));
+      if (baselineNoiseLevel !== undefined) {
+        serviceRef.current.audioDetection.setBaselineNoiseLevel(baselineNoiseLevel);
+      }
       await serviceRef.current.startMonitoring(sessionId, candidateId);
       
       setState(prev => ({
@@ -96,7 +102,7 @@ export function useEnhancedMonitoring({
       }));
       throw error;
     }
-  }, [sessionId, candidateId]);
+  }, [sessionId, candidateId, baselineNoiseLevel]);
 
   // Stop monitoring
   const stopMonitoring = useCallback(() => {
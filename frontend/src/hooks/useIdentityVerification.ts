@@ -0,0 +1,50 @@
+import { useCallback } from 'react';
+import { apiService } from '../services/apiService';
+import { captureFaceDescriptor } from '../utils/faceDescriptor';
+import type { IdentityVerificationResult } from '../types';
+
+type VerificationPhase = IdentityVerificationResult['phase'];
+
+interface UseIdentityVerificationOptions {
+  sessionId?: string;
+}
+
+export type IdentityCheckOutcome =
+  | { kind: 'checked'; result: IdentityVerificationResult }
+  | { kind: 'no-face' }
+  | { kind: 'unavailable'; message: string };
+
+interface UseIdentityVerificationReturn {
+  verify: (imageData: ImageData, phase: VerificationPhase) => Promise<IdentityCheckOutcome>;
+}
+
+/**
+ * Matches the candidate's face against the interviewer's reference photo.
+ * The comparison happens on the server, which also records mismatches as detection events.
+ */
+export const useIdentityVerification = ({
+  sessionId = ''
+}: UseIdentityVerificationOptions = {}): UseIdentityVerificationReturn => {
+  const verify = useCallback(async (imageData: ImageData, phase: VerificationPhase): Promise<IdentityCheckOutcome> => {
+    const descriptor = await captureFaceDescriptor(imageData);
+    if (!descriptor) {
+      return { kind: 'no-face' };
+    }
+
+    try {
+      const response = await apiService.post<IdentityVerificationResult>(
+        `/api/sessions/${sessionId}/identity/verify`,
+        { descriptor, phase }
+      );
+      if (!response.success || !response.data) {
+        return { kind: 'unavailable', message: response.message || 'Identity check failed' };
+      }
+      return { kind: 'checked', result: response.data };
+    } catch (error) {
+      // Most commonly the interviewer has not uploaded a reference photo yet
+      return { kind: 'unavailable', message: error instanceof Error ? error.message : 'Identity check failed' };
+    }
+  }, [sessionId]);
+
+  return { verify };
+};
@@ -1,4 +1,12 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+	clearPendingRecording,
+	loadPendingRecording,
+	savePendingRecording,
+	sha256Hex,
+	uploadRecording,
+	type PendingRecording
+} from '../utils/recordingUpload';
 
 interface UseScreenRecordingOptions {
 	sessionId: string;
@@ -19,6 +27,7 @@ export function useScreenRecording(options: UseScreenRecordingOptions) {
 
 	const mediaRecorderRef = useRef<MediaRecorder | null>(null);
 	const recordedChunksRef = useRef<Blob[]>([]);
+	const startedAtRef = useRef<Date | null>(null);
 	const metaRef = useRef<{ sessionId: string; candidateId: string }>({ sessionId, candidateId });
 	const [state, setState] = useState<RecordingState>({ isRecording: false, error: null, progress: 0, bytesRecorded: 0 });
 
@@ -27,6 +36,39 @@ export function useScreenRecording(options: UseScreenRecordingOptions) {
 		metaRef.current = { sessionId, candidateId };
 	}, [sessionId, candidateId]);
 
+	// Send a stored recording, resuming from the server's offset; it is forgotten once fully accepted
+	const send = useCallback(async (recording: PendingRecording) => {
+		await uploadRecording(recording, {
+			token: localStorage.getItem('auth_token'),
+			chunkSizeBytes,
+			onProgress: (uploaded, total) => {
+				setState(prev => ({ ...prev, progress: total ? Math.round((uploaded / total) * 100) : 100 }));
+			}
+		});
+		await clearPendingRecording(recording.sessionId, recording.candidateId);
+	}, [chunkSizeBytes]);
+
+	// A recording left unfinished by a reload or a lost connection is picked up where the server left off
+	useEffect(() => {
+		if (!sessionId || !candidateId) return;
+		let cancelled = false;
+
+		loadPendingRecording(sessionId, candidateId)
+			.then(pending => {
+				if (!pending || cancelled || mediaRecorderRef.current) return;
+				return send(pending);
+			})
+			.catch(e => {
+				if (!cancelled) {
+					setState(prev => ({ ...prev, error: e instanceof Error ? e.message : 'Failed to resume recording upload' }));
+				}
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [sessionId, candidateId, send]);
+
 	const start = useCallback((stream: MediaStream) => {
 		try {
 			if (mediaRecorderRef.current) {
@@ -52,6 +94,7 @@ export function useScreenRecording(options: UseScreenRecordingOptions) {
 			};
 
 			recorder.start(); // collect as one blob; we will slice on stop
+			startedAtRef.current = new Date();
 		} catch (e) {
 			setState({ isRecording: false, error: e instanceof Error ? e.message : 'Failed to start recording', progress: 0, bytesRecorded: 0 });
 		}
@@ -67,43 +110,24 @@ export function useScreenRecording(options: UseScreenRecordingOptions) {
 					const containerType = isMp4 ? 'video/mp4' : 'video/webm';
 					const blob = new Blob(recordedChunksRef.current, { type: containerType });
 					const filename = `${filenamePrefix}_${sessionId}_${Date.now()}.${isMp4 ? 'mp4' : 'webm'}`;
-					const token = localStorage.getItem('auth_token');
 					const { sessionId: sid, candidateId: cid } = metaRef.current;
 					if (!sid || !cid) {
 						throw new Error('Missing session or candidate information for upload');
 					}
-					const totalChunks = Math.ceil(blob.size / chunkSizeBytes);
-					let uploaded = 0;
-					for (let i = 0; i < totalChunks; i++) {
-						const start = i * chunkSizeBytes;
-						const end = Math.min(start + chunkSizeBytes, blob.size);
-						const chunkBlob = blob.slice(start, end, containerType);
-						const form = new FormData();
-						form.append('chunk', new File([chunkBlob], filename, { type: containerType }));
-						form.append('sessionId', sid);
-						form.append('candidateId', cid);
-						form.append('chunkIndex', String(i));
-						form.append('totalChunks', String(totalChunks));
-						form.append('filename', filename);
-
-						const res = await fetch(`${import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000'}/api/videos/upload`, {
-							method: 'POST',
-							headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-							body: form
-						});
-						if (!res.ok) {
-							if (res.status === 413) {
-								const data = await res.json().catch(() => ({}));
-								const maxMb = data?.maxChunkBytes ? Math.round(data.maxChunkBytes / (1024 * 1024)) : undefined;
-								throw new Error(`Chunk too large for server.${maxMb ? ` Max ${maxMb}MB per chunk.` : ''} Please retry.`);
-							}
-							const data = await res.json().catch(() => ({}));
-							throw new Error(data.error || data.message || `Upload failed at chunk ${i + 1}/${totalChunks}`);
-						}
-
-						uploaded += chunkBlob.size;
-						setState(prev => ({ ...prev, progress: Math.round((uploaded / blob.size) * 100) }));
-					}
+
+					const recording: PendingRecording = {
+						sessionId: sid,
+						candidateId: cid,
+						filename,
+						mimeType: containerType,
+						blob,
+						checksum: await sha256Hex(blob),
+						// Lets reviewers line detection events up with the recording
+						...(startedAtRef.current ? { recordingStartedAt: startedAtRef.current.toISOString() } : {})
+					};
+					// Kept until the server has every byte, so a reload does not lose the recording
+					await savePendingRecording(recording).catch(err => console.warn('Could not keep recording for resume:', err));
+					await send(recording);
 
 					setState(prev => ({ ...prev, isRecording: false }));
 					resolve({ success: true });
@@ -118,7 +142,7 @@ export function useScreenRecording(options: UseScreenRecordingOptions) {
 			recorder.stop();
 			mediaRecorderRef.current = null;
 		});
-		}, [chunkSizeBytes, filenamePrefix]);
+		}, [filenamePrefix, send]);
 
 	return {
 		...state,
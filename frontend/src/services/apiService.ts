@@ -14,9 +14,20 @@ interface RequestConfig extends RequestInit {
   requireAuth?: boolean;
 }
 
+// Auth data kept in localStorage
+const AUTH_STORAGE_KEYS = ['auth_token', 'auth_user', 'refresh_token', 'auth_token_expires_at'];
+
+// Whether a fetch call sent an Authorization header
+const hasAuthorization = (input: RequestInfo | URL, init?: RequestInit): boolean => {
+  const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+  return headers.has('Authorization');
+};
+
 class ApiService {
   private baseURL: string;
   private onUnauthorized?: () => void;
+  private tokenRefresher?: () => Promise<boolean>;
+  private refreshInFlight: Promise<boolean> | null = null;
 
   constructor() {
     this.baseURL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000';
@@ -30,6 +41,30 @@ class ApiService {
     this.onUnauthorized = handler;
   }
 
+  /**
+   * Set callback that exchanges the refresh token for a new access token
+   */
+  public setTokenRefresher(refresher: () => Promise<boolean>): void {
+    this.tokenRefresher = refresher;
+  }
+
+  /**
+   * Refresh the access token, sharing one attempt between concurrent callers
+   */
+  public refreshSession(): Promise<boolean> {
+    if (!this.tokenRefresher) {
+      return Promise.resolve(false);
+    }
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.tokenRefresher()
+        .catch(() => false)
+        .finally(() => {
+          this.refreshInFlight = null;
+        });
+    }
+    return this.refreshInFlight;
+  }
+
   /**
    * Get authentication token from localStorage
    */
@@ -51,6 +86,14 @@ class ApiService {
   public async request<T = any>(
     endpoint: string,
     config: RequestConfig = {}
+  ): Promise<ApiResponse<T>> {
+    return this.send<T>(endpoint, config, false);
+  }
+
+  private async send<T>(
+    endpoint: string,
+    config: RequestConfig,
+    isRetry: boolean
   ): Promise<ApiResponse<T>> {
     const { requireAuth = true, headers = {}, ...restConfig } = config;
 
@@ -76,9 +119,13 @@ class ApiService {
         headers: requestHeaders,
       });
 
-      // Handle 401 responses
+      // Handle 401 responses; the interceptor has already tried to refresh the session,
+      // so retry once if the token changed meanwhile
       if (response.status === 401) {
-        this.handleUnauthorized();
+        const currentToken = this.getAuthToken();
+        if (requireAuth && !isRetry && currentToken && `Bearer ${currentToken}` !== requestHeaders.Authorization) {
+          return this.send<T>(endpoint, config, true);
+        }
         throw new Error('Authentication failed');
       }
 
@@ -100,8 +147,7 @@ class ApiService {
    */
   private handleUnauthorized(): void {
     // Clear stored auth data
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('auth_user');
+    AUTH_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
     
     // Call the unauthorized handler if set
     if (this.onUnauthorized) {
@@ -120,8 +166,12 @@ class ApiService {
     window.fetch = async (...args) => {
       const response = await originalFetch(...args);
       
+      // An expired access token is renewed silently; the caller's next request uses the new one
       if (response.status === 401) {
-        this.handleUnauthorized();
+        const refreshed = hasAuthorization(...args) && await this.refreshSession();
+        if (!refreshed) {
+          this.handleUnauthorized();
+        }
       }
       
       return response;
@@ -154,14 +204,30 @@ class ApiService {
   }
 
   // Report-specific methods
-  public async generateReport(sessionId: string, includeManualObservations: boolean = true) {
-    return this.post('/api/reports/generate', { sessionId, includeManualObservations });
+  public async generateReport(
+    sessionId: string,
+    includeManualObservations: boolean = true,
+    scoringPolicy?: { name: string; version?: number }
+  ) {
+    return this.post('/api/reports/generate', {
+      sessionId,
+      includeManualObservations,
+      ...(scoringPolicy ? { scoringPolicy: scoringPolicy.name, scoringPolicyVersion: scoringPolicy.version } : {})
+    });
+  }
+
+  public async getScoringPolicies() {
+    return this.get('/api/scoring-policies');
   }
 
   public async getReportStatus(reportId: string) {
     return this.get(`/api/reports/${reportId}/status`);
   }
 
+  public async cancelReport(reportId: string) {
+    return this.post(`/api/reports/${reportId}/cancel`);
+  }
+
   public async getReport(reportId: string) {
     return this.get(`/api/reports/${reportId}`);
   }
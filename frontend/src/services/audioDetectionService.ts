@@ -115,6 +115,42 @@ export class AudioDetectionService {
     }
   }
 
+  /**
+   * Measure the room's baseline noise from an already-open stream, before the
+   * interview starts, so the baseline doesn't include the candidate speaking
+   */
+  public async calibrate(stream: MediaStream): Promise<number> {
+    if (!this.isInitialized || !this.audioContext || !this.analyser || !this.dataArray) {
+      throw new Error('Audio detection service not initialized');
+    }
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+
+    const source = this.audioContext.createMediaStreamSource(stream);
+    source.connect(this.analyser);
+    try {
+      let total = 0;
+      for (let i = 0; i < this.CALIBRATION_SAMPLES_COUNT; i++) {
+        await new Promise(resolve => setTimeout(resolve, this.ANALYSIS_INTERVAL));
+        this.analyser.getByteFrequencyData(this.dataArray);
+        total += this.calculateBackgroundNoise();
+      }
+      this.setBaselineNoiseLevel(total / this.CALIBRATION_SAMPLES_COUNT);
+      return this.baselineNoiseLevel;
+    } finally {
+      source.disconnect();
+    }
+  }
+
+  /**
+   * Use a previously calibrated baseline instead of calibrating on the first samples
+   */
+  public setBaselineNoiseLevel(level: number): void {
+    this.baselineNoiseLevel = level;
+    this.calibrationSamples = this.CALIBRATION_SAMPLES_COUNT;
+  }
+
   /**
    * Start continuous audio analysis
    */
@@ -3,7 +3,7 @@
 export interface DetectionEvent {
   sessionId: string;
   candidateId: string;
-  eventType: 'focus-loss' | 'absence' | 'face-visible' | 'multiple-faces' | 'unauthorized-item' | 'manual_flag' | 'inactivity' | 'long_session' | 'heartbeat' | 'drowsiness' | 'eye-closure' | 'excessive-blinking' | 'background-voice' | 'multiple-voices' | 'excessive-noise' | string;
+  eventType: 'focus-loss' | 'absence' | 'face-visible' | 'multiple-faces' | 'unauthorized-item' | 'manual_flag' | 'inactivity' | 'long_session' | 'heartbeat' | 'drowsiness' | 'eye-closure' | 'excessive-blinking' | 'background-voice' | 'multiple-voices' | 'excessive-noise' | 'identity-mismatch' | string;
   timestamp: Date;
   duration?: number;
   confidence: number;
@@ -18,7 +18,22 @@ export interface InterviewSession {
   endTime?: Date;
   duration?: number;
   videoUrl?: string;
-  status: 'active' | 'completed' | 'terminated';
+  // When the candidate's recorder started; playback offsets are measured from here
+  recordingStartedAt?: Date;
+  status: 'scheduled' | 'active' | 'completed' | 'terminated' | 'expired';
+  scheduledStartTime?: Date;
+  joinWindowMinutes?: number;
+  maxDurationMinutes?: number;
+  systemCheck?: SystemCheckResult;
+  identityVerification?: IdentityVerificationSummary;
+}
+
+// Signed single-use link a candidate uses to join a scheduled session
+export interface SessionInvitation {
+  invitationId: string;
+  token: string;
+  invitationUrl: string;
+  expiresAt: string;
 }
 
 export interface ProctoringReport {
@@ -33,16 +48,26 @@ export interface ProctoringReport {
   generatedAt: Date;
 }
 
+// Short clip and still cut from the recording around a high-severity event
+export interface EvidenceLink {
+  clipId: string;
+  clipUrl: string;
+  stillUrl: string;
+  startSeconds: number;
+  durationSeconds: number;
+}
+
 export interface SuspiciousEvent {
   eventType: string;
   timestamp: Date;
   duration?: number;
   description: string;
+  evidence?: EvidenceLink;
 }
 
 export interface Alert {
   id?: string;
-  type: 'focus-loss' | 'absence' | 'multiple-faces' | 'unauthorized-item' | 'manual_flag' | 'inactivity' | 'long_session' | 'heartbeat' | 'drowsiness' | 'eye-closure' | 'excessive-blinking' | 'background-voice' | 'multiple-voices' | 'excessive-noise' | string;
+  type: 'focus-loss' | 'absence' | 'multiple-faces' | 'unauthorized-item' | 'manual_flag' | 'inactivity' | 'long_session' | 'heartbeat' | 'drowsiness' | 'eye-closure' | 'excessive-blinking' | 'background-voice' | 'multiple-voices' | 'excessive-noise' | 'identity-mismatch' | string;
   message: string;
   timestamp: Date;
   severity: 'low' | 'medium' | 'high';
@@ -80,6 +105,94 @@ export interface VideoStreamError {
   originalError?: Error;
 }
 
+// 'unavailable' when the browser has no such device or no permissions API
+export type CameraPermissionState = 'granted' | 'denied' | 'prompt' | 'unavailable';
+
+export type SystemCheckStatus = 'passed' | 'warning' | 'failed';
+
+export interface MediaCheckResult {
+  permission: CameraPermissionState;
+  deviceLabel?: string;
+  status: SystemCheckStatus;
+}
+
+// Pre-interview system check, as submitted by the candidate and stored on the session
+export interface SystemCheckInput {
+  camera: MediaCheckResult;
+  microphone: MediaCheckResult;
+  frameProcessing: {
+    averageMs: number;
+    maxAllowedMs: number;
+    sampleCount: number;
+    status: SystemCheckStatus;
+  };
+  connection: {
+    connected: boolean;
+    latencyMs?: number;
+    status: SystemCheckStatus;
+  };
+  audio: {
+    baselineNoiseLevel: number;
+    status: SystemCheckStatus;
+  };
+  userAgent?: string;
+}
+
+export interface SystemCheckResult extends SystemCheckInput {
+  overallStatus: SystemCheckStatus;
+  completedAt: string;
+}
+
+export type IdentityVerificationStatus = 'pending' | 'verified' | 'mismatch';
+
+// Only present once the interviewer has uploaded a reference photo
+export interface IdentityVerificationSummary {
+  status: IdentityVerificationStatus;
+  referenceUploadedAt: string;
+  lastCheckedAt?: string;
+  lastSimilarity?: number;
+  checkCount: number;
+  mismatchCount: number;
+}
+
+export interface IdentityVerificationResult {
+  matched: boolean;
+  similarity: number;
+  threshold: number;
+  phase: 'initial' | 'periodic';
+  summary: IdentityVerificationSummary;
+}
+
+// Preview frames of a recording laid out in a grid, read left to right and top to bottom
+export interface VideoSpriteSheet {
+  url: string;
+  columns: number;
+  rows: number;
+  frameCount: number;
+  frameWidth: number;
+  frameHeight: number;
+  intervalSeconds: number;
+}
+
+// Probed properties of a stored recording (GET /api/videos/:videoId/metadata)
+export interface VideoAssetMetadata {
+  videoId: string;
+  // Short-lived signed link to stream the recording; poster and sprite URLs are signed too
+  url?: string;
+  size: number;
+  contentType: string;
+  checksum?: string;
+  duration?: number;
+  resolution?: { width: number; height: number };
+  frameRate?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  bitRate?: number;
+  poster?: { url: string; width: number; height: number };
+  sprite?: VideoSpriteSheet;
+  probedAt?: string;
+}
+
 export interface MediaConstraints {
   video: {
     width: { ideal: number };
@@ -255,18 +368,34 @@ export interface User {
   userId: string;
   email: string;
   name: string;
-  role: 'candidate' | 'interviewer';
+  // Admins sign in through single sign-on and use the interviewer screens
+  role: 'candidate' | 'interviewer' | 'admin';
   createdAt: Date;
   isActive: boolean;
   lastLogin?: Date;
 }
 
+// Second step of a password login: a code from an enrolled authenticator, or enrollment
+// first when the organization requires two-factor authentication for the user's role
+export interface TwoFactorChallenge {
+  step: 'verify' | 'enroll';
+  challengeToken: string;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of the otpauth URL
+  qrCode: string;
+}
+
 export interface AuthState {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  twoFactorChallenge?: TwoFactorChallenge | null;
 }
 
 export interface LoginCredentials {
@@ -296,6 +425,15 @@ export interface AuthContextType {
   authState: AuthState;
   login: (credentials: LoginCredentials) => Promise<void>;
   signup: (data: SignupData) => Promise<void>;
+  // Single sign-on for interviewers and admins
+  loginWithSso: (returnTo?: string) => void;
+  completeSsoLogin: (tokens: { token: string; refreshToken?: string; expiresIn?: number }) => Promise<void>;
+  // Second step of a password login
+  verifyTwoFactor: (code: string) => Promise<void>;
+  startTwoFactorSetup: () => Promise<TwoFactorEnrollment>;
+  // Resolves with the recovery codes; call finish() once the user has saved them to complete the login
+  completeTwoFactorSetup: (code: string) => Promise<{ recoveryCodes: string[]; finish: () => void }>;
+  cancelTwoFactor: () => void;
   logout: () => void;
   clearError: () => void;
 }
\ No newline at end of file
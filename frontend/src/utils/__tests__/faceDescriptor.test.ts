@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+import { computeFaceDescriptor } from '../faceDescriptor';
+import type { FaceLandmarks } from '../../types';
+
+vi.mock('../../services/faceMeshService', () => ({
+  faceMeshService: { estimateLandmarks: vi.fn() }
+}));
+
+// Deterministic pseudo face: every landmark gets a distinct position
+const createLandmarks = (offsetX = 0, offsetY = 0, scale = 1): FaceLandmarks[] =>
+  Array.from({ length: 478 }, (_, index) => ({
+    x: 0.3 + offsetX + scale * 0.4 * ((index * 37) % 101) / 101,
+    y: 0.2 + offsetY + scale * 0.5 * ((index * 53) % 97) / 97
+  }));
+
+describe('computeFaceDescriptor', () => {
+  it('should not depend on where the face is in the frame or how large it is', () => {
+    const descriptor = computeFaceDescriptor(createLandmarks(), 640, 480);
+    const movedAndScaled = computeFaceDescriptor(createLandmarks(-0.1, 0.05, 0.5), 640, 480);
+
+    expect(descriptor).not.toBeNull();
+    expect(descriptor!.length).toBeGreaterThanOrEqual(8);
+    movedAndScaled!.forEach((value, index) => expect(value).toBeCloseTo(descriptor![index]!, 3));
+  });
+
+  it('should measure distances in pixels rather than normalized coordinates', () => {
+    const landscape = computeFaceDescriptor(createLandmarks(), 1280, 720);
+    const square = computeFaceDescriptor(createLandmarks(), 720, 720);
+
+    expect(landscape).not.toEqual(square);
+  });
+
+  it('should return null without a full set of landmarks', () => {
+    expect(computeFaceDescriptor(createLandmarks().slice(0, 100), 640, 480)).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { Blob as NodeBlob } from 'node:buffer';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { sha256Hex, uploadChecksumHeader, uploadRecording, type PendingRecording } from '../recordingUpload';
+
+// jsdom's Blob has no arrayBuffer(); Node's does
+const blobOf = (content: string) => new NodeBlob([content], { type: 'video/webm' }) as unknown as Blob;
+
+const jsonResponse = (status: number, data: Record<string, unknown>, headers: Record<string, string> = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: new Headers(headers),
+  json: async () => data
+});
+
+const recording = (content: string): PendingRecording => ({
+  sessionId: 'session-1',
+  candidateId: 'candidate-1',
+  filename: 'recording.webm',
+  mimeType: 'video/webm',
+  blob: blobOf(content),
+  checksum: 'f'.repeat(64),
+  recordingStartedAt: '2026-03-02T10:00:00.000Z'
+});
+
+describe('recordingUpload', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('hashes blobs as hex and as an Upload-Checksum header', async () => {
+    const blob = blobOf('abc');
+
+    expect(await sha256Hex(blob)).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(await uploadChecksumHeader(blob)).toBe('sha256 ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=');
+  });
+
+  it('opens the upload and sends each chunk from the offset the server reports', async () => {
+    const fetchMock = vi.fn()
+      // Resumed upload: the first four bytes already arrived before a reload
+      .mockResolvedValueOnce(jsonResponse(200, { success: true, data: { uploadId: 'upload-1', offset: 4, chunkSize: 4 } }))
+      .mockResolvedValueOnce(jsonResponse(200, { success: true, data: { uploadId: 'upload-1', offset: 8 } }))
+      .mockResolvedValueOnce(jsonResponse(200, { success: true, data: { uploadId: 'upload-1', offset: 10, videoId: 'video-1' } }));
+    global.fetch = fetchMock as any;
+    const onProgress = vi.fn();
+
+    const result = await uploadRecording(recording('0123456789'), {
+      token: 'abc',
+      chunkSizeBytes: 8,
+      baseUrl: 'http://api',
+      onProgress
+    });
+
+    expect(result).toEqual({ uploadId: 'upload-1', videoId: 'video-1' });
+    expect(fetchMock).toHaveBeenNthCalledWith(1, 'http://api/api/videos/uploads', expect.objectContaining({ method: 'POST' }));
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      sessionId: 'session-1',
+      candidateId: 'candidate-1',
+      filename: 'recording.webm',
+      mimeType: 'video/webm',
+      totalSize: 10,
+      chunkSize: 8,
+      checksum: 'f'.repeat(64),
+      recordingStartedAt: '2026-03-02T10:00:00.000Z'
+    });
+
+    const [url, patch] = fetchMock.mock.calls[1];
+    expect(url).toBe('http://api/api/videos/uploads/upload-1');
+    expect(patch.method).toBe('PATCH');
+    expect(patch.headers).toMatchObject({
+      Authorization: 'Bearer abc',
+      'Content-Type': 'application/offset+octet-stream',
+      'Upload-Offset': '4',
+      'Upload-Checksum': await uploadChecksumHeader(blobOf('4567'))
+    });
+    expect(fetchMock.mock.calls[2][1].headers['Upload-Offset']).toBe('8');
+    expect(onProgress).toHaveBeenLastCalledWith(10, 10);
+  });
+
+  it('continues from the server offset after an offset conflict', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(201, { success: true, data: { uploadId: 'upload-1', offset: 0, chunkSize: 5 } }))
+      .mockResolvedValueOnce(jsonResponse(409, { success: false, error: 'Upload offset is 5, not 0' }, { 'Upload-Offset': '5' }))
+      .mockResolvedValueOnce(jsonResponse(200, { success: true, data: { uploadId: 'upload-1', offset: 10 } }));
+    global.fetch = fetchMock as any;
+
+    await uploadRecording(recording('0123456789'), { token: null, chunkSizeBytes: 5, baseUrl: 'http://api' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[2][1].headers['Upload-Offset']).toBe('5');
+  });
+
+  it('reports the server error when a chunk is rejected', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(201, { success: true, data: { uploadId: 'upload-1', offset: 0, chunkSize: 10 } }))
+      .mockResolvedValueOnce(jsonResponse(460, { success: false, error: 'Chunk 0 checksum mismatch' })) as any;
+
+    await expect(uploadRecording(recording('0123456789'), { token: null, chunkSizeBytes: 10, baseUrl: 'http://api' }))
+      .rejects.toThrow('Chunk 0 checksum mismatch');
+  });
+});
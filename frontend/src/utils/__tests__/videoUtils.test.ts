@@ -10,6 +10,9 @@ import {
   formatDuration,
   blobToBase64,
   createVideoThumbnail,
+  getLocalVideoId,
+  getRecordingOffset,
+  getSpriteFrameOffset,
   DEFAULT_VIDEO_CONSTRAINTS,
   HIGH_QUALITY_CONSTRAINTS,
   LOW_BANDWIDTH_CONSTRAINTS
@@ -361,4 +364,50 @@ describe('videoUtils', () => {
       await expect(createVideoThumbnail(mockBlob)).rejects.toThrow('Canvas context not available');
     });
   });
-});
\ No newline at end of file
+
+  describe('getLocalVideoId', () => {
+    const videoId = '3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e';
+
+    it('extracts the id from API recording URLs', () => {
+      expect(getLocalVideoId(`/api/videos/${videoId}`)).toBe(videoId);
+      expect(getLocalVideoId(`http://localhost:5000/api/videos/${videoId}?expires=1760000000&signature=f00d`)).toBe(videoId);
+    });
+
+    it('returns null for cloud and missing URLs', () => {
+      expect(getLocalVideoId('https://res.cloudinary.com/demo/video/upload/recording.mp4')).toBeNull();
+      expect(getLocalVideoId(undefined)).toBeNull();
+    });
+  });
+
+  describe('getSpriteFrameOffset', () => {
+    const sprite = {
+      url: '/api/videos/id/sprite',
+      columns: 10,
+      rows: 3,
+      frameCount: 25,
+      frameWidth: 160,
+      frameHeight: 90,
+      intervalSeconds: 2
+    };
+
+    it('maps a time to its frame in the grid', () => {
+      expect(getSpriteFrameOffset(sprite, 0)).toEqual({ x: 0, y: 0 });
+      expect(getSpriteFrameOffset(sprite, 25)).toEqual({ x: 320, y: 90 });
+    });
+
+    it('clamps times past the last frame', () => {
+      expect(getSpriteFrameOffset(sprite, 500)).toEqual({ x: 640, y: 180 });
+      expect(getSpriteFrameOffset(sprite, -3)).toEqual({ x: 0, y: 0 });
+    });
+  });
+
+  describe('getRecordingOffset', () => {
+    it('measures seconds from the start of the recording', () => {
+      expect(getRecordingOffset('2026-03-01T12:01:30.500Z', new Date('2026-03-01T12:00:00Z'))).toBe(90.5);
+    });
+
+    it('is negative for moments before recording started', () => {
+      expect(getRecordingOffset('2026-03-01T11:59:50Z', '2026-03-01T12:00:00Z')).toBe(-10);
+    });
+  });
+});
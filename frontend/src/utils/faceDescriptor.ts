@@ -0,0 +1,68 @@
+import type { FaceLandmarks } from '../types';
+import { faceMeshService } from '../services/faceMeshService';
+
+// MediaPipe Face Mesh indices of the outer eye corners; their distance is the unit of every ratio
+const LEFT_EYE_OUTER = 33;
+const RIGHT_EYE_OUTER = 263;
+
+/**
+ * Landmark pairs whose distances describe face geometry. Lip and eyelid
+ * openings are left out so expressions and blinks do not change the descriptor.
+ */
+const DESCRIPTOR_PAIRS: Array<[number, number]> = [
+  [133, 362], // inner eye corners
+  [168, 1], // nose bridge to tip
+  [1, 152], // nose tip to chin
+  [10, 152], // face height
+  [234, 454], // face width
+  [61, 291], // mouth width
+  [98, 327], // nose width
+  [70, 300], // brow span
+  [LEFT_EYE_OUTER, 1],
+  [RIGHT_EYE_OUTER, 1],
+  [1, 61],
+  [1, 291],
+  [168, 10],
+  [LEFT_EYE_OUTER, 234],
+  [RIGHT_EYE_OUTER, 454],
+  [152, 61],
+  [152, 291]
+];
+
+const MIN_LANDMARKS = 468;
+
+/**
+ * Turn Face Mesh landmarks into a scale and position independent descriptor.
+ * Landmarks are normalized per axis, so the frame size is needed to measure real distances.
+ * Returns null when the landmarks do not cover a full face.
+ */
+export const computeFaceDescriptor = (
+  landmarks: FaceLandmarks[],
+  frameWidth: number,
+  frameHeight: number
+): number[] | null => {
+  if (landmarks.length < MIN_LANDMARKS) {
+    return null;
+  }
+
+  const distance = (a: number, b: number): number => {
+    const dx = (landmarks[a]!.x - landmarks[b]!.x) * frameWidth;
+    const dy = (landmarks[a]!.y - landmarks[b]!.y) * frameHeight;
+    return Math.hypot(dx, dy);
+  };
+
+  const unit = distance(LEFT_EYE_OUTER, RIGHT_EYE_OUTER);
+  if (unit === 0) {
+    return null;
+  }
+
+  return DESCRIPTOR_PAIRS.map(([a, b]) => Math.round((distance(a, b) / unit) * 10000) / 10000);
+};
+
+/**
+ * Estimate landmarks for a frame and describe the face in it, or null when no face was found
+ */
+export const captureFaceDescriptor = async (imageData: ImageData): Promise<number[] | null> => {
+  const landmarks = await faceMeshService.estimateLandmarks(imageData);
+  return computeFaceDescriptor(landmarks, imageData.width, imageData.height);
+};
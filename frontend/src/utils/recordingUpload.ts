@@ -0,0 +1,163 @@
+/**
+ * Resumable recording uploads. A finished recording is kept in IndexedDB until the
+ * server has all of it, and is sent with the backend's offset-based protocol (modelled
+ * on tus): open the upload with the file's size and SHA-256, then PATCH chunks from the
+ * offset the server reports. Opening the same file again after a reload resumes it.
+ */
+
+export interface PendingRecording {
+  sessionId: string;
+  candidateId: string;
+  filename: string;
+  mimeType: string;
+  blob: Blob;
+  // Hex SHA-256 of the whole recording
+  checksum: string;
+  recordingStartedAt?: string;
+}
+
+interface UploadOptions {
+  token: string | null;
+  chunkSizeBytes: number;
+  baseUrl?: string;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+}
+
+const DB_NAME = 'recording-uploads';
+const STORE_NAME = 'pending';
+
+const pendingKey = (sessionId: string, candidateId: string) => `${sessionId}:${candidateId}`;
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  let binary = '';
+  new Uint8Array(buffer).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const digest = async (blob: Blob): Promise<ArrayBuffer> =>
+  crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+
+export const sha256Hex = async (blob: Blob): Promise<string> => toHex(await digest(blob));
+
+// Value of the Upload-Checksum header: algorithm and base64 digest
+export const uploadChecksumHeader = async (blob: Blob): Promise<string> => `sha256 ${toBase64(await digest(blob))}`;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  if (!db) return undefined;
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const savePendingRecording = async (recording: PendingRecording): Promise<void> => {
+  await withStore('readwrite', store => store.put(recording, pendingKey(recording.sessionId, recording.candidateId)));
+};
+
+export const loadPendingRecording = async (sessionId: string, candidateId: string): Promise<PendingRecording | null> =>
+  (await withStore<PendingRecording>('readonly', store => store.get(pendingKey(sessionId, candidateId)))) ?? null;
+
+export const clearPendingRecording = async (sessionId: string, candidateId: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(pendingKey(sessionId, candidateId)));
+};
+
+const errorMessage = async (response: Response, fallback: string): Promise<string> => {
+  const data = await response.json().catch(() => ({}));
+  if (response.status === 413) {
+    const maxMb = data?.maxChunkBytes ? Math.round(data.maxChunkBytes / (1024 * 1024)) : undefined;
+    return `Chunk too large for server.${maxMb ? ` Max ${maxMb}MB per chunk.` : ''} Please retry.`;
+  }
+  return data.error || data.message || fallback;
+};
+
+/**
+ * Send a recording, continuing from whatever the server already holds.
+ * Resolves with the server's upload status once every byte has been accepted.
+ */
+export async function uploadRecording(recording: PendingRecording, options: UploadOptions): Promise<{ uploadId: string; videoId?: string }> {
+  const { token, chunkSizeBytes, baseUrl = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000', onProgress } = options;
+  const authHeaders: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+  const totalSize = recording.blob.size;
+
+  const opened = await fetch(`${baseUrl}/api/videos/uploads`, {
+    method: 'POST',
+    headers: { ...authHeaders, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      sessionId: recording.sessionId,
+      candidateId: recording.candidateId,
+      filename: recording.filename,
+      mimeType: recording.mimeType,
+      totalSize,
+      chunkSize: chunkSizeBytes,
+      checksum: recording.checksum,
+      ...(recording.recordingStartedAt ? { recordingStartedAt: recording.recordingStartedAt } : {})
+    })
+  });
+  if (!opened.ok) {
+    throw new Error(await errorMessage(opened, 'Failed to start recording upload'));
+  }
+
+  let status = (await opened.json()).data as { uploadId: string; offset: number; chunkSize: number; videoId?: string };
+  // A resumed upload keeps the chunk size it was opened with
+  const chunkSize = status.chunkSize || chunkSizeBytes;
+  let offset = status.offset;
+  onProgress?.(offset, totalSize);
+
+  while (offset < totalSize) {
+    const chunk = recording.blob.slice(offset, Math.min(offset + chunkSize, totalSize));
+    const response = await fetch(`${baseUrl}/api/videos/uploads/${status.uploadId}`, {
+      method: 'PATCH',
+      headers: {
+        ...authHeaders,
+        'Content-Type': 'application/offset+octet-stream',
+        'Upload-Offset': String(offset),
+        'Upload-Checksum': await uploadChecksumHeader(chunk)
+      },
+      body: chunk
+    });
+
+    // The server holds a different offset (e.g. a retried request already landed); continue from there
+    const serverOffset = Number(response.headers.get('Upload-Offset'));
+    if (response.status === 409 && Number.isInteger(serverOffset) && serverOffset !== offset) {
+      offset = serverOffset;
+      continue;
+    }
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, `Upload failed at byte ${offset} of ${totalSize}`));
+    }
+
+    status = (await response.json()).data;
+    offset = status.offset;
+    onProgress?.(offset, totalSize);
+  }
+
+  return { uploadId: status.uploadId, ...(status.videoId ? { videoId: status.videoId } : {}) };
+}
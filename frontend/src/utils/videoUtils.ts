@@ -1,4 +1,4 @@
-import type { MediaConstraints, VideoStreamError } from '../types';
+import type { CameraPermissionState, MediaConstraints, VideoSpriteSheet, VideoStreamError } from '../types';
 
 /**
  * Default media constraints for video streaming
@@ -93,6 +93,38 @@ export const getAudioDevices = async (): Promise<MediaDeviceInfo[]> => {
   }
 };
 
+/**
+ * Query the browser's permission state for the camera or microphone.
+ * Browsers without the Permissions API (or without these names) report 'prompt'.
+ */
+export const queryMediaPermission = async (
+  name: 'camera' | 'microphone'
+): Promise<CameraPermissionState> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    return 'unavailable';
+  }
+  try {
+    const status = await navigator.permissions.query({ name: name as PermissionName });
+    return status.state;
+  } catch {
+    return 'prompt';
+  }
+};
+
+/**
+ * Map a getUserMedia failure to the permission state it implies
+ */
+export const getPermissionStateFromError = (error: unknown): CameraPermissionState => {
+  const name = (error as Error | undefined)?.name;
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return 'denied';
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return 'unavailable';
+  }
+  return 'prompt';
+};
+
 /**
  * Create constraints for a specific device
  */
@@ -257,4 +289,29 @@ export const createVideoThumbnail = (blob: Blob, timeOffset: number = 1): Promis
     video.src = URL.createObjectURL(blob);
     video.load();
   });
-};
\ No newline at end of file
+};
+
+/**
+ * Extract the id of a recording served by our API, or null for external (cloud) URLs
+ */
+export const getLocalVideoId = (videoUrl: string | undefined | null): string | null => {
+  const match = videoUrl?.match(/\/api\/videos\/([0-9a-f-]{36})(?:[/?]|$)/i);
+  return match ? match[1]! : null;
+};
+
+/**
+ * Background offset (in pixels) of the sprite frame closest to a playback time
+ */
+export const getSpriteFrameOffset = (sprite: VideoSpriteSheet, time: number): { x: number; y: number } => {
+  const index = Math.max(0, Math.min(sprite.frameCount - 1, Math.floor(time / sprite.intervalSeconds)));
+  return {
+    x: (index % sprite.columns) * sprite.frameWidth,
+    y: Math.floor(index / sprite.columns) * sprite.frameHeight
+  };
+};
+
+/**
+ * Seconds into a recording at which a wall-clock timestamp falls (negative if before it started)
+ */
+export const getRecordingOffset = (timestamp: Date | string, recordingStartedAt: Date | string): number =>
+  (new Date(timestamp).getTime() - new Date(recordingStartedAt).getTime()) / 1000;
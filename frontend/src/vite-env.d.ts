@@ -4,6 +4,8 @@ interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string
   readonly VITE_WS_URL: string
   readonly VITE_NODE_ENV: string
+  // 'true' shows the single sign-on button on the login form
+  readonly VITE_OIDC_ENABLED?: string
   // Add other env variables here as needed
 }
 
@@ -14,9 +14,14 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
       '@/components': path.resolve(__dirname, './src/components'),
       '@/lib': path.resolve(__dirname, './src/lib'),
+      '@shared': path.resolve(__dirname, '../shared'),
     },
   },
   server: {
+    fs: {
+      // Allow importing modules shared with the backend
+      allow: ['..'],
+    },
     proxy: {
       '/api': {
         target: process.env.VITE_API_BASE_URL || 'http://localhost:5000',
@@ -0,0 +1,308 @@
+// Integrity scoring engine shared by the backend (live summary and final
+// reports) and the frontend live dashboard, so every surface reports the
+// same score and breakdown. Must stay free of runtime dependencies and of
+// non-erasable syntax (enums, namespaces) so both toolchains can compile it.
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Every detection event type, in display order (mirrors the EventType enum)
+export const EVENT_TYPES = [
+  'focus-loss',
+  'absence',
+  'face-visible',
+  'multiple-faces',
+  'unauthorized-item',
+  'drowsiness',
+  'eye-closure',
+  'excessive-blinking',
+  'background-voice',
+  'multiple-voices',
+  'excessive-noise',
+  'identity-mismatch'
+] as const;
+
+export interface ScoringRule {
+  pointsPerIncident: number;
+  pointsPerSecond: number;
+  maxPerIncident?: number | undefined;
+  maxTotal?: number | undefined;
+}
+
+export interface ScoringPolicy {
+  name: string;
+  version: number;
+  description?: string | undefined;
+  baseScore: number;
+  eventRules: Record<string, ScoringRule>;
+  manualObservationPoints: number;
+  severityMultipliers: {
+    low: number;
+    medium: number;
+    high: number;
+  };
+  isDefault: boolean;
+}
+
+export interface ScoringPolicyRef {
+  name: string;
+  version: number;
+}
+
+export interface EventTypeStat {
+  eventType: string;
+  count: number;
+  totalDuration: number;
+}
+
+// Minimal shapes the scoring engine needs; detection events and manual
+// observations (documents or plain objects) both satisfy these.
+export interface ScorableEvent {
+  eventType: string;
+  duration?: number | undefined;
+}
+
+export interface ScorableObservation {
+  severity: string;
+  flagged: boolean;
+}
+
+export interface EventTypeDeduction {
+  eventType: string;
+  count: number;
+  totalDuration: number;
+  pointsPerIncident: number;
+  pointsPerSecond: number;
+  deduction: number;
+  capped: boolean;
+}
+
+export interface IntegrityBreakdown {
+  baseScore: number;
+  deductions: {
+    focusLoss: number;
+    absence: number;
+    multipleFaces: number;
+    unauthorizedItems: number;
+    drowsiness: number;
+    eyeClosure: number;
+    excessiveBlinking: number;
+    backgroundVoice: number;
+    multipleVoices: number;
+    excessiveNoise: number;
+    identityMismatch: number;
+    manualObservations: number;
+    total: number;
+  };
+  eventDeductions: EventTypeDeduction[];
+  flaggedObservationCount: number;
+  finalScore: number;
+  formula: string;
+  policy: ScoringPolicyRef;
+}
+
+// ============================================================================
+// BUILT-IN POLICIES
+// ============================================================================
+
+/**
+ * First built-in policy. Mirrors the original fixed deductions (-2/-5/-10/-15,
+ * manual flags 2/5/10) and ignores drowsiness and audio events. Kept so reports
+ * scored before version 2 can still be reproduced.
+ */
+export const LEGACY_SCORING_POLICY: ScoringPolicy = {
+  name: 'standard',
+  version: 1,
+  description: 'Fixed per-incident deductions for focus, presence and item violations',
+  baseScore: 100,
+  eventRules: {
+    ['focus-loss']: { pointsPerIncident: 2, pointsPerSecond: 0 },
+    ['absence']: { pointsPerIncident: 5, pointsPerSecond: 0 },
+    ['multiple-faces']: { pointsPerIncident: 10, pointsPerSecond: 0 },
+    ['unauthorized-item']: { pointsPerIncident: 15, pointsPerSecond: 0 }
+  },
+  manualObservationPoints: 5,
+  severityMultipliers: {
+    low: 0.4,
+    medium: 1,
+    high: 2
+  },
+  isDefault: false
+};
+
+/**
+ * Second built-in policy. Adds drowsiness and audio deductions on top of
+ * version 1 but does not score identity mismatches.
+ */
+export const AUDIO_SCORING_POLICY: ScoringPolicy = {
+  ...LEGACY_SCORING_POLICY,
+  version: 2,
+  description: 'Fixed per-incident deductions for focus, presence, item, drowsiness and audio violations',
+  eventRules: {
+    ...LEGACY_SCORING_POLICY.eventRules,
+    ['drowsiness']: { pointsPerIncident: 3, pointsPerSecond: 0 },
+    ['eye-closure']: { pointsPerIncident: 2, pointsPerSecond: 0 },
+    ['excessive-blinking']: { pointsPerIncident: 1, pointsPerSecond: 0 },
+    ['background-voice']: { pointsPerIncident: 8, pointsPerSecond: 0 },
+    ['multiple-voices']: { pointsPerIncident: 12, pointsPerSecond: 0 },
+    ['excessive-noise']: { pointsPerIncident: 6, pointsPerSecond: 0 }
+  },
+  isDefault: false
+};
+
+/**
+ * Built-in policy used when no policy has been stored in the database.
+ * Adds identity mismatch deductions on top of version 2.
+ */
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+  ...AUDIO_SCORING_POLICY,
+  version: 3,
+  description: 'Fixed per-incident deductions for focus, presence, item, drowsiness, audio and identity violations',
+  eventRules: {
+    ...AUDIO_SCORING_POLICY.eventRules,
+    ['identity-mismatch']: { pointsPerIncident: 20, pointsPerSecond: 0 }
+  },
+  isDefault: true
+};
+
+// Every version of the built-in policy, oldest first
+export const BUILT_IN_SCORING_POLICIES: ScoringPolicy[] = [
+  LEGACY_SCORING_POLICY,
+  AUDIO_SCORING_POLICY,
+  DEFAULT_SCORING_POLICY
+];
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+const EVENT_LABELS: Record<string, string> = {
+  ['focus-loss']: 'focus loss',
+  ['absence']: 'absence',
+  ['multiple-faces']: 'multiple faces',
+  ['unauthorized-item']: 'unauthorized items',
+  ['drowsiness']: 'drowsiness',
+  ['eye-closure']: 'eye closure',
+  ['excessive-blinking']: 'excessive blinking',
+  ['background-voice']: 'background voice',
+  ['multiple-voices']: 'multiple voices',
+  ['excessive-noise']: 'excessive noise',
+  ['identity-mismatch']: 'identity mismatch'
+};
+
+/**
+ * Human-readable label for an event type, used in formulas and report tables
+ */
+export const getEventTypeLabel = (eventType: string): string =>
+  EVENT_LABELS[eventType] || eventType.replace(/[-_]/g, ' ');
+
+const roundPoints = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Deduction for a single incident: flat points plus duration-weighted points,
+ * limited by the rule's per-incident cap
+ */
+const incidentDeduction = (rule: ScoringRule, duration?: number): number => {
+  const durationPoints = (rule.pointsPerSecond || 0) * Math.max(0, duration || 0);
+  const points = rule.pointsPerIncident + durationPoints;
+  return rule.maxPerIncident !== undefined ? Math.min(points, rule.maxPerIncident) : points;
+};
+
+/**
+ * Count and total duration for every known event type (zero when absent)
+ */
+export const summarizeEventTypes = (events: ScorableEvent[]): EventTypeStat[] =>
+  EVENT_TYPES.map(eventType => {
+    const matching = events.filter(event => event.eventType === eventType);
+    return {
+      eventType,
+      count: matching.length,
+      totalDuration: roundPoints(matching.reduce((sum, event) => sum + (event.duration || 0), 0))
+    };
+  });
+
+/**
+ * Expand stored per-type counts into scorable events (durations unknown)
+ */
+export const eventsFromCounts = (counts: Record<string, number>): ScorableEvent[] =>
+  Object.entries(counts).flatMap(([eventType, count]) =>
+    Array.from({ length: Math.max(0, count || 0) }, () => ({ eventType }))
+  );
+
+/**
+ * Calculate the integrity score breakdown for a set of events and manual
+ * observations under the given scoring policy
+ */
+export const calculateIntegrityBreakdown = (
+  events: ScorableEvent[],
+  manualObservations: ScorableObservation[],
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+): IntegrityBreakdown => {
+  const eventDeductions: EventTypeDeduction[] = Object.entries(policy.eventRules).map(([eventType, rule]) => {
+    const matching = events.filter(event => event.eventType === eventType);
+    const rawDeduction = matching.reduce((sum, event) => sum + incidentDeduction(rule, event.duration), 0);
+    const capped = rule.maxTotal !== undefined && rawDeduction > rule.maxTotal;
+
+    return {
+      eventType,
+      count: matching.length,
+      totalDuration: matching.reduce((sum, event) => sum + (event.duration || 0), 0),
+      pointsPerIncident: rule.pointsPerIncident,
+      pointsPerSecond: rule.pointsPerSecond || 0,
+      deduction: roundPoints(capped ? rule.maxTotal! : rawDeduction),
+      capped
+    };
+  });
+
+  // Flagged manual observations deduct base points scaled by severity
+  const flaggedObservations = manualObservations.filter(obs => obs.flagged);
+  const manualObservationsDeduction = roundPoints(flaggedObservations.reduce((sum, obs) => {
+    const multiplier = policy.severityMultipliers[obs.severity as keyof ScoringPolicy['severityMultipliers']] ?? 0;
+    return sum + policy.manualObservationPoints * multiplier;
+  }, 0));
+
+  const deductionFor = (eventType: string): number =>
+    eventDeductions.find(item => item.eventType === eventType)?.deduction || 0;
+
+  const totalDeductions = roundPoints(
+    eventDeductions.reduce((sum, item) => sum + item.deduction, 0) + manualObservationsDeduction
+  );
+  const finalScore = roundPoints(policy.baseScore - totalDeductions); // Allow negative scores
+
+  // Create readable formula
+  const deductionParts = eventDeductions
+    .filter(item => item.deduction > 0)
+    .map(item => `${item.count} ${getEventTypeLabel(item.eventType)} (${item.deduction})`);
+  if (manualObservationsDeduction > 0) {
+    deductionParts.push(`${flaggedObservations.length} manual flags (${manualObservationsDeduction})`);
+  }
+
+  const formula = deductionParts.length > 0
+    ? `${policy.baseScore} - [${deductionParts.join(' + ')}] = ${finalScore}`
+    : `${policy.baseScore} - 0 = ${finalScore}`;
+
+  return {
+    baseScore: policy.baseScore,
+    deductions: {
+      focusLoss: deductionFor('focus-loss'),
+      absence: deductionFor('absence'),
+      multipleFaces: deductionFor('multiple-faces'),
+      unauthorizedItems: deductionFor('unauthorized-item'),
+      drowsiness: deductionFor('drowsiness'),
+      eyeClosure: deductionFor('eye-closure'),
+      excessiveBlinking: deductionFor('excessive-blinking'),
+      backgroundVoice: deductionFor('background-voice'),
+      multipleVoices: deductionFor('multiple-voices'),
+      excessiveNoise: deductionFor('excessive-noise'),
+      identityMismatch: deductionFor('identity-mismatch'),
+      manualObservations: manualObservationsDeduction,
+      total: totalDeductions
+    },
+    eventDeductions,
+    flaggedObservationCount: flaggedObservations.length,
+    finalScore,
+    formula,
+    policy: { name: policy.name, version: policy.version }
+  };
+};
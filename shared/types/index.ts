@@ -16,7 +16,8 @@ export enum EventType {
   EXCESSIVE_BLINKING = 'excessive-blinking',
   BACKGROUND_VOICE = 'background-voice',
   MULTIPLE_VOICES = 'multiple-voices',
-  EXCESSIVE_NOISE = 'excessive-noise'
+  EXCESSIVE_NOISE = 'excessive-noise',
+  IDENTITY_MISMATCH = 'identity-mismatch'
 }
 
 export enum SessionStatus {